@@ -1,4 +1,4 @@
-import React, { useState, lazy, Suspense } from 'react';
+import React, { useState, useEffect, lazy, Suspense } from 'react';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import LoginView from './components/LoginView';
@@ -7,6 +7,7 @@ import NotificationManager from './components/NotificationManager';
 import { ICONS } from './constants';
 import { BitacoraProvider, useBitacora } from './context/BitacoraContext';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { useTranslation } from './hooks/useTranslation';
 import { motion, AnimatePresence } from 'framer-motion';
 
 // Lazy load heavy components for better initial load performance
@@ -18,6 +19,7 @@ const AIQueryView = lazy(() => import('./components/AIQueryView'));
 const UserProfileView = lazy(() => import('./components/UserProfileView'));
 const PeopleView = lazy(() => import('./components/PeopleView'));
 const InsightsView = lazy(() => import('./components/InsightsView'));
+const TrashView = lazy(() => import('./components/TrashView'));
 
 // Loading fallback component
 const LoadingFallback = () => (
@@ -29,6 +31,7 @@ const LoadingFallback = () => (
 // Bottom Navigation Component for Mobile
 const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSummaryClick, onQueryClick }: any) => {
   const [showMoreMenu, setShowMoreMenu] = useState(false);
+  const { t } = useTranslation();
 
   return (
     <>
@@ -38,7 +41,7 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
               className={`flex flex-col items-center gap-1 transition-colors p-2 flex-1 ${activeView === 'dashboard' ? 'text-indigo-600' : 'text-gray-400'}`}
           >
               <ICONS.Home size={22} strokeWidth={activeView === 'dashboard' ? 2.5 : 2} />
-              <span className="text-[10px] font-medium">Inicio</span>
+              <span className="text-[10px] font-medium">{t('nav.home')}</span>
           </button>
           
           <button 
@@ -46,7 +49,7 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
               className={`flex flex-col items-center gap-1 transition-colors p-2 flex-1 ${activeView === 'tasks' ? 'text-indigo-600' : 'text-gray-400'}`}
           >
               <ICONS.ListTodo size={22} strokeWidth={activeView === 'tasks' ? 2.5 : 2} />
-              <span className="text-[10px] font-medium">Misiones</span>
+              <span className="text-[10px] font-medium">{t('nav.tasksShort')}</span>
           </button>
 
           <button 
@@ -54,7 +57,7 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
               className={`flex flex-col items-center gap-1 transition-colors p-2 flex-1 ${activeView === 'search' ? 'text-indigo-600' : 'text-gray-400'}`}
           >
               <ICONS.Search size={22} strokeWidth={activeView === 'search' ? 2.5 : 2} />
-              <span className="text-[10px] font-medium">Buscar</span>
+              <span className="text-[10px] font-medium">{t('nav.searchShort')}</span>
           </button>
 
           <button 
@@ -62,7 +65,7 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
               className={`flex flex-col items-center gap-1 transition-colors p-2 flex-1 ${showMoreMenu ? 'text-indigo-600' : 'text-gray-400'}`}
           >
               <ICONS.Menu size={22} strokeWidth={showMoreMenu ? 2.5 : 2} />
-              <span className="text-[10px] font-medium">Más</span>
+              <span className="text-[10px] font-medium">{t('nav.more')}</span>
           </button>
       </div>
 
@@ -86,7 +89,7 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
               className="md:hidden fixed bottom-0 left-0 right-0 bg-white rounded-t-3xl shadow-2xl z-50 pb-[max(24px,env(safe-area-inset-bottom))] max-h-[70vh] overflow-y-auto"
             >
               <div className="sticky top-0 bg-white border-b border-gray-100 px-4 py-3 flex items-center justify-between">
-                <h3 className="text-lg font-bold text-gray-900">Más opciones</h3>
+                <h3 className="text-lg font-bold text-gray-900">{t('nav.moreOptions')}</h3>
                 <button
                   onClick={() => setShowMoreMenu(false)}
                   className="p-2 hover:bg-gray-100 rounded-xl transition-colors"
@@ -105,7 +108,7 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
                   }`}
                 >
                   <ICONS.Sparkles size={20} />
-                  <span className="font-medium">Resumen</span>
+                  <span className="font-medium">{t('nav.summary')}</span>
                 </button>
                 <button
                   onClick={() => {
@@ -117,7 +120,7 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
                   }`}
                 >
                   <ICONS.Sparkles size={20} />
-                  <span className="font-medium">Preguntar IA</span>
+                  <span className="font-medium">{t('nav.query')}</span>
                 </button>
                 <div className="border-t border-gray-100 my-2" />
                 <button
@@ -130,7 +133,7 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
                   }`}
                 >
                   <ICONS.Users size={20} />
-                  <span className="font-medium">Personas</span>
+                  <span className="font-medium">{t('nav.people')}</span>
                 </button>
                 <button
                   onClick={() => {
@@ -142,7 +145,19 @@ const BottomNav = React.memo(({ activeView, setActiveView, onSearchClick, onSumm
                   }`}
                 >
                   <ICONS.BarChart3 size={20} />
-                  <span className="font-medium">Insights</span>
+                  <span className="font-medium">{t('nav.insights')}</span>
+                </button>
+                <button
+                  onClick={() => {
+                    setActiveView('trash');
+                    setShowMoreMenu(false);
+                  }}
+                  className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${
+                    activeView === 'trash' ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <ICONS.Trash2 size={20} />
+                  <span className="font-medium">{t('nav.trash')}</span>
                 </button>
               </div>
             </motion.div>
@@ -224,6 +239,11 @@ const AuthenticatedLayout = () => {
           <InsightsView />
         </Suspense>
       ),
+      trash: (
+        <Suspense fallback={<LoadingFallback />}>
+          <TrashView />
+        </Suspense>
+      ),
     };
 
     return views[activeView] || <Dashboard 
@@ -323,14 +343,22 @@ const AuthenticatedLayout = () => {
 
 // Main Layout component - handles authentication state
 const Layout = () => {
-  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, logout } = useAuth();
+  const { t } = useTranslation();
+
+  // Reverting an email change closes every session, so its link is opened signed out
+  useEffect(() => {
+    if (isAuthenticated && new URLSearchParams(window.location.search).has('revert_email')) {
+      logout();
+    }
+  }, [isAuthenticated, logout]);
 
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50">
         <div className="text-center">
           <ICONS.Loader2 className="animate-spin mx-auto text-indigo-600 mb-4" size={48} />
-          <p className="text-gray-600 font-medium">Cargando...</p>
+          <p className="text-gray-600 font-medium">{t('common.loading')}</p>
         </div>
       </div>
     );
@@ -0,0 +1,7 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { handleNodeRequest } from '../server/node';
+
+// Vercel function for every /api/* route; the routes themselves are in server/api.ts
+export default function handler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  return handleNodeRequest(req, res);
+}
@@ -5,6 +5,10 @@ import { ICONS, TYPE_STYLES, TYPE_ICONS, TYPE_LABELS } from '../constants';
 import CaptureInput from './CaptureInput';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useThrottle } from '../hooks/useThrottle';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import SearchQueryInput from './SearchQueryInput';
+import { canOnBook } from '../services/permissions';
+import { parseSearchQuery, toSearchCriteria, isEmptyCriteria, matchesEntry, matchesText, collectPeople } from '../services/searchQuery';
 
 interface BookViewProps {
   bookId: string;
@@ -14,8 +18,8 @@ const ITEMS_PER_PAGE = 20;
 const ITEMS_PER_PAGE_MOBILE = 10;
 
 const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
-  const { books, entries, threads, getThreadById, getEntriesByThreadId } = useBitacora();
-  const [currentPage, setCurrentPage] = useState(1);
+  const { books, entries, threads, getThreadById, getEntriesByThreadId, getBookName, loadMoreEntries, getEntryPageStatus } = useBitacora();
+  const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
   const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'date' | 'type' | 'priority'>('date');
@@ -36,6 +40,14 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
     window.addEventListener('resize', checkSize);
     return () => window.removeEventListener('resize', checkSize);
   }, [checkSize]);
+
+  // Entries of a book are fetched the first time it is opened
+  const pageStatus = getEntryPageStatus({ bookId });
+  useEffect(() => {
+    if (!pageStatus.isLoaded) {
+      loadMoreEntries({ bookId });
+    }
+  }, [bookId]);
   
   const book = books.find(b => b.id === bookId);
   
@@ -110,15 +122,23 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
     return threads.filter(t => t.bookId === bookId);
   }, [threads, bookId]);
 
+  // Search box uses the same query language as SearchView, evaluated in memory
+  const searchCriteria = useMemo(() => toSearchCriteria(parseSearchQuery(searchQuery)), [searchQuery]);
+  const hasSearch = !isEmptyCriteria(searchCriteria);
+  const matchesSearch = useCallback(
+    (entry: typeof allBookEntries[number]) => matchesEntry(entry, searchCriteria, { getBookName }),
+    [searchCriteria, getBookName]
+  );
+
+  const suggestionSources = useMemo(() => ({
+    books: books.map(b => b.name),
+    people: collectPeople(allBookEntries),
+  }), [books, allBookEntries]);
+
   const filteredEntries = useMemo(() => {
-    if (!searchQuery.trim()) return allBookEntries;
-    const query = searchQuery.toLowerCase();
-    return allBookEntries.filter(entry => 
-      entry.summary.toLowerCase().includes(query) ||
-      entry.entities.some(e => e.name.toLowerCase().includes(query)) ||
-      entry.tasks.some(t => t.description.toLowerCase().includes(query))
-    );
-  }, [allBookEntries, searchQuery]);
+    if (!hasSearch) return allBookEntries;
+    return allBookEntries.filter(matchesSearch);
+  }, [allBookEntries, hasSearch, matchesSearch]);
 
   // Filter threads and unthreaded entries by search and type filter
   const filteredThreads = useMemo(() => {
@@ -128,15 +148,12 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
       return threadEntries.length > 0;
     });
     
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
+    if (hasSearch) {
+      const hasTextTerms = searchCriteria.terms.length > 0 || searchCriteria.phrases.length > 0;
       threads = threads.filter(thread => {
         const threadEntries = entriesByThread.grouped[thread.id] || [];
-        return thread.title.toLowerCase().includes(query) ||
-          threadEntries.some(e => 
-            e.summary.toLowerCase().includes(query) ||
-            e.entities.some(ent => ent.name.toLowerCase().includes(query))
-          );
+        return (hasTextTerms && matchesText([thread.title], searchCriteria)) ||
+          threadEntries.some(matchesSearch);
       });
     }
     // Filter by type if needed
@@ -147,62 +164,44 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
       });
     }
     return threads;
-  }, [bookThreads, searchQuery, entriesByThread.grouped, filterType]);
+  }, [bookThreads, hasSearch, searchCriteria, matchesSearch, entriesByThread.grouped, filterType]);
 
   const filteredUnthreaded = useMemo(() => {
     let unthreaded = entriesByThread.unthreaded;
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      unthreaded = unthreaded.filter(entry => 
-        entry.summary.toLowerCase().includes(query) ||
-        entry.entities.some(e => e.name.toLowerCase().includes(query)) ||
-        entry.tasks.some(t => t.description.toLowerCase().includes(query))
-      );
+    if (hasSearch) {
+      unthreaded = unthreaded.filter(matchesSearch);
     }
     // Filter by type is already applied in allBookEntries
     return unthreaded;
-  }, [entriesByThread.unthreaded, searchQuery]);
+  }, [entriesByThread.unthreaded, hasSearch, matchesSearch]);
 
-  // Reset page when search, sort, or filter changes
+  // Start from the top again when search, sort, or filter changes
   useEffect(() => {
-    setCurrentPage(1);
-  }, [searchQuery, sortBy, filterType]);
+    setVisibleCount(ITEMS_PER_PAGE);
+  }, [searchQuery, sortBy, filterType, bookId]);
 
   const pendingTasks = allBookEntries.reduce((acc, e) => acc + e.tasks.filter(t => !t.isDone).length, 0);
 
   const itemsPerPage = isMobile ? ITEMS_PER_PAGE_MOBILE : ITEMS_PER_PAGE;
   
-  // Calculate pagination for unthreaded entries
-  const validCurrentPage = useMemo(() => {
-    const totalPages = Math.max(1, Math.ceil(filteredUnthreaded.length / itemsPerPage));
-    return Math.min(Math.max(1, currentPage), totalPages);
-  }, [currentPage, filteredUnthreaded.length, itemsPerPage]);
-  
-  // Paginate unthreaded entries (threads are always shown if they have visible entries)
-  const paginatedUnthreaded = useMemo(() => {
-    const startIdx = (validCurrentPage - 1) * itemsPerPage;
-    return filteredUnthreaded.slice(startIdx, startIdx + itemsPerPage);
-  }, [filteredUnthreaded, validCurrentPage, itemsPerPage]);
-  
-  // Calculate total pages based on unthreaded entries only
-  // (Threads are always shown, so we don't count them in pagination)
-  const totalPagesUnthreaded = Math.max(1, Math.ceil(filteredUnthreaded.length / itemsPerPage));
-  
-  const startIndex = useMemo(() => {
-    return (validCurrentPage - 1) * itemsPerPage;
-  }, [validCurrentPage, itemsPerPage]);
-  
-  const endIndex = useMemo(() => {
-    return Math.min(startIndex + itemsPerPage, filteredUnthreaded.length);
-  }, [startIndex, itemsPerPage, filteredUnthreaded.length]);
-  
-  // Reset page if out of bounds
-  useEffect(() => {
-    const totalPages = Math.max(1, Math.ceil(filteredUnthreaded.length / itemsPerPage));
-    if (currentPage > totalPages && totalPages > 0) {
-      setCurrentPage(1);
+  // Unthreaded entries are revealed as the list is scrolled
+  // (threads are always shown if they have visible entries)
+  const visibleUnthreaded = useMemo(() => {
+    return filteredUnthreaded.slice(0, visibleCount);
+  }, [filteredUnthreaded, visibleCount]);
+
+  const hasMoreUnthreaded = visibleUnthreaded.length < filteredUnthreaded.length || pageStatus.hasMore;
+
+  // Reveal what is already loaded first, then fetch the next page of the book
+  const showMore = useCallback(() => {
+    if (visibleCount < filteredUnthreaded.length) {
+      setVisibleCount(count => count + itemsPerPage);
+    } else {
+      loadMoreEntries({ bookId });
     }
-  }, [currentPage, filteredUnthreaded.length, itemsPerPage]);
+  }, [visibleCount, filteredUnthreaded.length, itemsPerPage, bookId, loadMoreEntries]);
+
+  const sentinelRef = useInfiniteScroll(showMore, hasMoreUnthreaded, visibleUnthreaded.length + allBookEntries.length);
 
   const toggleThread = (threadId: string) => {
     setExpandedThreads(prev => {
@@ -216,27 +215,6 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
     });
   };
 
-  const goToPage = useCallback((page: number) => {
-    const totalPages = Math.max(1, Math.ceil(filteredUnthreaded.length / itemsPerPage));
-    if (page >= 1 && page <= totalPages) {
-      setCurrentPage(page);
-      window.scrollTo({ top: 0, behavior: 'smooth' });
-    }
-  }, [filteredUnthreaded.length, itemsPerPage]);
-
-  const goToNextPage = useCallback(() => {
-    const totalPages = Math.max(1, Math.ceil(filteredUnthreaded.length / itemsPerPage));
-    if (currentPage < totalPages) {
-      goToPage(currentPage + 1);
-    }
-  }, [currentPage, filteredUnthreaded.length, itemsPerPage, goToPage]);
-
-  const goToPrevPage = useCallback(() => {
-    if (currentPage > 1) {
-      goToPage(currentPage - 1);
-    }
-  }, [currentPage, goToPage]);
-
   return (
     <div className="max-w-7xl mx-auto h-full flex flex-col pb-28 md:pb-8">
       <div className="mb-6 mt-2">
@@ -312,30 +290,14 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
         {allBookEntries.length > 0 && (
           <div className="mb-6 space-y-3">
             {/* Search Bar */}
-            <div className="relative">
-              <ICONS.Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
-              <input
-                type="text"
-                value={searchQuery}
-                onChange={(e) => {
-                  setSearchQuery(e.target.value);
-                  setCurrentPage(1);
-                }}
-                placeholder="Buscar en esta libreta..."
-                className="w-full pl-12 pr-12 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all bg-white text-base"
-              />
-              {searchQuery && (
-                <button
-                  onClick={() => {
-                    setSearchQuery('');
-                    setCurrentPage(1);
-                  }}
-                  className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                >
-                  <ICONS.X size={20} />
-                </button>
-              )}
-            </div>
+            <SearchQueryInput
+              value={searchQuery}
+              onChange={(value) => {
+                setSearchQuery(value);
+              }}
+              sources={suggestionSources}
+              placeholder='Buscar en esta libreta... (ej: @Juan pendiente:si)'
+            />
             
             {/* Filters - Mobile optimized */}
             <div className="flex flex-col md:flex-row gap-2">
@@ -363,7 +325,6 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
                     value={sortBy}
                     onChange={(e) => {
                       setSortBy(e.target.value as 'date' | 'type' | 'priority');
-                      setCurrentPage(1);
                     }}
                     className="flex-1 px-4 py-2.5 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none bg-white text-sm font-medium"
                   >
@@ -377,7 +338,6 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
                     value={filterType}
                     onChange={(e) => {
                       setFilterType(e.target.value);
-                      setCurrentPage(1);
                     }}
                     className="flex-1 px-4 py-2.5 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none bg-white text-sm font-medium"
                   >
@@ -427,7 +387,14 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
       </div>
 
       <div className="mb-4 md:mb-6 sticky top-0 z-30 pt-1 bg-[#f8fafc]/90 backdrop-blur-sm pb-2">
-        <CaptureInput bookId={bookId} />
+        {canOnBook(book, 'write') ? (
+          <CaptureInput bookId={bookId} />
+        ) : (
+          <div className="flex items-center gap-2 px-4 py-3 bg-white rounded-2xl border border-gray-200 text-sm text-gray-500">
+            <ICONS.Users size={16} />
+            Libreta compartida contigo en modo de solo lectura
+          </div>
+        )}
         {allBookEntries.length > 10 && (
           <div className="mt-2 text-xs text-gray-500 px-1 flex items-center gap-1.5">
             <ICONS.Info size={12} />
@@ -437,7 +404,11 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
       </div>
 
       <div className="flex-1">
-         {filteredEntries.length === 0 ? (
+         {filteredEntries.length === 0 && !pageStatus.isLoaded ? (
+             <div className="flex items-center justify-center py-20">
+               <ICONS.Loader2 className="animate-spin text-indigo-600" size={28} />
+             </div>
+         ) : filteredEntries.length === 0 ? (
              <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-gray-200 mx-1 relative overflow-hidden">
                  <div className="absolute top-0 right-0 opacity-5 pointer-events-none">
                    <span className="text-8xl">📝</span>
@@ -468,8 +439,8 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
                      </motion.div>
                    ));
                  })}
-                 {/* Then show paginated unthreaded entries */}
-                 {paginatedUnthreaded.map(entry => (
+                 {/* Then show unthreaded entries */}
+                 {visibleUnthreaded.map(entry => (
                    <motion.div
                      key={`unthreaded-${entry.id}`}
                      initial={{ opacity: 0, y: 20 }}
@@ -553,7 +524,7 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
                    )}
 
                    {/* Unthreaded Entries */}
-                   {paginatedUnthreaded.length > 0 && (
+                   {visibleUnthreaded.length > 0 && (
                      <motion.div
                        key="unthreaded-section"
                        initial={{ opacity: 0 }}
@@ -561,18 +532,16 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
                        exit={{ opacity: 0 }}
                        className="space-y-4 md:space-y-5"
                      >
-                       {paginatedUnthreaded.map((entry, index) => {
+                       {visibleUnthreaded.map((entry, index) => {
                          // Check if we need a section header (type changed)
-                         const prevEntry = index > 0 ? paginatedUnthreaded[index - 1] : null;
-                         const globalIndex = startIndex + index;
-                         const prevGlobalEntry = globalIndex > 0 ? filteredUnthreaded[globalIndex - 1] : null;
-                         const showSectionHeader = !prevGlobalEntry || prevGlobalEntry.type !== entry.type;
+                         const prevEntry = index > 0 ? visibleUnthreaded[index - 1] : null;
+                         const showSectionHeader = !prevEntry || prevEntry.type !== entry.type;
                      
                      return (
                        <React.Fragment key={entry.id}>
                          {showSectionHeader && (
                            <motion.div
-                             key={`section-header-${entry.type}-${globalIndex}`}
+                             key={`section-header-${entry.type}-${index}`}
                              initial={{ opacity: 0, y: -10 }}
                              animate={{ opacity: 1, y: 0 }}
                              className="sticky top-16 z-20 bg-[#f8fafc] py-3 mb-3 -mt-1"
@@ -606,107 +575,28 @@ const BookView: React.FC<BookViewProps> = memo(({ bookId }) => {
                </div>
              )}
              
-             {/* Pagination */}
-             {totalPagesUnthreaded > 1 && (
-               <div className="mt-6 md:mt-8 flex flex-col items-center gap-4">
-                 {/* Page info */}
-                 <div className="text-xs md:text-sm text-gray-500 text-center">
-                   {filteredThreads.length > 0 && (
-                     <span className="block mb-1">
-                       {filteredThreads.length} {filteredThreads.length === 1 ? 'hilo' : 'hilos'} mostrados
-                       {filteredUnthreaded.length > 0 && ' • '}
-                     </span>
-                   )}
-                   {filteredUnthreaded.length > 0 && (
-                     <span>
-                       Entradas: {startIndex + 1}-{endIndex} de {filteredUnthreaded.length}
-                     </span>
-                   )}
-                 </div>
-                 
-                 <div className="flex items-center gap-2">
-                   {/* Previous button */}
-                   <button
-                     onClick={goToPrevPage}
-                     disabled={currentPage === 1}
-                     className="px-3 md:px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:border-indigo-300 hover:text-indigo-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:border-gray-200 disabled:hover:text-gray-700"
-                   >
-                     <ICONS.ChevronLeft size={16} />
-                   </button>
-
-                   {/* Page numbers */}
-                   <div className="flex items-center gap-1">
-                     {Array.from({ length: Math.min(5, totalPagesUnthreaded) }, (_, i) => {
-                       let pageNum: number;
-                       
-                       if (totalPagesUnthreaded <= 5) {
-                         pageNum = i + 1;
-                       } else if (currentPage <= 3) {
-                         pageNum = i + 1;
-                       } else if (currentPage >= totalPagesUnthreaded - 2) {
-                         pageNum = totalPagesUnthreaded - 4 + i;
-                       } else {
-                         pageNum = currentPage - 2 + i;
-                       }
-
-                       return (
-                         <button
-                           key={pageNum}
-                           onClick={() => goToPage(pageNum)}
-                           className={`px-3 md:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
-                             currentPage === pageNum
-                               ? 'bg-indigo-600 text-white shadow-md'
-                               : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 hover:border-indigo-300 hover:text-indigo-600'
-                           }`}
-                         >
-                           {pageNum}
-                         </button>
-                       );
-                     })}
-                   </div>
-
-                   {/* Next button */}
-                   <button
-                     onClick={goToNextPage}
-                     disabled={currentPage === totalPagesUnthreaded}
-                     className="px-3 md:px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:border-indigo-300 hover:text-indigo-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:border-gray-200 disabled:hover:text-gray-700"
-                   >
-                     <ICONS.ChevronRight size={16} />
-                   </button>
-                 </div>
-                 
-                 {/* Quick jump for mobile */}
-                 {isMobile && totalPagesUnthreaded > 5 && (
-                   <div className="flex items-center gap-2 text-xs text-gray-500">
-                     <span>Ir a página:</span>
-                     <input
-                       type="number"
-                       min={1}
-                       max={totalPagesUnthreaded}
-                       value={currentPage}
-                       onChange={(e) => {
-                         const page = parseInt(e.target.value);
-                         if (page >= 1 && page <= totalPagesUnthreaded) {
-                           goToPage(page);
-                         }
-                       }}
-                       className="w-16 px-2 py-1 rounded-lg border border-gray-200 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-100 outline-none text-center"
-                     />
-                     <span>de {totalPagesUnthreaded}</span>
-                   </div>
+             {/* Infinite scroll */}
+             {hasMoreUnthreaded ? (
+               <div ref={sentinelRef} className="mt-6 md:mt-8 flex items-center justify-center gap-2 text-sm text-gray-400 min-h-[2rem]">
+                 {pageStatus.isLoading && (
+                   <>
+                     <ICONS.Loader2 size={16} className="animate-spin" />
+                     Cargando más entradas...
+                   </>
                  )}
                </div>
-             )}
-             
-             {totalPagesUnthreaded === 1 && filteredUnthreaded.length === 0 && filteredThreads.length > 0 && (
-               <div className="mt-6 text-center text-sm text-gray-400">
-                 {filteredThreads.length} {filteredThreads.length === 1 ? 'hilo' : 'hilos'} en esta libreta 📚✨
-               </div>
-             )}
-             
-             {totalPagesUnthreaded === 1 && filteredUnthreaded.length > 0 && filteredThreads.length === 0 && (
+             ) : (
                <div className="mt-6 text-center text-sm text-gray-400">
-                 {filteredUnthreaded.length} {filteredUnthreaded.length === 1 ? 'entrada' : 'entradas'} en esta libreta 📚✨
+                 {filteredThreads.length > 0 && (
+                   <>
+                     {filteredThreads.length} {filteredThreads.length === 1 ? 'hilo' : 'hilos'}
+                     {filteredUnthreaded.length > 0 && ' • '}
+                   </>
+                 )}
+                 {filteredUnthreaded.length > 0 && (
+                   <>{filteredUnthreaded.length} {filteredUnthreaded.length === 1 ? 'entrada' : 'entradas'}</>
+                 )}
+                 {' '}en esta libreta 📚✨
                </div>
              )}
            </>
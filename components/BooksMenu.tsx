@@ -1,8 +1,11 @@
 import React, { useState, useRef, useEffect, useCallback, memo, useMemo } from 'react';
-import { ICONS } from '../constants';
+import { ICONS, BOOK_ROLE_LABELS } from '../constants';
 import { useBitacora } from '../context/BitacoraContext';
+import { useAuth } from '../context/AuthContext';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Book, Folder } from '../types';
+import { Book, BookMemberRole, Folder } from '../types';
+import { BOOK_MEMBER_ROLES } from '../services/permissions';
+import ConfirmDialog from './ConfirmDialog';
 
 interface BooksMenuProps {
   isOpen: boolean;
@@ -12,15 +15,17 @@ interface BooksMenuProps {
   onSelectBook: (bookId: string) => void;
 }
 
-// Component for folder header with rename option
+// Component for folder header with rename and delete options
 const FolderHeader: React.FC<{
   folder: Folder;
   folderBooksCount: number;
   isExpanded: boolean;
   onToggle: () => void;
   onRename: (folderId: string, newName: string) => Promise<void>;
-}> = ({ folder, folderBooksCount, isExpanded, onToggle, onRename }) => {
+  onDelete: (folderId: string) => Promise<void>;
+}> = ({ folder, folderBooksCount, isExpanded, onToggle, onRename, onDelete }) => {
   const [isRenaming, setIsRenaming] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
   const [newName, setNewName] = useState(folder.name);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -102,24 +107,158 @@ const FolderHeader: React.FC<{
           setNewName(folder.name);
           setIsRenaming(true);
         }}
-        className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 hover:bg-purple-200 rounded-lg transition-colors text-purple-400 hover:text-purple-600 opacity-0 group-hover:opacity-100"
+        className="absolute right-10 top-1/2 -translate-y-1/2 p-1.5 hover:bg-purple-200 rounded-lg transition-colors text-purple-400 hover:text-purple-600 opacity-0 group-hover:opacity-100"
         title="Renombrar carpeta"
       >
         <ICONS.PenTool size={14} />
       </button>
+      {/* Delete folder button */}
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setConfirmDelete(true);
+        }}
+        className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 hover:bg-rose-100 rounded-lg transition-colors text-purple-400 hover:text-rose-600 opacity-0 group-hover:opacity-100"
+        title="Mover carpeta a la papelera"
+      >
+        <ICONS.Trash2 size={14} />
+      </button>
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={() => {
+          setConfirmDelete(false);
+          onDelete(folder.id);
+        }}
+        title="¿Mover carpeta a la papelera?"
+        message={`"${folder.name}" se moverá a la papelera. Sus libretas no se eliminan: quedan sin carpeta hasta que la restaures.`}
+        confirmText="Mover a la papelera"
+        cancelText="Cancelar"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+// Owner's sharing panel: current members with their roles, and an invite form
+const BookSharingPanel: React.FC<{ book: Book }> = ({ book }) => {
+  const { bookMembers, loadBookMembers, shareBook, updateBookMember, removeBookMember } = useBitacora();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<BookMemberRole>('viewer');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const members = (bookMembers[book.id] || []).filter(m => m.role !== 'owner');
+
+  useEffect(() => {
+    loadBookMembers(book.id).catch(err => console.error('Error loading members:', err));
+  }, [book.id]);
+
+  // Runs a sharing change, surfacing the server's message (unknown email, invalid role...)
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo actualizar la libreta');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInvite = () => {
+    if (!email.trim()) return;
+    run(async () => {
+      await shareBook(book.id, email.trim(), role);
+      setEmail('');
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="block text-sm font-semibold text-gray-700">Invitar por email</label>
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleInvite()}
+          className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none text-base"
+          placeholder="persona@ejemplo.com"
+        />
+        <div className="flex gap-2">
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as BookMemberRole)}
+            className="flex-1 px-3 py-2.5 rounded-xl border border-gray-200 bg-white text-sm text-gray-700 outline-none focus:border-indigo-500"
+          >
+            {BOOK_MEMBER_ROLES.map(r => (
+              <option key={r} value={r}>{BOOK_ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleInvite}
+            disabled={isSaving || !email.trim()}
+            className="flex items-center gap-2 px-4 py-2.5 bg-indigo-600 text-white rounded-xl text-sm font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <ICONS.UserPlus size={16} />
+            Invitar
+          </button>
+        </div>
+        {error && <p className="text-xs text-rose-600">{error}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-bold text-gray-500 uppercase tracking-wider">Miembros ({members.length})</p>
+        {members.length === 0 ? (
+          <p className="text-sm text-gray-500 py-2">Solo tú tienes acceso a esta libreta</p>
+        ) : (
+          members.map(member => (
+            <div key={member.userId} className="flex items-center gap-3 p-3 rounded-xl border border-gray-200">
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-sm text-gray-900 truncate">{member.name}</p>
+                <p className="text-xs text-gray-500 truncate">{member.email}</p>
+              </div>
+              <select
+                value={member.role}
+                disabled={isSaving}
+                onChange={(e) => run(() => updateBookMember(book.id, member.userId, e.target.value as BookMemberRole))}
+                className="px-2 py-1.5 rounded-lg border border-gray-200 bg-white text-xs text-gray-700 outline-none focus:border-indigo-500"
+              >
+                {BOOK_MEMBER_ROLES.map(r => (
+                  <option key={r} value={r}>{BOOK_ROLE_LABELS[r]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => run(() => removeBookMember(book.id, member.userId))}
+                disabled={isSaving}
+                className="p-1.5 text-gray-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
+                title="Quitar acceso"
+              >
+                <ICONS.X size={16} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
     </div>
   );
 };
 
-// Component for book options menu (move to folder + rename) - Mobile-friendly bottom sheet style
+// Component for book options menu (share + move to folder + rename + delete) - Mobile-friendly bottom sheet style
+// Members of a shared book only get the option to leave it.
 const BookOptionsMenu: React.FC<{ 
   book: Book; 
   folders: Folder[]; 
   onMoveToFolder: (bookId: string, folderId: string | null) => Promise<void>;
   onRename: (bookId: string, newName: string) => Promise<void>;
-}> = ({ book, folders, onMoveToFolder, onRename }) => {
+  onDelete: (bookId: string) => Promise<void>;
+  onLeave: (bookId: string) => Promise<void>;
+}> = ({ book, folders, onMoveToFolder, onRename, onDelete, onLeave }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [activeSection, setActiveSection] = useState<'main' | 'rename' | 'move'>('main');
+  const [activeSection, setActiveSection] = useState<'main' | 'rename' | 'move' | 'delete' | 'share' | 'leave'>('main');
+  const isOwner = !book.role;
   const [newName, setNewName] = useState(book.name);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -144,6 +283,18 @@ const BookOptionsMenu: React.FC<{
     setActiveSection('main');
   };
 
+  const handleDelete = async () => {
+    setIsOpen(false);
+    setActiveSection('main');
+    await onDelete(book.id);
+  };
+
+  const handleLeave = async () => {
+    setIsOpen(false);
+    setActiveSection('main');
+    await onLeave(book.id);
+  };
+
   const closeMenu = () => {
     setIsOpen(false);
     setActiveSection('main');
@@ -200,7 +351,9 @@ const BookOptionsMenu: React.FC<{
                     </div>
                     <div>
                       <p className="font-bold text-gray-900 text-base">{book.name}</p>
-                      <p className="text-xs text-gray-500">Opciones de libreta</p>
+                      <p className="text-xs text-gray-500">
+                        {isOwner ? 'Opciones de libreta' : `Compartida contigo · ${BOOK_ROLE_LABELS[book.role!]}`}
+                      </p>
                     </div>
                   </div>
                   <button
@@ -214,8 +367,43 @@ const BookOptionsMenu: React.FC<{
               
               {/* Content */}
               <div className="p-4 overflow-y-auto max-h-[50vh]">
-                {activeSection === 'main' && (
+                {activeSection === 'main' && !isOwner && (
                   <div className="space-y-2">
+                    <button
+                      onClick={() => setActiveSection('leave')}
+                      className="w-full flex items-center gap-4 p-4 rounded-2xl hover:bg-rose-50 active:bg-rose-100 transition-colors"
+                    >
+                      <div className="p-2.5 bg-rose-100 rounded-xl">
+                        <ICONS.LogOut size={18} className="text-rose-600" />
+                      </div>
+                      <div className="text-left">
+                        <p className="font-semibold text-rose-700">Salir de la libreta</p>
+                        <p className="text-xs text-gray-500">Dejarás de ver sus entradas</p>
+                      </div>
+                    </button>
+                  </div>
+                )}
+
+                {activeSection === 'main' && isOwner && (
+                  <div className="space-y-2">
+                    <button
+                      onClick={() => setActiveSection('share')}
+                      className="w-full flex items-center gap-4 p-4 rounded-2xl hover:bg-gray-50 active:bg-gray-100 transition-colors"
+                    >
+                      <div className="p-2.5 bg-indigo-100 rounded-xl">
+                        <ICONS.Share2 size={18} className="text-indigo-600" />
+                      </div>
+                      <div className="text-left flex-1">
+                        <p className="font-semibold text-gray-900">Compartir</p>
+                        <p className="text-xs text-gray-500">
+                          {book.memberCount
+                            ? `${book.memberCount} ${book.memberCount === 1 ? 'miembro' : 'miembros'}`
+                            : 'Invitar a otras personas'}
+                        </p>
+                      </div>
+                      <ICONS.ChevronRight size={18} className="text-gray-400" />
+                    </button>
+
                     <button
                       onClick={() => {
                         setNewName(book.name);
@@ -245,6 +433,96 @@ const BookOptionsMenu: React.FC<{
                       </div>
                       <ICONS.ChevronRight size={18} className="text-gray-400" />
                     </button>
+
+                    <button
+                      onClick={() => setActiveSection('delete')}
+                      className="w-full flex items-center gap-4 p-4 rounded-2xl hover:bg-rose-50 active:bg-rose-100 transition-colors"
+                    >
+                      <div className="p-2.5 bg-rose-100 rounded-xl">
+                        <ICONS.Trash2 size={18} className="text-rose-600" />
+                      </div>
+                      <div className="text-left">
+                        <p className="font-semibold text-rose-700">Mover a la papelera</p>
+                        <p className="text-xs text-gray-500">Con sus entradas e hilos</p>
+                      </div>
+                    </button>
+                  </div>
+                )}
+
+                {activeSection === 'share' && (
+                  <div className="space-y-4">
+                    <button
+                      onClick={() => setActiveSection('main')}
+                      className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      <ICONS.ChevronRight size={16} className="rotate-180" />
+                      Volver
+                    </button>
+                    <BookSharingPanel book={book} />
+                  </div>
+                )}
+
+                {activeSection === 'leave' && (
+                  <div className="space-y-4">
+                    <button
+                      onClick={() => setActiveSection('main')}
+                      className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      <ICONS.ChevronRight size={16} className="rotate-180" />
+                      Volver
+                    </button>
+
+                    <p className="text-sm text-gray-700">
+                      Dejarás de tener acceso a <span className="font-semibold">{book.name}</span>.
+                      Las entradas que escribiste se quedan en la libreta de su dueño.
+                    </p>
+
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => setActiveSection('main')}
+                        className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 active:bg-gray-300 transition-colors"
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        onClick={handleLeave}
+                        className="flex-1 px-4 py-3 bg-rose-600 text-white rounded-xl font-semibold hover:bg-rose-700 active:bg-rose-800 transition-colors"
+                      >
+                        Salir
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {activeSection === 'delete' && (
+                  <div className="space-y-4">
+                    <button
+                      onClick={() => setActiveSection('main')}
+                      className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      <ICONS.ChevronRight size={16} className="rotate-180" />
+                      Volver
+                    </button>
+
+                    <p className="text-sm text-gray-700">
+                      <span className="font-semibold">{book.name}</span>, sus entradas e hilos se moverán a la papelera.
+                      Podrás restaurarlos desde ahí con sus tareas intactas.
+                    </p>
+
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => setActiveSection('main')}
+                        className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 active:bg-gray-300 transition-colors"
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        onClick={handleDelete}
+                        className="flex-1 px-4 py-3 bg-rose-600 text-white rounded-xl font-semibold hover:bg-rose-700 active:bg-rose-800 transition-colors"
+                      >
+                        Mover a la papelera
+                      </button>
+                    </div>
                   </div>
                 )}
                 
@@ -345,7 +623,8 @@ const BooksMenu: React.FC<BooksMenuProps> = memo(({
   selectedBookId,
   onSelectBook,
 }) => {
-  const { books, folders, createBook, createFolder, updateBookFolder, updateBook, updateFolder, isInitializing } = useBitacora();
+  const { books, folders, bookMembers, createBook, createFolder, updateBookFolder, updateBook, updateFolder, deleteBook, deleteFolder, removeBookMember, isInitializing } = useBitacora();
+  const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
   const [isCreatingBook, setIsCreatingBook] = useState(false);
   const [isCreatingFolder, setIsCreatingFolder] = useState(false);
@@ -357,8 +636,13 @@ const BooksMenu: React.FC<BooksMenuProps> = memo(({
     book.name.toLowerCase().includes(searchQuery.toLowerCase())
   ), [books, searchQuery]);
 
-  // Group books by folder - memoized
-  const booksByFolder = useMemo(() => books.reduce((acc, book) => {
+  // Books shared with the user have no folder of theirs; they get their own section
+  const sharedBooks = useMemo(() => books.filter(book =>
+    book.role && book.name.toLowerCase().includes(searchQuery.toLowerCase())
+  ), [books, searchQuery]);
+
+  // Group own books by folder - memoized
+  const booksByFolder = useMemo(() => books.filter(book => !book.role).reduce((acc, book) => {
     const folderId = book.folderId || 'no-folder';
     if (!acc[folderId]) {
       acc[folderId] = [];
@@ -383,9 +667,9 @@ const BooksMenu: React.FC<BooksMenuProps> = memo(({
     });
     return {
       hasBooksWithoutFolder,
-      hasContentToShow: hasBooksWithoutFolder || folders.length > 0
+      hasContentToShow: hasBooksWithoutFolder || folders.length > 0 || sharedBooks.length > 0
     };
-  }, [booksByFolder, folders, searchQuery]);
+  }, [booksByFolder, folders, searchQuery, sharedBooks]);
 
   const handleCreateBook = useCallback(async () => {
     if (!newBookName.trim()) return;
@@ -436,6 +720,15 @@ const BooksMenu: React.FC<BooksMenuProps> = memo(({
     }
   }, [updateBook]);
 
+  const handleLeaveBook = useCallback(async (bookId: string) => {
+    if (!user) return;
+    try {
+      await removeBookMember(bookId, user.id);
+    } catch (error) {
+      console.error('Error leaving book:', error);
+    }
+  }, [removeBookMember, user]);
+
   const handleRenameFolder = useCallback(async (folderId: string, newName: string) => {
     try {
       await updateFolder(folderId, { name: newName });
@@ -664,13 +957,16 @@ const BooksMenu: React.FC<BooksMenuProps> = memo(({
                                 </p>
                               )}
                             </div>
+                            {!!book.memberCount && (
+                              <ICONS.Users size={16} className="text-gray-400 flex-shrink-0" />
+                            )}
                             {isActive && (
                               <div className="w-2 h-2 rounded-full bg-indigo-600 flex-shrink-0" />
                             )}
                           </motion.button>
                           {/* Book options menu */}
                           <div className="absolute right-2 top-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                            <BookOptionsMenu book={book} folders={folders} onMoveToFolder={updateBookFolder} onRename={handleRenameBook} />
+                            <BookOptionsMenu book={book} folders={folders} onMoveToFolder={updateBookFolder} onRename={handleRenameBook} onDelete={deleteBook} onLeave={handleLeaveBook} />
                           </div>
                         </motion.div>
                       );
@@ -709,6 +1005,7 @@ const BooksMenu: React.FC<BooksMenuProps> = memo(({
                       isExpanded={isExpanded}
                       onToggle={() => toggleFolder(folder.id)}
                       onRename={handleRenameFolder}
+                      onDelete={deleteFolder}
                     />
                     
                     {isExpanded && (
@@ -760,13 +1057,16 @@ const BooksMenu: React.FC<BooksMenuProps> = memo(({
                                     </p>
                                   )}
                                 </div>
+                                {!!book.memberCount && (
+                                  <ICONS.Users size={14} className="text-gray-400 flex-shrink-0" />
+                                )}
                                 {isActive && (
                                   <div className="w-1.5 h-1.5 rounded-full bg-indigo-600 flex-shrink-0" />
                                 )}
                               </motion.button>
                               {/* Book options menu */}
                               <div className="absolute right-2 top-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                <BookOptionsMenu book={book} folders={folders} onMoveToFolder={updateBookFolder} onRename={handleRenameBook} />
+                                <BookOptionsMenu book={book} folders={folders} onMoveToFolder={updateBookFolder} onRename={handleRenameBook} onDelete={deleteBook} onLeave={handleLeaveBook} />
                               </div>
                             </motion.div>
                           );
@@ -779,6 +1079,64 @@ const BooksMenu: React.FC<BooksMenuProps> = memo(({
               })}
                 </>
               )}
+
+              {/* Books other users shared with this one */}
+              {sharedBooks.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 px-1">
+                    Compartidas conmigo ({sharedBooks.length})
+                  </h4>
+                  {sharedBooks.map((book) => {
+                    const isActive = activeView === 'book' && selectedBookId === book.id;
+                    const owner = bookMembers[book.id]?.find(m => m.role === 'owner');
+                    return (
+                      <motion.div
+                        key={book.id}
+                        className="group relative"
+                      >
+                        <motion.button
+                          onClick={() => handleSelectBook(book.id)}
+                          whileHover={{ x: -4 }}
+                          whileTap={{ scale: 0.98 }}
+                          className={`w-full flex items-center gap-3 p-3 rounded-xl transition-all text-left ${
+                            isActive
+                              ? 'bg-indigo-50 border-2 border-indigo-200 shadow-sm'
+                              : 'bg-gray-50 hover:bg-gray-100 border-2 border-transparent'
+                          }`}
+                        >
+                          <div className={`p-2 rounded-lg ${
+                            isActive
+                              ? 'bg-indigo-100'
+                              : 'bg-white border border-gray-200'
+                          }`}>
+                            <ICONS.Users
+                              size={18}
+                              className={isActive ? 'text-indigo-600' : 'text-gray-500'}
+                            />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className={`font-semibold text-sm mb-0.5 truncate ${
+                              isActive ? 'text-indigo-900' : 'text-gray-800'
+                            }`}>
+                              {book.name}
+                            </p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {BOOK_ROLE_LABELS[book.role!]}
+                              {owner && ` · de ${owner.name}`}
+                            </p>
+                          </div>
+                          {isActive && (
+                            <div className="w-1.5 h-1.5 rounded-full bg-indigo-600 flex-shrink-0" />
+                          )}
+                        </motion.button>
+                        <div className="absolute right-2 top-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <BookOptionsMenu book={book} folders={folders} onMoveToFolder={updateBookFolder} onRename={handleRenameBook} onDelete={deleteBook} onLeave={handleLeaveBook} />
+                        </div>
+                      </motion.div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -22,6 +22,7 @@ interface MultiTopicModalData {
     originalText: string;
     taskActions: Array<{
       action: 'complete' | 'update';
+      taskId: string;
       taskDescription: string;
       completionNotes?: string;
     }>;
@@ -1,6 +1,7 @@
 import React, { useMemo, useCallback, memo, useState } from 'react';
 import { useBitacora } from '../context/BitacoraContext';
 import { useAuth } from '../context/AuthContext';
+import { useEntryStats } from '../hooks/useEntryStats';
 import EntryCard from './EntryCard';
 import { ICONS } from '../constants';
 import CaptureInput from './CaptureInput';
@@ -34,29 +35,24 @@ const Dashboard = memo<DashboardProps>(({ onSelectBook, onNavigateToEntry }) =>
     }));
   }, []);
 
-  // Memoized stats
-  const stats = useMemo(() => {
-    const openTasks = entries.reduce((acc, entry) => acc + entry.tasks.filter(t => !t.isDone).length, 0);
-    const completedTasks = entries.reduce((acc, entry) => acc + entry.tasks.filter(t => t.isDone).length, 0);
-    const totalEntries = entries.length;
-    return { openTasks, completedTasks, totalEntries };
-  }, [entries]);
-
-  const { openTasks, completedTasks, totalEntries } = stats;
+  // Counts over every entry, not just the loaded pages
+  const stats = useEntryStats();
+  const openTasks = stats?.openTasks ?? 0;
+  const completedTasks = stats?.completedTasks ?? 0;
+  const totalEntries = stats?.totalEntries ?? 0;
   
   // Most used books (favorites) - sorted by entry count and last activity
   const favoriteBooks = useMemo(() => {
     const now = Date.now();
     const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
+    const statsByBook = new Map((stats?.books || []).map(b => [b.bookId, b]));
     
     return books
       .map(book => {
-        const bookEntries = entries.filter(e => e.bookId === book.id);
-        const entryCount = bookEntries.length;
-        const lastActivity = bookEntries.length > 0 
-          ? Math.max(...bookEntries.map(e => e.createdAt))
-          : 0;
-        const pendingTasks = bookEntries.reduce((acc, e) => acc + e.tasks.filter(t => !t.isDone).length, 0);
+        const bookStats = statsByBook.get(book.id);
+        const entryCount = bookStats?.entryCount || 0;
+        const lastActivity = bookStats?.lastActivity || 0;
+        const pendingTasks = bookStats?.openTasks || 0;
         
         return {
           ...book,
@@ -69,7 +65,7 @@ const Dashboard = memo<DashboardProps>(({ onSelectBook, onNavigateToEntry }) =>
       .filter(book => book.entryCount > 0)
       .sort((a, b) => b.score - a.score)
       .slice(0, 4);
-  }, [books, entries]);
+  }, [books, stats]);
   
   // High priority tasks - memoized
   const highPriorityTasks = useMemo(() => {
@@ -5,29 +5,45 @@ import { useBitacora } from '../context/BitacoraContext';
 import { motion, AnimatePresence } from 'framer-motion';
 import ConfirmDialog from './ConfirmDialog';
 import ThreadManagerModal from './ThreadManagerModal';
+import EntryHistoryPanel from './EntryHistoryPanel';
+import EntryCommentsPanel from './EntryCommentsPanel';
 import { AuthContext } from '../context/AuthContext';
+import { canOnBook, isSharedBook } from '../services/permissions';
 
 const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry, compact = false }) => {
-  const { toggleTask, deleteEntry, getBookName, getThreadById, threads } = useBitacora();
+  const { toggleTask, deleteEntry, getBookName, getThreadById, threads, books, bookMembers } = useBitacora();
   const authContext = React.useContext(AuthContext);
   const user = authContext?.user;
   const bookName = getBookName(entry.bookId);
   const thread = entry.threadId ? getThreadById(entry.threadId) : undefined;
   const [isExpanded, setIsExpanded] = useState(false);
   const [showOriginalText, setShowOriginalText] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+
+  // In shared books the card names the author, and what the user may do follows their role
+  const book = books.find(b => b.id === entry.bookId);
+  const isShared = isSharedBook(book);
+  const isBookOwner = !!book && !book.role;
+  const isOwnEntry = !entry.authorId || entry.authorId === user?.id;
+  const canWrite = canOnBook(book, 'write');
+  const canDelete = canWrite && (isOwnEntry || isBookOwner);
+  const authorName = isOwnEntry
+    ? 'ti'
+    : bookMembers[entry.bookId]?.find(m => m.userId === entry.authorId)?.name || 'otro miembro';
   
   // Confirm dialogs state
-  const [confirmTask, setConfirmTask] = useState<{ isOpen: boolean; taskIndex: number; description: string }>({
-    isOpen: false, taskIndex: -1, description: ''
+  const [confirmTask, setConfirmTask] = useState<{ isOpen: boolean; taskId: string; description: string }>({
+    isOpen: false, taskId: '', description: ''
   });
   const [confirmDelete, setConfirmDelete] = useState(false);
   const [showThreadManager, setShowThreadManager] = useState(false);
 
   const handleConfirmTaskComplete = useCallback(() => {
-    if (confirmTask.taskIndex >= 0) {
-      toggleTask(entry.id, confirmTask.taskIndex);
+    if (confirmTask.taskId) {
+      toggleTask(entry.id, confirmTask.taskId);
     }
-    setConfirmTask({ isOpen: false, taskIndex: -1, description: '' });
+    setConfirmTask({ isOpen: false, taskId: '', description: '' });
   }, [confirmTask, toggleTask, entry.id]);
 
   const handleConfirmDelete = useCallback(() => {
@@ -130,7 +146,7 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      setShowThreadManager(true);
+                      if (canWrite) setShowThreadManager(true);
                     }}
                     className="text-[10px] text-purple-600 font-semibold bg-purple-50 px-2 py-0.5 rounded-md border border-purple-200 flex items-center gap-1 hover:bg-purple-100 transition-colors group"
                     title="Gestionar hilo"
@@ -144,6 +160,12 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
               <div className="flex items-center gap-2 text-xs text-gray-500">
                 <ICONS.Book size={12} />
                 <span className="truncate">{bookName}</span>
+                {isShared && (
+                  <span className="flex items-center gap-1 text-gray-400 flex-shrink-0">
+                    <ICONS.Users size={12} />
+                    por {authorName}
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -169,21 +191,32 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
                 <ICONS.ChevronDown size={18} />
               </motion.div>
             </button>
-            <button 
-              onClick={(e) => {
-                e.stopPropagation();
-                setConfirmDelete(true);
-              }}
-              className="p-1.5 text-gray-300 hover:text-rose-500 hover:bg-white/60 rounded-lg transition-colors"
-              title="Eliminar"
-            >
-              <ICONS.Trash2 size={16} />
-            </button>
+            {canDelete && (
+              <button 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setConfirmDelete(true);
+                }}
+                className="p-1.5 text-gray-300 hover:text-rose-500 hover:bg-white/60 rounded-lg transition-colors"
+                title="Eliminar"
+              >
+                <ICONS.Trash2 size={16} />
+              </button>
+            )}
           </div>
         </div>
 
         {/* Main Content - Always visible, clean and readable */}
         <div className="space-y-3">
+          {entry.status === EntryStatus.ERROR && (
+            <div className="flex items-start gap-2 p-3 bg-rose-50 border border-rose-200 rounded-xl text-xs text-rose-700">
+              <ICONS.AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+              <span>
+                <span className="font-semibold">No se pudo procesar esta nota.</span>
+                {entry.statusReason && <span className="block mt-0.5 text-rose-600">{entry.statusReason}</span>}
+              </span>
+            </div>
+          )}
           <p className={`text-base md:text-lg text-gray-900 leading-relaxed font-medium ${!isExpanded && displayText.length > 150 ? 'line-clamp-3' : ''}`}>
             {displayText}
           </p>
@@ -246,9 +279,9 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
                     </div>
                   </div>
                   <div className="divide-y divide-gray-100">
-                    {entry.tasks.map((task, idx) => (
+                    {entry.tasks.map(task => (
                       <div 
-                        key={idx} 
+                        key={task.id} 
                         className={`p-4 transition-colors ${
                           task.isDone 
                             ? 'bg-emerald-50/30' 
@@ -257,21 +290,22 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
                       >
                         <div className="flex items-start gap-3">
                           <button 
+                            disabled={!canWrite}
                             onClick={(e) => {
                               e.stopPropagation();
                               if (!task.isDone) {
                                 const desc = task.description.length > 50 
                                   ? task.description.substring(0, 50) + '...' 
                                   : task.description;
-                                setConfirmTask({ isOpen: true, taskIndex: idx, description: desc });
+                                setConfirmTask({ isOpen: true, taskId: task.id, description: desc });
                               } else {
-                                toggleTask(entry.id, idx);
+                                toggleTask(entry.id, task.id);
                               }
                             }}
-                            className={`mt-0.5 flex-shrink-0 transition-all duration-200 ${
+                            className={`mt-0.5 flex-shrink-0 transition-all duration-200 disabled:cursor-default ${
                               task.isDone 
                                 ? 'text-emerald-600' 
-                                : 'text-gray-300 hover:text-indigo-600 hover:scale-110'
+                                : canWrite ? 'text-gray-300 hover:text-indigo-600 hover:scale-110' : 'text-gray-200'
                             }`}
                             title={task.isDone ? 'Desmarcar' : 'Completar'}
                           >
@@ -400,7 +434,7 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
               <div className="bg-white rounded-xl p-4 border border-gray-200">
                 <div className="flex items-center justify-between mb-2">
                   <p className="text-xs font-semibold text-gray-700">Hilo de conversación</p>
-                  <button
+                  {canWrite && <button
                     onClick={(e) => {
                       e.stopPropagation();
                       setShowThreadManager(true);
@@ -409,7 +443,7 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
                   >
                     <ICONS.Edit size={12} />
                     {entry.threadId ? 'Cambiar' : 'Agregar a hilo'}
-                  </button>
+                  </button>}
                 </div>
                 {thread ? (
                   <div className="flex items-center gap-2 text-sm text-purple-700 bg-purple-50 px-3 py-2 rounded-lg border border-purple-200">
@@ -421,6 +455,45 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
                 )}
               </div>
 
+              {/* Revision History - Collapsible */}
+              <div className="bg-white rounded-xl p-4 border border-gray-200">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowHistory(!showHistory);
+                  }}
+                  className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-800 font-medium transition-colors w-full"
+                >
+                  <ICONS.History size={16} />
+                  {showHistory ? 'Ocultar historial de cambios' : 'Ver historial de cambios'}
+                </button>
+                {showHistory && <EntryHistoryPanel entryId={entry.id} />}
+              </div>
+
+              {/* Comments - only in shared books */}
+              {isShared && (
+                <div className="bg-white rounded-xl p-4 border border-gray-200">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowComments(!showComments);
+                    }}
+                    className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-800 font-medium transition-colors w-full"
+                  >
+                    <ICONS.MessageSquare size={16} />
+                    {showComments ? 'Ocultar comentarios' : 'Ver comentarios'}
+                  </button>
+                  {showComments && (
+                    <EntryCommentsPanel
+                      entryId={entry.id}
+                      bookId={entry.bookId}
+                      canComment={canOnBook(book, 'comment')}
+                      isBookOwner={isBookOwner}
+                    />
+                  )}
+                </div>
+              )}
+
               {/* Metadata Footer */}
               <div className="flex items-center justify-between text-xs text-gray-500 pt-2 border-t border-gray-200">
                 <div className="flex items-center gap-4">
@@ -447,7 +520,7 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
       {/* Confirm Dialogs */}
       <ConfirmDialog
         isOpen={confirmTask.isOpen}
-        onClose={() => setConfirmTask({ isOpen: false, taskIndex: -1, description: '' })}
+        onClose={() => setConfirmTask({ isOpen: false, taskId: '', description: '' })}
         onConfirm={handleConfirmTaskComplete}
         title="¿Completar tarea?"
         message={`¿Marcar como completada: "${confirmTask.description}"?`}
@@ -461,7 +534,7 @@ const EntryCard: React.FC<{ entry: Entry; compact?: boolean }> = memo(({ entry,
         onClose={() => setConfirmDelete(false)}
         onConfirm={handleConfirmDelete}
         title="¿Eliminar entrada?"
-        message="Esta acción no se puede deshacer."
+        message="La entrada se moverá a la papelera. Podrás restaurarla desde ahí con sus tareas intactas."
         confirmText="Eliminar"
         cancelText="Cancelar"
         variant="danger"
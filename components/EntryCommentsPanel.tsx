@@ -0,0 +1,137 @@
+import React, { memo, useCallback, useContext, useEffect, useState } from 'react';
+import { useBitacora } from '../context/BitacoraContext';
+import { AuthContext } from '../context/AuthContext';
+import { ICONS } from '../constants';
+import { EntryComment } from '../types';
+
+// Comments on an entry of a shared book. Loaded each time the panel is opened.
+// Everyone in the book reads them; commenters, editors and the owner can write.
+// A comment can be deleted by its author or by the book's owner.
+const EntryCommentsPanel: React.FC<{ entryId: string; bookId: string; canComment: boolean; isBookOwner: boolean }> = memo(({
+  entryId,
+  bookId,
+  canComment,
+  isBookOwner,
+}) => {
+  const { bookMembers, getEntryComments, addEntryComment, deleteEntryComment } = useBitacora();
+  const user = useContext(AuthContext)?.user;
+  const [comments, setComments] = useState<EntryComment[]>([]);
+  const [text, setText] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getEntryComments(entryId)
+      .then(loaded => { if (!cancelled) setComments(loaded); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [entryId]);
+
+  const authorName = (authorId: string) =>
+    authorId === user?.id ? 'Tú' : bookMembers[bookId]?.find(m => m.userId === authorId)?.name || 'Antiguo miembro';
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const comment = await addEntryComment(entryId, trimmed);
+      setComments(prev => [...prev, comment]);
+      setText('');
+    } catch (err) {
+      console.error('Error adding comment:', err);
+      setError('No se pudo publicar el comentario. Intenta de nuevo.');
+    } finally {
+      setIsSending(false);
+    }
+  }, [text, entryId, addEntryComment]);
+
+  const handleDelete = useCallback(async (commentId: string) => {
+    setError(null);
+    try {
+      await deleteEntryComment(commentId);
+      setComments(prev => prev.filter(c => c.id !== commentId));
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      setError('No se pudo eliminar el comentario.');
+    }
+  }, [deleteEntryComment]);
+
+  return (
+    <div className="space-y-3 mt-3">
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      {isLoading && comments.length === 0 ? (
+        <div className="flex items-center gap-2 text-xs text-gray-500 py-2">
+          <ICONS.Loader2 size={14} className="animate-spin" />
+          Cargando comentarios...
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-gray-500 italic py-2">Aún no hay comentarios</p>
+      ) : (
+        comments.map(comment => (
+          <div key={comment.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+            <div className="flex items-start justify-between gap-3 mb-1">
+              <p className="text-[11px] text-gray-500">
+                <span className="font-semibold text-gray-800">{authorName(comment.authorId)}</span>
+                {' · '}
+                {new Date(comment.createdAt).toLocaleString('es-ES', {
+                  day: 'numeric',
+                  month: 'short',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </p>
+              {(comment.authorId === user?.id || isBookOwner) && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(comment.id);
+                  }}
+                  className="p-1 text-gray-300 hover:text-rose-500 rounded transition-colors flex-shrink-0"
+                  title="Eliminar comentario"
+                >
+                  <ICONS.Trash2 size={12} />
+                </button>
+              )}
+            </div>
+            <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">{comment.text}</p>
+          </div>
+        ))
+      )}
+
+      {canComment ? (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            maxLength={2000}
+            placeholder="Escribe un comentario..."
+            className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !text.trim()}
+            className="p-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+            title="Comentar"
+          >
+            {isSending ? <ICONS.Loader2 size={14} className="animate-spin" /> : <ICONS.Send size={14} />}
+          </button>
+        </form>
+      ) : (
+        <p className="text-[11px] text-gray-400 italic">Solo puedes leer esta libreta</p>
+      )}
+    </div>
+  );
+});
+
+EntryCommentsPanel.displayName = 'EntryCommentsPanel';
+
+export default EntryCommentsPanel;
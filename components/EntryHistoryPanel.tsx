@@ -0,0 +1,223 @@
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { useBitacora } from '../context/BitacoraContext';
+import { ICONS, TYPE_LABELS } from '../constants';
+import { EntryRevision, EntryStatus, NoteType } from '../types';
+import { diffEntrySnapshots, RevisionChange, RevisionField } from '../services/revisionDiff';
+import ConfirmDialog from './ConfirmDialog';
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  summary: 'Resumen',
+  aiRewrittenText: 'Texto procesado',
+  type: 'Tipo',
+  status: 'Estado',
+  thread: 'Hilo',
+  task: 'Tarea',
+  taskDescription: 'Descripción de la tarea',
+  taskAssignee: 'Responsable',
+  taskDueDate: 'Fecha límite',
+  taskPriority: 'Prioridad',
+  taskDone: 'Completada',
+  taskCompletionNotes: 'Observaciones',
+  entity: 'Entidad',
+};
+
+const STATUS_LABELS: Record<EntryStatus, string> = {
+  [EntryStatus.PROCESSING]: 'Procesando',
+  [EntryStatus.COMPLETED]: 'Completada',
+  [EntryStatus.ERROR]: 'Error',
+};
+
+const PRIORITY_LABELS: Record<string, string> = {
+  HIGH: 'Alta',
+  MEDIUM: 'Media',
+  LOW: 'Baja',
+};
+
+// Renders one side of a change as a readable value
+function useFormatValue() {
+  const { getThreadById } = useBitacora();
+  return useCallback((field: RevisionField, value?: string): string => {
+    if (!value) return '—';
+    switch (field) {
+      case 'type':
+        return TYPE_LABELS[value as NoteType] || value;
+      case 'status':
+        return STATUS_LABELS[value as EntryStatus] || value;
+      case 'thread':
+        return getThreadById(value)?.title || 'Hilo eliminado';
+      case 'taskPriority':
+        return PRIORITY_LABELS[value] || value;
+      case 'taskDone':
+        return value === 'true' ? 'Sí' : 'No';
+      default:
+        return value;
+    }
+  }, [getThreadById]);
+}
+
+const ChangeRow: React.FC<{ change: RevisionChange; formatValue: (field: RevisionField, value?: string) => string }> = ({ change, formatValue }) => {
+  const label = FIELD_LABELS[change.field];
+  const isTaskDetail = change.field.startsWith('task') && change.field !== 'task';
+
+  return (
+    <li className="text-xs text-gray-600 leading-relaxed">
+      <span className="font-semibold text-gray-700">
+        {label}
+        {isTaskDetail && change.subject && <span className="font-normal text-gray-500"> · {change.subject}</span>}
+      </span>
+      {': '}
+      {change.words ? (
+        <span className="whitespace-pre-wrap">
+          {change.words.map((word, i) => (
+            <span
+              key={i}
+              className={
+                word.op === 'added' ? 'bg-emerald-100 text-emerald-800 rounded' :
+                word.op === 'removed' ? 'bg-rose-100 text-rose-700 line-through rounded' : ''
+              }
+            >
+              {word.text}
+            </span>
+          ))}
+        </span>
+      ) : change.kind === 'added' && (change.field === 'task' || change.field === 'entity') ? (
+        <span className="text-emerald-700">+ {change.after}</span>
+      ) : change.kind === 'removed' && (change.field === 'task' || change.field === 'entity') ? (
+        <span className="text-rose-600 line-through">{change.before}</span>
+      ) : (
+        <>
+          <span className="text-rose-600 line-through">{formatValue(change.field, change.before)}</span>
+          {' → '}
+          <span className="text-emerald-700">{formatValue(change.field, change.after)}</span>
+        </>
+      )}
+    </li>
+  );
+};
+
+// Revision history for an entry: field-level diffs against the previous revision, with restore.
+// Loaded each time the panel is opened.
+const EntryHistoryPanel: React.FC<{ entryId: string }> = memo(({ entryId }) => {
+  const { getEntryRevisions, restoreEntryRevision } = useBitacora();
+  const formatValue = useFormatValue();
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState<EntryRevision | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRevisions(await getEntryRevisions(entryId));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entryId, getEntryRevisions]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [entryId]);
+
+  // Newest first, each with its changes relative to the revision before it
+  const history = useMemo(() => revisions
+    .map((revision, index) => ({
+      revision,
+      changes: diffEntrySnapshots(index > 0 ? revisions[index - 1].snapshot : null, revision.snapshot),
+    }))
+    .reverse(), [revisions]);
+
+  const handleRestore = useCallback(async () => {
+    if (!confirmRestore) return;
+    const revision = confirmRestore;
+    setConfirmRestore(null);
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await restoreEntryRevision(entryId, revision.id);
+      await loadRevisions();
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      setError('No se pudo restaurar la revisión. Intenta de nuevo.');
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [confirmRestore, entryId, restoreEntryRevision, loadRevisions]);
+
+  if (isLoading && revisions.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500 py-2">
+        <ICONS.Loader2 size={14} className="animate-spin" />
+        Cargando historial...
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return <p className="text-xs text-gray-500 italic py-2">Aún no hay cambios registrados para esta entrada</p>;
+  }
+
+  return (
+    <div className="space-y-3 mt-3">
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      {history.map(({ revision, changes }, index) => (
+        <div key={revision.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="flex items-start justify-between gap-3 mb-1">
+            <div className="min-w-0">
+              <p className="text-xs font-semibold text-gray-800">
+                #{revision.revisionNumber} · {revision.reason || 'Cambio'}
+                {index === 0 && <span className="ml-2 text-[10px] font-bold text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">Actual</span>}
+              </p>
+              <p className="text-[11px] text-gray-500">
+                {revision.authorName || 'Sistema'} · {new Date(revision.createdAt).toLocaleString('es-ES', {
+                  day: 'numeric',
+                  month: 'short',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </p>
+            </div>
+            {index > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setConfirmRestore(revision);
+                }}
+                disabled={isRestoring}
+                className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 hover:bg-indigo-50 px-2 py-1 rounded-lg transition-colors disabled:opacity-50 flex-shrink-0"
+              >
+                <ICONS.RotateCcw size={12} />
+                Restaurar
+              </button>
+            )}
+          </div>
+          {changes.length > 0 ? (
+            <ul className="space-y-1 mt-2">
+              {changes.map((change, i) => (
+                <ChangeRow key={i} change={change} formatValue={formatValue} />
+              ))}
+            </ul>
+          ) : index === history.length - 1 ? (
+            <p className="text-[11px] text-gray-400 italic">Primera versión registrada</p>
+          ) : null}
+        </div>
+      ))}
+
+      <ConfirmDialog
+        isOpen={!!confirmRestore}
+        onClose={() => setConfirmRestore(null)}
+        onConfirm={handleRestore}
+        title="¿Restaurar revisión?"
+        message={`La entrada, sus tareas y entidades volverán a como estaban en la revisión #${confirmRestore?.revisionNumber}. El estado actual quedará guardado en el historial.`}
+        confirmText="Restaurar"
+        cancelText="Cancelar"
+        variant="warning"
+      />
+    </div>
+  );
+});
+
+EntryHistoryPanel.displayName = 'EntryHistoryPanel';
+
+export default EntryHistoryPanel;
@@ -1,13 +1,29 @@
 import React, { useState, useMemo } from 'react';
 import { useBitacora } from '../context/BitacoraContext';
 import { ICONS, TYPE_LABELS } from '../constants';
-import { NoteType, EntityType } from '../types';
+import { PeriodStats } from '../types';
+import { useEntryStats } from '../hooks/useEntryStats';
 import { motion } from 'framer-motion';
 
 type Period = 'day' | 'week' | 'month';
 
+const EMPTY_PERIOD_STATS: PeriodStats = {
+  totalEntries: 0,
+  totalTasks: 0,
+  completedTasks: 0,
+  byType: [],
+  byDay: [],
+  topPeople: [],
+  topTopics: [],
+  topProjects: [],
+};
+
+// Days come as YYYY-MM-DD; shown as "19 oct"
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString('es-ES', { day: 'numeric', month: 'short' });
+
 const InsightsView: React.FC = () => {
-  const { entries, books } = useBitacora();
+  const { books } = useBitacora();
   const [period, setPeriod] = useState<Period>('week');
 
   // Calculate period start
@@ -19,58 +35,9 @@ const InsightsView: React.FC = () => {
     return now - ms;
   }, [period]);
 
-  // Filter entries by period
-  const periodEntries = useMemo(() => 
-    entries.filter(e => e.createdAt >= periodStart),
-    [entries, periodStart]
-  );
-
-  // Statistics
-  const stats = useMemo(() => {
-    const byType = new Map<NoteType, number>();
-    const byDay = new Map<string, number>();
-    const people = new Map<string, number>();
-    const topics = new Map<string, number>();
-    const projects = new Map<string, number>();
-
-    periodEntries.forEach(entry => {
-      // By type
-      byType.set(entry.type, (byType.get(entry.type) || 0) + 1);
-
-      // By day
-      const day = new Date(entry.createdAt).toLocaleDateString('es-ES', { 
-        day: 'numeric', 
-        month: 'short' 
-      });
-      byDay.set(day, (byDay.get(day) || 0) + 1);
-
-      // Entities
-      entry.entities.forEach(entity => {
-        if (entity.type === EntityType.PERSON) {
-          people.set(entity.name, (people.get(entity.name) || 0) + 1);
-        } else if (entity.type === EntityType.TOPIC) {
-          topics.set(entity.name, (topics.get(entity.name) || 0) + 1);
-        } else if (entity.type === EntityType.PROJECT) {
-          projects.set(entity.name, (projects.get(entity.name) || 0) + 1);
-        }
-      });
-    });
-
-    return {
-      byType: Array.from(byType.entries()).sort((a, b) => b[1] - a[1]),
-      byDay: Array.from(byDay.entries()).sort((a, b) => 
-        new Date(a[0]).getTime() - new Date(b[0]).getTime()
-      ),
-      topPeople: Array.from(people.entries()).sort((a, b) => b[1] - a[1]).slice(0, 10),
-      topTopics: Array.from(topics.entries()).sort((a, b) => b[1] - a[1]).slice(0, 10),
-      topProjects: Array.from(projects.entries()).sort((a, b) => b[1] - a[1]).slice(0, 10),
-      totalEntries: periodEntries.length,
-      totalTasks: periodEntries.reduce((sum, e) => sum + e.tasks.length, 0),
-      completedTasks: periodEntries.reduce((sum, e) => 
-        sum + e.tasks.filter(t => t.isDone).length, 0
-      ),
-    };
-  }, [periodEntries]);
+  // Counts over every entry of the period, computed by the server
+  const entryStats = useEntryStats(periodStart);
+  const stats = entryStats?.period ?? EMPTY_PERIOD_STATS;
 
   const maxDayCount = Math.max(...stats.byDay.map(([, count]) => count), 1);
   const maxTypeCount = Math.max(...stats.byType.map(([, count]) => count), 1);
@@ -189,7 +156,7 @@ const InsightsView: React.FC = () => {
           <div className="space-y-2">
             {stats.byDay.map(([day, count]) => (
               <div key={day} className="flex items-center gap-3">
-                <span className="text-xs text-gray-500 w-16">{day}</span>
+                <span className="text-xs text-gray-500 w-16">{formatDay(day)}</span>
                 <div className="flex-1 flex items-center gap-2">
                   <div className="flex-1 h-4 bg-gray-100 rounded-full overflow-hidden">
                     <div
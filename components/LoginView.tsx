@@ -1,40 +1,154 @@
-import React, { useState, useCallback, memo } from 'react';
+import React, { useState, useCallback, useEffect, memo } from 'react';
 import { motion } from 'framer-motion';
 import { ICONS } from '../constants';
 import { useAuth } from '../context/AuthContext';
+import { api, ApiError } from '../services/apiClient';
+import { useTranslation } from '../hooks/useTranslation';
+import type { MessageKey } from '../services/i18n';
+
+// login → (2FA) code; register; forgot → email with a reset link; reset ← that link
+type LoginMode = 'login' | 'code' | 'register' | 'forgot' | 'reset';
+
+const SUBTITLES: Record<LoginMode, MessageKey> = {
+  login: 'login.subtitle.login',
+  code: 'login.subtitle.code',
+  register: 'login.subtitle.register',
+  forgot: 'login.subtitle.forgot',
+  reset: 'login.subtitle.reset',
+};
+
+// Submit button label, idle and while the request runs
+const SUBMIT_LABELS: Record<LoginMode, [MessageKey, MessageKey]> = {
+  login: ['login.submit.login', 'login.submitting.login'],
+  code: ['login.submit.code', 'login.submitting.code'],
+  register: ['login.submit.register', 'login.submitting.register'],
+  forgot: ['login.submit.forgot', 'login.submitting.forgot'],
+  reset: ['login.submit.reset', 'login.submitting.reset'],
+};
+
+// Email links open the app with ?verify_email=<token>, ?reset_password=<token>
+// or ?revert_email=<token>
+const takeLinkToken = (param: string): string | null => {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get(param);
+  if (token) {
+    url.searchParams.delete(param);
+    window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+  }
+  return token;
+};
+
+const inputClassName = 'w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all';
 
 const LoginView: React.FC = memo(() => {
-  const [isLogin, setIsLogin] = useState(true);
+  const [mode, setMode] = useState<LoginMode>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [name, setName] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  
-  const { login, register } = useAuth();
+  // Set once the password is accepted for an account with 2FA on
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  // Login refused because the email is not confirmed yet: offer a new link
+  const [canResendVerification, setCanResendVerification] = useState(false);
+
+  const { login, completeTwoFactorLogin, register } = useAuth();
+  // Signed out, so this is the browser's language; new accounts start with it
+  const { locale, t } = useTranslation();
+
+  useEffect(() => {
+    const verifyToken = takeLinkToken('verify_email');
+    if (verifyToken) {
+      api.auth.verifyEmail(verifyToken)
+        .then(() => setNotice(t('login.emailVerified')))
+        .catch((err: any) => setError(err.message || t('login.emailVerifyFailed')));
+    }
+
+    const revertToken = takeLinkToken('revert_email');
+    if (revertToken) {
+      api.auth.revertEmailChange(revertToken)
+        .then(() => setNotice(t('login.emailReverted')))
+        .catch((err: any) => setError(err.message || t('login.emailRevertFailed')));
+    }
+
+    const token = takeLinkToken('reset_password');
+    if (token) {
+      setResetToken(token);
+      setMode('reset');
+    }
+  }, [t]);
+
+  const switchMode = useCallback((next: LoginMode) => {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+    setPassword('');
+    setConfirmPassword('');
+    setCode('');
+    setChallengeToken(null);
+    setCanResendVerification(false);
+  }, []);
 
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setNotice(null);
+    setCanResendVerification(false);
     setIsLoading(true);
 
     try {
-      if (isLogin) {
-        await login(email, password);
-      } else {
+      if (mode === 'code' && challengeToken) {
+        await completeTwoFactorLogin(challengeToken, code.trim());
+      } else if (mode === 'login') {
+        const token = await login(email, password);
+        if (token) {
+          setChallengeToken(token);
+          setMode('code');
+        }
+      } else if (mode === 'register') {
         if (!name.trim()) {
-          setError('El nombre es requerido');
-          setIsLoading(false);
+          setError(t('login.nameRequired'));
+          return;
+        }
+        await register(email, password, name, locale);
+        switchMode('login');
+        setNotice(t('login.registered', { email: email.trim() }));
+      } else if (mode === 'forgot') {
+        await api.auth.requestPasswordReset(email);
+        setNotice(t('login.resetRequested', { email: email.trim() }));
+      } else if (mode === 'reset' && resetToken) {
+        if (password !== confirmPassword) {
+          setError(t('login.passwordMismatch'));
           return;
         }
-        await register(email, password, name);
+        await api.auth.resetPassword(resetToken, password);
+        setResetToken(null);
+        switchMode('login');
+        setNotice(t('login.passwordReset'));
       }
     } catch (err: any) {
-      setError(err.message || 'Error al iniciar sesión');
+      setError(err.message || t('login.failed'));
+      setCanResendVerification(err instanceof ApiError && err.code === 'EMAIL_NOT_VERIFIED');
     } finally {
       setIsLoading(false);
     }
-  }, [isLogin, email, password, name, login, register]);
+  }, [mode, email, password, confirmPassword, name, code, challengeToken, resetToken, login, completeTwoFactorLogin, register, switchMode, locale, t]);
+
+  const handleResendVerification = useCallback(async () => {
+    setError(null);
+    setCanResendVerification(false);
+    try {
+      await api.auth.resendVerificationEmail(email);
+      setNotice(t('login.verificationResent', { email: email.trim() }));
+    } catch (err: any) {
+      setError(err.message || t('login.mailFailed'));
+    }
+  }, [email, t]);
+
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50 p-4">
@@ -50,9 +164,7 @@ const LoginView: React.FC = memo(() => {
               <ICONS.Book size={32} className="text-white" />
             </div>
             <h1 className="text-3xl font-extrabold text-gray-900 mb-2">Bitácora IA</h1>
-            <p className="text-gray-500">
-              {isLogin ? 'Inicia sesión en tu cuenta' : 'Crea una nueva cuenta'}
-            </p>
+            <p className="text-gray-500">{t(SUBTITLES[mode])}</p>
           </div>
 
           {/* Error Message */}
@@ -67,55 +179,129 @@ const LoginView: React.FC = memo(() => {
             </motion.div>
           )}
 
+          {canResendVerification && (
+            <button
+              onClick={handleResendVerification}
+              className="mb-4 w-full text-sm text-indigo-600 hover:text-indigo-700 font-semibold"
+            >
+              {t('login.resendVerification')}
+            </button>
+          )}
+
+          {/* Notice */}
+          {notice && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="mb-4 p-4 bg-green-50 border border-green-200 rounded-xl text-sm text-green-700 flex items-center gap-2"
+            >
+              <ICONS.CheckCircle size={18} className="flex-shrink-0" />
+              <span>{notice}</span>
+            </motion.div>
+          )}
+
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
-            {!isLogin && (
+            {mode === 'register' && (
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Nombre
+                  {t('login.name')}
                 </label>
                 <input
                   type="text"
                   value={name}
                   onChange={(e) => setName(e.target.value)}
-                  required={!isLogin}
-                  className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all"
-                  placeholder="Tu nombre"
+                  required
+                  className={inputClassName}
+                  placeholder={t('login.namePlaceholder')}
                 />
               </div>
             )}
 
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Email
-              </label>
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all"
-                placeholder="tu@email.com"
-              />
-            </div>
+            {(mode === 'login' || mode === 'register' || mode === 'forgot') && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className={inputClassName}
+                  placeholder={t('login.emailPlaceholder')}
+                />
+              </div>
+            )}
 
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Contraseña
-              </label>
-              <input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                minLength={8}
-                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all"
-                placeholder="••••••••"
-              />
-              {!isLogin && (
-                <p className="mt-1 text-xs text-gray-500">Mínimo 8 caracteres</p>
-              )}
-            </div>
+            {(mode === 'login' || mode === 'register' || mode === 'reset') && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-semibold text-gray-700">
+                    {mode === 'reset' ? t('login.newPassword') : t('login.password')}
+                  </label>
+                  {mode === 'login' && (
+                    <button
+                      type="button"
+                      onClick={() => switchMode('forgot')}
+                      className="text-xs text-indigo-600 hover:text-indigo-700 font-semibold"
+                    >
+                      {t('login.forgotPassword')}
+                    </button>
+                  )}
+                </div>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={8}
+                  className={inputClassName}
+                  placeholder="••••••••"
+                />
+                {mode !== 'login' && (
+                  <p className="mt-1 text-xs text-gray-500">{t('login.passwordHint')}</p>
+                )}
+              </div>
+            )}
+
+            {mode === 'reset' && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('login.confirmNewPassword')}
+                </label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={8}
+                  className={inputClassName}
+                  placeholder="••••••••"
+                />
+              </div>
+            )}
+
+            {mode === 'code' && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('login.code')}
+                </label>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  autoComplete="one-time-code"
+                  className={`${inputClassName} tracking-widest text-center`}
+                  placeholder="123456"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  {t('login.codeHint')}
+                </p>
+              </div>
+            )}
 
             <button
               type="submit"
@@ -125,32 +311,37 @@ const LoginView: React.FC = memo(() => {
               {isLoading ? (
                 <>
                   <ICONS.Loader2 className="animate-spin" size={20} />
-                  {isLogin ? 'Iniciando sesión...' : 'Creando cuenta...'}
+                  {t(SUBMIT_LABELS[mode][1])}
                 </>
               ) : (
-                isLogin ? 'Iniciar Sesión' : 'Crear Cuenta'
+                t(SUBMIT_LABELS[mode][0])
               )}
             </button>
           </form>
 
           {/* Toggle Login/Register */}
           <div className="mt-6 text-center">
-            <button
-              onClick={() => {
-                setIsLogin(!isLogin);
-                setError(null);
-                setPassword('');
-              }}
-              className="text-sm text-indigo-600 hover:text-indigo-700 font-semibold"
-            >
-              {isLogin ? '¿No tienes cuenta? Regístrate' : '¿Ya tienes cuenta? Inicia sesión'}
-            </button>
+            {mode === 'login' || mode === 'register' ? (
+              <button
+                onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
+                className="text-sm text-indigo-600 hover:text-indigo-700 font-semibold"
+              >
+                {mode === 'login' ? t('login.toRegister') : t('login.toLogin')}
+              </button>
+            ) : (
+              <button
+                onClick={() => switchMode('login')}
+                className="text-sm text-indigo-600 hover:text-indigo-700 font-semibold"
+              >
+                {t('login.back')}
+              </button>
+            )}
           </div>
         </div>
 
         {/* Security Notice */}
         <p className="mt-6 text-center text-xs text-gray-500">
-          🔒 Tus datos están protegidos con encriptación
+          {t('login.securityNotice')}
         </p>
       </motion.div>
     </div>
@@ -160,4 +351,3 @@ const LoginView: React.FC = memo(() => {
 LoginView.displayName = 'LoginView';
 
 export default LoginView;
-
@@ -4,6 +4,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { ICONS, TYPE_STYLES, TYPE_LABELS, TYPE_ICONS } from '../constants';
 import { NoteType, TaskItem, Book } from '../types';
 import { useBitacora } from '../context/BitacoraContext';
+import { ApiError } from '../services/apiClient';
 
 interface TopicSummary {
   bookName: string;
@@ -17,23 +18,26 @@ interface TopicSummary {
   originalText: string;
   taskActions: Array<{
     action: 'complete' | 'update';
+    taskId: string;
     taskDescription: string;
     completionNotes?: string;
   }>;
   threadId?: string; // Optional thread ID
   createNewThread?: boolean; // Whether to create a new thread
+  newThreadTitle?: string; // Title of the thread created on save
   // Thread relation suggestions from AI
   suggestedThreadId?: string;
   suggestedCreateNewThread?: boolean;
   suggestedThreadTitle?: string | null;
   threadRelationReason?: string;
   relatedEntryIds?: string[];
+  promptVersion?: string; // Prompt that analyzed the note, saved with the entry
 }
 
 interface MultiTopicSummaryModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (editedTopics: TopicSummary[]) => void;
+  onConfirm: (editedTopics: TopicSummary[]) => Promise<void>;
   isMultiTopic: boolean;
   topics: TopicSummary[];
   overallContext: string;
@@ -51,10 +55,12 @@ const MultiTopicSummaryModal: React.FC<MultiTopicSummaryModalProps> = memo(({
   completedTasks,
   fixedBookId
 }) => {
-  const { books, threads, entries, createThread } = useBitacora();
+  const { books, threads, entries } = useBitacora();
   const [editedTopics, setEditedTopics] = useState<TopicSummary[]>(initialTopics);
   const [expandedTopics, setExpandedTopics] = useState<Set<string>>(new Set());
   const [editingBook, setEditingBook] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [threadSelections, setThreadSelections] = useState<Record<string, { type: 'none' | 'existing' | 'new'; threadId?: string; newThreadTitle?: string }>>({});
 
   // Reset state when topics change
@@ -128,23 +134,21 @@ const MultiTopicSummaryModal: React.FC<MultiTopicSummaryModalProps> = memo(({
     });
   };
 
-  const handleTaskChange = (topicIdx: number, taskIdx: number, field: keyof TaskItem, value: any) => {
+  const handleTaskChange = (topicIdx: number, taskId: string, field: keyof TaskItem, value: any) => {
     setEditedTopics(prev => {
       const updated = [...prev];
       const topic = { ...updated[topicIdx] };
-      const tasks = [...topic.tasks];
-      tasks[taskIdx] = { ...tasks[taskIdx], [field]: value };
-      topic.tasks = tasks;
+      topic.tasks = topic.tasks.map(t => t.id === taskId ? { ...t, [field]: value } : t);
       updated[topicIdx] = topic;
       return updated;
     });
   };
 
-  const handleRemoveTask = (topicIdx: number, taskIdx: number) => {
+  const handleRemoveTask = (topicIdx: number, taskId: string) => {
     setEditedTopics(prev => {
       const updated = [...prev];
       const topic = { ...updated[topicIdx] };
-      topic.tasks = topic.tasks.filter((_, idx) => idx !== taskIdx);
+      topic.tasks = topic.tasks.filter(t => t.id !== taskId);
       updated[topicIdx] = topic;
       return updated;
     });
@@ -174,21 +178,25 @@ const MultiTopicSummaryModal: React.FC<MultiTopicSummaryModalProps> = memo(({
       return;
     }
     
-    // Create new threads if needed
-    const topicsWithThreads = await Promise.all(editedTopics.map(async (topic) => {
-      if (topic.createNewThread && threadSelections[topic.entryId]?.newThreadTitle) {
-        try {
-          const newThread = await createThread(threadSelections[topic.entryId].newThreadTitle!, topic.bookId);
-          return { ...topic, threadId: newThread.id, createNewThread: false };
-        } catch (error) {
-          console.error('Error creating thread:', error);
-          return topic;
-        }
-      }
-      return topic;
-    }));
-    
-    onConfirm(topicsWithThreads);
+    // New threads are created when the capture is saved, in the same transaction
+    const topicsWithThreads = editedTopics.map(topic =>
+      topic.createNewThread && threadSelections[topic.entryId]?.newThreadTitle
+        ? { ...topic, newThreadTitle: threadSelections[topic.entryId].newThreadTitle }
+        : topic
+    );
+
+    // On failure nothing was saved: keep the modal open so the user can retry
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onConfirm(topicsWithThreads);
+    } catch (error) {
+      setSaveError(error instanceof ApiError && error.code === 'CAPTURE_SAVE_FAILED'
+        ? error.message
+        : 'No se pudo guardar la entrada. Intenta de nuevo.');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const modalContent = (
@@ -657,33 +665,33 @@ const MultiTopicSummaryModal: React.FC<MultiTopicSummaryModalProps> = memo(({
                                       Tareas ({topic.tasks.length})
                                     </p>
                                     <div className="space-y-2">
-                                      {topic.tasks.map((task, taskIdx) => (
-                                        <div key={taskIdx} className="bg-gray-50 rounded-lg p-2.5 border border-gray-100">
+                                      {topic.tasks.map(task => (
+                                        <div key={task.id} className="bg-gray-50 rounded-lg p-2.5 border border-gray-100">
                                           <div className="flex items-start gap-2">
                                             <div className="flex-1">
                                               <input
                                                 type="text"
                                                 value={task.description}
-                                                onChange={(e) => handleTaskChange(topicIdx, taskIdx, 'description', e.target.value)}
+                                                onChange={(e) => handleTaskChange(topicIdx, task.id, 'description', e.target.value)}
                                                 className="w-full px-2 py-1 rounded border border-gray-200 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-100 outline-none text-xs"
                                               />
                                               <div className="grid grid-cols-3 gap-2 mt-2">
                                                 <input
                                                   type="text"
                                                   value={task.assignee || ''}
-                                                  onChange={(e) => handleTaskChange(topicIdx, taskIdx, 'assignee', e.target.value || undefined)}
+                                                  onChange={(e) => handleTaskChange(topicIdx, task.id, 'assignee', e.target.value || undefined)}
                                                   placeholder="@Responsable"
                                                   className="px-2 py-1 rounded border border-gray-200 focus:border-indigo-500 outline-none text-xs"
                                                 />
                                                 <input
                                                   type="date"
                                                   value={task.dueDate ? (task.dueDate instanceof Date ? task.dueDate.toISOString().split('T')[0] : task.dueDate) : ''}
-                                                  onChange={(e) => handleTaskChange(topicIdx, taskIdx, 'dueDate', e.target.value || undefined)}
+                                                  onChange={(e) => handleTaskChange(topicIdx, task.id, 'dueDate', e.target.value || undefined)}
                                                   className="px-2 py-1 rounded border border-gray-200 focus:border-indigo-500 outline-none text-xs"
                                                 />
                                                 <select
                                                   value={task.priority || 'MEDIUM'}
-                                                  onChange={(e) => handleTaskChange(topicIdx, taskIdx, 'priority', e.target.value)}
+                                                  onChange={(e) => handleTaskChange(topicIdx, task.id, 'priority', e.target.value)}
                                                   className="px-2 py-1 rounded border border-gray-200 focus:border-indigo-500 outline-none text-xs"
                                                 >
                                                   <option value="LOW">Baja</option>
@@ -693,7 +701,7 @@ const MultiTopicSummaryModal: React.FC<MultiTopicSummaryModalProps> = memo(({
                                               </div>
                                             </div>
                                             <button
-                                              onClick={() => handleRemoveTask(topicIdx, taskIdx)}
+                                              onClick={() => handleRemoveTask(topicIdx, task.id)}
                                               className="p-1 hover:bg-rose-100 rounded text-gray-400 hover:text-rose-500 transition-colors"
                                             >
                                               <ICONS.X size={14} />
@@ -711,8 +719,8 @@ const MultiTopicSummaryModal: React.FC<MultiTopicSummaryModalProps> = memo(({
                                     <p className="text-xs font-semibold text-emerald-700 mb-2">
                                       ✅ Tareas que se completarán
                                     </p>
-                                    {topic.taskActions.filter(a => a.action === 'complete').map((action, idx) => (
-                                      <div key={idx} className="flex items-center gap-2 text-xs text-emerald-700">
+                                    {topic.taskActions.filter(a => a.action === 'complete').map(action => (
+                                      <div key={action.taskId} className="flex items-center gap-2 text-xs text-emerald-700">
                                         <ICONS.CheckCircle2 size={12} />
                                         <span className="line-through">{action.taskDescription}</span>
                                       </div>
@@ -741,19 +749,26 @@ const MultiTopicSummaryModal: React.FC<MultiTopicSummaryModalProps> = memo(({
               </div>
 
               {/* Footer */}
+              {saveError && (
+                <div className="px-3 md:px-4 py-2 border-t border-rose-100 bg-rose-50 text-xs md:text-sm text-rose-700 flex items-center gap-2">
+                  <ICONS.AlertCircle size={14} className="flex-shrink-0" />
+                  {saveError}
+                </div>
+              )}
               <div className="p-3 md:p-4 border-t border-gray-100 bg-gray-50 flex items-center justify-between gap-3">
                 <button
                   onClick={onClose}
+                  disabled={isSaving}
                   className="px-4 md:px-5 py-2 md:py-2.5 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 rounded-xl font-semibold text-sm transition-colors"
                 >
                   Cancelar
                 </button>
                 <button
                   onClick={handleConfirm}
-                  disabled={editedTopics.length === 0}
+                  disabled={editedTopics.length === 0 || isSaving}
                   className="px-4 md:px-6 py-2 md:py-2.5 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white rounded-xl font-bold text-sm transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed active:scale-[0.98]"
                 >
-                  {editedTopics.length === 0 ? 'Sin entradas' : `Guardar ${editedTopics.length} entrada${editedTopics.length > 1 ? 's' : ''} ✨`}
+                  {isSaving ? 'Guardando...' : saveError ? 'Reintentar' : editedTopics.length === 0 ? 'Sin entradas' : `Guardar ${editedTopics.length} entrada${editedTopics.length > 1 ? 's' : ''} ✨`}
                 </button>
               </div>
             </motion.div>
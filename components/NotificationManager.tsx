@@ -14,7 +14,7 @@ interface NotificationManagerProps {
 }
 
 const NotificationManager: React.FC<NotificationManagerProps> = memo(({ showBanner = true }) => {
-  const { entries } = useBitacora();
+  const { entries, updateTaskStatus } = useBitacora();
   const [permission, setPermission] = useState<NotificationPermission>('default');
   const [showPermissionBanner, setShowPermissionBanner] = useState(false);
   const [isSupported, setIsSupported] = useState(false);
@@ -83,9 +83,8 @@ const NotificationManager: React.FC<NotificationManagerProps> = memo(({ showBann
   // Handle service worker messages
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
-      if (event.data?.type === 'COMPLETE_TASK') {
-        // TODO: Mark task as complete
-        console.log('Complete task from notification:', event.data);
+      if (event.data?.type === 'COMPLETE_TASK' && event.data.entryId && event.data.taskId) {
+        updateTaskStatus(event.data.entryId, event.data.taskId, true);
       }
     };
 
@@ -93,7 +92,7 @@ const NotificationManager: React.FC<NotificationManagerProps> = memo(({ showBann
     return () => {
       navigator.serviceWorker?.removeEventListener('message', handleMessage);
     };
-  }, []);
+  }, [updateTaskStatus]);
 
   if (!isSupported || !showBanner) return null;
 
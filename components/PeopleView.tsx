@@ -1,15 +1,14 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { useBitacora } from '../context/BitacoraContext';
-import { useAuth } from '../context/AuthContext';
 import { ICONS, TYPE_STYLES, TYPE_LABELS } from '../constants';
 import { EntityType, NoteType, Entry } from '../types';
 import EntryCard from './EntryCard';
 import { motion, AnimatePresence } from 'framer-motion';
-import { generatePersonInteractionSummary } from '../services/openaiService';
+import { api } from '../services/apiClient';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 
 const PeopleView: React.FC = () => {
-  const { entries, books, getBookName } = useBitacora();
-  const { user } = useAuth();
+  const { entries, books, getBookName, loadMoreEntries, getEntryPageStatus } = useBitacora();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedBook, setSelectedBook] = useState<string>('');
   const [selectedType, setSelectedType] = useState<NoteType | ''>('');
@@ -19,7 +18,7 @@ const PeopleView: React.FC = () => {
   } | null>(null);
   const [interactionSummary, setInteractionSummary] = useState<string>('');
   const [isLoadingSummary, setIsLoadingSummary] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [visibleCount, setVisibleCount] = useState(20);
   const itemsPerPage = 20;
 
   // Extract all people from entries
@@ -89,15 +88,25 @@ const PeopleView: React.FC = () => {
     return people.sort((a, b) => b.lastInteraction - a.lastInteraction);
   }, [peopleMap, searchQuery, selectedBook, selectedType]);
 
-  // Pagination
-  const totalPages = Math.ceil(filteredPeople.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedPeople = filteredPeople.slice(startIndex, endIndex);
+  // People are revealed as the list is scrolled; once all loaded entries are
+  // shown, older entries are fetched to find people mentioned only there
+  const pageStatus = getEntryPageStatus();
+  const visiblePeople = filteredPeople.slice(0, visibleCount);
+  const hasMorePeople = visiblePeople.length < filteredPeople.length || pageStatus.hasMore;
 
-  // Reset to page 1 when filters change
+  const showMore = useCallback(() => {
+    if (visibleCount < filteredPeople.length) {
+      setVisibleCount(count => count + itemsPerPage);
+    } else {
+      loadMoreEntries();
+    }
+  }, [visibleCount, filteredPeople.length, loadMoreEntries]);
+
+  const sentinelRef = useInfiniteScroll(showMore, hasMorePeople, visiblePeople.length + entries.length);
+
+  // Start from the top again when filters change
   useEffect(() => {
-    setCurrentPage(1);
+    setVisibleCount(itemsPerPage);
   }, [searchQuery, selectedBook, selectedType]);
 
   const totalPeople = peopleMap.size;
@@ -105,11 +114,10 @@ const PeopleView: React.FC = () => {
     sum + e.entities.filter(ent => ent.type === EntityType.PERSON).length, 0
   );
 
-  const handlePersonClick = async (person: {
+  const loadSummary = async (person: {
     name: string;
     entries: Array<{ entry: Entry; entity: { name: string; type: EntityType } }>;
-  }) => {
-    setSelectedPerson(person);
+  }, refresh = false) => {
     setIsLoadingSummary(true);
     setInteractionSummary('');
 
@@ -123,11 +131,7 @@ const PeopleView: React.FC = () => {
         tasks: entry.tasks || [],
       }));
 
-      const summary = await generatePersonInteractionSummary(
-        person.name, 
-        entriesData,
-        user?.id
-      );
+      const summary = await api.ai.generatePersonInteractionSummary(person.name, entriesData, refresh);
       setInteractionSummary(summary);
     } catch (error) {
       console.error('Error generating summary:', error);
@@ -137,6 +141,14 @@ const PeopleView: React.FC = () => {
     }
   };
 
+  const handlePersonClick = (person: {
+    name: string;
+    entries: Array<{ entry: Entry; entity: { name: string; type: EntityType } }>;
+  }) => {
+    setSelectedPerson(person);
+    loadSummary(person);
+  };
+
   const getInitials = (name: string) => {
     const parts = name.trim().split(/\s+/);
     if (parts.length >= 2) {
@@ -206,7 +218,7 @@ const PeopleView: React.FC = () => {
       ) : (
         <>
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-            {paginatedPeople.map((person, index) => (
+            {visiblePeople.map((person, index) => (
               <motion.button
                 key={person.name}
                 initial={{ opacity: 0, scale: 0.9 }}
@@ -230,60 +242,19 @@ const PeopleView: React.FC = () => {
             ))}
           </div>
 
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4">
-              <div className="text-sm text-gray-600">
-                Mostrando {startIndex + 1} - {Math.min(endIndex, filteredPeople.length)} de {filteredPeople.length} personas
-              </div>
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                  disabled={currentPage === 1}
-                  className="px-4 py-2 rounded-xl border border-gray-200 bg-white text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
-                >
-                  <ICONS.ChevronLeft size={16} />
-                  Anterior
-                </button>
-                
-                <div className="flex items-center gap-1">
-                  {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                    let pageNum: number;
-                    if (totalPages <= 5) {
-                      pageNum = i + 1;
-                    } else if (currentPage <= 3) {
-                      pageNum = i + 1;
-                    } else if (currentPage >= totalPages - 2) {
-                      pageNum = totalPages - 4 + i;
-                    } else {
-                      pageNum = currentPage - 2 + i;
-                    }
-                    
-                    return (
-                      <button
-                        key={pageNum}
-                        onClick={() => setCurrentPage(pageNum)}
-                        className={`px-3 py-2 rounded-xl font-medium transition-colors min-w-[40px] ${
-                          currentPage === pageNum
-                            ? 'bg-indigo-600 text-white shadow-md'
-                            : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
-                        }`}
-                      >
-                        {pageNum}
-                      </button>
-                    );
-                  })}
-                </div>
-
-                <button
-                  onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                  disabled={currentPage === totalPages}
-                  className="px-4 py-2 rounded-xl border border-gray-200 bg-white text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
-                >
-                  Siguiente
-                  <ICONS.ChevronRight size={16} />
-                </button>
-              </div>
+          {/* Infinite scroll */}
+          {hasMorePeople ? (
+            <div ref={sentinelRef} className="mt-8 flex items-center justify-center gap-2 text-sm text-gray-400 min-h-[2rem]">
+              {pageStatus.isLoading && (
+                <>
+                  <ICONS.Loader2 size={16} className="animate-spin" />
+                  Buscando más personas...
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="mt-8 text-center text-sm text-gray-600">
+              {filteredPeople.length} {filteredPeople.length === 1 ? 'persona' : 'personas'}
             </div>
           )}
         </>
@@ -335,7 +306,15 @@ const PeopleView: React.FC = () => {
                   <div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-xl p-5 border border-indigo-100">
                     <div className="flex items-center gap-2 mb-3">
                       <ICONS.Sparkles size={20} className="text-indigo-600" />
-                      <h3 className="font-bold text-gray-900">Resumen de Interacciones</h3>
+                      <h3 className="font-bold text-gray-900 flex-1">Resumen de Interacciones</h3>
+                      <button
+                        onClick={() => loadSummary(selectedPerson, true)}
+                        disabled={isLoadingSummary}
+                        className="p-1.5 text-indigo-600 hover:bg-white/60 rounded-lg transition-colors disabled:opacity-50"
+                        title="Regenerar resumen"
+                      >
+                        <ICONS.RefreshCw size={16} />
+                      </button>
                     </div>
                     {isLoadingSummary ? (
                       <div className="flex items-center gap-3 text-gray-600">
@@ -0,0 +1,139 @@
+import React, { memo, useCallback, useMemo, useRef, useState } from 'react';
+import { ICONS } from '../constants';
+import {
+  getSearchSuggestions,
+  applySearchSuggestion,
+  parseSearchQuery,
+  SuggestionSources,
+} from '../services/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit?: () => void;
+  sources: SuggestionSources;
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+}
+
+// Text input for the search query language with autocomplete for books, people, types and operators
+const SearchQueryInput: React.FC<SearchQueryInputProps> = memo(({
+  value,
+  onChange,
+  onSubmit,
+  sources,
+  placeholder,
+  className = '',
+  inputClassName = '',
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isFocused, setIsFocused] = useState(false);
+  // -1 = nothing highlighted, so Enter still submits the query
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [dismissed, setDismissed] = useState(false);
+
+  const suggestions = useMemo(() => getSearchSuggestions(value, sources), [value, sources]);
+  const errors = useMemo(() => parseSearchQuery(value).errors, [value]);
+  const showSuggestions = isFocused && !dismissed && suggestions.length > 0;
+
+  const selectSuggestion = useCallback((index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+    onChange(applySearchSuggestion(value, suggestion));
+    setActiveIndex(-1);
+    inputRef.current?.focus();
+  }, [suggestions, value, onChange]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex(prev => (prev + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex(prev => (prev <= 0 ? suggestions.length : prev) - 1);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && activeIndex >= 0)) {
+        e.preventDefault();
+        selectSuggestion(Math.max(activeIndex, 0));
+        return;
+      }
+      if (e.key === 'Escape') {
+        setDismissed(true);
+        return;
+      }
+    }
+    if (e.key === 'Enter') {
+      onSubmit?.();
+    }
+  }, [showSuggestions, suggestions.length, activeIndex, selectSuggestion, onSubmit]);
+
+  return (
+    <div className={className}>
+      <div className="relative">
+        <ICONS.Search className="absolute left-3 md:left-4 top-1/2 -translate-y-1/2 text-gray-400 w-4 h-4 md:w-5 md:h-5" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setActiveIndex(-1);
+            setDismissed(false);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={placeholder}
+          spellCheck={false}
+          autoComplete="off"
+          className={`w-full pl-10 md:pl-14 pr-10 py-2.5 md:py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all bg-white text-sm md:text-base ${inputClassName}`}
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="absolute right-3 md:right-4 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+          >
+            <ICONS.X size={18} />
+          </button>
+        )}
+
+        {showSuggestions && (
+          <ul className="absolute z-30 left-0 right-0 mt-1 bg-white border border-gray-100 rounded-xl shadow-lg overflow-hidden max-h-64 overflow-y-auto">
+            {suggestions.map((suggestion, index) => (
+              <li key={`${suggestion.label}-${index}`}>
+                <button
+                  type="button"
+                  // Keep focus in the input while choosing
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    selectSuggestion(index);
+                  }}
+                  className={`w-full flex items-center justify-between px-4 py-2 text-left text-sm ${
+                    index === activeIndex ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="truncate">{suggestion.label}</span>
+                  {suggestion.hint && <span className="text-xs text-gray-400 ml-3 shrink-0">{suggestion.hint}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <p className="mt-1 text-xs text-amber-600">{errors.join(' · ')}</p>
+      )}
+    </div>
+  );
+});
+
+SearchQueryInput.displayName = 'SearchQueryInput';
+
+export default SearchQueryInput;
@@ -1,22 +1,49 @@
-import React, { useState, useEffect, useCallback, memo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, memo } from 'react';
 import { useBitacora } from '../context/BitacoraContext';
 import { ICONS, TYPE_STYLES, TYPE_LABELS } from '../constants';
-import { NoteType, SearchFilters } from '../types';
+import { NoteType, SearchFilters, SearchResult, SNIPPET_HIGHLIGHT } from '../types';
 import EntryCard from './EntryCard';
+import SearchQueryInput from './SearchQueryInput';
+import { collectPeople } from '../services/searchQuery';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useThrottle } from '../hooks/useThrottle';
 
 const ITEMS_PER_PAGE = 15;
 const ITEMS_PER_PAGE_MOBILE = 8;
 
+// Renders a search snippet, highlighting the terms wrapped in SNIPPET_HIGHLIGHT markers
+const SearchSnippet: React.FC<{ snippet: string }> = memo(({ snippet }) => {
+  const parts = snippet.split(new RegExp(`(${SNIPPET_HIGHLIGHT.start}[^${SNIPPET_HIGHLIGHT.end}]*${SNIPPET_HIGHLIGHT.end})`, 'g'));
+  return (
+    <p className="text-xs md:text-sm text-gray-500 mb-2 px-1 leading-relaxed">
+      {parts.map((part, i) =>
+        part.startsWith(SNIPPET_HIGHLIGHT.start) && part.endsWith(SNIPPET_HIGHLIGHT.end) ? (
+          <mark key={i} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {part.slice(SNIPPET_HIGHLIGHT.start.length, -SNIPPET_HIGHLIGHT.end.length)}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </p>
+  );
+});
+
+SearchSnippet.displayName = 'SearchSnippet';
+
 const SearchView: React.FC = memo(() => {
-  const { books, searchEntries } = useBitacora();
+  const { books, entries, searchEntries } = useBitacora();
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<any[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [filters, setFilters] = useState<SearchFilters>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [isMobile, setIsMobile] = useState(false);
+
+  const suggestionSources = useMemo(() => ({
+    books: books.map(b => b.name),
+    people: collectPeople(entries),
+  }), [books, entries]);
   
   // Throttled resize handler for better performance
   const checkSize = useThrottle(() => {
@@ -76,12 +103,6 @@ const SearchView: React.FC = memo(() => {
     }
   }, [hasMore]);
 
-  const handleKeyPress = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleSearch();
-    }
-  }, [handleSearch]);
-
   return (
     <div className="max-w-4xl mx-auto pb-24 md:pb-8 min-h-screen">
       <div className="mb-4 md:mb-8 mt-2 md:mt-4">
@@ -101,17 +122,15 @@ const SearchView: React.FC = memo(() => {
         className="bg-white rounded-2xl md:rounded-3xl shadow-lg border border-gray-100 p-3 md:p-5 lg:p-6 mb-4 md:mb-6"
       >
         <div className="flex flex-col sm:flex-row gap-2 md:gap-3 mb-3 md:mb-4">
-          <div className="flex-1 relative">
-            <ICONS.Search className="absolute left-3 md:left-4 top-1/2 -translate-y-1/2 text-gray-400 w-4 h-4 md:w-5 md:h-5" />
-            <input
-              type="text"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="¿Qué buscas hoy? 🔍"
-              className="w-full pl-10 md:pl-14 pr-3 md:pr-4 py-2.5 md:py-3.5 rounded-xl md:rounded-2xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all text-sm md:text-base"
-            />
-          </div>
+          <SearchQueryInput
+            value={query}
+            onChange={setQuery}
+            onSubmit={handleSearch}
+            sources={suggestionSources}
+            placeholder='¿Qué buscas hoy? 🔍  ej: tipo:DECISION @Juan "frase exacta"'
+            className="flex-1"
+            inputClassName="md:py-3.5 md:rounded-2xl"
+          />
           <button
             onClick={handleSearch}
             disabled={isSearching}
@@ -153,6 +172,10 @@ const SearchView: React.FC = memo(() => {
             className="px-3 md:px-4 py-2 md:py-2.5 rounded-xl border border-gray-200 focus:border-indigo-500 outline-none text-sm md:text-base"
           />
         </div>
+
+        <p className="mt-2 md:mt-3 text-[11px] md:text-xs text-gray-400 leading-relaxed">
+          Atajos: <code>libreta:"Nombre"</code> <code>tipo:DECISION</code> <code>@persona</code> <code>desde:2026-09-01</code> <code>hasta:2026-09-30</code> <code>pendiente:si</code> <code>"frase exacta"</code> <code>-excluir</code>
+        </p>
       </motion.div>
 
       {/* Results */}
@@ -175,13 +198,14 @@ const SearchView: React.FC = memo(() => {
               )}
             </div>
             <div className="space-y-4 md:space-y-6">
-              {paginatedResults.map(entry => (
+              {paginatedResults.map(({ entry, snippet }) => (
                 <motion.div
                   key={entry.id}
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ duration: 0.2 }}
                 >
+                  {snippet && <SearchSnippet snippet={snippet} />}
                   <EntryCard entry={entry} />
                 </motion.div>
               ))}
@@ -2,6 +2,7 @@ import React, { useState, useCallback, memo } from 'react';
 import { ICONS } from '../constants';
 import { useBitacora } from '../context/BitacoraContext';
 import { useAuth } from '../context/AuthContext';
+import { useTranslation } from '../hooks/useTranslation';
 import { motion, AnimatePresence } from 'framer-motion';
 import BooksMenu from './BooksMenu';
 
@@ -20,6 +21,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
 }) => {
   const { books } = useBitacora();
   const { user, logout } = useAuth();
+  const { t } = useTranslation();
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [isBooksMenuOpen, setIsBooksMenuOpen] = useState(false);
 
@@ -46,7 +48,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
         </div>
 
         <nav className="flex-1 overflow-y-auto space-y-1 pr-2 custom-scrollbar">
-          <p className="px-3 text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 mt-4">Principal</p>
+          <p className="px-3 text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 mt-4">{t('nav.main')}</p>
           <button
             onClick={() => handleNav('dashboard')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-2xl text-sm font-semibold transition-all duration-200 ${
@@ -56,7 +58,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
             }`}
           >
             <ICONS.Home size={20} />
-            Tu Espacio
+            {t('nav.dashboard')}
           </button>
 
           <button
@@ -68,7 +70,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
             }`}
           >
             <ICONS.ListTodo size={20} />
-            Mis Misiones
+            {t('nav.tasks')}
           </button>
 
           <button
@@ -80,7 +82,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
             }`}
           >
             <ICONS.Search size={20} />
-            Búsqueda
+            {t('nav.search')}
           </button>
 
           <button
@@ -92,7 +94,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
             }`}
           >
             <ICONS.Sparkles size={20} />
-            Resumen
+            {t('nav.summary')}
           </button>
 
           <button
@@ -104,7 +106,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
             }`}
           >
             <ICONS.Sparkles size={20} />
-            Preguntar IA
+            {t('nav.query')}
           </button>
           
           <button
@@ -116,7 +118,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
             }`}
           >
             <ICONS.Users size={20} />
-            Personas
+            {t('nav.people')}
           </button>
 
           <button
@@ -128,7 +130,19 @@ const Sidebar: React.FC<SidebarProps> = memo(({
             }`}
           >
             <ICONS.BarChart3 size={20} />
-            Insights
+            {t('nav.insights')}
+          </button>
+
+          <button
+            onClick={() => handleNav('trash')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-2xl text-sm font-semibold transition-all duration-200 ${
+              activeView === 'trash' 
+              ? 'bg-gray-900 text-white shadow-md transform scale-[1.02]' 
+              : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
+            }`}
+          >
+            <ICONS.Trash2 size={20} />
+            {t('nav.trash')}
           </button>
 
           {/* Books Menu Button */}
@@ -141,7 +155,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
             }`}
           >
             <ICONS.Library size={20} />
-            <span className="flex-1 text-left">Libretas</span>
+            <span className="flex-1 text-left">{t('nav.books')}</span>
             <span className="text-xs font-bold bg-indigo-100 text-indigo-600 px-2 py-0.5 rounded-full">
               {books.length}
             </span>
@@ -161,7 +175,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
                 {user?.name?.charAt(0).toUpperCase() || 'U'}
               </div>
               <div className="flex-1 min-w-0 text-left">
-                <p className="text-sm font-bold text-gray-800 truncate">{user?.name || 'Usuario'}</p>
+                <p className="text-sm font-bold text-gray-800 truncate">{user?.name || t('common.user')}</p>
                 <p className="text-xs text-gray-400 truncate">{user?.email || ''}</p>
               </div>
               <ICONS.Edit 
@@ -177,7 +191,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
              className="w-full flex items-center gap-3 px-4 py-2.5 rounded-xl text-sm font-semibold text-gray-600 hover:bg-rose-50 hover:text-rose-600 transition-colors"
            >
              <ICONS.X size={18} />
-             Cerrar Sesión
+             {t('nav.logout')}
            </button>
         </div>
 
@@ -211,14 +225,14 @@ const Sidebar: React.FC<SidebarProps> = memo(({
                 onClick={(e) => e.stopPropagation()}
               >
                 <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-sm w-full">
-                  <h3 className="text-lg font-bold text-gray-900 mb-2">¿Cerrar sesión?</h3>
-                  <p className="text-sm text-gray-600 mb-6">Se cerrará tu sesión actual</p>
+                  <h3 className="text-lg font-bold text-gray-900 mb-2">{t('nav.logoutConfirm')}</h3>
+                  <p className="text-sm text-gray-600 mb-6">{t('nav.logoutDescription')}</p>
                   <div className="flex gap-3">
                     <button
                       onClick={() => setShowLogoutConfirm(false)}
                       className="flex-1 px-4 py-2.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-xl font-semibold transition-colors"
                     >
-                      Cancelar
+                      {t('common.cancel')}
                     </button>
                     <button
                       onClick={async () => {
@@ -227,7 +241,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
                       }}
                       className="flex-1 px-4 py-2.5 bg-rose-600 hover:bg-rose-700 text-white rounded-xl font-semibold transition-colors"
                     >
-                      Cerrar Sesión
+                      {t('nav.logout')}
                     </button>
                   </div>
                 </div>
@@ -1,26 +1,141 @@
 import React, { useState, useEffect, useMemo, useCallback, memo } from 'react';
 import { useBitacora } from '../context/BitacoraContext';
 import { ICONS } from '../constants';
-import { Entry } from '../types';
+import { AssignedTask, BookMember, Entry, EntryStatus, TaskItem } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useThrottle } from '../hooks/useThrottle';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import ConfirmDialog from './ConfirmDialog';
+import SearchQueryInput from './SearchQueryInput';
+import { parseSearchQuery, toSearchCriteria, isEmptyCriteria, matchesTask, collectPeople } from '../services/searchQuery';
 import { AuthContext } from '../context/AuthContext';
-import * as dataService from '../services/dataService';
+import { api } from '../services/apiClient';
+import { canOnBook } from '../services/permissions';
 
 const ITEMS_PER_PAGE = 20;
 const ITEMS_PER_PAGE_MOBILE = 10;
 
+type TaskScope = 'all' | 'delegated' | 'assigned';
+
+// The entry a delegated task comes from, as far as its assignee can see it
+const sourceEntryOf = (task: AssignedTask): Entry => ({
+  id: task.entryId,
+  originalText: '',
+  createdAt: task.entryCreatedAt,
+  bookId: task.bookId,
+  type: task.entryType,
+  summary: task.entrySummary,
+  tasks: [task],
+  entities: [],
+  status: EntryStatus.COMPLETED,
+});
+
+// Links a task to another registered user by email, or shows who it is delegated to
+const TaskDelegation: React.FC<{ entryId: string; task: TaskItem; canDelegate: boolean }> = ({ entryId, task, canDelegate }) => {
+  const { bookMembers, delegateTask, undelegateTask } = useBitacora();
+  const [isEditing, setIsEditing] = useState(false);
+  const [email, setEmail] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Members of shared books are the colleagues most likely to receive a task
+  const knownEmails = useMemo(() => [...new Set(
+    Object.values<BookMember[]>(bookMembers).flat().map(m => m.email).filter(Boolean)
+  )], [bookMembers]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      setIsEditing(false);
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo delegar la misión');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (task.assigneeUserId) {
+    return (
+      <span className="flex items-center gap-1 text-xs md:text-sm font-semibold text-emerald-700 bg-emerald-50 px-2 md:px-3 py-1 md:py-1.5 rounded-lg border border-emerald-100">
+        <ICONS.Send size={12} />
+        Delegada
+        {canDelegate && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              run(() => undelegateTask(entryId, task.id));
+            }}
+            disabled={isSaving}
+            className="ml-0.5 text-emerald-400 hover:text-rose-500 transition-colors"
+            title="Quitar delegación"
+          >
+            <ICONS.X size={12} />
+          </button>
+        )}
+      </span>
+    );
+  }
+
+  if (!canDelegate) return null;
+
+  if (isEditing) {
+    return (
+      <div className="flex flex-col gap-1" onClick={(e) => e.stopPropagation()}>
+        <input
+          type="email"
+          list={`delegate-${task.id}`}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && email.trim()) run(() => delegateTask(entryId, task.id, email.trim()));
+            if (e.key === 'Escape') {
+              setIsEditing(false);
+              setError(null);
+            }
+          }}
+          disabled={isSaving}
+          placeholder="Email del responsable..."
+          className="text-xs md:text-sm bg-white text-emerald-700 px-2 md:px-3 py-1 md:py-1.5 rounded-lg border-2 border-emerald-300 focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200 outline-none min-w-[180px]"
+          autoFocus
+        />
+        <datalist id={`delegate-${task.id}`}>
+          {knownEmails.map(known => <option key={known} value={known} />)}
+        </datalist>
+        {error && <span className="text-[11px] text-rose-600">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        setIsEditing(true);
+      }}
+      className="flex items-center gap-1 text-xs md:text-sm font-semibold text-gray-500 bg-gray-50 px-2 md:px-3 py-1 md:py-1.5 rounded-lg border border-gray-100 hover:bg-emerald-50 hover:text-emerald-700 hover:border-emerald-100 transition-colors"
+      title="Delegar a otro usuario"
+    >
+      <ICONS.Send size={12} />
+      Delegar
+    </button>
+  );
+};
+
 const TaskView: React.FC = memo(() => {
-  const { entries, getBookName, toggleTask, updateTaskFields, deleteTask } = useBitacora();
+  const { books, entries, assignedTasks, getBookName, toggleTask, toggleAssignedTask, updateTaskFields, deleteTask } = useBitacora();
   const authContext = React.useContext(AuthContext);
   const user = authContext?.user;
-  const [currentPage, setCurrentPage] = useState(1);
+  const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
   const [isMobile, setIsMobile] = useState(() => typeof window !== 'undefined' && window.innerWidth < 768);
   const [isLargeScreen, setIsLargeScreen] = useState(() => typeof window !== 'undefined' && window.innerWidth >= 1024);
   const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
   const [sortBy, setSortBy] = useState<'date' | 'priority' | 'book' | 'assignee' | 'dueDate'>('date');
-  const [editingTask, setEditingTask] = useState<{ entryId: string; taskIndex: number; field: 'assignee' | 'dueDate' } | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [scope, setScope] = useState<TaskScope>('all');
+  const [editingTask, setEditingTask] = useState<{ entryId: string; taskId: string; field: 'assignee' | 'dueDate' } | null>(null);
   const [editValue, setEditValue] = useState('');
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
   const [expandedContext, setExpandedContext] = useState<Set<string>>(new Set());
@@ -30,46 +145,50 @@ const TaskView: React.FC = memo(() => {
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     entryId: string;
-    taskIndex: number;
+    taskId: string;
     taskDescription: string;
-  }>({ isOpen: false, entryId: '', taskIndex: -1, taskDescription: '' });
+  }>({ isOpen: false, entryId: '', taskId: '', taskDescription: '' });
 
   // Confirm dialog state for deleting tasks
   const [deleteDialog, setDeleteDialog] = useState<{
     isOpen: boolean;
     entryId: string;
-    taskIndex: number;
+    taskId: string;
     taskDescription: string;
-  }>({ isOpen: false, entryId: '', taskIndex: -1, taskDescription: '' });
+  }>({ isOpen: false, entryId: '', taskId: '', taskDescription: '' });
 
   const handleConfirmComplete = useCallback(() => {
-    if (confirmDialog.entryId && confirmDialog.taskIndex >= 0) {
-      toggleTask(confirmDialog.entryId, confirmDialog.taskIndex);
+    if (confirmDialog.entryId && confirmDialog.taskId) {
+      if (assignedTasks.some(t => t.id === confirmDialog.taskId)) {
+        toggleAssignedTask(confirmDialog.taskId);
+      } else {
+        toggleTask(confirmDialog.entryId, confirmDialog.taskId);
+      }
     }
-    setConfirmDialog({ isOpen: false, entryId: '', taskIndex: -1, taskDescription: '' });
-  }, [confirmDialog, toggleTask]);
+    setConfirmDialog({ isOpen: false, entryId: '', taskId: '', taskDescription: '' });
+  }, [confirmDialog, assignedTasks, toggleTask, toggleAssignedTask]);
 
   const handleConfirmDelete = useCallback(() => {
-    if (deleteDialog.entryId && deleteDialog.taskIndex >= 0) {
-      deleteTask(deleteDialog.entryId, deleteDialog.taskIndex);
+    if (deleteDialog.entryId && deleteDialog.taskId) {
+      deleteTask(deleteDialog.entryId, deleteDialog.taskId);
     }
-    setDeleteDialog({ isOpen: false, entryId: '', taskIndex: -1, taskDescription: '' });
+    setDeleteDialog({ isOpen: false, entryId: '', taskId: '', taskDescription: '' });
   }, [deleteDialog, deleteTask]);
 
-  const showCompleteConfirm = useCallback((entryId: string, taskIndex: number, taskDescription: string) => {
+  const showCompleteConfirm = useCallback((entryId: string, taskId: string, taskDescription: string) => {
     setConfirmDialog({
       isOpen: true,
       entryId,
-      taskIndex,
+      taskId,
       taskDescription: taskDescription.length > 60 ? taskDescription.substring(0, 60) + '...' : taskDescription
     });
   }, []);
 
-  const showDeleteConfirm = useCallback((entryId: string, taskIndex: number, taskDescription: string) => {
+  const showDeleteConfirm = useCallback((entryId: string, taskId: string, taskDescription: string) => {
     setDeleteDialog({
       isOpen: true,
       entryId,
-      taskIndex,
+      taskId,
       taskDescription: taskDescription.length > 60 ? taskDescription.substring(0, 60) + '...' : taskDescription
     });
   }, []);
@@ -98,18 +217,42 @@ const TaskView: React.FC = memo(() => {
     return () => window.removeEventListener('resize', checkSize);
   }, [checkSize]);
 
-  // Flatten entries to tasks
+  // Search box uses the same query language as SearchView (e.g. "@Juan libreta:Ventas")
+  const searchCriteria = useMemo(() => toSearchCriteria(parseSearchQuery(searchQuery)), [searchQuery]);
+  const hasSearch = !isEmptyCriteria(searchCriteria);
+
+  const suggestionSources = useMemo(() => ({
+    books: books.map(b => b.name),
+    people: collectPeople(entries),
+  }), [books, entries]);
+
+  const assignedTaskIds = useMemo(() => new Set(assignedTasks.map(t => t.id)), [assignedTasks]);
+
+  const pendingTaskCount = useMemo(
+    () => entries.reduce((acc, e) => acc + e.tasks.filter(t => !t.isDone && !assignedTaskIds.has(t.id)).length, 0) +
+      assignedTasks.filter(t => !t.isDone).length,
+    [entries, assignedTasks, assignedTaskIds]
+  );
+
+  // Flatten entries to tasks. Tasks delegated to the user come from other users'
+  // entries (or shared books), and are shown once, as assigned.
   const allTasks = useMemo(() => {
-    const tasks = entries.flatMap(entry => 
-      entry.tasks.map((task, idx) => ({
+    const ownTasks = scope === 'assigned' ? [] : entries.flatMap(entry => 
+      entry.tasks.filter(task => !assignedTaskIds.has(task.id)).map(task => ({
         ...task,
         entryId: entry.id,
-        taskIndex: idx,
+        bookId: entry.bookId,
         bookName: getBookName(entry.bookId),
         entrySummary: entry.summary,
-        entryCreatedAt: entry.createdAt
-      }))
-    ).filter(t => !t.isDone); // Only show pending
+        entryCreatedAt: entry.createdAt,
+        isAssignedToMe: false as const,
+        delegatedByName: undefined as string | undefined,
+      })).filter(task => !hasSearch || matchesTask(task, entry, searchCriteria, { getBookName }))
+    ).filter(task => scope !== 'delegated' || (!!task.assigneeUserId && task.delegatedBy === user?.id));
+    const delegatedToMe = scope === 'delegated' ? [] : assignedTasks
+      .filter(task => !hasSearch || matchesTask(task, sourceEntryOf(task), searchCriteria, { getBookName: () => task.bookName }))
+      .map(task => ({ ...task, isAssignedToMe: true as const }));
+    const tasks = [...ownTasks, ...delegatedToMe].filter(t => !t.isDone); // Only show pending
 
     // Sort tasks
     return tasks.sort((a, b) => {
@@ -136,59 +279,39 @@ const TaskView: React.FC = memo(() => {
       // Default: date (newest first)
       return (b.entryCreatedAt || 0) - (a.entryCreatedAt || 0);
     });
-  }, [entries, getBookName, sortBy]);
+  }, [entries, assignedTasks, assignedTaskIds, scope, user?.id, getBookName, sortBy, hasSearch, searchCriteria]);
+
+  const hasDelegations = useMemo(
+    () => assignedTasks.length > 0 || entries.some(e => e.tasks.some(t => t.assigneeUserId && t.delegatedBy === user?.id)),
+    [assignedTasks, entries, user?.id]
+  );
+
+  // Source entry shown when a task is expanded; for tasks delegated to the user it may not be loaded
+  const sourceEntryFor = useCallback((task: (typeof allTasks)[number]): Entry | undefined =>
+    entries.find(e => e.id === task.entryId) || (task.isAssignedToMe ? sourceEntryOf(task) : undefined),
+  [entries]);
+
+  const canDelegate = useCallback((bookId: string) => canOnBook(books.find(b => b.id === bookId), 'write'), [books]);
 
   const itemsPerPage = isMobile ? ITEMS_PER_PAGE_MOBILE : ITEMS_PER_PAGE;
-  const totalPages = Math.max(1, Math.ceil(allTasks.length / itemsPerPage));
-  
-  // Reset page if current page is out of bounds or itemsPerPage changes
+
+  // Start from the top again when the list is filtered or re-sorted
   useEffect(() => {
-    if (currentPage > totalPages && totalPages > 0) {
-      setCurrentPage(1);
-    }
-  }, [currentPage, totalPages, itemsPerPage]);
-  
-  // Calculate pagination - recalculate when itemsPerPage changes
-  const validCurrentPage = useMemo(() => {
-    return Math.min(Math.max(1, currentPage), totalPages);
-  }, [currentPage, totalPages]);
-  
-  const startIndex = useMemo(() => {
-    return (validCurrentPage - 1) * itemsPerPage;
-  }, [validCurrentPage, itemsPerPage]);
-  
-  const endIndex = useMemo(() => {
-    return Math.min(startIndex + itemsPerPage, allTasks.length);
-  }, [startIndex, itemsPerPage, allTasks.length]);
-  
-  const paginatedTasks = useMemo(() => {
-    if (allTasks.length === 0) return [];
-    // Force pagination - always slice
-    const sliced = allTasks.slice(startIndex, endIndex);
-    return sliced;
-  }, [allTasks, startIndex, endIndex]);
-
-  const goToPage = useCallback((page: number) => {
-    if (page >= 1 && page <= totalPages) {
-      setCurrentPage(page);
-      window.scrollTo({ top: 0, behavior: 'smooth' });
-    }
-  }, [totalPages]);
+    setVisibleCount(ITEMS_PER_PAGE);
+  }, [searchQuery, sortBy, scope]);
 
-  const goToNextPage = useCallback(() => {
-    if (currentPage < totalPages) {
-      goToPage(currentPage + 1);
-    }
-  }, [currentPage, totalPages, goToPage]);
+  // Tasks are revealed in batches as the list is scrolled
+  const visibleTasks = useMemo(() => allTasks.slice(0, visibleCount), [allTasks, visibleCount]);
+  const hasMoreTasks = visibleTasks.length < allTasks.length;
 
-  const goToPrevPage = useCallback(() => {
-    if (currentPage > 1) {
-      goToPage(currentPage - 1);
-    }
-  }, [currentPage, goToPage]);
+  const showMore = useCallback(() => {
+    setVisibleCount(count => count + itemsPerPage);
+  }, [itemsPerPage]);
+
+  const sentinelRef = useInfiniteScroll(showMore, hasMoreTasks, visibleTasks.length);
 
-  const handleStartEdit = useCallback((entryId: string, taskIndex: number, field: 'assignee' | 'dueDate', currentValue?: string) => {
-    setEditingTask({ entryId, taskIndex, field });
+  const handleStartEdit = useCallback((entryId: string, taskId: string, field: 'assignee' | 'dueDate', currentValue?: string) => {
+    setEditingTask({ entryId, taskId, field });
     setEditValue(currentValue || '');
   }, []);
 
@@ -202,7 +325,7 @@ const TaskView: React.FC = memo(() => {
       updates.dueDate = editValue ? editValue : undefined;
     }
     
-    await updateTaskFields(editingTask.entryId, editingTask.taskIndex, updates);
+    await updateTaskFields(editingTask.entryId, editingTask.taskId, updates);
     setEditingTask(null);
     setEditValue('');
   }, [editingTask, editValue, updateTaskFields]);
@@ -233,7 +356,6 @@ const TaskView: React.FC = memo(() => {
                     value={sortBy}
                     onChange={(e) => {
                       setSortBy(e.target.value as 'date' | 'priority' | 'book' | 'assignee' | 'dueDate');
-                      setCurrentPage(1);
                     }}
                     className="px-2 md:px-3 py-1 md:py-1.5 rounded-lg border border-gray-200 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-100 outline-none text-xs md:text-sm bg-white"
                   >
@@ -270,21 +392,65 @@ const TaskView: React.FC = memo(() => {
             </div>
           </div>
           
+          {pendingTaskCount > 0 && (
+            <SearchQueryInput
+              value={searchQuery}
+              onChange={(value) => {
+                setSearchQuery(value);
+              }}
+              sources={suggestionSources}
+              placeholder="Filtrar misiones... (ej: @Juan libreta:Ventas)"
+              className="mb-3 md:mb-4"
+            />
+          )}
+
+          {(hasDelegations || scope !== 'all') && (
+            <div className="flex items-center gap-1 bg-white rounded-xl border border-gray-200 p-1 mb-3 md:mb-4 w-fit">
+              {([
+                ['all', 'Todas'],
+                ['assigned', 'Asignadas a mí'],
+                ['delegated', 'Delegadas por mí'],
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setScope(value)}
+                  className={`px-3 py-1.5 rounded-lg text-xs md:text-sm font-semibold transition-colors ${
+                    scope === value ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {allTasks.length > 0 && (
             <div className="flex items-center justify-between mb-3 md:mb-4 px-1">
               <div className="text-xs md:text-sm text-gray-500">
                 {allTasks.length} {allTasks.length === 1 ? 'misión pendiente' : 'misiones pendientes'}
               </div>
-              {totalPages > 1 && (
+              {hasMoreTasks && (
                 <div className="text-xs md:text-sm text-gray-500">
-                  Página {currentPage} de {totalPages}
+                  Mostrando {visibleTasks.length} de {allTasks.length}
                 </div>
               )}
             </div>
           )}
       </div>
 
-      {allTasks.length === 0 ? (
+      {allTasks.length === 0 && scope !== 'all' && !hasSearch ? (
+        <div className="text-center py-8 md:py-12 bg-white rounded-2xl md:rounded-3xl border border-dashed border-gray-200">
+          <ICONS.Send className="mx-auto text-gray-300 mb-3 w-9 h-9 md:w-12 md:h-12" />
+          <p className="text-sm md:text-base text-gray-500 font-medium">
+            {scope === 'assigned' ? 'Nadie te ha delegado misiones pendientes' : 'No tienes misiones delegadas pendientes'}
+          </p>
+        </div>
+      ) : allTasks.length === 0 && hasSearch && pendingTaskCount > 0 ? (
+        <div className="text-center py-8 md:py-12 bg-white rounded-2xl md:rounded-3xl border border-dashed border-gray-200">
+          <ICONS.Search className="mx-auto text-gray-300 mb-3 w-9 h-9 md:w-12 md:h-12" />
+          <p className="text-sm md:text-base text-gray-500 font-medium">Ninguna misión coincide con tu búsqueda 🤷‍♂️</p>
+        </div>
+      ) : allTasks.length === 0 ? (
         <div className="bg-gradient-to-br from-emerald-50 to-teal-50 rounded-2xl md:rounded-3xl p-6 md:p-10 text-center border border-emerald-100 relative overflow-hidden">
           <div className="absolute top-0 right-0 opacity-10 pointer-events-none">
             <span className="text-6xl">🎉</span>
@@ -300,8 +466,8 @@ const TaskView: React.FC = memo(() => {
         <>
           {viewMode === 'grid' && isLargeScreen ? (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
-              {paginatedTasks.map((task, i) => {
-                const taskKey = `${task.entryId}-${task.taskIndex}`;
+              {visibleTasks.map((task, i) => {
+                const taskKey = task.id;
                 return (
                   <motion.div
                     key={taskKey}
@@ -315,7 +481,7 @@ const TaskView: React.FC = memo(() => {
                         <button 
                           onClick={(e) => {
                             e.stopPropagation();
-                            showCompleteConfirm(task.entryId, task.taskIndex, task.description);
+                            showCompleteConfirm(task.entryId, task.id, task.description);
                           }}
                           className="mt-0.5 text-gray-300 hover:text-indigo-500 transition-all hover:scale-110 flex-shrink-0"
                           title="Marcar como completada"
@@ -333,16 +499,18 @@ const TaskView: React.FC = memo(() => {
                               Media
                             </span>
                           )}
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              showDeleteConfirm(task.entryId, task.taskIndex, task.description);
-                            }}
-                            className="p-1 hover:bg-rose-50 rounded-lg transition-colors text-gray-300 hover:text-rose-500"
-                            title="Eliminar"
-                          >
-                            <ICONS.Trash2 size={14} />
-                          </button>
+                          {!task.isAssignedToMe && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                showDeleteConfirm(task.entryId, task.id, task.description);
+                              }}
+                              className="p-1 hover:bg-rose-50 rounded-lg transition-colors text-gray-300 hover:text-rose-500"
+                              title="Eliminar"
+                            >
+                              <ICONS.Trash2 size={14} />
+                            </button>
+                          )}
                         </div>
                       </div>
                       
@@ -357,18 +525,26 @@ const TaskView: React.FC = memo(() => {
                         </div>
                         
                         <div className="flex flex-wrap gap-2">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleStartEdit(task.entryId, task.taskIndex, 'assignee', task.assignee);
-                            }}
-                            className="flex items-center gap-1 text-xs font-semibold bg-indigo-50 text-indigo-600 px-2 py-1 rounded-lg border border-indigo-100 hover:bg-indigo-100 transition-colors"
-                          >
-                            <span>@</span>
-                            {task.assignee || 'Asignar'}
-                          </button>
+                          {task.isAssignedToMe ? (
+                            <span className="flex items-center gap-1 text-xs font-semibold bg-emerald-50 text-emerald-700 px-2 py-1 rounded-lg border border-emerald-100">
+                              <ICONS.Send size={12} />
+                              De {task.delegatedByName || 'otro usuario'}
+                            </span>
+                          ) : (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleStartEdit(task.entryId, task.id, 'assignee', task.assignee);
+                              }}
+                              className="flex items-center gap-1 text-xs font-semibold bg-indigo-50 text-indigo-600 px-2 py-1 rounded-lg border border-indigo-100 hover:bg-indigo-100 transition-colors"
+                            >
+                              <span>@</span>
+                              {task.assignee || 'Asignar'}
+                            </button>
+                          )}
                           
                           <button
+                            disabled={task.isAssignedToMe}
                             onClick={(e) => {
                               e.stopPropagation();
                               let currentDate = '';
@@ -388,9 +564,9 @@ const TaskView: React.FC = memo(() => {
                                   }
                                 }
                               }
-                              handleStartEdit(task.entryId, task.taskIndex, 'dueDate', currentDate);
+                              handleStartEdit(task.entryId, task.id, 'dueDate', currentDate);
                             }}
-                            className="flex items-center gap-1 text-xs font-semibold text-orange-600 bg-orange-50 px-2 py-1 rounded-lg border border-orange-100 hover:bg-orange-100 transition-colors"
+                            className="flex items-center gap-1 text-xs font-semibold text-orange-600 bg-orange-50 px-2 py-1 rounded-lg border border-orange-100 hover:bg-orange-100 transition-colors disabled:hover:bg-orange-50 disabled:cursor-default"
                           >
                             📅 {task.dueDate 
                               ? (task.dueDate instanceof Date 
@@ -409,24 +585,28 @@ const TaskView: React.FC = memo(() => {
                                     : task.dueDate)
                               : 'Sin fecha'}
                           </button>
+
+                          {!task.isAssignedToMe && (
+                            <TaskDelegation entryId={task.entryId} task={task} canDelegate={canDelegate(task.bookId)} />
+                          )}
                         </div>
                         
                         <div className="pt-2 border-t border-gray-100">
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
-                              const contextKey = `${task.entryId}-${task.taskIndex}`;
+                              const contextKey = task.id;
                               setExpandedContext(prev => {
                                 const newSet = new Set(prev);
                                 if (newSet.has(contextKey)) {
                                   newSet.delete(contextKey);
                                 } else {
                                   newSet.add(contextKey);
-                                  // Load similar notes if not loaded
-                                  if (!similarNotes.has(contextKey) && user?.id) {
+                                  // Load similar notes if not loaded (the assignee of a delegated task may not see its book)
+                                  if (!similarNotes.has(contextKey) && user?.id && !task.isAssignedToMe) {
                                     const entry = entries.find(e => e.id === task.entryId);
                                     if (entry) {
-                                      dataService.getRelatedEntriesForEntry(entry.id, user.id, 3)
+                                      api.data.getRelatedEntriesForEntry(entry.id, 3)
                                         .then(results => {
                                           setSimilarNotes(prev => {
                                             const newMap = new Map(prev);
@@ -450,21 +630,26 @@ const TaskView: React.FC = memo(() => {
                           >
                             <ICONS.ChevronRight 
                               size={12} 
-                              className={`transition-transform ${expandedContext.has(`${task.entryId}-${task.taskIndex}`) ? 'rotate-90' : ''}`}
+                              className={`transition-transform ${expandedContext.has(task.id) ? 'rotate-90' : ''}`}
                             />
-                            {expandedContext.has(`${task.entryId}-${task.taskIndex}`) ? 'Ocultar contexto' : 'Ver contexto completo'}
+                            {expandedContext.has(task.id) ? 'Ocultar contexto' : 'Ver contexto completo'}
                           </button>
                           
-                          {expandedContext.has(`${task.entryId}-${task.taskIndex}`) && (() => {
-                            const entry = entries.find(e => e.id === task.entryId);
+                          {expandedContext.has(task.id) && (() => {
+                            const entry = sourceEntryFor(task);
                             if (!entry) return null;
                             
-                            const contextKey = `${task.entryId}-${task.taskIndex}`;
+                            const contextKey = task.id;
                             const similar = similarNotes.get(contextKey) || [];
                             
                             return (
                               <div className="mt-3 space-y-3">
                                 <div className="bg-gray-50 rounded-lg p-3">
+                                  {task.isAssignedToMe && (
+                                    <p className="text-[11px] text-gray-500 mb-2">
+                                      Entrada de origen en «{task.bookName}»
+                                    </p>
+                                  )}
                                   <p className="text-xs font-semibold text-gray-700 mb-2">Resumen:</p>
                                   <p className="text-xs text-gray-600">{entry.summary}</p>
                                   {entry.originalText && entry.originalText !== entry.summary && (
@@ -514,13 +699,13 @@ const TaskView: React.FC = memo(() => {
             </div>
           ) : (
             <div className="space-y-3 md:space-y-4">
-              {paginatedTasks.map((task, i) => {
+              {visibleTasks.map((task, i) => {
               // Group by priority for visual separation
-              const prevTask = i > 0 ? paginatedTasks[i - 1] : null;
+              const prevTask = i > 0 ? visibleTasks[i - 1] : null;
               const showPriorityHeader = sortBy === 'priority' && prevTask && prevTask.priority !== task.priority;
               
               return (
-                <React.Fragment key={`${task.entryId}-${task.taskIndex}`}>
+                <React.Fragment key={task.id}>
                   {showPriorityHeader && (
                     <div className="sticky top-16 z-10 bg-[#f8fafc] py-2 -mt-1 mb-2">
                       <div className="flex items-center gap-2 px-1">
@@ -537,7 +722,7 @@ const TaskView: React.FC = memo(() => {
                   )}
                   
                   {(() => {
-                    const taskKey = `${task.entryId}-${task.taskIndex}`;
+                    const taskKey = task.id;
                     const isExpanded = expandedTasks.has(taskKey);
                     
                     return (
@@ -556,7 +741,7 @@ const TaskView: React.FC = memo(() => {
                             <button 
                               onClick={(e) => {
                                 e.stopPropagation();
-                                showCompleteConfirm(task.entryId, task.taskIndex, task.description);
+                                showCompleteConfirm(task.entryId, task.id, task.description);
                               }}
                               className="mt-0.5 md:mt-1 text-gray-300 hover:text-indigo-500 transition-all hover:scale-110 flex-shrink-0"
                               title="Marcar como completada"
@@ -580,16 +765,18 @@ const TaskView: React.FC = memo(() => {
                                       Media
                                     </span>
                                   )}
-                                  <button
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      showDeleteConfirm(task.entryId, task.taskIndex, task.description);
-                                    }}
-                                    className="p-1 md:p-2 hover:bg-rose-50 rounded-lg transition-colors text-gray-300 hover:text-rose-500"
-                                    title="Eliminar misión"
-                                  >
-                                    <ICONS.Trash2 size={14} className="md:w-4 md:h-4" />
-                                  </button>
+                                  {!task.isAssignedToMe && (
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        showDeleteConfirm(task.entryId, task.id, task.description);
+                                      }}
+                                      className="p-1 md:p-2 hover:bg-rose-50 rounded-lg transition-colors text-gray-300 hover:text-rose-500"
+                                      title="Eliminar misión"
+                                    >
+                                      <ICONS.Trash2 size={14} className="md:w-4 md:h-4" />
+                                    </button>
+                                  )}
                                   <button
                                     onClick={(e) => {
                                       e.stopPropagation();
@@ -614,7 +801,7 @@ const TaskView: React.FC = memo(() => {
                                 </span>
                                 
                                 {/* Editable Assignee */}
-                                {editingTask?.entryId === task.entryId && editingTask?.taskIndex === task.taskIndex && editingTask.field === 'assignee' ? (
+                                {editingTask?.entryId === task.entryId && editingTask?.taskId === task.id && editingTask.field === 'assignee' ? (
                                   <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
                                     <input
                                       type="text"
@@ -630,11 +817,11 @@ const TaskView: React.FC = memo(() => {
                                       autoFocus
                                     />
                                   </div>
-                                ) : (
+                                ) : !task.isAssignedToMe && (
                                   <button
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      handleStartEdit(task.entryId, task.taskIndex, 'assignee', task.assignee);
+                                      handleStartEdit(task.entryId, task.id, 'assignee', task.assignee);
                                     }}
                                     className="flex items-center gap-1 md:gap-1.5 text-xs md:text-sm font-semibold bg-indigo-50 text-indigo-600 px-2 md:px-3 py-1 md:py-1.5 rounded-lg border border-indigo-100 hover:bg-indigo-100 hover:border-indigo-200 transition-colors"
                                   >
@@ -644,7 +831,7 @@ const TaskView: React.FC = memo(() => {
                                 )}
                                 
                                 {/* Editable Due Date */}
-                                {editingTask?.entryId === task.entryId && editingTask?.taskIndex === task.taskIndex && editingTask.field === 'dueDate' ? (
+                                {editingTask?.entryId === task.entryId && editingTask?.taskId === task.id && editingTask.field === 'dueDate' ? (
                                   <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
                                     <input
                                       type="date"
@@ -661,6 +848,7 @@ const TaskView: React.FC = memo(() => {
                                   </div>
                                 ) : (
                                   <button
+                                    disabled={task.isAssignedToMe}
                                     onClick={(e) => {
                                       e.stopPropagation();
                                       let currentDate = '';
@@ -680,9 +868,9 @@ const TaskView: React.FC = memo(() => {
                                           }
                                         }
                                       }
-                                      handleStartEdit(task.entryId, task.taskIndex, 'dueDate', currentDate);
+                                      handleStartEdit(task.entryId, task.id, 'dueDate', currentDate);
                                     }}
-                                    className="flex items-center gap-1 md:gap-1.5 text-xs md:text-sm font-semibold text-orange-600 bg-orange-50 px-2 md:px-3 py-1 md:py-1.5 rounded-lg border border-orange-100 hover:bg-orange-100 hover:border-orange-200 transition-colors"
+                                    className="flex items-center gap-1 md:gap-1.5 text-xs md:text-sm font-semibold text-orange-600 bg-orange-50 px-2 md:px-3 py-1 md:py-1.5 rounded-lg border border-orange-100 hover:bg-orange-100 hover:border-orange-200 transition-colors disabled:hover:bg-orange-50 disabled:hover:border-orange-100 disabled:cursor-default"
                                   >
                                     📅 {task.dueDate 
                                       ? (task.dueDate instanceof Date 
@@ -702,6 +890,15 @@ const TaskView: React.FC = memo(() => {
                                       : 'Sin fecha'}
                                   </button>
                                 )}
+
+                                {task.isAssignedToMe ? (
+                                  <span className="flex items-center gap-1 md:gap-1.5 text-xs md:text-sm font-semibold bg-emerald-50 text-emerald-700 px-2 md:px-3 py-1 md:py-1.5 rounded-lg border border-emerald-100">
+                                    <ICONS.Send size={12} />
+                                    De {task.delegatedByName || 'otro usuario'}
+                                  </span>
+                                ) : (
+                                  <TaskDelegation entryId={task.entryId} task={task} canDelegate={canDelegate(task.bookId)} />
+                                )}
                               </div>
                               
                               {!isExpanded && (
@@ -725,15 +922,15 @@ const TaskView: React.FC = memo(() => {
                             >
                               <div className="px-3 md:px-5 lg:px-6 pb-3 md:pb-5 lg:pb-6 pt-3 md:pt-4 space-y-3 md:space-y-4">
                                 {(() => {
-                                  const entry = entries.find(e => e.id === task.entryId);
+                                  const entry = sourceEntryFor(task);
                                   if (!entry) return null;
                                   
-                                  const contextKey = `${task.entryId}-${task.taskIndex}`;
+                                  const contextKey = task.id;
                                   const similar = similarNotes.get(contextKey) || [];
                                   
-                                  // Load similar notes if not loaded
-                                  if (similar.length === 0 && user?.id && !similarNotes.has(contextKey)) {
-                                    dataService.getRelatedEntriesForEntry(entry.id, user.id, 3)
+                                  // Load similar notes if not loaded (the assignee of a delegated task may not see its book)
+                                  if (similar.length === 0 && user?.id && !similarNotes.has(contextKey) && !task.isAssignedToMe) {
+                                    api.data.getRelatedEntriesForEntry(entry.id, 3)
                                       .then(results => {
                                         setSimilarNotes(prev => {
                                           const newMap = new Map(prev);
@@ -752,6 +949,12 @@ const TaskView: React.FC = memo(() => {
                                   return (
                                     <>
                                       <div className="bg-gray-50 rounded-xl p-3 md:p-4 border border-gray-100">
+                                        {task.isAssignedToMe && (
+                                          <p className="text-xs md:text-sm text-gray-500 mb-2 flex items-center gap-1.5">
+                                            <ICONS.Book size={12} />
+                                            Entrada de origen en «{task.bookName}»
+                                          </p>
+                                        )}
                                         <p className="text-[10px] md:text-xs font-bold text-gray-500 uppercase tracking-wide mb-1.5 md:mb-2">Resumen</p>
                                         <p className="text-sm md:text-base text-gray-700 leading-relaxed">
                                           {entry.summary}
@@ -820,68 +1023,11 @@ const TaskView: React.FC = memo(() => {
           </div>
           )}
           
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div className="mt-6 md:mt-8 flex flex-col items-center gap-4">
-              <div className="flex items-center gap-2">
-                {/* Previous button */}
-                <button
-                  onClick={goToPrevPage}
-                  disabled={currentPage === 1}
-                  className="px-3 md:px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:border-indigo-300 hover:text-indigo-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:border-gray-200 disabled:hover:text-gray-700"
-                >
-                  <ICONS.ChevronLeft size={16} />
-                </button>
-
-                {/* Page numbers */}
-                <div className="flex items-center gap-1">
-                  {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                    let pageNum: number;
-                    
-                    if (totalPages <= 5) {
-                      // Show all pages if 5 or less
-                      pageNum = i + 1;
-                    } else if (currentPage <= 3) {
-                      // Show first 5 pages
-                      pageNum = i + 1;
-                    } else if (currentPage >= totalPages - 2) {
-                      // Show last 5 pages
-                      pageNum = totalPages - 4 + i;
-                    } else {
-                      // Show pages around current
-                      pageNum = currentPage - 2 + i;
-                    }
-
-                    return (
-                      <button
-                        key={pageNum}
-                        onClick={() => goToPage(pageNum)}
-                        className={`px-3 md:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
-                          currentPage === pageNum
-                            ? 'bg-indigo-600 text-white shadow-md'
-                            : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 hover:border-indigo-300 hover:text-indigo-600'
-                        }`}
-                      >
-                        {pageNum}
-                      </button>
-                    );
-                  })}
-                </div>
-
-                {/* Next button */}
-                <button
-                  onClick={goToNextPage}
-                  disabled={currentPage === totalPages}
-                  className="px-3 md:px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:border-indigo-300 hover:text-indigo-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:border-gray-200 disabled:hover:text-gray-700"
-                >
-                  <ICONS.ChevronRight size={16} />
-                </button>
-              </div>
-
-              {/* Page info */}
-              <div className="text-xs md:text-sm text-gray-500">
-                Mostrando {startIndex + 1}-{Math.min(endIndex, allTasks.length)} de {allTasks.length} {allTasks.length === 1 ? 'misión' : 'misiones'}
-              </div>
+          {/* Infinite scroll */}
+          {hasMoreTasks && (
+            <div ref={sentinelRef} className="mt-6 md:mt-8 flex items-center justify-center gap-2 text-sm text-gray-400">
+              <ICONS.Loader2 size={16} className="animate-spin" />
+              Cargando más misiones...
             </div>
           )}
         </>
@@ -890,7 +1036,7 @@ const TaskView: React.FC = memo(() => {
       {/* Confirm Dialog for completing tasks */}
       <ConfirmDialog
         isOpen={confirmDialog.isOpen}
-        onClose={() => setConfirmDialog({ isOpen: false, entryId: '', taskIndex: -1, taskDescription: '' })}
+        onClose={() => setConfirmDialog({ isOpen: false, entryId: '', taskId: '', taskDescription: '' })}
         onConfirm={handleConfirmComplete}
         title="¿Completar misión?"
         message={`¿Marcar como completada: "${confirmDialog.taskDescription}"?`}
@@ -902,7 +1048,7 @@ const TaskView: React.FC = memo(() => {
       {/* Confirm Dialog for deleting tasks */}
       <ConfirmDialog
         isOpen={deleteDialog.isOpen}
-        onClose={() => setDeleteDialog({ isOpen: false, entryId: '', taskIndex: -1, taskDescription: '' })}
+        onClose={() => setDeleteDialog({ isOpen: false, entryId: '', taskId: '', taskDescription: '' })}
         onConfirm={handleConfirmDelete}
         title="¿Eliminar misión?"
         message={`¿Estás seguro de eliminar: "${deleteDialog.taskDescription}"? Esta acción no se puede deshacer.`}
@@ -1,4 +1,4 @@
-import React, { memo, useMemo } from 'react';
+import React, { memo, useEffect, useMemo } from 'react';
 import { useBitacora } from '../context/BitacoraContext';
 import EntryCard from './EntryCard';
 import { ICONS } from '../constants';
@@ -10,12 +10,20 @@ interface ThreadViewProps {
 }
 
 const ThreadView: React.FC<ThreadViewProps> = memo(({ threadId }) => {
-  const { threads, getEntriesByThreadId, getBookName } = useBitacora();
+  const { threads, getEntriesByThreadId, getBookName, loadMoreEntries, getEntryPageStatus } = useBitacora();
   const thread = threads.find(t => t.id === threadId);
   const threadEntries = useMemo(() => {
     return getEntriesByThreadId(threadId).sort((a, b) => a.createdAt - b.createdAt);
   }, [threadId, getEntriesByThreadId]);
 
+  // The newest page of the thread is fetched when it is opened; older ones on request
+  const pageStatus = getEntryPageStatus({ threadId });
+  useEffect(() => {
+    if (!pageStatus.isLoaded) {
+      loadMoreEntries({ threadId });
+    }
+  }, [threadId]);
+
   if (!thread) {
     return (
       <div className="max-w-4xl mx-auto pb-24 md:pb-8 flex items-center justify-center min-h-[60vh]">
@@ -56,7 +64,7 @@ const ThreadView: React.FC<ThreadViewProps> = memo(({ threadId }) => {
                 </span>
                 <span className="flex items-center gap-1.5">
                   <ICONS.MessageSquare size={14} />
-                  {threadEntries.length} {threadEntries.length === 1 ? 'entrada' : 'entradas'}
+                  {threadEntries.length}{pageStatus.hasMore ? '+' : ''} {threadEntries.length === 1 && !pageStatus.hasMore ? 'entrada' : 'entradas'}
                 </span>
                 <span className="flex items-center gap-1.5">
                   <ICONS.Calendar size={14} />
@@ -79,7 +87,11 @@ const ThreadView: React.FC<ThreadViewProps> = memo(({ threadId }) => {
 
       {/* Thread Entries */}
       <div className="flex-1">
-        {threadEntries.length === 0 ? (
+        {threadEntries.length === 0 && !pageStatus.isLoaded ? (
+          <div className="flex items-center justify-center py-20">
+            <ICONS.Loader2 className="animate-spin text-purple-600" size={28} />
+          </div>
+        ) : threadEntries.length === 0 ? (
           <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-gray-200">
             <div className="text-6xl mb-4">💭</div>
             <p className="text-gray-400 font-medium text-lg">
@@ -91,6 +103,18 @@ const ThreadView: React.FC<ThreadViewProps> = memo(({ threadId }) => {
           </div>
         ) : (
           <div className="space-y-4 md:space-y-5">
+            {pageStatus.hasMore && (
+              <div className="flex justify-center">
+                <button
+                  onClick={() => loadMoreEntries({ threadId })}
+                  disabled={pageStatus.isLoading}
+                  className="px-4 py-2 bg-white border border-purple-200 text-purple-700 rounded-xl text-sm font-semibold hover:bg-purple-50 transition-colors disabled:opacity-50 flex items-center gap-2"
+                >
+                  {pageStatus.isLoading ? <ICONS.Loader2 size={14} className="animate-spin" /> : <ICONS.ChevronUp size={14} />}
+                  Ver entradas anteriores
+                </button>
+              </div>
+            )}
             {threadEntries.map((entry, index) => (
               <motion.div
                 key={entry.id}
@@ -0,0 +1,205 @@
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useBitacora } from '../context/BitacoraContext';
+import { ICONS } from '../constants';
+import { TrashItem, TrashItemType } from '../types';
+import { api } from '../services/apiClient';
+import ConfirmDialog from './ConfirmDialog';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+
+const SECTIONS: Array<{ type: TrashItemType; label: string; icon: React.ElementType }> = [
+  { type: 'entry', label: 'Entradas', icon: ICONS.StickyNote },
+  { type: 'book', label: 'Libretas', icon: ICONS.Book },
+  { type: 'thread', label: 'Hilos', icon: ICONS.MessageSquare },
+  { type: 'folder', label: 'Carpetas', icon: ICONS.Library },
+];
+
+type PendingAction =
+  | { kind: 'purge'; item: TrashItem }
+  | { kind: 'empty' };
+
+// Lists soft-deleted items by type with restore and permanent deletion.
+// Items are purged automatically once they exceed the retention period.
+const TrashView: React.FC = memo(() => {
+  const { getTrash, restoreFromTrash, purgeFromTrash, emptyTrash, getBookName } = useBitacora();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_RETENTION_DAYS);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setItems(await getTrash());
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getTrash]);
+
+  useEffect(() => {
+    loadTrash();
+    // Configured on the server (TRASH_RETENTION_DAYS)
+    api.data.getTrashRetentionDays()
+      .then(setRetentionDays)
+      .catch(err => console.error('Error loading trash retention:', err));
+  }, []);
+
+  const grouped = useMemo(() => SECTIONS
+    .map(section => ({ ...section, items: items.filter(item => item.type === section.type) }))
+    .filter(section => section.items.length > 0), [items]);
+
+  const handleRestore = useCallback(async (item: TrashItem) => {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      await restoreFromTrash(item.type, item.id);
+      await loadTrash();
+    } catch (err) {
+      console.error('Error restoring from trash:', err);
+      setError('No se pudo restaurar. Intenta de nuevo.');
+    } finally {
+      setBusyId(null);
+    }
+  }, [restoreFromTrash, loadTrash]);
+
+  const handleConfirm = useCallback(async () => {
+    if (!pending) return;
+    const action = pending;
+    setPending(null);
+    setBusyId(action.kind === 'purge' ? action.item.id : 'all');
+    setError(null);
+    try {
+      if (action.kind === 'purge') {
+        await purgeFromTrash(action.item.type, action.item.id);
+      } else {
+        await emptyTrash();
+      }
+      await loadTrash();
+    } catch (err) {
+      console.error('Error deleting from trash:', err);
+      setError('No se pudo eliminar. Intenta de nuevo.');
+    } finally {
+      setBusyId(null);
+    }
+  }, [pending, purgeFromTrash, emptyTrash, loadTrash]);
+
+  const describe = (item: TrashItem): string => {
+    const daysLeft = Math.max(0, Math.ceil((item.deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+    const deletedOn = new Date(item.deletedAt).toLocaleDateString('es-ES', { day: 'numeric', month: 'short', year: 'numeric' });
+    const details = [`Eliminado el ${deletedOn}`];
+    if (item.type === 'book' && item.childCount > 0) {
+      details.push(`${item.childCount} ${item.childCount === 1 ? 'entrada' : 'entradas'}`);
+    }
+    if (item.bookId && (item.type === 'entry' || item.type === 'thread')) {
+      details.push(getBookName(item.bookId));
+    }
+    details.push(daysLeft === 1 ? 'se borra en 1 día' : `se borra en ${daysLeft} días`);
+    return details.join(' · ');
+  };
+
+  const pendingMessage = pending?.kind === 'purge'
+    ? `"${pending.item.title}" se eliminará para siempre${pending.item.type === 'book' ? ', junto con sus entradas e hilos' : ''}. Esta acción no se puede deshacer.`
+    : 'Todo lo que está en la papelera se eliminará para siempre. Esta acción no se puede deshacer.';
+
+  return (
+    <div className="max-w-4xl mx-auto pb-24 md:pb-8 min-h-screen">
+      <div className="mb-4 md:mb-8 mt-2 md:mt-4 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-2xl md:text-3xl lg:text-4xl font-extrabold text-gray-900 flex items-center gap-2 md:gap-3 mb-1 md:mb-2">
+            <div className="bg-rose-100 p-1.5 md:p-2 rounded-xl text-rose-600">
+              <ICONS.Trash2 size={20} className="md:w-7 md:h-7" />
+            </div>
+            Papelera
+          </h2>
+          <p className="text-sm md:text-base text-gray-500 ml-1">
+            Lo eliminado se guarda {retentionDays} días antes de borrarse para siempre.
+          </p>
+        </div>
+        {items.length > 0 && (
+          <button
+            onClick={() => setPending({ kind: 'empty' })}
+            disabled={busyId !== null}
+            className="px-3 md:px-4 py-2 bg-white border border-rose-200 text-rose-600 rounded-xl text-xs md:text-sm font-semibold hover:bg-rose-50 transition-colors disabled:opacity-50 flex-shrink-0"
+          >
+            Vaciar papelera
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-rose-600">{error}</p>}
+
+      {isLoading && items.length === 0 ? (
+        <div className="flex items-center justify-center py-16">
+          <ICONS.Loader2 className="animate-spin text-indigo-600" size={28} />
+        </div>
+      ) : grouped.length === 0 ? (
+        <div className="text-center py-8 md:py-16 bg-white rounded-2xl md:rounded-3xl border border-dashed border-gray-200">
+          <ICONS.Trash2 className="mx-auto text-gray-300 mb-3 md:mb-4 w-9 h-9 md:w-12 md:h-12" />
+          <p className="text-sm md:text-base text-gray-500 font-medium">La papelera está vacía</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {grouped.map(section => (
+            <div key={section.type}>
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-2">
+                <section.icon size={14} />
+                {section.label}
+                <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded-full">{section.items.length}</span>
+              </h3>
+              <div className="space-y-2">
+                {section.items.map(item => (
+                  <motion.div
+                    key={item.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="bg-white rounded-xl border border-gray-100 shadow-sm p-3 md:p-4 flex items-center gap-3"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-semibold text-gray-900 line-clamp-2">{item.title}</p>
+                      <p className="text-xs text-gray-500 mt-0.5">{describe(item)}</p>
+                    </div>
+                    <button
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId !== null}
+                      className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 hover:bg-indigo-50 px-2 py-1.5 rounded-lg transition-colors disabled:opacity-50 flex-shrink-0"
+                    >
+                      {busyId === item.id ? <ICONS.Loader2 size={12} className="animate-spin" /> : <ICONS.RotateCcw size={12} />}
+                      Restaurar
+                    </button>
+                    <button
+                      onClick={() => setPending({ kind: 'purge', item })}
+                      disabled={busyId !== null}
+                      className="p-1.5 text-gray-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors disabled:opacity-50 flex-shrink-0"
+                      title="Eliminar definitivamente"
+                    >
+                      <ICONS.Trash2 size={14} />
+                    </button>
+                  </motion.div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!pending}
+        onClose={() => setPending(null)}
+        onConfirm={handleConfirm}
+        title={pending?.kind === 'empty' ? '¿Vaciar papelera?' : '¿Eliminar definitivamente?'}
+        message={pendingMessage}
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        variant="danger"
+      />
+    </div>
+  );
+});
+
+TrashView.displayName = 'TrashView';
+
+export default TrashView;
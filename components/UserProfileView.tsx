@@ -2,37 +2,27 @@ import React, { useState, useEffect, useCallback, memo, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ICONS } from '../constants';
 import { useAuth } from '../context/AuthContext';
-import { updateUser, changePassword, createUserAsAdmin, getAllUsers } from '../services/authService';
-import { neon } from '@neondatabase/serverless';
+import { api } from '../services/apiClient';
+import type {
+  AiUsageReport,
+  AuditEvent,
+  LoginLockout,
+  ManagedUser,
+  ProfileUpdates,
+  SessionInfo,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  UserAdminUpdate,
+  UserRole,
+  UserUsage,
+} from '../services/apiContract';
+import { USER_ROLES, canAssignRole, canManageUser, hasPermission } from '../services/permissions';
+import ConfirmDialog from './ConfirmDialog';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale/es';
 import { useNotifications } from '../hooks/useNotifications';
-
-// Get database URL
-function getDatabaseUrl(): string | undefined {
-  if (typeof process !== 'undefined' && process.env?.VITE_NEON_DATABASE_URL) {
-    return process.env.VITE_NEON_DATABASE_URL;
-  }
-  try {
-    if (import.meta?.env?.VITE_NEON_DATABASE_URL) {
-      return (import.meta.env as any).VITE_NEON_DATABASE_URL;
-    }
-  } catch (e) {
-    // Ignore
-  }
-  return undefined;
-}
-
-const databaseUrl = getDatabaseUrl();
-const sql = databaseUrl ? neon(databaseUrl) : null;
-
-interface Session {
-  id: string;
-  token: string;
-  createdAt: string;
-  expiresAt: string;
-  isCurrent: boolean;
-}
+import { useTranslation } from '../hooks/useTranslation';
+import { LOCALES, type Locale } from '../services/i18n';
 
 // Helper function to safely format dates
 const formatDate = (date: string | Date | null | undefined, formatStr: string): string => {
@@ -46,18 +36,47 @@ const formatDate = (date: string | Date | null | undefined, formatStr: string):
   }
 };
 
+// Readable "browser on system" label from a session's user agent
+const describeDevice = (userAgent?: string): { label: string; isMobile: boolean } => {
+  if (!userAgent) return { label: 'Dispositivo desconocido', isMobile: false };
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Navegador';
+  const system =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  return {
+    label: system ? `${browser} en ${system}` : browser,
+    isMobile: /Mobile|iPhone|iPad|Android/.test(userAgent),
+  };
+};
+
 const UserProfileView: React.FC = memo(() => {
   const { user, refreshAuth } = useAuth();
   const { isSupported: notificationsSupported, isEnabled: notificationsEnabled, requestPermission } = useNotifications();
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
-  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
   const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
 
   // Profile form
   const [name, setName] = useState(user?.name || '');
   const [email, setEmail] = useState(user?.email || '');
   const [gender, setGender] = useState<'male' | 'female' | 'other' | ''>(user?.gender || '');
+  // Asked for only when the email changes
+  const [emailPassword, setEmailPassword] = useState('');
+  const [emailCode, setEmailCode] = useState('');
   const [profileError, setProfileError] = useState<string | null>(null);
   const [profileSuccess, setProfileSuccess] = useState<string | null>(null);
   const [isSavingProfile, setIsSavingProfile] = useState(false);
@@ -80,27 +99,11 @@ const UserProfileView: React.FC = memo(() => {
   }, [user]);
 
   const loadSessions = useCallback(async () => {
-    if (!user || !sql) return;
+    if (!user) return;
     
     setIsLoadingSessions(true);
     try {
-      const token = localStorage.getItem('bitacora_auth_token');
-      const result = await sql`
-        SELECT id, token, created_at, expires_at
-        FROM sessions
-        WHERE user_id = ${user.id} AND expires_at > CURRENT_TIMESTAMP
-        ORDER BY created_at DESC
-      `;
-      
-      const sessionsList: Session[] = result.map((s: any) => ({
-        id: s.id,
-        token: s.token,
-        createdAt: s.created_at ? (s.created_at instanceof Date ? s.created_at.toISOString() : String(s.created_at)) : '',
-        expiresAt: s.expires_at ? (s.expires_at instanceof Date ? s.expires_at.toISOString() : String(s.expires_at)) : '',
-        isCurrent: s.token === token,
-      }));
-      
-      setSessions(sessionsList);
+      setSessions(await api.auth.listSessions());
     } catch (error) {
       console.error('Error loading sessions:', error);
     } finally {
@@ -116,12 +119,21 @@ const UserProfileView: React.FC = memo(() => {
     setIsSavingProfile(true);
 
     try {
-      const updates: { name: string; email: string; gender?: 'male' | 'female' | 'other' } = { name, email };
+      const emailChanged = email.trim().toLowerCase() !== user.email;
+      const updates: ProfileUpdates = { name, email };
       if (gender) {
         updates.gender = gender as 'male' | 'female' | 'other';
       }
-      await updateUser(user.id, updates);
-      setProfileSuccess('Perfil actualizado correctamente');
+      if (emailChanged) {
+        updates.currentPassword = emailPassword;
+        if (user.twoFactorEnabled) updates.code = emailCode.trim();
+      }
+      await api.auth.updateProfile(updates);
+      setEmailPassword('');
+      setEmailCode('');
+      setProfileSuccess(emailChanged
+        ? `Perfil actualizado. Te enviamos un enlace a ${email.trim()} para confirmar el nuevo email.`
+        : 'Perfil actualizado correctamente');
       await refreshAuth();
       setTimeout(() => {
         setIsEditingProfile(false);
@@ -132,7 +144,7 @@ const UserProfileView: React.FC = memo(() => {
     } finally {
       setIsSavingProfile(false);
     }
-  }, [user, name, email, gender, refreshAuth]);
+  }, [user, name, email, gender, emailPassword, emailCode, refreshAuth]);
 
   const handleChangePassword = useCallback(async () => {
     if (!user) return;
@@ -150,10 +162,15 @@ const UserProfileView: React.FC = memo(() => {
       return;
     }
 
+    if (newPassword.length > 128) {
+      setPasswordError('La contraseña es demasiado larga');
+      return;
+    }
+
     setIsChangingPasswordLoading(true);
 
     try {
-      await changePassword(user.id, oldPassword, newPassword);
+      await api.auth.changePassword(oldPassword, newPassword);
       setPasswordSuccess('Contraseña actualizada correctamente. Serás redirigido al login...');
       setOldPassword('');
       setNewPassword('');
@@ -169,24 +186,27 @@ const UserProfileView: React.FC = memo(() => {
     }
   }, [user, newPassword, confirmPassword, oldPassword]);
 
-  const handleRevokeSession = useCallback(async (sessionToken: string) => {
-    if (!sql) return;
-    
+  const handleRevokeSession = useCallback(async (sessionId: string) => {
     try {
-      await sql`DELETE FROM sessions WHERE token = ${sessionToken}`;
+      await api.auth.revokeSession(sessionId);
       await loadSessions();
-      
-      // If it's the current session, reload
-      const currentToken = localStorage.getItem('bitacora_auth_token');
-      if (sessionToken === currentToken) {
-        localStorage.removeItem('bitacora_auth_token');
-        window.location.reload();
-      }
     } catch (error) {
       console.error('Error revoking session:', error);
     }
   }, [loadSessions]);
 
+  const handleRevokeOtherSessions = useCallback(async () => {
+    setIsRevokingOthers(true);
+    try {
+      await api.auth.revokeOtherSessions();
+      await loadSessions();
+    } catch (error) {
+      console.error('Error revoking other sessions:', error);
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  }, [loadSessions]);
+
   if (!user) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -283,6 +303,42 @@ const UserProfileView: React.FC = memo(() => {
                 />
               </div>
 
+              {email.trim().toLowerCase() !== user.email && (
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Contraseña actual
+                    </label>
+                    <input
+                      type="password"
+                      value={emailPassword}
+                      onChange={(e) => setEmailPassword(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all"
+                      placeholder="Para confirmar el cambio de email"
+                      autoComplete="current-password"
+                    />
+                  </div>
+                  {user.twoFactorEnabled && (
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">
+                        Código de verificación
+                      </label>
+                      <input
+                        type="text"
+                        value={emailCode}
+                        onChange={(e) => setEmailCode(e.target.value)}
+                        className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all"
+                        placeholder="Código de la app o de recuperación"
+                        autoComplete="one-time-code"
+                      />
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Avisaremos a {user.email} del cambio, con un enlace para deshacerlo.
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
                   Género <span className="font-normal text-gray-400">(para personalizar saludos)</span>
@@ -322,6 +378,8 @@ const UserProfileView: React.FC = memo(() => {
                     setIsEditingProfile(false);
                     setName(user.name);
                     setEmail(user.email);
+                    setEmailPassword('');
+                    setEmailCode('');
                     setGender(user.gender || '');
                     setProfileError(null);
                     setProfileSuccess(null);
@@ -349,6 +407,9 @@ const UserProfileView: React.FC = memo(() => {
         </AnimatePresence>
           </motion.div>
 
+          {/* Language Section */}
+          <LanguageSection />
+
           {/* Password Section */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -473,6 +534,12 @@ const UserProfileView: React.FC = memo(() => {
         </AnimatePresence>
           </motion.div>
 
+          {/* Two-Factor Section */}
+          <TwoFactorSection />
+
+          {/* AI Usage Section */}
+          <AiUsageSection />
+
           {/* Notifications Section */}
           {notificationsSupported && (
             <motion.div
@@ -560,16 +627,19 @@ const UserProfileView: React.FC = memo(() => {
                 </div>
               ) : (
                 <div className="space-y-2">
-                  {sessions.map((session) => (
+                  {sessions.map((session) => {
+                    const device = describeDevice(session.userAgent);
+                    const DeviceIcon = device.isMobile ? ICONS.Smartphone : ICONS.Monitor;
+                    return (
                     <div
                       key={session.id}
                       className="p-3 bg-gray-50 rounded-xl border border-gray-200"
                     >
                       <div className="flex items-start justify-between gap-2 mb-2">
                         <div className="flex items-center gap-1.5 flex-1 min-w-0">
-                          <ICONS.Monitor size={14} className="text-gray-400 flex-shrink-0" />
-                          <span className="text-xs font-semibold text-gray-900 truncate">
-                            {session.isCurrent ? 'Actual' : 'Activa'}
+                          <DeviceIcon size={14} className="text-gray-400 flex-shrink-0" />
+                          <span className="text-xs font-semibold text-gray-900 truncate" title={session.userAgent}>
+                            {device.label}
                           </span>
                           {session.isCurrent && (
                             <span className="px-1.5 py-0.5 bg-indigo-100 text-indigo-700 text-[10px] font-semibold rounded-full flex-shrink-0">
@@ -579,7 +649,7 @@ const UserProfileView: React.FC = memo(() => {
                         </div>
                         {!session.isCurrent && (
                           <button
-                            onClick={() => handleRevokeSession(session.token)}
+                            onClick={() => handleRevokeSession(session.id)}
                             className="p-1 bg-rose-50 text-rose-600 rounded hover:bg-rose-100 transition-colors flex-shrink-0"
                             title="Cerrar sesión"
                           >
@@ -588,22 +658,41 @@ const UserProfileView: React.FC = memo(() => {
                         )}
                       </div>
                       <div className="text-[10px] text-gray-500 space-y-0.5">
+                        {session.ipAddress && <p className="truncate">IP: {session.ipAddress}</p>}
+                        <p className="truncate">Última actividad: {formatDate(session.lastSeenAt, "d MMM, HH:mm")}</p>
                         <p className="truncate">Creada: {formatDate(session.createdAt, "d MMM, HH:mm")}</p>
                         <p className="truncate">Expira: {formatDate(session.expiresAt, "d MMM, HH:mm")}</p>
                       </div>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </div>
+
+            {sessions.some(session => !session.isCurrent) && (
+              <button
+                onClick={handleRevokeOtherSessions}
+                disabled={isRevokingOthers}
+                className="mt-4 w-full px-3 py-2 bg-rose-50 text-rose-600 text-xs font-semibold rounded-xl hover:bg-rose-100 transition-colors disabled:opacity-50 flex items-center justify-center gap-1.5"
+              >
+                {isRevokingOthers && <ICONS.Loader2 size={12} className="animate-spin" />}
+                Cerrar sesión en los demás dispositivos
+              </button>
+            )}
           </motion.div>
         </div>
       </div>
 
       {/* Admin Section - Full Width Below */}
-      {user?.isAdmin && (
+      {user && hasPermission(user.role, 'users.view') && (
+        <div className="mt-4 md:mt-6">
+          <AdminUsersSection userId={user.id} role={user.role} />
+        </div>
+      )}
+      {user && hasPermission(user.role, 'security.view') && (
         <div className="mt-4 md:mt-6">
-          <AdminUsersSection userId={user.id} />
+          <AdminSecuritySection canClear={hasPermission(user.role, 'security.manage')} />
         </div>
       )}
     </div>
@@ -612,23 +701,450 @@ const UserProfileView: React.FC = memo(() => {
 
 UserProfileView.displayName = 'UserProfileView';
 
+// Language of the interface and of the AI prompts. Entries already analyzed
+// keep the language they were written in.
+const LanguageSection: React.FC = memo(() => {
+  const { updateUserProfile } = useAuth();
+  const { locale, t } = useTranslation();
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = useCallback(async (next: Locale) => {
+    setError(null);
+    setSaved(false);
+    setIsSaving(true);
+    try {
+      await updateUserProfile({ locale: next });
+      setSaved(true);
+    } catch (err: any) {
+      setError(err.message || 'Error al actualizar el perfil');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [updateUserProfile]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.05 }}
+      className="bg-white rounded-2xl shadow-sm border border-gray-100 p-5 md:p-6"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-indigo-100">
+            <ICONS.Languages size={20} className="text-indigo-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">{t('profile.language')}</h2>
+            <p className="text-sm text-gray-500">{t('profile.languageDescription')}</p>
+          </div>
+        </div>
+        <select
+          value={locale}
+          onChange={(e) => handleChange(e.target.value as Locale)}
+          disabled={isSaving}
+          className="px-4 py-2 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all bg-white text-sm disabled:opacity-50"
+        >
+          {LOCALES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      {saved && <p className="mt-3 text-sm text-green-700">{t('profile.languageSaved')}</p>}
+      {error && <p className="mt-3 text-sm text-rose-600">{error}</p>}
+    </motion.div>
+  );
+});
+
+LanguageSection.displayName = 'LanguageSection';
+
+// Two-Factor Authentication Section Component
+const TwoFactorSection: React.FC = memo(() => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await api.twoFactor.getStatus());
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const resetForm = useCallback(() => {
+    setSetup(null);
+    setAction(null);
+    setCode('');
+    setPassword('');
+    setError(null);
+  }, []);
+
+  const run = useCallback(async (operation: () => Promise<void>) => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      await operation();
+    } catch (error: any) {
+      setError(error.message || 'Error en la verificación en dos pasos');
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  const handleStartSetup = useCallback(() => run(async () => {
+    setRecoveryCodes(null);
+    setSetup(await api.twoFactor.setup());
+  }), [run]);
+
+  const handleConfirm = useCallback(() => run(async () => {
+    if (setup) {
+      const { recoveryCodes: codes } = await api.twoFactor.enable(code.trim());
+      setRecoveryCodes(codes);
+    } else if (action === 'regenerate') {
+      const { recoveryCodes: codes } = await api.twoFactor.regenerateRecoveryCodes(code.trim());
+      setRecoveryCodes(codes);
+    } else if (action === 'disable') {
+      await api.twoFactor.disable(password, code.trim());
+      setRecoveryCodes(null);
+    }
+    resetForm();
+    await loadStatus();
+  }), [run, setup, action, code, password, resetForm, loadStatus]);
+
+  const handleCopyCodes = useCallback(() => {
+    if (recoveryCodes) {
+      navigator.clipboard?.writeText(recoveryCodes.join('\n'));
+    }
+  }, [recoveryCodes]);
+
+  const isFormOpen = !!setup || !!action;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.12 }}
+      className="bg-white rounded-2xl shadow-sm border border-gray-100 p-5 md:p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-xl ${status?.enabled ? 'bg-emerald-100' : 'bg-gray-100'}`}>
+            <ICONS.Shield size={20} className={status?.enabled ? 'text-emerald-600' : 'text-gray-500'} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Verificación en dos pasos</h2>
+            <p className="text-sm text-gray-500">
+              {status?.enabled
+                ? `Activada · ${status.recoveryCodesLeft} códigos de recuperación disponibles`
+                : 'Pide un código de tu app de autenticación al iniciar sesión'}
+            </p>
+          </div>
+        </div>
+        {status && !isFormOpen && (
+          status.enabled ? (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setAction('regenerate')}
+                className="px-3 py-2 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 transition-colors text-sm"
+              >
+                Nuevos códigos
+              </button>
+              <button
+                onClick={() => setAction('disable')}
+                className="px-3 py-2 bg-rose-50 text-rose-600 rounded-xl font-semibold hover:bg-rose-100 transition-colors text-sm"
+              >
+                Desactivar
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleStartSetup}
+              disabled={isWorking}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              <ICONS.Lock size={18} />
+              Activar
+            </button>
+          )
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-rose-50 border border-rose-200 rounded-xl text-sm text-rose-700 flex items-center gap-2">
+          <ICONS.AlertOctagon size={18} />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-xl space-y-3">
+          <p className="text-sm text-amber-800 font-semibold">
+            Guarda estos códigos de recuperación en un lugar seguro. Cada uno sirve una sola vez y no se volverán a mostrar.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCopyCodes}
+              className="px-3 py-2 bg-white border border-amber-200 text-amber-800 rounded-xl font-semibold hover:bg-amber-100 transition-colors text-sm"
+            >
+              Copiar
+            </button>
+            <button
+              onClick={() => setRecoveryCodes(null)}
+              className="px-3 py-2 bg-amber-600 text-white rounded-xl font-semibold hover:bg-amber-700 transition-colors text-sm"
+            >
+              Ya los guardé
+            </button>
+          </div>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {isFormOpen && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="space-y-4"
+          >
+            {setup && (
+              <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-2 text-sm text-gray-700">
+                <p>Agrega Bitácora IA en tu app de autenticación (Google Authenticator, Authy, 1Password…) con esta clave:</p>
+                <p className="font-mono text-base text-gray-900 break-all select-all">
+                  {setup.secret.match(/.{1,4}/g)?.join(' ')}
+                </p>
+                <a href={setup.otpauthUri} className="inline-block text-indigo-600 hover:text-indigo-700 font-semibold">
+                  Abrir en la app de autenticación de este dispositivo
+                </a>
+              </div>
+            )}
+
+            {action === 'disable' && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Contraseña Actual
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all"
+                  placeholder="••••••••"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Código de verificación
+              </label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all tracking-widest"
+                placeholder="123456"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {setup ? 'El código de 6 dígitos que muestra la app' : 'El código de tu app o un código de recuperación'}
+              </p>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={handleConfirm}
+                disabled={isWorking || !code.trim() || (action === 'disable' && !password)}
+                className={`flex-1 px-4 py-3 text-white rounded-xl font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${
+                  action === 'disable' ? 'bg-rose-600 hover:bg-rose-700' : 'bg-indigo-600 hover:bg-indigo-700'
+                }`}
+              >
+                {isWorking ? <ICONS.Loader2 className="animate-spin" size={18} /> : <ICONS.Check size={18} />}
+                {setup ? 'Activar' : action === 'disable' ? 'Desactivar' : 'Generar códigos'}
+              </button>
+              <button
+                onClick={resetForm}
+                className="px-4 py-3 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 transition-colors"
+              >
+                Cancelar
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+});
+
+TwoFactorSection.displayName = 'TwoFactorSection';
+
+const formatUsd = (amount: number): string =>
+  `${amount < 1 && amount > 0 ? amount.toFixed(4) : amount.toFixed(2)} US$`;
+
+const AI_FEATURE_LABELS: Record<string, string> = {
+  capture: 'Captura',
+  summary: 'Resúmenes',
+  query: 'Consultas',
+  personSummary: 'Resúmenes de personas',
+  threads: 'Detección de hilos',
+  document: 'Análisis de documentos',
+  embeddings: 'Embeddings',
+};
+
+// The user's AI calls this month, by feature and by model, against their budget
+const AiUsageSection: React.FC = memo(() => {
+  const [report, setReport] = useState<AiUsageReport | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setReport(await api.usage.ai());
+    } catch (error) {
+      console.error('Error loading AI usage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  if (!report) return null;
+
+  const spent = report.budgetUsd ? Math.min(100, (report.costUsd / report.budgetUsd) * 100) : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.14 }}
+      className="bg-white rounded-2xl shadow-sm border border-gray-100 p-5 md:p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-xl ${report.overBudget ? 'bg-amber-100' : 'bg-indigo-100'}`}>
+            <ICONS.BarChart3 size={20} className={report.overBudget ? 'text-amber-600' : 'text-indigo-600'} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Uso de IA</h2>
+            <p className="text-sm text-gray-500">
+              {formatDate(`${report.month}-15T12:00:00`, 'MMMM yyyy')} · {report.calls} llamadas · {(report.promptTokens + report.completionTokens).toLocaleString('es-ES')} tokens
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={loadReport}
+          className="p-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          title="Actualizar"
+        >
+          <ICONS.RefreshCw size={14} />
+        </button>
+      </div>
+
+      <div className="mb-4">
+        <div className="flex items-baseline justify-between text-sm mb-1">
+          <span className="font-semibold text-gray-900">{formatUsd(report.costUsd)} estimados</span>
+          <span className="text-gray-500">
+            {report.budgetUsd !== undefined ? `Presupuesto: ${formatUsd(report.budgetUsd)}` : 'Sin presupuesto'}
+          </span>
+        </div>
+        {report.budgetUsd !== undefined && (
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${report.overBudget ? 'bg-amber-500' : 'bg-indigo-500'}`}
+              style={{ width: `${report.overBudget ? 100 : spent}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {report.overBudget && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800 flex items-center gap-2">
+          <ICONS.AlertCircle size={18} className="flex-shrink-0" />
+          <span>Alcanzaste el presupuesto del mes. Las notas se siguen clasificando, pero se omiten los pasos opcionales (hilos, notas relacionadas, resúmenes de personas...).</span>
+        </div>
+      )}
+
+      {report.calls === 0 ? (
+        <p className="text-sm text-gray-500">Todavía no hay llamadas a la IA este mes.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {([['Por función', report.byFeature], ['Por modelo', report.byModel]] as const).map(([title, rows]) => (
+            <div key={title}>
+              <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">{title}</h3>
+              <div className="space-y-1">
+                {rows.map(row => (
+                  <div key={row.key} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-gray-700 truncate">{AI_FEATURE_LABELS[row.key] || row.key}</span>
+                    <span className="text-gray-500 flex-shrink-0">
+                      {row.calls} · {(row.promptTokens + row.completionTokens).toLocaleString('es-ES')} tokens · {formatUsd(row.costUsd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+});
+
+AiUsageSection.displayName = 'AiUsageSection';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Propietario',
+  admin: 'Administrador',
+  member: 'Miembro',
+  auditor: 'Auditor',
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 // Admin Users Section Component
-const AdminUsersSection: React.FC<{ userId: string }> = memo(({ userId }) => {
+// What the viewer can change depends on their role (services/permissions.ts);
+// the server checks it again.
+const AdminUsersSection: React.FC<{ userId: string; role: UserRole }> = memo(({ userId, role }) => {
   const [isCreatingUser, setIsCreatingUser] = useState(false);
-  const [users, setUsers] = useState<any[]>([]);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [usage, setUsage] = useState<Record<string, UserUsage>>({});
   const [isLoadingUsers, setIsLoadingUsers] = useState(false);
   const [newUserEmail, setNewUserEmail] = useState('');
   const [newUserName, setNewUserName] = useState('');
   const [newUserPassword, setNewUserPassword] = useState('');
-  const [newUserIsAdmin, setNewUserIsAdmin] = useState(false);
+  const [newUserRole, setNewUserRole] = useState<UserRole>('member');
   const [createError, setCreateError] = useState<string | null>(null);
   const [createSuccess, setCreateSuccess] = useState<string | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const [twoFactorResetUser, setTwoFactorResetUser] = useState<{ id: string; name: string } | null>(null);
+  const [deactivatingUser, setDeactivatingUser] = useState<{ id: string; name: string } | null>(null);
+  const [budgetEdit, setBudgetEdit] = useState<{ id: string; value: string } | null>(null);
+
+  const canManageUsers = hasPermission(role, 'users.manage');
+  const assignableRoles = useMemo(() => USER_ROLES.filter(r => canAssignRole(role, r)), [role]);
 
   const loadUsers = useCallback(async () => {
     setIsLoadingUsers(true);
     try {
-      const allUsers = await getAllUsers(userId);
+      const [allUsers, allUsage] = await Promise.all([api.admin.listUsers(), api.admin.listUsage()]);
       setUsers(allUsers);
+      setUsage(Object.fromEntries(allUsage.map(u => [u.userId, u])));
     } catch (error: any) {
       console.error('Error loading users:', error);
     } finally {
@@ -650,19 +1166,57 @@ const AdminUsersSection: React.FC<{ userId: string }> = memo(({ userId }) => {
     }
 
     try {
-      await createUserAsAdmin(userId, newUserEmail, newUserPassword, newUserName, newUserIsAdmin);
+      await api.admin.createUser({
+        email: newUserEmail,
+        password: newUserPassword,
+        name: newUserName,
+        role: newUserRole,
+      });
       setCreateSuccess('Usuario creado correctamente');
       setNewUserEmail('');
       setNewUserName('');
       setNewUserPassword('');
-      setNewUserIsAdmin(false);
+      setNewUserRole('member');
       setIsCreatingUser(false);
       await loadUsers();
       setTimeout(() => setCreateSuccess(null), 3000);
     } catch (error: any) {
       setCreateError(error.message || 'Error al crear el usuario');
     }
-  }, [userId, newUserEmail, newUserName, newUserPassword, newUserIsAdmin, loadUsers]);
+  }, [userId, newUserEmail, newUserName, newUserPassword, newUserRole, loadUsers]);
+
+  const handleResetTwoFactor = useCallback(async () => {
+    if (!twoFactorResetUser) return;
+    try {
+      await api.admin.resetTwoFactor(twoFactorResetUser.id);
+      await loadUsers();
+    } catch (error) {
+      console.error('Error resetting two-factor authentication:', error);
+    }
+  }, [twoFactorResetUser, loadUsers]);
+
+  const handleUpdateUser = useCallback(async (targetId: string, update: UserAdminUpdate) => {
+    setListError(null);
+    try {
+      await api.admin.updateUser(targetId, update);
+      await loadUsers();
+    } catch (error: any) {
+      setListError(error.message || 'Error al actualizar el usuario');
+    }
+  }, [loadUsers]);
+
+  // An empty value goes back to the default budget
+  const handleSaveBudget = useCallback(async () => {
+    if (!budgetEdit) return;
+    const value = budgetEdit.value.trim().replace(',', '.');
+    const budget = value === '' ? null : Number(value);
+    if (budget !== null && (!Number.isFinite(budget) || budget < 0)) {
+      setListError('Presupuesto inválido');
+      return;
+    }
+    setBudgetEdit(null);
+    await handleUpdateUser(budgetEdit.id, { aiMonthlyBudgetUsd: budget });
+  }, [budgetEdit, handleUpdateUser]);
 
   return (
     <motion.div
@@ -676,7 +1230,7 @@ const AdminUsersSection: React.FC<{ userId: string }> = memo(({ userId }) => {
           <h2 className="text-lg font-bold text-gray-900 mb-1">Administración de Usuarios</h2>
           <p className="text-xs text-gray-500">Gestiona usuarios del sistema</p>
         </div>
-        {!isCreatingUser && (
+        {canManageUsers && !isCreatingUser && (
           <button
             onClick={() => setIsCreatingUser(true)}
             className="px-3 py-2 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm"
@@ -749,17 +1303,19 @@ const AdminUsersSection: React.FC<{ userId: string }> = memo(({ userId }) => {
               />
             </div>
 
-            <div className="flex items-center gap-2">
-              <input
-                type="checkbox"
-                id="isAdmin"
-                checked={newUserIsAdmin}
-                onChange={(e) => setNewUserIsAdmin(e.target.checked)}
-                className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
-              />
-              <label htmlFor="isAdmin" className="text-sm font-semibold text-gray-700">
-                Administrador
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Rol
               </label>
+              <select
+                value={newUserRole}
+                onChange={(e) => setNewUserRole(e.target.value as UserRole)}
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-100 outline-none transition-all bg-white"
+              >
+                {assignableRoles.map(r => (
+                  <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                ))}
+              </select>
             </div>
 
             <div className="flex gap-3 pt-2">
@@ -776,7 +1332,7 @@ const AdminUsersSection: React.FC<{ userId: string }> = memo(({ userId }) => {
                   setNewUserEmail('');
                   setNewUserName('');
                   setNewUserPassword('');
-                  setNewUserIsAdmin(false);
+                  setNewUserRole('member');
                   setCreateError(null);
                   setCreateSuccess(null);
                 }}
@@ -803,6 +1359,13 @@ const AdminUsersSection: React.FC<{ userId: string }> = memo(({ userId }) => {
           </button>
         </div>
 
+        {listError && (
+          <div className="mb-3 p-3 bg-rose-50 border border-rose-200 rounded-xl text-sm text-rose-700 flex items-center gap-2">
+            <ICONS.AlertOctagon size={18} />
+            <span>{listError}</span>
+          </div>
+        )}
+
         <div className="max-h-[400px] overflow-y-auto">
           {isLoadingUsers ? (
             <div className="flex items-center justify-center py-8">
@@ -815,22 +1378,296 @@ const AdminUsersSection: React.FC<{ userId: string }> = memo(({ userId }) => {
             </div>
           ) : (
             <div className="space-y-2">
-              {users.map((u) => (
+              {users.map((u) => {
+                const manageable = u.id !== userId && canManageUser(role, u.role);
+                const userUsage = usage[u.id];
+                return (
                 <div
                   key={u.id}
-                  className="p-3 bg-gray-50 rounded-xl border border-gray-200"
+                  className={`p-3 rounded-xl border border-gray-200 ${u.isActive ? 'bg-gray-50' : 'bg-gray-100 opacity-75'}`}
                 >
                   <div className="flex items-center gap-2 mb-1">
                     <span className="text-sm font-semibold text-gray-900 truncate flex-1">{u.name}</span>
-                    {u.isAdmin && (
+                    {!u.isActive && (
+                      <span className="px-2 py-0.5 bg-gray-200 text-gray-600 text-[10px] font-semibold rounded-full flex-shrink-0">
+                        Inactivo
+                      </span>
+                    )}
+                    {manageable ? (
+                      <select
+                        value={u.role}
+                        onChange={(e) => handleUpdateUser(u.id, { role: e.target.value as UserRole })}
+                        className="px-2 py-0.5 bg-indigo-100 text-indigo-700 text-[10px] font-semibold rounded-full flex-shrink-0 outline-none"
+                        title="Cambiar rol"
+                      >
+                        {assignableRoles.map(r => (
+                          <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                        ))}
+                      </select>
+                    ) : (
                       <span className="px-2 py-0.5 bg-indigo-100 text-indigo-700 text-[10px] font-semibold rounded-full flex-shrink-0">
-                        Admin
+                        {ROLE_LABELS[u.role]}
                       </span>
                     )}
+                    {u.twoFactorEnabled && (
+                      <button
+                        onClick={() => setTwoFactorResetUser({ id: u.id, name: u.name })}
+                        disabled={!manageable}
+                        className="px-2 py-0.5 bg-emerald-100 text-emerald-700 text-[10px] font-semibold rounded-full flex-shrink-0 enabled:hover:bg-rose-100 enabled:hover:text-rose-700 transition-colors"
+                        title={manageable ? 'Restablecer verificación en dos pasos' : 'Verificación en dos pasos activada'}
+                      >
+                        2FA
+                      </button>
+                    )}
                   </div>
                   <p className="text-xs text-gray-500 truncate">{u.email}</p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    {formatDate(u.createdAt, "d MMM, yyyy")}
+                  {userUsage && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {userUsage.books} libretas · {userUsage.entries} entradas · {formatBytes(userUsage.storageBytes)} · IA: {userUsage.aiRequestsRecent} solicitudes en 30 días ({userUsage.aiRequestsTotal} en total)
+                    </p>
+                  )}
+                  {userUsage && (
+                    budgetEdit?.id === u.id ? (
+                      <div className="flex items-center gap-2 mt-1">
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={budgetEdit.value}
+                          onChange={(e) => setBudgetEdit({ id: u.id, value: e.target.value })}
+                          onKeyDown={(e) => e.key === 'Enter' && handleSaveBudget()}
+                          className="w-24 px-2 py-1 text-xs rounded-lg border border-gray-200 focus:border-indigo-500 outline-none"
+                          placeholder="Por defecto"
+                          autoFocus
+                        />
+                        <span className="text-xs text-gray-500">US$ al mes</span>
+                        <button onClick={handleSaveBudget} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+                          Guardar
+                        </button>
+                        <button onClick={() => setBudgetEdit(null)} className="text-xs font-semibold text-gray-500 hover:text-gray-700">
+                          Cancelar
+                        </button>
+                      </div>
+                    ) : (
+                      <p className={`text-xs mt-1 ${userUsage.aiBudgetUsd !== undefined && userUsage.aiCostMonthUsd >= userUsage.aiBudgetUsd ? 'text-amber-700' : 'text-gray-500'}`}>
+                        Este mes: {formatUsd(userUsage.aiCostMonthUsd)} · {userUsage.aiTokensMonth.toLocaleString('es-ES')} tokens ·{' '}
+                        {userUsage.aiBudgetUsd !== undefined
+                          ? `presupuesto ${formatUsd(userUsage.aiBudgetUsd)}${userUsage.hasCustomAiBudget ? '' : ' (por defecto)'}`
+                          : 'sin presupuesto'}
+                        {manageable && (
+                          <button
+                            onClick={() => setBudgetEdit({ id: u.id, value: userUsage.hasCustomAiBudget ? String(userUsage.aiBudgetUsd) : '' })}
+                            className="ml-2 font-semibold text-indigo-600 hover:text-indigo-700"
+                          >
+                            Cambiar
+                          </button>
+                        )}
+                      </p>
+                    )
+                  )}
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <p className="text-xs text-gray-400">
+                      {formatDate(u.createdAt, "d MMM, yyyy")}
+                      {u.lastLogin && ` · Último acceso: ${formatDate(u.lastLogin, "d MMM, HH:mm")}`}
+                    </p>
+                    {manageable && (
+                      u.isActive ? (
+                        <button
+                          onClick={() => setDeactivatingUser({ id: u.id, name: u.name })}
+                          className="text-xs font-semibold text-rose-600 hover:text-rose-700 flex-shrink-0"
+                        >
+                          Desactivar
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleUpdateUser(u.id, { isActive: true })}
+                          className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 flex-shrink-0"
+                        >
+                          Reactivar
+                        </button>
+                      )
+                    )}
+                  </div>
+                </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!twoFactorResetUser}
+        onClose={() => setTwoFactorResetUser(null)}
+        onConfirm={handleResetTwoFactor}
+        title="¿Restablecer verificación en dos pasos?"
+        message={`${twoFactorResetUser?.name || 'El usuario'} podrá iniciar sesión solo con su contraseña y volver a configurar la verificación en dos pasos desde su perfil.`}
+        confirmText="Restablecer"
+        cancelText="Cancelar"
+        variant="warning"
+      />
+
+      <ConfirmDialog
+        isOpen={!!deactivatingUser}
+        onClose={() => setDeactivatingUser(null)}
+        onConfirm={() => deactivatingUser && handleUpdateUser(deactivatingUser.id, { isActive: false })}
+        title="¿Desactivar usuario?"
+        message={`${deactivatingUser?.name || 'El usuario'} no podrá iniciar sesión y se cerrarán sus sesiones abiertas. Sus datos se conservan y puedes reactivarlo cuando quieras.`}
+        confirmText="Desactivar"
+        cancelText="Cancelar"
+        variant="danger"
+      />
+    </motion.div>
+  );
+});
+
+AdminUsersSection.displayName = 'AdminUsersSection';
+
+const AUDIT_EVENT_LABELS: Record<AuditEvent['type'], string> = {
+  account_locked: 'Cuenta bloqueada',
+  ip_locked: 'IP bloqueada',
+  lockout_cleared: 'Bloqueo levantado',
+  role_changed: 'Rol cambiado',
+  user_deactivated: 'Usuario desactivado',
+  user_reactivated: 'Usuario reactivado',
+  email_changed: 'Email cambiado',
+  email_reverted: 'Email recuperado',
+  ai_budget_changed: 'Presupuesto de IA cambiado',
+};
+
+const describeAuditEvent = (event: AuditEvent): string => {
+  const subject = event.userEmail || event.ipAddress || '';
+  const failures = typeof event.details?.failures === 'number' ? ` tras ${event.details.failures} intentos fallidos` : '';
+  const { from, to } = event.details || {};
+  const roles = event.type === 'role_changed' && typeof from === 'string' && typeof to === 'string'
+    ? ` (${ROLE_LABELS[from as UserRole] || from} → ${ROLE_LABELS[to as UserRole] || to})`
+    : '';
+  const budgetLabel = (value: unknown) => typeof value === 'number' ? formatUsd(value) : 'por defecto';
+  const budget = event.type === 'ai_budget_changed' ? ` (${budgetLabel(from)} → ${budgetLabel(to)})` : '';
+  const emails = event.type === 'email_changed' && typeof from === 'string' && typeof to === 'string' ? ` (${from} → ${to})` : '';
+  const actor = event.actorEmail ? ` por ${event.actorEmail}` : '';
+  return `${AUDIT_EVENT_LABELS[event.type] || event.type}${subject ? `: ${subject}` : ''}${roles}${budget}${emails}${failures}${actor}`;
+};
+
+// Failed logins and lockouts (security.view; clearing needs security.manage)
+const AdminSecuritySection: React.FC<{ canClear: boolean }> = memo(({ canClear }) => {
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [nextLockouts, nextEvents] = await Promise.all([api.admin.listLockouts(), api.admin.listAuditEvents()]);
+      setLockouts(nextLockouts);
+      setEvents(nextEvents);
+    } catch (err: any) {
+      setError(err.message || 'Error al cargar los bloqueos');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleClear = useCallback(async (lockout: LoginLockout) => {
+    setError(null);
+    try {
+      await api.admin.clearLockout(lockout);
+      await load();
+    } catch (err: any) {
+      setError(err.message || 'Error al desbloquear');
+    }
+  }, [load]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.4 }}
+      className="bg-white rounded-2xl shadow-sm border border-gray-100 p-5 md:p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 mb-1">Accesos fallidos</h2>
+          <p className="text-xs text-gray-500">Cuentas e IPs con intentos fallidos en la última hora</p>
+        </div>
+        <button
+          onClick={load}
+          disabled={isLoading}
+          className="p-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          title="Actualizar"
+        >
+          <ICONS.RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-rose-50 border border-rose-200 rounded-xl text-sm text-rose-700 flex items-center gap-2">
+          <ICONS.AlertOctagon size={18} />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-base font-bold text-gray-900 mb-3">Bloqueos ({lockouts.filter(l => l.lockedUntil).length})</h3>
+          {lockouts.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">
+              <ICONS.Shield size={24} className="mx-auto mb-2 opacity-50" />
+              <p className="text-sm">Sin intentos fallidos recientes</p>
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-[400px] overflow-y-auto">
+              {lockouts.map((lockout) => (
+                <div key={`${lockout.scope}:${lockout.key}`} className="p-3 bg-gray-50 rounded-xl border border-gray-200">
+                  <div className="flex items-center gap-2 mb-1">
+                    {lockout.scope === 'account'
+                      ? <ICONS.Users size={14} className="text-gray-400 flex-shrink-0" />
+                      : <ICONS.Monitor size={14} className="text-gray-400 flex-shrink-0" />}
+                    <span className="text-sm font-semibold text-gray-900 truncate flex-1">{lockout.label}</span>
+                    {lockout.lockedUntil && (
+                      <span className="px-2 py-0.5 bg-rose-100 text-rose-700 text-[10px] font-semibold rounded-full flex-shrink-0">
+                        Bloqueada
+                      </span>
+                    )}
+                    {canClear && (
+                      <button
+                        onClick={() => handleClear(lockout)}
+                        className="px-2 py-1 bg-indigo-50 text-indigo-600 text-xs font-semibold rounded-lg hover:bg-indigo-100 transition-colors flex-shrink-0"
+                      >
+                        Desbloquear
+                      </button>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-gray-500 space-y-0.5">
+                    <p>Intentos fallidos: {lockout.failures} · Último: {formatDate(lockout.lastFailureAt, "d MMM, HH:mm")}</p>
+                    {lockout.lockedUntil && <p>Bloqueada hasta: {formatDate(lockout.lockedUntil, "d MMM, HH:mm")}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-base font-bold text-gray-900 mb-3">Registro de seguridad</h3>
+          {events.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">
+              <ICONS.History size={24} className="mx-auto mb-2 opacity-50" />
+              <p className="text-sm">Sin eventos</p>
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-[400px] overflow-y-auto">
+              {events.map((event) => (
+                <div key={event.id} className="p-3 bg-gray-50 rounded-xl border border-gray-200">
+                  <p className="text-xs text-gray-900">{describeAuditEvent(event)}</p>
+                  <p className="text-[10px] text-gray-500 mt-1">
+                    {formatDate(event.createdAt, "d MMM, HH:mm")}
+                    {event.ipAddress && event.userEmail ? ` · IP: ${event.ipAddress}` : ''}
                   </p>
                 </div>
               ))}
@@ -842,6 +1679,6 @@ const AdminUsersSection: React.FC<{ userId: string }> = memo(({ userId }) => {
   );
 });
 
-AdminUsersSection.displayName = 'AdminUsersSection';
+AdminSecuritySection.displayName = 'AdminSecuritySection';
 
 export default UserProfileView;
@@ -30,6 +30,7 @@ import {
   RefreshCw,
   Shield,
   Monitor,
+  Smartphone,
   Check,
   List,
   Grid3x3,
@@ -45,9 +46,15 @@ import {
   MessageSquare,
   ChevronDown,
   ChevronUp,
-  Filter
+  Filter,
+  History,
+  RotateCcw,
+  Share2,
+  UserPlus,
+  LogOut,
+  Languages
 } from 'lucide-react';
-import { NoteType } from './types';
+import { BookMemberRole, NoteType } from './types';
 
 export const APP_NAME = "Bitácora";
 
@@ -82,6 +89,7 @@ export const ICONS = {
   RefreshCw,
   Shield,
   Monitor,
+  Smartphone,
   Check,
   List,
   Grid3x3,
@@ -97,7 +105,13 @@ export const ICONS = {
   MessageSquare,
   ChevronDown,
   ChevronUp,
-  Filter
+  Filter,
+  History,
+  RotateCcw,
+  Share2,
+  UserPlus,
+  LogOut,
+  Languages
 };
 
 // Estilos más vibrantes y redondeados ("pill" style)
@@ -117,6 +131,12 @@ export const TYPE_LABELS: Record<NoteType, string> = {
   [NoteType.RISK]: 'Ojo / Riesgo',
 };
 
+export const BOOK_ROLE_LABELS: Record<BookMemberRole, string> = {
+  viewer: 'Lector',
+  commenter: 'Comentarista',
+  editor: 'Editor',
+};
+
 export const TYPE_ICONS: Record<NoteType, React.ReactNode> = {
   [NoteType.NOTE]: <StickyNote size={14} />,
   [NoteType.TASK]: <CheckCircle2 size={14} />,
@@ -1,114 +1,105 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User } from '../services/authService';
-import { registerUser, loginUser, verifySession, logoutUser as logoutUserService, updateUser as updateUserService } from '../services/authService';
-import { initAuthTables } from '../services/authService';
+import type { ProfileUpdates, User } from '../services/apiContract';
+import type { Locale } from '../services/i18n';
+import { api, ApiError, getAuthToken, setAuthTokens, onUnauthorized } from '../services/apiClient';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, name: string) => Promise<void>;
+  // Resolves with a challenge token when the account has 2FA on: finish with completeTwoFactorLogin
+  login: (email: string, password: string) => Promise<string | null>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
+  // Creates the account; it signs in once the emailed verification link is opened
+  register: (email: string, password: string, name: string, locale?: Locale) => Promise<void>;
   logout: () => Promise<void>;
   refreshAuth: () => Promise<void>;
-  updateUserProfile: (updates: { name?: string; email?: string; gender?: 'male' | 'female' | 'other' }) => Promise<void>;
+  updateUserProfile: (updates: ProfileUpdates) => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const AUTH_TOKEN_KEY = 'bitacora_auth_token';
-
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
+    // Any API call rejected for an expired or revoked session signs out here
+    onUnauthorized(() => setUser(null));
     initializeAuth();
+    return () => onUnauthorized(null);
   }, []);
 
   const initializeAuth = async () => {
     try {
       setIsLoading(true);
       
-      // Initialize auth tables
-      await initAuthTables();
-      
       // Check for existing session
-      const token = localStorage.getItem(AUTH_TOKEN_KEY);
-      if (token) {
-        const verifiedUser = await verifySession(token);
-        if (verifiedUser) {
-          setUser(verifiedUser);
-        } else {
-          // Token expired or invalid
-          localStorage.removeItem(AUTH_TOKEN_KEY);
-        }
+      if (getAuthToken()) {
+        const { user: verifiedUser } = await api.auth.getSession();
+        setUser(verifiedUser);
       }
     } catch (error) {
       console.error('Auth initialization error:', error);
-      localStorage.removeItem(AUTH_TOKEN_KEY);
+      // Keep the token when the server is only unreachable
+      if (error instanceof ApiError && error.code === 'UNAUTHORIZED') {
+        setAuthTokens(null);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
   const login = async (email: string, password: string) => {
-    try {
-      const { user: loggedUser, token } = await loginUser(email, password);
-      localStorage.setItem(AUTH_TOKEN_KEY, token);
-      setUser(loggedUser);
-    } catch (error: any) {
-      throw error;
+    const response = await api.auth.login(email, password);
+    if ('twoFactorRequired' in response) {
+      return response.challengeToken;
     }
+    setAuthTokens(response.tokens);
+    setUser(response.user);
+    return null;
   };
 
-  const register = async (email: string, password: string, name: string) => {
-    try {
-      const { user: newUser, token } = await registerUser(email, password, name);
-      localStorage.setItem(AUTH_TOKEN_KEY, token);
-      setUser(newUser);
-    } catch (error: any) {
-      throw error;
-    }
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
+    const { user: loggedUser, tokens } = await api.auth.completeTwoFactorLogin(challengeToken, code);
+    setAuthTokens(tokens);
+    setUser(loggedUser);
+  };
+
+  const register = async (email: string, password: string, name: string, locale?: Locale) => {
+    await api.auth.register(email, password, name, locale);
   };
 
   const logout = async () => {
     try {
-      const token = localStorage.getItem(AUTH_TOKEN_KEY);
-      if (token) {
-        await logoutUserService(token);
+      if (getAuthToken()) {
+        await api.auth.logout();
       }
     } catch (error) {
       console.error('Logout error:', error);
     } finally {
-      localStorage.removeItem(AUTH_TOKEN_KEY);
+      setAuthTokens(null);
       setUser(null);
     }
   };
 
   const refreshAuth = async () => {
-    const token = localStorage.getItem(AUTH_TOKEN_KEY);
-    if (token) {
-      const verifiedUser = await verifySession(token);
-      if (verifiedUser) {
+    if (getAuthToken()) {
+      try {
+        const { user: verifiedUser } = await api.auth.getSession();
         setUser(verifiedUser);
-      } else {
-        localStorage.removeItem(AUTH_TOKEN_KEY);
-        setUser(null);
+      } catch (error) {
+        // A rejected session already signed out through onUnauthorized
+        console.error('Error refreshing session:', error);
       }
     }
   };
 
-  const updateUserProfile = async (updates: { name?: string; email?: string; gender?: 'male' | 'female' | 'other' }) => {
+  const updateUserProfile = async (updates: ProfileUpdates) => {
     if (!user) throw new Error('Usuario no autenticado');
     
-    try {
-      await updateUserService(user.id, updates);
-      // Update local user state
-      setUser(prev => prev ? { ...prev, ...updates } : null);
-    } catch (error) {
-      throw error;
-    }
+    const { user: updatedUser } = await api.auth.updateProfile(updates);
+    setUser(prev => updatedUser || prev);
   };
 
   return (
@@ -118,6 +109,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         isLoading,
         isAuthenticated: !!user,
         login,
+        completeTwoFactorLogin,
         register,
         logout,
         refreshAuth,
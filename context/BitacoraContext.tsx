@@ -1,18 +1,38 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
-import { Book, Entry, EntryStatus, NoteType, TaskItem, Attachment, SearchFilters, WeeklySummary, Folder, MultiTopicAnalysis, TopicEntry, Entity, Thread } from '../types';
-import { analyzeEntry, generateSummary, queryBitacora, analyzeMultiTopicEntry, detectThreadRelations, rewriteTextWithAI } from '../services/openaiService';
-import { analyzeDocument, DocumentInsight } from '../services/documentAnalysisService';
-import { findRelatedEntry } from '../services/entryMatchingService';
-import * as dataService from '../services/dataService';
-import { initDatabase } from '../services/db';
-import * as db from '../services/db';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo, useRef } from 'react';
+import { AssignedTask, Book, BookMember, BookMemberRole, Entry, EntryComment, EntryStatus, NoteType, TaskItem, Attachment, SearchFilters, SearchResult, WeeklySummary, Folder, MultiTopicAnalysis, TopicEntry, Entity, Thread, EntryRevision, TrashItem, TrashItemType, EntryScope } from '../types';
+import type { DocumentInsight } from '../services/documentAnalysisService';
+import type { CaptureTopic } from '../services/apiContract';
+import { api, ApiError } from '../services/apiClient';
 import { AuthContext } from './AuthContext';
 import { CacheService, CACHE_KEYS } from '../services/cacheService';
-import { postProcessEntry } from '../services/improvedPipeline';
+import { canOnBook, isSharedBook } from '../services/permissions';
 
 // Simple ID generator
 const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 
+// Paging position of one entry listing (timeline, book or thread)
+interface EntryPageState {
+  scope: EntryScope;
+  nextCursor: string | null;
+  isLoading: boolean;
+}
+
+export interface EntryPageStatus {
+  isLoaded: boolean; // First page fetched
+  hasMore: boolean;
+  isLoading: boolean;
+}
+
+const entryScopeKey = (scope: EntryScope = {}) =>
+  scope.threadId ? `thread:${scope.threadId}` : scope.bookId ? `book:${scope.bookId}` : 'all';
+
+// Adds loaded entries to the ones already in memory, newest first
+const mergeEntries = (current: Entry[], loaded: Entry[]): Entry[] => {
+  const byId = new Map(current.map(e => [e.id, e]));
+  loaded.forEach(e => byId.set(e.id, { ...e, relatedEntries: byId.get(e.id)?.relatedEntries }));
+  return Array.from(byId.values()).sort((a, b) => b.createdAt - a.createdAt);
+};
+
 // Result type for multi-topic analysis
 interface MultiTopicResult {
   isMultiTopic: boolean;
@@ -28,6 +48,7 @@ interface MultiTopicResult {
     originalText: string;
     taskActions: Array<{
       action: 'complete' | 'update';
+      taskId: string;
       taskDescription: string;
       completionNotes?: string;
     }>;
@@ -37,6 +58,7 @@ interface MultiTopicResult {
     suggestedThreadTitle?: string | null;
     threadRelationReason?: string;
     relatedEntryIds?: string[];
+    promptVersion?: string; // Prompt that analyzed the note
   }>;
   overallContext: string;
   completedTasks: number;
@@ -47,6 +69,8 @@ interface BitacoraContextType {
   folders: Folder[];
   entries: Entry[];
   threads: Thread[];
+  bookMembers: Record<string, BookMember[]>; // Owner and members of each shared book, by book id
+  assignedTasks: AssignedTask[]; // Tasks other users delegated to this one
   isLoading: boolean;
   isInitializing: boolean;
   addEntry: (text: string, attachment?: Attachment, skipSummaryModal?: boolean, targetBookId?: string) => Promise<{ 
@@ -63,10 +87,10 @@ interface BitacoraContextType {
       isNewBook: boolean;
     };
   } | void>;
-  toggleTask: (entryId: string, taskIndex: number) => Promise<void>;
+  toggleTask: (entryId: string, taskId: string) => Promise<void>;
   deleteEntry: (id: string) => Promise<void>;
   getBookName: (id: string) => string;
-  searchEntries: (filters: SearchFilters) => Promise<Entry[]>;
+  searchEntries: (filters: SearchFilters) => Promise<SearchResult[]>;
   generateWeeklySummary: (period: 'day' | 'week' | 'month') => Promise<WeeklySummary>;
   queryAI: (query: string) => Promise<string>;
   createBook: (name: string, description?: string, folderId?: string) => Promise<Book>;
@@ -77,9 +101,9 @@ interface BitacoraContextType {
   deleteFolder: (id: string) => Promise<void>;
   updateBookFolder: (bookId: string, folderId: string | null) => Promise<void>;
   refreshData: () => Promise<void>;
-  updateTaskStatus: (entryId: string, taskIndex: number, isDone: boolean) => Promise<void>;
-  updateTaskFields: (entryId: string, taskIndex: number, updates: { assignee?: string; dueDate?: string; priority?: string; description?: string }) => Promise<void>;
-  deleteTask: (entryId: string, taskIndex: number) => Promise<void>;
+  updateTaskStatus: (entryId: string, taskId: string, isDone: boolean) => Promise<void>;
+  updateTaskFields: (entryId: string, taskId: string, updates: { assignee?: string; dueDate?: string; priority?: string; description?: string }) => Promise<void>;
+  deleteTask: (entryId: string, taskId: string) => Promise<void>;
   updateEntrySummary: (entryId: string, newSummary: string) => Promise<void>;
   confirmEntryWithEdits: (tempEntryId: string, editedAnalysis: {
     bookName: string;
@@ -102,18 +126,39 @@ interface BitacoraContextType {
     originalText: string;
     taskActions: Array<{
       action: 'complete' | 'update';
+      taskId: string;
       taskDescription: string;
       completionNotes?: string;
     }>;
     threadId?: string;
     createNewThread?: boolean;
+    newThreadTitle?: string;
+    promptVersion?: string;
   }>) => Promise<void>;
   createThread: (title: string, bookId: string) => Promise<Thread>;
   updateThread: (id: string, updates: { title?: string }) => Promise<void>;
   deleteThread: (id: string) => Promise<void>;
   getThreadById: (id: string) => Thread | undefined;
   getEntriesByThreadId: (threadId: string) => Entry[];
+  loadMoreEntries: (scope?: EntryScope) => Promise<void>;
+  getEntryPageStatus: (scope?: EntryScope) => EntryPageStatus;
   updateEntryThread: (entryId: string, threadId: string | null) => Promise<void>;
+  getEntryRevisions: (entryId: string) => Promise<EntryRevision[]>;
+  restoreEntryRevision: (entryId: string, revisionId: string) => Promise<void>;
+  getTrash: () => Promise<TrashItem[]>;
+  restoreFromTrash: (type: TrashItemType, id: string) => Promise<void>;
+  purgeFromTrash: (type: TrashItemType, id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  loadBookMembers: (bookId: string) => Promise<BookMember[]>;
+  shareBook: (bookId: string, email: string, role: BookMemberRole) => Promise<void>;
+  updateBookMember: (bookId: string, userId: string, role: BookMemberRole) => Promise<void>;
+  removeBookMember: (bookId: string, userId: string) => Promise<void>;
+  getEntryComments: (entryId: string) => Promise<EntryComment[]>;
+  addEntryComment: (entryId: string, text: string) => Promise<EntryComment>;
+  deleteEntryComment: (commentId: string) => Promise<void>;
+  delegateTask: (entryId: string, taskId: string, email: string) => Promise<void>;
+  undelegateTask: (entryId: string, taskId: string) => Promise<void>;
+  toggleAssignedTask: (taskId: string) => Promise<void>;
 }
 
 const BitacoraContext = createContext<BitacoraContextType | undefined>(undefined);
@@ -127,6 +172,11 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [folders, setFolders] = useState<Folder[]>([]);
   const [entries, setEntries] = useState<Entry[]>([]);
   const [threads, setThreads] = useState<Thread[]>([]);
+  const [bookMembers, setBookMembers] = useState<Record<string, BookMember[]>>({});
+  const [assignedTasks, setAssignedTasks] = useState<AssignedTask[]>([]);
+  // Entries are loaded page by page; each listing keeps its own cursor
+  const [entryPages, setEntryPages] = useState<Record<string, EntryPageState>>({});
+  const entryPagesRef = useRef<Record<string, EntryPageState>>(entryPages);
   const [isLoading, setIsLoading] = useState(false);
   const [isInitializing, setIsInitializing] = useState(true);
 
@@ -140,8 +190,9 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     const initialize = async () => {
       try {
         setIsInitializing(true);
-        // Initialize database schema
-        await initDatabase();
+        updateEntryPages(() => ({}));
+        // Drop trash items past the retention period
+        await api.data.purgeExpiredTrash();
         // Load initial data for this user
         await refreshData();
       } catch (error) {
@@ -153,6 +204,13 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     initialize();
   }, [isAuthenticated, user?.id]);
 
+  const updateEntryPages = (update: (pages: Record<string, EntryPageState>) => Record<string, EntryPageState>) => {
+    entryPagesRef.current = update(entryPagesRef.current);
+    setEntryPages(entryPagesRef.current);
+  };
+
+  // Reloads books, folders, threads and the first page of every entry listing
+  // opened so far, plus all entries with open tasks
   const refreshData = useCallback(async (useCache = true) => {
     if (!user?.id) return;
     
@@ -171,22 +229,52 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
       }
       
       // Then fetch fresh data in background
-      const [loadedBooks, loadedEntries, loadedFolders, loadedThreads] = await Promise.all([
-        dataService.loadAllBooks(user.id),
-        dataService.loadAllEntries(user.id),
-        dataService.loadAllFolders(user.id),
-        dataService.loadAllThreads(user.id),
+      const openedPages: Record<string, EntryPageState> = entryPagesRef.current;
+      const scopes: EntryScope[] = [{}, ...Object.values(openedPages)
+        .map(p => p.scope)
+        .filter(scope => entryScopeKey(scope) !== 'all')];
+      const [loadedBooks, loadedPages, openTaskEntries, loadedFolders, loadedThreads, loadedAssignedTasks] = await Promise.all([
+        api.data.loadAllBooks(),
+        Promise.all(scopes.map(scope => api.data.loadEntriesPage(scope))),
+        api.data.loadEntriesWithOpenTasks(),
+        api.data.loadAllFolders(),
+        api.data.loadAllThreads(),
+        api.delegation.listAssigned().catch(() => [] as AssignedTask[]),
       ]);
+      const loadedEntries = mergeEntries([], [...loadedPages.flatMap(p => p.entries), ...openTaskEntries]);
       
+      // Books and entries keep pointing at a trashed folder or thread so
+      // restoring it regroups them; until then they are shown ungrouped
+      const folderIds = new Set(loadedFolders.map(f => f.id));
+      const threadIds = new Set(loadedThreads.map(t => t.id));
+      const visibleBooks = loadedBooks.map(b =>
+        b.folderId && !folderIds.has(b.folderId) ? { ...b, folderId: undefined } : b
+      );
+      const visibleEntries = loadedEntries.map(e =>
+        e.threadId && !threadIds.has(e.threadId) ? { ...e, threadId: undefined } : e
+      );
+
+      // Members of shared books, to show who wrote each entry
+      const sharedBooks = visibleBooks.filter(isSharedBook);
+      const memberLists = await Promise.all(sharedBooks.map(b =>
+        api.sharing.listMembers(b.id).catch(() => [] as BookMember[])
+      ));
+
       // Update state with fresh data
-      setBooks(loadedBooks);
-      setEntries(loadedEntries);
+      setBooks(visibleBooks);
+      setBookMembers(Object.fromEntries(sharedBooks.map((b, i) => [b.id, memberLists[i]])));
+      setEntries(visibleEntries);
+      updateEntryPages(() => Object.fromEntries(scopes.map((scope, i) => [
+        entryScopeKey(scope),
+        { scope, nextCursor: loadedPages[i].nextCursor, isLoading: false },
+      ])));
       setFolders(loadedFolders);
       setThreads(loadedThreads);
+      setAssignedTasks(loadedAssignedTasks);
       
       // Update cache
-      CacheService.set(`${CACHE_KEYS.BOOKS}_${user.id}`, loadedBooks);
-      CacheService.set(`${CACHE_KEYS.ENTRIES}_${user.id}`, loadedEntries);
+      CacheService.set(`${CACHE_KEYS.BOOKS}_${user.id}`, visibleBooks);
+      CacheService.set(`${CACHE_KEYS.ENTRIES}_${user.id}`, visibleEntries);
       CacheService.set(`${CACHE_KEYS.FOLDERS}_${user.id}`, loadedFolders);
       CacheService.set(`${CACHE_KEYS.THREADS}_${user.id}`, loadedThreads);
     } catch (error) {
@@ -196,6 +284,9 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
 
   const getBookName = useCallback((id: string) => books.find(b => b.id === id)?.name || 'Desconocido', [books]);
 
+  // Asks the server to record the entry's resulting state in its revision history
+  const withRevision = (entryId: string, reason: string) => ({ entryId, reason });
+
   const addEntry = async (
     text: string, 
     attachment?: Attachment,
@@ -232,22 +323,28 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
         });
       }
 
+      // Captures only go into books the user can write to: books shared with
+      // them as a viewer or commenter are left out of the classification
+      const writableBooks = books.filter(b => canOnBook(b, 'write'));
+      const writableBookIds = new Set(writableBooks.map(b => b.id));
+      const writableEntries = entries.filter(e => writableBookIds.has(e.bookId));
+      const writableThreads = threads.filter(t => writableBookIds.has(t.bookId));
+
       // Get all existing tasks for context
-      const allExistingTasks = entries.flatMap(e => e.tasks.map((t, idx) => ({ 
+      const allExistingTasks = writableEntries.flatMap(e => e.tasks.map(t => ({ 
         ...t, 
-        entryId: e.id, 
-        taskIndex: idx 
+        entryId: e.id 
       })));
 
       // If targetBookId is provided, use single-entry analysis (no multi-topic)
       if (targetBookId) {
-        const targetBook = books.find(b => b.id === targetBookId);
+        const targetBook = writableBooks.find(b => b.id === targetBookId);
         if (!targetBook) {
           throw new Error('Libreta no encontrada');
         }
 
         console.log('📚 Analyzing for specific book:', targetBook.name);
-        const analysis = await analyzeEntry(text, books, attachment);
+        const analysis = await api.ai.analyzeEntry(text, writableBooks, attachment);
         
         const entryId = generateId();
         const processedTopic: MultiTopicResult['topics'][0] = {
@@ -256,6 +353,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
           type: analysis.type as NoteType,
           summary: analysis.summary,
           tasks: analysis.tasks.map(t => ({
+            id: generateId(),
             description: t.description,
             assignee: t.assignee,
             dueDate: t.dueDate,
@@ -269,7 +367,8 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
           isNewBook: false,
           entryId,
           originalText: text,
-          taskActions: []
+          taskActions: [],
+          promptVersion: analysis.promptVersion
         };
 
         const multiTopicResult: MultiTopicResult = {
@@ -290,9 +389,9 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
       // USE MULTI-TOPIC ANALYSIS (default flow)
       // ============================================
       console.log('🔍 Analyzing with multi-topic detection...');
-      const multiTopicAnalysis = await analyzeMultiTopicEntry(
+      const multiTopicAnalysis = await api.ai.analyzeMultiTopicEntry(
         text, 
-        books, 
+        writableBooks, 
         allExistingTasks,
         attachment
       );
@@ -313,7 +412,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
         const entryId = generateId();
         
         // Find or create book for this topic
-        let targetBook = books.find(b => 
+        let targetBook = writableBooks.find(b => 
           b.name.toLowerCase().trim() === topic.targetBookName.toLowerCase().trim()
         );
         
@@ -322,7 +421,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
           const topicLower = topic.targetBookName.toLowerCase();
           const topicKeywords = topicLower.split(/\s+/).filter(w => w.length > 2);
           
-          targetBook = books.find(b => {
+          targetBook = writableBooks.find(b => {
             const bookNameLower = b.name.toLowerCase();
             const bookDescriptionLower = (b.description || '').toLowerCase();
             const nameMatch = topicKeywords.some(kw => bookNameLower.includes(kw));
@@ -351,10 +450,10 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
         // DETECT THREAD RELATIONS FOR THIS TOPIC
         // ============================================
         console.log(`🧠 Detecting thread relations for topic: "${topic.targetBookName}"...`);
-        const threadRelation = await detectThreadRelations(
+        const threadRelation = await api.ai.detectThreadRelations(
           topic.content,
-          entries,
-          threads,
+          writableEntries,
+          writableThreads,
           targetBookId
         );
 
@@ -375,12 +474,12 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
           suggestedThreadId = threadRelation.relatedThreadId;
           
           // Find the suggested thread and use its bookId
-          const suggestedThread = threads.find(t => t.id === threadRelation.relatedThreadId);
+          const suggestedThread = writableThreads.find(t => t.id === threadRelation.relatedThreadId);
           if (suggestedThread) {
             console.log(`📚 Thread "${suggestedThread.title}" is in book "${suggestedThread.bookId}", updating target book...`);
             
             // Update target book to match the thread's book
-            const threadBook = books.find(b => b.id === suggestedThread.bookId);
+            const threadBook = writableBooks.find(b => b.id === suggestedThread.bookId);
             if (threadBook) {
               targetBook = threadBook;
               targetBookId = threadBook.id;
@@ -394,7 +493,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
         }
 
         // Rewrite text for this topic
-        const topicRewrittenText = await rewriteTextWithAI(topic.content);
+        const topicRewrittenText = await api.ai.rewriteTextWithAI(topic.content);
 
         // Create entry for this topic (without thread yet - user will decide in modal)
         const entry: Entry = {
@@ -406,6 +505,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
           type: topic.type as NoteType,
           summary: topic.summary,
           tasks: topic.tasks.map(t => ({
+            id: generateId(),
             description: t.description,
             assignee: t.assignee,
             dueDate: t.dueDate,
@@ -424,11 +524,8 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
         // Process task actions (complete existing tasks)
         for (const action of topic.taskActions || []) {
           if (action.action === 'complete') {
-            // Find matching task to complete
-            const matchingTask = allExistingTasks.find(t => 
-              t.description.toLowerCase().includes(action.taskDescription.toLowerCase()) ||
-              action.taskDescription.toLowerCase().includes(t.description.toLowerCase())
-            );
+            // Find the task the action refers to
+            const matchingTask = allExistingTasks.find(t => t.id === action.taskId);
             
             if (matchingTask && !matchingTask.isDone) {
               console.log(`✅ Completing task: "${matchingTask.description}"`);
@@ -436,25 +533,20 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
               // Update in memory
               setEntries(prev => prev.map(e => {
                 if (e.id === matchingTask.entryId) {
-                  const updatedTasks = [...e.tasks];
-                  updatedTasks[matchingTask.taskIndex] = {
-                    ...updatedTasks[matchingTask.taskIndex],
+                  const updatedTasks = e.tasks.map(t => t.id === matchingTask.id ? {
+                    ...t,
                     isDone: true,
                     completionNotes: action.completionNotes || 'Completado según nota de actualización'
-                  };
+                  } : t);
                   return { ...e, tasks: updatedTasks };
                 }
                 return e;
               }));
               
               // Update in DB
-              if (matchingTask.id) {
-                await dataService.updateTaskStatus(
-                  matchingTask.id,
-                  true,
-                  action.completionNotes
-                );
-              }
+              await api.data.updateTaskStatus(matchingTask.id, true, action.completionNotes,
+                withRevision(matchingTask.entryId, 'Tarea completada por una nota de actualización')
+              );
               
               completedTasksCount++;
             }
@@ -477,7 +569,8 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
           suggestedCreateNewThread,
           suggestedThreadTitle: threadRelation.suggestedThreadTitle,
           threadRelationReason: threadRelation.reason,
-          relatedEntryIds: threadRelation.relatedEntryIds
+          relatedEntryIds: threadRelation.relatedEntryIds,
+          promptVersion: multiTopicAnalysis.promptVersion
         });
       }
 
@@ -508,10 +601,36 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     } catch (error) {
       console.error('Error in addEntry:', error);
       setIsLoading(false);
+      // The AI answer could not be read even after asking for a repair: the
+      // note is kept as an entry in the ERROR status, with the reason
+      if (error instanceof ApiError && error.code === 'AI_INVALID_RESPONSE') {
+        await saveFailedCapture(text, error.message, attachment, targetBookId);
+        return;
+      }
       throw error;
     }
   };
 
+  const saveFailedCapture = async (text: string, reason: string, attachment?: Attachment, targetBookId?: string) => {
+    const targetBook = targetBookId ? books.find(b => b.id === targetBookId) : undefined;
+    const originalText = text.trim() || (attachment ? `Adjunto: ${attachment.fileName}` : '');
+    const entry: Entry = {
+      id: generateId(),
+      originalText,
+      createdAt: Date.now(),
+      bookId: targetBook?.id || 'inbox',
+      type: NoteType.NOTE,
+      summary: originalText.slice(0, 200),
+      tasks: [],
+      entities: [],
+      status: EntryStatus.ERROR,
+      statusReason: reason,
+    };
+    const savedEntry = await api.data.saveEntry(entry, targetBook?.name || 'Bandeja de Entrada');
+    await api.data.recordEntryRevision(savedEntry.id, 'Entrada creada');
+    setEntries(prev => [savedEntry, ...prev]);
+  };
+
   const confirmEntryWithEdits = async (
     tempEntryId: string,
     editedAnalysis: {
@@ -530,18 +649,6 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
       const tempEntry = entries.find(e => e.id === tempEntryId);
       if (!tempEntry) return;
 
-      // Ensure book exists
-      let targetBook = books.find(b => b.id === editedAnalysis.bookId);
-      if (!targetBook && editedAnalysis.bookId) {
-        targetBook = {
-          id: editedAnalysis.bookId,
-          name: editedAnalysis.bookName,
-          createdAt: Date.now(),
-        };
-        setBooks(prev => [...prev, targetBook!]);
-        await dataService.createBook(editedAnalysis.bookId, user.id, editedAnalysis.bookName);
-      }
-
       const finalEntry: Entry = {
         ...tempEntry,
         bookId: editedAnalysis.bookId || 'inbox',
@@ -552,27 +659,23 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
         status: EntryStatus.COMPLETED
       };
 
-      const analysis = {
-        targetBookName: editedAnalysis.bookName,
-        type: editedAnalysis.type,
-        summary: editedAnalysis.summary,
-        tasks: editedAnalysis.tasks,
-        entities: editedAnalysis.entities,
-        suggestedPriority: 'MEDIUM' as any
-      };
-
-      // Save entry (attachment was only used for AI context, not stored)
-      await dataService.saveEntry(finalEntry, user.id, analysis);
+      // Book (when new), entry, tasks and entities are saved in one transaction
+      // (attachment was only used for AI context, not stored)
+      const savedEntry = await api.data.saveEntry(finalEntry, editedAnalysis.bookName);
+      await api.data.recordEntryRevision(savedEntry.id, 'Entrada creada');
       
       // Update local state immediately with complete entry
-      setEntries(prev => prev.map(e => e.id === tempEntryId ? finalEntry : e));
+      if (!books.some(b => b.id === savedEntry.bookId)) {
+        setBooks(prev => [...prev, { id: savedEntry.bookId, name: editedAnalysis.bookName, createdAt: Date.now() }]);
+      }
+      setEntries(prev => prev.map(e => e.id === tempEntryId ? savedEntry : e));
 
       // Post-process: generate embeddings and detect relations (async, non-blocking)
-      postProcessEntry(finalEntry.id, finalEntry, user.id, entries).catch(error => {
+      api.ai.postProcessEntry(savedEntry).catch(error => {
         console.error('Error in post-processing entry (non-blocking):', error);
       });
 
-      // Refresh data from DB to ensure tasks have proper IDs
+      // Refresh data from DB to pick up the saved state
       await refreshData();
     } catch (error) {
       console.error('Error confirming entry:', error);
@@ -581,7 +684,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
           return {
             ...e,
             status: EntryStatus.ERROR,
-            summary: 'Error al guardar. Intenta de nuevo.',
+            summary: error instanceof ApiError && error.code === 'CAPTURE_SAVE_FAILED' ? error.message : 'Error al guardar. Intenta de nuevo.',
           };
         }
         return e;
@@ -601,62 +704,36 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     originalText: string;
     taskActions: Array<{
       action: 'complete' | 'update';
+      taskId: string;
       taskDescription: string;
       completionNotes?: string;
     }>;
     threadId?: string;
     createNewThread?: boolean;
+    newThreadTitle?: string;
+    promptVersion?: string;
   }>): Promise<void> => {
     if (!user?.id) return;
 
+    setIsLoading(true);
     try {
-      setIsLoading(true);
-
       // Get all existing tasks for completing taskActions
-      const allExistingTasks = entries.flatMap(e => e.tasks.map((t, idx) => ({ 
+      const allExistingTasks = entries.flatMap(e => e.tasks.map(t => ({ 
         ...t, 
-        entryId: e.id, 
-        taskIndex: idx 
+        entryId: e.id 
       })));
 
-      const newBooks: Book[] = [];
-      const newEntries: Entry[] = [];
-      let completedTasksCount = 0;
-
+      // AI rewriting happens first; the save itself is a single transaction
+      const captureTopics: CaptureTopic[] = [];
       for (const topic of pendingTopics) {
-        // Create new book if needed
-        if (topic.isNewBook) {
-          const newBook: Book = {
-            id: topic.bookId,
-            name: topic.bookName,
-            createdAt: Date.now(),
-          };
-          newBooks.push(newBook);
-          
-          try {
-            await dataService.createBook(newBook.id, user.id, newBook.name);
-          } catch (error) {
-            console.error('Error creating book:', error);
-          }
-        }
-
         // Rewrite text for this topic
-        const topicRewrittenText = await rewriteTextWithAI(topic.originalText);
-
-        // Handle thread creation if needed
-        let finalThreadId: string | undefined = topic.threadId;
-        if (topic.createNewThread && !topic.threadId) {
-          // Create new thread with a default title
-          const threadTitle = `Hilo: ${topic.bookName}`;
-          try {
-            const newThread = await createThread(threadTitle, topic.bookId);
-            finalThreadId = newThread.id;
-          } catch (error) {
-            console.error('Error creating thread:', error);
-          }
-        }
+        const topicRewrittenText = await api.ai.rewriteTextWithAI(topic.originalText);
+
+        // A new thread is created together with the entry
+        const newThread = topic.createNewThread && !topic.threadId
+          ? { id: generateId(), title: topic.newThreadTitle || `Hilo: ${topic.bookName}` }
+          : undefined;
 
-        // Create entry with rewritten text and thread
         const entry: Entry = {
           id: topic.entryId,
           originalText: topic.originalText,
@@ -665,8 +742,9 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
           bookId: topic.bookId,
           type: topic.type,
           summary: topic.summary,
-          threadId: finalThreadId,
+          threadId: topic.threadId,
           tasks: topic.tasks.map(t => ({
+            id: t.id,
             description: t.description,
             assignee: t.assignee,
             dueDate: t.dueDate,
@@ -677,107 +755,113 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
             name: e.name,
             type: e.type as any
           })),
-          status: EntryStatus.COMPLETED
+          status: EntryStatus.COMPLETED,
+          promptVersion: topic.promptVersion
         };
 
-        newEntries.push(entry);
+        captureTopics.push({ entry, bookName: topic.bookName, newThread });
+      }
 
-        // Save entry to DB
-        try {
-          const analysis = {
-            targetBookName: topic.bookName,
-            type: topic.type,
-            summary: topic.summary,
-            tasks: topic.tasks,
-            entities: topic.entities,
-            suggestedPriority: 'MEDIUM' as any
-          };
-          await dataService.saveEntry(entry, user.id, analysis);
-          
-          // Post-process: generate embeddings and detect relations (async, non-blocking)
-          postProcessEntry(entry.id, entry, user.id, entries).catch(error => {
-            console.error('Error in post-processing entry (non-blocking):', error);
-          });
-        } catch (error) {
-          console.error('Error saving entry:', error);
+      // Task actions: existing tasks the capture completes
+      const completedTasks = new Map<string, { taskId: string; entryId: string; completionNotes?: string }>();
+      pendingTopics.forEach(topic => (topic.taskActions || []).forEach(action => {
+        if (action.action !== 'complete') return;
+        const matchingTask = allExistingTasks.find(t => t.id === action.taskId);
+        if (matchingTask && !matchingTask.isDone && !completedTasks.has(matchingTask.id)) {
+          console.log(`✅ Completing task: "${matchingTask.description}"`);
+          completedTasks.set(matchingTask.id, { taskId: matchingTask.id, entryId: matchingTask.entryId, completionNotes: action.completionNotes });
         }
+      }));
+      const completedEntryIds = [...new Set([...completedTasks.values()].map(t => t.entryId))];
+      await Promise.all(completedEntryIds.map(entryId => api.data.recordBaselineRevision(entryId)));
 
-        // Process task actions (complete existing tasks)
-        for (const action of topic.taskActions || []) {
-          if (action.action === 'complete') {
-            const matchingTask = allExistingTasks.find(t => 
-              t.description.toLowerCase().includes(action.taskDescription.toLowerCase()) ||
-              action.taskDescription.toLowerCase().includes(t.description.toLowerCase())
-            );
-            
-            if (matchingTask && !matchingTask.isDone) {
-              console.log(`✅ Completing task: "${matchingTask.description}"`);
-              
-              if (matchingTask.id) {
-                await dataService.updateTaskStatus(
-                  matchingTask.id,
-                  true,
-                  action.completionNotes
-                );
-              }
-              completedTasksCount++;
-            }
-          }
-        }
-      }
+      const savedEntries = await api.data.saveEntries({
+        topics: captureTopics,
+        completedTasks: [...completedTasks.values()],
+      });
+
+      // History is recorded once the capture is committed
+      await Promise.all([
+        ...savedEntries.map(entry => api.data.recordEntryRevision(entry.id, 'Entrada creada')),
+        ...completedEntryIds.map(entryId =>
+          api.data.recordEntryRevision(entryId, 'Tarea completada por una nota de actualización')
+        ),
+      ]);
+
+      // Post-process: generate embeddings and detect relations (async, non-blocking)
+      savedEntries.forEach(entry => {
+        api.ai.postProcessEntry(entry).catch(error => {
+          console.error('Error in post-processing entry (non-blocking):', error);
+        });
+      });
 
       // Update state
+      const newBooks: Book[] = [];
+      savedEntries.forEach((entry, i) => {
+        if (!books.some(b => b.id === entry.bookId) && !newBooks.some(b => b.id === entry.bookId)) {
+          newBooks.push({ id: entry.bookId, name: captureTopics[i].bookName, createdAt: Date.now() });
+        }
+      });
+      const newThreads: Thread[] = captureTopics.flatMap((topic, i) => topic.newThread
+        ? [{ ...topic.newThread, bookId: savedEntries[i].bookId, createdAt: Date.now(), updatedAt: Date.now() }]
+        : []);
       if (newBooks.length > 0) {
         setBooks(prev => [...prev, ...newBooks]);
       }
-      setEntries(prev => [...newEntries, ...prev]);
+      if (newThreads.length > 0) {
+        setThreads(prev => [...prev, ...newThreads]);
+      }
+      setEntries(prev => [...savedEntries, ...prev.map(e => e.tasks.some(t => completedTasks.has(t.id))
+        ? { ...e, tasks: e.tasks.map(t => completedTasks.has(t.id) ? { ...t, isDone: true } : t) }
+        : e)]);
 
-      // Refresh to get proper task IDs
+      // Refresh to pick up the saved state
       await refreshData();
 
       console.log('✅ Multi-topic entries saved:', {
-        entriesCreated: newEntries.length,
+        entriesCreated: savedEntries.length,
         booksCreated: newBooks.length,
-        tasksCompleted: completedTasksCount
+        tasksCompleted: completedTasks.size
       });
-
     } catch (error) {
+      // Nothing was saved; the caller keeps the capture so it can be retried
       console.error('Error confirming multi-topic entries:', error);
+      throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const updateTaskStatus = async (entryId: string, taskIndex: number, isDone: boolean): Promise<void> => {
+  const updateTaskStatus = async (entryId: string, taskId: string, isDone: boolean): Promise<void> => {
     const entry = entries.find(e => e.id === entryId);
-    if (!entry || !entry.tasks[taskIndex]) return;
+    if (!entry || !entry.tasks.some(t => t.id === taskId)) return;
 
-    const newTasks = [...entry.tasks];
-    newTasks[taskIndex] = { ...newTasks[taskIndex], isDone };
+    const newTasks = entry.tasks.map(t => t.id === taskId ? { ...t, isDone } : t);
 
     setEntries(prev => prev.map(e => 
       e.id === entryId ? { ...e, tasks: newTasks } : e
     ));
 
-    if (newTasks[taskIndex].id) {
-      try {
-        await dataService.updateTaskStatus(newTasks[taskIndex].id!, isDone);
-      } catch (error) {
-        console.error('Error updating task in DB:', error);
-      }
+    try {
+      await api.data.updateTaskStatus(taskId, isDone, undefined,
+        withRevision(entryId, isDone ? 'Tarea completada' : 'Tarea reabierta')
+      );
+    } catch (error) {
+      console.error('Error updating task in DB:', error);
     }
   };
 
   const updateTaskFields = async (
     entryId: string, 
-    taskIndex: number, 
+    taskId: string, 
     updates: { assignee?: string; dueDate?: string; priority?: string; description?: string }
   ): Promise<void> => {
     const entry = entries.find(e => e.id === entryId);
-    if (!entry || !entry.tasks[taskIndex]) return;
+    if (!entry || !entry.tasks.some(t => t.id === taskId)) return;
 
-    const newTasks = [...entry.tasks];
-    newTasks[taskIndex] = { ...newTasks[taskIndex], ...updates };
+    // A new free-text assignee replaces any delegation, as on the server
+    const delegation = updates.assignee !== undefined ? { assigneeUserId: undefined, delegatedBy: undefined } : {};
+    const newTasks = entry.tasks.map(t => t.id === taskId ? { ...t, ...updates, ...delegation } as TaskItem : t);
 
     // Optimistic update
     setEntries(prev => prev.map(e => 
@@ -785,25 +869,22 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     ));
 
     // Update in DB
-    if (newTasks[taskIndex].id) {
-      try {
-        await dataService.updateTaskFields(newTasks[taskIndex].id!, updates);
-      } catch (error) {
-        console.error('Error updating task fields in DB:', error);
-        // Revert optimistic update
-        setEntries(prev => prev.map(e => 
-          e.id === entryId ? { ...e, tasks: entry.tasks } : e
-        ));
-      }
+    try {
+      await api.data.updateTaskFields(taskId, updates, withRevision(entryId, 'Tarea editada'));
+    } catch (error) {
+      console.error('Error updating task fields in DB:', error);
+      // Revert optimistic update
+      setEntries(prev => prev.map(e => 
+        e.id === entryId ? { ...e, tasks: entry.tasks } : e
+      ));
     }
   };
 
-  const deleteTask = async (entryId: string, taskIndex: number): Promise<void> => {
+  const deleteTask = async (entryId: string, taskId: string): Promise<void> => {
     const entry = entries.find(e => e.id === entryId);
-    if (!entry || !entry.tasks[taskIndex]) return;
+    if (!entry || !entry.tasks.some(t => t.id === taskId)) return;
 
-    const taskToDelete = entry.tasks[taskIndex];
-    const newTasks = entry.tasks.filter((_, idx) => idx !== taskIndex);
+    const newTasks = entry.tasks.filter(t => t.id !== taskId);
 
     // Optimistic update
     setEntries(prev => prev.map(e => 
@@ -811,16 +892,14 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     ));
 
     // Delete from DB
-    if (taskToDelete.id) {
-      try {
-        await dataService.deleteTaskFromDb(taskToDelete.id);
-      } catch (error) {
-        console.error('Error deleting task from DB:', error);
-        // Revert optimistic update
-        setEntries(prev => prev.map(e => 
-          e.id === entryId ? { ...e, tasks: entry.tasks } : e
-        ));
-      }
+    try {
+      await api.data.deleteTaskFromDb(taskId, withRevision(entryId, 'Tarea eliminada'));
+    } catch (error) {
+      console.error('Error deleting task from DB:', error);
+      // Revert optimistic update
+      setEntries(prev => prev.map(e => 
+        e.id === entryId ? { ...e, tasks: entry.tasks } : e
+      ));
     }
   };
 
@@ -830,75 +909,39 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     ));
 
     try {
-      // Update in DB would go here
+      await api.data.updateEntryInDb(entryId, { summary: newSummary }, withRevision(entryId, 'Resumen editado'));
     } catch (error) {
       console.error('Error updating entry summary in DB:', error);
     }
   };
 
-  const toggleTask = async (entryId: string, taskIndex: number) => {
+  const toggleTask = async (entryId: string, taskId: string) => {
     const entry = entries.find(e => e.id === entryId);
-    if (!entry || !entry.tasks[taskIndex]) {
-      console.warn('Task not found:', { entryId, taskIndex });
+    const task = entry?.tasks.find(t => t.id === taskId);
+    if (!task) {
+      console.warn('Task not found:', { entryId, taskId });
       return;
     }
 
-    const task = entry.tasks[taskIndex];
     const newIsDone = !task.isDone;
+    const setDone = (isDone: boolean) => setEntries(prev => prev.map(e => 
+      e.id === entryId
+        ? { ...e, tasks: e.tasks.map(t => t.id === taskId ? { ...t, isDone } : t) }
+        : e
+    ));
 
     // Optimistic update
-    setEntries(prev => prev.map(e => {
-      if (e.id === entryId) {
-        const newTasks = [...e.tasks];
-        newTasks[taskIndex] = { ...newTasks[taskIndex], isDone: newIsDone };
-        return { ...e, tasks: newTasks };
-      }
-      return e;
-    }));
+    setDone(newIsDone);
 
     // Update in DB
     try {
-      if (task.id) {
-        // Task has ID, update directly
-        await dataService.updateTaskStatus(task.id, newIsDone);
-      } else {
-        // Task doesn't have ID yet, need to find it by entryId and description
-        // This can happen if the task was just created
-        const dbTasks = await db.getTasksByEntryId(entryId);
-        const matchingTask = dbTasks.find(t => {
-          const taskDesc = t.description.trim();
-          const currentDesc = task.description.trim();
-          return taskDesc === currentDesc;
-        });
-        
-        if (matchingTask && matchingTask.id) {
-          await dataService.updateTaskStatus(matchingTask.id, newIsDone);
-          // Update the task ID in local state
-          setEntries(prev => prev.map(e => {
-            if (e.id === entryId) {
-              const newTasks = [...e.tasks];
-              if (newTasks[taskIndex]) {
-                newTasks[taskIndex] = { ...newTasks[taskIndex], id: matchingTask.id, isDone: newIsDone };
-              }
-              return { ...e, tasks: newTasks };
-            }
-            return e;
-          }));
-        } else {
-          console.warn('Could not find task in DB to update:', { entryId, taskIndex, task, dbTasks });
-        }
-      }
+      await api.data.updateTaskStatus(taskId, newIsDone, undefined,
+        withRevision(entryId, newIsDone ? 'Tarea completada' : 'Tarea reabierta')
+      );
     } catch (error) {
       console.error('Error updating task in DB:', error);
       // Revert optimistic update
-      setEntries(prev => prev.map(e => {
-        if (e.id === entryId) {
-          const newTasks = [...e.tasks];
-          newTasks[taskIndex] = { ...newTasks[taskIndex], isDone: !newIsDone };
-          return { ...e, tasks: newTasks };
-        }
-        return e;
-      }));
+      setDone(!newIsDone);
     }
   };
 
@@ -910,7 +953,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     
     // Delete from DB
     try {
-      await dataService.deleteEntryFromDb(id, user.id);
+      await api.data.deleteEntryFromDb(id);
     } catch (error) {
       console.error('Error deleting entry from DB:', error);
       // Reload to revert
@@ -918,12 +961,12 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   };
 
-  const searchEntries = async (filters: SearchFilters): Promise<Entry[]> => {
+  const searchEntries = async (filters: SearchFilters): Promise<SearchResult[]> => {
     if (!user?.id) return [];
     
     try {
-      // Use traditional text search only
-      return await dataService.searchEntriesInDb(user.id, filters);
+      // Ranked full-text search
+      return await api.data.searchEntriesInDb(filters);
     } catch (error) {
       console.error('Error searching entries:', error);
       return [];
@@ -944,7 +987,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
         bookName: getBookName(e.bookId),
       }));
 
-    const summaryText = await generateSummary(periodEntries, period);
+    const summaryText = await api.ai.generateSummary(periodEntries, period);
 
     const topDecisions = entries
       .filter(e => e.type === NoteType.DECISION && e.createdAt >= periodStart)
@@ -999,7 +1042,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
       })),
     };
 
-    return await queryBitacora(query, context);
+    return await api.ai.queryBitacora(query, context);
   };
 
   const createBook = async (name: string, description?: string, folderId?: string): Promise<Book> => {
@@ -1019,7 +1062,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     setBooks(prev => [...prev, newBook]);
 
     try {
-      const created = await dataService.createBook(id, user.id, name, description, folderId);
+      const created = await api.data.createBook(id, name, description, folderId);
       return created;
     } catch (error) {
       console.error('Error creating book in DB:', error);
@@ -1043,7 +1086,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     setFolders(prev => [...prev, newFolder]);
 
     try {
-      const created = await dataService.createFolder(id, user.id, name, color);
+      const created = await api.data.createFolder(id, name, color);
       return created;
     } catch (error) {
       console.error('Error creating folder in DB:', error);
@@ -1057,21 +1100,22 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     ));
 
     try {
-      await dataService.updateFolder(id, updates);
+      await api.data.updateFolder(id, updates);
     } catch (error) {
       console.error('Error updating folder in DB:', error);
     }
   };
 
+  // Moves the folder to the trash; its books are shown without a folder meanwhile
   const deleteFolder = async (id: string): Promise<void> => {
     setFolders(prev => prev.filter(f => f.id !== id));
-    // Remove folder from books
     setBooks(prev => prev.map(b => b.folderId === id ? { ...b, folderId: undefined } : b));
     
     try {
-      await dataService.deleteFolder(id, user!.id);
+      await api.data.deleteFolder(id);
     } catch (error) {
       console.error('Error deleting folder from DB:', error);
+      await refreshData(false);
     }
   };
 
@@ -1081,7 +1125,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     ));
 
     try {
-      await dataService.updateBookFolder(bookId, folderId);
+      await api.data.updateBookFolder(bookId, folderId);
     } catch (error) {
       console.error('Error updating book folder in DB:', error);
     }
@@ -1094,7 +1138,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
 
     try {
       if (updates.folderId !== undefined) {
-        await dataService.updateBookFolder(id, updates.folderId || null);
+        await api.data.updateBookFolder(id, updates.folderId || null);
       }
       // Other updates would go here
     } catch (error) {
@@ -1102,12 +1146,19 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   };
 
+  // Moves the book to the trash together with its entries and threads
   const deleteBook = async (id: string): Promise<void> => {
+    if (!user?.id) return;
+
     setBooks(prev => prev.filter(b => b.id !== id));
+    setEntries(prev => prev.filter(e => e.bookId !== id));
+    setThreads(prev => prev.filter(t => t.bookId !== id));
+
     try {
-      // Delete from DB would go here
+      await api.data.deleteBook(id);
     } catch (error) {
       console.error('Error deleting book from DB:', error);
+      await refreshData(false);
     }
   };
 
@@ -1129,7 +1180,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     setThreads(prev => [...prev, newThread]);
 
     try {
-      const created = await dataService.createThread(id, user.id, title, bookId);
+      const created = await api.data.createThread(id, title, bookId);
       return created;
     } catch (error) {
       console.error('Error creating thread in DB:', error);
@@ -1143,23 +1194,24 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     ));
 
     try {
-      await dataService.updateThread(id, updates);
+      await api.data.updateThread(id, updates);
     } catch (error) {
       console.error('Error updating thread in DB:', error);
     }
   };
 
+  // Moves the thread to the trash; its entries are shown outside any thread meanwhile
   const deleteThread = async (id: string): Promise<void> => {
     setThreads(prev => prev.filter(t => t.id !== id));
-    // Remove thread_id from all entries in this thread
     setEntries(prev => prev.map(e => 
       e.threadId === id ? { ...e, threadId: undefined } : e
     ));
     
     try {
-      await dataService.deleteThread(id, user!.id);
+      await api.data.deleteThread(id);
     } catch (error) {
       console.error('Error deleting thread from DB:', error);
+      await refreshData(false);
     }
   };
 
@@ -1168,6 +1220,42 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
   const getEntriesByThreadId = useCallback((threadId: string) => 
     entries.filter(e => e.threadId === threadId), [entries]);
 
+  // Loads the next page of a listing; the first call for a book or thread loads its first page
+  const loadMoreEntries = async (scope: EntryScope = {}): Promise<void> => {
+    if (!user?.id) return;
+
+    const key = entryScopeKey(scope);
+    const current = entryPagesRef.current[key];
+    if (current?.isLoading || (current && !current.nextCursor)) return;
+
+    const cursor = current?.nextCursor ?? null;
+    updateEntryPages(pages => ({ ...pages, [key]: { scope, nextCursor: cursor, isLoading: true } }));
+    try {
+      const page = await api.data.loadEntriesPage(scope, cursor);
+      const threadIds = new Set(threads.map(t => t.id));
+      const visible = page.entries.map(e =>
+        e.threadId && !threadIds.has(e.threadId) ? { ...e, threadId: undefined } : e
+      );
+      setEntries(prev => mergeEntries(prev, visible));
+      updateEntryPages(pages => ({ ...pages, [key]: { scope, nextCursor: page.nextCursor, isLoading: false } }));
+    } catch (error) {
+      console.error('Error loading more entries:', error);
+      updateEntryPages(pages => {
+        const { [key]: _failed, ...rest } = pages;
+        return current ? { ...rest, [key]: { ...current, isLoading: false } } : rest;
+      });
+    }
+  };
+
+  const getEntryPageStatus = (scope: EntryScope = {}): EntryPageStatus => {
+    const state = entryPages[entryScopeKey(scope)];
+    return {
+      isLoaded: !!state,
+      hasMore: !state || !!state.nextCursor,
+      isLoading: !!state?.isLoading,
+    };
+  };
+
   const updateEntryThread = async (entryId: string, threadId: string | null): Promise<void> => {
     if (!user?.id) return;
 
@@ -1177,7 +1265,9 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     ));
 
     try {
-      await dataService.updateEntryInDb(entryId, { threadId });
+      await api.data.updateEntryInDb(entryId, { threadId },
+        withRevision(entryId, threadId ? 'Hilo cambiado' : 'Quitada del hilo')
+      );
     } catch (error) {
       console.error('Error updating entry thread in DB:', error);
       // Reload to revert
@@ -1185,6 +1275,139 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   };
 
+  const getEntryRevisions = async (entryId: string): Promise<EntryRevision[]> => {
+    if (!user?.id) return [];
+    return api.data.getEntryRevisions(entryId);
+  };
+
+  const restoreEntryRevision = async (entryId: string, revisionId: string): Promise<void> => {
+    if (!user?.id) return;
+
+    const restored = await api.data.restoreEntryRevision(entryId, revisionId);
+    setEntries(prev => prev.map(e => e.id === entryId ? { ...restored, relatedEntries: e.relatedEntries } : e));
+  };
+
+  // Trash operations
+  const getTrash = async (): Promise<TrashItem[]> => {
+    if (!user?.id) return [];
+    return api.data.getTrash();
+  };
+
+  const restoreFromTrash = async (type: TrashItemType, id: string): Promise<void> => {
+    if (!user?.id) return;
+    await api.data.restoreFromTrash(type, id);
+    // Restoring brings back children and parents too, so reload everything
+    await refreshData(false);
+  };
+
+  const purgeFromTrash = async (type: TrashItemType, id: string): Promise<void> => {
+    if (!user?.id) return;
+    await api.data.purgeFromTrash(type, id);
+  };
+
+  const emptyTrash = async (): Promise<void> => {
+    if (!user?.id) return;
+    await api.data.emptyTrash();
+  };
+
+  // Sharing operations (only the owner invites or changes roles; a member can leave)
+  const setMembersOf = (bookId: string, members: BookMember[]) => {
+    setBookMembers(prev => ({ ...prev, [bookId]: members }));
+    setBooks(prev => prev.map(b =>
+      b.id === bookId ? { ...b, memberCount: members.filter(m => m.role !== 'owner').length || undefined } : b
+    ));
+  };
+
+  const loadBookMembers = async (bookId: string): Promise<BookMember[]> => {
+    if (!user?.id) return [];
+    const members = await api.sharing.listMembers(bookId);
+    setMembersOf(bookId, members);
+    return members;
+  };
+
+  const shareBook = async (bookId: string, email: string, role: BookMemberRole): Promise<void> => {
+    if (!user?.id) return;
+    setMembersOf(bookId, await api.sharing.addMember(bookId, { email, role }));
+  };
+
+  const updateBookMember = async (bookId: string, userId: string, role: BookMemberRole): Promise<void> => {
+    if (!user?.id) return;
+    setMembersOf(bookId, await api.sharing.updateMember(bookId, userId, role));
+  };
+
+  const removeBookMember = async (bookId: string, userId: string): Promise<void> => {
+    if (!user?.id) return;
+    await api.sharing.removeMember(bookId, userId);
+    if (userId === user.id) {
+      // Left the book: it and everything in it disappear from this user's view
+      setBooks(prev => prev.filter(b => b.id !== bookId));
+      setEntries(prev => prev.filter(e => e.bookId !== bookId));
+      setThreads(prev => prev.filter(t => t.bookId !== bookId));
+      setBookMembers(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== bookId)));
+      return;
+    }
+    setMembersOf(bookId, (bookMembers[bookId] || []).filter(m => m.userId !== userId));
+  };
+
+  // Comments on entries of shared books
+  const getEntryComments = async (entryId: string): Promise<EntryComment[]> => {
+    if (!user?.id) return [];
+    return api.data.listEntryComments(entryId);
+  };
+
+  const addEntryComment = async (entryId: string, text: string): Promise<EntryComment> => {
+    if (!user?.id) {
+      throw new Error('Usuario no autenticado');
+    }
+    return api.data.addEntryComment(generateId(), entryId, text);
+  };
+
+  const deleteEntryComment = async (commentId: string): Promise<void> => {
+    if (!user?.id) return;
+    await api.data.deleteEntryComment(commentId);
+  };
+
+  // Task delegation: the task stays in its entry and is linked to another user
+  const setTaskIn = (entryId: string, task: TaskItem) => {
+    setEntries(prev => prev.map(e =>
+      e.id === entryId ? { ...e, tasks: e.tasks.map(t => t.id === task.id ? task : t) } : e
+    ));
+  };
+
+  const delegateTask = async (entryId: string, taskId: string, email: string): Promise<void> => {
+    if (!user?.id) return;
+    setTaskIn(entryId, await api.delegation.delegate(taskId, email));
+  };
+
+  const undelegateTask = async (entryId: string, taskId: string): Promise<void> => {
+    if (!user?.id) return;
+    setTaskIn(entryId, await api.delegation.undelegate(taskId));
+  };
+
+  // Completing or reopening a task delegated to this user. The change goes to the
+  // same row the delegator sees; no revision is recorded, since the assignee may
+  // not have access to the entry.
+  const toggleAssignedTask = async (taskId: string) => {
+    const task = assignedTasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const newIsDone = !task.isDone;
+    const setDone = (isDone: boolean) => {
+      setAssignedTasks(prev => prev.map(t => t.id === taskId ? { ...t, isDone } : t));
+      setEntries(prev => prev.map(e =>
+        e.id === task.entryId ? { ...e, tasks: e.tasks.map(t => t.id === taskId ? { ...t, isDone } : t) } : e
+      ));
+    };
+
+    setDone(newIsDone);
+    try {
+      await api.data.updateTaskStatus(taskId, newIsDone);
+    } catch (error) {
+      console.error('Error updating assigned task in DB:', error);
+      setDone(!newIsDone);
+    }
+  };
+
   // Memoize context value to prevent unnecessary re-renders
   // Only depend on state values, not functions (functions are stable)
   const contextValue = useMemo(() => ({
@@ -1192,6 +1415,7 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     folders,
     entries,
     threads,
+    bookMembers,
     isLoading,
     isInitializing,
     addEntry,
@@ -1220,12 +1444,34 @@ export const BitacoraProvider: React.FC<{ children: ReactNode }> = ({ children }
     deleteThread,
     getThreadById,
     getEntriesByThreadId,
+    loadMoreEntries,
+    getEntryPageStatus,
     updateEntryThread,
+    getEntryRevisions,
+    restoreEntryRevision,
+    getTrash,
+    restoreFromTrash,
+    purgeFromTrash,
+    emptyTrash,
+    loadBookMembers,
+    shareBook,
+    updateBookMember,
+    removeBookMember,
+    getEntryComments,
+    addEntryComment,
+    deleteEntryComment,
+    assignedTasks,
+    delegateTask,
+    undelegateTask,
+    toggleAssignedTask,
   }), [
     books,
     folders,
     entries,
     threads,
+    bookMembers,
+    assignedTasks,
+    entryPages,
     isLoading,
     isInitializing,
     // Functions are stable and don't need to be in dependencies
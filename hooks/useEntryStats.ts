@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { useBitacora } from '../context/BitacoraContext';
+import { api } from '../services/apiClient';
+import type { EntryStats } from '../types';
+
+/**
+ * Custom hook for the entry and task counts computed by the server
+ * Reloads whenever the loaded entries change (captures, edits, deletions)
+ * @param since - Start of the period counts (timestamp); omit to load only the totals
+ * @returns The stats, or null until they are first loaded
+ */
+export function useEntryStats(since?: number): EntryStats | null {
+  const { entries } = useBitacora();
+  const [stats, setStats] = useState<EntryStats | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    api.data.loadEntryStats(since, timeZone)
+      .then(result => {
+        if (!cancelled) setStats(result);
+      })
+      .catch(err => console.error('Error loading entry stats:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [entries, since]);
+
+  return stats;
+}
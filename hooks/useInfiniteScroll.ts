@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Custom hook for loading more items as a list is scrolled
+ * @param onLoadMore - Loads or reveals the next batch of items
+ * @param hasMore - Whether there is anything left to load
+ * @param itemCount - Items currently shown; checks again after each batch in case the end is still visible
+ * @returns Ref for a sentinel element placed right after the list
+ */
+export function useInfiniteScroll<T extends HTMLElement = HTMLDivElement>(
+  onLoadMore: () => void,
+  hasMore: boolean,
+  itemCount: number
+) {
+  const sentinelRef = useRef<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed[0]?.isIntersecting) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: '300px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, itemCount]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { localeFromLanguage, translate, type Locale, type MessageKey } from '../services/i18n';
+
+/**
+ * Custom hook for the interface texts in the user's language
+ * Before signing in, the browser's language is used
+ * @returns The locale and t(key, vars) for its messages
+ */
+export function useTranslation(): { locale: Locale; t: (key: MessageKey, vars?: Record<string, string | number>) => string } {
+  const { user } = useAuth();
+  const locale = user?.locale ?? localeFromLanguage(typeof navigator !== 'undefined' ? navigator.language : undefined);
+
+  const t = useCallback(
+    (key: MessageKey, vars?: Record<string, string | number>) => translate(locale, key, vars),
+    [locale]
+  );
+
+  return { locale, t };
+}
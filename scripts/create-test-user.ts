@@ -25,7 +25,7 @@ async function main() {
   console.log('👤 Creando usuario de prueba...');
   
   try {
-    const { user, token } = await registerUser(
+    await registerUser(
       'admin@bitacora.local',
       'admin123',
       'Usuario Admin'
@@ -36,6 +36,7 @@ async function main() {
     console.log('📧 Email: admin@bitacora.local');
     console.log('🔑 Contraseña: admin123');
     console.log('');
+    console.log('✉️  Abre el enlace de confirmación del correo (con el buzón local aparece arriba) antes de iniciar sesión');
     console.log('⚠️  IMPORTANTE: Cambia esta contraseña después del primer login');
     
   } catch (error: any) {
@@ -20,14 +20,15 @@ try {
 }
 
 // Now import db and auth services
-const { initDatabase } = await import('../services/db');
+const { getStorage } = await import('../services/storage');
 const { initAuthTables } = await import('../services/authService');
 
 async function main() {
   console.log('🚀 Inicializando base de datos...');
   
   try {
-    const dbResult = await initDatabase();
+    const storage = await getStorage();
+    const dbResult = await storage.initDatabase();
     const authResult = await initAuthTables();
     
     if (dbResult && authResult) {
@@ -41,7 +42,7 @@ async function main() {
       console.log('   - entities (entidades)');
       console.log('🔒 Sistema de autenticación configurado');
     } else {
-      console.warn('⚠️  Base de datos no configurada. Verifica VITE_NEON_DATABASE_URL en .env.local');
+      console.warn('⚠️  Base de datos no configurada. Verifica NEON_DATABASE_URL en .env.local');
       console.log('💡 La app requiere base de datos para funcionar');
     }
   } catch (error) {
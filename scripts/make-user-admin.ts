@@ -20,40 +20,40 @@ try {
 }
 
 const { neon } = await import('@neondatabase/serverless');
+const { getServerEnv } = await import('../services/env');
+const { isUserRole, USER_ROLES } = await import('../services/permissions');
 
-// Get database URL
-function getDatabaseUrl(): string | undefined {
-  if (typeof process !== 'undefined' && process.env?.VITE_NEON_DATABASE_URL) {
-    return process.env.VITE_NEON_DATABASE_URL;
-  }
-  return undefined;
-}
-
-const databaseUrl = getDatabaseUrl();
+const databaseUrl = getServerEnv('NEON_DATABASE_URL');
 if (!databaseUrl) {
-  console.error('❌ VITE_NEON_DATABASE_URL no encontrado en .env.local');
+  console.error('❌ NEON_DATABASE_URL no encontrado en .env.local');
   process.exit(1);
 }
 
 const sql = neon(databaseUrl);
 
 async function main() {
-  // Get email from command line argument or use default
+  // Get email from command line argument or use default; the role is optional
   const email = process.argv[2] || process.env.USER_EMAIL;
+  const role = process.argv[3] || 'admin';
   
   if (!email) {
     console.error('❌ Debes proporcionar un email como argumento:');
-    console.error('   npm run make-admin <email>');
+    console.error('   tsx scripts/make-user-admin.ts <email> [rol]');
     console.error('   o definir USER_EMAIL en .env.local');
     process.exit(1);
   }
+
+  if (!isUserRole(role)) {
+    console.error(`❌ Rol inválido: ${role}. Usa uno de: ${USER_ROLES.join(', ')}`);
+    process.exit(1);
+  }
   
-  console.log(`🔧 Actualizando usuario ${email} a administrador...`);
+  console.log(`🔧 Asignando el rol ${role} al usuario ${email}...`);
   
   try {
     // First, check if user exists
     const userCheck = await sql`
-      SELECT id, email, name, is_admin 
+      SELECT id, email, name, role
       FROM users 
       WHERE email = ${email.toLowerCase()} 
       LIMIT 1
@@ -66,17 +66,17 @@ async function main() {
     
     const user = userCheck[0] as any;
     
-    if (user.is_admin) {
-      console.log(`ℹ️  El usuario ${email} ya es administrador`);
+    if (user.role === role) {
+      console.log(`ℹ️  El usuario ${email} ya tiene el rol ${role}`);
       console.log(`   Nombre: ${user.name}`);
       console.log(`   ID: ${user.id}`);
       return;
     }
     
-    // Update user to admin
+    // Update the user's role
     await sql`
       UPDATE users 
-      SET is_admin = TRUE 
+      SET role = ${role}
       WHERE email = ${email.toLowerCase()}
     `;
     
@@ -85,7 +85,7 @@ async function main() {
     console.log(`📧 Email: ${email}`);
     console.log(`👤 Nombre: ${user.name}`);
     console.log(`🆔 ID: ${user.id}`);
-    console.log(`🔐 Estado: Administrador`);
+    console.log(`🔐 Rol: ${role}`);
     
   } catch (error: any) {
     console.error('❌ Error:', error.message);
@@ -0,0 +1,83 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Load .env.local
+const envPath = join(process.cwd(), '.env.local');
+try {
+  const envContent = readFileSync(envPath, 'utf-8');
+  envContent.split('\n').forEach(line => {
+    const match = line.match(/^([^#=]+)=(.*)$/);
+    if (match) {
+      const key = match[1].trim();
+      const value = match[2].trim();
+      if (!process.env[key]) {
+        process.env[key] = value;
+      }
+    }
+  });
+} catch (error) {
+  console.warn('⚠️  No se pudo cargar .env.local');
+}
+
+// Now import db and migrator
+const { default: sql } = await import('../services/db');
+const { getMigrationStatus, migrateUp, migrateDown } = await import('../services/migrator');
+
+// Usage:
+//   tsx scripts/migrate.ts status
+//   tsx scripts/migrate.ts up [versión]
+//   tsx scripts/migrate.ts down [pasos]
+async function main() {
+  if (!sql) {
+    console.error('❌ NEON_DATABASE_URL no configurada');
+    process.exit(1);
+  }
+
+  const [command = 'status', arg] = process.argv.slice(2);
+  const numericArg = arg !== undefined ? parseInt(arg, 10) : undefined;
+  if (arg !== undefined && (numericArg === undefined || isNaN(numericArg))) {
+    console.error(`❌ Argumento inválido: ${arg}`);
+    process.exit(1);
+  }
+
+  try {
+    switch (command) {
+      case 'status': {
+        const status = await getMigrationStatus(sql);
+        console.log('📋 Estado de migraciones:');
+        status.forEach(m => {
+          const version = String(m.version).padStart(3, '0');
+          console.log(m.appliedAt
+            ? `   ✅ ${version}_${m.name} (aplicada ${m.appliedAt})`
+            : `   ⏳ ${version}_${m.name} (pendiente)`);
+        });
+        break;
+      }
+      case 'up': {
+        console.log('🔄 Aplicando migraciones pendientes...');
+        const applied = await migrateUp(sql, numericArg);
+        applied.forEach(m => console.log(`   ✅ ${String(m.version).padStart(3, '0')}_${m.name}`));
+        console.log(applied.length > 0
+          ? `✅ ${applied.length} migración(es) aplicada(s)`
+          : '✅ La base de datos ya está al día');
+        break;
+      }
+      case 'down': {
+        console.log('↩️  Revirtiendo migraciones...');
+        const reverted = await migrateDown(sql, numericArg ?? 1);
+        reverted.forEach(m => console.log(`   ↩️  ${String(m.version).padStart(3, '0')}_${m.name}`));
+        console.log(`✅ ${reverted.length} migración(es) revertida(s)`);
+        break;
+      }
+      default:
+        console.error(`❌ Comando desconocido: ${command}`);
+        console.log('💡 Uso: tsx scripts/migrate.ts status | up [versión] | down [pasos]');
+        process.exit(1);
+    }
+  } catch (error: any) {
+    console.error('❌ Error en migración:', error.message);
+    process.exit(1);
+  }
+}
+
+main();
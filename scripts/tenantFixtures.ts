@@ -0,0 +1,65 @@
+import { createMemoryStorage } from '../services/memoryStorage';
+import { createUserRepository, type UserRepository } from '../services/repository';
+import type { StorageBackend } from '../services/storage';
+import { EntryStatus, NoteType, type EntrySnapshot } from '../types';
+
+// Seed data for the tests that run on the in-memory backend: each tenant gets
+// a folder, a book, a thread, two entries, a task, an entity, embeddings, a
+// relation, a revision and a cached AI result, all named after its prefix.
+
+export interface Tenant {
+  repo: UserRepository;
+  folderId: string;
+  bookId: string;
+  threadId: string;
+  entryId: string;
+  otherEntryId: string;
+  taskId: string;
+  relationId: string;
+}
+
+export const EMBEDDING = [0.1, 0.2, 0.3, 0.4];
+
+export async function seedTenant(repo: UserRepository, prefix: string): Promise<Tenant> {
+  const folderId = `${prefix}-folder`;
+  const bookId = `${prefix}-book`;
+  const threadId = `${prefix}-thread`;
+  const entryId = `${prefix}-entry`;
+  const otherEntryId = `${prefix}-entry-2`;
+  const taskId = `${prefix}-task`;
+  const relationId = `${prefix}-relation`;
+
+  await repo.createFolder(folderId, `Carpeta ${prefix}`);
+  await repo.createBook(bookId, `Libreta ${prefix}`, undefined, folderId);
+  await repo.createThread(threadId, `Hilo ${prefix}`, bookId);
+  await repo.createEntry(entryId, `Reunión de presupuesto ${prefix}`, bookId, 'NOTE', `Presupuesto ${prefix}`, 'COMPLETED', threadId);
+  await repo.createEntry(otherEntryId, `Seguimiento ${prefix}`, bookId, 'NOTE', `Seguimiento ${prefix}`, 'COMPLETED');
+  await repo.createTask(taskId, entryId, `Enviar presupuesto ${prefix}`, 'Ana');
+  await repo.createEntity(`${prefix}-entity`, entryId, 'Ana', 'PERSON');
+  await repo.createEntryEmbedding(`${prefix}-embedding`, entryId, EMBEDDING);
+  await repo.createEntryEmbedding(`${prefix}-embedding-2`, otherEntryId, EMBEDDING);
+  await repo.createEntryRelation(relationId, entryId, otherEntryId, 0.9);
+  await repo.createEntryRevision(`${prefix}-revision`, entryId, snapshotOf(prefix));
+  await repo.saveAiCacheEntries([{
+    key: 'person-ana',
+    namespace: 'personSummary',
+    subject: 'Ana',
+    value: JSON.stringify(`Resumen de ${prefix}`),
+    expiresAt: new Date(Date.now() + 60_000),
+  }]);
+
+  return { repo, folderId, bookId, threadId, entryId, otherEntryId, taskId, relationId };
+}
+
+export function snapshotOf(prefix: string): EntrySnapshot {
+  return { summary: `Presupuesto ${prefix}`, type: NoteType.NOTE, status: EntryStatus.COMPLETED, tasks: [], entities: [] };
+}
+
+// Alice and Bob on one fresh in-memory backend
+export async function setup(): Promise<{ storage: StorageBackend; alice: Tenant; bob: Tenant }> {
+  const storage = createMemoryStorage();
+  await storage.initDatabase();
+  const alice = await seedTenant(createUserRepository(storage, 'user-alice'), 'alice');
+  const bob = await seedTenant(createUserRepository(storage, 'user-bob'), 'bob');
+  return { storage, alice, bob };
+}
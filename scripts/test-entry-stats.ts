@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { DEFAULT_ENTRY_PAGE_SIZE } from '../services/storage';
+import * as dataService from '../services/dataService';
+import { NoteType } from '../types';
+import { setup } from './tenantFixtures';
+import { runTests, test } from './testRunner';
+
+// Entry stats tests
+// Totals, per-book counts and the period breakdown on the in-memory backend.
+// Run with: npm run test:stats
+
+test('entry stats count every readable entry, not just the first page', async () => {
+  const { alice, bob } = await setup();
+  for (let i = 0; i < DEFAULT_ENTRY_PAGE_SIZE + 5; i++) {
+    await alice.repo.createEntry(`alice-bulk-${i}`, `Idea ${i}`, alice.bookId, 'IDEA', `Idea ${i}`, 'COMPLETED');
+  }
+  await alice.repo.createTask('alice-bulk-task', 'alice-bulk-0', 'Revisar ideas');
+  await alice.repo.updateTask('alice-bulk-task', { isDone: true });
+  await bob.repo.createTask('bob-task-2', bob.entryId, 'Otra tarea');
+  await alice.repo.addBookMember(alice.bookId, bob.repo.userId, 'viewer');
+
+  const stats = dataService.dbEntryStatsToEntryStats(await alice.repo.getEntryStats());
+  assert.equal(stats.totalEntries, DEFAULT_ENTRY_PAGE_SIZE + 7);
+  assert.equal(stats.openTasks, 1);
+  assert.equal(stats.completedTasks, 1);
+  assert.deepEqual(stats.books.map(b => [b.bookId, b.entryCount, b.openTasks]), [[alice.bookId, DEFAULT_ENTRY_PAGE_SIZE + 7, 1]]);
+  assert.equal(stats.period, null);
+
+  // Bob also counts the book shared with him; the period covers entries from `since` on
+  const bobStats = dataService.dbEntryStatsToEntryStats(await bob.repo.getEntryStats({ since: new Date(0).toISOString(), timeZone: 'Europe/Madrid' }));
+  assert.equal(bobStats.totalEntries, DEFAULT_ENTRY_PAGE_SIZE + 9);
+  assert.equal(bobStats.openTasks, 3);
+  assert.deepEqual(bobStats.period?.byType, [[NoteType.IDEA, DEFAULT_ENTRY_PAGE_SIZE + 5], [NoteType.NOTE, 4]]);
+  assert.equal(bobStats.period?.byDay.reduce((sum, [, count]) => sum + count, 0), DEFAULT_ENTRY_PAGE_SIZE + 9);
+  assert.ok(bobStats.period?.byDay.every(([day]) => /^\d{4}-\d{2}-\d{2}$/.test(day)));
+  assert.deepEqual(bobStats.period?.topPeople, [['Ana', 2]]);
+  assert.equal(bobStats.period?.totalTasks, 4);
+
+  const later = await alice.repo.getEntryStats({ since: new Date(Date.now() + 3_600_000).toISOString() });
+  assert.deepEqual(later.period, { buckets: [], top_entities: [] });
+});
+
+runTests('de estadísticas');
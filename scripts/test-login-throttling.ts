@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import {
+  ACCOUNT_LOCKOUT_THRESHOLD,
+  IP_LOCKOUT_THRESHOLD,
+  LOCKOUT_MINUTES,
+  locksAccount,
+  locksIp,
+  loginDelaySeconds,
+  secondsUntilNextAttempt,
+} from '../services/loginThrottling';
+import { runTests, test } from './testRunner';
+
+// Login throttling tests
+// The delay and lockout policy; authService applies it to the database counters.
+// Run with: npm run test:throttling
+
+test('failed logins wait after three, doubling up to a minute, and lock at the thresholds', async () => {
+  assert.deepEqual(
+    [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 20].map(loginDelaySeconds),
+    [0, 0, 1, 2, 4, 8, 16, 32, 60, 60, 60]
+  );
+  assert.equal(secondsUntilNextAttempt(2, 0), 0);
+  assert.equal(secondsUntilNextAttempt(3, 0), 1);
+  assert.equal(secondsUntilNextAttempt(3, 1), 0);
+  assert.equal(secondsUntilNextAttempt(9, 59.2), 1);
+
+  assert.equal(locksAccount(ACCOUNT_LOCKOUT_THRESHOLD - 1), false);
+  assert.equal(locksAccount(10), true);
+  assert.equal(locksIp(10), false);
+  assert.equal(locksIp(IP_LOCKOUT_THRESHOLD - 1), false);
+  assert.equal(locksIp(30), true);
+  assert.equal(LOCKOUT_MINUTES, 15);
+});
+
+runTests('de limitación de accesos');
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { migrations, type MigrationSql, type MigrationTxn } from '../services/migrations';
+import { getMigrationStatus, migrateDown, migrateUp } from '../services/migrator';
+import { runTests, test } from './testRunner';
+
+// Migration tests
+// The migration list and the migrator, run against a fake SQL client.
+// Run with: npm run test:migrations
+
+// Stands in for Neon in the migration tests: keeps schema_migrations in a map
+// and runs each transaction all-or-nothing. Statements matching `failOn` throw.
+function createFakeSql(failOn?: RegExp) {
+  const applied = new Map<number, string>();
+  const statements: string[] = [];
+  const toText = (strings: TemplateStringsArray) => strings.join('?').replace(/\s+/g, ' ').trim();
+  const txn = (strings: TemplateStringsArray, ...values: unknown[]) => ({ text: toText(strings), values });
+
+  const sql = Object.assign(
+    async (strings: TemplateStringsArray) => {
+      const text = toText(strings);
+      return text.startsWith('SELECT version')
+        ? [...applied].sort(([a], [b]) => a - b).map(([version, name]) => ({ version, name, applied_at: new Date() }))
+        : [];
+    },
+    {
+      async transaction(build: (tag: typeof txn) => Array<ReturnType<typeof txn>>) {
+        const queries = build(txn);
+        if (failOn && queries.some(q => failOn.test(q.text))) {
+          throw new Error('fake failure');
+        }
+        for (const query of queries) {
+          statements.push(query.text);
+          const version = query.values[0] as number;
+          if (query.text.startsWith('INSERT INTO schema_migrations')) applied.set(version, query.values[1] as string);
+          if (query.text.startsWith('DELETE FROM schema_migrations')) applied.delete(version);
+        }
+        return [];
+      },
+    }
+  );
+  return { sql: sql as unknown as MigrationSql, applied, statements };
+}
+
+test('migrations are numbered in order and every one can be reverted', async () => {
+  const txn = ((strings: TemplateStringsArray) => ({ text: strings.join('?') })) as unknown as MigrationTxn;
+  migrations.forEach((migration, i) => {
+    assert.equal(migration.version, i + 1);
+    assert.match(migration.name, /^[a-z0-9_]+$/);
+    assert.ok(migration.up(txn).length > 0, `${migration.name} has no up statements`);
+    assert.ok(migration.down(txn).length > 0, `${migration.name} has no down statements`);
+  });
+});
+
+test('migrate up applies pending versions once and down reverts the newest first', async () => {
+  const { sql, applied } = createFakeSql();
+  assert.deepEqual((await migrateUp(sql, 3)).map(m => m.version), [1, 2, 3]);
+  const status = await getMigrationStatus(sql);
+  assert.deepEqual(status.filter(s => s.appliedAt).map(s => s.version), [1, 2, 3]);
+  assert.equal(status.filter(s => !s.appliedAt).length, migrations.length - 3);
+
+  assert.equal((await migrateUp(sql)).length, migrations.length - 3);
+  assert.deepEqual(await migrateUp(sql), []);
+
+  const latest = migrations.length;
+  assert.deepEqual((await migrateDown(sql, 2)).map(m => m.version), [latest, latest - 1]);
+  assert.ok(!applied.has(latest) && !applied.has(latest - 1) && applied.has(latest - 2));
+  assert.deepEqual((await migrateUp(sql)).map(m => m.version), [latest - 1, latest]);
+});
+
+test('a failing migration is not recorded and the next run retries it', async () => {
+  const failing = createFakeSql(/CREATE TABLE IF NOT EXISTS threads/);
+  await assert.rejects(migrateUp(failing.sql), /fake failure/);
+  assert.deepEqual([...failing.applied.keys()], [1, 2, 3, 4]);
+  assert.ok(!failing.statements.some(text => text.includes('threads')));
+
+  // Versions already recorded are skipped on the next run
+  const { sql, applied } = createFakeSql();
+  failing.applied.forEach((name, version) => applied.set(version, name));
+  assert.equal((await migrateUp(sql))[0].version, 5);
+});
+
+runTests('de migraciones');
@@ -0,0 +1,378 @@
+import assert from 'node:assert/strict';
+import { createMemoryStorage } from '../services/memoryStorage';
+import { createUserRepository } from '../services/repository';
+import { setStorage } from '../services/storage';
+import { setMockScript, mockEmbedding, getChatModel, embed, chatJson, EMBEDDING_DIMENSIONS, assertEmbeddingDimensions } from '../services/llmProvider';
+import { analyzeMultiTopicEntry, detectThreadRelations, generatePersonInteractionSummary, rewriteTextWithAI } from '../services/openaiService';
+import { AiResponseError, object, oneOf, text } from '../services/aiSchemas';
+import { estimateAiCost, runWithAiUser } from '../services/usageService';
+import { DAY_SECONDS, invalidateAiCache } from '../services/aiCache';
+import { postProcessEntry } from '../services/improvedPipeline';
+import { prompts, renderPrompt, templateVariables, PromptTemplateError } from '../services/prompts';
+import { LOCALES } from '../services/i18n';
+import * as dataService from '../services/dataService';
+import { Entry, EntryStatus, NoteType, TaskPriority } from '../types';
+import { runTests, test } from './testRunner';
+
+// Offline capture tests
+// The mock LLM provider and the in-memory backend run the capture → classify
+// → save flow without network or database: the note is analysed, each topic
+// is rewritten and saved in its book, and its embedding is stored. Scripted
+// bad answers check that AI responses are validated and repaired.
+// Run with: npm run test:offline
+
+// The provider is chosen on the first AI call, so this is early enough
+process.env.LLM_PROVIDER = 'mock';
+process.env.LLM_EMBEDDING_MODEL = 'mock-embedding';
+
+const USER_ID = 'user-offline';
+
+async function setup() {
+  const storage = createMemoryStorage();
+  await storage.initDatabase();
+  setStorage(storage);
+  setMockScript(null);
+  return createUserRepository(storage, USER_ID);
+}
+
+// What the app does with a new note, minus the thread suggestions
+async function capture(text: string): Promise<Entry[]> {
+  const books = await dataService.loadAllBooks(USER_ID);
+  const analysis = await analyzeMultiTopicEntry(text, books, []);
+
+  const topics = await Promise.all(analysis.topics.map(async (topic, i) => {
+    const entry: Entry = {
+      id: `entry-${Date.now()}-${i}`,
+      originalText: topic.content,
+      aiRewrittenText: await rewriteTextWithAI(topic.content),
+      createdAt: Date.now(),
+      bookId: books.find(b => b.name === topic.targetBookName)?.id || `book-${i}`,
+      type: topic.type as NoteType,
+      summary: topic.summary,
+      tasks: topic.tasks.map((t, j) => ({
+        id: `task-${i}-${j}`,
+        description: t.description,
+        assignee: t.assignee,
+        priority: TaskPriority.MEDIUM,
+        isDone: false,
+      })),
+      entities: [],
+      status: EntryStatus.COMPLETED,
+      promptVersion: analysis.promptVersion,
+    };
+    return { entry, bookName: topic.targetBookName };
+  }));
+
+  const saved = await dataService.saveEntries(USER_ID, { topics, completedTasks: [] });
+  for (const entry of saved) {
+    await postProcessEntry(entry.id, entry, USER_ID);
+  }
+  return saved;
+}
+
+test('without a script a note is saved unchanged in the inbox', async () => {
+  const repo = await setup();
+  const [entry] = await capture('Llamar a Marta por el presupuesto');
+
+  const saved = await repo.getEntryById(entry.id);
+  assert.equal(saved?.original_text, 'Llamar a Marta por el presupuesto');
+  assert.equal(saved?.ai_rewritten_text, 'Llamar a Marta por el presupuesto');
+  const book = await repo.getBookById(saved!.book_id);
+  assert.equal(book?.name, 'Bandeja de Entrada');
+
+  const embedding = await repo.getEmbeddingByEntryId(entry.id);
+  assert.equal(embedding?.model, 'mock-embedding');
+  assert.equal(saved?.prompt_version, 'multiTopicAnalysis@1/es');
+});
+
+test('scripted answers split a note into topics with their tasks', async () => {
+  const repo = await setup();
+  setMockScript({
+    multiTopic: [{
+      isMultiTopic: true,
+      overallContext: 'Reunión semanal',
+      topics: [
+        {
+          targetBookName: 'Finanzas',
+          isNewBook: true,
+          type: 'TASK',
+          content: 'Enviar el presupuesto a Marta',
+          summary: 'Presupuesto para Marta',
+          tasks: [{ description: 'Enviar presupuesto', assignee: 'Marta' }],
+          entities: [],
+        },
+        {
+          targetBookName: 'Ideas',
+          isNewBook: true,
+          type: 'IDEA',
+          content: 'Probar un tablero de métricas',
+          summary: 'Tablero de métricas',
+          tasks: [],
+          entities: [],
+        },
+      ],
+    }],
+    rewrite: ['Enviar el presupuesto a Marta.', 'Probar un tablero de métricas.'],
+  });
+
+  const entries = await capture('Reunión: presupuesto para Marta y una idea de métricas');
+  assert.equal(entries.length, 2);
+
+  const books = await repo.getAllBooks();
+  assert.deepEqual(books.map(b => b.name).sort(), ['Bandeja de Entrada', 'Finanzas', 'Ideas']);
+  const tasks = await repo.getTasksByEntryId(entries[0].id);
+  assert.deepEqual(tasks.map(t => [t.description, t.assignee]), [['Enviar presupuesto', 'Marta']]);
+  assert.equal((await repo.getEntryById(entries[0].id))?.type, 'TASK');
+
+  // Answers are taken in order and the last one repeats
+  const rewritten = await Promise.all(entries.map(e => repo.getEntryById(e.id)));
+  assert.deepEqual(rewritten.map(e => e?.ai_rewritten_text).sort(), ['Enviar el presupuesto a Marta.', 'Probar un tablero de métricas.']);
+  assert.equal(await rewriteTextWithAI('Otra nota'), 'Probar un tablero de métricas.');
+});
+
+test('fields the schema can read are coerced', async () => {
+  await setup();
+  setMockScript({
+    multiTopic: [{
+      topics: [{
+        targetBookName: 'Finanzas',
+        type: 'task',
+        content: 'Pagar a proveedores',
+        tasks: [{ description: 'Pagar facturas', dueDate: '2025-3-5T10:00:00Z', priority: 'high' }],
+      }],
+    }],
+    threads: [{ hasRelation: 'true', relatedThreadId: null, relatedEntryIds: ['e1'], confidence: '92', reason: 'Mismo tema' }],
+  });
+
+  const [topic] = (await analyzeMultiTopicEntry('Pagar a proveedores', [], [])).topics;
+  assert.equal(topic.type, NoteType.TASK);
+  assert.deepEqual(topic.tasks, [{ description: 'Pagar facturas', dueDate: '2025-03-05', priority: TaskPriority.HIGH }]);
+
+  const relation = await detectThreadRelations('Pagar a proveedores', [], []);
+  assert.equal(relation.hasRelation, true);
+  assert.equal(relation.confidence, 92);
+});
+
+test('an invalid answer is sent back and the repaired one is used', async () => {
+  await setup();
+  setMockScript({
+    multiTopic: [
+      { topics: [{ targetBookName: 'Finanzas', type: 'MEMO', content: 'Cerrar el trimestre', tasks: [{ description: 'Cerrar', dueDate: 'mañana' }] }] },
+      { topics: [{ targetBookName: 'Finanzas', type: 'NOTE', content: 'Cerrar el trimestre', tasks: [{ description: 'Cerrar' }] }] },
+    ],
+  });
+
+  const [topic] = (await analyzeMultiTopicEntry('Cerrar el trimestre', [], [])).topics;
+  assert.equal(topic.type, NoteType.NOTE);
+  assert.equal(topic.tasks[0].dueDate, undefined);
+});
+
+test('an answer that stays invalid is rejected and the note is kept with the reason', async () => {
+  const repo = await setup();
+  setMockScript({ multiTopic: [{ isMultiTopic: false }] });
+
+  const error = await analyzeMultiTopicEntry('Nota sin temas', [], []).catch(e => e);
+  assert.ok(error instanceof AiResponseError);
+  assert.deepEqual(error.issues, ['topics: es obligatorio']);
+
+  // What the app saves in that case
+  const [entry] = await dataService.saveEntries(USER_ID, {
+    topics: [{
+      entry: {
+        id: 'entry-failed',
+        originalText: 'Nota sin temas',
+        createdAt: Date.now(),
+        bookId: 'inbox',
+        type: NoteType.NOTE,
+        summary: 'Nota sin temas',
+        tasks: [],
+        entities: [],
+        status: EntryStatus.ERROR,
+        statusReason: error.message,
+      },
+      bookName: 'Bandeja de Entrada',
+    }],
+    completedTasks: [],
+  });
+  const saved = await repo.getEntryById(entry.id);
+  assert.equal(saved?.status, 'ERROR');
+  assert.match(saved?.status_reason || '', /topics: es obligatorio/);
+
+  await repo.updateEntry(entry.id, { status: EntryStatus.COMPLETED });
+  assert.equal((await repo.getEntryById(entry.id))?.status_reason, null);
+});
+
+test('mock embeddings are deterministic and closer for texts that share words', async () => {
+  const a = mockEmbedding('Revisión de sueldos de analistas');
+  assert.equal(a.length, EMBEDDING_DIMENSIONS);
+  assert.deepEqual(a, mockEmbedding('Revisión de sueldos de analistas'));
+
+  const dot = (x: number[], y: number[]) => x.reduce((sum, value, i) => sum + value * y[i], 0);
+  const similar = dot(a, mockEmbedding('Revision de los sueldos de analistas'));
+  const unrelated = dot(a, mockEmbedding('Comprar café para la oficina'));
+  assert.ok(similar > unrelated);
+});
+
+test('an embedding model of another size is a configuration error', async () => {
+  assert.doesNotThrow(() => assertEmbeddingDimensions([mockEmbedding('a'), mockEmbedding('b')], 'text-embedding-3-small'));
+  assert.throws(
+    () => assertEmbeddingDimensions([mockEmbedding('a'), new Array(768).fill(0)], 'nomic-embed-text'),
+    /"nomic-embed-text" devuelve 768 dimensiones y se necesitan 1536.*LLM_EMBEDDING_MODEL/
+  );
+});
+
+test('each task can use its own model', async () => {
+  process.env.LLM_CHAT_MODEL = 'llama3.1:8b';
+  process.env.LLM_TASK_MODELS = 'classify=qwen2.5:14b, query = gpt-4o';
+  try {
+    assert.equal(getChatModel('classify'), 'qwen2.5:14b');
+    assert.equal(getChatModel('query'), 'gpt-4o');
+    assert.equal(getChatModel('rewrite'), 'llama3.1:8b');
+  } finally {
+    delete process.env.LLM_CHAT_MODEL;
+    delete process.env.LLM_TASK_MODELS;
+  }
+  assert.equal(getChatModel('rewrite'), 'gpt-4o-mini');
+});
+
+test('AI calls are priced per model, with local models free unless priced', async () => {
+  assert.equal(estimateAiCost('gpt-4o-mini', 1_000_000, 1_000_000), 0.75);
+  assert.equal(estimateAiCost('text-embedding-3-small', 500_000, 0), 0.01);
+  assert.equal(estimateAiCost('llama3.1:8b', 1000, 1000), 0);
+
+  process.env.AI_MODEL_PRICES = 'llama3.1:8b=0.1/0.2, gpt-4o-mini=1/2';
+  try {
+    assert.ok(Math.abs(estimateAiCost('llama3.1:8b', 1_000_000, 1_000_000) - 0.3) < 1e-9);
+    assert.equal(estimateAiCost('gpt-4o-mini', 1_000_000, 0), 1);
+  } finally {
+    delete process.env.AI_MODEL_PRICES;
+  }
+});
+
+test('identical requests are answered from the cache until it is invalidated', async () => {
+  await setup();
+  setMockScript({ personSummary: ['Ana: revisión de sueldos.', 'Ana: cierre del trimestre.'] });
+  const entries = [{ summary: 'Sueldos de analistas', type: 'NOTE', createdAt: Date.now() }];
+
+  await runWithAiUser({ id: USER_ID }, async () => {
+    assert.equal(await generatePersonInteractionSummary('Ana', entries), 'Ana: revisión de sueldos.');
+    assert.equal(await generatePersonInteractionSummary('Ana', entries), 'Ana: revisión de sueldos.');
+
+    // Other entries are another input, so they get a new answer
+    const more = [...entries, { summary: 'Cierre del trimestre', type: 'TASK', createdAt: Date.now() + 1 }];
+    assert.equal(await generatePersonInteractionSummary('Ana', more), 'Ana: cierre del trimestre.');
+
+    assert.equal(await invalidateAiCache(USER_ID, 'personSummary', 'Ana'), 2);
+    assert.equal(await generatePersonInteractionSummary('Ana', entries), 'Ana: cierre del trimestre.');
+  });
+
+  // Outside a request nothing is cached
+  setMockScript({ rewrite: ['Primera.', 'Segunda.'] });
+  assert.equal(await rewriteTextWithAI('Texto'), 'Primera.');
+  assert.equal(await rewriteTextWithAI('Texto'), 'Segunda.');
+
+  // Embeddings are always cached, one entry per text
+  const embeddings = await runWithAiUser({ id: USER_ID }, () => embed(['Sueldos', 'Trimestre', 'Sueldos']));
+  assert.deepEqual(embeddings[2], mockEmbedding('Sueldos'));
+  assert.equal(await invalidateAiCache(USER_ID, 'embedding'), 2);
+});
+
+test('a cached JSON chat keeps only answers that passed their schema', async () => {
+  await setup();
+  setMockScript({ classify: [{}, {}, {}, {}, { name: 'Ana' }, { name: 'Luis' }] });
+  const schema = object<{ name: string }>({ name: text() });
+  const request = () => chatJson({
+    task: 'classify',
+    messages: [{ role: 'user', content: '¿Quién?' }],
+    cache: { version: 1, ttlSeconds: DAY_SECONDS },
+  }, schema);
+
+  await runWithAiUser({ id: USER_ID }, async () => {
+    await assert.rejects(request(), AiResponseError);
+    // Repaired on the second attempt, then answered from the cache
+    assert.deepEqual(await request(), { name: 'Ana' });
+    assert.deepEqual(await request(), { name: 'Ana' });
+  });
+  assert.equal(await invalidateAiCache(USER_ID, 'classify'), 1);
+});
+
+test('schema issues and the repair request follow the language of the request', async () => {
+  await setup();
+  setMockScript({ classify: [{ name: 'Ana', role: 'jefa' }, 'no es JSON'] });
+  const schema = object<{ name: string; role: 'admin' | 'member' }>({ name: text(), role: oneOf(['admin', 'member'] as const) });
+  const request = () => chatJson({ task: 'classify', messages: [{ role: 'user', content: 'Who?' }] }, schema);
+
+  const error = await runWithAiUser({ id: USER_ID, locale: 'en' }, request).catch(e => e);
+  assert.ok(error instanceof AiResponseError);
+  assert.deepEqual(error.issues, ['response: is not valid JSON']);
+  assert.equal(error.message, 'The AI returned an invalid response: response: is not valid JSON');
+
+  setMockScript({ classify: [{ name: 'Ana', role: 'jefa' }] });
+  const spanish = await request().catch(e => e);
+  assert.deepEqual(spanish.issues, ['role: "jefa" no es válido, debe ser admin, member']);
+
+  const repair = renderPrompt(prompts.jsonRepair, { issues: ['role: is required'] }, 'en');
+  assert.equal(repair.id, 'jsonRepair@1/en');
+  assert.equal(repair.sections.user, 'Your answer does not follow the requested format:\n- role: is required\n\nFix it and reply with the complete JSON only.');
+});
+
+test('every prompt has the same sections in both languages and declares its variables', async () => {
+  for (const template of Object.values(prompts)) {
+    const sections = Object.keys(template.text.es).sort();
+    for (const { value: locale } of LOCALES) {
+      assert.deepEqual(Object.keys(template.text[locale]).sort(), sections, `${template.name}/${locale}`);
+      for (const text of Object.values<string>(template.text[locale])) {
+        for (const name of templateVariables(text)) {
+          assert.ok((template.variables as readonly string[]).includes(name), `${template.name}/${locale}: ${name}`);
+        }
+      }
+    }
+  }
+});
+
+test('prompts are filled in and follow the language of the request', async () => {
+  const vars = {
+    query: '¿Qué tengo pendiente con Marta?',
+    books: [{ name: 'Finanzas', description: 'Presupuestos' }],
+    threads: [{ title: 'Presupuesto', bookName: 'Finanzas', entryCount: 1, single: true }],
+    entries: [{ type: 'TASK', summary: 'Enviar presupuesto', bookName: 'Finanzas', date: new Date(2025, 2, 5) }],
+    pendingTasks: [{ description: 'Enviar presupuesto', assignee: 'Marta' }],
+    completedTasks: [],
+    isAboutPending: true,
+    isAboutPerson: true,
+  };
+
+  const spanish = renderPrompt(prompts.query, vars);
+  assert.equal(spanish.id, 'query@1/es');
+  assert.match(spanish.sections.user, /- Finanzas: Presupuestos/);
+  assert.match(spanish.sections.user, /"Presupuesto" \(Finanzas, 1 entrada\)/);
+  assert.match(spanish.sections.user, /\(Finanzas, 5\/3\/2025\)/);
+  assert.match(spanish.sections.user, /\[PENDIENTE\] Enviar presupuesto \(asignado a: Marta\)/);
+  assert.match(spanish.sections.user, /No hay tareas completadas/);
+  assert.doesNotMatch(spanish.sections.user, /\{\{/);
+
+  const english = await runWithAiUser({ id: USER_ID, locale: 'en' }, async () => renderPrompt(prompts.query, vars));
+  assert.equal(english.id, 'query@1/en');
+  assert.match(english.sections.user, /\(Finanzas, 1 entry\)/);
+  assert.match(english.sections.user, /\(Finanzas, 3\/5\/2025\)/);
+  assert.match(english.sections.user, /There are no completed tasks/);
+
+  assert.throws(
+    () => renderPrompt({ ...prompts.rewrite, text: { es: { system: '', user: '{{texto}}' }, en: { system: '', user: '' } } }, { text: '' }),
+    PromptTemplateError
+  );
+});
+
+test('analyses record the prompt version and fallbacks use the user language', async () => {
+  await setup();
+  await runWithAiUser({ id: USER_ID, locale: 'en' }, async () => {
+    const analysis = await analyzeMultiTopicEntry('Call Marta about the budget', [], []);
+    assert.equal(analysis.promptVersion, 'multiTopicAnalysis@1/en');
+
+    const entries = [{ summary: 'Budget', type: 'NOTE', createdAt: Date.now() }];
+    assert.equal(await generatePersonInteractionSummary('Marta', entries), 'Summary of interactions with Marta: 1 note(s) recorded.');
+    assert.equal(await generatePersonInteractionSummary('Marta', []), 'There are no recorded interactions with Marta.');
+  });
+});
+
+runTests('de captura sin conexión');
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { scryptSync } from 'node:crypto';
+import { DUMMY_PASSWORD_HASH, hashPassword, verifyPassword } from '../services/passwordHash';
+import { runTests, test } from './testRunner';
+
+// Password hashing tests
+// Run with: npm run test:passwords
+
+test('passwords are stored as salted scrypt hashes', async () => {
+  const first = await hashPassword('correcto caballo batería');
+  const second = await hashPassword('correcto caballo batería');
+  assert.match(first, /^scrypt\$32768\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+  assert.notEqual(first, second);
+
+  assert.deepEqual(await verifyPassword('correcto caballo batería', first), { valid: true, needsRehash: false });
+  assert.deepEqual(await verifyPassword('correcto caballo bateria', first), { valid: false, needsRehash: false });
+
+  // Malformed hashes and excessive stored costs never verify
+  const [, , , , salt, hash] = first.split('$');
+  for (const stored of ['', 'scrypt$32768$8$1$', `bcrypt$32768$8$1$${salt}$${hash}`, `scrypt$${2 ** 21}$8$1$${salt}$${hash}`, `scrypt$0$8$1$${salt}$${hash}`]) {
+    assert.deepEqual(await verifyPassword('correcto caballo batería', stored), { valid: false, needsRehash: false }, stored);
+  }
+});
+
+test('the dummy hash for unknown emails costs a full scrypt check with the current parameters', async () => {
+  const [, n, r, p] = DUMMY_PASSWORD_HASH.split('$');
+  const [, currentN, currentR, currentP] = (await hashPassword('otra clave')).split('$');
+  assert.deepEqual([n, r, p], [currentN, currentR, currentP]);
+  assert.deepEqual(await verifyPassword('bitacora-dummy-password', DUMMY_PASSWORD_HASH), { valid: true, needsRehash: false });
+  assert.equal((await verifyPassword('cualquier clave', DUMMY_PASSWORD_HASH)).valid, false);
+});
+
+test('legacy SHA-256 and older scrypt hashes verify and ask to be upgraded', async () => {
+  // SHA-256 of "password123"
+  const legacy = 'ef92b778bafe771e89245b89ecbc08a44a4e166c06659911881f383d4473e94f';
+  assert.deepEqual(await verifyPassword('password123', legacy), { valid: true, needsRehash: true });
+  assert.deepEqual(await verifyPassword('password124', legacy), { valid: false, needsRehash: false });
+
+  const current = await hashPassword('password123');
+  const [, , , , salt] = current.split('$');
+  const weaker = `scrypt$16384$8$1$${salt}$${scryptSync('password123', Buffer.from(salt, 'base64'), 64, { N: 16384, r: 8, p: 1 }).toString('base64')}`;
+  assert.deepEqual(await verifyPassword('password123', weaker), { valid: true, needsRehash: true });
+  assert.deepEqual(await verifyPassword('password123', current), { valid: true, needsRehash: false });
+});
+
+runTests('de contraseñas');
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { canAssignRole, canManageUser, hasPermission, USER_ROLES } from '../services/permissions';
+import { runTests, test } from './testRunner';
+
+// Role permission tests
+// Run with: npm run test:permissions
+
+test('only managers act on users, and never on their peers or above', async () => {
+  for (const actor of [undefined, 'member', 'auditor'] as const) {
+    for (const role of USER_ROLES) {
+      assert.equal(canManageUser(actor, role), false, `${actor} manages ${role}`);
+      assert.equal(canAssignRole(actor, role), false, `${actor} assigns ${role}`);
+    }
+  }
+  assert.equal(hasPermission('auditor', 'users.view'), true);
+  assert.equal(hasPermission('auditor', 'users.manage'), false);
+  assert.equal(hasPermission('auditor', 'security.manage'), false);
+  assert.equal(hasPermission('member', 'users.view'), false);
+
+  // An admin handles members and auditors, but cannot touch or create admins and owners
+  assert.equal(canManageUser('admin', 'member'), true);
+  assert.equal(canManageUser('admin', 'auditor'), true);
+  assert.equal(canManageUser('admin', 'admin'), false);
+  assert.equal(canManageUser('admin', 'owner'), false);
+  assert.equal(canAssignRole('admin', 'auditor'), true);
+  assert.equal(canAssignRole('admin', 'admin'), false);
+  assert.equal(canAssignRole('admin', 'owner'), false);
+
+  for (const role of USER_ROLES) {
+    assert.equal(canManageUser('owner', role), true);
+    assert.equal(canAssignRole('owner', role), true);
+  }
+});
+
+runTests('de permisos');
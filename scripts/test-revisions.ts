@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { createMemoryStorage } from '../services/memoryStorage';
+import { createUserRepository } from '../services/repository';
+import { setStorage } from '../services/storage';
+import { diffEntrySnapshots } from '../services/revisionDiff';
+import * as dataService from '../services/dataService';
+import { EntityType, EntrySnapshot, EntryStatus, NoteType } from '../types';
+import { seedTenant } from './tenantFixtures';
+import { runTests, test } from './testRunner';
+
+// Entry revision tests
+// Snapshot diffs, and recording and restoring revisions on the in-memory backend.
+// Run with: npm run test:revisions
+
+test('revision diffs list changed fields, tasks and entities, with text diffed word by word', async () => {
+  const before: EntrySnapshot = {
+    summary: 'Enviar el presupuesto',
+    type: NoteType.NOTE,
+    status: EntryStatus.COMPLETED,
+    tasks: [{ id: 't1', description: 'Llamar a Ana', isDone: false }],
+    entities: [{ name: 'Ana', type: EntityType.PERSON }],
+  };
+  const after: EntrySnapshot = {
+    ...before,
+    summary: 'Enviar el presupuesto final',
+    type: NoteType.TASK,
+    tasks: [{ id: 't1', description: 'Llamar a Ana', isDone: true }, { id: 't2', description: 'Cerrar acta', isDone: false }],
+    entities: [],
+  };
+
+  const changes = diffEntrySnapshots(before, after);
+  assert.deepEqual(changes.map(c => [c.field, c.kind, c.subject]), [
+    ['summary', 'changed', undefined],
+    ['type', 'changed', undefined],
+    ['taskDone', 'changed', 'Llamar a Ana'],
+    ['task', 'added', 'Cerrar acta'],
+    ['entity', 'removed', 'Ana'],
+  ]);
+  assert.deepEqual(changes[0].words, [{ text: 'Enviar el presupuesto', op: 'same' }, { text: ' final', op: 'added' }]);
+  assert.deepEqual(diffEntrySnapshots(after, after), []);
+  assert.deepEqual(diffEntrySnapshots(null, after), []);
+});
+
+test('restoring a revision brings back the entry, its tasks and entities as a new revision', async () => {
+  const storage = createMemoryStorage();
+  await storage.initDatabase();
+  setStorage(storage);
+  const alice = await seedTenant(createUserRepository(storage, 'user-alice'), 'alice');
+  await seedTenant(createUserRepository(storage, 'user-bob'), 'bob');
+  const author = { id: 'user-alice', name: 'Alice' };
+
+  const original = await dataService.recordEntryRevision(alice.entryId, 'user-alice', author, 'Estado inicial');
+  await dataService.withEntryRevision(alice.entryId, 'user-alice', author, 'Edición', async () => {
+    await alice.repo.updateEntry(alice.entryId, { summary: 'Cambiado', type: 'TASK' });
+    await alice.repo.updateTask(alice.taskId, { isDone: true });
+    await alice.repo.deleteEntitiesByEntryId(alice.entryId);
+  });
+  // Nothing changed, so nothing is recorded
+  assert.equal(await dataService.recordEntryRevision(alice.entryId, 'user-alice', author), null);
+  assert.equal((await dataService.getEntryRevisions(alice.entryId, 'user-alice')).length, 3);
+
+  const restored = await dataService.restoreEntryRevision(alice.entryId, original!.id, 'user-alice', author);
+  assert.equal(restored.summary, 'Presupuesto alice');
+  assert.equal(restored.type, NoteType.NOTE);
+  assert.deepEqual(restored.tasks.map(t => [t.id, t.isDone]), [[alice.taskId, false]]);
+  assert.deepEqual(restored.entities.map(e => e.name), ['Ana']);
+
+  const revisions = await dataService.getEntryRevisions(alice.entryId, 'user-alice');
+  const latest = revisions.reduce((a, b) => (a.revisionNumber > b.revisionNumber ? a : b));
+  assert.equal(latest.revisionNumber, 4);
+  assert.equal(latest.reason, 'Restaurada la revisión 2');
+  assert.deepEqual(diffEntrySnapshots(original!.snapshot, latest.snapshot), []);
+
+  await assert.rejects(
+    dataService.restoreEntryRevision(alice.entryId, original!.id, 'user-bob', { id: 'user-bob' }),
+    /Revisión no encontrada/
+  );
+});
+
+runTests('de revisiones');
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { parseSearchQuery, toSearchCriteria } from '../services/searchQuery';
+import { searchEntriesQuery } from '../services/db';
+import { SNIPPET_HIGHLIGHT } from '../types';
+import { setup } from './tenantFixtures';
+import { runTests, test } from './testRunner';
+
+// Search tests
+// The query parser, full-text search on the in-memory backend and the SQL
+// built for Neon, which is checked without running it.
+// Run with: npm run test:search
+
+test('the search query parser accepts real dates only', async () => {
+  const dates = (query: string) => parseSearchQuery(query).nodes.filter(n => n.kind === 'dateFrom' || n.kind === 'dateTo');
+
+  assert.deepEqual(dates('desde:2026-09-01 hasta:2026-09-30'), [
+    { kind: 'dateFrom', value: '2026-09-01' },
+    { kind: 'dateTo', value: '2026-09-30' },
+  ]);
+  assert.deepEqual(dates('desde:2024-02-29').map(n => n.value), ['2024-02-29']);
+
+  for (const invalid of ['2026-02-30', '2025-02-29', '2026-13-01', '2026-00-10', '2026-04-31', '2026-9-1', 'ayer']) {
+    const ast = parseSearchQuery(`desde:${invalid} presupuesto`);
+    assert.deepEqual(dates(`desde:${invalid}`), [], invalid);
+    assert.deepEqual(ast.errors, [`Fecha inválida: "${invalid}" (usa AAAA-MM-DD)`]);
+    assert.equal(toSearchCriteria(ast).dateFrom, undefined);
+  }
+});
+
+test('full-text search ignores accents and plurals, ranks matches and highlights them', async () => {
+  const { alice } = await setup();
+  const search = (query: string) => alice.repo.searchEntries(toSearchCriteria(parseSearchQuery(query)));
+
+  assert.deepEqual((await search('reuniones')).map(r => r.id), [alice.entryId]);
+  assert.deepEqual((await search('REUNION')).map(r => r.id), [alice.entryId]);
+  // Task descriptions and entity names are searched too
+  assert.deepEqual((await search('enviar')).map(r => r.id), [alice.entryId]);
+
+  // A match in the summary outranks one only in the original text
+  await alice.repo.createEntry('alice-entry-3', 'Notas sobre el presupuesto', alice.bookId, 'NOTE', 'Notas varias', 'COMPLETED');
+  const ranked = await search('presupuesto');
+  assert.deepEqual(ranked.map(r => r.id), [alice.entryId, 'alice-entry-3']);
+  assert.ok(ranked[0].rank > ranked[1].rank);
+  assert.ok(ranked[0].snippet?.includes(`${SNIPPET_HIGHLIGHT.start}Presupuesto${SNIPPET_HIGHLIGHT.end}`));
+
+  assert.deepEqual((await search('presupuesto -notas')).map(r => r.id), [alice.entryId]);
+  assert.deepEqual(await search('   '), []);
+});
+
+test('an empty search finds nothing on either backend', async () => {
+  const { alice } = await setup();
+  const empty = toSearchCriteria(parseSearchQuery(''));
+  assert.deepEqual(await alice.repo.searchEntries(empty), []);
+  assert.deepEqual(await alice.repo.searchEntries(empty, { limit: 5 }), []);
+  assert.equal(searchEntriesQuery('user-alice', empty), null);
+  assert.equal(searchEntriesQuery('user-alice', empty, { limit: 5 }), null);
+
+  // Any criterion or filter makes it a search
+  assert.ok(searchEntriesQuery('user-alice', toSearchCriteria(parseSearchQuery('-notas'))));
+  assert.ok(searchEntriesQuery('user-alice', empty, { bookId: alice.bookId }));
+  assert.deepEqual((await alice.repo.searchEntries(empty, { bookId: alice.bookId })).map(r => r.id).sort(), [alice.entryId, alice.otherEntryId].sort());
+});
+
+runTests('de búsqueda');
@@ -0,0 +1,250 @@
+import assert from 'node:assert/strict';
+import { createMemoryStorage } from '../services/memoryStorage';
+import { createUserRepository } from '../services/repository';
+import { TenantAccessError } from '../services/storage';
+import { parseSearchQuery, toSearchCriteria } from '../services/searchQuery';
+import { EMBEDDING, setup, snapshotOf } from './tenantFixtures';
+import { runTests, test } from './testRunner';
+
+// Tenant isolation tests
+// Two users share one in-memory backend; every read, write and delete made
+// through one user's repository must leave the other user's data untouched.
+// Run with: npm run test:isolation
+
+test('lists only the own folders, books, threads and entries', async () => {
+  const { alice } = await setup();
+  assert.deepEqual((await alice.repo.getAllFolders()).map(f => f.id), [alice.folderId]);
+  assert.deepEqual((await alice.repo.getAllBooks()).map(b => b.id), [alice.bookId]);
+  assert.deepEqual((await alice.repo.getAllThreads()).map(t => t.id), [alice.threadId]);
+  assert.deepEqual((await alice.repo.getAllEntries()).map(e => e.id).sort(), [alice.entryId, alice.otherEntryId].sort());
+});
+
+test('reads by id do not return another user\'s rows', async () => {
+  const { alice, bob } = await setup();
+  assert.equal(await alice.repo.getFolderById(bob.folderId), null);
+  assert.equal(await alice.repo.getBookById(bob.bookId), null);
+  assert.equal(await alice.repo.getThreadById(bob.threadId), null);
+  assert.equal(await alice.repo.getEntryById(bob.entryId), null);
+  assert.deepEqual(await alice.repo.getEntriesByBookId(bob.bookId), []);
+  assert.deepEqual(await alice.repo.getEntriesByThreadId(bob.threadId), []);
+  assert.deepEqual(await alice.repo.getThreadsByBookId(bob.bookId), []);
+});
+
+test('tasks, entities, embeddings, relations and revisions stay with their owner', async () => {
+  const { alice, bob } = await setup();
+  assert.deepEqual(await alice.repo.getTasksByEntryId(bob.entryId), []);
+  assert.deepEqual(await alice.repo.getTasksByEntryIds([alice.entryId, bob.entryId]).then(t => t.map(x => x.id)), [alice.taskId]);
+  assert.deepEqual((await alice.repo.getAllTasks()).map(t => t.id), [alice.taskId]);
+  assert.deepEqual(await alice.repo.getEntitiesByEntryId(bob.entryId), []);
+  assert.equal((await alice.repo.getEntitiesByEntryIds([alice.entryId, bob.entryId])).length, 1);
+  assert.equal(await alice.repo.getEmbeddingByEntryId(bob.entryId), null);
+  assert.equal((await alice.repo.getEmbeddingsByEntryIds([alice.entryId, bob.entryId])).length, 1);
+  assert.deepEqual(await alice.repo.getRelationsByEntryId(bob.entryId), []);
+  assert.deepEqual(await alice.repo.getRelatedEntries(bob.entryId), []);
+  assert.deepEqual(await alice.repo.getEntryRevisions(bob.entryId), []);
+  assert.equal(await alice.repo.getLatestEntryRevision(bob.entryId), null);
+});
+
+test('cached AI results, like person summaries, are kept per user', async () => {
+  const { alice, bob } = await setup();
+  assert.deepEqual((await alice.repo.getAiCacheEntries(['person-ana'])).map(e => e.value), ['"Resumen de alice"']);
+  assert.deepEqual((await bob.repo.getAiCacheEntries(['person-ana'])).map(e => e.value), ['"Resumen de bob"']);
+
+  assert.equal(await bob.repo.deleteAiCacheEntries('personSummary', 'Ana'), 1);
+  assert.deepEqual(await bob.repo.getAiCacheEntries(['person-ana']), []);
+  assert.equal((await alice.repo.getAiCacheEntries(['person-ana'])).length, 1);
+});
+
+test('search and similarity only match the own entries', async () => {
+  const { alice } = await setup();
+  const results = await alice.repo.searchEntries(toSearchCriteria(parseSearchQuery('presupuesto')));
+  assert.deepEqual(results.map(r => r.id), [alice.entryId]);
+
+  const similar = await alice.repo.findSimilarEntries(EMBEDDING, { limit: 10 });
+  assert.deepEqual(similar.map(s => s.id).sort(), [alice.entryId, alice.otherEntryId].sort());
+});
+
+test('creating rows under another user\'s parents is rejected', async () => {
+  const { alice, bob } = await setup();
+  const rejects = (promise: Promise<unknown>) => assert.rejects(promise, TenantAccessError);
+
+  await rejects(alice.repo.createBook('x-book', 'Intrusa', undefined, bob.folderId));
+  await rejects(alice.repo.createThread('x-thread', 'Intruso', bob.bookId));
+  await rejects(alice.repo.createEntry('x-entry', 'texto', bob.bookId, 'NOTE', 'resumen'));
+  await rejects(alice.repo.createEntry('x-entry', 'texto', alice.bookId, 'NOTE', 'resumen', 'COMPLETED', bob.threadId));
+  await rejects(alice.repo.createTask('x-task', bob.entryId, 'Tarea intrusa'));
+  await rejects(alice.repo.createEntity('x-entity', bob.entryId, 'Intruso', 'PERSON'));
+  await rejects(alice.repo.createEntryEmbedding('x-embedding', bob.entryId, EMBEDDING));
+  await rejects(alice.repo.createEntryRelation('x-relation', alice.entryId, bob.entryId, 0.8));
+  await rejects(alice.repo.createEntryRevision('x-revision', bob.entryId, snapshotOf('x')));
+
+  assert.equal((await bob.repo.getTasksByEntryId(bob.entryId)).length, 1);
+  assert.equal((await bob.repo.getAllBooks()).length, 1);
+});
+
+test('a capture touching another user\'s rows is rolled back entirely', async () => {
+  const { alice, bob } = await setup();
+  const entry = (id: string, bookId: string) => ({
+    id, originalText: 'texto', bookId, type: 'NOTE', summary: 'resumen', status: 'COMPLETED',
+    tasks: [{ id: `${id}-task`, description: 'Tarea' }],
+    entities: [{ id: `${id}-entity`, name: 'Ana', type: 'PERSON' }],
+  });
+
+  await assert.rejects(alice.repo.saveCapture({
+    books: [{ id: 'x-book', name: 'Nueva' }],
+    threads: [],
+    entries: [entry('x-entry', 'x-book'), entry('x-entry-2', bob.bookId)],
+    completedTasks: [{ id: alice.taskId }],
+  }), TenantAccessError);
+
+  assert.equal(await alice.repo.getBookById('x-book'), null);
+  assert.equal(await alice.repo.getEntryById('x-entry'), null);
+  assert.equal((await alice.repo.getTasksByEntryId(alice.entryId))[0].is_done, false);
+  assert.equal((await bob.repo.getEntriesByBookId(bob.bookId)).length, 2);
+});
+
+test('updates and deletes on another user\'s rows change nothing', async () => {
+  const { alice, bob } = await setup();
+
+  await alice.repo.updateFolder(bob.folderId, { name: 'Cambiada' });
+  await alice.repo.updateBook(bob.bookId, { name: 'Cambiada' });
+  await alice.repo.updateBook(alice.bookId, { folderId: bob.folderId });
+  await alice.repo.updateThread(bob.threadId, { title: 'Cambiado' });
+  await alice.repo.updateEntry(bob.entryId, { summary: 'Cambiado' });
+  await alice.repo.updateEntry(alice.entryId, { threadId: bob.threadId });
+  await alice.repo.updateTask(bob.taskId, { isDone: true });
+  await alice.repo.updateRelationStrength(bob.relationId, 0.1);
+
+  assert.equal((await bob.repo.getFolderById(bob.folderId))?.name, 'Carpeta bob');
+  assert.equal((await bob.repo.getBookById(bob.bookId))?.name, 'Libreta bob');
+  assert.equal((await alice.repo.getBookById(alice.bookId))?.folder_id, alice.folderId);
+  assert.equal((await bob.repo.getThreadById(bob.threadId))?.title, 'Hilo bob');
+  assert.equal((await bob.repo.getEntryById(bob.entryId))?.summary, 'Presupuesto bob');
+  assert.equal((await alice.repo.getEntryById(alice.entryId))?.thread_id, alice.threadId);
+  assert.equal((await bob.repo.getTasksByEntryId(bob.entryId))[0].is_done, false);
+  assert.equal((await bob.repo.getRelationsByEntryId(bob.entryId))[0].relation_strength, 0.9);
+
+  await alice.repo.deleteTask(bob.taskId);
+  await alice.repo.deleteEntitiesByEntryId(bob.entryId);
+  await alice.repo.deleteEmbeddingByEntryId(bob.entryId);
+  await alice.repo.deleteRelation(bob.relationId);
+  await alice.repo.deleteEntry(bob.entryId);
+  await alice.repo.deleteThread(bob.threadId);
+  await alice.repo.deleteBook(bob.bookId);
+  await alice.repo.deleteFolder(bob.folderId);
+
+  assert.equal((await bob.repo.getTasksByEntryId(bob.entryId)).length, 1);
+  assert.equal((await bob.repo.getEntitiesByEntryId(bob.entryId)).length, 1);
+  assert.notEqual(await bob.repo.getEmbeddingByEntryId(bob.entryId), null);
+  assert.equal((await bob.repo.getRelationsByEntryId(bob.entryId)).length, 1);
+  assert.notEqual(await bob.repo.getEntryById(bob.entryId), null);
+  assert.notEqual(await bob.repo.getThreadById(bob.threadId), null);
+  assert.notEqual(await bob.repo.getBookById(bob.bookId), null);
+  assert.notEqual(await bob.repo.getFolderById(bob.folderId), null);
+});
+
+test('trash is listed, restored and purged per user', async () => {
+  const { alice, bob } = await setup();
+  await alice.repo.deleteBook(alice.bookId);
+  await bob.repo.deleteEntry(bob.otherEntryId);
+
+  assert.deepEqual((await alice.repo.getTrash()).map(i => i.id), [alice.bookId]);
+  assert.deepEqual((await bob.repo.getTrash()).map(i => i.id), [bob.otherEntryId]);
+
+  await alice.repo.restoreFromTrash('entry', bob.otherEntryId);
+  await alice.repo.purgeFromTrash('entry', bob.otherEntryId);
+  assert.equal(await bob.repo.getEntryById(bob.otherEntryId), null);
+  assert.deepEqual((await bob.repo.getTrash()).map(i => i.id), [bob.otherEntryId]);
+
+  await alice.repo.purgeTrash();
+  assert.deepEqual(await alice.repo.getTrash(), []);
+  assert.deepEqual((await bob.repo.getTrash()).map(i => i.id), [bob.otherEntryId]);
+});
+
+test('a viewer of a shared book reads it but cannot write to it', async () => {
+  const { alice, bob } = await setup();
+  await alice.repo.addBookMember(alice.bookId, bob.repo.userId, 'viewer');
+
+  const shared = await bob.repo.getBookById(alice.bookId);
+  assert.equal(shared?.member_role, 'viewer');
+  assert.equal((await bob.repo.getEntryById(alice.entryId))?.user_id, alice.repo.userId);
+  assert.equal((await bob.repo.getTasksByEntryId(alice.entryId)).length, 1);
+  const results = await bob.repo.searchEntries(toSearchCriteria(parseSearchQuery('presupuesto')));
+  assert.ok(results.some(r => r.id === alice.entryId));
+
+  await assert.rejects(bob.repo.createEntry('bob-in-alice', 'Nota', alice.bookId, 'NOTE', 'Nota'), TenantAccessError);
+  await assert.rejects(bob.repo.createEntryComment('bob-comment', alice.entryId, 'Bien'), TenantAccessError);
+  await bob.repo.updateEntry(alice.entryId, { summary: 'Cambiado por Bob' });
+  await bob.repo.deleteEntry(alice.entryId);
+  await bob.repo.updateTask(alice.taskId, { isDone: true });
+  assert.equal((await alice.repo.getEntryById(alice.entryId))?.summary, 'Presupuesto alice');
+  assert.equal((await alice.repo.getTasksByEntryId(alice.entryId))[0].is_done, false);
+
+  // Only the owner manages the book and its members
+  await assert.rejects(bob.repo.addBookMember(alice.bookId, 'user-carol', 'editor'), TenantAccessError);
+  await bob.repo.deleteBook(alice.bookId);
+  assert.ok(await alice.repo.getBookById(alice.bookId));
+});
+
+test('editors write, commenters comment and removed members lose access', async () => {
+  const { alice, bob } = await setup();
+  await alice.repo.addBookMember(alice.bookId, bob.repo.userId, 'commenter');
+  const comment = await bob.repo.createEntryComment('bob-comment', alice.entryId, 'Revisar cifras');
+  assert.deepEqual((await alice.repo.getEntryComments(alice.entryId)).map(c => c.id), [comment.id]);
+  await assert.rejects(bob.repo.createThread('bob-thread-in-alice', 'Hilo', alice.bookId), TenantAccessError);
+
+  // Adding again changes the role
+  await alice.repo.addBookMember(alice.bookId, bob.repo.userId, 'editor');
+  assert.equal((await alice.repo.getBookMembers(alice.bookId)).length, 1);
+  await bob.repo.createEntry('bob-in-alice', 'Nota de Bob', alice.bookId, 'NOTE', 'Nota de Bob', 'COMPLETED', alice.threadId);
+  assert.equal((await alice.repo.getEntryById('bob-in-alice'))?.user_id, bob.repo.userId);
+
+  // An editor deletes their own entries, not the owner's
+  await bob.repo.deleteEntry(alice.entryId);
+  assert.ok(await alice.repo.getEntryById(alice.entryId));
+  await bob.repo.deleteEntry('bob-in-alice');
+  assert.deepEqual((await bob.repo.getTrash()).map(i => i.id).filter(id => id === 'bob-in-alice'), ['bob-in-alice']);
+  await bob.repo.restoreFromTrash('entry', 'bob-in-alice');
+
+  await alice.repo.removeBookMember(alice.bookId, bob.repo.userId);
+  assert.equal(await bob.repo.getBookById(alice.bookId), null);
+  assert.equal(await bob.repo.getEntryById('bob-in-alice'), null);
+  assert.deepEqual(await bob.repo.getEntryComments(alice.entryId), []);
+  assert.ok(!(await bob.repo.getAllEntries()).some(e => e.book_id === alice.bookId));
+});
+
+test('a delegated task is completed by its assignee without opening the book', async () => {
+  const { alice, bob } = await setup();
+  await assert.rejects(bob.repo.delegateTask(alice.taskId, bob.repo.userId), TenantAccessError);
+  assert.equal(await bob.repo.getWritableTask(alice.taskId), null);
+  assert.equal((await alice.repo.getWritableTask(alice.taskId))?.id, alice.taskId);
+  const delegated = await alice.repo.delegateTask(alice.taskId, bob.repo.userId, 'Bob');
+  assert.equal(delegated.delegated_by, alice.repo.userId);
+
+  const assigned = await bob.repo.getAssignedTasks();
+  assert.deepEqual(assigned.map(t => [t.id, t.entry_id, t.book_name]), [[alice.taskId, alice.entryId, 'Libreta alice']]);
+  // The assignee sees the entry's summary, not what was written in it
+  assert.equal(assigned[0].entry_summary, 'Presupuesto alice');
+  assert.ok(!JSON.stringify(assigned).includes('Reunión de presupuesto alice'));
+  assert.equal(await bob.repo.getEntryById(alice.entryId), null);
+  assert.equal(await bob.repo.getWritableTask(alice.taskId), null);
+
+  // The assignee completes it and adds notes; everything else stays with the book's writers
+  await bob.repo.updateTask(alice.taskId, { isDone: true, completionNotes: 'Enviado', description: 'Cambiada' });
+  const [task] = await alice.repo.getTasksByEntryId(alice.entryId);
+  assert.equal(task.is_done, true);
+  assert.equal(task.completion_notes, 'Enviado');
+  assert.equal(task.description, 'Enviar presupuesto alice');
+
+  // Reassigning by name ends the delegation
+  await alice.repo.updateTask(alice.taskId, { assignee: 'Ana' });
+  assert.deepEqual(await bob.repo.getAssignedTasks(), []);
+  await bob.repo.updateTask(alice.taskId, { isDone: false });
+  assert.equal((await alice.repo.getTasksByEntryId(alice.entryId))[0].is_done, true);
+});
+
+test('a repository needs a user', async () => {
+  assert.throws(() => createUserRepository(createMemoryStorage(), ''), /User ID is required/);
+});
+
+runTests('de aislamiento');
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import * as dataService from '../services/dataService';
+import { setup } from './tenantFixtures';
+import { runTests, test } from './testRunner';
+
+// Trash tests
+// Cascading deletes and restores, and the retention purge, on the in-memory
+// backend. Per-user isolation of the trash is covered by test:isolation.
+// Run with: npm run test:trash
+
+test('a restored book brings back what was deleted with it, not what was deleted before', async () => {
+  const { alice } = await setup();
+  await alice.repo.deleteEntry(alice.otherEntryId);
+  await alice.repo.deleteBook(alice.bookId);
+
+  assert.deepEqual(await alice.repo.getAllEntries(), []);
+  assert.deepEqual(await alice.repo.getAllThreads(), []);
+  assert.deepEqual((await alice.repo.getTrash()).map(i => [i.item_type, i.id, i.child_count]), [
+    ['book', alice.bookId, 1],
+    ['entry', alice.otherEntryId, 0],
+  ]);
+
+  await alice.repo.restoreFromTrash('book', alice.bookId);
+  assert.deepEqual((await alice.repo.getAllEntries()).map(e => e.id), [alice.entryId]);
+  assert.deepEqual((await alice.repo.getAllThreads()).map(t => t.id), [alice.threadId]);
+  assert.equal((await alice.repo.getTasksByEntryId(alice.entryId)).length, 1);
+  assert.equal((await alice.repo.getEntitiesByEntryId(alice.entryId)).length, 1);
+  assert.deepEqual((await alice.repo.getTrash()).map(i => i.id), [alice.otherEntryId]);
+
+  // Restoring an entry of a deleted book brings the book back too
+  await alice.repo.deleteBook(alice.bookId);
+  await alice.repo.restoreFromTrash('entry', alice.entryId);
+  assert.ok(await alice.repo.getBookById(alice.bookId));
+  assert.ok(await alice.repo.getEntryById(alice.entryId));
+});
+
+test('the retention purge removes only items deleted before the cutoff, with their children', async () => {
+  const { alice } = await setup();
+  await alice.repo.deleteEntry(alice.entryId);
+  const [trashed] = await alice.repo.getTrash();
+  const cutoff = new Date(new Date(trashed.deleted_at).getTime() + 1);
+  await alice.repo.deleteThread(alice.threadId);
+
+  await alice.repo.purgeTrash(cutoff);
+  assert.deepEqual((await alice.repo.getTrash()).map(i => i.id), [alice.threadId]);
+  await alice.repo.restoreFromTrash('entry', alice.entryId);
+  assert.equal(await alice.repo.getEntryById(alice.entryId), null);
+  assert.deepEqual(await alice.repo.getTasksByEntryId(alice.entryId), []);
+  assert.equal(await alice.repo.getEmbeddingByEntryId(alice.entryId), null);
+  assert.deepEqual(await alice.repo.getRelationsByEntryId(alice.otherEntryId), []);
+
+  process.env.TRASH_RETENTION_DAYS = '7';
+  assert.equal(dataService.getTrashRetentionDays(), 7);
+  process.env.TRASH_RETENTION_DAYS = 'nunca';
+  assert.equal(dataService.getTrashRetentionDays(), 30);
+  delete process.env.TRASH_RETENTION_DAYS;
+});
+
+runTests('de papelera');
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { currentTotpStep, generateRecoveryCodes, hashRecoveryCode, looksLikeTotpCode, verifyTotp } from '../services/twoFactor';
+import { runTests, test } from './testRunner';
+
+// Two-factor authentication tests
+// TOTP codes, replay protection and recovery codes.
+// Run with: npm run test:2fa
+
+// RFC 6238 appendix B (SHA-1), last six digits; the secret is "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+];
+
+test('TOTP codes match the RFC 6238 test vectors', async () => {
+  for (const [seconds, code] of RFC_VECTORS) {
+    assert.equal(verifyTotp(RFC_SECRET, code, null, seconds * 1000), currentTotpStep(seconds * 1000), `T=${seconds}`);
+  }
+  // One step of clock drift either way, no more
+  assert.equal(verifyTotp(RFC_SECRET, '287082', null, (59 + 30) * 1000), 1);
+  assert.equal(verifyTotp(RFC_SECRET, '287082', null, (59 + 60) * 1000), null);
+  assert.equal(verifyTotp(RFC_SECRET, '287083', null, 59 * 1000), null);
+  assert.equal(verifyTotp(RFC_SECRET, '28708', null, 59 * 1000), null);
+});
+
+test('a TOTP code cannot be replayed, nor one older than the last used', async () => {
+  const now = 1111111111 * 1000;
+  const step = verifyTotp(RFC_SECRET, '050471', null, now);
+  assert.equal(step, currentTotpStep(now));
+  assert.equal(verifyTotp(RFC_SECRET, '050471', step, now), null);
+
+  // The previous step's code is still within the drift window, but already superseded
+  assert.equal(verifyTotp(RFC_SECRET, '081804', null, now), step! - 1);
+  assert.equal(verifyTotp(RFC_SECRET, '081804', step, now), null);
+  assert.equal(verifyTotp(RFC_SECRET, '050471', step! - 1, now), step);
+});
+
+test('recovery codes are unique, never taken for TOTP codes and hashed as typed back', async () => {
+  const codes = generateRecoveryCodes();
+  assert.equal(codes.length, 10);
+  assert.equal(new Set(codes).size, codes.length);
+  for (const code of codes) {
+    assert.match(code, /^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    assert.equal(looksLikeTotpCode(code), false);
+    assert.equal(hashRecoveryCode(` ${code.toUpperCase().replace('-', ' ')} `), hashRecoveryCode(code));
+  }
+  assert.equal(new Set(codes.map(hashRecoveryCode)).size, codes.length);
+  assert.notEqual(hashRecoveryCode(codes[0]), hashRecoveryCode(codes[1]));
+});
+
+runTests('de doble factor');
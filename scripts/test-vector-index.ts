@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { createVectorIndex } from '../services/vectorIndex';
+import { EMBEDDING, setup } from './tenantFixtures';
+import { runTests, test } from './testRunner';
+
+// Vector index tests
+// Cosine ranking in the index itself and the similar-entry lookup built on it.
+// Run with: npm run test:vectors
+
+test('the vector index returns the closest entries first, within the limit and threshold', async () => {
+  const index = createVectorIndex();
+  index.upsert('same', [2, 0, 0]);
+  index.upsert('close', [1, 1, 0]);
+  index.upsert('far', [0, 0, 1]);
+  index.upsert('opposite', [-1, 0, 0]);
+  index.upsert('zero', [0, 0, 0]);
+  index.upsert('other-size', [1, 0]);
+  assert.equal(index.size, 5);
+
+  const matches = index.search([1, 0, 0], { limit: 3 });
+  assert.deepEqual(matches.map(m => m.id), ['same', 'close', 'far']);
+  assert.ok(Math.abs(matches[0].similarity - 1) < 1e-6);
+  assert.ok(Math.abs(matches[1].similarity - Math.SQRT1_2) < 1e-6);
+
+  assert.deepEqual(index.search([1, 0, 0], { minSimilarity: 0.5 }).map(m => m.id), ['same', 'close']);
+  assert.deepEqual(index.search([1, 0, 0], { filter: id => id !== 'same', limit: 1 }).map(m => m.id), ['close']);
+  assert.deepEqual(index.search([0, 0, 0]), []);
+
+  // Upserting replaces the vector; removing drops it
+  index.upsert('far', [1, 0, 0]);
+  index.remove('same');
+  assert.deepEqual(index.search([1, 0, 0], { limit: 2 }).map(m => m.id), ['far', 'close']);
+});
+
+test('similar entries skip the excluded, deleted and unembedded ones', async () => {
+  const { alice } = await setup();
+  await alice.repo.createEntry('alice-entry-3', 'Otra nota', alice.bookId, 'NOTE', 'Otra nota', 'COMPLETED');
+  await alice.repo.createEntryEmbedding('alice-embedding-3', 'alice-entry-3', [0.4, 0.3, 0.2, 0.1]);
+  const ids = async (options = {}) => (await alice.repo.findSimilarEntries(EMBEDDING, options)).map(e => e.id);
+
+  assert.deepEqual((await ids()).slice(-1), ['alice-entry-3']);
+  assert.deepEqual((await ids({ minSimilarity: 0.99 })).sort(), [alice.entryId, alice.otherEntryId].sort());
+  assert.deepEqual(await ids({ excludeEntryId: alice.entryId, limit: 1 }), [alice.otherEntryId]);
+
+  await alice.repo.deleteEntry(alice.otherEntryId);
+  await alice.repo.deleteEmbeddingByEntryId('alice-entry-3');
+  assert.deepEqual(await ids(), [alice.entryId]);
+
+  await alice.repo.restoreFromTrash('entry', alice.otherEntryId);
+  assert.deepEqual((await ids()).sort(), [alice.entryId, alice.otherEntryId].sort());
+});
+
+runTests('del índice vectorial');
@@ -0,0 +1,31 @@
+// Small test runner shared by the test scripts
+// Tests run one after another, in the order they are declared; a failure is
+// reported and the rest still run. The process exits with 1 if any failed.
+
+const tests: Array<{ name: string; run: () => Promise<void> }> = [];
+
+export function test(name: string, run: () => Promise<void>) {
+  tests.push({ name, run });
+}
+
+// `suite` completes the summary line, e.g. "de aislamiento"
+export async function runTests(suite: string): Promise<void> {
+  let failed = 0;
+  for (const { name, run } of tests) {
+    try {
+      await run();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${name}`);
+      console.error(error);
+    }
+  }
+
+  console.log('');
+  if (failed > 0) {
+    console.error(`${failed} de ${tests.length} pruebas fallaron`);
+    process.exit(1);
+  }
+  console.log(`${tests.length} pruebas ${suite} superadas`);
+}
@@ -0,0 +1,29 @@
+import type { AiApi } from '../services/apiContract';
+import type { User } from '../services/authService';
+
+// AI API for one signed-in user. The AI services are imported on first use
+// and the LLM provider is only set up on the first call, so a server without
+// OPENAI_API_KEY still serves auth and data routes.
+const openaiService = () => import('../services/openaiService');
+
+export function createAiApi(user: User): AiApi {
+  return {
+    analyzeEntry: async (...args) => (await openaiService()).analyzeEntry(...args),
+    analyzeMultiTopicEntry: async (...args) => (await openaiService()).analyzeMultiTopicEntry(...args),
+    detectThreadRelations: async (...args) => (await openaiService()).detectThreadRelations(...args),
+    rewriteTextWithAI: async (text) => (await openaiService()).rewriteTextWithAI(text),
+    generateSummary: async (...args) => (await openaiService()).generateSummary(...args),
+    queryBitacora: async (...args) => (await openaiService()).queryBitacora(...args),
+    generatePersonInteractionSummary: async (personName, entries, refresh) => {
+      if (refresh) {
+        const { invalidateAiCache } = await import('../services/aiCache');
+        await invalidateAiCache(user.id, 'personSummary', personName);
+      }
+      return (await openaiService()).generatePersonInteractionSummary(personName, entries);
+    },
+    postProcessEntry: async (entry) => {
+      const { postProcessEntry } = await import('../services/improvedPipeline');
+      await postProcessEntry(entry.id, entry, user.id);
+    },
+  };
+}
@@ -0,0 +1,343 @@
+import type { ApiErrorBody, ApiErrorCode, NewUserRequest, ProfileUpdates, RegisterRequest, UserAdminUpdate } from '../services/apiContract';
+import {
+  AuthError,
+  type AuthenticatedSession,
+  type SessionDevice,
+  initAuthTables,
+  registerUser,
+  resendVerificationEmail,
+  verifyEmail,
+  requestPasswordReset,
+  resetPassword,
+  revertEmailChange,
+  loginUser,
+  completeTwoFactorLogin,
+  verifySession,
+  refreshSession,
+  logoutUser,
+  getUserById,
+  updateUser,
+  changePassword,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getAllUsers,
+  getUsersUsage,
+  createUserAsAdmin,
+  changeUserRole,
+  setUserActive,
+  setUserAiBudget,
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  resetTwoFactorAsAdmin,
+  listLoginLockouts,
+  clearAccountLockout,
+  clearIpLockout,
+  getAuditLog,
+} from '../services/authService';
+import { CaptureSaveError } from '../services/dataService';
+import { AiResponseError } from '../services/aiSchemas';
+import { BookSharingError, listBookMembers, shareBook, updateBookMember, removeBookMember } from '../services/sharingService';
+import { TaskDelegationError, delegateTask, undelegateTask, listAssignedTasks } from '../services/delegationService';
+import { TenantAccessError, getStorage } from '../services/storage';
+import { AiBudgetExceededError, getAiUsageReport, recordAiRequest, runWithAiUser } from '../services/usageService';
+import { createDataApi } from './dataApi';
+import { createAiApi } from './aiApi';
+
+// HTTP API
+// Framework-free so the same routes run as a Vercel function (api/[...path].ts)
+// and as a plain Node server (server/local.ts). Everything except register,
+// email links, login (both steps) and refresh needs `Authorization: Bearer <access token>`; the user id
+// always comes from that session, never from the request.
+
+export interface ApiRequest {
+  method: string;
+  path: string; // Starts with /api
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+  ip?: string; // Client address, recorded with the session and used for login throttling
+}
+
+export interface ApiResponse {
+  status: number;
+  body?: unknown; // Sent as JSON; no body means 204
+}
+
+// Error with a status and a message that is safe to show to the user
+export class HttpError extends Error {
+  constructor(readonly status: number, readonly code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface RouteContext {
+  params: Record<string, string>;
+  body: unknown;
+  session: AuthenticatedSession;
+  device: SessionDevice;
+}
+
+interface Route {
+  method: string;
+  segments: string[];
+  public?: boolean; // Reachable without a session
+  handler: (context: RouteContext) => Promise<unknown>;
+}
+
+const route = (method: string, path: string, handler: Route['handler'], options: { public?: boolean } = {}): Route => ({
+  method,
+  segments: path.split('/').filter(Boolean),
+  handler,
+  ...options,
+});
+
+// Reads a string field of a JSON body
+function field(body: unknown, name: string): string {
+  const value = body && typeof body === 'object' ? (body as Record<string, unknown>)[name] : undefined;
+  if (typeof value !== 'string') {
+    throw new HttpError(400, 'BAD_REQUEST', `Falta el campo ${name}`);
+  }
+  return value;
+}
+
+// Calls a method of a data or AI API with the positional arguments in body.args
+async function callMethod(api: object, method: string, body: unknown): Promise<unknown> {
+  const fn = Object.prototype.hasOwnProperty.call(api, method) ? (api as Record<string, unknown>)[method] : undefined;
+  if (typeof fn !== 'function') {
+    throw new HttpError(404, 'NOT_FOUND', 'Operación no encontrada');
+  }
+  const args = body && typeof body === 'object' ? (body as { args?: unknown }).args ?? [] : [];
+  if (!Array.isArray(args)) {
+    throw new HttpError(400, 'BAD_REQUEST', 'Argumentos inválidos');
+  }
+  // JSON has no undefined: optional arguments left out by the client arrive as null
+  return fn(...args.map(arg => (arg === null ? undefined : arg)));
+}
+
+const routes: Route[] = [
+  route('POST', '/api/auth/register', async ({ body }) => {
+    const request = body as RegisterRequest;
+    const user = await registerUser(field(body, 'email'), field(body, 'password'), field(body, 'name'), request.locale);
+    return { verificationRequired: true, email: user.email };
+  }, { public: true }),
+  route('POST', '/api/auth/verify-email', async ({ body }) => {
+    await verifyEmail(field(body, 'token'));
+  }, { public: true }),
+  route('POST', '/api/auth/verify-email/resend', async ({ body }) => {
+    await resendVerificationEmail(field(body, 'email'));
+  }, { public: true }),
+  route('POST', '/api/auth/email/revert', async ({ body }) => {
+    await revertEmailChange(field(body, 'token'));
+  }, { public: true }),
+  route('POST', '/api/auth/password-reset', async ({ body }) => {
+    await requestPasswordReset(field(body, 'email'));
+  }, { public: true }),
+  route('POST', '/api/auth/password-reset/confirm', async ({ body }) => {
+    await resetPassword(field(body, 'token'), field(body, 'password'));
+  }, { public: true }),
+  route('POST', '/api/auth/login', ({ body, device }) =>
+    loginUser(field(body, 'email'), field(body, 'password'), device), { public: true }),
+  route('POST', '/api/auth/login/2fa', ({ body, device }) =>
+    completeTwoFactorLogin(field(body, 'challengeToken'), field(body, 'code'), device), { public: true }),
+  route('POST', '/api/auth/refresh', ({ body, device }) =>
+    refreshSession(field(body, 'refreshToken'), device), { public: true }),
+  route('POST', '/api/auth/logout', async ({ session }) => {
+    await logoutUser(session.sessionId);
+  }),
+  route('GET', '/api/auth/session', async ({ session }) => ({ user: session.user })),
+  route('PATCH', '/api/auth/profile', async ({ session, body, device }) => {
+    await updateUser(session.user.id, (body || {}) as ProfileUpdates, device);
+    return { user: await getUserById(session.user.id) };
+  }),
+  route('POST', '/api/auth/password', async ({ session, body, device }) => {
+    await changePassword(session.user.id, field(body, 'oldPassword'), field(body, 'newPassword'), device);
+  }),
+  route('GET', '/api/auth/sessions', ({ session }) => listSessions(session.user.id, session.sessionId)),
+  route('DELETE', '/api/auth/sessions', async ({ session }) =>
+    ({ revoked: await revokeOtherSessions(session.user.id, session.sessionId) })),
+  route('GET', '/api/auth/2fa', ({ session }) => getTwoFactorStatus(session.user.id)),
+  route('POST', '/api/auth/2fa/setup', ({ session }) => beginTwoFactorSetup(session.user.id)),
+  route('POST', '/api/auth/2fa/enable', async ({ session, body, device }) =>
+    ({ recoveryCodes: await enableTwoFactor(session.user.id, field(body, 'code'), device) })),
+  route('POST', '/api/auth/2fa/disable', async ({ session, body, device }) => {
+    await disableTwoFactor(session.user.id, field(body, 'password'), field(body, 'code'), device);
+  }),
+  route('POST', '/api/auth/2fa/recovery-codes', async ({ session, body, device }) =>
+    ({ recoveryCodes: await regenerateRecoveryCodes(session.user.id, field(body, 'code'), device) })),
+  route('DELETE', '/api/auth/sessions/:id', async ({ session, params }) => {
+    await revokeSession(session.user.id, params.id);
+  }),
+
+  route('GET', '/api/admin/users', ({ session }) => getAllUsers(session.user.id)),
+  route('POST', '/api/admin/users', ({ session, body }) => {
+    const request = body as NewUserRequest;
+    return createUserAsAdmin(session.user.id, field(body, 'email'), field(body, 'password'), field(body, 'name'), request.role);
+  }),
+  route('GET', '/api/admin/usage', ({ session }) => getUsersUsage(session.user.id)),
+  route('PATCH', '/api/admin/users/:id', async ({ session, params, body }) => {
+    const update = (body || {}) as UserAdminUpdate;
+    if (update.role !== undefined) {
+      await changeUserRole(session.user.id, params.id, update.role);
+    }
+    if (typeof update.isActive === 'boolean') {
+      await setUserActive(session.user.id, params.id, update.isActive);
+    }
+    if (update.aiMonthlyBudgetUsd !== undefined) {
+      await setUserAiBudget(session.user.id, params.id, update.aiMonthlyBudgetUsd);
+    }
+  }),
+  route('DELETE', '/api/admin/users/:id/2fa', async ({ session, params }) => {
+    await resetTwoFactorAsAdmin(session.user.id, params.id);
+  }),
+  route('GET', '/api/admin/lockouts', ({ session }) => listLoginLockouts(session.user.id)),
+  route('DELETE', '/api/admin/lockouts/account/:id', async ({ session, params }) => {
+    await clearAccountLockout(session.user.id, params.id);
+  }),
+  route('DELETE', '/api/admin/lockouts/ip/:ip', async ({ session, params }) => {
+    await clearIpLockout(session.user.id, params.ip);
+  }),
+  route('GET', '/api/admin/audit', ({ session }) => getAuditLog(session.user.id)),
+
+  route('GET', '/api/books/:id/members', ({ session, params }) => listBookMembers(params.id, session.user.id)),
+  route('POST', '/api/books/:id/members', ({ session, params, body }) =>
+    shareBook(params.id, session.user.id, field(body, 'email'), field(body, 'role'))),
+  route('PATCH', '/api/books/:id/members/:userId', ({ session, params, body }) =>
+    updateBookMember(params.id, session.user.id, params.userId, field(body, 'role'))),
+  route('DELETE', '/api/books/:id/members/:userId', async ({ session, params }) => {
+    await removeBookMember(params.id, session.user.id, params.userId);
+  }),
+
+  route('GET', '/api/usage/ai', ({ session }) => getAiUsageReport(session.user.id)),
+
+  route('GET', '/api/tasks/assigned', ({ session }) => listAssignedTasks(session.user.id)),
+  route('POST', '/api/tasks/:id/delegation', ({ session, params, body }) =>
+    delegateTask(params.id, session.user.id, field(body, 'email'))),
+  route('DELETE', '/api/tasks/:id/delegation', ({ session, params }) => undelegateTask(params.id, session.user.id)),
+
+  route('POST', '/api/data/:method', ({ session, params, body }) =>
+    callMethod(createDataApi(session.user), params.method, body)),
+  route('POST', '/api/ai/:method', async ({ session, params, body }) => {
+    const result = await callMethod(createAiApi(session.user), params.method, body);
+    await recordAiRequest(session.user.id, params.method);
+    return result;
+  }),
+];
+
+function matchRoute(method: string, path: string): { route: Route; params: Record<string, string> } | null {
+  const segments = path.split('/').filter(Boolean);
+  for (const candidate of routes) {
+    if (candidate.method !== method || candidate.segments.length !== segments.length) continue;
+    const params: Record<string, string> = {};
+    const matches = candidate.segments.every((segment, i) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[i]);
+        return true;
+      }
+      return segment === segments[i];
+    });
+    if (matches) return { route: candidate, params };
+  }
+  return null;
+}
+
+function header(headers: ApiRequest['headers'], name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function authenticate(headers: ApiRequest['headers']): Promise<AuthenticatedSession> {
+  const value = header(headers, 'authorization');
+  const token = value?.startsWith('Bearer ') ? value.slice('Bearer '.length).trim() : '';
+  const session = token ? await verifySession(token) : null;
+  if (!session) {
+    throw new HttpError(401, 'UNAUTHORIZED', 'Tu sesión expiró. Vuelve a iniciar sesión.');
+  }
+  return session;
+}
+
+// Schema migrations run once per server process, before the first request
+let schemaReady: Promise<void> | null = null;
+
+function ensureSchema(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = (async () => {
+      await initAuthTables();
+      await (await getStorage()).initDatabase();
+    })().catch(error => {
+      schemaReady = null;
+      throw error;
+    });
+  }
+  return schemaReady;
+}
+
+const AUTH_ERROR_CODES: Record<number, ApiErrorCode> = {
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  429: 'RATE_LIMITED',
+};
+
+// Anything that is not a known, user-facing error is logged and answered with
+// a generic message, so database and provider details never reach the client
+export function toErrorResponse(error: unknown): ApiResponse {
+  const respond = (status: number, code: ApiErrorCode, message: string, retryable?: boolean): ApiResponse => {
+    const body: ApiErrorBody = { error: { code, message, ...(retryable !== undefined ? { retryable } : {}) } };
+    return { status, body };
+  };
+
+  if (error instanceof HttpError) {
+    return respond(error.status, error.code, error.message);
+  }
+  if (error instanceof AuthError) {
+    return respond(error.status, error.code || AUTH_ERROR_CODES[error.status] || 'BAD_REQUEST', error.message);
+  }
+  if (error instanceof BookSharingError || error instanceof TaskDelegationError) {
+    return respond(error.status, AUTH_ERROR_CODES[error.status] || 'BAD_REQUEST', error.message);
+  }
+  if (error instanceof CaptureSaveError) {
+    return respond(error.retryable ? 503 : 409, 'CAPTURE_SAVE_FAILED', error.message, error.retryable);
+  }
+  if (error instanceof AiResponseError) {
+    return respond(error.status, 'AI_INVALID_RESPONSE', error.message);
+  }
+  if (error instanceof AiBudgetExceededError) {
+    return respond(429, 'AI_BUDGET_EXCEEDED', error.message);
+  }
+  if (error instanceof TenantAccessError) {
+    return respond(404, 'NOT_FOUND', 'No encontrado');
+  }
+  console.error('API error:', error);
+  return respond(500, 'INTERNAL', 'Error interno del servidor. Intenta de nuevo.');
+}
+
+export async function handleApiRequest(request: ApiRequest): Promise<ApiResponse> {
+  try {
+    const match = matchRoute(request.method.toUpperCase(), request.path);
+    if (!match) {
+      throw new HttpError(404, 'NOT_FOUND', 'Ruta no encontrada');
+    }
+
+    await ensureSchema();
+    const session = match.route.public ? null : await authenticate(request.headers);
+    const handle = () => match.route.handler({
+      params: match.params,
+      body: request.body,
+      session: session as AuthenticatedSession,
+      device: {
+        userAgent: header(request.headers, 'user-agent')?.slice(0, 512),
+        ipAddress: request.ip,
+      },
+    });
+    // AI calls made while handling the request are charged to its user
+    const result = session ? await runWithAiUser(session.user, handle) : await handle();
+    return { status: 200, body: result };
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,70 @@
+import type { DataApi, RevisionRequest } from '../services/apiContract';
+import type { User } from '../services/authService';
+import * as dataService from '../services/dataService';
+
+// Data API for one signed-in user: dataService bound to the session's user.
+// Revisions are authored by that user, so the client cannot write history in
+// someone else's name.
+export function createDataApi(user: User): DataApi {
+  const userId = user.id;
+  const author: dataService.RevisionAuthor = { id: user.id, name: user.name };
+
+  const withRevision = <T>(revision: RevisionRequest | undefined, change: () => Promise<T>): Promise<T> =>
+    revision
+      ? dataService.withEntryRevision(revision.entryId, userId, author, revision.reason, change)
+      : change();
+
+  return {
+    purgeExpiredTrash: () => dataService.purgeExpiredTrash(userId),
+
+    loadAllBooks: () => dataService.loadAllBooks(userId),
+    loadAllFolders: () => dataService.loadAllFolders(userId),
+    loadAllThreads: () => dataService.loadAllThreads(userId),
+    loadEntriesPage: (scope, cursor, limit) => dataService.loadEntriesPage(userId, scope, cursor, limit),
+    loadEntriesWithOpenTasks: () => dataService.loadEntriesWithOpenTasks(userId),
+    loadEntryStats: (since, timeZone) => dataService.loadEntryStats(userId, since, timeZone),
+
+    saveEntry: (entry, bookName) => dataService.saveEntry(entry, userId, bookName),
+    saveEntries: (capture) => dataService.saveEntries(userId, capture),
+    updateEntryInDb: (entryId, updates, revision) =>
+      withRevision(revision, () => dataService.updateEntryInDb(entryId, userId, updates)),
+    deleteEntryFromDb: (entryId) => dataService.deleteEntryFromDb(entryId, userId),
+
+    updateTaskStatus: (taskId, isDone, completionNotes, revision) =>
+      withRevision(revision, () => dataService.updateTaskStatus(taskId, userId, isDone, completionNotes)),
+    updateTaskFields: (taskId, updates, revision) =>
+      withRevision(revision, () => dataService.updateTaskFields(taskId, userId, updates)),
+    deleteTaskFromDb: (taskId, revision) =>
+      withRevision(revision, () => dataService.deleteTaskFromDb(taskId, userId)),
+
+    searchEntriesInDb: (filters) => dataService.searchEntriesInDb(userId, filters),
+    getRelatedEntriesForEntry: (entryId, limit) => dataService.getRelatedEntriesForEntry(entryId, userId, limit),
+
+    createBook: (id, name, description, folderId) => dataService.createBook(id, userId, name, description, folderId),
+    deleteBook: (id) => dataService.deleteBook(id, userId),
+    updateBookFolder: (bookId, folderId) => dataService.updateBookFolder(bookId, userId, folderId),
+
+    createFolder: (id, name, color) => dataService.createFolder(id, userId, name, color),
+    updateFolder: (id, updates) => dataService.updateFolder(id, userId, updates),
+    deleteFolder: (id) => dataService.deleteFolder(id, userId),
+
+    createThread: (id, title, bookId) => dataService.createThread(id, userId, title, bookId),
+    updateThread: (id, updates) => dataService.updateThread(id, userId, updates),
+    deleteThread: (id) => dataService.deleteThread(id, userId),
+
+    recordEntryRevision: (entryId, reason) => dataService.recordEntryRevision(entryId, userId, author, reason),
+    recordBaselineRevision: (entryId) => dataService.recordBaselineRevision(entryId, userId),
+    getEntryRevisions: (entryId) => dataService.getEntryRevisions(entryId, userId),
+    restoreEntryRevision: (entryId, revisionId) => dataService.restoreEntryRevision(entryId, revisionId, userId, author),
+
+    listEntryComments: (entryId) => dataService.getEntryComments(entryId, userId),
+    addEntryComment: (id, entryId, text) => dataService.addEntryComment(id, entryId, userId, text),
+    deleteEntryComment: (commentId) => dataService.deleteEntryComment(commentId, userId),
+
+    getTrash: () => dataService.getTrash(userId),
+    getTrashRetentionDays: async () => dataService.getTrashRetentionDays(),
+    restoreFromTrash: (type, id) => dataService.restoreFromTrash(type, id, userId),
+    purgeFromTrash: (type, id) => dataService.purgeFromTrash(type, id, userId),
+    emptyTrash: () => dataService.emptyTrash(userId),
+  };
+}
@@ -0,0 +1,50 @@
+import { createServer } from 'http';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Local API server: the same routes as the Vercel functions, on a plain Node
+// http server. `npm run dev` proxies /api here (see vite.config.ts).
+//
+// Usage: npm run dev:api   (API_PORT, default 3001)
+
+// Load .env.local
+const envPath = join(process.cwd(), '.env.local');
+try {
+  const envContent = readFileSync(envPath, 'utf-8');
+  envContent.split('\n').forEach(line => {
+    const match = line.match(/^([^#=]+)=(.*)$/);
+    if (match) {
+      const key = match[1].trim();
+      const value = match[2].trim();
+      if (!process.env[key]) {
+        process.env[key] = value;
+      }
+    }
+  });
+} catch (error) {
+  console.warn('⚠️  No se pudo cargar .env.local');
+}
+
+// Imported after the environment is loaded: the services read it on import
+const { handleNodeRequest } = await import('./node');
+
+const port = Number(process.env.API_PORT) || 3001;
+
+const server = createServer((req, res) => {
+  if (!req.url?.startsWith('/api/')) {
+    res.statusCode = 404;
+    res.end();
+    return;
+  }
+  handleNodeRequest(req, res).catch(error => {
+    console.error('Unhandled API error:', error);
+    if (!res.headersSent) {
+      res.statusCode = 500;
+    }
+    res.end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🚀 API escuchando en http://localhost:${port}/api`);
+});
@@ -0,0 +1,74 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { handleApiRequest, toErrorResponse, HttpError, type ApiResponse } from './api';
+
+// Adapter between Node's http request/response and the API handler.
+// Used by the Vercel function and by the local server.
+
+// Attachments (images, PDFs) travel base64-encoded inside the JSON body
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+// Vercel parses JSON bodies before calling the function; a plain Node server does not
+type NodeRequest = IncomingMessage & { body?: unknown };
+
+async function readJsonBody(req: NodeRequest): Promise<unknown> {
+  if (req.body !== undefined) {
+    return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'BAD_REQUEST', 'La solicitud es demasiado grande');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+// Behind Vercel the socket belongs to its proxy; the client is the first
+// address it forwarded. Elsewhere the header is whatever the client sent, and
+// login throttling must not trust it, so the socket address is used.
+function clientAddress(req: IncomingMessage): string | undefined {
+  if (!process.env.VERCEL) {
+    return req.socket.remoteAddress || undefined;
+  }
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket.remoteAddress || undefined;
+}
+
+function sendResponse(res: ServerResponse, response: ApiResponse): void {
+  res.setHeader('Cache-Control', 'no-store');
+  if (response.body === undefined) {
+    res.statusCode = response.status === 200 ? 204 : response.status;
+    res.end();
+    return;
+  }
+  res.statusCode = response.status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(response.body));
+}
+
+export async function handleNodeRequest(req: NodeRequest, res: ServerResponse): Promise<void> {
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    sendResponse(res, toErrorResponse(
+      error instanceof HttpError ? error : new HttpError(400, 'BAD_REQUEST', 'El cuerpo de la solicitud no es JSON válido')
+    ));
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  sendResponse(res, await handleApiRequest({
+    method: req.method || 'GET',
+    path: url.pathname,
+    headers: req.headers,
+    body,
+    ip: clientAddress(req),
+  }));
+}
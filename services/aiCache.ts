@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import { getRepository } from './repository';
+import { getAiUser } from './usageService';
+
+// AI result cache (server only)
+// Completions and embeddings are kept per user under a hash of the namespace,
+// the model, the prompt template version and the inputs, so identical text is
+// not sent to the model twice. Entries expire after their TTL and can be
+// dropped earlier by namespace and subject (e.g. one person's summary). The
+// cache is only used inside an API request, where the user is known; a cache
+// that cannot be read or written just means calling the model.
+
+export interface AiCacheOptions {
+  namespace: string; // What is cached: an LLM task, or 'embedding'
+  version: number; // Bump when the prompt template changes
+  ttlSeconds: number;
+  subject?: string; // What the result is about, for invalidateAiCache
+}
+
+export const HOUR_SECONDS = 60 * 60;
+export const DAY_SECONDS = 24 * HOUR_SECONDS;
+
+export function aiCacheKey(namespace: string, model: string, version: number, inputs: unknown): string {
+  return createHash('sha256').update(JSON.stringify([namespace, model, version, inputs])).digest('hex');
+}
+
+// Looks every input up and computes only the missing ones, in one call.
+// compute must return one result per input, in order.
+export async function cachedAiResults<I, T>(
+  options: AiCacheOptions,
+  model: string,
+  inputs: I[],
+  compute: (missing: I[]) => Promise<T[]>
+): Promise<T[]> {
+  const userId = getAiUser();
+  if (!userId || inputs.length === 0) {
+    return compute(inputs);
+  }
+
+  const repository = await getRepository(userId);
+  const keys = inputs.map(input => aiCacheKey(options.namespace, model, options.version, input));
+  const found = new Map<string, T>();
+  try {
+    for (const entry of await repository.getAiCacheEntries([...new Set(keys)])) {
+      found.set(entry.key, JSON.parse(entry.value) as T);
+    }
+  } catch (error) {
+    console.error('AI cache read error:', error);
+  }
+
+  const missing: I[] = [];
+  const missingKeys: string[] = [];
+  keys.forEach((key, i) => {
+    if (!found.has(key) && !missingKeys.includes(key)) {
+      missingKeys.push(key);
+      missing.push(inputs[i]);
+    }
+  });
+
+  if (missing.length > 0) {
+    const computed = await compute(missing);
+    missingKeys.forEach((key, i) => found.set(key, computed[i]));
+    // Empty answers make the callers fall back, so they are not kept
+    const entries = missingKeys
+      .map((key, i) => ({ key, value: computed[i] }))
+      .filter(({ value }) => value !== '' && value !== undefined);
+    try {
+      const expiresAt = new Date(Date.now() + options.ttlSeconds * 1000);
+      await repository.saveAiCacheEntries(entries.map(({ key, value }) => ({
+        key,
+        namespace: options.namespace,
+        subject: options.subject,
+        value: JSON.stringify(value),
+        expiresAt,
+      })));
+    } catch (error) {
+      console.error('AI cache write error:', error);
+    }
+  }
+  return keys.map(key => found.get(key) as T);
+}
+
+export async function cachedAiResult<T>(options: AiCacheOptions, model: string, input: unknown, compute: () => Promise<T>): Promise<T> {
+  const [result] = await cachedAiResults(options, model, [input], async () => [await compute()]);
+  return result;
+}
+
+// Drops the user's cached results of a namespace, or only those about subject
+export async function invalidateAiCache(userId: string, namespace: string, subject?: string): Promise<number> {
+  const repository = await getRepository(userId);
+  return repository.deleteAiCacheEntries(namespace, subject);
+}
@@ -1,19 +1,5 @@
-import OpenAI from 'openai';
-import { callOpenAI } from './openaiRateLimiter';
-
-// Get OpenAI API key securely
-function getOpenAIApiKey(): string {
-  const key = import.meta.env.VITE_OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY;
-  if (!key || key === 'your_openai_api_key_here') {
-    throw new Error('OpenAI API key no configurada. Por favor configura VITE_OPENAI_API_KEY en .env.local');
-  }
-  return key;
-}
-
-const openai = new OpenAI({
-  apiKey: getOpenAIApiKey(),
-  dangerouslyAllowBrowser: true,
-});
+import { chat } from './llmProvider';
+import { promptMessages, prompts, renderPrompt } from './prompts';
 
 export type AnalysisStep = 'preprocess' | 'classify' | 'extract' | 'summarize' | 'analyze';
 
@@ -24,7 +10,7 @@ export interface RouteMetadata {
 
 /**
  * Routes analysis steps based on entry characteristics
- * Always uses gpt-4o-mini
+ * Uses the model configured for the 'routing' task
  * Returns array of steps to execute in order
  */
 export async function routeAnalysisSteps(
@@ -70,36 +56,20 @@ export async function routeAnalysisStepsAI(
 ): Promise<AnalysisStep[]> {
   const { length, hasAttachment } = metadata;
   
-  const prompt = `Analiza este texto y determina qué pasos de análisis necesita:
-
-Texto (${length === 'short' ? 'corto' : 'largo'}):
-"${text.slice(0, 500)}"
-
-Tiene adjunto: ${hasAttachment ? 'Sí' : 'No'}
-
-Pasos disponibles:
-- preprocess: Limpieza y normalización básica
-- classify: Clasificar tipo de nota y asignar libreta
-- extract: Extraer tareas, decisiones, entidades
-- analyze: Análisis profundo de temas y relaciones
-- summarize: Generar resumen
-
-Responde SOLO con un JSON array de los pasos necesarios en orden, por ejemplo:
-["preprocess", "classify", "extract", "summarize"]`;
+  const prompt = renderPrompt(prompts.routing, {
+    text: text.slice(0, 500),
+    isShort: length === 'short',
+    hasAttachment,
+  });
 
   try {
-    const response = await callOpenAI(() => openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: 'Eres un router inteligente que determina qué pasos de análisis necesita un texto. Responde solo con JSON.' },
-        { role: 'user', content: prompt }
-      ],
-      response_format: { type: 'json_object' },
+    const content = await chat({
+      task: 'routing',
+      messages: promptMessages(prompt),
+      json: true,
       temperature: 0.3,
-      max_tokens: 200,
-    }));
-
-    const content = response.choices[0]?.message?.content;
+      maxTokens: 200,
+    });
     if (!content) {
       // Fallback to rule-based
       return routeAnalysisSteps(text, metadata);
@@ -0,0 +1,348 @@
+import { EntityType, NoteType, TaskPriority } from '../types';
+import { DEFAULT_LOCALE, translate, type Locale } from './i18n';
+
+// Runtime schemas for AI responses (server only)
+// Model output is untrusted input. Each schema coerces what can be read
+// unambiguously (numbers sent as strings, "task" for "TASK", dates with a
+// time, text that is too long) and reports everything else as an issue, with
+// the path of the field. The issues are sent back to the model to repair its
+// answer (see chatJson in llmProvider.ts), and are the reason kept on the
+// entry when it still cannot be read; their wording, in the user's language,
+// is in the schemaIssues prompt.
+
+export type SchemaIssueKind =
+  | 'required'
+  | 'notText'
+  | 'notOneOf'
+  | 'notNumber'
+  | 'notBoolean'
+  | 'notDate'
+  | 'notList'
+  | 'notObject'
+  | 'notJson'
+  | 'empty';
+
+// `path` is empty for the answer as a whole
+export interface SchemaIssue {
+  path: string;
+  kind: SchemaIssueKind;
+  value?: string; // The value found, for notOneOf and notDate
+  allowed?: string; // The values accepted, for notOneOf
+}
+
+export type Schema<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+// `issues` are already worded in `locale`
+export class AiResponseError extends Error {
+  readonly status = 502;
+
+  constructor(readonly task: string, readonly issues: string[], locale: Locale = DEFAULT_LOCALE) {
+    super(translate(locale, 'ai.invalidResponse', { issues: issues.slice(0, 5).join('; ') }));
+    this.name = 'AiResponseError';
+  }
+}
+
+// Validates a parsed response; returns the coerced value or the list of issues
+export function validate<T>(schema: Schema<T>, value: unknown): { value: T; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  const result = schema(value, '', issues);
+  return { value: result, issues };
+}
+
+function at(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isMissing(value: unknown): value is null | undefined | '' {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+interface FieldOptions<T> {
+  // Used when the field is missing; without it a missing field is an issue
+  fallback?: T;
+}
+
+export function text(options: FieldOptions<string> & { max?: number } = {}): Schema<string> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      if (options.fallback === undefined) issues.push({ path, kind: 'required' });
+      return options.fallback ?? '';
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      issues.push({ path, kind: 'notText' });
+      return options.fallback ?? '';
+    }
+    const result = String(value).trim();
+    return options.max ? result.slice(0, options.max) : result;
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[], options: FieldOptions<T> = {}): Schema<T> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      if (options.fallback === undefined) issues.push({ path, kind: 'required' });
+      return options.fallback ?? values[0];
+    }
+    const match = typeof value === 'string'
+      ? values.find(v => v.toLowerCase() === value.trim().toLowerCase())
+      : undefined;
+    if (!match) {
+      issues.push({ path, kind: 'notOneOf', value: String(value), allowed: values.join(', ') });
+      return options.fallback ?? values[0];
+    }
+    return match;
+  };
+}
+
+export function num(options: FieldOptions<number> & { min?: number; max?: number } = {}): Schema<number> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      if (options.fallback === undefined) issues.push({ path, kind: 'required' });
+      return options.fallback ?? 0;
+    }
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+    if (!Number.isFinite(parsed)) {
+      issues.push({ path, kind: 'notNumber' });
+      return options.fallback ?? 0;
+    }
+    return Math.min(options.max ?? Infinity, Math.max(options.min ?? -Infinity, parsed));
+  };
+}
+
+export function bool(options: FieldOptions<boolean> = {}): Schema<boolean> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      if (options.fallback === undefined) issues.push({ path, kind: 'required' });
+      return options.fallback ?? false;
+    }
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    issues.push({ path, kind: 'notBoolean' });
+    return options.fallback ?? false;
+  };
+}
+
+// A calendar date as YYYY-MM-DD; dates with a time are cut to the day
+export function isoDate(): Schema<string | undefined> {
+  return (value, path, issues) => {
+    if (isMissing(value)) return undefined;
+    const match = typeof value === 'string' ? /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(value.trim()) : null;
+    if (match) {
+      const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+      const date = new Date(Date.UTC(year, month - 1, day));
+      if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+        return date.toISOString().slice(0, 10);
+      }
+    }
+    issues.push({ path, kind: 'notDate', value: String(value) });
+    return undefined;
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => (isMissing(value) ? undefined : schema(value, path, issues));
+}
+
+export function list<T>(item: Schema<T>, options: FieldOptions<T[]> & { max?: number } = {}): Schema<T[]> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      if (options.fallback === undefined) issues.push({ path, kind: 'required' });
+      return options.fallback ?? [];
+    }
+    if (!Array.isArray(value)) {
+      issues.push({ path, kind: 'notList' });
+      return options.fallback ?? [];
+    }
+    return value.slice(0, options.max).map((v, i) => item(v, at(path, i), issues));
+  };
+}
+
+export function object<T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path, issues) => {
+    const source = value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? value as Record<string, unknown>
+      : undefined;
+    if (!source) {
+      issues.push({ path, kind: 'notObject' });
+    }
+    const result = {} as T;
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const field = shape[key](source?.[key], at(path, key), issues);
+      if (field !== undefined) result[key] = field;
+    }
+    return result;
+  };
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+const NOTE_TYPES = Object.values(NoteType);
+const ENTITY_TYPES = Object.values(EntityType);
+const PRIORITIES = Object.values(TaskPriority);
+
+const extractedTask = object<{ description: string; assignee?: string; dueDate?: string; priority: string }>({
+  description: text({ max: 500 }),
+  assignee: optional(text({ max: 100 })),
+  dueDate: isoDate(),
+  priority: oneOf(PRIORITIES, { fallback: TaskPriority.MEDIUM }),
+});
+
+const entity = object<{ name: string; type: string }>({
+  name: text({ max: 100 }),
+  type: oneOf(ENTITY_TYPES, { fallback: EntityType.TOPIC }),
+});
+
+// analyzeEntry (OpenAIResponse)
+export const entryAnalysisSchema = object<{
+  targetBookName: string;
+  type: NoteType;
+  summary: string;
+  tasks: Array<{ description: string; assignee?: string; dueDate?: string; priority: string }>;
+  entities: Array<{ name: string; type: string }>;
+  suggestedPriority: 'LOW' | 'MEDIUM' | 'HIGH';
+}>({
+  targetBookName: text({ max: 100, fallback: 'Bandeja de Entrada' }),
+  type: oneOf(NOTE_TYPES),
+  summary: text({ max: 2000, fallback: '' }),
+  tasks: list(extractedTask, { max: 20, fallback: [] }),
+  entities: list(entity, { max: 50, fallback: [] }),
+  suggestedPriority: oneOf(['LOW', 'MEDIUM', 'HIGH'] as const, { fallback: 'MEDIUM' }),
+});
+
+// Task actions are matched to pending tasks afterwards (resolveTaskActions)
+export const taskActionSchema = object<{ action: 'complete' | 'update'; taskId?: string; taskDescription?: string; completionNotes?: string }>({
+  action: oneOf(['complete', 'update'] as const),
+  taskId: optional(text({ max: 100 })),
+  taskDescription: optional(text({ max: 500 })),
+  completionNotes: optional(text({ max: 500 })),
+});
+
+export const topicEntrySchema = object<{
+  targetBookName: string;
+  isNewBook: boolean;
+  type: NoteType;
+  content: string;
+  summary: string;
+  tasks: Array<{ description: string; assignee?: string; dueDate?: string; priority: string }>;
+  entities: Array<{ name: string; type: string }>;
+  taskActions: Array<{ action: 'complete' | 'update'; taskId?: string; taskDescription?: string; completionNotes?: string }>;
+}>({
+  targetBookName: text({ max: 100, fallback: 'Bandeja de Entrada' }),
+  isNewBook: bool({ fallback: false }),
+  type: oneOf(NOTE_TYPES),
+  content: text({ max: 2000 }),
+  summary: text({ max: 1000, fallback: '' }),
+  tasks: list(extractedTask, { max: 10, fallback: [] }),
+  entities: list(entity, { max: 20, fallback: [] }),
+  taskActions: list(taskActionSchema, { max: 10, fallback: [] }),
+});
+
+export const multiTopicAnalysisSchema = object<{
+  isMultiTopic: boolean;
+  overallContext: string;
+  suggestedPriority: 'LOW' | 'MEDIUM' | 'HIGH';
+  topics: Array<ReturnType<typeof topicEntrySchema>>;
+}>({
+  isMultiTopic: bool({ fallback: false }),
+  overallContext: text({ max: 500, fallback: 'Nota procesada' }),
+  suggestedPriority: oneOf(['LOW', 'MEDIUM', 'HIGH'] as const, { fallback: 'MEDIUM' }),
+  topics: list(topicEntrySchema),
+});
+
+// Steps of the reorganized pipeline (improvedPipeline.ts)
+export const topicsSchema = object<{ topics: string[] }>({
+  topics: list(text({ max: 100 }), { max: 5, fallback: [] }),
+});
+
+export const tasksSchema = object<{ tasks: Array<{ description: string; assignee?: string; dueDate?: string; priority: string }> }>({
+  tasks: list(extractedTask, { max: 20, fallback: [] }),
+});
+
+export const decisionsSchema = object<{ decisions: string[] }>({
+  decisions: list(text({ max: 500 }), { max: 20, fallback: [] }),
+});
+
+export const notebookSchema = object<{ targetBookName: string; isNewBook: boolean }>({
+  targetBookName: text({ max: 100, fallback: 'Bandeja de Entrada' }),
+  isNewBook: bool({ fallback: false }),
+});
+
+export const threadRelationSchema = object<{
+  hasRelation: boolean;
+  relatedThreadId?: string;
+  relatedEntryIds: string[];
+  confidence: number;
+  suggestedThreadTitle?: string;
+  reason: string;
+}>({
+  hasRelation: bool(),
+  relatedThreadId: optional(text({ max: 100 })),
+  relatedEntryIds: list(text({ max: 100 }), { max: 20, fallback: [] }),
+  confidence: num({ min: 0, max: 100 }),
+  suggestedThreadTitle: optional(text({ max: 200 })),
+  reason: text({ max: 500, fallback: '' }),
+});
+
+export const matchResultSchema = object<{
+  shouldUpdate: boolean;
+  entryToUpdate?: { id: string; summary: string; type: string };
+  taskToUpdate?: { taskId: string };
+  confidence: number;
+  reason: string;
+  completionNotes?: string;
+}>({
+  shouldUpdate: bool(),
+  entryToUpdate: optional(object({
+    id: text({ max: 100 }),
+    summary: text({ max: 1000, fallback: '' }),
+    type: text({ max: 20, fallback: '' }),
+  })),
+  taskToUpdate: optional(object({ taskId: text({ max: 100 }) })),
+  confidence: num({ min: 0, max: 100 }),
+  reason: text({ max: 500, fallback: '' }),
+  completionNotes: optional(text({ max: 500 })),
+});
+
+const documentInsight = object<{
+  type: 'task' | 'risk' | 'duplicate' | 'deadline' | 'related' | 'update';
+  title: string;
+  description: string;
+  action?: { type: 'create_task' | 'update_task' | 'create_entry' | 'update_entry' | 'link_entry'; data?: any };
+  relatedEntries?: Array<{ id: string; summary: string; bookName: string }>;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH';
+}>({
+  type: oneOf(['task', 'risk', 'duplicate', 'deadline', 'related', 'update'] as const),
+  title: text({ max: 200 }),
+  description: text({ max: 1000, fallback: '' }),
+  action: optional(object({
+    type: oneOf(['create_task', 'update_task', 'create_entry', 'update_entry', 'link_entry'] as const),
+    data: (value: unknown) => value,
+  })),
+  relatedEntries: optional(list(object({
+    id: text({ max: 100 }),
+    summary: text({ max: 1000, fallback: '' }),
+    bookName: text({ max: 100, fallback: '' }),
+  }), { max: 10 })),
+  priority: oneOf(['LOW', 'MEDIUM', 'HIGH'] as const, { fallback: 'MEDIUM' }),
+});
+
+export const documentAnalysisSchema = object<{
+  insights: Array<ReturnType<typeof documentInsight>>;
+  summary: string;
+  detectedTasks: Array<{ description: string; assignee?: string; dueDate?: string; priority: string }>;
+  detectedRisks: string[];
+  relatedTopics: string[];
+}>({
+  insights: list(documentInsight, { max: 20, fallback: [] }),
+  summary: text({ max: 2000, fallback: '' }),
+  detectedTasks: list(extractedTask, { max: 20, fallback: [] }),
+  detectedRisks: list(text({ max: 500 }), { max: 20, fallback: [] }),
+  relatedTopics: list(text({ max: 100 }), { max: 20, fallback: [] }),
+});
@@ -0,0 +1,233 @@
+import type {
+  AiApi,
+  AiUsageReport,
+  ApiErrorBody,
+  ApiErrorCode,
+  AuditEvent,
+  AuthResponse,
+  BookMemberInvite,
+  DataApi,
+  LoginLockout,
+  LoginResponse,
+  ManagedUser,
+  NewUserRequest,
+  PendingVerification,
+  ProfileUpdates,
+  SessionInfo,
+  SessionTokens,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  User,
+  UserAdminUpdate,
+  UserUsage,
+} from './apiContract';
+import type { AssignedTask, BookMember, TaskItem } from '../types';
+import type { Locale } from './i18n';
+
+// Browser client for the API server (server/api.ts)
+// The only way the app reaches the database or the AI provider: every call
+// carries the session's access token and the server decides which user it acts for.
+// Access tokens are short-lived; when one is rejected the client trades the
+// refresh token for a new pair and retries the call once.
+
+const AUTH_TOKEN_KEY = 'bitacora_auth_token';
+const REFRESH_TOKEN_KEY = 'bitacora_refresh_token';
+
+// Failed API call. The message can be shown to the user as is.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+}
+
+export function setAuthTokens(tokens: SessionTokens | null): void {
+  if (tokens) {
+    localStorage.setItem(AUTH_TOKEN_KEY, tokens.accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+}
+
+// Called when the server rejects the stored session (expired or revoked)
+let unauthorizedHandler: (() => void) | null = null;
+
+export function onUnauthorized(handler: (() => void) | null): void {
+  unauthorizedHandler = handler;
+}
+
+function connectionError(): ApiError {
+  return new ApiError('No se pudo conectar con el servidor. Revisa tu conexión.', 0, 'INTERNAL', true);
+}
+
+function toApiError(response: Response, payload: unknown): ApiError {
+  const error = (payload as ApiErrorBody | null)?.error;
+  return new ApiError(
+    error?.message || 'Error del servidor. Intenta de nuevo.',
+    response.status,
+    error?.code || 'INTERNAL',
+    error?.retryable ?? response.status >= 500
+  );
+}
+
+// Returns false when the session is gone; other failures throw and keep the tokens
+async function renewTokens(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+
+  let response: Response;
+  try {
+    response = await fetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+  } catch (error) {
+    throw connectionError();
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (response.ok) {
+    setAuthTokens((payload as AuthResponse).tokens);
+    return true;
+  }
+  if (response.status !== 401) {
+    throw toApiError(response, payload);
+  }
+  // Another tab may have rotated the tokens first
+  return localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken;
+}
+
+// Concurrent calls that hit an expired access token share one refresh
+let renewing: Promise<boolean> | null = null;
+
+function renewSession(): Promise<boolean> {
+  if (!renewing) {
+    renewing = renewTokens().finally(() => {
+      renewing = null;
+    });
+  }
+  return renewing;
+}
+
+async function request<T>(method: string, path: string, body?: unknown, retry = true): Promise<T> {
+  const token = getAuthToken();
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  let response: Response;
+  try {
+    response = await fetch(`/api${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    throw connectionError();
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = toApiError(response, payload);
+    if (error.code === 'UNAUTHORIZED' && token) {
+      // A newer token (from another call or tab) may already be stored
+      if (retry && (getAuthToken() !== token || await renewSession())) {
+        return request<T>(method, path, body, false);
+      }
+      setAuthTokens(null);
+      unauthorizedHandler?.();
+    }
+    throw error;
+  }
+  return payload as T;
+}
+
+// Client for a POST /api/<namespace>/<method> API: each method sends its arguments as { args }
+function methodClient<T extends object>(namespace: 'data' | 'ai'): T {
+  return new Proxy({} as T, {
+    get: (_, method) => typeof method === 'string'
+      ? (...args: unknown[]) => request('POST', `/${namespace}/${method}`, { args })
+      : undefined,
+  });
+}
+
+export const api = {
+  auth: {
+    register: (email: string, password: string, name: string, locale?: Locale) =>
+      request<PendingVerification>('POST', '/auth/register', { email, password, name, locale }),
+    verifyEmail: (token: string) => request<void>('POST', '/auth/verify-email', { token }),
+    resendVerificationEmail: (email: string) => request<void>('POST', '/auth/verify-email/resend', { email }),
+    revertEmailChange: (token: string) => request<void>('POST', '/auth/email/revert', { token }),
+    requestPasswordReset: (email: string) => request<void>('POST', '/auth/password-reset', { email }),
+    resetPassword: (token: string, password: string) =>
+      request<void>('POST', '/auth/password-reset/confirm', { token, password }),
+    login: (email: string, password: string) =>
+      request<LoginResponse>('POST', '/auth/login', { email, password }),
+    completeTwoFactorLogin: (challengeToken: string, code: string) =>
+      request<AuthResponse>('POST', '/auth/login/2fa', { challengeToken, code }),
+    logout: () => request<void>('POST', '/auth/logout'),
+    getSession: () => request<{ user: User }>('GET', '/auth/session'),
+    updateProfile: (updates: ProfileUpdates) => request<{ user: User }>('PATCH', '/auth/profile', updates),
+    changePassword: (oldPassword: string, newPassword: string) =>
+      request<void>('POST', '/auth/password', { oldPassword, newPassword }),
+    listSessions: () => request<SessionInfo[]>('GET', '/auth/sessions'),
+    revokeSession: (sessionId: string) => request<void>('DELETE', `/auth/sessions/${encodeURIComponent(sessionId)}`),
+    revokeOtherSessions: () => request<{ revoked: number }>('DELETE', '/auth/sessions'),
+  },
+  twoFactor: {
+    getStatus: () => request<TwoFactorStatus>('GET', '/auth/2fa'),
+    setup: () => request<TwoFactorSetup>('POST', '/auth/2fa/setup'),
+    enable: (code: string) => request<{ recoveryCodes: string[] }>('POST', '/auth/2fa/enable', { code }),
+    disable: (password: string, code: string) => request<void>('POST', '/auth/2fa/disable', { password, code }),
+    regenerateRecoveryCodes: (code: string) =>
+      request<{ recoveryCodes: string[] }>('POST', '/auth/2fa/recovery-codes', { code }),
+  },
+  admin: {
+    listUsers: () => request<ManagedUser[]>('GET', '/admin/users'),
+    createUser: (user: NewUserRequest) => request<User>('POST', '/admin/users', user),
+    updateUser: (userId: string, update: UserAdminUpdate) =>
+      request<void>('PATCH', `/admin/users/${encodeURIComponent(userId)}`, update),
+    listUsage: () => request<UserUsage[]>('GET', '/admin/usage'),
+    resetTwoFactor: (userId: string) => request<void>('DELETE', `/admin/users/${encodeURIComponent(userId)}/2fa`),
+    listLockouts: () => request<LoginLockout[]>('GET', '/admin/lockouts'),
+    clearLockout: (lockout: Pick<LoginLockout, 'scope' | 'key'>) =>
+      request<void>('DELETE', `/admin/lockouts/${lockout.scope}/${encodeURIComponent(lockout.key)}`),
+    listAuditEvents: () => request<AuditEvent[]>('GET', '/admin/audit'),
+  },
+  sharing: {
+    listMembers: (bookId: string) => request<BookMember[]>('GET', `/books/${encodeURIComponent(bookId)}/members`),
+    addMember: (bookId: string, invite: BookMemberInvite) =>
+      request<BookMember[]>('POST', `/books/${encodeURIComponent(bookId)}/members`, invite),
+    updateMember: (bookId: string, userId: string, role: BookMemberInvite['role']) =>
+      request<BookMember[]>('PATCH', `/books/${encodeURIComponent(bookId)}/members/${encodeURIComponent(userId)}`, { role }),
+    removeMember: (bookId: string, userId: string) =>
+      request<void>('DELETE', `/books/${encodeURIComponent(bookId)}/members/${encodeURIComponent(userId)}`),
+  },
+  usage: {
+    ai: () => request<AiUsageReport>('GET', '/usage/ai'),
+  },
+  delegation: {
+    listAssigned: () => request<AssignedTask[]>('GET', '/tasks/assigned'),
+    delegate: (taskId: string, email: string) =>
+      request<TaskItem>('POST', `/tasks/${encodeURIComponent(taskId)}/delegation`, { email }),
+    undelegate: (taskId: string) => request<TaskItem>('DELETE', `/tasks/${encodeURIComponent(taskId)}/delegation`),
+  },
+  data: methodClient<DataApi>('data'),
+  ai: methodClient<AiApi>('ai'),
+};
@@ -0,0 +1,218 @@
+import type {
+  Book,
+  BookMemberRole,
+  Entry,
+  EntryComment,
+  EntryPage,
+  EntryRevision,
+  EntryScope,
+  EntryStats,
+  Folder,
+  NoteType,
+  SearchResult,
+  Thread,
+  TrashItem,
+  TrashItemType,
+} from '../types';
+import type {
+  User,
+  ManagedUser,
+  LoginLockout,
+  SessionInfo,
+  SessionTokens,
+  PendingVerification,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from './authService';
+import type { AuditEvent } from './auditLog';
+import type { AiUsageReport, UserUsage } from './usageService';
+import type { UserRole } from './permissions';
+import type { Capture, CaptureTopic } from './dataService';
+import type { Locale } from './i18n';
+import type * as openaiService from './openaiService';
+
+// API contract shared by the server (server/) and the browser client (services/apiClient.ts).
+// Types only: importing this module never pulls server code into the bundle.
+//
+// Auth, sharing and delegation routes are REST-style under /api/auth, /api/admin,
+// /api/books/:id/members and /api/tasks. Data and AI calls are
+// POST /api/data/<method> and POST /api/ai/<method> with { args: [...] }; the server
+// adds the signed-in user, so no method takes a user id.
+
+// Answer to refresh and a completed login
+export interface AuthResponse {
+  user: User;
+  tokens: SessionTokens;
+}
+
+// A password login answers with a challenge instead when the account has 2FA on
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  name: string;
+  locale?: Locale; // Spanish by default
+}
+
+export interface ProfileUpdates {
+  name?: string;
+  email?: string;
+  gender?: 'male' | 'female' | 'other';
+  locale?: Locale;
+  // Asked for when the email changes; code only when 2FA is on
+  currentPassword?: string;
+  code?: string;
+}
+
+export interface NewUserRequest {
+  email: string;
+  password: string;
+  name: string;
+  role?: UserRole; // member by default
+}
+
+// Invitation to a book the signed-in user owns; the invitee needs an active account
+export interface BookMemberInvite {
+  email: string;
+  role: BookMemberRole;
+}
+
+// Changes an admin makes to another user; omitted fields stay as they are
+export interface UserAdminUpdate {
+  role?: UserRole;
+  isActive?: boolean;
+  aiMonthlyBudgetUsd?: number | null; // null goes back to the default budget
+}
+
+// Body of every error response
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string; // Safe to show to the user
+    retryable?: boolean;
+  };
+}
+
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED' // Missing, expired or revoked session
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'EMAIL_NOT_VERIFIED' // Correct password, but the account's email is not confirmed yet
+  | 'RATE_LIMITED' // Too many failed logins: wait, or the account or IP is locked for a while
+  | 'CAPTURE_SAVE_FAILED'
+  | 'AI_INVALID_RESPONSE' // The AI answer did not match its schema, even after asking for a repair
+  | 'AI_BUDGET_EXCEEDED' // An optional AI step was skipped because the monthly budget is spent
+  | 'INTERNAL';
+
+// Records the entry's state in its history around a change (see dataService.withEntryRevision)
+export interface RevisionRequest {
+  entryId: string;
+  reason: string;
+}
+
+export interface DataApi {
+  purgeExpiredTrash(): Promise<void>;
+
+  loadAllBooks(): Promise<Book[]>;
+  loadAllFolders(): Promise<Folder[]>;
+  loadAllThreads(): Promise<Thread[]>;
+  loadEntriesPage(scope?: EntryScope, cursor?: string | null, limit?: number): Promise<EntryPage>;
+  loadEntriesWithOpenTasks(): Promise<Entry[]>;
+  loadEntryStats(since?: number, timeZone?: string): Promise<EntryStats>;
+
+  saveEntry(entry: Entry, bookName: string): Promise<Entry>;
+  saveEntries(capture: Capture): Promise<Entry[]>;
+  updateEntryInDb(
+    entryId: string,
+    updates: { summary?: string; type?: NoteType; threadId?: string | null; aiRewrittenText?: string | null },
+    revision?: RevisionRequest
+  ): Promise<void>;
+  deleteEntryFromDb(entryId: string): Promise<void>;
+
+  updateTaskStatus(taskId: string, isDone: boolean, completionNotes?: string, revision?: RevisionRequest): Promise<void>;
+  updateTaskFields(
+    taskId: string,
+    updates: { assignee?: string; dueDate?: string; priority?: string; description?: string },
+    revision?: RevisionRequest
+  ): Promise<void>;
+  deleteTaskFromDb(taskId: string, revision?: RevisionRequest): Promise<void>;
+
+  searchEntriesInDb(filters: {
+    query?: string;
+    bookId?: string;
+    type?: NoteType;
+    dateFrom?: string;
+    dateTo?: string;
+    assignee?: string;
+  }): Promise<SearchResult[]>;
+  getRelatedEntriesForEntry(entryId: string, limit?: number): Promise<Array<{ entry: Entry; relation: { strength: number } }>>;
+
+  createBook(id: string, name: string, description?: string, folderId?: string): Promise<Book>;
+  deleteBook(id: string): Promise<void>;
+  updateBookFolder(bookId: string, folderId: string | null): Promise<void>;
+
+  createFolder(id: string, name: string, color?: string): Promise<Folder>;
+  updateFolder(id: string, updates: { name?: string; color?: string }): Promise<void>;
+  deleteFolder(id: string): Promise<void>;
+
+  createThread(id: string, title: string, bookId: string): Promise<Thread>;
+  updateThread(id: string, updates: { title?: string }): Promise<void>;
+  deleteThread(id: string): Promise<void>;
+
+  // Revisions are authored by the signed-in user
+  recordEntryRevision(entryId: string, reason?: string): Promise<EntryRevision | null>;
+  recordBaselineRevision(entryId: string): Promise<void>;
+  getEntryRevisions(entryId: string): Promise<EntryRevision[]>;
+  restoreEntryRevision(entryId: string, revisionId: string): Promise<Entry>;
+
+  // Comments on entries of shared books, by the signed-in user
+  listEntryComments(entryId: string): Promise<EntryComment[]>;
+  addEntryComment(id: string, entryId: string, text: string): Promise<EntryComment>;
+  deleteEntryComment(commentId: string): Promise<void>;
+
+  getTrash(): Promise<TrashItem[]>;
+  getTrashRetentionDays(): Promise<number>;
+  restoreFromTrash(type: TrashItemType, id: string): Promise<void>;
+  purgeFromTrash(type: TrashItemType, id: string): Promise<void>;
+  emptyTrash(): Promise<void>;
+}
+
+export interface AiApi {
+  analyzeEntry: typeof openaiService.analyzeEntry;
+  analyzeMultiTopicEntry: typeof openaiService.analyzeMultiTopicEntry;
+  detectThreadRelations: typeof openaiService.detectThreadRelations;
+  rewriteTextWithAI: typeof openaiService.rewriteTextWithAI;
+  generateSummary: typeof openaiService.generateSummary;
+  queryBitacora: typeof openaiService.queryBitacora;
+  // Cached per user; refresh drops the cached summary of that person first
+  generatePersonInteractionSummary(
+    personName: string,
+    entries: Parameters<typeof openaiService.generatePersonInteractionSummary>[1],
+    refresh?: boolean
+  ): Promise<string>;
+  // Embedding and related-entry detection for a saved entry
+  postProcessEntry(entry: Entry): Promise<void>;
+}
+
+// Re-exported so the client never names a server module
+export type {
+  User,
+  SessionInfo,
+  SessionTokens,
+  PendingVerification,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  ManagedUser,
+  LoginLockout,
+  AuditEvent,
+  UserUsage,
+  AiUsageReport,
+  UserRole,
+  Capture,
+  CaptureTopic,
+};
@@ -0,0 +1,81 @@
+import { neon } from '@neondatabase/serverless';
+import { getServerEnv } from './env';
+
+// Security audit trail (server only)
+// Append-only log of account security and user management events. Writing
+// never fails the action being audited: errors are logged and the action goes on.
+
+const databaseUrl = getServerEnv('NEON_DATABASE_URL');
+const sql = databaseUrl ? neon(databaseUrl) : null;
+
+export type AuditEventType =
+  | 'account_locked' // Too many failed logins for one account
+  | 'ip_locked' // Too many failed logins from one address
+  | 'lockout_cleared' // An admin lifted an account or address lockout
+  | 'role_changed' // details: { from, to }
+  | 'user_deactivated'
+  | 'user_reactivated'
+  | 'email_changed' // details: { from, to }
+  | 'email_reverted' // From the link sent to the old address; details: { to }
+  | 'ai_budget_changed'; // details: { from, to }, in USD; null is the default budget
+
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  userId?: string;
+  userEmail?: string;
+  actorId?: string; // Who performed the action, when it was not the user
+  actorEmail?: string;
+  ipAddress?: string;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface NewAuditEvent {
+  type: AuditEventType;
+  userId?: string;
+  actorId?: string;
+  ipAddress?: string;
+  details?: Record<string, unknown>;
+}
+
+export async function recordAuditEvent(event: NewAuditEvent): Promise<void> {
+  if (!sql) return;
+  try {
+    await sql`
+      INSERT INTO audit_log (id, event, user_id, actor_id, ip_address, details)
+      VALUES (
+        ${crypto.randomUUID()}, ${event.type}, ${event.userId || null}, ${event.actorId || null},
+        ${event.ipAddress || null}, ${event.details ? JSON.stringify(event.details) : null}
+      )
+    `;
+  } catch (error) {
+    console.error('Audit log error:', error, event);
+  }
+}
+
+// Most recent events first. Callers check that the requester is an admin.
+export async function listAuditEvents(limit: number = 100): Promise<AuditEvent[]> {
+  if (!sql) return [];
+  const result = await sql`
+    SELECT a.id, a.event, a.user_id, a.actor_id, a.ip_address, a.details, a.created_at,
+      u.email AS user_email, actor.email AS actor_email
+    FROM audit_log a
+    LEFT JOIN users u ON u.id = a.user_id
+    LEFT JOIN users actor ON actor.id = a.actor_id
+    ORDER BY a.created_at DESC
+    LIMIT ${Math.min(Math.max(limit, 1), 500)}
+  `;
+
+  return result.map((row: any) => ({
+    id: row.id,
+    type: row.event,
+    userId: row.user_id || undefined,
+    userEmail: row.user_email || undefined,
+    actorId: row.actor_id || undefined,
+    actorEmail: row.actor_email || undefined,
+    ipAddress: row.ip_address || undefined,
+    details: row.details || undefined,
+    createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at),
+  }));
+}
@@ -1,23 +1,34 @@
 import { neon } from '@neondatabase/serverless';
-
-// Get database URL
-function getDatabaseUrl(): string | undefined {
-  if (typeof process !== 'undefined' && process.env?.VITE_NEON_DATABASE_URL) {
-    return process.env.VITE_NEON_DATABASE_URL;
-  }
-  try {
-    // @ts-ignore - import.meta is available in Vite
-    if (import.meta?.env?.VITE_NEON_DATABASE_URL) {
-      // @ts-ignore
-      return import.meta.env.VITE_NEON_DATABASE_URL;
-    }
-  } catch (e) {
-    // Ignore
-  }
-  return undefined;
-}
-
-const databaseUrl = getDatabaseUrl();
+import { createHash } from 'crypto';
+import { runPendingMigrations } from './migrator';
+import { getServerEnv } from './env';
+import { sendMail } from './mailService';
+import { recordAuditEvent, listAuditEvents, type AuditEvent } from './auditLog';
+import { DUMMY_PASSWORD_HASH, hashPassword, verifyPassword } from './passwordHash';
+import type { ApiErrorCode } from './apiContract';
+import { canAssignRole, canManageUser, hasPermission, isUserRole, type Permission, type UserRole } from './permissions';
+import { listUserUsage, setAiMonthlyBudget, type UserUsage } from './usageService';
+import { DEFAULT_LOCALE, isLocale, type Locale } from './i18n';
+import {
+  FAILURE_WINDOW_MINUTES,
+  FREE_LOGIN_ATTEMPTS,
+  LOCKOUT_MINUTES,
+  MAX_LOGIN_DELAY_SECONDS,
+  locksAccount,
+  locksIp,
+  secondsUntilNextAttempt,
+} from './loginThrottling';
+import {
+  generateTotpSecret,
+  totpUri,
+  verifyTotp,
+  looksLikeTotpCode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from './twoFactor';
+
+// Database connection (server only, see services/env.ts)
+const databaseUrl = getServerEnv('NEON_DATABASE_URL');
 const sql = databaseUrl ? neon(databaseUrl) : null;
 
 function requireDb() {
@@ -33,14 +44,121 @@ export interface User {
   name: string;
   createdAt: string;
   lastLogin?: string;
-  isAdmin?: boolean;
+  role: UserRole;
   gender?: 'male' | 'female' | 'other';
+  locale: Locale; // Language of the interface and of the AI prompts
+  twoFactorEnabled?: boolean;
+  emailVerified?: boolean;
 }
 
-export interface Session {
-  userId: string;
-  token: string;
-  expiresAt: number;
+// User as listed to those who manage users
+export interface ManagedUser extends User {
+  isActive: boolean;
+}
+
+// Sessions
+// Each sign-in creates a session for one device, with two tokens that are
+// stored only as SHA-256 hashes:
+// - the access token goes with every request and is valid for a few minutes;
+// - the refresh token trades in for a new pair of tokens (both are rotated) and
+//   slides the session's expiry, up to a maximum age after which the user
+//   signs in again.
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const SESSION_IDLE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days without refreshing
+const SESSION_MAX_AGE_DAYS = 90;
+const MAX_SESSIONS_PER_USER = 5;
+
+// Device a session was opened or last refreshed from, as seen by the server
+export interface SessionDevice {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Tokens handed to the client when a session is created or refreshed
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface AuthenticatedSession {
+  user: User;
+  sessionId: string;
+}
+
+// Two-factor authentication
+// With 2FA on, a correct password only yields a login challenge; the session
+// is created once the challenge is completed with a TOTP or recovery code.
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Answer to a correct password when the account has 2FA on
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+}
+
+// Secret to add to an authenticator app, as text and as otpauth:// URI
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+// Email links
+// Verification and password reset links carry a single-use token, stored
+// hashed in email_tokens. Self-registered accounts sign in only once their
+// email is verified; accounts created by an admin start verified.
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const EMAIL_RESEND_INTERVAL_SECONDS = 60; // At most one email per purpose and minute
+
+const EMAIL_REVERT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+type EmailTokenPurpose = 'verify_email' | 'reset_password' | 'revert_email';
+
+// Answer to a registration: the account exists but cannot sign in yet
+export interface PendingVerification {
+  verificationRequired: true;
+  email: string;
+}
+
+// Login throttling
+// Delays and lockouts as set in loginThrottling.ts, applied to the failure
+// counters on users and ip_login_failures.
+
+// Account or IP with recent failed logins, as listed to admins
+export interface LoginLockout {
+  scope: 'account' | 'ip';
+  key: string; // User id or IP address, what clearing it takes
+  label: string; // Email or IP address
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil?: string; // Set while locked
+}
+
+// Active session as listed to its owner; the tokens never leave the server
+export interface SessionInfo {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+// Rejected auth request. The message is shown to the user as is, so it never
+// carries database or internal details; status is the HTTP status the API answers
+// with, and code overrides the error code derived from it.
+export class AuthError extends Error {
+  constructor(message: string, readonly status: number = 400, readonly code?: ApiErrorCode) {
+    super(message);
+    this.name = 'AuthError';
+  }
 }
 
 // Initialize auth tables
@@ -51,67 +169,8 @@ export async function initAuthTables() {
   }
 
   try {
-    const db = requireDb();
-
-    // Create users table
-    await db`
-      CREATE TABLE IF NOT EXISTS users (
-        id TEXT PRIMARY KEY,
-        email TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        password_hash TEXT NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        last_login TIMESTAMP,
-        is_active BOOLEAN DEFAULT TRUE,
-        is_admin BOOLEAN DEFAULT FALSE
-      )
-    `;
-
-    // Add is_admin column if it doesn't exist (migration)
-    try {
-      const columnExists = await db`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = 'users' AND column_name = 'is_admin'
-      `;
-      if (columnExists.length === 0) {
-        await db`ALTER TABLE users ADD COLUMN is_admin BOOLEAN DEFAULT FALSE`;
-      }
-    } catch (error) {
-      console.log('Note: is_admin column check skipped:', error);
-    }
-
-    // Add gender column if it doesn't exist (migration)
-    try {
-      const genderColumnExists = await db`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = 'users' AND column_name = 'gender'
-      `;
-      if (genderColumnExists.length === 0) {
-        await db`ALTER TABLE users ADD COLUMN gender TEXT`;
-      }
-    } catch (error) {
-      console.log('Note: gender column check skipped:', error);
-    }
-
-    // Create sessions table
-    await db`
-      CREATE TABLE IF NOT EXISTS sessions (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-        token TEXT UNIQUE NOT NULL,
-        expires_at TIMESTAMP NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create indexes
-    await db`CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at)`;
-
+    // users and sessions are created by the versioned migrations (see services/migrations)
+    await runPendingMigrations(requireDb());
     return true;
   } catch (error) {
     console.error('Auth tables initialization error:', error);
@@ -119,20 +178,6 @@ export async function initAuthTables() {
   }
 }
 
-// Simple password hashing (in production, use bcrypt or similar)
-async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
-async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
-}
-
 // Generate secure token
 function generateToken(): string {
   const array = new Uint8Array(32);
@@ -140,8 +185,172 @@ function generateToken(): string {
   return Array.from(array, b => b.toString(16).padStart(2, '0')).join('');
 }
 
+function hashToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+function toIsoString(value: unknown): string {
+  return value ? (value instanceof Date ? value.toISOString() : String(value)) : '';
+}
+
+function toUser(data: any): User {
+  return {
+    id: data.id,
+    email: data.email,
+    name: data.name,
+    createdAt: toIsoString(data.created_at),
+    lastLogin: data.last_login ? toIsoString(data.last_login) : undefined,
+    role: isUserRole(data.role) ? data.role : 'member',
+    gender: data.gender || undefined,
+    locale: isLocale(data.locale) ? data.locale : DEFAULT_LOCALE,
+    twoFactorEnabled: data.totp_enabled || false,
+    emailVerified: !!data.email_verified_at,
+  };
+}
+
+// Remove sessions past their expiry, for every user
+export async function pruneExpiredSessions(): Promise<void> {
+  const db = requireDb();
+  await db`DELETE FROM sessions WHERE expires_at <= CURRENT_TIMESTAMP`;
+}
+
+// Open a session for a user who just proved who they are
+async function createSession(userId: string, device: SessionDevice): Promise<SessionTokens> {
+  const db = requireDb();
+  const accessToken = generateToken();
+  const refreshToken = generateToken();
+  const accessExpiresAt = new Date(Date.now() + ACCESS_TOKEN_TTL_MS);
+  const expiresAt = new Date(Date.now() + SESSION_IDLE_TTL_MS);
+
+  await db`
+    INSERT INTO sessions (id, user_id, token_hash, refresh_token_hash, access_expires_at, expires_at, user_agent, ip_address)
+    VALUES (
+      ${crypto.randomUUID()}, ${userId}, ${hashToken(accessToken)}, ${hashToken(refreshToken)},
+      ${accessExpiresAt.toISOString()}, ${expiresAt.toISOString()},
+      ${device.userAgent || null}, ${device.ipAddress || null}
+    )
+  `;
+
+  // Signing in is frequent enough to keep the table clean without a scheduled job
+  await pruneExpiredSessions();
+
+  // Keep only the most recently used sessions of the user
+  await db`
+    DELETE FROM sessions
+    WHERE user_id = ${userId}
+    AND id NOT IN (
+      SELECT id FROM sessions
+      WHERE user_id = ${userId}
+      ORDER BY last_seen_at DESC
+      LIMIT ${MAX_SESSIONS_PER_USER}
+    )
+  `;
+
+  return { accessToken, refreshToken };
+}
+
 // User registration
-export async function registerUser(email: string, password: string, name: string): Promise<{ user: User; token: string }> {
+// Links in emails point at the app; the request's Host header is not trusted for this
+function appLink(param: string, token: string): string {
+  const base = (getServerEnv('APP_URL') || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${base}/?${param}=${encodeURIComponent(token)}`;
+}
+
+// New single-use token for an email link, replacing unused ones with the same
+// purpose. Null when one was sent less than a minute ago.
+async function issueEmailToken(userId: string, purpose: EmailTokenPurpose, ttlMs: number): Promise<string | null> {
+  const db = requireDb();
+  const recent = await db`
+    SELECT id FROM email_tokens
+    WHERE user_id = ${userId} AND purpose = ${purpose}
+      AND created_at > CURRENT_TIMESTAMP - make_interval(secs => ${EMAIL_RESEND_INTERVAL_SECONDS}::int)
+    LIMIT 1
+  `;
+  if (recent.length > 0) {
+    return null;
+  }
+
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + ttlMs);
+  await db.transaction(txn => [
+    txn`DELETE FROM email_tokens WHERE expires_at <= CURRENT_TIMESTAMP OR used_at IS NOT NULL`,
+    txn`DELETE FROM email_tokens WHERE user_id = ${userId} AND purpose = ${purpose}`,
+    txn`
+      INSERT INTO email_tokens (id, user_id, purpose, token_hash, expires_at)
+      VALUES (${crypto.randomUUID()}, ${userId}, ${purpose}, ${hashToken(token)}, ${expiresAt.toISOString()})
+    `,
+  ]);
+  return token;
+}
+
+// Marks a token as used and returns its user, or null if it is unknown, used or expired
+async function consumeEmailToken(token: string, purpose: EmailTokenPurpose): Promise<string | null> {
+  const db = requireDb();
+  const result = await db`
+    UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP
+    WHERE token_hash = ${hashToken(token)} AND purpose = ${purpose}
+      AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+    RETURNING user_id
+  `;
+  return result.length > 0 ? (result[0] as any).user_id : null;
+}
+
+// Sending is best effort: a failed email is logged and the user can ask again
+async function sendVerificationEmail(user: { id: string; email: string; name: string }): Promise<void> {
+  const token = await issueEmailToken(user.id, 'verify_email', EMAIL_VERIFICATION_TTL_MS);
+  if (!token) return;
+  try {
+    await sendMail({
+      to: user.email,
+      subject: 'Confirma tu email en Bitácora IA',
+      text: [
+        `Hola ${user.name}:`,
+        '',
+        'Confirma tu email para empezar a usar Bitácora IA:',
+        appLink('verify_email', token),
+        '',
+        'El enlace vence en 24 horas. Si no creaste esta cuenta, ignora este mensaje.',
+      ].join('\n'),
+    });
+  } catch (error) {
+    console.error('Verification email error:', error);
+  }
+}
+
+// Tells the previous address that the email changed, with a link that puts
+// it back. Every change sends its own link and none replaces another, so the
+// owner can always return to their address. Best effort, like the others.
+async function sendEmailChangeNotice(user: { id: string; email: string; name: string }, newEmail: string): Promise<void> {
+  const db = requireDb();
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + EMAIL_REVERT_TTL_MS);
+  await db`
+    INSERT INTO email_tokens (id, user_id, purpose, token_hash, expires_at, previous_email)
+    VALUES (${crypto.randomUUID()}, ${user.id}, 'revert_email', ${hashToken(token)}, ${expiresAt.toISOString()}, ${user.email})
+  `;
+  try {
+    await sendMail({
+      to: user.email,
+      subject: 'El email de tu cuenta de Bitácora IA cambió',
+      text: [
+        `Hola ${user.name}:`,
+        '',
+        `El email de tu cuenta de Bitácora IA se cambió a ${newEmail}.`,
+        '',
+        'Si no fuiste tú, vuelve a usar esta dirección con el enlace de abajo. Se cerrarán todas las sesiones y podrás restablecer tu contraseña:',
+        appLink('revert_email', token),
+        '',
+        'El enlace vence en 7 días y sirve una sola vez.',
+      ].join('\n'),
+    });
+  } catch (error) {
+    console.error('Email change notice error:', error);
+  }
+}
+
+// User registration. The account can sign in once the emailed link is opened.
+// The language defaults to Spanish; the sign-up form sends the browser's.
+export async function registerUser(email: string, password: string, name: string, locale: Locale = DEFAULT_LOCALE): Promise<User> {
   const db = requireDb();
 
   // Validate and sanitize inputs
@@ -151,65 +360,315 @@ export async function registerUser(email: string, password: string, name: string
 
   // Validate email
   if (!sanitizedEmail || !sanitizedEmail.includes('@') || sanitizedEmail.length > 255) {
-    throw new Error('Email inválido');
+    throw new AuthError('Email inválido');
   }
 
   // Validate password
   if (!sanitizedPassword || sanitizedPassword.length < 8) {
-    throw new Error('La contraseña debe tener al menos 8 caracteres');
+    throw new AuthError('La contraseña debe tener al menos 8 caracteres');
   }
   if (sanitizedPassword.length > 128) {
-    throw new Error('La contraseña es demasiado larga');
+    throw new AuthError('La contraseña es demasiado larga');
   }
 
   // Validate name
   if (!sanitizedName || sanitizedName.length < 2) {
-    throw new Error('El nombre debe tener al menos 2 caracteres');
+    throw new AuthError('El nombre debe tener al menos 2 caracteres');
   }
 
   // Check if user exists
   const existing = await db`SELECT id FROM users WHERE email = ${sanitizedEmail} LIMIT 1`;
   if (existing.length > 0) {
-    throw new Error('El email ya está registrado');
+    throw new AuthError('El email ya está registrado', 409);
   }
 
   const userId = crypto.randomUUID();
   const passwordHash = await hashPassword(password);
-  const token = generateToken();
-  const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
 
   // Create user
   await db`
-    INSERT INTO users (id, email, name, password_hash)
-    VALUES (${userId}, ${sanitizedEmail}, ${sanitizedName}, ${passwordHash})
+    INSERT INTO users (id, email, name, password_hash, locale)
+    VALUES (${userId}, ${sanitizedEmail}, ${sanitizedName}, ${passwordHash}, ${isLocale(locale) ? locale : DEFAULT_LOCALE})
   `;
 
-  // Create session
-  const sessionId = crypto.randomUUID();
-  await db`
-    INSERT INTO sessions (id, user_id, token, expires_at)
-    VALUES (${sessionId}, ${userId}, ${token}, ${expiresAt.toISOString()})
+  const userResult = await db`SELECT id, email, name, created_at, last_login, role, locale, email_verified_at FROM users WHERE id = ${userId} LIMIT 1`;
+  const user = toUser(userResult[0]);
+
+  await sendVerificationEmail(user);
+
+  return user;
+}
+
+// Send a new verification link. Unknown and already verified emails are
+// ignored without telling the caller, so this cannot reveal which accounts exist.
+export async function resendVerificationEmail(email: string): Promise<void> {
+  const db = requireDb();
+  const result = await db`
+    SELECT id, email, name FROM users
+    WHERE email = ${email.toLowerCase().trim()} AND is_active = TRUE AND email_verified_at IS NULL
+    LIMIT 1
   `;
+  if (result.length > 0) {
+    await sendVerificationEmail(result[0] as any);
+  }
+}
 
-  // Update last login
-  await db`UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ${userId}`;
+export async function verifyEmail(token: string): Promise<void> {
+  const db = requireDb();
+  const userId = await consumeEmailToken(token, 'verify_email');
+  if (!userId) {
+    throw new AuthError('El enlace de confirmación no es válido o expiró. Pide uno nuevo al iniciar sesión.');
+  }
+  await db`UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = ${userId}`;
+}
 
-  const userResult = await db`SELECT id, email, name, created_at, last_login FROM users WHERE id = ${userId} LIMIT 1`;
-  const userData = userResult[0] as any;
-  
-  const user: User = {
-    id: userData.id,
-    email: userData.email,
-    name: userData.name,
-    createdAt: userData.created_at ? (userData.created_at instanceof Date ? userData.created_at.toISOString() : String(userData.created_at)) : '',
-    lastLogin: userData.last_login ? (userData.last_login instanceof Date ? userData.last_login.toISOString() : String(userData.last_login)) : undefined,
-  };
+// Puts back the address an email change replaced, from the link sent to it.
+// Opening the link proves that address, so it counts as verified; every
+// session is closed and pending links to the other address stop working.
+export async function revertEmailChange(token: string): Promise<void> {
+  const db = requireDb();
+  const result = await db`
+    UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP
+    WHERE token_hash = ${hashToken(token)} AND purpose = 'revert_email'
+      AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+    RETURNING user_id, previous_email
+  `;
+  if (result.length === 0) {
+    throw new AuthError('El enlace para recuperar tu email no es válido o expiró.');
+  }
+  const { user_id: userId, previous_email: previousEmail } = result[0] as any;
+
+  const taken = await db`SELECT id FROM users WHERE email = ${previousEmail} AND id != ${userId} LIMIT 1`;
+  if (taken.length > 0) {
+    throw new AuthError('Ese email ya pertenece a otra cuenta. Contacta a un administrador.', 409);
+  }
+
+  await db.transaction(txn => [
+    txn`UPDATE users SET email = ${previousEmail}, email_verified_at = CURRENT_TIMESTAMP WHERE id = ${userId}`,
+    txn`DELETE FROM sessions WHERE user_id = ${userId}`,
+    txn`DELETE FROM email_tokens WHERE user_id = ${userId} AND purpose <> 'revert_email'`,
+  ]);
+  await recordAuditEvent({ type: 'email_reverted', userId, details: { to: previousEmail } });
+}
+
+// Email a password reset link. Like resendVerificationEmail, the answer is the
+// same whether or not the account exists.
+export async function requestPasswordReset(email: string): Promise<void> {
+  const db = requireDb();
+  const result = await db`
+    SELECT id, email, name FROM users
+    WHERE email = ${email.toLowerCase().trim()} AND is_active = TRUE
+    LIMIT 1
+  `;
+  if (result.length === 0) return;
+
+  const user = result[0] as any;
+  const token = await issueEmailToken(user.id, 'reset_password', PASSWORD_RESET_TTL_MS);
+  if (!token) return;
+  try {
+    await sendMail({
+      to: user.email,
+      subject: 'Restablece tu contraseña de Bitácora IA',
+      text: [
+        `Hola ${user.name}:`,
+        '',
+        'Recibimos una solicitud para restablecer tu contraseña. Crea una nueva aquí:',
+        appLink('reset_password', token),
+        '',
+        'El enlace vence en 1 hora y sirve una sola vez. Si no lo pediste, ignora este mensaje: tu contraseña no cambia.',
+      ].join('\n'),
+    });
+  } catch (error) {
+    console.error('Password reset email error:', error);
+  }
+}
+
+// Set a new password from a reset link. Signs out every session and lifts a
+// login lockout; opening the link also proves the email address, so it counts
+// as verified.
+export async function resetPassword(token: string, newPassword: string): Promise<void> {
+  const db = requireDb();
+
+  if (!newPassword || newPassword.length < 8) {
+    throw new AuthError('La nueva contraseña debe tener al menos 8 caracteres');
+  }
+  if (newPassword.length > 128) {
+    throw new AuthError('La contraseña es demasiado larga');
+  }
+
+  const userId = await consumeEmailToken(token, 'reset_password');
+  if (!userId) {
+    throw new AuthError('El enlace para restablecer la contraseña no es válido o expiró. Pide uno nuevo.');
+  }
 
-  return { user, token };
+  const newHash = await hashPassword(newPassword);
+  await db.transaction(txn => [
+    txn`
+      UPDATE users
+      SET password_hash = ${newHash}, email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP),
+        failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL
+      WHERE id = ${userId}
+    `,
+    txn`DELETE FROM sessions WHERE user_id = ${userId}`,
+    txn`DELETE FROM email_tokens WHERE user_id = ${userId} AND purpose = 'reset_password'`,
+  ]);
+}
+
+function lockedError(secondsLeft: number, reason: string): AuthError {
+  const minutes = Math.max(1, Math.ceil(secondsLeft / 60));
+  return new AuthError(`${reason}. Intenta de nuevo en ${minutes} ${minutes === 1 ? 'minuto' : 'minutos'}.`, 429);
+}
+
+async function assertIpNotLocked(ipAddress?: string): Promise<void> {
+  if (!ipAddress) return;
+  const db = requireDb();
+  const result = await db`
+    SELECT EXTRACT(EPOCH FROM (locked_until - CURRENT_TIMESTAMP)) AS lock_seconds_left
+    FROM ip_login_failures
+    WHERE ip_address = ${ipAddress} AND locked_until > CURRENT_TIMESTAMP
+    LIMIT 1
+  `;
+  if (result.length > 0) {
+    throw lockedError(Number(result[0].lock_seconds_left), 'Demasiados intentos fallidos desde tu red');
+  }
+}
+
+// Counts a sign-in attempt against the account before the password or code
+// is checked, so parallel guesses cannot slip past the delay; see
+// releaseLoginAttempt. Returns the failures counted, including this attempt.
+// Throws while the account is locked or has to wait.
+async function claimLoginAttempt(userId: string): Promise<number> {
+  const db = requireDb();
+  const claimed = await db`
+    UPDATE users SET
+      failed_login_count = CASE
+        WHEN last_failed_login_at > CURRENT_TIMESTAMP - make_interval(mins => ${FAILURE_WINDOW_MINUTES}::int)
+          THEN failed_login_count + 1
+        ELSE 1
+      END,
+      last_failed_login_at = CURRENT_TIMESTAMP
+    WHERE id = ${userId}
+      AND (locked_until IS NULL OR locked_until <= CURRENT_TIMESTAMP)
+      AND (
+        last_failed_login_at IS NULL
+        OR failed_login_count < ${FREE_LOGIN_ATTEMPTS}::int
+        OR last_failed_login_at <= CURRENT_TIMESTAMP
+          - make_interval(secs => LEAST(power(2, failed_login_count - ${FREE_LOGIN_ATTEMPTS}::int), ${MAX_LOGIN_DELAY_SECONDS}::int))
+      )
+    RETURNING failed_login_count
+  `;
+  if (claimed.length > 0) {
+    return Number(claimed[0].failed_login_count);
+  }
+
+  const result = await db`
+    SELECT failed_login_count,
+      EXTRACT(EPOCH FROM (locked_until - CURRENT_TIMESTAMP)) AS lock_seconds_left,
+      EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - last_failed_login_at)) AS seconds_since_failure
+    FROM users WHERE id = ${userId} LIMIT 1
+  `;
+  const data = result[0] as any;
+  if (data && Number(data.lock_seconds_left) > 0) {
+    throw lockedError(Number(data.lock_seconds_left), 'La cuenta está bloqueada temporalmente por demasiados intentos fallidos');
+  }
+  const wait = data ? secondsUntilNextAttempt(Number(data.failed_login_count), Number(data.seconds_since_failure)) : NaN;
+  const seconds = Number.isFinite(wait) ? Math.max(wait, 1) : 1;
+  throw new AuthError(`Demasiados intentos fallidos. Espera ${seconds} ${seconds === 1 ? 'segundo' : 'segundos'} antes de volver a intentarlo.`, 429);
+}
+
+// Checks the password and/or a current code or recovery code that a sensitive
+// change asks for (data holds the user's password_hash and TOTP columns). Like
+// a sign-in, a wrong answer counts as a failed login with the same delays and
+// lockouts, and when both are asked the error does not tell which was wrong.
+// The code is only used up once the password is right.
+async function confirmCredentials(
+  userId: string,
+  data: { password_hash: string; totp_secret: string | null; totp_last_step: string | number | null },
+  credentials: { password?: string; code?: string },
+  device: SessionDevice
+): Promise<void> {
+  const { password, code } = credentials;
+  await assertIpNotLocked(device.ipAddress);
+  const failures = await claimLoginAttempt(userId);
+  const valid = (password === undefined || (await verifyPassword(password, data.password_hash)).valid)
+    && (code === undefined || await checkSecondFactor(userId, data.totp_secret, data.totp_last_step, code));
+  if (!valid) {
+    await recordLoginFailure(device.ipAddress, { userId, failures });
+    const message = code === undefined ? 'Contraseña actual incorrecta'
+      : password === undefined ? 'Código incorrecto'
+      : 'Contraseña o código incorrectos';
+    throw new AuthError(message);
+  }
+  await resetLoginFailures(userId);
+}
+
+// The failure count starts over once the user proves who they are
+async function resetLoginFailures(userId: string): Promise<void> {
+  const db = requireDb();
+  await db`UPDATE users SET failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL WHERE id = ${userId}`;
+}
+
+// Gives back an attempt whose password was right but that did not end in a
+// session (2FA pending, email not verified)
+async function releaseLoginAttempt(userId: string): Promise<void> {
+  const db = requireDb();
+  await db`UPDATE users SET failed_login_count = GREATEST(failed_login_count - 1, 0) WHERE id = ${userId}`;
+}
+
+// Records a wrong password or code: locks the account once it reaches the
+// threshold (account.failures comes from claimLoginAttempt) and counts the
+// failure against the client IP, locking it in turn
+async function recordLoginFailure(ipAddress?: string, account?: { userId: string; failures: number }): Promise<void> {
+  const db = requireDb();
+
+  if (account && locksAccount(account.failures)) {
+    await db`
+      UPDATE users SET locked_until = CURRENT_TIMESTAMP + make_interval(mins => ${LOCKOUT_MINUTES}::int)
+      WHERE id = ${account.userId}
+    `;
+    await recordAuditEvent({
+      type: 'account_locked',
+      userId: account.userId,
+      ipAddress,
+      details: { failures: account.failures, minutes: LOCKOUT_MINUTES },
+    });
+  }
+
+  if (!ipAddress) return;
+
+  await db`
+    DELETE FROM ip_login_failures
+    WHERE last_failure_at < CURRENT_TIMESTAMP - make_interval(mins => ${FAILURE_WINDOW_MINUTES}::int)
+      AND (locked_until IS NULL OR locked_until <= CURRENT_TIMESTAMP)
+  `;
+  const result = await db`
+    INSERT INTO ip_login_failures (ip_address, failure_count, last_failure_at)
+    VALUES (${ipAddress}, 1, CURRENT_TIMESTAMP)
+    ON CONFLICT (ip_address) DO UPDATE SET
+      failure_count = CASE
+        WHEN ip_login_failures.last_failure_at > CURRENT_TIMESTAMP - make_interval(mins => ${FAILURE_WINDOW_MINUTES}::int)
+          THEN ip_login_failures.failure_count + 1
+        ELSE 1
+      END,
+      last_failure_at = CURRENT_TIMESTAMP
+    RETURNING failure_count
+  `;
+  const failures = Number(result[0]?.failure_count) || 0;
+  if (locksIp(failures)) {
+    await db`
+      UPDATE ip_login_failures SET locked_until = CURRENT_TIMESTAMP + make_interval(mins => ${LOCKOUT_MINUTES}::int)
+      WHERE ip_address = ${ipAddress}
+    `;
+    await recordAuditEvent({ type: 'ip_locked', ipAddress, details: { failures, minutes: LOCKOUT_MINUTES } });
+  }
 }
 
 // User login
-export async function loginUser(email: string, password: string): Promise<{ user: User; token: string }> {
+export async function loginUser(
+  email: string,
+  password: string,
+  device: SessionDevice = {}
+): Promise<{ user: User; tokens: SessionTokens } | TwoFactorChallenge> {
   const db = requireDb();
 
   // Sanitize inputs
@@ -218,57 +677,65 @@ export async function loginUser(email: string, password: string): Promise<{ user
 
   // Validate inputs
   if (!sanitizedEmail || !sanitizedEmail.includes('@')) {
-    throw new Error('Email inválido');
+    throw new AuthError('Email inválido');
   }
   if (!sanitizedPassword) {
-    throw new Error('Contraseña requerida');
+    throw new AuthError('Contraseña requerida');
   }
 
+  await assertIpNotLocked(device.ipAddress);
+
   // Find user
   const userResult = await db`
-    SELECT id, email, name, password_hash, created_at, last_login, is_active, is_admin, gender
+    SELECT id, email, name, password_hash, created_at, last_login, is_active, role, gender, locale, totp_enabled, email_verified_at
     FROM users WHERE email = ${sanitizedEmail} LIMIT 1
   `;
 
   if (userResult.length === 0) {
-    throw new Error('Email o contraseña incorrectos');
+    // As slow as checking a real password, so timing does not reveal the account is missing
+    await verifyPassword(password, DUMMY_PASSWORD_HASH);
+    await recordLoginFailure(device.ipAddress);
+    throw new AuthError('Email o contraseña incorrectos', 401);
   }
 
   const userData = userResult[0] as any;
 
   if (!userData.is_active) {
-    throw new Error('Cuenta desactivada');
+    throw new AuthError('Cuenta desactivada', 403);
   }
 
   // Verify password
-  const isValid = await verifyPassword(password, userData.password_hash);
-  if (!isValid) {
-    throw new Error('Email o contraseña incorrectos');
+  const failures = await claimLoginAttempt(userData.id);
+  const { valid, needsRehash } = await verifyPassword(password, userData.password_hash);
+  if (!valid) {
+    await recordLoginFailure(device.ipAddress, { userId: userData.id, failures });
+    throw new AuthError('Email o contraseña incorrectos', 401);
   }
 
-  // Generate new session
-  const token = generateToken();
-  const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
-  const sessionId = crypto.randomUUID();
+  // Legacy SHA-256 (or outdated scrypt) hashes are replaced while the plain password is at hand
+  if (needsRehash) {
+    const upgradedHash = await hashPassword(password);
+    await db`UPDATE users SET password_hash = ${upgradedHash} WHERE id = ${userData.id} AND password_hash = ${userData.password_hash}`;
+  }
 
-  await db`
-    INSERT INTO sessions (id, user_id, token, expires_at)
-    VALUES (${sessionId}, ${userData.id}, ${token}, ${expiresAt.toISOString()})
-  `;
+  if (!userData.email_verified_at) {
+    await releaseLoginAttempt(userData.id);
+    throw new AuthError('Confirma tu email antes de iniciar sesión. Revisa tu bandeja de entrada.', 403, 'EMAIL_NOT_VERIFIED');
+  }
+
+  // The failure count stays until the code is entered too
+  if (userData.totp_enabled) {
+    await releaseLoginAttempt(userData.id);
+    return { twoFactorRequired: true, challengeToken: await createLoginChallenge(userData.id) };
+  }
 
-  // Update last login
-  await db`UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ${userData.id}`;
+  const tokens = await createSession(userData.id, device);
 
-  // Clean old sessions (keep only last 5 per user)
+  // Update last login; the failure count starts over
   await db`
-    DELETE FROM sessions
-    WHERE user_id = ${userData.id}
-    AND id NOT IN (
-      SELECT id FROM sessions
-      WHERE user_id = ${userData.id}
-      ORDER BY created_at DESC
-      LIMIT 5
-    )
+    UPDATE users
+    SET last_login = CURRENT_TIMESTAMP, failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL
+    WHERE id = ${userData.id}
   `;
 
   const user: User = {
@@ -277,22 +744,120 @@ export async function loginUser(email: string, password: string): Promise<{ user
     name: userData.name,
     createdAt: userData.created_at ? (userData.created_at instanceof Date ? userData.created_at.toISOString() : String(userData.created_at)) : '',
     lastLogin: userData.last_login ? (userData.last_login instanceof Date ? userData.last_login.toISOString() : String(userData.last_login)) : undefined,
-    isAdmin: userData.is_admin || false,
+    role: isUserRole(userData.role) ? userData.role : 'member',
     gender: userData.gender || undefined,
+    locale: isLocale(userData.locale) ? userData.locale : DEFAULT_LOCALE,
+    twoFactorEnabled: false,
+    emailVerified: true,
   };
 
-  return { user, token };
+  return { user, tokens };
 }
 
-// Verify session token
-export async function verifySession(token: string): Promise<User | null> {
+async function createLoginChallenge(userId: string): Promise<string> {
+  const db = requireDb();
+  const challengeToken = generateToken();
+  const expiresAt = new Date(Date.now() + LOGIN_CHALLENGE_TTL_MS);
+
+  await db`DELETE FROM login_challenges WHERE expires_at <= CURRENT_TIMESTAMP`;
+  await db`
+    INSERT INTO login_challenges (id, user_id, token_hash, expires_at)
+    VALUES (${crypto.randomUUID()}, ${userId}, ${hashToken(challengeToken)}, ${expiresAt.toISOString()})
+  `;
+  return challengeToken;
+}
+
+// Checks a TOTP code or an unused recovery code, and uses it up
+async function checkSecondFactor(
+  userId: string,
+  secret: string | null,
+  lastStep: string | number | null,
+  code: string
+): Promise<boolean> {
+  const db = requireDb();
+
+  if (looksLikeTotpCode(code)) {
+    if (!secret) return false;
+    // BIGINT columns arrive as strings
+    const step = verifyTotp(secret, code, lastStep === null ? null : Number(lastStep));
+    if (step === null) return false;
+    // Conditional on the stored step, so two requests with the same code cannot both pass
+    const updated = await db`
+      UPDATE users SET totp_last_step = ${step}
+      WHERE id = ${userId} AND (totp_last_step IS NULL OR totp_last_step < ${step})
+      RETURNING id
+    `;
+    return updated.length > 0;
+  }
+
+  const used = await db`
+    UPDATE recovery_codes SET used_at = CURRENT_TIMESTAMP
+    WHERE user_id = ${userId} AND code_hash = ${hashRecoveryCode(code)} AND used_at IS NULL
+    RETURNING id
+  `;
+  return used.length > 0;
+}
+
+// Second login step: trade a login challenge and a code for a session
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+  device: SessionDevice = {}
+): Promise<{ user: User; tokens: SessionTokens }> {
+  const db = requireDb();
+
+  await assertIpNotLocked(device.ipAddress);
+
+  // Every try counts, right or wrong, so a challenge allows only a few guesses
+  const result = await db`
+    UPDATE login_challenges c SET attempts = c.attempts + 1
+    FROM users u
+    WHERE c.token_hash = ${hashToken(challengeToken)}
+      AND c.expires_at > CURRENT_TIMESTAMP
+      AND c.attempts < ${MAX_CHALLENGE_ATTEMPTS}
+      AND u.id = c.user_id
+      AND u.is_active = TRUE
+    RETURNING c.id AS challenge_id, u.id, u.email, u.name, u.created_at, u.last_login, u.role, u.gender, u.locale,
+      u.totp_enabled, u.totp_secret, u.totp_last_step, u.email_verified_at
+  `;
+
+  if (result.length === 0) {
+    throw new AuthError('El inicio de sesión expiró. Vuelve a ingresar tu contraseña.', 401);
+  }
+
+  const data = result[0] as any;
+  // Wrong codes count as failed logins too, across challenges
+  const failures = await claimLoginAttempt(data.id);
+  if (!data.totp_enabled || !(await checkSecondFactor(data.id, data.totp_secret, data.totp_last_step, code))) {
+    await recordLoginFailure(device.ipAddress, { userId: data.id, failures });
+    throw new AuthError('Código incorrecto', 401);
+  }
+
+  await db`DELETE FROM login_challenges WHERE id = ${data.challenge_id}`;
+  const tokens = await createSession(data.id, device);
+  await db`
+    UPDATE users
+    SET last_login = CURRENT_TIMESTAMP, failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL
+    WHERE id = ${data.id}
+  `;
+
+  return { user: toUser(data), tokens };
+}
+
+// Verify an access token
+export async function verifySession(accessToken: string): Promise<AuthenticatedSession | null> {
   const db = requireDb();
 
   const sessionResult = await db`
-    SELECT s.user_id, s.expires_at, u.id, u.email, u.name, u.created_at, u.last_login, u.is_active, u.is_admin, u.gender
+    SELECT s.id AS session_id, s.last_seen_at < CURRENT_TIMESTAMP - INTERVAL '1 minute' AS seen_stale,
+      u.id, u.email, u.name, u.created_at, u.last_login, u.is_active, u.role, u.gender, u.locale, u.totp_enabled,
+      u.email_verified_at
     FROM sessions s
     JOIN users u ON s.user_id = u.id
-    WHERE s.token = ${token} AND s.expires_at > CURRENT_TIMESTAMP AND u.is_active = TRUE
+    WHERE s.token_hash = ${hashToken(accessToken)}
+      AND s.access_expires_at > CURRENT_TIMESTAMP
+      AND s.expires_at > CURRENT_TIMESTAMP
+      AND u.is_active = TRUE
     LIMIT 1
   `;
 
@@ -302,45 +867,76 @@ export async function verifySession(token: string): Promise<User | null> {
 
   const data = sessionResult[0] as any;
 
-  return {
-    id: data.id,
-    email: data.email,
-    name: data.name,
-    createdAt: data.created_at ? (data.created_at instanceof Date ? data.created_at.toISOString() : String(data.created_at)) : '',
-    lastLogin: data.last_login ? (data.last_login instanceof Date ? data.last_login.toISOString() : String(data.last_login)) : undefined,
-    isAdmin: data.is_admin || false,
-    gender: data.gender || undefined,
-  };
+  // Last-seen is informative only: at most one write per minute and session
+  if (data.seen_stale) {
+    await db`UPDATE sessions SET last_seen_at = CURRENT_TIMESTAMP WHERE id = ${data.session_id}`;
+  }
+
+  return { user: toUser(data), sessionId: data.session_id };
+}
+
+// Trade a refresh token for a new pair of tokens and extend the session
+export async function refreshSession(
+  refreshToken: string,
+  device: SessionDevice = {}
+): Promise<{ user: User; tokens: SessionTokens }> {
+  const db = requireDb();
+  const tokens: SessionTokens = { accessToken: generateToken(), refreshToken: generateToken() };
+  const accessExpiresAt = new Date(Date.now() + ACCESS_TOKEN_TTL_MS);
+  const expiresAt = new Date(Date.now() + SESSION_IDLE_TTL_MS);
+
+  // Matching on the old hash makes the rotation atomic: of two concurrent
+  // refreshes with the same token, only one succeeds
+  const result = await db`
+    UPDATE sessions s
+    SET token_hash = ${hashToken(tokens.accessToken)},
+        refresh_token_hash = ${hashToken(tokens.refreshToken)},
+        access_expires_at = ${accessExpiresAt.toISOString()},
+        expires_at = LEAST(${expiresAt.toISOString()}::timestamp, s.created_at + make_interval(days => ${SESSION_MAX_AGE_DAYS}::int)),
+        last_seen_at = CURRENT_TIMESTAMP,
+        user_agent = COALESCE(${device.userAgent || null}, s.user_agent),
+        ip_address = COALESCE(${device.ipAddress || null}, s.ip_address)
+    FROM users u
+    WHERE s.refresh_token_hash = ${hashToken(refreshToken)}
+      AND s.expires_at > CURRENT_TIMESTAMP
+      AND u.id = s.user_id
+      AND u.is_active = TRUE
+    RETURNING u.id, u.email, u.name, u.created_at, u.last_login, u.role, u.gender, u.locale, u.totp_enabled, u.email_verified_at
+  `;
+
+  if (result.length === 0) {
+    throw new AuthError('Tu sesión expiró. Vuelve a iniciar sesión.', 401);
+  }
+
+  return { user: toUser(result[0]), tokens };
 }
 
 // Logout (delete session)
-export async function logoutUser(token: string): Promise<void> {
+export async function logoutUser(sessionId: string): Promise<void> {
   const db = requireDb();
-  await db`DELETE FROM sessions WHERE token = ${token}`;
+  await db`DELETE FROM sessions WHERE id = ${sessionId}`;
 }
 
 // Get user by ID
 export async function getUserById(userId: string): Promise<User | null> {
   const db = requireDb();
   const result = await db`
-    SELECT id, email, name, created_at, last_login, is_admin, gender
+    SELECT id, email, name, created_at, last_login, role, gender, locale, totp_enabled, email_verified_at
     FROM users WHERE id = ${userId} AND is_active = TRUE LIMIT 1
   `;
   if (result.length === 0) return null;
-  const data = result[0] as any;
-  return {
-    id: data.id,
-    email: data.email,
-    name: data.name,
-    createdAt: data.created_at ? (data.created_at instanceof Date ? data.created_at.toISOString() : String(data.created_at)) : '',
-    lastLogin: data.last_login ? (data.last_login instanceof Date ? data.last_login.toISOString() : String(data.last_login)) : undefined,
-    isAdmin: data.is_admin || false,
-    gender: data.gender || undefined,
-  };
+  return toUser(result[0]);
 }
 
 // Update user profile
-export async function updateUser(userId: string, updates: { name?: string; email?: string; gender?: 'male' | 'female' | 'other' }): Promise<void> {
+// Changing the email asks for the current password, and a code when 2FA is on,
+// so a stolen session cannot move the account to another address and reset
+// its password from there. The old address is told, with a link back.
+export async function updateUser(
+  userId: string,
+  updates: { name?: string; email?: string; gender?: 'male' | 'female' | 'other'; locale?: Locale; currentPassword?: string; code?: string },
+  device: SessionDevice = {}
+): Promise<void> {
   const db = requireDb();
   
   if (updates.name) {
@@ -348,59 +944,140 @@ export async function updateUser(userId: string, updates: { name?: string; email
   }
   
   if (updates.email) {
-    // Check if email is already taken
-    const existing = await db`SELECT id FROM users WHERE email = ${updates.email.toLowerCase()} AND id != ${userId} LIMIT 1`;
-    if (existing.length > 0) {
-      throw new Error('El email ya está en uso');
+    const newEmail = updates.email.toLowerCase().trim();
+    if (!newEmail.includes('@') || newEmail.length > 255) {
+      throw new AuthError('Email inválido');
+    }
+
+    const current = await db`
+      SELECT email, name, password_hash, totp_enabled, totp_secret, totp_last_step FROM users WHERE id = ${userId} LIMIT 1
+    `;
+    const data = current[0] as any;
+    if (data && data.email !== newEmail) {
+      if (!updates.currentPassword) {
+        throw new AuthError('Ingresa tu contraseña actual para cambiar el email');
+      }
+      if (data.totp_enabled && !updates.code) {
+        throw new AuthError('Ingresa un código de verificación para cambiar el email');
+      }
+      await confirmCredentials(userId, data, {
+        password: updates.currentPassword,
+        code: data.totp_enabled ? updates.code : undefined,
+      }, device);
+
+      // Check if email is already taken
+      const existing = await db`SELECT id FROM users WHERE email = ${newEmail} AND id != ${userId} LIMIT 1`;
+      if (existing.length > 0) {
+        throw new AuthError('El email ya está en uso', 409);
+      }
+      // The new address is unconfirmed until its link is opened, and links
+      // already sent to the old one must not confirm or reset the account.
+      // Links to revert earlier changes stay valid.
+      await db.transaction(txn => [
+        txn`UPDATE users SET email = ${newEmail}, email_verified_at = NULL WHERE id = ${userId}`,
+        txn`DELETE FROM email_tokens WHERE user_id = ${userId} AND purpose <> 'revert_email'`,
+      ]);
+      await recordAuditEvent({ type: 'email_changed', userId, ipAddress: device.ipAddress, details: { from: data.email, to: newEmail } });
+      await sendEmailChangeNotice({ id: userId, email: data.email, name: data.name }, newEmail);
+      await sendVerificationEmail({ id: userId, email: newEmail, name: data.name });
     }
-    await db`UPDATE users SET email = ${updates.email.toLowerCase()} WHERE id = ${userId}`;
   }
 
   if (updates.gender !== undefined) {
     await db`UPDATE users SET gender = ${updates.gender} WHERE id = ${userId}`;
   }
+
+  if (updates.locale !== undefined) {
+    if (!isLocale(updates.locale)) {
+      throw new AuthError('Idioma no soportado');
+    }
+    await db`UPDATE users SET locale = ${updates.locale} WHERE id = ${userId}`;
+  }
 }
 
-// Change password
-export async function changePassword(userId: string, oldPassword: string, newPassword: string): Promise<void> {
+// Change password. A wrong current password counts as a failed login, with
+// the same delays and lockouts, so a stolen session cannot guess it freely.
+export async function changePassword(userId: string, oldPassword: string, newPassword: string, device: SessionDevice = {}): Promise<void> {
   const db = requireDb();
 
   if (!newPassword || newPassword.length < 8) {
-    throw new Error('La nueva contraseña debe tener al menos 8 caracteres');
+    throw new AuthError('La nueva contraseña debe tener al menos 8 caracteres');
+  }
+  if (newPassword.length > 128) {
+    throw new AuthError('La nueva contraseña es demasiado larga');
   }
 
+  await assertIpNotLocked(device.ipAddress);
+
   // Get current password hash
   const userResult = await db`SELECT password_hash FROM users WHERE id = ${userId} LIMIT 1`;
   if (userResult.length === 0) {
-    throw new Error('Usuario no encontrado');
+    throw new AuthError('Usuario no encontrado', 404);
   }
 
   const currentHash = (userResult[0] as any).password_hash;
 
   // Verify old password
-  const isValid = await verifyPassword(oldPassword, currentHash);
-  if (!isValid) {
-    throw new Error('Contraseña actual incorrecta');
+  const failures = await claimLoginAttempt(userId);
+  const { valid } = await verifyPassword(oldPassword, currentHash);
+  if (!valid) {
+    await recordLoginFailure(device.ipAddress, { userId, failures });
+    throw new AuthError('Contraseña actual incorrecta');
   }
 
-  // Update password
+  // Update password; the failure count starts over
   const newHash = await hashPassword(newPassword);
-  await db`UPDATE users SET password_hash = ${newHash} WHERE id = ${userId}`;
+  await db`
+    UPDATE users
+    SET password_hash = ${newHash}, failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL
+    WHERE id = ${userId}
+  `;
 
   // Invalidate all sessions (force re-login)
   await db`DELETE FROM sessions WHERE user_id = ${userId}`;
 }
 
-// Create user (admin only)
-export async function createUserAsAdmin(adminUserId: string, email: string, password: string, name: string, isAdmin: boolean = false): Promise<User> {
+// Central permission check: loads the acting user's role (it may have changed
+// since their session started) and returns it. Inactive users have none.
+export async function requirePermission(actorUserId: string, permission: Permission): Promise<UserRole> {
   const db = requireDb();
-
-  // Verify admin
-  const adminResult = await db`
-    SELECT is_admin FROM users WHERE id = ${adminUserId} AND is_active = TRUE LIMIT 1
+  const actorResult = await db`
+    SELECT role FROM users WHERE id = ${actorUserId} AND is_active = TRUE LIMIT 1
   `;
-  if (adminResult.length === 0 || !adminResult[0].is_admin) {
-    throw new Error('No tienes permisos de administrador');
+  const role = actorResult[0]?.role;
+  if (!isUserRole(role) || !hasPermission(role, permission)) {
+    throw new AuthError('No tienes permisos para esta acción', 403);
+  }
+  return role;
+}
+
+// Roles of the actor and the target of a user management action, once the
+// actor is known to outrank the target
+async function requireManageableUser(actorUserId: string, targetUserId: string): Promise<{ actorRole: UserRole; targetRole: UserRole }> {
+  const actorRole = await requirePermission(actorUserId, 'users.manage');
+  const db = requireDb();
+
+  const target = await db`SELECT role FROM users WHERE id = ${targetUserId} LIMIT 1`;
+  if (target.length === 0) {
+    throw new AuthError('Usuario no encontrado', 404);
+  }
+  const targetRole: UserRole = isUserRole(target[0].role) ? target[0].role : 'member';
+  if (!canManageUser(actorRole, targetRole)) {
+    throw new AuthError('No tienes permisos para administrar a este usuario', 403);
+  }
+  return { actorRole, targetRole };
+}
+
+// Create user (users.manage; the role must be one the creator can assign)
+export async function createUserAsAdmin(adminUserId: string, email: string, password: string, name: string, role: UserRole = 'member'): Promise<User> {
+  const db = requireDb();
+
+  const actorRole = await requirePermission(adminUserId, 'users.manage');
+  if (!isUserRole(role)) {
+    throw new AuthError('Rol inválido');
+  }
+  if (!canAssignRole(actorRole, role)) {
+    throw new AuthError('No puedes crear usuarios con ese rol', 403);
   }
 
   // Use same validation as registerUser
@@ -409,21 +1086,21 @@ export async function createUserAsAdmin(adminUserId: string, email: string, pass
   const sanitizedPassword = password.trim();
 
   if (!sanitizedEmail || !sanitizedEmail.includes('@') || sanitizedEmail.length > 255) {
-    throw new Error('Email inválido');
+    throw new AuthError('Email inválido');
   }
 
   if (!sanitizedPassword || sanitizedPassword.length < 8) {
-    throw new Error('La contraseña debe tener al menos 8 caracteres');
+    throw new AuthError('La contraseña debe tener al menos 8 caracteres');
   }
 
   if (!sanitizedName || sanitizedName.length < 2) {
-    throw new Error('El nombre debe tener al menos 2 caracteres');
+    throw new AuthError('El nombre debe tener al menos 2 caracteres');
   }
 
   // Check if user exists
   const existing = await db`SELECT id FROM users WHERE email = ${sanitizedEmail} LIMIT 1`;
   if (existing.length > 0) {
-    throw new Error('El email ya está registrado');
+    throw new AuthError('El email ya está registrado', 409);
   }
 
   const userId = crypto.randomUUID();
@@ -431,48 +1108,334 @@ export async function createUserAsAdmin(adminUserId: string, email: string, pass
 
   // Create user
   await db`
-    INSERT INTO users (id, email, name, password_hash, is_admin)
-    VALUES (${userId}, ${sanitizedEmail}, ${sanitizedName}, ${passwordHash}, ${isAdmin})
+    INSERT INTO users (id, email, name, password_hash, role, email_verified_at)
+    VALUES (${userId}, ${sanitizedEmail}, ${sanitizedName}, ${passwordHash}, ${role}, CURRENT_TIMESTAMP)
   `;
 
-  const userResult = await db`SELECT id, email, name, created_at, last_login, is_admin FROM users WHERE id = ${userId} LIMIT 1`;
-  const userData = userResult[0] as any;
-  
-  return {
-    id: userData.id,
-    email: userData.email,
-    name: userData.name,
-    createdAt: userData.created_at ? (userData.created_at instanceof Date ? userData.created_at.toISOString() : String(userData.created_at)) : '',
-    lastLogin: userData.last_login ? (userData.last_login instanceof Date ? userData.last_login.toISOString() : String(userData.last_login)) : undefined,
-    isAdmin: userData.is_admin || false,
-  };
+  const userResult = await db`SELECT id, email, name, created_at, last_login, role, locale, email_verified_at FROM users WHERE id = ${userId} LIMIT 1`;
+  return toUser(userResult[0]);
 }
 
-// Get all users (admin only)
-export async function getAllUsers(adminUserId: string): Promise<User[]> {
+// Get all users (users.view)
+export async function getAllUsers(adminUserId: string): Promise<ManagedUser[]> {
   const db = requireDb();
 
-  // Verify admin
-  const adminResult = await db`
-    SELECT is_admin FROM users WHERE id = ${adminUserId} AND is_active = TRUE LIMIT 1
-  `;
-  if (adminResult.length === 0 || !adminResult[0].is_admin) {
-    throw new Error('No tienes permisos de administrador');
-  }
+  await requirePermission(adminUserId, 'users.view');
 
   const result = await db`
-    SELECT id, email, name, created_at, last_login, is_admin, is_active
+    SELECT id, email, name, created_at, last_login, role, locale, is_active, totp_enabled, email_verified_at
     FROM users
     ORDER BY created_at DESC
   `;
 
   return result.map((data: any) => ({
-    id: data.id,
-    email: data.email,
-    name: data.name,
-    createdAt: data.created_at ? (data.created_at instanceof Date ? data.created_at.toISOString() : String(data.created_at)) : '',
-    lastLogin: data.last_login ? (data.last_login instanceof Date ? data.last_login.toISOString() : String(data.last_login)) : undefined,
-    isAdmin: data.is_admin || false,
+    ...toUser(data),
+    isActive: data.is_active !== false,
   }));
 }
 
+// Storage and AI usage of every user (users.view)
+export async function getUsersUsage(adminUserId: string): Promise<UserUsage[]> {
+  await requirePermission(adminUserId, 'users.view');
+  return listUserUsage();
+}
+
+// Change a user's role (users.manage). Nobody changes their own role, and the
+// last active owner stays an owner.
+export async function changeUserRole(adminUserId: string, targetUserId: string, role: UserRole): Promise<void> {
+  if (!isUserRole(role)) {
+    throw new AuthError('Rol inválido');
+  }
+  if (adminUserId === targetUserId) {
+    throw new AuthError('No puedes cambiar tu propio rol', 403);
+  }
+  const { actorRole, targetRole } = await requireManageableUser(adminUserId, targetUserId);
+  if (!canAssignRole(actorRole, role)) {
+    throw new AuthError('No puedes asignar ese rol', 403);
+  }
+  if (targetRole === role) return;
+
+  const db = requireDb();
+  const result = await db`
+    UPDATE users SET role = ${role}
+    WHERE id = ${targetUserId}
+      AND (role <> 'owner' OR EXISTS (
+        SELECT 1 FROM users o WHERE o.role = 'owner' AND o.is_active = TRUE AND o.id <> ${targetUserId}
+      ))
+    RETURNING id
+  `;
+  if (result.length === 0) {
+    throw new AuthError('Debe quedar al menos un propietario activo', 409);
+  }
+  await recordAuditEvent({ type: 'role_changed', userId: targetUserId, actorId: adminUserId, details: { from: targetRole, to: role } });
+}
+
+// Deactivate or reactivate a user (users.manage). Deactivating signs them out
+// everywhere; their data is kept.
+export async function setUserActive(adminUserId: string, targetUserId: string, active: boolean): Promise<void> {
+  if (adminUserId === targetUserId) {
+    throw new AuthError('No puedes desactivar tu propia cuenta', 403);
+  }
+  await requireManageableUser(adminUserId, targetUserId);
+
+  const db = requireDb();
+  const result = await db`
+    UPDATE users SET is_active = ${active}
+    WHERE id = ${targetUserId}
+      AND (${active}::boolean OR role <> 'owner' OR EXISTS (
+        SELECT 1 FROM users o WHERE o.role = 'owner' AND o.is_active = TRUE AND o.id <> ${targetUserId}
+      ))
+    RETURNING id
+  `;
+  if (result.length === 0) {
+    throw new AuthError('Debe quedar al menos un propietario activo', 409);
+  }
+  if (!active) {
+    await db.transaction(txn => [
+      txn`DELETE FROM sessions WHERE user_id = ${targetUserId}`,
+      txn`DELETE FROM login_challenges WHERE user_id = ${targetUserId}`,
+    ]);
+  }
+  await recordAuditEvent({ type: active ? 'user_reactivated' : 'user_deactivated', userId: targetUserId, actorId: adminUserId });
+}
+
+// Monthly AI budget of one user, in USD; null goes back to AI_MONTHLY_BUDGET_USD
+export async function setUserAiBudget(adminUserId: string, targetUserId: string, budgetUsd: number | null): Promise<void> {
+  if (budgetUsd !== null && (typeof budgetUsd !== 'number' || !Number.isFinite(budgetUsd) || budgetUsd < 0 || budgetUsd > 100000)) {
+    throw new AuthError('Presupuesto inválido');
+  }
+  await requireManageableUser(adminUserId, targetUserId);
+
+  const db = requireDb();
+  const current = await db`SELECT ai_monthly_budget_usd FROM users WHERE id = ${targetUserId} LIMIT 1`;
+  const from = current[0]?.ai_monthly_budget_usd ?? null;
+  await setAiMonthlyBudget(targetUserId, budgetUsd);
+  await recordAuditEvent({
+    type: 'ai_budget_changed',
+    userId: targetUserId,
+    actorId: adminUserId,
+    details: { from: from === null ? null : Number(from), to: budgetUsd },
+  });
+}
+
+// Active sessions of a user, most recently used first
+export async function listSessions(userId: string, currentSessionId: string): Promise<SessionInfo[]> {
+  const db = requireDb();
+  const result = await db`
+    SELECT id, user_agent, ip_address, created_at, last_seen_at, expires_at
+    FROM sessions
+    WHERE user_id = ${userId} AND expires_at > CURRENT_TIMESTAMP
+    ORDER BY last_seen_at DESC
+  `;
+
+  return result.map((s: any) => ({
+    id: s.id,
+    userAgent: s.user_agent || undefined,
+    ipAddress: s.ip_address || undefined,
+    createdAt: toIsoString(s.created_at),
+    lastSeenAt: toIsoString(s.last_seen_at),
+    expiresAt: toIsoString(s.expires_at),
+    isCurrent: s.id === currentSessionId,
+  }));
+}
+
+// Sign out one of the user's own sessions
+export async function revokeSession(userId: string, sessionId: string): Promise<void> {
+  const db = requireDb();
+  await db`DELETE FROM sessions WHERE id = ${sessionId} AND user_id = ${userId}`;
+}
+
+// Sign out every session of the user except the current one; returns how many were closed
+export async function revokeOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+  const db = requireDb();
+  const result = await db`
+    DELETE FROM sessions WHERE user_id = ${userId} AND id != ${currentSessionId}
+    RETURNING id
+  `;
+  return result.length;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const db = requireDb();
+  const result = await db`
+    SELECT u.totp_enabled,
+      (SELECT COUNT(*) FROM recovery_codes r WHERE r.user_id = u.id AND r.used_at IS NULL) AS codes_left
+    FROM users u WHERE u.id = ${userId} LIMIT 1
+  `;
+  const data = result[0] as any;
+  return {
+    enabled: data?.totp_enabled || false,
+    recoveryCodesLeft: Number(data?.codes_left || 0),
+  };
+}
+
+// Start enrollment: a new secret that only takes effect once a code from it is confirmed
+export async function beginTwoFactorSetup(userId: string): Promise<TwoFactorSetup> {
+  const db = requireDb();
+  const result = await db`SELECT email, totp_enabled FROM users WHERE id = ${userId} LIMIT 1`;
+  if (result.length === 0) {
+    throw new AuthError('Usuario no encontrado', 404);
+  }
+  const data = result[0] as any;
+  if (data.totp_enabled) {
+    throw new AuthError('La verificación en dos pasos ya está activada', 409);
+  }
+
+  const secret = generateTotpSecret();
+  await db`UPDATE users SET totp_secret = ${secret}, totp_last_step = NULL WHERE id = ${userId}`;
+  return { secret, otpauthUri: totpUri(secret, data.email) };
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const db = requireDb();
+  const codes = generateRecoveryCodes();
+  await db.transaction(txn => [
+    txn`DELETE FROM recovery_codes WHERE user_id = ${userId}`,
+    ...codes.map(code => txn`
+      INSERT INTO recovery_codes (id, user_id, code_hash)
+      VALUES (${crypto.randomUUID()}, ${userId}, ${hashRecoveryCode(code)})
+    `),
+  ]);
+  return codes;
+}
+
+// Finish enrollment with a code from the app; returns the recovery codes, shown only once
+export async function enableTwoFactor(userId: string, code: string, device: SessionDevice = {}): Promise<string[]> {
+  const db = requireDb();
+  const result = await db`SELECT totp_secret, totp_enabled, totp_last_step FROM users WHERE id = ${userId} LIMIT 1`;
+  const data = result[0] as any;
+  if (!data?.totp_secret) {
+    throw new AuthError('Primero genera el código de configuración');
+  }
+  if (data.totp_enabled) {
+    throw new AuthError('La verificación en dos pasos ya está activada', 409);
+  }
+
+  // Wrong codes count as failed logins, like every other check of a code
+  await assertIpNotLocked(device.ipAddress);
+  const failures = await claimLoginAttempt(userId);
+  if (!looksLikeTotpCode(code) || !(await checkSecondFactor(userId, data.totp_secret, data.totp_last_step, code))) {
+    await recordLoginFailure(device.ipAddress, { userId, failures });
+    throw new AuthError('Código incorrecto. Revisa que la hora de tu teléfono sea correcta.');
+  }
+  await resetLoginFailures(userId);
+
+  await db`UPDATE users SET totp_enabled = TRUE WHERE id = ${userId}`;
+  return replaceRecoveryCodes(userId);
+}
+
+// Checks the password and a current code or recovery code of a user with 2FA on
+async function confirmTwoFactorOwner(userId: string, code: string, password: string | undefined, device: SessionDevice): Promise<void> {
+  const db = requireDb();
+  const result = await db`
+    SELECT password_hash, totp_secret, totp_enabled, totp_last_step FROM users WHERE id = ${userId} LIMIT 1
+  `;
+  const data = result[0] as any;
+  if (!data?.totp_enabled) {
+    throw new AuthError('La verificación en dos pasos no está activada');
+  }
+  await confirmCredentials(userId, data, { password, code }, device);
+}
+
+export async function disableTwoFactor(userId: string, password: string, code: string, device: SessionDevice = {}): Promise<void> {
+  const db = requireDb();
+  await confirmTwoFactorOwner(userId, code, password, device);
+  await db.transaction(txn => [
+    txn`UPDATE users SET totp_enabled = FALSE, totp_secret = NULL, totp_last_step = NULL WHERE id = ${userId}`,
+    txn`DELETE FROM recovery_codes WHERE user_id = ${userId}`,
+  ]);
+}
+
+// New set of recovery codes; the previous ones stop working
+export async function regenerateRecoveryCodes(userId: string, code: string, device: SessionDevice = {}): Promise<string[]> {
+  await confirmTwoFactorOwner(userId, code, undefined, device);
+  return replaceRecoveryCodes(userId);
+}
+
+// Turn off 2FA for a user who lost their device and recovery codes (users.manage)
+export async function resetTwoFactorAsAdmin(adminUserId: string, targetUserId: string): Promise<void> {
+  const db = requireDb();
+  await requireManageableUser(adminUserId, targetUserId);
+
+  await db.transaction(txn => [
+    txn`UPDATE users SET totp_enabled = FALSE, totp_secret = NULL, totp_last_step = NULL WHERE id = ${targetUserId}`,
+    txn`DELETE FROM recovery_codes WHERE user_id = ${targetUserId}`,
+    txn`DELETE FROM login_challenges WHERE user_id = ${targetUserId}`,
+  ]);
+}
+
+// Accounts and IPs that are locked or failed to sign in within the last hour (security.view)
+export async function listLoginLockouts(adminUserId: string): Promise<LoginLockout[]> {
+  const db = requireDb();
+  await requirePermission(adminUserId, 'security.view');
+
+  const accounts = await db`
+    SELECT id, email, failed_login_count, last_failed_login_at,
+      CASE WHEN locked_until > CURRENT_TIMESTAMP THEN locked_until END AS locked_until
+    FROM users
+    WHERE locked_until > CURRENT_TIMESTAMP
+      OR (failed_login_count > 0 AND last_failed_login_at > CURRENT_TIMESTAMP - make_interval(mins => ${FAILURE_WINDOW_MINUTES}::int))
+    ORDER BY last_failed_login_at DESC
+  `;
+  const addresses = await db`
+    SELECT ip_address, failure_count, last_failure_at,
+      CASE WHEN locked_until > CURRENT_TIMESTAMP THEN locked_until END AS locked_until
+    FROM ip_login_failures
+    WHERE locked_until > CURRENT_TIMESTAMP
+      OR last_failure_at > CURRENT_TIMESTAMP - make_interval(mins => ${FAILURE_WINDOW_MINUTES}::int)
+    ORDER BY last_failure_at DESC
+  `;
+
+  return [
+    ...accounts.map((row: any): LoginLockout => ({
+      scope: 'account',
+      key: row.id,
+      label: row.email,
+      failures: Number(row.failed_login_count),
+      lastFailureAt: toIsoString(row.last_failed_login_at),
+      lockedUntil: row.locked_until ? toIsoString(row.locked_until) : undefined,
+    })),
+    ...addresses.map((row: any): LoginLockout => ({
+      scope: 'ip',
+      key: row.ip_address,
+      label: row.ip_address,
+      failures: Number(row.failure_count),
+      lastFailureAt: toIsoString(row.last_failure_at),
+      lockedUntil: row.locked_until ? toIsoString(row.locked_until) : undefined,
+    })),
+  ];
+}
+
+// Lift an account's lockout and forget its failed logins (security.manage)
+export async function clearAccountLockout(adminUserId: string, targetUserId: string): Promise<void> {
+  const db = requireDb();
+  await requirePermission(adminUserId, 'security.manage');
+
+  const result = await db`
+    UPDATE users SET failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL
+    WHERE id = ${targetUserId}
+    RETURNING id
+  `;
+  if (result.length === 0) {
+    throw new AuthError('Usuario no encontrado', 404);
+  }
+  await recordAuditEvent({ type: 'lockout_cleared', userId: targetUserId, actorId: adminUserId, details: { scope: 'account' } });
+}
+
+// Lift an IP's lockout and forget its failed logins (security.manage)
+export async function clearIpLockout(adminUserId: string, ipAddress: string): Promise<void> {
+  const db = requireDb();
+  await requirePermission(adminUserId, 'security.manage');
+
+  const result = await db`DELETE FROM ip_login_failures WHERE ip_address = ${ipAddress} RETURNING ip_address`;
+  if (result.length === 0) {
+    throw new AuthError('No hay intentos fallidos registrados para esa IP', 404);
+  }
+  await recordAuditEvent({ type: 'lockout_cleared', ipAddress, actorId: adminUserId, details: { scope: 'ip' } });
+}
+
+// Most recent security events (security.view)
+export async function getAuditLog(adminUserId: string, limit?: number): Promise<AuditEvent[]> {
+  await requirePermission(adminUserId, 'security.view');
+  return listAuditEvents(limit);
+}
@@ -1,8 +1,13 @@
-import * as db from './db';
-import { Book, Entry, TaskItem, Entity, EntryStatus, NoteType, EntityType, Folder, Thread } from '../types';
+import type { DbFolder, DbBook, DbEntry, DbTask, DbEntity, DbThread, DbEntryRevision, DbEntryComment, DbTrashItem, DbEntryStats } from './db';
+import { getRepository, type UserRepository } from './repository';
+import { TenantAccessError } from './storage';
+import { getServerEnv } from './env';
+import { parseSearchQuery, toSearchCriteria } from './searchQuery';
+import { isBookMemberRole } from './permissions';
+import { Book, Entry, TaskItem, Entity, EntryStatus, NoteType, EntityType, Folder, Thread, SearchResult, EntrySnapshot, EntryRevision, EntryComment, TrashItem, TrashItemType, EntryScope, EntryPage, EntryStats, PeriodStats } from '../types';
 
 // Convert DB types to app types
-export function dbFolderToFolder(dbFolder: db.DbFolder): Folder {
+export function dbFolderToFolder(dbFolder: DbFolder): Folder {
   return {
     id: dbFolder.id,
     name: dbFolder.name,
@@ -12,7 +17,7 @@ export function dbFolderToFolder(dbFolder: db.DbFolder): Folder {
   };
 }
 
-export function dbBookToBook(dbBook: db.DbBook): Book {
+export function dbBookToBook(dbBook: DbBook): Book {
   return {
     id: dbBook.id,
     name: dbBook.name.slice(0, 200), // Sanitize length
@@ -20,11 +25,13 @@ export function dbBookToBook(dbBook: db.DbBook): Book {
     folderId: dbBook.folder_id || undefined,
     createdAt: new Date(dbBook.created_at).getTime(),
     updatedAt: new Date(dbBook.updated_at).getTime(),
+    role: dbBook.member_role && isBookMemberRole(dbBook.member_role) ? dbBook.member_role : undefined,
+    memberCount: dbBook.member_count || undefined,
   };
 }
 
 export function dbEntryToEntry(
-  dbEntry: db.DbEntry,
+  dbEntry: DbEntry,
   tasks: TaskItem[],
   entities: Entity[]
 ): Entry {
@@ -40,10 +47,13 @@ export function dbEntryToEntry(
     threadId: dbEntry.thread_id || undefined,
     aiRewrittenText: dbEntry.ai_rewritten_text || undefined,
     status: dbEntry.status as EntryStatus,
+    statusReason: dbEntry.status_reason || undefined,
+    promptVersion: dbEntry.prompt_version || undefined,
+    authorId: dbEntry.user_id,
   };
 }
 
-export function dbTaskToTaskItem(dbTask: db.DbTask): TaskItem {
+export function dbTaskToTaskItem(dbTask: DbTask): TaskItem {
   // Ensure dueDate is always a string, not a Date object
   let dueDate: string | undefined = undefined;
   if (dbTask.due_date) {
@@ -62,10 +72,12 @@ export function dbTaskToTaskItem(dbTask: db.DbTask): TaskItem {
     isDone: dbTask.is_done,
     priority: (dbTask.priority as any) || undefined,
     completionNotes: dbTask.completion_notes || undefined,
+    assigneeUserId: dbTask.assignee_user_id || undefined,
+    delegatedBy: dbTask.delegated_by || undefined,
   };
 }
 
-export function dbEntityToEntity(dbEntity: db.DbEntity): Entity {
+export function dbEntityToEntity(dbEntity: DbEntity): Entity {
   return {
     id: dbEntity.id,
     name: dbEntity.name,
@@ -73,7 +85,41 @@ export function dbEntityToEntity(dbEntity: db.DbEntity): Entity {
   };
 }
 
-export function dbThreadToThread(dbThread: db.DbThread): Thread {
+export function dbRevisionToRevision(dbRevision: DbEntryRevision): EntryRevision {
+  return {
+    id: dbRevision.id,
+    entryId: dbRevision.entry_id,
+    revisionNumber: Number(dbRevision.revision_number),
+    authorId: dbRevision.author_id || undefined,
+    authorName: dbRevision.author_name || undefined,
+    reason: dbRevision.reason || undefined,
+    snapshot: normalizeSnapshot(dbRevision.snapshot),
+    createdAt: new Date(dbRevision.created_at).getTime(),
+  };
+}
+
+export function dbCommentToComment(dbComment: DbEntryComment): EntryComment {
+  return {
+    id: dbComment.id,
+    entryId: dbComment.entry_id,
+    authorId: dbComment.user_id,
+    text: dbComment.text,
+    createdAt: new Date(dbComment.created_at).getTime(),
+  };
+}
+
+export function dbTrashItemToTrashItem(dbItem: DbTrashItem): TrashItem {
+  return {
+    type: dbItem.item_type,
+    id: dbItem.id,
+    title: dbItem.title,
+    bookId: dbItem.book_id || undefined,
+    childCount: dbItem.child_count,
+    deletedAt: new Date(dbItem.deleted_at).getTime(),
+  };
+}
+
+export function dbThreadToThread(dbThread: DbThread): Thread {
   return {
     id: dbThread.id,
     title: dbThread.title,
@@ -83,15 +129,70 @@ export function dbThreadToThread(dbThread: db.DbThread): Thread {
   };
 }
 
+export function dbEntryStatsToEntryStats(dbStats: DbEntryStats): EntryStats {
+  const books = dbStats.books.map(book => ({
+    bookId: book.book_id,
+    entryCount: Number(book.entry_count),
+    openTasks: Number(book.open_tasks),
+    completedTasks: Number(book.completed_tasks),
+    lastActivity: new Date(book.last_activity).getTime(),
+  }));
+
+  let period: PeriodStats | null = null;
+  if (dbStats.period) {
+    const byType = new Map<NoteType, number>();
+    const byDay = new Map<string, number>();
+    period = {
+      totalEntries: 0,
+      totalTasks: 0,
+      completedTasks: 0,
+      byType: [],
+      byDay: [],
+      topPeople: [],
+      topTopics: [],
+      topProjects: [],
+    };
+    for (const bucket of dbStats.period.buckets) {
+      const count = Number(bucket.entry_count);
+      byType.set(bucket.type as NoteType, (byType.get(bucket.type as NoteType) || 0) + count);
+      byDay.set(bucket.day, (byDay.get(bucket.day) || 0) + count);
+      period.totalEntries += count;
+      period.totalTasks += Number(bucket.total_tasks);
+      period.completedTasks += Number(bucket.completed_tasks);
+    }
+    period.byType = [...byType].sort((a, b) => b[1] - a[1]);
+    period.byDay = [...byDay].sort((a, b) => a[0].localeCompare(b[0]));
+
+    const top = (type: EntityType) => dbStats.period!.top_entities
+      .filter(entity => entity.type === type)
+      .map((entity): [string, number] => [entity.name, Number(entity.count)]);
+    period.topPeople = top(EntityType.PERSON);
+    period.topTopics = top(EntityType.TOPIC);
+    period.topProjects = top(EntityType.PROJECT);
+  }
+
+  return {
+    totalEntries: books.reduce((sum, book) => sum + book.entryCount, 0),
+    openTasks: books.reduce((sum, book) => sum + book.openTasks, 0),
+    completedTasks: books.reduce((sum, book) => sum + book.completedTasks, 0),
+    books,
+    period,
+  };
+}
+
+// Page size used when loading every entry with open tasks
+const OPEN_TASK_ENTRIES_BATCH = 200;
+
 // Load all data (user-scoped)
 export async function loadAllBooks(userId: string): Promise<Book[]> {
   try {
-    const dbBooks = await db.getAllBooks(userId);
+    const db = await getRepository(userId);
+    const dbBooks = await db.getAllBooks();
     
-    // If no books, create default inbox
-    if (dbBooks.length === 0) {
-      const inboxBook = await db.createBook('inbox', userId, 'Bandeja de Entrada', 'Notas sin clasificar y pensamientos rápidos.', 'Notas sin clasificar y pensamientos rápidos.');
-      return [dbBookToBook(inboxBook)];
+    // If the user owns no book (only shared ones, or none at all), create their inbox
+    if (dbBooks.every(b => b.member_role)) {
+      const inboxBook = await db.createBook('inbox', 'Bandeja de Entrada', 'Notas sin clasificar y pensamientos rápidos.');
+      return [inboxBook, ...dbBooks].map(dbBookToBook);
     }
     
     return dbBooks.map(dbBookToBook);
@@ -101,129 +202,216 @@ export async function loadAllBooks(userId: string): Promise<Book[]> {
   }
 }
 
-export async function loadAllEntries(userId: string): Promise<Entry[]> {
-  try {
-    const dbEntries = await db.getAllEntries(userId);
-    
-    if (dbEntries.length === 0) {
-      return [];
+// Builds app entries with their tasks and entities loaded in two batch queries
+async function withTasksAndEntities(db: UserRepository, dbEntries: DbEntry[]): Promise<Entry[]> {
+  if (dbEntries.length === 0) {
+    return [];
+  }
+
+  const entryIds = dbEntries.map(e => e.id);
+  const [allTasks, allEntities] = await Promise.all([
+    db.getTasksByEntryIds(entryIds),
+    db.getEntitiesByEntryIds(entryIds),
+  ]);
+
+  // Group tasks and entities by entry_id
+  const tasksByEntry = new Map<string, TaskItem[]>();
+  const entitiesByEntry = new Map<string, Entity[]>();
+
+  allTasks.forEach(task => {
+    const entryId = task.entry_id;
+    if (!tasksByEntry.has(entryId)) {
+      tasksByEntry.set(entryId, []);
     }
-    
-    // Optimize: Load all tasks and entities in batch instead of per-entry queries
-    const entryIds = dbEntries.map(e => e.id);
-    const [allTasks, allEntities] = await Promise.all([
-      db.getTasksByEntryIds(entryIds),
-      db.getEntitiesByEntryIds(entryIds),
-    ]);
-    
-    // Group tasks and entities by entry_id
-    const tasksByEntry = new Map<string, TaskItem[]>();
-    const entitiesByEntry = new Map<string, Entity[]>();
-    
-    allTasks.forEach(task => {
-      const entryId = task.entry_id;
-      if (!tasksByEntry.has(entryId)) {
-        tasksByEntry.set(entryId, []);
-      }
-      tasksByEntry.get(entryId)!.push(dbTaskToTaskItem(task));
-    });
-    
-    allEntities.forEach(entity => {
-      const entryId = entity.entry_id;
-      if (!entitiesByEntry.has(entryId)) {
-        entitiesByEntry.set(entryId, []);
-      }
-      entitiesByEntry.get(entryId)!.push(dbEntityToEntity(entity));
-    });
-    
-    // Build entries with pre-loaded tasks and entities
-    const entries: Entry[] = dbEntries.map(dbEntry => 
-      dbEntryToEntry(
-        dbEntry,
-        tasksByEntry.get(dbEntry.id) || [],
-        entitiesByEntry.get(dbEntry.id) || []
-      )
-    );
-    
-    return entries;
+    tasksByEntry.get(entryId)!.push(dbTaskToTaskItem(task));
+  });
+
+  allEntities.forEach(entity => {
+    const entryId = entity.entry_id;
+    if (!entitiesByEntry.has(entryId)) {
+      entitiesByEntry.set(entryId, []);
+    }
+    entitiesByEntry.get(entryId)!.push(dbEntityToEntity(entity));
+  });
+
+  return dbEntries.map(dbEntry =>
+    dbEntryToEntry(
+      dbEntry,
+      tasksByEntry.get(dbEntry.id) || [],
+      entitiesByEntry.get(dbEntry.id) || []
+    )
+  );
+}
+
+// Load one page of entries, newest first, optionally narrowed to a book or thread.
+// Pass the previous page's nextCursor to continue where it stopped.
+export async function loadEntriesPage(
+  userId: string,
+  scope: EntryScope = {},
+  cursor?: string | null,
+  limit?: number
+): Promise<EntryPage> {
+  try {
+    const db = await getRepository(userId);
+    const page = await db.getEntriesPage({ ...scope, cursor, limit });
+    return {
+      entries: await withTasksAndEntities(db, page.entries),
+      nextCursor: page.nextCursor,
+    };
   } catch (error) {
-    console.error('Error loading entries:', error);
+    console.error('Error loading entries page:', error);
+    throw error;
+  }
+}
+
+// Load every entry that still has open tasks, whatever its age, so task lists
+// and reminders stay complete while the timeline is loaded page by page
+export async function loadEntriesWithOpenTasks(userId: string): Promise<Entry[]> {
+  try {
+    const db = await getRepository(userId);
+    const dbEntries: DbEntry[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await db.getEntriesPage({ withOpenTasks: true, cursor, limit: OPEN_TASK_ENTRIES_BATCH });
+      dbEntries.push(...page.entries);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return await withTasksAndEntities(db, dbEntries);
+  } catch (error) {
+    console.error('Error loading entries with open tasks:', error);
     return [];
   }
 }
 
-// Save entry with tasks and entities (user-scoped)
-// Note: Attachments are NOT saved - they're only used as context for AI analysis
-export async function saveEntry(
-  entry: Entry,
-  userId: string,
-  analysis: {
-    targetBookName: string;
-    type: NoteType;
-    summary: string;
-    tasks: { description: string; assignee?: string; dueDate?: string; priority?: string }[];
-    entities: { name: string; type: string }[];
+// Entry and task counts over every readable entry, for the dashboard and insights.
+// With `since`, also the counts of entries created from then on, split into days of `timeZone`.
+export async function loadEntryStats(userId: string, since?: number, timeZone?: string): Promise<EntryStats> {
+  try {
+    const db = await getRepository(userId);
+    const stats = await db.getEntryStats({
+      since: Number.isFinite(since) ? new Date(since!).toISOString() : undefined,
+      timeZone: timeZone && isTimeZone(timeZone) ? timeZone : undefined,
+    });
+    return dbEntryStatsToEntryStats(stats);
+  } catch (error) {
+    console.error('Error loading entry stats:', error);
+    throw error;
   }
-): Promise<void> {
+}
+
+function isTimeZone(value: string): boolean {
   try {
-    // Find or create book
-    let targetBook = await db.getBookById(entry.bookId, userId);
-    
-    if (!targetBook) {
-      // Try to find by name
-      const allBooks = await db.getAllBooks(userId);
-      const foundBook = allBooks.find(b => b.name.toLowerCase() === analysis.targetBookName.toLowerCase());
-      
-      if (foundBook) {
-        targetBook = foundBook;
-        entry.bookId = foundBook.id;
-      } else {
-        // Create new book
-        await db.createBook(entry.bookId, userId, analysis.targetBookName, undefined, undefined);
-        targetBook = await db.getBookById(entry.bookId, userId);
-      }
-    }
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-    // Save entry (without attachment - attachments are only used for AI context)
-    await db.createEntry(
-      entry.id,
-      userId,
-      entry.originalText,
-      entry.bookId,
-      entry.type,
-      entry.summary,
-      entry.status,
-      entry.threadId,
-      entry.aiRewrittenText
-    );
+// A capture that could not be saved. It was written in a single transaction,
+// so nothing of it is in the database and the same capture can be sent again.
+export class CaptureSaveError extends Error {
+  readonly retryable: boolean;
 
-    // Save tasks
-    for (const task of analysis.tasks) {
-      const taskId = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-      await db.createTask(
-        taskId,
-        entry.id,
-        task.description,
-        task.assignee,
-        task.dueDate,
-        task.priority || 'MEDIUM'
-      );
-    }
+  constructor(cause: unknown) {
+    const retryable = !(cause instanceof TenantAccessError);
+    super(retryable
+      ? 'No se pudo guardar la entrada. Revisa tu conexión e intenta de nuevo.'
+      : 'La libreta o el hilo elegido ya no existe. Elige otro y vuelve a guardar.');
+    this.name = 'CaptureSaveError';
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
 
-    // Save entities
-    for (const entity of analysis.entities) {
-      const entityId = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-      await db.createEntity(entityId, entry.id, entity.name, entity.type);
-    }
+// One entry of a capture. Its tasks and entities are saved with it.
+export interface CaptureTopic {
+  entry: Entry;
+  bookName: string; // Finds or creates the book when entry.bookId does not exist yet
+  newThread?: { id: string; title: string }; // Created together with the entry, which is put in it
+}
+
+export interface Capture {
+  topics: CaptureTopic[];
+  completedTasks: Array<{ taskId: string; completionNotes?: string }>; // Existing tasks closed by the capture
+}
+
+// Save a capture (user-scoped): books, threads, entries, tasks, entities and
+// completed tasks are committed together or not at all.
+// Returns the entries as saved, with their book resolved.
+// Note: Attachments are NOT saved - they're only used as context for AI analysis
+export async function saveEntries(userId: string, capture: Capture): Promise<Entry[]> {
+  try {
+    const db = await getRepository(userId);
+    const existingBooks = await db.getAllBooks();
+    const newBooks = new Map<string, { id: string; name: string }>();
+
+    const entries = capture.topics.map(({ entry, bookName, newThread }) => {
+      let bookId = entry.bookId;
+      if (!existingBooks.some(b => b.id === bookId)) {
+        // Find by name (also among the books this capture creates), otherwise
+        // create it under the id it was given
+        const sameName = (b: { name: string }) => b.name.toLowerCase() === bookName.toLowerCase();
+        const foundBook = existingBooks.find(sameName) || [...newBooks.values()].find(sameName);
+        if (foundBook) {
+          bookId = foundBook.id;
+        } else if (!newBooks.has(bookId)) {
+          newBooks.set(bookId, { id: bookId, name: bookName });
+        }
+      }
+      return { ...entry, bookId, threadId: newThread?.id ?? entry.threadId };
+    });
+
+    await db.saveCapture({
+      books: [...newBooks.values()],
+      threads: capture.topics.flatMap((topic, i) =>
+        topic.newThread ? [{ ...topic.newThread, bookId: entries[i].bookId }] : []
+      ),
+      entries: entries.map(entry => ({
+        id: entry.id,
+        originalText: entry.originalText,
+        bookId: entry.bookId,
+        type: entry.type,
+        summary: entry.summary,
+        status: entry.status,
+        statusReason: entry.statusReason,
+        threadId: entry.threadId,
+        aiRewrittenText: entry.aiRewrittenText,
+        promptVersion: entry.promptVersion,
+        // Tasks keep the IDs they were given on creation
+        tasks: entry.tasks.map(task => ({
+          id: task.id,
+          description: task.description,
+          assignee: task.assignee,
+          dueDate: task.dueDate,
+          priority: task.priority || 'MEDIUM',
+        })),
+        entities: entry.entities.map(entity => ({
+          id: entity.id || generateId(),
+          name: entity.name,
+          type: entity.type,
+        })),
+      })),
+      completedTasks: capture.completedTasks.map(({ taskId, completionNotes }) => ({ id: taskId, completionNotes })),
+    });
+
+    return entries;
   } catch (error) {
     console.error('Error saving entry:', error);
-    throw error;
+    throw new CaptureSaveError(error);
   }
 }
 
+// Save a single entry with its tasks and entities (user-scoped)
+export async function saveEntry(entry: Entry, userId: string, bookName: string): Promise<Entry> {
+  const [saved] = await saveEntries(userId, { topics: [{ entry, bookName }], completedTasks: [] });
+  return saved;
+}
+
 // Update task
-export async function updateTaskStatus(taskId: string, isDone: boolean, completionNotes?: string): Promise<void> {
+export async function updateTaskStatus(taskId: string, userId: string, isDone: boolean, completionNotes?: string): Promise<void> {
   try {
+    const db = await getRepository(userId);
     await db.updateTask(taskId, { isDone, completionNotes });
   } catch (error) {
     console.error('Error updating task:', error);
@@ -233,10 +421,12 @@ export async function updateTaskStatus(taskId: string, isDone: boolean, completi
 
 // Update task fields (assignee, dueDate, priority, description)
 export async function updateTaskFields(
-  taskId: string, 
+  taskId: string,
+  userId: string,
   updates: { assignee?: string; dueDate?: string; priority?: string; description?: string }
 ): Promise<void> {
   try {
+    const db = await getRepository(userId);
     await db.updateTask(taskId, updates);
   } catch (error) {
     console.error('Error updating task fields:', error);
@@ -245,8 +435,9 @@ export async function updateTaskFields(
 }
 
 // Delete task
-export async function deleteTaskFromDb(taskId: string): Promise<void> {
+export async function deleteTaskFromDb(taskId: string, userId: string): Promise<void> {
   try {
+    const db = await getRepository(userId);
     await db.deleteTask(taskId);
   } catch (error) {
     console.error('Error deleting task:', error);
@@ -255,8 +446,9 @@ export async function deleteTaskFromDb(taskId: string): Promise<void> {
 }
 
 // Update entry (user-scoped)
-export async function updateEntryInDb(entryId: string, updates: { threadId?: string | null; aiRewrittenText?: string | null }): Promise<void> {
+export async function updateEntryInDb(entryId: string, userId: string, updates: { summary?: string; type?: NoteType; threadId?: string | null; aiRewrittenText?: string | null }): Promise<void> {
   try {
+    const db = await getRepository(userId);
     await db.updateEntry(entryId, updates);
   } catch (error) {
     console.error('Error updating entry:', error);
@@ -267,7 +459,8 @@ export async function updateEntryInDb(entryId: string, updates: { threadId?: str
 // Delete entry (user-scoped)
 export async function deleteEntryFromDb(entryId: string, userId: string): Promise<void> {
   try {
-    await db.deleteEntry(entryId, userId);
+    const db = await getRepository(userId);
+    await db.deleteEntry(entryId);
   } catch (error) {
     console.error('Error deleting entry:', error);
     throw error;
@@ -350,44 +543,52 @@ export async function searchEntriesSemantic(
     console.error('Error in semantic search, falling back to text search:', error);
     // Fallback to text search
     const textResults = await searchEntriesInDb(userId, { query, ...filters });
-    return textResults.map(entry => ({ entry, score: 1.0 }));
+    return textResults.map(result => ({ entry: result.entry, score: result.rank }));
   }
 }
 
-// Search entries (user-scoped)
+// Search entries (user-scoped), ranked by relevance.
+// `query` uses the search query language (libreta:, tipo:, @persona, desde:, ...)
 export async function searchEntriesInDb(userId: string, filters: {
   query?: string;
   bookId?: string;
   type?: NoteType;
   dateFrom?: string;
   dateTo?: string;
-}): Promise<Entry[]> {
+  assignee?: string;
+}): Promise<SearchResult[]> {
   try {
-    const dbEntries = await db.searchEntries(
-      filters.query || '',
+    const db = await getRepository(userId);
+    const dbResults = await db.searchEntries(
+      toSearchCriteria(parseSearchQuery(filters.query || '')),
       {
-        userId,
         bookId: filters.bookId,
         type: filters.type,
         dateFrom: filters.dateFrom,
         dateTo: filters.dateTo,
+        assignee: filters.assignee,
       }
     );
 
-    const entries: Entry[] = [];
-    
-    for (const dbEntry of dbEntries) {
-      const tasks = await db.getTasksByEntryId(dbEntry.id);
-      const entities = await db.getEntitiesByEntryId(dbEntry.id);
-      
-      entries.push(dbEntryToEntry(
-        dbEntry,
-        tasks.map(dbTaskToTaskItem),
-        entities.map(dbEntityToEntity)
-      ));
+    if (dbResults.length === 0) {
+      return [];
     }
-    
-    return entries;
+
+    const entryIds = dbResults.map(r => r.id);
+    const [allTasks, allEntities] = await Promise.all([
+      db.getTasksByEntryIds(entryIds),
+      db.getEntitiesByEntryIds(entryIds),
+    ]);
+
+    return dbResults.map(({ rank, snippet, ...dbEntry }) => ({
+      entry: dbEntryToEntry(
+        dbEntry,
+        allTasks.filter(t => t.entry_id === dbEntry.id).map(dbTaskToTaskItem),
+        allEntities.filter(e => e.entry_id === dbEntry.id).map(dbEntityToEntity)
+      ),
+      rank,
+      snippet: snippet || undefined,
+    }));
   } catch (error) {
     console.error('Error searching entries:', error);
     return [];
@@ -395,8 +596,9 @@ export async function searchEntriesInDb(userId: string, filters: {
 }
 
 // Get all tasks
-export async function getAllTasksFromDb(filters?: { isDone?: boolean; bookId?: string }): Promise<TaskItem[]> {
+export async function getAllTasksFromDb(userId: string, filters?: { isDone?: boolean; bookId?: string }): Promise<TaskItem[]> {
   try {
+    const db = await getRepository(userId);
     const dbTasks = await db.getAllTasks(filters);
     return dbTasks.map(dbTaskToTaskItem);
   } catch (error) {
@@ -408,8 +610,9 @@ export async function getAllTasksFromDb(filters?: { isDone?: boolean; bookId?: s
 // Create book (user-scoped)
 export async function createBook(id: string, userId: string, name: string, description?: string, folderId?: string): Promise<Book> {
   try {
-    await db.createBook(id, userId, name, description, undefined, folderId);
-    const dbBook = await db.getBookById(id, userId);
+    const db = await getRepository(userId);
+    await db.createBook(id, name, description, folderId);
+    const dbBook = await db.getBookById(id);
     if (!dbBook) throw new Error('Book not created');
     return dbBookToBook(dbBook);
   } catch (error) {
@@ -418,10 +621,22 @@ export async function createBook(id: string, userId: string, name: string, descr
   }
 }
 
+// Moves the book, its entries and threads to the trash
+export async function deleteBook(id: string, userId: string): Promise<void> {
+  try {
+    const db = await getRepository(userId);
+    await db.deleteBook(id);
+  } catch (error) {
+    console.error('Error deleting book:', error);
+    throw error;
+  }
+}
+
 // Folders operations (user-scoped)
 export async function loadAllFolders(userId: string): Promise<Folder[]> {
   try {
-    const dbFolders = await db.getAllFolders(userId);
+    const db = await getRepository(userId);
+    const dbFolders = await db.getAllFolders();
     return dbFolders.map(dbFolderToFolder);
   } catch (error) {
     console.error('Error loading folders:', error);
@@ -431,8 +646,9 @@ export async function loadAllFolders(userId: string): Promise<Folder[]> {
 
 export async function createFolder(id: string, userId: string, name: string, color?: string): Promise<Folder> {
   try {
-    await db.createFolder(id, userId, name, color);
-    const dbFolder = await db.getFolderById(id, userId);
+    const db = await getRepository(userId);
+    await db.createFolder(id, name, color);
+    const dbFolder = await db.getFolderById(id);
     if (!dbFolder) throw new Error('Folder not created');
     return dbFolderToFolder(dbFolder);
   } catch (error) {
@@ -441,8 +657,9 @@ export async function createFolder(id: string, userId: string, name: string, col
   }
 }
 
-export async function updateFolder(id: string, updates: { name?: string; color?: string }): Promise<void> {
+export async function updateFolder(id: string, userId: string, updates: { name?: string; color?: string }): Promise<void> {
   try {
+    const db = await getRepository(userId);
     await db.updateFolder(id, updates);
   } catch (error) {
     console.error('Error updating folder:', error);
@@ -452,15 +669,17 @@ export async function updateFolder(id: string, updates: { name?: string; color?:
 
 export async function deleteFolder(id: string, userId: string): Promise<void> {
   try {
-    await db.deleteFolder(id, userId);
+    const db = await getRepository(userId);
+    await db.deleteFolder(id);
   } catch (error) {
     console.error('Error deleting folder:', error);
     throw error;
   }
 }
 
-export async function updateBookFolder(bookId: string, folderId: string | null): Promise<void> {
+export async function updateBookFolder(bookId: string, userId: string, folderId: string | null): Promise<void> {
   try {
+    const db = await getRepository(userId);
     await db.updateBook(bookId, { folderId: folderId || undefined });
   } catch (error) {
     console.error('Error updating book folder:', error);
@@ -471,7 +690,8 @@ export async function updateBookFolder(bookId: string, folderId: string | null):
 // Threads operations (user-scoped)
 export async function loadAllThreads(userId: string): Promise<Thread[]> {
   try {
-    const dbThreads = await db.getAllThreads(userId);
+    const db = await getRepository(userId);
+    const dbThreads = await db.getAllThreads();
     return dbThreads.map(dbThreadToThread);
   } catch (error) {
     console.error('Error loading threads:', error);
@@ -481,7 +701,8 @@ export async function loadAllThreads(userId: string): Promise<Thread[]> {
 
 export async function getThreadById(id: string, userId: string): Promise<Thread | null> {
   try {
-    const dbThread = await db.getThreadById(id, userId);
+    const db = await getRepository(userId);
+    const dbThread = await db.getThreadById(id);
     return dbThread ? dbThreadToThread(dbThread) : null;
   } catch (error) {
     console.error('Error getting thread:', error);
@@ -491,7 +712,8 @@ export async function getThreadById(id: string, userId: string): Promise<Thread
 
 export async function getThreadsByBookId(bookId: string, userId: string): Promise<Thread[]> {
   try {
-    const dbThreads = await db.getThreadsByBookId(bookId, userId);
+    const db = await getRepository(userId);
+    const dbThreads = await db.getThreadsByBookId(bookId);
     return dbThreads.map(dbThreadToThread);
   } catch (error) {
     console.error('Error loading threads by book:', error);
@@ -501,8 +723,9 @@ export async function getThreadsByBookId(bookId: string, userId: string): Promis
 
 export async function createThread(id: string, userId: string, title: string, bookId: string): Promise<Thread> {
   try {
-    await db.createThread(id, userId, title, bookId);
-    const dbThread = await db.getThreadById(id, userId);
+    const db = await getRepository(userId);
+    await db.createThread(id, title, bookId);
+    const dbThread = await db.getThreadById(id);
     if (!dbThread) throw new Error('Thread not created');
     return dbThreadToThread(dbThread);
   } catch (error) {
@@ -511,8 +734,9 @@ export async function createThread(id: string, userId: string, title: string, bo
   }
 }
 
-export async function updateThread(id: string, updates: { title?: string }): Promise<void> {
+export async function updateThread(id: string, userId: string, updates: { title?: string }): Promise<void> {
   try {
+    const db = await getRepository(userId);
     await db.updateThread(id, updates);
   } catch (error) {
     console.error('Error updating thread:', error);
@@ -522,7 +746,8 @@ export async function updateThread(id: string, updates: { title?: string }): Pro
 
 export async function deleteThread(id: string, userId: string): Promise<void> {
   try {
-    await db.deleteThread(id, userId);
+    const db = await getRepository(userId);
+    await db.deleteThread(id);
   } catch (error) {
     console.error('Error deleting thread:', error);
     throw error;
@@ -532,6 +757,7 @@ export async function deleteThread(id: string, userId: string): Promise<void> {
 // Get related entries for an entry
 export async function getRelatedEntriesForEntry(entryId: string, userId: string, limit: number = 5): Promise<Array<{ entry: Entry; relation: { strength: number } }>> {
   try {
+    const db = await getRepository(userId);
     const related = await db.getRelatedEntries(entryId, limit, 0.5);
     
     if (related.length === 0) {
@@ -584,7 +810,8 @@ export async function getRelatedEntriesForEntry(entryId: string, userId: string,
 
 export async function getEntriesByThreadId(threadId: string, userId: string): Promise<Entry[]> {
   try {
-    const dbEntries = await db.getEntriesByThreadId(threadId, userId);
+    const db = await getRepository(userId);
+    const dbEntries = await db.getEntriesByThreadId(threadId);
     
     if (dbEntries.length === 0) {
       return [];
@@ -633,3 +860,286 @@ export async function getEntriesByThreadId(threadId: string, userId: string): Pr
   }
 }
 
+// Entry revision history
+// Every change to an entry (fields, tasks or entities) is stored as a full
+// snapshot of the resulting state; diffs are computed between consecutive snapshots.
+
+export interface RevisionAuthor {
+  id: string;
+  name?: string;
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+
+// Fixed key order and no undefined values, so snapshots compare by JSON
+// (JSONB does not preserve key order)
+function normalizeSnapshot(snapshot: EntrySnapshot): EntrySnapshot {
+  return {
+    summary: snapshot.summary,
+    type: snapshot.type,
+    status: snapshot.status,
+    threadId: snapshot.threadId || undefined,
+    aiRewrittenText: snapshot.aiRewrittenText || undefined,
+    tasks: (snapshot.tasks || []).map(task => ({
+      id: task.id,
+      description: task.description,
+      assignee: task.assignee || undefined,
+      dueDate: task.dueDate || undefined,
+      isDone: !!task.isDone,
+      priority: task.priority || undefined,
+      completionNotes: task.completionNotes || undefined,
+    })),
+    entities: (snapshot.entities || []).map(entity => ({
+      id: entity.id,
+      name: entity.name,
+      type: entity.type,
+    })),
+  };
+}
+
+export function entryToSnapshot(entry: Entry): EntrySnapshot {
+  return normalizeSnapshot(entry);
+}
+
+async function loadEntry(entryId: string, userId: string): Promise<Entry | null> {
+  const db = await getRepository(userId);
+  const dbEntry = await db.getEntryById(entryId);
+  if (!dbEntry) return null;
+
+  const [tasks, entities] = await Promise.all([
+    db.getTasksByEntryId(entryId),
+    db.getEntitiesByEntryId(entryId),
+  ]);
+  return dbEntryToEntry(dbEntry, tasks.map(dbTaskToTaskItem), entities.map(dbEntityToEntity));
+}
+
+// Stores the entry's current state as a new revision, unless nothing changed since the last one.
+// Never throws: history must not block edits.
+export async function recordEntryRevision(
+  entryId: string,
+  userId: string,
+  author: RevisionAuthor | null,
+  reason?: string
+): Promise<EntryRevision | null> {
+  try {
+    const db = await getRepository(userId);
+    const entry = await loadEntry(entryId, userId);
+    if (!entry) return null;
+
+    const snapshot = entryToSnapshot(entry);
+    const latest = await db.getLatestEntryRevision(entryId);
+    if (latest && JSON.stringify(normalizeSnapshot(latest.snapshot)) === JSON.stringify(snapshot)) {
+      return null;
+    }
+
+    const revision = await db.createEntryRevision(generateId(), entryId, snapshot, author?.id, author?.name, reason);
+    return dbRevisionToRevision(revision);
+  } catch (error) {
+    console.error('Error recording entry revision:', error);
+    return null;
+  }
+}
+
+// Entries created before revisions existed get their current state saved
+// before the first change, so the history shows what it was changed from
+export async function recordBaselineRevision(entryId: string, userId: string): Promise<void> {
+  try {
+    const db = await getRepository(userId);
+    if (!(await db.getLatestEntryRevision(entryId))) {
+      await recordEntryRevision(entryId, userId, null, 'Versión anterior al historial');
+    }
+  } catch (error) {
+    console.error('Error recording baseline revision:', error);
+  }
+}
+
+// Runs a change to an entry and records the result in its history.
+// Entries created before revisions existed get their prior state saved first.
+export async function withEntryRevision<T>(
+  entryId: string,
+  userId: string,
+  author: RevisionAuthor | null,
+  reason: string,
+  change: () => Promise<T>
+): Promise<T> {
+  await recordBaselineRevision(entryId, userId);
+  const result = await change();
+  await recordEntryRevision(entryId, userId, author, reason);
+  return result;
+}
+
+export async function getEntryRevisions(entryId: string, userId: string): Promise<EntryRevision[]> {
+  try {
+    const db = await getRepository(userId);
+    const revisions = await db.getEntryRevisions(entryId);
+    return revisions.map(dbRevisionToRevision);
+  } catch (error) {
+    console.error('Error loading entry revisions:', error);
+    return [];
+  }
+}
+
+// Puts the entry, its tasks and its entities back to the state of a previous revision.
+// The restore itself is recorded as a new revision, so it can be undone the same way.
+export async function restoreEntryRevision(
+  entryId: string,
+  revisionId: string,
+  userId: string,
+  author: RevisionAuthor
+): Promise<Entry> {
+  try {
+    const db = await getRepository(userId);
+    const revision = (await db.getEntryRevisions(entryId)).find(r => r.id === revisionId);
+    if (!revision) {
+      throw new Error('Revisión no encontrada');
+    }
+    const snapshot = normalizeSnapshot(revision.snapshot);
+
+    await withEntryRevision(entryId, userId, author, `Restaurada la revisión ${revision.revision_number}`, async () => {
+      // The thread may have been deleted since
+      const thread = snapshot.threadId ? await db.getThreadById(snapshot.threadId) : null;
+      await db.updateEntry(entryId, {
+        summary: snapshot.summary,
+        type: snapshot.type,
+        status: snapshot.status,
+        threadId: thread ? thread.id : null,
+        aiRewrittenText: snapshot.aiRewrittenText || null,
+      });
+
+      // Tasks and entities are replaced wholesale, keeping their original IDs.
+      // Delegations are not part of the history: tasks that survive keep theirs.
+      const currentTasks = await db.getTasksByEntryId(entryId);
+      const delegations = new Map(currentTasks.filter(t => t.assignee_user_id).map(t => [t.id, t.assignee_user_id!]));
+      for (const task of currentTasks) {
+        await db.deleteTask(task.id);
+      }
+      for (const task of snapshot.tasks) {
+        const taskId = task.id || generateId();
+        await db.createTask(taskId, entryId, task.description, task.assignee, task.dueDate, task.priority || 'MEDIUM');
+        if (task.isDone || task.completionNotes) {
+          await db.updateTask(taskId, { isDone: task.isDone, completionNotes: task.completionNotes });
+        }
+        const delegatedTo = delegations.get(taskId);
+        if (delegatedTo) {
+          await db.delegateTask(taskId, delegatedTo);
+        }
+      }
+
+      await db.deleteEntitiesByEntryId(entryId);
+      for (const entity of snapshot.entities) {
+        await db.createEntity(entity.id || generateId(), entryId, entity.name, entity.type);
+      }
+    });
+
+    const restored = await loadEntry(entryId, userId);
+    if (!restored) {
+      throw new Error('Entrada no encontrada');
+    }
+    return restored;
+  } catch (error) {
+    console.error('Error restoring entry revision:', error);
+    throw error;
+  }
+}
+
+// Entry comments (books shared with commenters or editors)
+export async function getEntryComments(entryId: string, userId: string): Promise<EntryComment[]> {
+  try {
+    const db = await getRepository(userId);
+    const comments = await db.getEntryComments(entryId);
+    return comments.map(dbCommentToComment);
+  } catch (error) {
+    console.error('Error loading entry comments:', error);
+    return [];
+  }
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export async function addEntryComment(id: string, entryId: string, userId: string, text: string): Promise<EntryComment> {
+  try {
+    const trimmed = text.trim().slice(0, MAX_COMMENT_LENGTH);
+    if (!trimmed) {
+      throw new Error('El comentario está vacío');
+    }
+    const db = await getRepository(userId);
+    const comment = await db.createEntryComment(id, entryId, trimmed);
+    return dbCommentToComment(comment);
+  } catch (error) {
+    console.error('Error adding entry comment:', error);
+    throw error;
+  }
+}
+
+export async function deleteEntryComment(id: string, userId: string): Promise<void> {
+  try {
+    const db = await getRepository(userId);
+    await db.deleteEntryComment(id);
+  } catch (error) {
+    console.error('Error deleting entry comment:', error);
+    throw error;
+  }
+}
+
+// Trash
+// Deleted items stay restorable for TRASH_RETENTION_DAYS (default 30)
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function getTrashRetentionDays(): number {
+  const days = Number(getServerEnv('TRASH_RETENTION_DAYS'));
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function getTrash(userId: string): Promise<TrashItem[]> {
+  try {
+    const db = await getRepository(userId);
+    const items = await db.getTrash();
+    return items.map(dbTrashItemToTrashItem);
+  } catch (error) {
+    console.error('Error loading trash:', error);
+    return [];
+  }
+}
+
+export async function restoreFromTrash(type: TrashItemType, id: string, userId: string): Promise<void> {
+  try {
+    const db = await getRepository(userId);
+    await db.restoreFromTrash(type, id);
+  } catch (error) {
+    console.error('Error restoring from trash:', error);
+    throw error;
+  }
+}
+
+export async function purgeFromTrash(type: TrashItemType, id: string, userId: string): Promise<void> {
+  try {
+    const db = await getRepository(userId);
+    await db.purgeFromTrash(type, id);
+  } catch (error) {
+    console.error('Error purging from trash:', error);
+    throw error;
+  }
+}
+
+export async function emptyTrash(userId: string): Promise<void> {
+  try {
+    const db = await getRepository(userId);
+    await db.purgeTrash();
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    throw error;
+  }
+}
+
+// Permanently removes items that have been in the trash longer than the retention period.
+// Runs on start-up; a failure only delays the purge until the next session.
+export async function purgeExpiredTrash(userId: string): Promise<void> {
+  try {
+    const db = await getRepository(userId);
+    const cutoff = new Date(Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+    await db.purgeTrash(cutoff);
+  } catch (error) {
+    console.error('Error purging expired trash:', error);
+  }
+}
@@ -1,29 +1,15 @@
 import { neon } from '@neondatabase/serverless';
+import { runPendingMigrations } from './migrator';
+import { TenantAccessError, DEFAULT_ENTRY_PAGE_SIZE, DEFAULT_TOP_ENTITIES } from './storage';
+import { getServerEnv } from './env';
+import { bookRolesAllowing } from './permissions';
+import { SNIPPET_HIGHLIGHT, SearchCriteria, EntrySnapshot, TrashItemType } from '../types';
 
-// Initialize Neon client
-// Get from process.env (Node.js) or import.meta.env (Vite/browser)
-function getDatabaseUrl(): string | undefined {
-  // Node.js environment
-  if (typeof process !== 'undefined' && process.env?.VITE_NEON_DATABASE_URL) {
-    return process.env.VITE_NEON_DATABASE_URL;
-  }
-  // Vite/browser environment
-  try {
-    // @ts-ignore - import.meta is available in Vite
-    if (import.meta?.env?.VITE_NEON_DATABASE_URL) {
-      // @ts-ignore
-      return import.meta.env.VITE_NEON_DATABASE_URL;
-    }
-  } catch (e) {
-    // Ignore
-  }
-  return undefined;
-}
-
-const databaseUrl = getDatabaseUrl();
+// Initialize Neon client (server only, see services/env.ts)
+const databaseUrl = getServerEnv('NEON_DATABASE_URL');
 
 if (!databaseUrl) {
-  console.warn('VITE_NEON_DATABASE_URL not found. Database operations will fail.');
+  console.warn('NEON_DATABASE_URL not found. Database operations will fail.');
 }
 
 const sql = databaseUrl ? neon(databaseUrl) : null;
@@ -31,11 +17,21 @@ const sql = databaseUrl ? neon(databaseUrl) : null;
 // Helper to check if database is available
 function requireDb() {
   if (!sql) {
-    throw new Error('Database not configured. Please set VITE_NEON_DATABASE_URL');
+    throw new Error('Database not configured. Please set NEON_DATABASE_URL');
   }
   return sql;
 }
 
+// Postgres error code raised when a NOT NULL column gets NULL
+const NOT_NULL_VIOLATION = '23502';
+
+// Member roles that can read, comment on or write to a shared book. Queries
+// pass them to accessible_book_ids() (migration 021), which adds the user's
+// own books; entries, threads and everything under them follow their book.
+const READ_ROLES = bookRolesAllowing('read');
+const COMMENT_ROLES = bookRolesAllowing('comment');
+const WRITE_ROLES = bookRolesAllowing('write');
+
 export interface DbFolder {
   id: string;
   user_id: string;
@@ -43,6 +39,7 @@ export interface DbFolder {
   color: string | null;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null; // Set while the row is in the trash
 }
 
 export interface DbBook {
@@ -54,6 +51,17 @@ export interface DbBook {
   folder_id: string | null;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null; // Set while the row is in the trash
+  member_role?: string | null; // The user's role when the book is shared with them; null on their own books
+  member_count?: number; // Users the book is shared with (listings only)
+}
+
+export interface DbBookMember {
+  book_id: string;
+  user_id: string;
+  role: string;
+  invited_by: string | null;
+  created_at: string;
 }
 
 export interface DbEntry {
@@ -64,10 +72,22 @@ export interface DbEntry {
   type: string;
   summary: string;
   status: string;
+  status_reason: string | null; // Why the entry is in the ERROR status
   thread_id: string | null;
   ai_rewritten_text: string | null;
+  prompt_version: string | null; // Prompt that analyzed the entry, as name@version/locale
   created_at: string;
   updated_at: string;
+  deleted_at: string | null; // Set while the row is in the trash
+}
+
+export interface DbSearchResult extends DbEntry {
+  rank: number;
+  snippet: string | null;
+}
+
+export interface DbSimilarEntry extends DbEntry {
+  similarity: number; // cosine similarity, 1 = identical
 }
 
 export interface DbThread {
@@ -77,6 +97,7 @@ export interface DbThread {
   book_id: string;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null; // Set while the row is in the trash
 }
 
 export interface DbTask {
@@ -88,9 +109,20 @@ export interface DbTask {
   is_done: boolean;
   priority: string | null;
   completion_notes: string | null;
+  assignee_user_id: string | null; // Registered user the task is delegated to
+  delegated_by: string | null;
   created_at: string;
 }
 
+// A task delegated to the user, with the entry and book it belongs to
+export interface DbAssignedTask extends DbTask {
+  book_id: string;
+  book_name: string;
+  entry_type: string;
+  entry_summary: string;
+  entry_created_at: string;
+}
+
 export interface DbEntity {
   id: string;
   entry_id: string;
@@ -102,7 +134,7 @@ export interface DbEntity {
 export interface DbEmbedding {
   id: string;
   entry_id: string;
-  embedding: string; // JSON array as string
+  embedding: string; // pgvector text form "[0.1,0.2,...]" (also valid JSON)
   model: string;
   created_at: string;
 }
@@ -115,6 +147,34 @@ export interface DbEntryRelation {
   created_at: string;
 }
 
+export interface DbEntryComment {
+  id: string;
+  entry_id: string;
+  user_id: string; // Author
+  text: string;
+  created_at: string;
+}
+
+export interface DbEntryRevision {
+  id: string;
+  entry_id: string;
+  revision_number: number;
+  author_id: string | null;
+  author_name: string | null;
+  reason: string | null;
+  snapshot: EntrySnapshot;
+  created_at: string;
+}
+
+export interface DbTrashItem {
+  item_type: TrashItemType;
+  id: string;
+  title: string;
+  book_id: string | null;
+  child_count: number;
+  deleted_at: string;
+}
+
 // Initialize database schema
 export async function initDatabase() {
   if (!sql) {
@@ -123,223 +183,8 @@ export async function initDatabase() {
   }
   
   try {
-    const db = requireDb();
-    // Create folders table (with user_id for multi-user support)
-    await db`
-      CREATE TABLE IF NOT EXISTS folders (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        name TEXT NOT NULL,
-        color TEXT,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create books table (with user_id for multi-user support)
-    await db`
-      CREATE TABLE IF NOT EXISTS books (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        name TEXT NOT NULL,
-        description TEXT,
-        context TEXT,
-        folder_id TEXT REFERENCES folders(id) ON DELETE SET NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create entries table (with user_id for multi-user support)
-    await db`
-      CREATE TABLE IF NOT EXISTS entries (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        original_text TEXT NOT NULL,
-        book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
-        type TEXT NOT NULL,
-        summary TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'COMPLETED',
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create tasks table
-    await db`
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
-        description TEXT NOT NULL,
-        assignee TEXT,
-        due_date DATE,
-        is_done BOOLEAN DEFAULT FALSE,
-        priority TEXT DEFAULT 'MEDIUM',
-        completion_notes TEXT,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-    
-    // Add completion_notes column if it doesn't exist (for existing databases)
-    // PostgreSQL/Neon doesn't support IF NOT EXISTS in ALTER TABLE, so we check first
-    try {
-      const columnExists = await db`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = 'tasks' AND column_name = 'completion_notes'
-      `;
-      if (columnExists.length === 0) {
-        await db`ALTER TABLE tasks ADD COLUMN completion_notes TEXT`;
-      }
-    } catch (error) {
-      // Column might already exist or table doesn't exist yet, ignore
-      console.log('Note: completion_notes column check skipped:', error);
-    }
-
-    // Create entities table (people, companies, etc.)
-    await db`
-      CREATE TABLE IF NOT EXISTS entities (
-        id TEXT PRIMARY KEY,
-        entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create threads table (conversation threads)
-    await db`
-      CREATE TABLE IF NOT EXISTS threads (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        title TEXT NOT NULL,
-        book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create entry_embeddings table
-    await db`
-      CREATE TABLE IF NOT EXISTS entry_embeddings (
-        id TEXT PRIMARY KEY,
-        entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
-        embedding TEXT NOT NULL,
-        model TEXT NOT NULL DEFAULT 'text-embedding-3-small',
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create entry_relations table (graph-lite)
-    await db`
-      CREATE TABLE IF NOT EXISTS entry_relations (
-        id TEXT PRIMARY KEY,
-        source_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
-        target_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
-        relation_strength REAL NOT NULL CHECK (relation_strength >= 0.0 AND relation_strength <= 1.0),
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(source_id, target_id)
-      )
-    `;
-
-    // Create person_summaries table (cache for AI-generated person interaction summaries)
-    await db`
-      CREATE TABLE IF NOT EXISTS person_summaries (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        person_name TEXT NOT NULL,
-        summary TEXT NOT NULL,
-        entries_hash TEXT NOT NULL,
-        last_entry_timestamp BIGINT NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(user_id, person_name)
-      )
-    `;
-
-    // Add thread_id column to entries table if it doesn't exist (migration)
-    try {
-      const threadIdColumnExists = await db`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = 'entries' AND column_name = 'thread_id'
-      `;
-      if (threadIdColumnExists.length === 0) {
-        await db`ALTER TABLE entries ADD COLUMN thread_id TEXT REFERENCES threads(id) ON DELETE SET NULL`;
-      }
-    } catch (error) {
-      console.log('Note: thread_id column check skipped:', error);
-    }
-
-    // Add ai_rewritten_text column to entries table if it doesn't exist (migration)
-    try {
-      const aiRewrittenColumnExists = await db`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = 'entries' AND column_name = 'ai_rewritten_text'
-      `;
-      if (aiRewrittenColumnExists.length === 0) {
-        await db`ALTER TABLE entries ADD COLUMN ai_rewritten_text TEXT`;
-      }
-    } catch (error) {
-      console.log('Note: ai_rewritten_text column check skipped:', error);
-    }
-
-    // Remove context column from books table (migration)
-    // Note: We can't directly drop columns in PostgreSQL without checking first
-    // This is a soft removal - we'll stop using it but won't drop it to avoid data loss
-    // The column will remain but won't be used in new code
-
-    // Add folder_id column to books table if it doesn't exist (migration)
-    try {
-      await db`
-        ALTER TABLE books 
-        ADD COLUMN IF NOT EXISTS folder_id TEXT REFERENCES folders(id) ON DELETE SET NULL
-      `;
-    } catch (error) {
-      // If column already exists or table doesn't support IF NOT EXISTS, try without it
-      try {
-        const checkColumn = await db`
-          SELECT column_name 
-          FROM information_schema.columns 
-          WHERE table_name = 'books' AND column_name = 'folder_id'
-        `;
-        if (checkColumn.length === 0) {
-          await db`ALTER TABLE books ADD COLUMN folder_id TEXT REFERENCES folders(id) ON DELETE SET NULL`;
-        }
-      } catch (e) {
-        console.warn('Could not add folder_id column (may already exist):', e);
-      }
-    }
-
-    // Create indexes
-    await db`CREATE INDEX IF NOT EXISTS idx_folders_user_id ON folders(user_id)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_books_user_id ON books(user_id)`;
-    try {
-      await db`CREATE INDEX IF NOT EXISTS idx_books_folder_id ON books(folder_id)`;
-    } catch (e) {
-      console.warn('Could not create folder_id index (may already exist):', e);
-    }
-    await db`CREATE INDEX IF NOT EXISTS idx_entries_user_id ON entries(user_id)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_entries_book_id ON entries(book_id)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_entries_created_at ON entries(created_at DESC)`;
-    try {
-      await db`CREATE INDEX IF NOT EXISTS idx_entries_thread_id ON entries(thread_id)`;
-    } catch (e) {
-      console.warn('Could not create thread_id index (may already exist):', e);
-    }
-    await db`CREATE INDEX IF NOT EXISTS idx_tasks_entry_id ON tasks(entry_id)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_tasks_is_done ON tasks(is_done)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_entities_entry_id ON entities(entry_id)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_threads_user_id ON threads(user_id)`;
-    try {
-      await db`CREATE INDEX IF NOT EXISTS idx_threads_book_id ON threads(book_id)`;
-    } catch (e) {
-      console.warn('Could not create threads book_id index (may already exist):', e);
-    }
-    await db`CREATE INDEX IF NOT EXISTS idx_entry_embeddings_entry_id ON entry_embeddings(entry_id)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_entry_relations_source_id ON entry_relations(source_id)`;
-    await db`CREATE INDEX IF NOT EXISTS idx_entry_relations_target_id ON entry_relations(target_id)`;
+    // Schema changes live in services/migrations; only pending ones are applied
+    await runPendingMigrations(requireDb());
 
     // Note: Default inbox book will be created per user when they first use the app
 
@@ -351,114 +196,325 @@ export async function initDatabase() {
   }
 }
 
-// Books operations (now user-scoped)
+// Books operations: the user's own books plus those shared with them.
+// Only the owner (books.user_id) renames, moves, shares or deletes a book.
 export async function getAllBooks(userId: string): Promise<DbBook[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM books WHERE user_id = ${userId} ORDER BY created_at DESC`;
-  return result as DbBook[];
+  const result = await db`
+    SELECT b.*, m.role AS member_role,
+      (SELECT COUNT(*) FROM book_members bm WHERE bm.book_id = b.id)::int AS member_count
+    FROM books b
+    LEFT JOIN book_members m ON m.book_id = b.id AND m.user_id = ${userId}
+    WHERE (b.user_id = ${userId} OR m.user_id IS NOT NULL) AND b.deleted_at IS NULL
+    ORDER BY b.created_at DESC
+  `;
+  return (result as DbBook[]).map(row => ({ ...row, member_count: Number(row.member_count) }));
 }
 
 export async function getBookById(id: string, userId: string): Promise<DbBook | null> {
   const db = requireDb();
-  const result = await db`SELECT * FROM books WHERE id = ${id} AND user_id = ${userId} LIMIT 1` as DbBook[];
-  return result[0] || null;
+  const result = await db`
+    SELECT b.*, m.role AS member_role,
+      (SELECT COUNT(*) FROM book_members bm WHERE bm.book_id = b.id)::int AS member_count
+    FROM books b
+    LEFT JOIN book_members m ON m.book_id = b.id AND m.user_id = ${userId}
+    WHERE b.id = ${id} AND (b.user_id = ${userId} OR m.user_id IS NOT NULL) AND b.deleted_at IS NULL
+    LIMIT 1
+  ` as DbBook[];
+  return result[0] ? { ...result[0], member_count: Number(result[0].member_count) } : null;
 }
 
 export async function createBook(id: string, userId: string, name: string, description?: string, folderId?: string): Promise<DbBook> {
   const db = requireDb();
-  await db`
+  const result = await db`
     INSERT INTO books (id, user_id, name, description, folder_id)
-    VALUES (${id}, ${userId}, ${name}, ${description || null}, ${folderId || null})
-  `;
-  const result = await db`SELECT * FROM books WHERE id = ${id} AND user_id = ${userId} LIMIT 1` as DbBook[];
+    SELECT ${id}, ${userId}, ${name}, ${description || null}, ${folderId || null}
+    WHERE ${folderId || null}::text IS NULL
+      OR EXISTS (SELECT 1 FROM folders WHERE id = ${folderId || null} AND user_id = ${userId})
+    RETURNING *
+  ` as DbBook[];
+  if (!result[0]) throw new TenantAccessError(`Folder ${folderId}`);
   return result[0];
 }
 
 // Folders operations (user-scoped)
 export async function getAllFolders(userId: string): Promise<DbFolder[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM folders WHERE user_id = ${userId} ORDER BY name ASC`;
+  const result = await db`SELECT * FROM folders WHERE user_id = ${userId} AND deleted_at IS NULL ORDER BY name ASC`;
   return result as DbFolder[];
 }
 
 export async function getFolderById(id: string, userId: string): Promise<DbFolder | null> {
   const db = requireDb();
-  const result = await db`SELECT * FROM folders WHERE id = ${id} AND user_id = ${userId} LIMIT 1` as DbFolder[];
+  const result = await db`SELECT * FROM folders WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NULL LIMIT 1` as DbFolder[];
   return result[0] || null;
 }
 
 export async function createFolder(id: string, userId: string, name: string, color?: string): Promise<DbFolder> {
   const db = requireDb();
-  await db`
+  const result = await db`
     INSERT INTO folders (id, user_id, name, color)
     VALUES (${id}, ${userId}, ${name}, ${color || null})
-  `;
-  const result = await db`SELECT * FROM folders WHERE id = ${id} AND user_id = ${userId} LIMIT 1` as DbFolder[];
+    RETURNING *
+  ` as DbFolder[];
   return result[0];
 }
 
-export async function updateFolder(id: string, updates: { name?: string; color?: string }): Promise<void> {
+export async function updateFolder(id: string, userId: string, updates: { name?: string; color?: string }): Promise<void> {
   const db = requireDb();
   if (updates.name !== undefined) {
-    await db`UPDATE folders SET name = ${updates.name}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    await db`UPDATE folders SET name = ${updates.name}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND user_id = ${userId}`;
   }
   if (updates.color !== undefined) {
-    await db`UPDATE folders SET color = ${updates.color}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    await db`UPDATE folders SET color = ${updates.color}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND user_id = ${userId}`;
   }
 }
 
+// Moves the folder to the trash. Its books stay visible (outside any folder
+// while it is deleted) and go back into it if the folder is restored.
 export async function deleteFolder(id: string, userId: string): Promise<void> {
   const db = requireDb();
-  // First, remove folder_id from all books in this folder
-  await db`UPDATE books SET folder_id = NULL WHERE folder_id = ${id} AND user_id = ${userId}`;
-  // Then delete the folder
-  await db`DELETE FROM folders WHERE id = ${id} AND user_id = ${userId}`;
+  await db`UPDATE folders SET deleted_at = CURRENT_TIMESTAMP WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NULL`;
 }
 
-export async function updateBook(id: string, updates: { name?: string; description?: string; folderId?: string }): Promise<void> {
+export async function updateBook(id: string, userId: string, updates: { name?: string; description?: string; folderId?: string }): Promise<void> {
   const db = requireDb();
   if (updates.name !== undefined) {
-    await db`UPDATE books SET name = ${updates.name}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    await db`UPDATE books SET name = ${updates.name}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND user_id = ${userId}`;
   }
   if (updates.folderId !== undefined) {
-    await db`UPDATE books SET folder_id = ${updates.folderId || null}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    // Only into one of the user's own folders
+    await db`
+      UPDATE books SET folder_id = ${updates.folderId || null}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${id} AND user_id = ${userId}
+        AND (${updates.folderId || null}::text IS NULL
+          OR EXISTS (SELECT 1 FROM folders WHERE id = ${updates.folderId || null} AND user_id = ${userId}))
+    `;
   }
   if (updates.description !== undefined) {
-    await db`UPDATE books SET description = ${updates.description}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    await db`UPDATE books SET description = ${updates.description}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND user_id = ${userId}`;
   }
 }
 
+// Moves the book to the trash together with its entries and threads, whoever
+// wrote them. They share the same deleted_at, which is how restoreBook finds them again.
 export async function deleteBook(id: string, userId: string): Promise<void> {
   const db = requireDb();
-  await db`DELETE FROM books WHERE id = ${id} AND user_id = ${userId}`;
+  await db.transaction(txn => [
+    txn`
+      UPDATE entries SET deleted_at = CURRENT_TIMESTAMP
+      WHERE book_id IN (SELECT id FROM books WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NULL) AND deleted_at IS NULL
+    `,
+    txn`
+      UPDATE threads SET deleted_at = CURRENT_TIMESTAMP
+      WHERE book_id IN (SELECT id FROM books WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NULL) AND deleted_at IS NULL
+    `,
+    txn`UPDATE books SET deleted_at = CURRENT_TIMESTAMP WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NULL`,
+  ]);
+}
+
+// Book members operations
+// Anyone who can read the book sees its members; only the owner adds them or
+// changes their role, and a member can remove themselves (leave the book).
+export async function getBookMembers(bookId: string, userId: string): Promise<DbBookMember[]> {
+  const db = requireDb();
+  const result = await db`
+    SELECT m.* FROM book_members m
+    WHERE m.book_id = ${bookId} AND m.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    ORDER BY m.created_at ASC
+  `;
+  return result as DbBookMember[];
+}
+
+// Adds the member or, if they already are one, changes their role
+export async function addBookMember(bookId: string, userId: string, memberId: string, role: string): Promise<DbBookMember> {
+  const db = requireDb();
+  const result = await db`
+    INSERT INTO book_members (book_id, user_id, role, invited_by)
+    SELECT b.id, ${memberId}, ${role}, ${userId}
+    FROM books b
+    WHERE b.id = ${bookId} AND b.user_id = ${userId} AND b.user_id <> ${memberId} AND b.deleted_at IS NULL
+    ON CONFLICT (book_id, user_id) DO UPDATE SET role = EXCLUDED.role
+    RETURNING *
+  ` as DbBookMember[];
+  if (!result[0]) throw new TenantAccessError(`Book ${bookId}`);
+  return result[0];
+}
+
+export async function removeBookMember(bookId: string, userId: string, memberId: string): Promise<void> {
+  const db = requireDb();
+  await db`
+    DELETE FROM book_members
+    WHERE book_id = ${bookId} AND user_id = ${memberId}
+      AND (${memberId} = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId}))
+  `;
 }
 
-// Entries operations (now user-scoped)
+// Entries operations (scoped through their book; user_id is the author)
 export async function getAllEntries(userId: string, limit?: number): Promise<DbEntry[]> {
   const db = requireDb();
   if (limit) {
-    const result = await db`SELECT * FROM entries WHERE user_id = ${userId} ORDER BY created_at DESC LIMIT ${limit}`;
+    const result = await db`SELECT * FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL ORDER BY created_at DESC LIMIT ${limit}`;
     return result as DbEntry[];
   }
-  const result = await db`SELECT * FROM entries WHERE user_id = ${userId} ORDER BY created_at DESC`;
+  const result = await db`SELECT * FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL ORDER BY created_at DESC`;
   return result as DbEntry[];
 }
 
+export interface DbEntryPageOptions {
+  bookId?: string;
+  threadId?: string;
+  withOpenTasks?: boolean; // Only entries that still have a pending task
+  cursor?: string | null; // nextCursor of the previous page
+  limit?: number;
+}
+
+export interface DbEntryPage {
+  entries: DbEntry[];
+  nextCursor: string | null; // null on the last page
+}
+
+// One page of entries, newest first. The cursor is the id of the last entry
+// of the previous page; rows are compared on (created_at, id) so entries
+// created or deleted while paging never shift or repeat the next page.
+export async function getEntriesPage(userId: string, options: DbEntryPageOptions = {}): Promise<DbEntryPage> {
+  const db = requireDb();
+  const limit = options.limit || DEFAULT_ENTRY_PAGE_SIZE;
+
+  const params: unknown[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const readableBooks = `SELECT accessible_book_ids(${param(userId)}, ${param(READ_ROLES)}::text[])`;
+  const conditions = [`e.book_id IN (${readableBooks})`, 'e.deleted_at IS NULL'];
+  if (options.bookId) conditions.push(`e.book_id = ${param(options.bookId)}`);
+  if (options.threadId) conditions.push(`e.thread_id = ${param(options.threadId)}`);
+  if (options.withOpenTasks) conditions.push('EXISTS (SELECT 1 FROM tasks t WHERE t.entry_id = e.id AND NOT t.is_done)');
+  if (options.cursor) {
+    conditions.push(`(e.created_at, e.id) < (SELECT c.created_at, c.id FROM entries c WHERE c.id = ${param(options.cursor)} AND c.book_id IN (${readableBooks}))`);
+  }
+
+  // One extra row tells whether there is a next page
+  const result = await db(`
+    SELECT e.* FROM entries e
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY e.created_at DESC, e.id DESC
+    LIMIT ${param(limit + 1)}
+  `, params) as DbEntry[];
+
+  const entries = result.slice(0, limit);
+  return {
+    entries,
+    nextCursor: result.length > limit ? entries[entries.length - 1].id : null,
+  };
+}
+
+export interface DbEntryStatsOptions {
+  since?: string; // ISO start of the period counts; without it only the per-book counts are returned
+  timeZone?: string; // IANA zone the period is split into days by (default UTC)
+  topEntities?: number; // Most mentioned entities kept per entity type
+}
+
+export interface DbBookStats {
+  book_id: string;
+  entry_count: number;
+  open_tasks: number;
+  completed_tasks: number;
+  last_activity: string;
+}
+
+// Entries of the period grouped by type and day, with their task counts
+export interface DbPeriodBucket {
+  type: string;
+  day: string; // YYYY-MM-DD in the requested time zone
+  entry_count: number;
+  total_tasks: number;
+  completed_tasks: number;
+}
+
+export interface DbEntityCount {
+  type: string;
+  name: string;
+  count: number;
+}
+
+export interface DbEntryStats {
+  books: DbBookStats[]; // Readable books with at least one live entry
+  period: { buckets: DbPeriodBucket[]; top_entities: DbEntityCount[] } | null;
+}
+
+// Counts over every readable entry, however many pages the client has loaded
+export async function getEntryStats(userId: string, options: DbEntryStatsOptions = {}): Promise<DbEntryStats> {
+  const db = requireDb();
+  const books = await db`
+    SELECT e.book_id,
+      COUNT(*)::int AS entry_count,
+      COALESCE(SUM(t.open_tasks), 0)::int AS open_tasks,
+      COALESCE(SUM(t.completed_tasks), 0)::int AS completed_tasks,
+      MAX(e.created_at) AS last_activity
+    FROM entries e
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) FILTER (WHERE NOT is_done) AS open_tasks, COUNT(*) FILTER (WHERE is_done) AS completed_tasks
+      FROM tasks WHERE entry_id = e.id
+    ) t ON true
+    WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND e.deleted_at IS NULL
+    GROUP BY e.book_id
+  ` as DbBookStats[];
+  if (!options.since) {
+    return { books, period: null };
+  }
+
+  const timeZone = options.timeZone || 'UTC';
+  const [buckets, entities] = await Promise.all([
+    db`
+      SELECT e.type,
+        to_char((e.created_at AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}, 'YYYY-MM-DD') AS day,
+        COUNT(*)::int AS entry_count,
+        COALESCE(SUM(t.total_tasks), 0)::int AS total_tasks,
+        COALESCE(SUM(t.completed_tasks), 0)::int AS completed_tasks
+      FROM entries e
+      LEFT JOIN LATERAL (
+        SELECT COUNT(*) AS total_tasks, COUNT(*) FILTER (WHERE is_done) AS completed_tasks
+        FROM tasks WHERE entry_id = e.id
+      ) t ON true
+      WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND e.deleted_at IS NULL
+        AND e.created_at >= ${options.since}
+      GROUP BY 1, 2
+    `,
+    db`
+      SELECT type, name, mentions::int AS count FROM (
+        SELECT en.type, en.name, COUNT(*) AS mentions,
+          ROW_NUMBER() OVER (PARTITION BY en.type ORDER BY COUNT(*) DESC, en.name) AS position
+        FROM entities en
+        JOIN entries e ON e.id = en.entry_id
+        WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND e.deleted_at IS NULL
+          AND e.created_at >= ${options.since}
+        GROUP BY en.type, en.name
+      ) ranked
+      WHERE position <= ${options.topEntities || DEFAULT_TOP_ENTITIES}
+      ORDER BY type, count DESC, name
+    `,
+  ]);
+  return { books, period: { buckets: buckets as DbPeriodBucket[], top_entities: entities as DbEntityCount[] } };
+}
+
 export async function getEntriesByBookId(bookId: string, userId: string): Promise<DbEntry[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM entries WHERE book_id = ${bookId} AND user_id = ${userId} ORDER BY created_at DESC`;
+  const result = await db`SELECT * FROM entries WHERE book_id = ${bookId} AND book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL ORDER BY created_at DESC`;
   return result as DbEntry[];
 }
 
 export async function getEntriesByThreadId(threadId: string, userId: string): Promise<DbEntry[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM entries WHERE thread_id = ${threadId} AND user_id = ${userId} ORDER BY created_at ASC`;
+  const result = await db`SELECT * FROM entries WHERE thread_id = ${threadId} AND book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL ORDER BY created_at ASC`;
   return result as DbEntry[];
 }
 
 export async function getEntryById(id: string, userId: string): Promise<DbEntry | null> {
   const db = requireDb();
-  const result = await db`SELECT * FROM entries WHERE id = ${id} AND user_id = ${userId} LIMIT 1` as DbEntry[];
+  const result = await db`SELECT * FROM entries WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL LIMIT 1` as DbEntry[];
   return result[0] || null;
 }
 
@@ -474,83 +530,198 @@ export async function createEntry(
   aiRewrittenText?: string | null
 ): Promise<DbEntry> {
   const db = requireDb();
-  await db`
+  const result = await db`
     INSERT INTO entries (id, user_id, original_text, book_id, type, summary, status, thread_id, ai_rewritten_text)
-    VALUES (${id}, ${userId}, ${originalText}, ${bookId}, ${type}, ${summary}, ${status}, ${threadId || null}, ${aiRewrittenText || null})
-  `;
-  const result = await db`SELECT * FROM entries WHERE id = ${id} AND user_id = ${userId} LIMIT 1` as DbEntry[];
+    SELECT ${id}, ${userId}, ${originalText}, b.id, ${type}, ${summary}, ${status}, ${threadId || null}, ${aiRewrittenText || null}
+    FROM books b
+    WHERE b.id = ${bookId} AND b.id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+      AND (${threadId || null}::text IS NULL
+        OR EXISTS (SELECT 1 FROM threads WHERE id = ${threadId || null} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))))
+    RETURNING *
+  ` as DbEntry[];
+  if (!result[0]) throw new TenantAccessError(threadId ? `Book ${bookId} or thread ${threadId}` : `Book ${bookId}`);
   return result[0];
 }
 
-export async function updateEntry(id: string, updates: { summary?: string; status?: string; type?: string; threadId?: string | null; aiRewrittenText?: string | null }): Promise<void> {
+export async function updateEntry(id: string, userId: string, updates: { summary?: string; status?: string; statusReason?: string | null; type?: string; threadId?: string | null; aiRewrittenText?: string | null }): Promise<void> {
   const db = requireDb();
   if (updates.summary !== undefined) {
-    await db`UPDATE entries SET summary = ${updates.summary}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    await db`UPDATE entries SET summary = ${updates.summary}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))`;
   }
   if (updates.status !== undefined) {
-    await db`UPDATE entries SET status = ${updates.status}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    // The reason only applies to the status it comes with
+    await db`UPDATE entries SET status = ${updates.status}, status_reason = ${updates.statusReason || null}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))`;
   }
   if (updates.type !== undefined) {
-    await db`UPDATE entries SET type = ${updates.type}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    await db`UPDATE entries SET type = ${updates.type}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))`;
   }
   if (updates.threadId !== undefined) {
-    await db`UPDATE entries SET thread_id = ${updates.threadId || null}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    // Only into a thread of a book the user can write to
+    await db`
+      UPDATE entries SET thread_id = ${updates.threadId || null}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+        AND (${updates.threadId || null}::text IS NULL
+          OR EXISTS (SELECT 1 FROM threads WHERE id = ${updates.threadId || null} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))))
+    `;
   }
   if (updates.aiRewrittenText !== undefined) {
-    await db`UPDATE entries SET ai_rewritten_text = ${updates.aiRewrittenText || null}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    await db`UPDATE entries SET ai_rewritten_text = ${updates.aiRewrittenText || null}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))`;
   }
 }
 
+// Moves the entry to the trash; tasks, entities, embeddings and relations are kept.
+// Its author (while they can still write to the book) or the book's owner can.
 export async function deleteEntry(id: string, userId: string): Promise<void> {
   const db = requireDb();
-  await db`DELETE FROM entries WHERE id = ${id} AND user_id = ${userId}`;
+  await db`
+    UPDATE entries SET deleted_at = CURRENT_TIMESTAMP
+    WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+      AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId}))
+      AND deleted_at IS NULL
+  `;
+}
+
+// Everything written by one capture: new books and threads, the entries with
+// their tasks and entities, and existing tasks completed by the capture
+export interface DbCapture {
+  books: Array<{ id: string; name: string }>;
+  threads: Array<{ id: string; title: string; bookId: string }>;
+  entries: Array<{
+    id: string;
+    originalText: string;
+    bookId: string;
+    type: string;
+    summary: string;
+    status: string;
+    statusReason?: string | null;
+    threadId?: string | null;
+    aiRewrittenText?: string | null;
+    promptVersion?: string | null;
+    tasks: Array<{ id: string; description: string; assignee?: string; dueDate?: string; priority?: string }>;
+    entities: Array<{ id: string; name: string; type: string }>;
+  }>;
+  completedTasks: Array<{ id: string; completionNotes?: string }>;
+}
+
+// Saves a capture in a single transaction: either all of it is written or none.
+// Parent ids are looked up with the user's write access check; a parent the user
+// cannot write to resolves to NULL, the NOT NULL constraint fails and everything rolls back.
+export async function saveCapture(userId: string, capture: DbCapture): Promise<void> {
+  const db = requireDb();
+  try {
+    await db.transaction(txn => [
+      ...capture.books.map(book => txn`
+        INSERT INTO books (id, user_id, name) VALUES (${book.id}, ${userId}, ${book.name})
+        ON CONFLICT (id) DO NOTHING
+      `),
+      ...capture.threads.map(thread => txn`
+        INSERT INTO threads (id, user_id, title, book_id)
+        VALUES (${thread.id}, ${userId}, ${thread.title}, (SELECT id FROM books WHERE id = ${thread.bookId} AND id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))))
+      `),
+      ...capture.entries.flatMap(entry => [
+        txn`
+          INSERT INTO entries (id, user_id, original_text, book_id, type, summary, status, status_reason, thread_id, ai_rewritten_text, prompt_version)
+          VALUES (
+            ${entry.id}, ${userId}, ${entry.originalText},
+            (SELECT b.id FROM books b WHERE b.id = ${entry.bookId} AND b.id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+              AND (${entry.threadId || null}::text IS NULL
+                OR EXISTS (SELECT 1 FROM threads WHERE id = ${entry.threadId || null} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))))),
+            ${entry.type}, ${entry.summary}, ${entry.status}, ${entry.statusReason || null}, ${entry.threadId || null}, ${entry.aiRewrittenText || null},
+            ${entry.promptVersion || null}
+          )
+        `,
+        ...entry.tasks.map(task => txn`
+          INSERT INTO tasks (id, entry_id, description, assignee, due_date, priority)
+          VALUES (
+            ${task.id}, (SELECT id FROM entries WHERE id = ${entry.id} AND user_id = ${userId}),
+            ${task.description}, ${task.assignee || null}, ${task.dueDate || null}, ${task.priority || 'MEDIUM'}
+          )
+        `),
+        ...entry.entities.map(entity => txn`
+          INSERT INTO entities (id, entry_id, name, type)
+          VALUES (${entity.id}, (SELECT id FROM entries WHERE id = ${entry.id} AND user_id = ${userId}), ${entity.name}, ${entity.type})
+        `),
+      ]),
+      ...capture.completedTasks.map(task => txn`
+        UPDATE tasks SET is_done = true, completion_notes = COALESCE(${task.completionNotes || null}, completion_notes)
+        WHERE id = ${task.id} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))
+      `),
+    ]);
+  } catch (error) {
+    if ((error as { code?: string }).code === NOT_NULL_VIOLATION) {
+      throw new TenantAccessError('A book, thread or entry of the capture');
+    }
+    throw error;
+  }
 }
 
-// Tasks operations
-export async function getTasksByEntryId(entryId: string): Promise<DbTask[]> {
+// Tasks operations (scoped through the entry's book)
+export async function getTasksByEntryId(entryId: string, userId: string): Promise<DbTask[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM tasks WHERE entry_id = ${entryId} ORDER BY created_at ASC`;
+  const result = await db`
+    SELECT t.* FROM tasks t
+    JOIN entries e ON e.id = t.entry_id
+    WHERE t.entry_id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    ORDER BY t.created_at ASC
+  `;
   return result as DbTask[];
 }
 
 // Batch query for multiple entries (optimized)
-export async function getTasksByEntryIds(entryIds: string[]): Promise<DbTask[]> {
+export async function getTasksByEntryIds(entryIds: string[], userId: string): Promise<DbTask[]> {
   if (entryIds.length === 0) return [];
   const db = requireDb();
-  const result = await db`SELECT * FROM tasks WHERE entry_id = ANY(${entryIds}) ORDER BY entry_id, created_at ASC`;
+  const result = await db`
+    SELECT t.* FROM tasks t
+    JOIN entries e ON e.id = t.entry_id
+    WHERE t.entry_id = ANY(${entryIds}) AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    ORDER BY t.entry_id, t.created_at ASC
+  `;
   return result as DbTask[];
 }
 
-export async function getAllTasks(filters?: { isDone?: boolean; bookId?: string }): Promise<DbTask[]> {
+export async function getAllTasks(userId: string, filters?: { isDone?: boolean; bookId?: string }): Promise<DbTask[]> {
   const db = requireDb();
+  // Tasks of trashed entries stay out of every list until the entry is restored
   if (filters?.isDone !== undefined && filters?.bookId) {
     const result = await db`
       SELECT t.* FROM tasks t
       JOIN entries e ON t.entry_id = e.id
-      WHERE t.is_done = ${filters.isDone} AND e.book_id = ${filters.bookId}
+      WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND t.is_done = ${filters.isDone} AND e.book_id = ${filters.bookId} AND e.deleted_at IS NULL
       ORDER BY t.created_at DESC
     `;
     return result as DbTask[];
   }
   if (filters?.isDone !== undefined) {
-    const result = await db`SELECT * FROM tasks WHERE is_done = ${filters.isDone} ORDER BY created_at DESC`;
+    const result = await db`
+      SELECT t.* FROM tasks t
+      JOIN entries e ON t.entry_id = e.id
+      WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND t.is_done = ${filters.isDone} AND e.deleted_at IS NULL
+      ORDER BY t.created_at DESC
+    `;
     return result as DbTask[];
   }
   if (filters?.bookId) {
     const result = await db`
       SELECT t.* FROM tasks t
       JOIN entries e ON t.entry_id = e.id
-      WHERE e.book_id = ${filters.bookId}
+      WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND e.book_id = ${filters.bookId} AND e.deleted_at IS NULL
       ORDER BY t.created_at DESC
     `;
     return result as DbTask[];
   }
-  const result = await db`SELECT * FROM tasks ORDER BY created_at DESC`;
+  const result = await db`
+    SELECT t.* FROM tasks t
+    JOIN entries e ON t.entry_id = e.id
+    WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND e.deleted_at IS NULL
+    ORDER BY t.created_at DESC
+  `;
   return result as DbTask[];
 }
 
 export async function createTask(
   id: string,
+  userId: string,
   entryId: string,
   description: string,
   assignee?: string,
@@ -558,383 +729,448 @@ export async function createTask(
   priority: string = 'MEDIUM'
 ): Promise<DbTask> {
   const db = requireDb();
-  await db`
+  const result = await db`
     INSERT INTO tasks (id, entry_id, description, assignee, due_date, priority)
-    VALUES (${id}, ${entryId}, ${description}, ${assignee || null}, ${dueDate || null}, ${priority})
-  `;
-  const result = await db`SELECT * FROM tasks WHERE id = ${id} LIMIT 1` as DbTask[];
+    SELECT ${id}, e.id, ${description}, ${assignee || null}, ${dueDate || null}, ${priority}
+    FROM entries e
+    WHERE e.id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+    RETURNING *
+  ` as DbTask[];
+  if (!result[0]) throw new TenantAccessError(`Entry ${entryId}`);
   return result[0];
 }
 
-export async function updateTask(id: string, updates: { isDone?: boolean; description?: string; assignee?: string; dueDate?: string; priority?: string; completionNotes?: string }): Promise<void> {
+export async function updateTask(id: string, userId: string, updates: { isDone?: boolean; description?: string; assignee?: string; dueDate?: string; priority?: string; completionNotes?: string }): Promise<void> {
   const db = requireDb();
+  // The user a task is delegated to may complete it and add notes, even without access to its book
   if (updates.isDone !== undefined) {
-    await db`UPDATE tasks SET is_done = ${updates.isDone} WHERE id = ${id}`;
+    await db`UPDATE tasks SET is_done = ${updates.isDone} WHERE id = ${id} AND (assignee_user_id = ${userId} OR entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))))`;
   }
   if (updates.description !== undefined) {
-    await db`UPDATE tasks SET description = ${updates.description} WHERE id = ${id}`;
+    await db`UPDATE tasks SET description = ${updates.description} WHERE id = ${id} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))`;
   }
   if (updates.assignee !== undefined) {
-    await db`UPDATE tasks SET assignee = ${updates.assignee} WHERE id = ${id}`;
+    // A new free-text assignee replaces any delegation
+    await db`UPDATE tasks SET assignee = ${updates.assignee}, assignee_user_id = NULL, delegated_by = NULL WHERE id = ${id} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))`;
   }
   if (updates.dueDate !== undefined) {
-    await db`UPDATE tasks SET due_date = ${updates.dueDate} WHERE id = ${id}`;
+    await db`UPDATE tasks SET due_date = ${updates.dueDate} WHERE id = ${id} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))`;
   }
   if (updates.priority !== undefined) {
-    await db`UPDATE tasks SET priority = ${updates.priority} WHERE id = ${id}`;
+    await db`UPDATE tasks SET priority = ${updates.priority} WHERE id = ${id} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))`;
   }
   if (updates.completionNotes !== undefined) {
-    await db`UPDATE tasks SET completion_notes = ${updates.completionNotes} WHERE id = ${id}`;
+    await db`UPDATE tasks SET completion_notes = ${updates.completionNotes} WHERE id = ${id} AND (assignee_user_id = ${userId} OR entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))))`;
   }
 }
 
-export async function deleteTask(id: string): Promise<void> {
+export async function getWritableTask(id: string, userId: string): Promise<DbTask | null> {
+  const db = requireDb();
+  const result = await db`
+    SELECT t.* FROM tasks t
+    JOIN entries e ON e.id = t.entry_id
+    WHERE t.id = ${id} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+    LIMIT 1
+  ` as DbTask[];
+  return result[0] || null;
+}
+
+// Links the task to a registered user (or unlinks it with null); the display name goes in `assignee`
+export async function delegateTask(id: string, userId: string, assigneeUserId: string | null, assignee?: string): Promise<DbTask> {
+  const db = requireDb();
+  const result = await db`
+    UPDATE tasks SET
+      assignee_user_id = ${assigneeUserId},
+      delegated_by = ${assigneeUserId ? userId : null},
+      assignee = COALESCE(${assignee || null}, assignee)
+    WHERE id = ${id} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))
+    RETURNING *
+  ` as DbTask[];
+  if (!result[0]) throw new TenantAccessError(`Task ${id}`);
+  return result[0];
+}
+
+// Tasks delegated to the user from entries that are not in the trash, wherever they live
+export async function getAssignedTasks(userId: string): Promise<DbAssignedTask[]> {
+  const db = requireDb();
+  const result = await db`
+    SELECT t.*, e.book_id, b.name AS book_name, e.type AS entry_type, e.summary AS entry_summary,
+      e.created_at AS entry_created_at
+    FROM tasks t
+    JOIN entries e ON e.id = t.entry_id
+    JOIN books b ON b.id = e.book_id
+    WHERE t.assignee_user_id = ${userId} AND e.deleted_at IS NULL AND b.deleted_at IS NULL
+    ORDER BY t.created_at DESC
+  `;
+  return result as DbAssignedTask[];
+}
+
+export async function deleteTask(id: string, userId: string): Promise<void> {
   const db = requireDb();
-  await db`DELETE FROM tasks WHERE id = ${id}`;
+  await db`DELETE FROM tasks WHERE id = ${id} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))`;
 }
 
-// Entities operations
-export async function getEntitiesByEntryId(entryId: string): Promise<DbEntity[]> {
+// Entities operations (scoped through the entry's book)
+export async function getEntitiesByEntryId(entryId: string, userId: string): Promise<DbEntity[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM entities WHERE entry_id = ${entryId}`;
+  const result = await db`
+    SELECT ent.* FROM entities ent
+    JOIN entries e ON e.id = ent.entry_id
+    WHERE ent.entry_id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+  `;
   return result as DbEntity[];
 }
 
 // Batch query for multiple entries (optimized)
-export async function getEntitiesByEntryIds(entryIds: string[]): Promise<DbEntity[]> {
+export async function getEntitiesByEntryIds(entryIds: string[], userId: string): Promise<DbEntity[]> {
   if (entryIds.length === 0) return [];
   const db = requireDb();
-  const result = await db`SELECT * FROM entities WHERE entry_id = ANY(${entryIds}) ORDER BY entry_id`;
+  const result = await db`
+    SELECT ent.* FROM entities ent
+    JOIN entries e ON e.id = ent.entry_id
+    WHERE ent.entry_id = ANY(${entryIds}) AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    ORDER BY ent.entry_id
+  `;
   return result as DbEntity[];
 }
 
-export async function createEntity(id: string, entryId: string, name: string, type: string): Promise<DbEntity> {
+export async function createEntity(id: string, userId: string, entryId: string, name: string, type: string): Promise<DbEntity> {
   const db = requireDb();
-  await db`
+  const result = await db`
     INSERT INTO entities (id, entry_id, name, type)
-    VALUES (${id}, ${entryId}, ${name}, ${type})
-  `;
-  const result = await db`SELECT * FROM entities WHERE id = ${id} LIMIT 1` as DbEntity[];
+    SELECT ${id}, e.id, ${name}, ${type}
+    FROM entries e
+    WHERE e.id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+    RETURNING *
+  ` as DbEntity[];
+  if (!result[0]) throw new TenantAccessError(`Entry ${entryId}`);
   return result[0];
 }
 
-// Threads operations (user-scoped)
+export async function deleteEntitiesByEntryId(entryId: string, userId: string): Promise<void> {
+  const db = requireDb();
+  await db`DELETE FROM entities WHERE entry_id = ${entryId} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))`;
+}
+
+// Threads operations (scoped through their book, like entries)
 export async function getAllThreads(userId: string): Promise<DbThread[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM threads WHERE user_id = ${userId} ORDER BY updated_at DESC`;
+  const result = await db`SELECT * FROM threads WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL ORDER BY updated_at DESC`;
   return result as DbThread[];
 }
 
 export async function getThreadById(id: string, userId: string): Promise<DbThread | null> {
   const db = requireDb();
-  const result = await db`SELECT * FROM threads WHERE id = ${id} AND user_id = ${userId} LIMIT 1` as DbThread[];
+  const result = await db`SELECT * FROM threads WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL LIMIT 1` as DbThread[];
   return result[0] || null;
 }
 
 export async function getThreadsByBookId(bookId: string, userId: string): Promise<DbThread[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM threads WHERE book_id = ${bookId} AND user_id = ${userId} ORDER BY updated_at DESC`;
+  const result = await db`SELECT * FROM threads WHERE book_id = ${bookId} AND book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL ORDER BY updated_at DESC`;
   return result as DbThread[];
 }
 
 export async function createThread(id: string, userId: string, title: string, bookId: string): Promise<DbThread> {
   const db = requireDb();
-  await db`
+  const result = await db`
     INSERT INTO threads (id, user_id, title, book_id)
-    VALUES (${id}, ${userId}, ${title}, ${bookId})
-  `;
-  const result = await db`SELECT * FROM threads WHERE id = ${id} AND user_id = ${userId} LIMIT 1` as DbThread[];
+    SELECT ${id}, ${userId}, ${title}, b.id
+    FROM books b
+    WHERE b.id = ${bookId} AND b.id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+    RETURNING *
+  ` as DbThread[];
+  if (!result[0]) throw new TenantAccessError(`Book ${bookId}`);
   return result[0];
 }
 
-export async function updateThread(id: string, updates: { title?: string }): Promise<void> {
+export async function updateThread(id: string, userId: string, updates: { title?: string }): Promise<void> {
   const db = requireDb();
   if (updates.title !== undefined) {
-    await db`UPDATE threads SET title = ${updates.title}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+    await db`UPDATE threads SET title = ${updates.title}, updated_at = CURRENT_TIMESTAMP WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))`;
   }
 }
 
+// Moves the thread to the trash. Its entries keep thread_id (and are shown
+// outside any thread meanwhile) so restoring the thread regroups them.
+// Like entries, only its author or the book's owner can delete it.
 export async function deleteThread(id: string, userId: string): Promise<void> {
   const db = requireDb();
-  // First, remove thread_id from all entries in this thread
-  await db`UPDATE entries SET thread_id = NULL WHERE thread_id = ${id} AND user_id = ${userId}`;
-  // Then delete the thread
-  await db`DELETE FROM threads WHERE id = ${id} AND user_id = ${userId}`;
+  await db`
+    UPDATE threads SET deleted_at = CURRENT_TIMESTAMP
+    WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId})) AND deleted_at IS NULL
+  `;
 }
 
-// Search operations (user-scoped)
-export async function searchEntries(query: string, filters?: { userId?: string; bookId?: string; type?: string; dateFrom?: string; dateTo?: string }): Promise<DbEntry[]> {
-  const db = requireDb();
-  const searchPattern = `%${query}%`;
-  const userId = filters?.userId;
-  
-  if (!userId) {
-    throw new Error('User ID is required for search');
+// Search operations (every book the user can read)
+export interface DbSearchFilters {
+  bookId?: string;
+  type?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  assignee?: string;
+  limit?: number;
+}
+
+function tsWords(value: string): string[] {
+  return value.normalize('NFC').match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// tsquery fragments built from sanitized words, so user input never reaches to_tsquery syntax.
+// Terms match by prefix ("reun" -> 'reun':*) to support search-as-you-type.
+function termTsQuery(term: string, prefix: boolean): string {
+  const words = tsWords(term).map(word => prefix ? `${word}:*` : word);
+  return words.length > 1 ? `(${words.join(' & ')})` : words[0] || '';
+}
+
+function phraseTsQuery(phrase: string): string {
+  const words = tsWords(phrase);
+  return words.length > 1 ? `(${words.join(' <-> ')})` : words[0] || '';
+}
+
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// Full-text search over entries, their tasks and entities (user-scoped).
+// The criteria come from the search query language (services/searchQuery.ts); conditions are
+// composed dynamically. Results are ranked and carry a snippet with matches wrapped in
+// SNIPPET_HIGHLIGHT markers when the query has text terms.
+export async function searchEntries(userId: string, criteria: SearchCriteria, filters?: DbSearchFilters): Promise<DbSearchResult[]> {
+  const query = searchEntriesQuery(userId, criteria, filters);
+  // Nothing to search for
+  if (!query) {
+    return [];
   }
-  
-  // If we have bookId or type filters, use simpler query (no joins needed)
-  if (filters?.bookId || filters?.type) {
-    // Build query with all conditions explicitly
-    if (filters.bookId && filters.type) {
-      if (filters.dateFrom && filters.dateTo) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.book_id = ${filters.bookId}
-            AND e.type = ${filters.type}
-            AND e.created_at >= ${filters.dateFrom}
-            AND e.created_at <= ${filters.dateTo}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else if (filters.dateFrom) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.book_id = ${filters.bookId}
-            AND e.type = ${filters.type}
-            AND e.created_at >= ${filters.dateFrom}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else if (filters.dateTo) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.book_id = ${filters.bookId}
-            AND e.type = ${filters.type}
-            AND e.created_at <= ${filters.dateTo}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.book_id = ${filters.bookId}
-            AND e.type = ${filters.type}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      }
-    } else if (filters.bookId) {
-      if (filters.dateFrom && filters.dateTo) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.book_id = ${filters.bookId}
-            AND e.created_at >= ${filters.dateFrom}
-            AND e.created_at <= ${filters.dateTo}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else if (filters.dateFrom) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.book_id = ${filters.bookId}
-            AND e.created_at >= ${filters.dateFrom}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else if (filters.dateTo) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.book_id = ${filters.bookId}
-            AND e.created_at <= ${filters.dateTo}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.book_id = ${filters.bookId}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      }
-    } else if (filters.type) {
-      if (filters.dateFrom && filters.dateTo) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.type = ${filters.type}
-            AND e.created_at >= ${filters.dateFrom}
-            AND e.created_at <= ${filters.dateTo}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else if (filters.dateFrom) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.type = ${filters.type}
-            AND e.created_at >= ${filters.dateFrom}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else if (filters.dateTo) {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.type = ${filters.type}
-            AND e.created_at <= ${filters.dateTo}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      } else {
-        return await db`
-          SELECT DISTINCT e.* FROM entries e
-          WHERE (e.original_text ILIKE ${searchPattern} OR e.summary ILIKE ${searchPattern})
-            AND e.user_id = ${userId}
-            AND e.type = ${filters.type}
-          ORDER BY e.created_at DESC
-        ` as DbEntry[];
-      }
-    }
+
+  const result = await requireDb()(query.text, query.params);
+  return (result as DbSearchResult[]).map(row => ({ ...row, rank: Number(row.rank) }));
+}
+
+// SQL text and parameters of searchEntries, or null when neither the criteria
+// nor the filters restrict anything (an empty query finds nothing)
+export function searchEntriesQuery(
+  userId: string,
+  criteria: SearchCriteria,
+  filters?: DbSearchFilters
+): { text: string; params: unknown[] } | null {
+  const params: unknown[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const entryVector = 'entry_search_vector(e.summary, e.original_text, e.ai_rewritten_text)';
+  const taskVector = `to_tsvector('es_unaccent'::regconfig, t.description || ' ' || coalesce(t.assignee, ''))`;
+  const entityVector = `to_tsvector('es_unaccent'::regconfig, ent.name)`;
+  const matchesDocument = (query: string) => `(
+    ${entryVector} @@ ${query}
+    OR EXISTS (SELECT 1 FROM tasks t WHERE t.entry_id = e.id AND ${taskVector} @@ ${query})
+    OR EXISTS (SELECT 1 FROM entities ent WHERE ent.entry_id = e.id AND ${entityVector} @@ ${query})
+  )`;
+  const bookNamed = (name: string) =>
+    `EXISTS (SELECT 1 FROM books b WHERE b.id = e.book_id AND unaccent(b.name) ILIKE unaccent(${param(likePattern(name))}))`;
+  const mentionsPerson = (name: string) => {
+    const pattern = param(likePattern(name));
+    return `(EXISTS (SELECT 1 FROM entities ent WHERE ent.entry_id = e.id AND unaccent(ent.name) ILIKE unaccent(${pattern}))
+      OR EXISTS (SELECT 1 FROM tasks t WHERE t.entry_id = e.id AND unaccent(t.assignee) ILIKE unaccent(${pattern})))`;
+  };
+  const hasPendingTasks = 'EXISTS (SELECT 1 FROM tasks t WHERE t.entry_id = e.id AND NOT t.is_done)';
+
+  const positive = [
+    ...criteria.terms.map(term => termTsQuery(term, true)),
+    ...criteria.phrases.map(phraseTsQuery),
+  ].filter(Boolean).join(' & ');
+  const negative = [
+    ...criteria.excludeTerms.map(term => termTsQuery(term, false)),
+    ...criteria.excludePhrases.map(phraseTsQuery),
+  ].filter(Boolean).join(' | ');
+
+  const conditions = [`e.book_id IN (SELECT accessible_book_ids(${param(userId)}, ${param(READ_ROLES)}::text[]))`, 'e.deleted_at IS NULL'];
+  const baseConditions = conditions.length;
+  const positiveQuery = positive ? `to_tsquery('es_unaccent', ${param(positive)})` : null;
+  if (positiveQuery) conditions.push(matchesDocument(positiveQuery));
+  if (negative) conditions.push(`NOT ${matchesDocument(`to_tsquery('es_unaccent', ${param(negative)})`)}`);
+
+  criteria.bookNames.forEach(name => conditions.push(bookNamed(name)));
+  criteria.excludeBookNames.forEach(name => conditions.push(`NOT ${bookNamed(name)}`));
+  if (criteria.types.length > 0) conditions.push(`e.type = ANY(${param(criteria.types)})`);
+  if (criteria.excludeTypes.length > 0) conditions.push(`NOT (e.type = ANY(${param(criteria.excludeTypes)}))`);
+  criteria.people.forEach(name => conditions.push(mentionsPerson(name)));
+  criteria.excludePeople.forEach(name => conditions.push(`NOT ${mentionsPerson(name)}`));
+  if (criteria.dateFrom) conditions.push(`e.created_at >= ${param(criteria.dateFrom)}::date`);
+  if (criteria.dateTo) conditions.push(`e.created_at < ${param(criteria.dateTo)}::date + 1`);
+  if (criteria.hasPendingTasks !== undefined) {
+    conditions.push(criteria.hasPendingTasks ? hasPendingTasks : `NOT ${hasPendingTasks}`);
   }
-  
-  // Full search in entries, tasks, and entities
-  if (filters?.dateFrom && filters?.dateTo) {
-    return await db`
-      SELECT DISTINCT e.* FROM entries e
-      LEFT JOIN tasks t ON t.entry_id = e.id
-      LEFT JOIN entities ent ON ent.entry_id = e.id
-      WHERE e.user_id = ${userId}
-        AND (
-          e.original_text ILIKE ${searchPattern} 
-          OR e.summary ILIKE ${searchPattern}
-          OR t.description ILIKE ${searchPattern}
-          OR t.assignee ILIKE ${searchPattern}
-          OR ent.name ILIKE ${searchPattern}
-        )
-        AND e.created_at >= ${filters.dateFrom}
-        AND e.created_at <= ${filters.dateTo}
-      ORDER BY e.created_at DESC
-    ` as DbEntry[];
-  } else if (filters?.dateFrom) {
-    return await db`
-      SELECT DISTINCT e.* FROM entries e
-      LEFT JOIN tasks t ON t.entry_id = e.id
-      LEFT JOIN entities ent ON ent.entry_id = e.id
-      WHERE e.user_id = ${userId}
-        AND (
-          e.original_text ILIKE ${searchPattern} 
-          OR e.summary ILIKE ${searchPattern}
-          OR t.description ILIKE ${searchPattern}
-          OR t.assignee ILIKE ${searchPattern}
-          OR ent.name ILIKE ${searchPattern}
-        )
-        AND e.created_at >= ${filters.dateFrom}
-      ORDER BY e.created_at DESC
-    ` as DbEntry[];
-  } else if (filters?.dateTo) {
-    return await db`
-      SELECT DISTINCT e.* FROM entries e
-      LEFT JOIN tasks t ON t.entry_id = e.id
-      LEFT JOIN entities ent ON ent.entry_id = e.id
-      WHERE e.user_id = ${userId}
-        AND (
-          e.original_text ILIKE ${searchPattern} 
-          OR e.summary ILIKE ${searchPattern}
-          OR t.description ILIKE ${searchPattern}
-          OR t.assignee ILIKE ${searchPattern}
-          OR ent.name ILIKE ${searchPattern}
-        )
-        AND e.created_at <= ${filters.dateTo}
-      ORDER BY e.created_at DESC
-    ` as DbEntry[];
-  } else {
-    return await db`
-      SELECT DISTINCT e.* FROM entries e
-      LEFT JOIN tasks t ON t.entry_id = e.id
-      LEFT JOIN entities ent ON ent.entry_id = e.id
-      WHERE e.user_id = ${userId}
-        AND (
-          e.original_text ILIKE ${searchPattern} 
-          OR e.summary ILIKE ${searchPattern}
-          OR t.description ILIKE ${searchPattern}
-          OR t.assignee ILIKE ${searchPattern}
-          OR ent.name ILIKE ${searchPattern}
-        )
-      ORDER BY e.created_at DESC
-    ` as DbEntry[];
+
+  if (filters?.bookId) conditions.push(`e.book_id = ${param(filters.bookId)}`);
+  if (filters?.type) conditions.push(`e.type = ${param(filters.type)}`);
+  if (filters?.dateFrom) conditions.push(`e.created_at >= ${param(filters.dateFrom)}`);
+  if (filters?.dateTo) conditions.push(`e.created_at <= ${param(filters.dateTo)}`);
+  if (filters?.assignee) {
+    conditions.push(`EXISTS (SELECT 1 FROM tasks ta WHERE ta.entry_id = e.id AND ta.assignee ILIKE ${param(likePattern(filters.assignee))})`);
+  }
+
+  if (conditions.length === baseConditions) {
+    return null;
   }
+
+  // Entry text is ranked by weight (summary > original text > AI rewrite);
+  // matches only in tasks or entities count for half
+  const rankSelect = positiveQuery
+    ? `(ts_rank(${entryVector}, ${positiveQuery}) + COALESCE((
+        SELECT MAX(ts_rank(doc.vector, ${positiveQuery})) * 0.5
+        FROM (
+          SELECT ${taskVector} AS vector FROM tasks t WHERE t.entry_id = e.id
+          UNION ALL
+          SELECT ${entityVector} AS vector FROM entities ent WHERE ent.entry_id = e.id
+        ) doc
+        WHERE doc.vector @@ ${positiveQuery}
+      ), 0)) AS rank,
+      ts_headline('es_unaccent', concat_ws(' — ', e.summary, e.original_text), ${positiveQuery}, ${param(
+        `StartSel=${SNIPPET_HIGHLIGHT.start}, StopSel=${SNIPPET_HIGHLIGHT.end}, MaxWords=35, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`
+      )}) AS snippet`
+    : '0 AS rank, NULL AS snippet';
+  const limitClause = filters?.limit ? `LIMIT ${param(filters.limit)}` : '';
+
+  const text = `
+    SELECT e.*, ${rankSelect}
+    FROM entries e
+    WHERE ${conditions.join('\n      AND ')}
+    ORDER BY rank DESC, e.created_at DESC
+    ${limitClause}
+  `;
+  return { text, params };
 }
 
-// Embeddings operations
+// Embeddings operations (scoped through the entry's book)
+// One embedding per entry: storing a new one replaces the previous vector
 export async function createEntryEmbedding(
   id: string,
+  userId: string,
   entryId: string,
   embedding: number[],
   model: string = 'text-embedding-3-small'
 ): Promise<DbEmbedding> {
   const db = requireDb();
-  const embeddingJson = JSON.stringify(embedding);
-  await db`
+  const vector = JSON.stringify(embedding);
+  const result = await db`
     INSERT INTO entry_embeddings (id, entry_id, embedding, model)
-    VALUES (${id}, ${entryId}, ${embeddingJson}, ${model})
-  `;
-  const result = await db`SELECT * FROM entry_embeddings WHERE id = ${id} LIMIT 1` as DbEmbedding[];
+    SELECT ${id}, e.id, ${vector}::vector, ${model}
+    FROM entries e
+    WHERE e.id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+    ON CONFLICT (entry_id) DO UPDATE SET
+      embedding = EXCLUDED.embedding,
+      model = EXCLUDED.model,
+      created_at = CURRENT_TIMESTAMP
+    RETURNING *
+  ` as DbEmbedding[];
+  if (!result[0]) throw new TenantAccessError(`Entry ${entryId}`);
   return result[0];
 }
 
-export async function getEmbeddingByEntryId(entryId: string): Promise<DbEmbedding | null> {
+export interface DbSimilarityOptions {
+  limit?: number;
+  minSimilarity?: number;
+  excludeEntryId?: string;
+}
+
+// Nearest neighbours of `embedding` among the user's entries, ranked by the
+// HNSW index on cosine distance; only the top `limit` rows leave the database
+export async function findSimilarEntries(
+  userId: string,
+  embedding: number[],
+  options: DbSimilarityOptions = {}
+): Promise<DbSimilarEntry[]> {
   const db = requireDb();
-  const result = await db`SELECT * FROM entry_embeddings WHERE entry_id = ${entryId} LIMIT 1` as DbEmbedding[];
+  const { limit = 10, minSimilarity = 0, excludeEntryId = '' } = options;
+  const vector = JSON.stringify(embedding);
+  const result = await db`
+    SELECT * FROM (
+      SELECT e.*, 1 - (emb.embedding <=> ${vector}::vector) AS similarity
+      FROM entry_embeddings emb
+      JOIN entries e ON e.id = emb.entry_id
+      WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND e.deleted_at IS NULL AND e.id <> ${excludeEntryId}
+      ORDER BY emb.embedding <=> ${vector}::vector
+      LIMIT ${limit}
+    ) nearest
+    WHERE similarity >= ${minSimilarity}
+    ORDER BY similarity DESC
+  `;
+  return (result as DbSimilarEntry[]).map(row => ({ ...row, similarity: Number(row.similarity) }));
+}
+
+export async function getEmbeddingByEntryId(entryId: string, userId: string): Promise<DbEmbedding | null> {
+  const db = requireDb();
+  const result = await db`
+    SELECT emb.* FROM entry_embeddings emb
+    JOIN entries e ON e.id = emb.entry_id
+    WHERE emb.entry_id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    LIMIT 1
+  ` as DbEmbedding[];
   return result[0] || null;
 }
 
-export async function getEmbeddingsByEntryIds(entryIds: string[]): Promise<DbEmbedding[]> {
+export async function getEmbeddingsByEntryIds(entryIds: string[], userId: string): Promise<DbEmbedding[]> {
   if (entryIds.length === 0) return [];
   const db = requireDb();
-  const result = await db`SELECT * FROM entry_embeddings WHERE entry_id = ANY(${entryIds})` as DbEmbedding[];
+  const result = await db`
+    SELECT emb.* FROM entry_embeddings emb
+    JOIN entries e ON e.id = emb.entry_id
+    WHERE emb.entry_id = ANY(${entryIds}) AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+  ` as DbEmbedding[];
   return result;
 }
 
-export async function deleteEmbeddingByEntryId(entryId: string): Promise<void> {
+export async function deleteEmbeddingByEntryId(entryId: string, userId: string): Promise<void> {
   const db = requireDb();
-  await db`DELETE FROM entry_embeddings WHERE entry_id = ${entryId}`;
+  await db`DELETE FROM entry_embeddings WHERE entry_id = ${entryId} AND entry_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))`;
 }
 
-// Entry Relations operations
+// Entry Relations operations (both ends must be entries of the same user)
 export async function createEntryRelation(
   id: string,
+  userId: string,
   sourceId: string,
   targetId: string,
   relationStrength: number
 ): Promise<DbEntryRelation> {
   const db = requireDb();
   // Use ON CONFLICT to update if relation already exists
-  await db`
+  const result = await db`
     INSERT INTO entry_relations (id, source_id, target_id, relation_strength)
-    VALUES (${id}, ${sourceId}, ${targetId}, ${relationStrength})
+    SELECT ${id}, s.id, t.id, ${relationStrength}
+    FROM entries s, entries t
+    WHERE s.id = ${sourceId} AND s.book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+      AND t.id = ${targetId} AND t.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
     ON CONFLICT (source_id, target_id) 
     DO UPDATE SET relation_strength = ${relationStrength}, created_at = CURRENT_TIMESTAMP
-  `;
-  const result = await db`SELECT * FROM entry_relations WHERE id = ${id} LIMIT 1` as DbEntryRelation[];
+    RETURNING *
+  ` as DbEntryRelation[];
+  if (!result[0]) throw new TenantAccessError(`Entry ${sourceId} or ${targetId}`);
   return result[0];
 }
 
-export async function getRelationsByEntryId(entryId: string): Promise<DbEntryRelation[]> {
+export async function getRelationsByEntryId(entryId: string, userId: string): Promise<DbEntryRelation[]> {
   const db = requireDb();
   const result = await db`
-    SELECT * FROM entry_relations 
-    WHERE source_id = ${entryId} OR target_id = ${entryId}
-    ORDER BY relation_strength DESC
+    SELECT r.* FROM entry_relations r
+    JOIN entries e ON e.id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    WHERE r.source_id = ${entryId} OR r.target_id = ${entryId}
+    ORDER BY r.relation_strength DESC
   ` as DbEntryRelation[];
   return result;
 }
 
-export async function getRelatedEntries(entryId: string, limit: number = 10, minStrength: number = 0.5): Promise<Array<{entry: DbEntry, relation: DbEntryRelation}>> {
+export async function getRelatedEntries(entryId: string, userId: string, limit: number = 10, minStrength: number = 0.5): Promise<Array<{entry: DbEntry, relation: DbEntryRelation}>> {
   const db = requireDb();
   const relations = await db`
-    SELECT * FROM entry_relations 
-    WHERE (source_id = ${entryId} OR target_id = ${entryId})
-      AND relation_strength >= ${minStrength}
-    ORDER BY relation_strength DESC
+    SELECT r.* FROM entry_relations r
+    JOIN entries e ON e.id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    WHERE (r.source_id = ${entryId} OR r.target_id = ${entryId})
+      AND r.relation_strength >= ${minStrength}
+    ORDER BY r.relation_strength DESC
     LIMIT ${limit}
   ` as DbEntryRelation[];
   
@@ -947,7 +1183,7 @@ export async function getRelatedEntries(entryId: string, limit: number = 10, min
   
   // Fetch the entries
   const entries = await db`
-    SELECT * FROM entries WHERE id = ANY(${relatedEntryIds})
+    SELECT * FROM entries WHERE id = ANY(${relatedEntryIds}) AND book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[])) AND deleted_at IS NULL
   ` as DbEntry[];
   
   // Map relations to entries
@@ -962,61 +1198,280 @@ export async function getRelatedEntries(entryId: string, limit: number = 10, min
     .filter((item): item is {entry: DbEntry, relation: DbEntryRelation} => item !== null);
 }
 
-export async function deleteRelation(id: string): Promise<void> {
+export async function deleteRelation(id: string, userId: string): Promise<void> {
   const db = requireDb();
-  await db`DELETE FROM entry_relations WHERE id = ${id}`;
+  await db`DELETE FROM entry_relations WHERE id = ${id} AND source_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))`;
 }
 
-// Person summaries cache functions
-export interface DbPersonSummary {
-  id: string;
-  user_id: string;
-  person_name: string;
-  summary: string;
-  entries_hash: string;
-  last_entry_timestamp: number;
-  created_at: string;
-  updated_at: string;
+// Entry revisions operations (scoped through the entry's book)
+export async function createEntryRevision(
+  id: string,
+  userId: string,
+  entryId: string,
+  snapshot: EntrySnapshot,
+  authorId?: string,
+  authorName?: string,
+  reason?: string
+): Promise<DbEntryRevision> {
+  const db = requireDb();
+  const result = await db`
+    INSERT INTO entry_revisions (id, entry_id, revision_number, author_id, author_name, reason, snapshot)
+    SELECT ${id}, e.id, COALESCE(MAX(r.revision_number), 0) + 1, ${authorId || null}, ${authorName || null}, ${reason || null}, ${JSON.stringify(snapshot)}::jsonb
+    FROM entries e
+    LEFT JOIN entry_revisions r ON r.entry_id = e.id
+    WHERE e.id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[]))
+    GROUP BY e.id
+    RETURNING *
+  ` as DbEntryRevision[];
+  if (!result[0]) throw new TenantAccessError(`Entry ${entryId}`);
+  return result[0];
 }
 
-export async function getPersonSummary(userId: string, personName: string): Promise<DbPersonSummary | null> {
+export async function getEntryRevisions(entryId: string, userId: string): Promise<DbEntryRevision[]> {
   const db = requireDb();
-  const results = await db<DbPersonSummary[]>`
-    SELECT * FROM person_summaries 
-    WHERE user_id = ${userId} AND person_name = ${personName}
+  const result = await db`
+    SELECT r.* FROM entry_revisions r
+    JOIN entries e ON e.id = r.entry_id
+    WHERE r.entry_id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    ORDER BY r.revision_number ASC
+  `;
+  return result as DbEntryRevision[];
+}
+
+export async function getLatestEntryRevision(entryId: string, userId: string): Promise<DbEntryRevision | null> {
+  const db = requireDb();
+  const result = await db`
+    SELECT r.* FROM entry_revisions r
+    JOIN entries e ON e.id = r.entry_id
+    WHERE r.entry_id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    ORDER BY r.revision_number DESC
     LIMIT 1
+  ` as DbEntryRevision[];
+  return result[0] || null;
+}
+
+// Entry comments operations (scoped through the entry's book)
+export async function getEntryComments(entryId: string, userId: string): Promise<DbEntryComment[]> {
+  const db = requireDb();
+  const result = await db`
+    SELECT c.* FROM entry_comments c
+    JOIN entries e ON e.id = c.entry_id
+    WHERE c.entry_id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+    ORDER BY c.created_at ASC
   `;
-  return results[0] || null;
+  return result as DbEntryComment[];
 }
 
-export async function savePersonSummary(
-  userId: string,
-  personName: string,
-  summary: string,
-  entriesHash: string,
-  lastEntryTimestamp: number
-): Promise<void> {
+export async function createEntryComment(id: string, userId: string, entryId: string, text: string): Promise<DbEntryComment> {
+  const db = requireDb();
+  const result = await db`
+    INSERT INTO entry_comments (id, entry_id, user_id, text)
+    SELECT ${id}, e.id, ${userId}, ${text}
+    FROM entries e
+    WHERE e.id = ${entryId} AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${COMMENT_ROLES}::text[]))
+      AND e.deleted_at IS NULL
+    RETURNING *
+  ` as DbEntryComment[];
+  if (!result[0]) throw new TenantAccessError(`Entry ${entryId}`);
+  return result[0];
+}
+
+// Its author (while they can still read the book) or the book's owner can delete a comment
+export async function deleteEntryComment(id: string, userId: string): Promise<void> {
   const db = requireDb();
-  const id = `${userId}_${personName}_${Date.now()}`;
-  
   await db`
-    INSERT INTO person_summaries (id, user_id, person_name, summary, entries_hash, last_entry_timestamp, updated_at)
-    VALUES (${id}, ${userId}, ${personName}, ${summary}, ${entriesHash}, ${lastEntryTimestamp}, CURRENT_TIMESTAMP)
-    ON CONFLICT (user_id, person_name) 
-    DO UPDATE SET 
-      summary = ${summary},
-      entries_hash = ${entriesHash},
-      last_entry_timestamp = ${lastEntryTimestamp},
-      updated_at = CURRENT_TIMESTAMP
+    DELETE FROM entry_comments c
+    USING entries e
+    WHERE c.id = ${id} AND e.id = c.entry_id
+      AND e.book_id IN (SELECT accessible_book_ids(${userId}, ${READ_ROLES}::text[]))
+      AND (c.user_id = ${userId} OR e.book_id IN (SELECT id FROM books WHERE user_id = ${userId}))
+  `;
+}
+
+// Trash operations
+// Entries and threads deleted together with their book share its deleted_at;
+// they are listed (and restored or purged) as part of the book. In shared books
+// the trash holds what the user could delete: their own rows, or all of them
+// in the books they own.
+export async function getTrash(userId: string): Promise<DbTrashItem[]> {
+  const db = requireDb();
+  const result = await db`
+    SELECT 'folder' AS item_type, f.id, f.name AS title, NULL::text AS book_id, 0 AS child_count, f.deleted_at
+    FROM folders f
+    WHERE f.user_id = ${userId} AND f.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'book', b.id, b.name, NULL::text, (
+      SELECT COUNT(*) FROM entries e WHERE e.book_id = b.id AND e.deleted_at = b.deleted_at
+    )::int, b.deleted_at
+    FROM books b
+    WHERE b.user_id = ${userId} AND b.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'thread', t.id, t.title, t.book_id, 0, t.deleted_at
+    FROM threads t
+    JOIN books b ON b.id = t.book_id
+    WHERE t.book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (t.user_id = ${userId} OR b.user_id = ${userId})
+      AND t.deleted_at IS NOT NULL AND (b.deleted_at IS NULL OR b.deleted_at <> t.deleted_at)
+    UNION ALL
+    SELECT 'entry', e.id, COALESCE(NULLIF(e.summary, ''), LEFT(e.original_text, 120)), e.book_id, 0, e.deleted_at
+    FROM entries e
+    JOIN books b ON b.id = e.book_id
+    WHERE e.book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (e.user_id = ${userId} OR b.user_id = ${userId})
+      AND e.deleted_at IS NOT NULL AND (b.deleted_at IS NULL OR b.deleted_at <> e.deleted_at)
+    ORDER BY deleted_at DESC
   `;
+  return (result as DbTrashItem[]).map(row => ({ ...row, child_count: Number(row.child_count) }));
+}
+
+// Restoring an entry or thread also brings back its book, so it has somewhere
+// to live; a shared book stays in its owner's trash until they restore it.
+export async function restoreFromTrash(type: TrashItemType, id: string, userId: string): Promise<void> {
+  const db = requireDb();
+  switch (type) {
+    case 'folder':
+      await db`UPDATE folders SET deleted_at = NULL WHERE id = ${id} AND user_id = ${userId}`;
+      return;
+    case 'book':
+      // The book row is restored last: the subqueries read its deleted_at
+      await db.transaction(txn => [
+        txn`
+          UPDATE entries SET deleted_at = NULL
+          WHERE book_id = ${id}
+            AND deleted_at = (SELECT deleted_at FROM books WHERE id = ${id} AND user_id = ${userId})
+        `,
+        txn`
+          UPDATE threads SET deleted_at = NULL
+          WHERE book_id = ${id}
+            AND deleted_at = (SELECT deleted_at FROM books WHERE id = ${id} AND user_id = ${userId})
+        `,
+        txn`UPDATE books SET deleted_at = NULL WHERE id = ${id} AND user_id = ${userId}`,
+      ]);
+      return;
+    case 'thread':
+      await db.transaction(txn => [
+        txn`
+          UPDATE books SET deleted_at = NULL
+          WHERE user_id = ${userId} AND id = (SELECT book_id FROM threads WHERE id = ${id})
+        `,
+        txn`UPDATE threads SET deleted_at = NULL WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId}))`,
+      ]);
+      return;
+    case 'entry':
+      await db.transaction(txn => [
+        txn`
+          UPDATE books SET deleted_at = NULL
+          WHERE user_id = ${userId} AND id = (SELECT book_id FROM entries WHERE id = ${id})
+        `,
+        txn`UPDATE entries SET deleted_at = NULL WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId}))`,
+      ]);
+      return;
+  }
+}
+
+// Permanent deletion; only rows already in the trash can be purged.
+// Foreign keys take care of tasks, entities, embeddings, relations and revisions.
+export async function purgeFromTrash(type: TrashItemType, id: string, userId: string): Promise<void> {
+  const db = requireDb();
+  switch (type) {
+    case 'folder':
+      await db`DELETE FROM folders WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NOT NULL`;
+      return;
+    case 'book':
+      await db`DELETE FROM books WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NOT NULL`;
+      return;
+    case 'thread':
+      await db`DELETE FROM threads WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId})) AND deleted_at IS NOT NULL`;
+      return;
+    case 'entry':
+      await db`DELETE FROM entries WHERE id = ${id} AND book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId})) AND deleted_at IS NOT NULL`;
+      return;
+  }
+}
+
+// Permanently deletes everything trashed before the given date (or all of the trash)
+export async function purgeTrash(userId: string, deletedBefore?: Date): Promise<void> {
+  const db = requireDb();
+  if (!deletedBefore) {
+    await db.transaction(txn => [
+      txn`DELETE FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId})) AND deleted_at IS NOT NULL`,
+      txn`DELETE FROM threads WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId})) AND deleted_at IS NOT NULL`,
+      txn`DELETE FROM books WHERE user_id = ${userId} AND deleted_at IS NOT NULL`,
+      txn`DELETE FROM folders WHERE user_id = ${userId} AND deleted_at IS NOT NULL`,
+    ]);
+    return;
+  }
+  const cutoff = deletedBefore.toISOString();
+  await db.transaction(txn => [
+    txn`DELETE FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId})) AND deleted_at < ${cutoff}`,
+    txn`DELETE FROM threads WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])) AND (user_id = ${userId} OR book_id IN (SELECT id FROM books WHERE user_id = ${userId})) AND deleted_at < ${cutoff}`,
+    txn`DELETE FROM books WHERE user_id = ${userId} AND deleted_at < ${cutoff}`,
+    txn`DELETE FROM folders WHERE user_id = ${userId} AND deleted_at < ${cutoff}`,
+  ]);
+}
+
+// AI result cache (services/aiCache.ts)
+export interface DbAiCacheEntry {
+  user_id: string;
+  key: string;
+  namespace: string;
+  subject: string | null;
+  value: string; // JSON
+  expires_at: string;
+  created_at: string;
+}
+
+export interface DbAiCacheWrite {
+  key: string;
+  namespace: string;
+  subject?: string;
+  value: string;
+  expiresAt: Date;
+}
+
+// Entries that have not expired yet
+export async function getAiCacheEntries(userId: string, keys: string[]): Promise<DbAiCacheEntry[]> {
+  if (keys.length === 0) return [];
+  const db = requireDb();
+  const result = await db`
+    SELECT * FROM ai_cache
+    WHERE user_id = ${userId} AND key = ANY(${keys}) AND expires_at > CURRENT_TIMESTAMP
+  `;
+  return result as DbAiCacheEntry[];
+}
+
+// Replaces entries with the same key; the user's expired entries are dropped on the way
+export async function saveAiCacheEntries(userId: string, entries: DbAiCacheWrite[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = requireDb();
+  await db.transaction(txn => [
+    txn`DELETE FROM ai_cache WHERE user_id = ${userId} AND expires_at <= CURRENT_TIMESTAMP`,
+    ...entries.map(entry => txn`
+      INSERT INTO ai_cache (user_id, key, namespace, subject, value, expires_at)
+      VALUES (${userId}, ${entry.key}, ${entry.namespace}, ${entry.subject || null}, ${entry.value}, ${entry.expiresAt.toISOString()})
+      ON CONFLICT (user_id, key) DO UPDATE SET
+        namespace = EXCLUDED.namespace,
+        subject = EXCLUDED.subject,
+        value = EXCLUDED.value,
+        expires_at = EXCLUDED.expires_at,
+        created_at = CURRENT_TIMESTAMP
+    `),
+  ]);
+}
+
+// Without a subject, drops the whole namespace
+export async function deleteAiCacheEntries(userId: string, namespace: string, subject?: string): Promise<number> {
+  const db = requireDb();
+  const result = subject === undefined
+    ? await db`DELETE FROM ai_cache WHERE user_id = ${userId} AND namespace = ${namespace} RETURNING key`
+    : await db`DELETE FROM ai_cache WHERE user_id = ${userId} AND namespace = ${namespace} AND subject = ${subject} RETURNING key`;
+  return result.length;
 }
 
-export async function updateRelationStrength(id: string, strength: number): Promise<void> {
+export async function updateRelationStrength(id: string, userId: string, strength: number): Promise<void> {
   const db = requireDb();
   await db`
     UPDATE entry_relations 
     SET relation_strength = ${strength}
-    WHERE id = ${id}
+    WHERE id = ${id} AND source_id IN (SELECT id FROM entries WHERE book_id IN (SELECT accessible_book_ids(${userId}, ${WRITE_ROLES}::text[])))
   `;
 }
 
@@ -0,0 +1,80 @@
+import { neon } from '@neondatabase/serverless';
+import { getServerEnv } from './env';
+import { getRepository } from './repository';
+import { dbTaskToTaskItem } from './dataService';
+import type { AssignedTask, NoteType, TaskItem } from '../types';
+
+// Task delegation (server only)
+// A task can be linked to another registered user, found by email. The task
+// stays in its entry; the assignee sees it in their task list and can complete
+// it or add notes, and both sides read the same row, so status is always in sync.
+
+const databaseUrl = getServerEnv('NEON_DATABASE_URL');
+const sql = databaseUrl ? neon(databaseUrl) : null;
+
+function requireDb() {
+  if (!sql) {
+    throw new Error('Database not configured');
+  }
+  return sql;
+}
+
+export class TaskDelegationError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'TaskDelegationError';
+  }
+}
+
+// Only active accounts can receive tasks. The assignee's name replaces the free-text one.
+// Write access to the task is checked before the email is looked up, and an
+// email without an active account always gets the same answer, so delegating
+// cannot be used to find out who has an account.
+export async function delegateTask(taskId: string, userId: string, email: string): Promise<TaskItem> {
+  const repository = await getRepository(userId);
+  if (!(await repository.getWritableTask(taskId))) {
+    throw new TaskDelegationError('Tarea no encontrada', 404);
+  }
+
+  const result = await requireDb()`
+    SELECT id, name FROM users WHERE email = ${email.toLowerCase().trim()} AND is_active = TRUE LIMIT 1
+  `;
+  if (result.length === 0) {
+    throw new TaskDelegationError('No se pudo delegar a ese email. Comprueba que la persona esté registrada con él.');
+  }
+  const assignee = result[0] as { id: string; name: string };
+  if (assignee.id === userId) {
+    throw new TaskDelegationError('No puedes delegarte una tarea a ti mismo');
+  }
+
+  return dbTaskToTaskItem(await repository.delegateTask(taskId, assignee.id, assignee.name));
+}
+
+// The task keeps the assignee's name as free text
+export async function undelegateTask(taskId: string, userId: string): Promise<TaskItem> {
+  const repository = await getRepository(userId);
+  return dbTaskToTaskItem(await repository.delegateTask(taskId, null));
+}
+
+export async function listAssignedTasks(userId: string): Promise<AssignedTask[]> {
+  const repository = await getRepository(userId);
+  const tasks = await repository.getAssignedTasks();
+  if (tasks.length === 0) return [];
+
+  const delegatorIds = [...new Set(tasks.map(t => t.delegated_by).filter((id): id is string => !!id))];
+  const users = delegatorIds.length > 0
+    ? await requireDb()`SELECT id, name FROM users WHERE id = ANY(${delegatorIds})`
+    : [];
+  const names = new Map(users.map((u: any) => [u.id, u.name as string]));
+
+  return tasks.map(task => ({
+    ...dbTaskToTaskItem(task),
+    entryId: task.entry_id,
+    entryType: task.entry_type as NoteType,
+    entrySummary: task.entry_summary,
+    entryCreatedAt: new Date(task.entry_created_at).getTime(),
+    bookId: task.book_id,
+    bookName: task.book_name,
+    delegatedByName: task.delegated_by ? names.get(task.delegated_by) : undefined,
+  }));
+}
@@ -1,27 +1,10 @@
-import OpenAI from 'openai';
 import { Entry, EntryRelation } from '../types';
-import * as db from './db';
+import { getRepository } from './repository';
 import * as dataService from './dataService';
-
-// Get OpenAI API key securely
-function getOpenAIApiKey(): string {
-  const key = import.meta.env.VITE_OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY;
-  if (!key || key === 'your_openai_api_key_here') {
-    throw new Error('OpenAI API key no configurada. Por favor configura VITE_OPENAI_API_KEY en .env.local');
-  }
-  return key;
-}
-
-const openai = new OpenAI({
-  apiKey: getOpenAIApiKey(),
-  dangerouslyAllowBrowser: true,
-});
-
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-const EMBEDDING_DIMENSIONS = 1536; // Default for text-embedding-3-small
+import { embed, getEmbeddingModel } from './llmProvider';
 
 /**
- * Generates an embedding for the given text using OpenAI
+ * Generates an embedding for the given text with the configured embedding model
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   if (!text || text.trim().length === 0) {
@@ -33,16 +16,12 @@ export async function generateEmbedding(text: string): Promise<number[]> {
     const maxChars = 8000; // Safe limit for text-embedding-3-small
     const truncatedText = text.length > maxChars ? text.slice(0, maxChars) : text;
 
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: truncatedText,
-    });
-
-    if (!response.data || response.data.length === 0) {
-      throw new Error('No embedding data returned from OpenAI');
+    const [embedding] = await embed([truncatedText]);
+    if (!embedding) {
+      throw new Error('No embedding data returned by the model');
     }
 
-    return response.data[0].embedding;
+    return embedding;
   } catch (error: any) {
     console.error('Error generating embedding:', error);
     throw new Error(`Failed to generate embedding: ${error.message || 'Unknown error'}`);
@@ -52,10 +31,11 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 /**
  * Stores an embedding in the database
  */
-export async function storeEmbedding(entryId: string, embedding: number[]): Promise<void> {
+export async function storeEmbedding(entryId: string, userId: string, embedding: number[]): Promise<void> {
   try {
     const id = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-    await db.createEntryEmbedding(id, entryId, embedding, EMBEDDING_MODEL);
+    const db = await getRepository(userId);
+    await db.createEntryEmbedding(id, entryId, embedding, getEmbeddingModel());
   } catch (error) {
     console.error('Error storing embedding:', error);
     throw error;
@@ -88,6 +68,8 @@ export function calculateCosineSimilarity(embedding1: number[], embedding2: numb
 
 /**
  * Finds similar entries based on embedding similarity
+ * The nearest-neighbour search runs in the storage backend (pgvector on Neon),
+ * so only the top matches are loaded
  */
 export async function findSimilarEntries(
   embedding: number[],
@@ -96,51 +78,31 @@ export async function findSimilarEntries(
   userId?: string
 ): Promise<Array<{ entry: Entry; similarity: number }>> {
   try {
-    // Get all embeddings for the user's entries
-    // First, get all entries for the user
     if (!userId) {
       return [];
     }
 
-    const allEntries = await db.getAllEntries(userId);
-    if (allEntries.length === 0) {
+    const db = await getRepository(userId);
+    const matches = await db.findSimilarEntries(embedding, { limit, minSimilarity: threshold });
+    if (matches.length === 0) {
       return [];
     }
 
-    const entryIds = allEntries.map(e => e.id);
-    const allEmbeddings = await db.getEmbeddingsByEntryIds(entryIds);
-
-    // Calculate similarities
-    const similarities: Array<{ entry: Entry; similarity: number }> = [];
-
-    // Load all entries with their tasks and entities
-    const fullEntries = await dataService.loadAllEntries(userId);
-    const entryMap = new Map(fullEntries.map(e => [e.id, e]));
-
-    for (const dbEmbedding of allEmbeddings) {
-      try {
-        const storedEmbedding = JSON.parse(dbEmbedding.embedding) as number[];
-        const similarity = calculateCosineSimilarity(embedding, storedEmbedding);
-
-        if (similarity >= threshold) {
-          const entry = entryMap.get(dbEmbedding.entry_id);
-          if (entry) {
-            similarities.push({
-              entry,
-              similarity,
-            });
-          }
-        }
-      } catch (error) {
-        console.error(`Error processing embedding for entry ${dbEmbedding.entry_id}:`, error);
-        continue;
-      }
-    }
-
-    // Sort by similarity (descending) and limit
-    return similarities
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
+    // Load tasks and entities for the matches only
+    const entryIds = matches.map(m => m.id);
+    const [allTasks, allEntities] = await Promise.all([
+      db.getTasksByEntryIds(entryIds),
+      db.getEntitiesByEntryIds(entryIds),
+    ]);
+
+    return matches.map(({ similarity, ...dbEntry }) => ({
+      entry: dataService.dbEntryToEntry(
+        dbEntry,
+        allTasks.filter(t => t.entry_id === dbEntry.id).map(dataService.dbTaskToTaskItem),
+        allEntities.filter(e => e.entry_id === dbEntry.id).map(dataService.dbEntityToEntity)
+      ),
+      similarity,
+    }));
   } catch (error) {
     console.error('Error finding similar entries:', error);
     return [];
@@ -169,13 +131,7 @@ export async function batchGenerateEmbeddings(texts: string[]): Promise<number[]
         return text.length > maxChars ? text.slice(0, maxChars) : text;
       });
 
-      const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: truncatedChunk,
-      });
-
-      const chunkResults = response.data.map(item => item.embedding);
-      results.push(...chunkResults);
+      results.push(...await embed(truncatedChunk));
 
       // Small delay to avoid rate limits
       if (i + chunkSize < texts.length) {
@@ -191,49 +147,35 @@ export async function batchGenerateEmbeddings(texts: string[]): Promise<number[]
 }
 
 /**
- * Detects semantic relations between an entry and other entries
+ * Detects semantic relations between an entry and the user's other entries
  * Uses embeddings to calculate similarity and saves relations
+ * (nothing is saved while entryId is empty, i.e. before the entry exists)
  */
 export async function detectSemanticRelations(
   entryId: string,
   embedding: number[],
-  allEntries: Entry[],
-  threshold: number = 0.7
+  userId: string,
+  threshold: number = 0.7,
+  limit: number = 20
 ): Promise<Array<{ targetId: string; strength: number }>> {
   try {
-    // Get all embeddings for other entries
-    const otherEntryIds = allEntries
-      .filter(e => e.id !== entryId)
-      .map(e => e.id);
-    
-    if (otherEntryIds.length === 0) {
-      return [];
-    }
+    const db = await getRepository(userId);
+    const matches = await db.findSimilarEntries(embedding, {
+      limit,
+      minSimilarity: threshold,
+      excludeEntryId: entryId || undefined,
+    });
 
-    const allEmbeddings = await db.getEmbeddingsByEntryIds(otherEntryIds);
-    
-    const relations: Array<{ targetId: string; strength: number }> = [];
+    // Already sorted by strength (descending)
+    const relations = matches.map(match => ({
+      targetId: match.id,
+      strength: Math.min(1, Math.max(0, match.similarity)),
+    }));
 
-    for (const dbEmbedding of allEmbeddings) {
-      try {
-        const storedEmbedding = JSON.parse(dbEmbedding.embedding) as number[];
-        const similarity = calculateCosineSimilarity(embedding, storedEmbedding);
-
-        if (similarity >= threshold) {
-          relations.push({
-            targetId: dbEmbedding.entry_id,
-            strength: similarity,
-          });
-        }
-      } catch (error) {
-        console.error(`Error processing embedding for entry ${dbEmbedding.entry_id}:`, error);
-        continue;
-      }
+    if (!entryId) {
+      return relations;
     }
 
-    // Sort by strength (descending)
-    relations.sort((a, b) => b.strength - a.strength);
-
     // Save relations to database
     for (const relation of relations) {
       try {
@@ -251,4 +193,3 @@ export async function detectSemanticRelations(
     return [];
   }
 }
-
@@ -0,0 +1,46 @@
+// Server-side configuration
+// Only the API server and the scripts read these, from process.env. None of
+// them carries the VITE_ prefix, so Vite never inlines them into the bundle.
+// The old VITE_ names are still accepted so existing .env.local files and
+// deployments keep working until they are renamed.
+
+export type ServerEnvName =
+  | 'NODE_ENV'
+  | 'VERCEL'
+  | 'NEON_DATABASE_URL'
+  | 'OPENAI_API_KEY'
+  | 'LLM_PROVIDER'
+  | 'LLM_BASE_URL'
+  | 'LLM_CHAT_MODEL'
+  | 'LLM_TASK_MODELS'
+  | 'LLM_EMBEDDING_MODEL'
+  | 'LLM_MOCK_SCRIPT'
+  | 'AI_MONTHLY_BUDGET_USD'
+  | 'AI_MODEL_PRICES'
+  | 'STORAGE_BACKEND'
+  | 'TRASH_RETENTION_DAYS'
+  | 'APP_URL'
+  | 'MAIL_TRANSPORT'
+  | 'MAIL_FROM'
+  | 'MAIL_OUTBOX_DIR'
+  | 'SMTP_HOST'
+  | 'SMTP_PORT'
+  | 'SMTP_SECURE'
+  | 'SMTP_USER'
+  | 'SMTP_PASSWORD';
+
+export function getServerEnv(name: ServerEnvName): string | undefined {
+  if (typeof process === 'undefined' || !process.env) {
+    return undefined;
+  }
+  return process.env[name] || process.env[`VITE_${name}`] || undefined;
+}
+
+// OpenAI key for the LLM provider (services/llmProvider.ts), which only runs on the server
+export function getOpenAIApiKey(): string {
+  const key = getServerEnv('OPENAI_API_KEY');
+  if (!key || key === 'your_openai_api_key_here') {
+    throw new Error('OpenAI API key no configurada. Por favor configura OPENAI_API_KEY en .env.local');
+  }
+  return key;
+}
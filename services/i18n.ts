@@ -0,0 +1,216 @@
+// Languages (client and server)
+// Each user picks the language of the interface and of the AI answers; new
+// accounts start with the browser's. Spanish is the default and the fallback
+// for anything not translated yet. UI texts live in the catalogs below, and
+// the AI prompts have one variant per language (services/prompts).
+
+export type Locale = 'es' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+export const LOCALES: Array<{ value: Locale; label: string }> = [
+  { value: 'es', label: 'Español' },
+  { value: 'en', label: 'English' },
+];
+
+// BCP 47 tag used to format dates and numbers
+export const LOCALE_TAGS: Record<Locale, string> = {
+  es: 'es-ES',
+  en: 'en-US',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return value === 'es' || value === 'en';
+}
+
+// 'en-GB' → 'en'; unknown languages fall back to Spanish
+export function localeFromLanguage(language: string | undefined): Locale {
+  const base = (language || '').toLowerCase().split('-')[0];
+  return isLocale(base) ? base : DEFAULT_LOCALE;
+}
+
+const es = {
+  // Navigation
+  'nav.home': 'Inicio',
+  'nav.dashboard': 'Tu Espacio',
+  'nav.tasks': 'Mis Misiones',
+  'nav.tasksShort': 'Misiones',
+  'nav.search': 'Búsqueda',
+  'nav.searchShort': 'Buscar',
+  'nav.summary': 'Resumen',
+  'nav.query': 'Preguntar IA',
+  'nav.people': 'Personas',
+  'nav.insights': 'Insights',
+  'nav.trash': 'Papelera',
+  'nav.books': 'Libretas',
+  'nav.more': 'Más',
+  'nav.moreOptions': 'Más opciones',
+  'nav.main': 'Principal',
+  'nav.logout': 'Cerrar Sesión',
+  'nav.logoutConfirm': '¿Cerrar sesión?',
+  'nav.logoutDescription': 'Se cerrará tu sesión actual',
+  'common.cancel': 'Cancelar',
+  'common.loading': 'Cargando...',
+  'common.user': 'Usuario',
+
+  // Sign in
+  'login.subtitle.login': 'Inicia sesión en tu cuenta',
+  'login.subtitle.code': 'Verificación en dos pasos',
+  'login.subtitle.register': 'Crea una nueva cuenta',
+  'login.subtitle.forgot': 'Recupera tu contraseña',
+  'login.subtitle.reset': 'Crea una nueva contraseña',
+  'login.emailVerified': '¡Email confirmado! Ya puedes iniciar sesión.',
+  'login.emailVerifyFailed': 'No se pudo confirmar el email',
+  'login.emailReverted': 'Recuperaste tu email y se cerraron todas las sesiones. Si no reconoces el cambio, restablece tu contraseña.',
+  'login.emailRevertFailed': 'No se pudo recuperar el email',
+  'login.nameRequired': 'El nombre es requerido',
+  'login.registered': 'Te enviamos un enlace a {email} para confirmar tu cuenta. Ábrelo y luego inicia sesión.',
+  'login.resetRequested': 'Si {email} tiene una cuenta, te enviamos un enlace para crear una nueva contraseña. Vence en 1 hora.',
+  'login.passwordMismatch': 'Las contraseñas no coinciden',
+  'login.passwordReset': 'Contraseña actualizada. Ya puedes iniciar sesión.',
+  'login.failed': 'Error al iniciar sesión',
+  'login.verificationResent': 'Te enviamos un nuevo enlace de confirmación a {email}.',
+  'login.mailFailed': 'No se pudo enviar el correo',
+  'login.submit.login': 'Iniciar Sesión',
+  'login.submitting.login': 'Iniciando sesión...',
+  'login.submit.code': 'Verificar',
+  'login.submitting.code': 'Verificando...',
+  'login.submit.register': 'Crear Cuenta',
+  'login.submitting.register': 'Creando cuenta...',
+  'login.submit.forgot': 'Enviar enlace',
+  'login.submitting.forgot': 'Enviando...',
+  'login.submit.reset': 'Guardar contraseña',
+  'login.submitting.reset': 'Guardando...',
+  'login.resendVerification': 'Reenviar correo de confirmación',
+  'login.name': 'Nombre',
+  'login.namePlaceholder': 'Tu nombre',
+  'login.emailPlaceholder': 'tu@email.com',
+  'login.password': 'Contraseña',
+  'login.newPassword': 'Nueva Contraseña',
+  'login.confirmNewPassword': 'Confirmar Nueva Contraseña',
+  'login.forgotPassword': '¿Olvidaste tu contraseña?',
+  'login.passwordHint': 'Mínimo 8 caracteres',
+  'login.code': 'Código de verificación',
+  'login.codeHint': 'Ingresa el código de tu app de autenticación o uno de tus códigos de recuperación',
+  'login.toRegister': '¿No tienes cuenta? Regístrate',
+  'login.toLogin': '¿Ya tienes cuenta? Inicia sesión',
+  'login.back': 'Volver al inicio de sesión',
+  'login.securityNotice': '🔒 Tus datos están protegidos con encriptación',
+
+  // Profile
+  'profile.language': 'Idioma',
+  'profile.languageDescription': 'Idioma de la aplicación y de las respuestas de la IA (resúmenes, consultas y análisis de notas).',
+  'profile.languageSaved': 'Idioma actualizado',
+
+  // AI answers used when the model gives none
+  'ai.summaryEmpty': 'No se pudo generar el resumen.',
+  'ai.summaryError': 'Error al generar el resumen.',
+  'ai.queryEmpty': 'No se pudo procesar la consulta.',
+  'ai.queryError': 'Error al procesar la consulta.',
+  'ai.analysisError': 'Error al analizar',
+  'ai.documentError': 'Error al analizar el documento.',
+  'ai.invalidResponse': 'La IA devolvió una respuesta inválida: {issues}',
+  'ai.attachmentWithoutText': 'Archivo adjunto sin texto',
+  'ai.personNoInteractions': 'No hay interacciones registradas con {name}.',
+  'ai.personSummaryFallback': 'Resumen de interacciones con {name}: {count} nota(s) registrada(s).',
+  'ai.personSummaryLastInteraction': 'Última interacción: {date}.',
+};
+
+export type MessageKey = keyof typeof es;
+
+const en: Record<MessageKey, string> = {
+  'nav.home': 'Home',
+  'nav.dashboard': 'Your Space',
+  'nav.tasks': 'My Missions',
+  'nav.tasksShort': 'Missions',
+  'nav.search': 'Search',
+  'nav.searchShort': 'Search',
+  'nav.summary': 'Summary',
+  'nav.query': 'Ask AI',
+  'nav.people': 'People',
+  'nav.insights': 'Insights',
+  'nav.trash': 'Trash',
+  'nav.books': 'Notebooks',
+  'nav.more': 'More',
+  'nav.moreOptions': 'More options',
+  'nav.main': 'Main',
+  'nav.logout': 'Sign Out',
+  'nav.logoutConfirm': 'Sign out?',
+  'nav.logoutDescription': 'Your current session will be closed',
+  'common.cancel': 'Cancel',
+  'common.loading': 'Loading...',
+  'common.user': 'User',
+
+  'login.subtitle.login': 'Sign in to your account',
+  'login.subtitle.code': 'Two-step verification',
+  'login.subtitle.register': 'Create a new account',
+  'login.subtitle.forgot': 'Recover your password',
+  'login.subtitle.reset': 'Create a new password',
+  'login.emailVerified': 'Email confirmed! You can sign in now.',
+  'login.emailVerifyFailed': 'The email could not be confirmed',
+  'login.emailReverted': 'Your email is back and every session was signed out. If you do not recognize the change, reset your password.',
+  'login.emailRevertFailed': 'The email could not be restored',
+  'login.nameRequired': 'Your name is required',
+  'login.registered': 'We sent a link to {email} to confirm your account. Open it and then sign in.',
+  'login.resetRequested': 'If {email} has an account, we sent it a link to create a new password. It expires in 1 hour.',
+  'login.passwordMismatch': 'The passwords do not match',
+  'login.passwordReset': 'Password updated. You can sign in now.',
+  'login.failed': 'Could not sign in',
+  'login.verificationResent': 'We sent a new confirmation link to {email}.',
+  'login.mailFailed': 'The email could not be sent',
+  'login.submit.login': 'Sign In',
+  'login.submitting.login': 'Signing in...',
+  'login.submit.code': 'Verify',
+  'login.submitting.code': 'Verifying...',
+  'login.submit.register': 'Create Account',
+  'login.submitting.register': 'Creating account...',
+  'login.submit.forgot': 'Send link',
+  'login.submitting.forgot': 'Sending...',
+  'login.submit.reset': 'Save password',
+  'login.submitting.reset': 'Saving...',
+  'login.resendVerification': 'Resend confirmation email',
+  'login.name': 'Name',
+  'login.namePlaceholder': 'Your name',
+  'login.emailPlaceholder': 'you@email.com',
+  'login.password': 'Password',
+  'login.newPassword': 'New Password',
+  'login.confirmNewPassword': 'Confirm New Password',
+  'login.forgotPassword': 'Forgot your password?',
+  'login.passwordHint': 'At least 8 characters',
+  'login.code': 'Verification code',
+  'login.codeHint': 'Enter the code from your authenticator app or one of your recovery codes',
+  'login.toRegister': "Don't have an account? Sign up",
+  'login.toLogin': 'Already have an account? Sign in',
+  'login.back': 'Back to sign in',
+  'login.securityNotice': '🔒 Your data is protected with encryption',
+
+  'profile.language': 'Language',
+  'profile.languageDescription': 'Language of the app and of the AI answers (summaries, questions and note analysis).',
+  'profile.languageSaved': 'Language updated',
+
+  'ai.summaryEmpty': 'The summary could not be generated.',
+  'ai.summaryError': 'Error generating the summary.',
+  'ai.queryEmpty': 'The question could not be processed.',
+  'ai.queryError': 'Error processing the question.',
+  'ai.analysisError': 'Error while analyzing',
+  'ai.documentError': 'Error analyzing the document.',
+  'ai.invalidResponse': 'The AI returned an invalid response: {issues}',
+  'ai.attachmentWithoutText': 'Attachment without text',
+  'ai.personNoInteractions': 'There are no recorded interactions with {name}.',
+  'ai.personSummaryFallback': 'Summary of interactions with {name}: {count} note(s) recorded.',
+  'ai.personSummaryLastInteraction': 'Last interaction: {date}.',
+};
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { es, en };
+
+// Message in the given language, with {name} placeholders filled in
+export function translate(locale: Locale, key: MessageKey, vars: Record<string, string | number> = {}): string {
+  const message = catalogs[locale]?.[key] ?? es[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in vars ? String(vars[name]) : placeholder
+  );
+}
+
+export function formatLocaleDate(value: Date | number | string, locale: Locale, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(value).toLocaleDateString(LOCALE_TAGS[locale], options);
+}
@@ -88,7 +88,7 @@ export async function processEntryImproved(
         const relations = await detectSemanticRelations(
           '', // entryId will be set after entry is created
           embedding,
-          existingEntries,
+          userId,
           0.7 // threshold
         );
         analysisResult.relations = relations;
@@ -120,8 +120,7 @@ export async function processEntryImproved(
 export async function postProcessEntry(
   entryId: string,
   entry: Entry,
-  userId: string,
-  allEntries: Entry[]
+  userId: string
 ): Promise<void> {
   try {
     // Generate embedding
@@ -129,12 +128,10 @@ export async function postProcessEntry(
     const embedding = await generateEmbedding(textForEmbedding);
     
     // Store embedding
-    await storeEmbedding(entryId, embedding);
+    await storeEmbedding(entryId, userId, embedding);
     
     // Detect and save relations
-    if (allEntries.length > 0) {
-      await detectSemanticRelations(entryId, embedding, allEntries, 0.7);
-    }
+    await detectSemanticRelations(entryId, embedding, userId, 0.7);
   } catch (error) {
     console.error('Error in post-processing entry (non-blocking):', error);
     // Don't throw - this is optional processing
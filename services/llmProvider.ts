@@ -0,0 +1,376 @@
+import OpenAI from 'openai';
+import { readFileSync } from 'fs';
+import { getOpenAIApiKey, getServerEnv } from './env';
+import { callOpenAI } from './openaiRateLimiter';
+import { AiResponseError, Schema, SchemaIssue, validate } from './aiSchemas';
+import { AiBudgetExceededError, getAiLocale, isOverAiBudget, recordAiCall, type AiFeature } from './usageService';
+import { prompts, renderPrompt } from './prompts';
+import { cachedAiResult, cachedAiResults, DAY_SECONDS, type AiCacheOptions } from './aiCache';
+
+// LLM provider (server only)
+// Every chat completion and embedding of the AI services goes through here.
+// The "openai" provider talks to OpenAI or to any OpenAI-compatible server
+// (llama.cpp, Ollama, vLLM...) set with LLM_BASE_URL. The "mock" provider
+// answers from a script, or with fixed defaults, without any network, so the
+// capture → classify → save flow runs offline and in tests.
+// Each call is recorded for the current user with its tokens (usageService);
+// once the monthly budget is spent only the required tasks still reach the model.
+// Requests with `cache`, and every embedding, are answered from the AI result
+// cache (aiCache) when the same model already saw the same input.
+
+// One per kind of call, so each can use its own model (LLM_TASK_MODELS)
+export type LlmTask =
+  | 'classify'
+  | 'multiTopic'
+  | 'threads'
+  | 'matching'
+  | 'routing'
+  | 'document'
+  | 'topics'
+  | 'tasks'
+  | 'decisions'
+  | 'notebook'
+  | 'bookContext'
+  | 'summary'
+  | 'query'
+  | 'rewrite'
+  | 'personSummary';
+
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export interface ChatRequest {
+  task: LlmTask;
+  messages: ChatMessage[];
+  // Ask for a JSON object (response_format json_object)
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  // Reuse the answer to an identical request; the task is the cache namespace
+  cache?: Omit<AiCacheOptions, 'namespace'>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmProvider {
+  readonly name: 'openai' | 'mock';
+  // content is the text of the first choice, or '' when the model returned nothing
+  chat(request: ChatRequest & { model: string }): Promise<{ content: string; usage: TokenUsage }>;
+  embed(texts: string[], model: string): Promise<{ embeddings: number[][]; usage: TokenUsage }>;
+}
+
+// The usage feature each task is counted under, and whether it can be skipped
+// when the user is over budget. Skipped tasks fail with AiBudgetExceededError
+// and their services fall back as they do on any other error.
+const TASKS: Record<LlmTask, { feature: AiFeature; optional: boolean }> = {
+  classify: { feature: 'capture', optional: false },
+  multiTopic: { feature: 'capture', optional: false },
+  rewrite: { feature: 'capture', optional: true },
+  routing: { feature: 'capture', optional: true },
+  topics: { feature: 'capture', optional: true },
+  tasks: { feature: 'capture', optional: true },
+  decisions: { feature: 'capture', optional: true },
+  notebook: { feature: 'capture', optional: true },
+  matching: { feature: 'capture', optional: true },
+  bookContext: { feature: 'capture', optional: true },
+  summary: { feature: 'summary', optional: false },
+  query: { feature: 'query', optional: false },
+  personSummary: { feature: 'personSummary', optional: true },
+  threads: { feature: 'threads', optional: true },
+  document: { feature: 'document', optional: true },
+};
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// entry_embeddings.embedding_vector is vector(1536), so embedding models must
+// return this many dimensions
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// "classify=gpt-4o,query=llama3.1:8b" → per-task overrides of LLM_CHAT_MODEL
+function parseTaskModels(value: string | undefined): Partial<Record<LlmTask, string>> {
+  const models: Partial<Record<LlmTask, string>> = {};
+  for (const pair of (value || '').split(',')) {
+    const [task, model] = pair.split('=').map(part => part.trim());
+    if (task && model) {
+      models[task as LlmTask] = model;
+    }
+  }
+  return models;
+}
+
+export function getChatModel(task: LlmTask): string {
+  return parseTaskModels(getServerEnv('LLM_TASK_MODELS'))[task]
+    || getServerEnv('LLM_CHAT_MODEL')
+    || DEFAULT_CHAT_MODEL;
+}
+
+export function getEmbeddingModel(): string {
+  return getServerEnv('LLM_EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODEL;
+}
+
+// A model with another size cannot be stored or compared, so it is a
+// configuration error rather than a failed call
+export function assertEmbeddingDimensions(embeddings: number[][], model: string): void {
+  const wrong = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS);
+  if (wrong) {
+    throw new Error(
+      `El modelo de embeddings "${model}" devuelve ${wrong.length} dimensiones y se necesitan ${EMBEDDING_DIMENSIONS}. ` +
+      'Configura en LLM_EMBEDDING_MODEL un modelo de esa dimensión'
+    );
+  }
+}
+
+// ============================================================================
+// OPENAI-COMPATIBLE PROVIDER
+// ============================================================================
+
+function createOpenAIProvider(): LlmProvider {
+  // Local servers usually ignore the key, but the client needs one
+  const baseURL = getServerEnv('LLM_BASE_URL');
+  const client = new OpenAI({
+    apiKey: baseURL ? getServerEnv('OPENAI_API_KEY') || 'local' : getOpenAIApiKey(),
+    baseURL,
+  });
+
+  return {
+    name: 'openai',
+    async chat({ model, messages, json, temperature, maxTokens }) {
+      const response = await callOpenAI(() => client.chat.completions.create({
+        model,
+        messages,
+        ...(json ? { response_format: { type: 'json_object' as const } } : {}),
+        temperature,
+        max_tokens: maxTokens,
+      }));
+      return {
+        content: response.choices[0]?.message?.content || '',
+        usage: {
+          promptTokens: response.usage?.prompt_tokens || 0,
+          completionTokens: response.usage?.completion_tokens || 0,
+        },
+      };
+    },
+    async embed(texts, model) {
+      const response = await client.embeddings.create({ model, input: texts });
+      const embeddings = response.data.map(item => item.embedding);
+      assertEmbeddingDimensions(embeddings, model);
+      return {
+        embeddings,
+        usage: { promptTokens: response.usage?.prompt_tokens || 0, completionTokens: 0 },
+      };
+    },
+  };
+}
+
+// ============================================================================
+// MOCK PROVIDER
+// ============================================================================
+
+// A scripted answer is a string, or an object sent back as JSON
+export type MockResponse = string | Record<string, unknown>;
+export type MockScript = Partial<Record<LlmTask, MockResponse[]>>;
+
+// Answers used when the script has nothing for a task. They are the "nothing
+// found" case of each service: a capture lands as a single note in the inbox
+// and rewrites leave the text unchanged.
+const MOCK_DEFAULTS: Record<LlmTask, MockResponse> = {
+  classify: { targetBookName: 'Bandeja de Entrada', type: 'NOTE', tasks: [], entities: [] },
+  multiTopic: { isMultiTopic: false, topics: [] },
+  threads: { hasRelation: false, relatedEntryIds: [], confidence: 0, reason: 'Sin relación' },
+  matching: { shouldUpdate: false, confidence: 0, reason: 'Sin coincidencias' },
+  routing: { steps: ['preprocess', 'classify', 'extract', 'summarize'] },
+  document: { insights: [], summary: '', detectedTasks: [], detectedRisks: [], relatedTopics: [] },
+  topics: { topics: [] },
+  tasks: { tasks: [] },
+  decisions: { decisions: [] },
+  notebook: { targetBookName: 'Bandeja de Entrada', isNewBook: false },
+  bookContext: '',
+  summary: '',
+  query: '',
+  rewrite: '',
+  personSummary: '',
+};
+
+let mockScript: MockScript | null = null;
+const mockCalls: Partial<Record<LlmTask, number>> = {};
+
+// Replaces the mock script and restarts every task from its first answer.
+// Each call of a task takes the next answer; the last one keeps repeating.
+export function setMockScript(script: MockScript | null): void {
+  mockScript = script;
+  for (const task of Object.keys(mockCalls) as LlmTask[]) {
+    delete mockCalls[task];
+  }
+}
+
+function loadMockScript(): MockScript {
+  if (!mockScript) {
+    const path = getServerEnv('LLM_MOCK_SCRIPT');
+    mockScript = path ? JSON.parse(readFileSync(path, 'utf8')) as MockScript : {};
+  }
+  return mockScript;
+}
+
+function nextMockResponse(task: LlmTask): MockResponse {
+  const answers = loadMockScript()[task];
+  if (!answers || answers.length === 0) {
+    return MOCK_DEFAULTS[task];
+  }
+  const call = mockCalls[task] || 0;
+  mockCalls[task] = call + 1;
+  return answers[Math.min(call, answers.length - 1)];
+}
+
+// Hashed bag of words: the same text always gets the same vector, and texts
+// that share words get similar ones, so semantic search behaves sensibly
+export function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().match(/[a-z0-9]+/g) || [];
+  for (const word of words) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+    }
+    vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+// Roughly four characters per token, so usage pages have something to show
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const mockProvider: LlmProvider = {
+  name: 'mock',
+  async chat({ task, messages }) {
+    const response = nextMockResponse(task);
+    const content = typeof response === 'string' ? response : JSON.stringify(response);
+    const prompt = messages.map(message => typeof message.content === 'string' ? message.content : '').join('\n');
+    return { content, usage: { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(content) } };
+  },
+  async embed(texts) {
+    return {
+      embeddings: texts.map(mockEmbedding),
+      usage: { promptTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0), completionTokens: 0 },
+    };
+  },
+};
+
+// ============================================================================
+// ENTRY POINTS
+// ============================================================================
+
+let provider: LlmProvider | null = null;
+
+// Created on first use, so a server without OPENAI_API_KEY only fails when
+// an AI feature is actually called
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = getServerEnv('LLM_PROVIDER') === 'mock' ? mockProvider : createOpenAIProvider();
+  }
+  return provider;
+}
+
+async function callChatModel(request: ChatRequest, model: string): Promise<string> {
+  if (TASKS[request.task].optional && await isOverAiBudget()) {
+    throw new AiBudgetExceededError();
+  }
+  const { content, usage } = await getLlmProvider().chat({ ...request, model });
+  await recordAiCall({ feature: TASKS[request.task].feature, model, ...usage });
+  return content;
+}
+
+export async function chat(request: ChatRequest): Promise<string> {
+  const model = getChatModel(request.task);
+  if (!request.cache) {
+    return callChatModel(request, model);
+  }
+  const { task, messages, json, temperature, maxTokens, cache } = request;
+  return cachedAiResult({ namespace: task, ...cache }, model, { messages, json, temperature, maxTokens }, () =>
+    callChatModel(request, model));
+}
+
+// Re-embedding identical text gives the same vector, so it is always cached
+const EMBEDDING_CACHE: AiCacheOptions = { namespace: 'embedding', version: 1, ttlSeconds: 30 * DAY_SECONDS };
+
+// Embeddings only feed related notes and semantic search, so they are optional
+export async function embed(texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+  const model = getEmbeddingModel();
+  return cachedAiResults(EMBEDDING_CACHE, model, texts, async missing => {
+    if (await isOverAiBudget()) {
+      throw new AiBudgetExceededError();
+    }
+    const { embeddings, usage } = await getLlmProvider().embed(missing, model);
+    await recordAiCall({ feature: 'embeddings', model, ...usage });
+    return embeddings;
+  });
+}
+
+// Times a JSON answer that fails its schema is sent back to be repaired
+const MAX_REPAIRS = 2;
+
+// A JSON chat whose answer must match a schema. Invalid answers go back to
+// the model with the list of issues; after MAX_REPAIRS it fails with
+// AiResponseError, which carries those issues as the reason. With `cache`,
+// only the validated (or repaired) result is kept, never a raw answer that
+// failed its schema.
+export async function chatJson<T>(request: ChatRequest, schema: Schema<T>): Promise<T> {
+  if (!request.cache) {
+    return repairedChatJson(request, schema);
+  }
+  const { task, messages, temperature, maxTokens, cache } = request;
+  // `validated` keeps these results apart from raw chat answers to the same request
+  return cachedAiResult({ namespace: task, ...cache }, getChatModel(task), { messages, json: true, temperature, maxTokens, validated: true }, () =>
+    repairedChatJson(request, schema));
+}
+
+async function repairedChatJson<T>(request: ChatRequest, schema: Schema<T>): Promise<T> {
+  const messages = [...request.messages];
+  const locale = getAiLocale();
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIRS; attempt++) {
+    const content = await chat({ ...request, messages, json: true, cache: undefined });
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      issues = describeIssues([{ path: '', kind: content ? 'notJson' : 'empty' }]);
+    }
+    if (parsed !== undefined) {
+      const result = validate(schema, parsed);
+      if (result.issues.length === 0) {
+        return result.value;
+      }
+      issues = describeIssues(result.issues);
+    }
+
+    console.warn(`⚠️ Invalid ${request.task} response (attempt ${attempt + 1}/${MAX_REPAIRS + 1}):`, issues);
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: renderPrompt(prompts.jsonRepair, { issues }).sections.user },
+    );
+  }
+
+  throw new AiResponseError(request.task, issues, locale);
+}
+
+// Schema issues as "<field>: <message>", in the language of the request
+function describeIssues(issues: SchemaIssue[]): string[] {
+  return issues.map(({ path, kind, value, allowed }) => {
+    const { sections } = renderPrompt(prompts.schemaIssues, { value, allowed });
+    return `${path || sections.response}: ${sections[kind]}`;
+  });
+}
@@ -0,0 +1,37 @@
+// Login throttling (server only)
+// Failed logins are counted on the user row and per client IP. After a few
+// free attempts an account must wait twice as long before each new one (up to
+// a minute); past a threshold the account or IP is locked for a while, and a
+// failure right after the lock ends locks it again. Counters start over after
+// an hour without failures, and an account's on a successful sign-in. An IP
+// gets a higher threshold and no delays, since offices and mobile networks
+// put many users behind one address.
+//
+// This is the policy alone; authService applies it to the database counters.
+
+export const FREE_LOGIN_ATTEMPTS = 3;
+export const MAX_LOGIN_DELAY_SECONDS = 60;
+export const ACCOUNT_LOCKOUT_THRESHOLD = 10;
+export const IP_LOCKOUT_THRESHOLD = 30;
+export const LOCKOUT_MINUTES = 15;
+export const FAILURE_WINDOW_MINUTES = 60;
+
+// Seconds to wait after a failed login, given the failures counted so far
+export function loginDelaySeconds(failures: number): number {
+  return failures < FREE_LOGIN_ATTEMPTS ? 0 : Math.min(2 ** (failures - FREE_LOGIN_ATTEMPTS), MAX_LOGIN_DELAY_SECONDS);
+}
+
+// Whole seconds left before the next attempt, 0 if it may go ahead now
+export function secondsUntilNextAttempt(failures: number, secondsSinceFailure: number): number {
+  return Math.max(Math.ceil(loginDelaySeconds(failures) - secondsSinceFailure), 0);
+}
+
+// Whether an account with this many failures (including the last one) is locked
+export function locksAccount(failures: number): boolean {
+  return failures >= ACCOUNT_LOCKOUT_THRESHOLD;
+}
+
+// Whether an IP with this many failures (including the last one) is locked
+export function locksIp(failures: number): boolean {
+  return failures >= IP_LOCKOUT_THRESHOLD;
+}
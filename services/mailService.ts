@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getServerEnv } from './env';
+
+// Outgoing mail (server only)
+// Auth flows build a MailMessage and hand it to the configured transport:
+// - smtp: delivers through an SMTP server (services/smtpTransport.ts);
+// - outbox: writes each message as an .eml file, for development and scripts.
+// MAIL_TRANSPORT picks one; by default SMTP is used when SMTP_HOST is set, and
+// the outbox only in development: deployed, a missing SMTP_HOST is an error
+// rather than mail written to a disk nobody reads (or a read-only one).
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransportName = 'smtp' | 'outbox';
+
+const DEFAULT_FROM = 'Bitácora IA <no-reply@localhost>';
+const DEFAULT_OUTBOX_DIR = '.mail-outbox';
+
+export function getMailFrom(): string {
+  return getServerEnv('MAIL_FROM') || DEFAULT_FROM;
+}
+
+// Header values and SMTP arguments never span lines: a CR or LF in an
+// address or subject could otherwise inject headers or commands
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+// Non-ASCII header values as RFC 2047 encoded words
+function encodeHeader(raw: string): string {
+  const value = singleLine(raw);
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// "Name <address>" with the name encoded as needed
+function encodeAddress(raw: string): string {
+  const value = singleLine(raw);
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match && match[1] ? `${encodeHeader(match[1])} <${match[2]}>` : value.trim();
+}
+
+// Bare address of "Name <address>" or of a plain address
+export function mailboxAddress(raw: string): string {
+  const value = singleLine(raw);
+  return value.match(/<([^>]+)>/)?.[1] || value.trim();
+}
+
+// RFC 5322 message with a UTF-8 plain text body, CRLF line endings
+export function formatMessage(message: MailMessage, from: string = getMailFrom()): string {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n').trimEnd();
+  const domain = mailboxAddress(from).split('@')[1] || 'localhost';
+  return [
+    `From: ${encodeAddress(from)}`,
+    `To: ${encodeAddress(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+// Development outbox: nothing leaves the machine
+export function createOutboxTransport(directory: string = getServerEnv('MAIL_OUTBOX_DIR') || DEFAULT_OUTBOX_DIR): MailTransport {
+  return {
+    async send(message) {
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`;
+      const filePath = join(directory, fileName);
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath, formatMessage(message), 'utf8');
+      // Only the path: the message carries sign-in links and tokens
+      console.log(`📬 Correo guardado en ${filePath}`);
+    },
+  };
+}
+
+function isDevelopment(): boolean {
+  return getServerEnv('NODE_ENV') !== 'production' && !getServerEnv('VERCEL');
+}
+
+function getConfiguredTransport(): MailTransportName {
+  const configured = getServerEnv('MAIL_TRANSPORT');
+  if (configured === 'smtp' || configured === 'outbox') return configured;
+  if (getServerEnv('SMTP_HOST')) return 'smtp';
+  if (isDevelopment()) return 'outbox';
+  throw new Error('Correo no configurado. Por favor configura SMTP_HOST, o MAIL_TRANSPORT=outbox para guardar los correos como archivos');
+}
+
+let activeTransport: Promise<MailTransport> | null = null;
+
+async function createTransport(name: MailTransportName): Promise<MailTransport> {
+  if (name === 'smtp') {
+    const { createSmtpTransport, getSmtpConfig } = await import('./smtpTransport');
+    return createSmtpTransport(getSmtpConfig());
+  }
+  return createOutboxTransport();
+}
+
+// Returns the configured transport (MAIL_TRANSPORT=smtp|outbox)
+export function getMailTransport(): Promise<MailTransport> {
+  if (!activeTransport) {
+    activeTransport = createTransport(getConfiguredTransport());
+  }
+  return activeTransport;
+}
+
+// Replace the active transport (scripts and local tooling)
+export function setMailTransport(transport: MailTransport): void {
+  activeTransport = Promise.resolve(transport);
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await (await getMailTransport()).send(message);
+}
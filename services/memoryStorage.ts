@@ -0,0 +1,1232 @@
+import type {
+  DbFolder,
+  DbBook,
+  DbBookMember,
+  DbEntry,
+  DbEntryComment,
+  DbThread,
+  DbTask,
+  DbEntity,
+  DbBookStats,
+  DbPeriodBucket,
+  DbEntityCount,
+  DbEmbedding,
+  DbEntryRelation,
+  DbEntryRevision,
+  DbAiCacheEntry,
+  DbSearchResult,
+  DbTrashItem,
+} from './db';
+import { TenantAccessError, DEFAULT_ENTRY_PAGE_SIZE, DEFAULT_TOP_ENTITIES, type StorageBackend } from './storage';
+import { createVectorIndex } from './vectorIndex';
+import { bookRolesAllowing, type BookAction } from './permissions';
+import { SNIPPET_HIGHLIGHT } from '../types';
+
+// In-memory storage backend
+// Mirrors the Neon schema semantics (user scoping, ordering, cascades,
+// ON DELETE SET NULL and upserts) so the notes data can live in the API
+// server's memory and the tests run without a database. Nothing is saved.
+
+interface MemoryTables {
+  folders: DbFolder[];
+  books: DbBook[];
+  entries: DbEntry[];
+  threads: DbThread[];
+  tasks: DbTask[];
+  entities: DbEntity[];
+  embeddings: DbEmbedding[];
+  relations: DbEntryRelation[];
+  revisions: DbEntryRevision[];
+  aiCache: DbAiCacheEntry[];
+  bookMembers: DbBookMember[];
+  entryComments: DbEntryComment[];
+}
+
+function emptyTables(): MemoryTables {
+  return {
+    folders: [],
+    books: [],
+    entries: [],
+    threads: [],
+    tasks: [],
+    entities: [],
+    embeddings: [],
+    relations: [],
+    revisions: [],
+    aiCache: [],
+    bookMembers: [],
+    entryComments: [],
+  };
+}
+
+// Timestamps are monotonic so ORDER BY created_at is stable within the same millisecond
+let lastTimestamp = 0;
+function now(): string {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp).toISOString();
+}
+
+function time(value: string): number {
+  return new Date(value).getTime();
+}
+
+const byCreatedDesc = (a: { created_at: string }, b: { created_at: string }) => time(b.created_at) - time(a.created_at);
+const byCreatedAsc = (a: { created_at: string }, b: { created_at: string }) => time(a.created_at) - time(b.created_at);
+const byUpdatedDesc = (a: { updated_at: string }, b: { updated_at: string }) => time(b.updated_at) - time(a.updated_at);
+
+// Rows saved before soft deletion existed have no deleted_at at all
+const isLive = (row: { deleted_at?: string | null }) => !row.deleted_at;
+
+function copy<T>(row: T): T {
+  return { ...row };
+}
+
+// Revisions hold a nested JSON snapshot, so they need a deep copy
+function copyRevision(row: DbEntryRevision): DbEntryRevision {
+  return { ...row, snapshot: JSON.parse(JSON.stringify(row.snapshot)) };
+}
+
+function ilike(value: string | null | undefined, query: string): boolean {
+  return !!value && value.toLowerCase().includes(query.toLowerCase());
+}
+
+// Approximation of the es_unaccent full-text search used by Neon:
+// accent-insensitive, plural endings stripped, prefix matching per term
+function foldText(value: string): string {
+  return value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+function searchTerms(value: string): string[] {
+  return (foldText(value).match(/[\p{L}\p{N}]+/gu) || []).map(stem);
+}
+
+function matchesTerm(word: string, term: string): boolean {
+  return stem(word).startsWith(term) || word.startsWith(term);
+}
+
+function containsAllTerms(text: string | null | undefined, terms: string[]): boolean {
+  if (!text) return false;
+  const words = foldText(text).match(/[\p{L}\p{N}]+/gu) || [];
+  return terms.every(term => words.some(word => matchesTerm(word, term)));
+}
+
+function buildSnippet(text: string, terms: string[], maxWords: number = 35): string {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const isMatch = (token: string) => {
+    const word = foldText(token).replace(/[^\p{L}\p{N}]/gu, '');
+    return !!word && terms.some(term => matchesTerm(word, term));
+  };
+  const firstMatch = Math.max(0, tokens.findIndex(isMatch));
+  const start = Math.max(0, firstMatch - 10);
+  const window = tokens.slice(start, start + maxWords)
+    .map(token => isMatch(token) ? `${SNIPPET_HIGHLIGHT.start}${token}${SNIPPET_HIGHLIGHT.end}` : token);
+  return `${start > 0 ? '… ' : ''}${window.join(' ')}${start + maxWords < tokens.length ? ' …' : ''}`;
+}
+
+export function createMemoryStorage(): StorageBackend {
+  const data: MemoryTables = emptyTables();
+
+  // Runs the writes all-or-nothing: on error the tables touched by a capture
+  // go back to how they were, like a rolled back database transaction
+  function transaction(writes: () => void) {
+    const saved = {
+      books: data.books.map(copy),
+      threads: data.threads.map(copy),
+      entries: data.entries.map(copy),
+      tasks: data.tasks.map(copy),
+      entities: data.entities.map(copy),
+    };
+    try {
+      writes();
+    } catch (error) {
+      Object.assign(data, saved);
+      throw error;
+    }
+  }
+
+  // Stands in for the pgvector HNSW index
+  const vectors = createVectorIndex();
+
+  function insert<T extends { id: string }>(table: T[], row: T, tableName: string): T {
+    if (table.some(r => r.id === row.id)) {
+      throw new Error(`duplicate key value violates unique constraint "${tableName}_pkey"`);
+    }
+    table.push(row);
+    return copy(row);
+  }
+
+  // Rows referenced by a write must exist and belong to the user, as in the
+  // INSERT ... SELECT ... WHERE user_id = $user queries of the Neon backend
+  function requireOwned<T extends { id: string; user_id: string }>(table: T[], id: string | null | undefined, userId: string, resource: string) {
+    if (id && !table.some(r => r.id === id && r.user_id === userId)) {
+      throw new TenantAccessError(`${resource} ${id}`);
+    }
+  }
+
+  // The user's own books plus those shared with them in a role allowed to act,
+  // like accessible_book_ids() in the Neon schema
+  function accessibleBookIds(userId: string, action: BookAction): Set<string> {
+    const roles: string[] = bookRolesAllowing(action);
+    return new Set([
+      ...data.books.filter(b => b.user_id === userId).map(b => b.id),
+      ...data.bookMembers.filter(m => m.user_id === userId && roles.includes(m.role)).map(m => m.book_id),
+    ]);
+  }
+
+  // Entries, threads and what hangs from them follow their book
+  function requireAccessible(table: Array<{ id: string; book_id: string }>, id: string | null | undefined, userId: string, action: BookAction, resource: string) {
+    const bookIds = accessibleBookIds(userId, action);
+    if (id && !table.some(r => r.id === id && bookIds.has(r.book_id))) {
+      throw new TenantAccessError(`${resource} ${id}`);
+    }
+  }
+
+  function requireBookAccess(bookId: string, userId: string, action: BookAction) {
+    if (!accessibleBookIds(userId, action).has(bookId)) {
+      throw new TenantAccessError(`Book ${bookId}`);
+    }
+  }
+
+  function canAccessEntry(entryId: string, userId: string, action: BookAction): boolean {
+    const bookIds = accessibleBookIds(userId, action);
+    return data.entries.some(e => e.id === entryId && bookIds.has(e.book_id));
+  }
+
+  function accessibleEntryIds(userId: string, action: BookAction): Set<string> {
+    const bookIds = accessibleBookIds(userId, action);
+    return new Set(data.entries.filter(e => bookIds.has(e.book_id)).map(e => e.id));
+  }
+
+  // Entries and threads can be deleted by their author (while they can still
+  // write to the book) or by the book's owner
+  function canManage(row: { user_id: string; book_id: string }, userId: string): boolean {
+    return accessibleBookIds(userId, 'write').has(row.book_id) &&
+      (row.user_id === userId || data.books.some(b => b.id === row.book_id && b.user_id === userId));
+  }
+
+  // ON DELETE CASCADE from entries to tasks, entities, embeddings, relations and revisions
+  function cascadeEntries(entryIds: Set<string>) {
+    if (entryIds.size === 0) return;
+    data.entries = data.entries.filter(e => !entryIds.has(e.id));
+    data.tasks = data.tasks.filter(t => !entryIds.has(t.entry_id));
+    data.entities = data.entities.filter(e => !entryIds.has(e.entry_id));
+    data.embeddings = data.embeddings.filter(e => !entryIds.has(e.entry_id));
+    entryIds.forEach(id => vectors.remove(id));
+    data.relations = data.relations.filter(r => !entryIds.has(r.source_id) && !entryIds.has(r.target_id));
+    data.revisions = data.revisions.filter(r => !entryIds.has(r.entry_id));
+    data.entryComments = data.entryComments.filter(c => !entryIds.has(c.entry_id));
+  }
+
+  // ON DELETE SET NULL from threads to entries.thread_id
+  function detachThreads(threadIds: Set<string>) {
+    data.entries.forEach(e => {
+      if (e.thread_id && threadIds.has(e.thread_id)) {
+        e.thread_id = null;
+      }
+    });
+  }
+
+  // ON DELETE CASCADE from books to threads and entries
+  function removeBooks(bookIds: Set<string>) {
+    if (bookIds.size === 0) return;
+    const threadIds = new Set(data.threads.filter(t => bookIds.has(t.book_id)).map(t => t.id));
+    data.threads = data.threads.filter(t => !threadIds.has(t.id));
+    detachThreads(threadIds);
+    cascadeEntries(new Set(data.entries.filter(e => bookIds.has(e.book_id)).map(e => e.id)));
+    data.bookMembers = data.bookMembers.filter(m => !bookIds.has(m.book_id));
+    data.books = data.books.filter(b => !bookIds.has(b.id));
+  }
+
+  // ON DELETE SET NULL from folders to books.folder_id
+  function removeFolders(folderIds: Set<string>) {
+    if (folderIds.size === 0) return;
+    data.books.forEach(b => {
+      if (b.folder_id && folderIds.has(b.folder_id)) {
+        b.folder_id = null;
+      }
+    });
+    data.folders = data.folders.filter(f => !folderIds.has(f.id));
+  }
+
+  function removeThreads(threadIds: Set<string>) {
+    if (threadIds.size === 0) return;
+    data.threads = data.threads.filter(t => !threadIds.has(t.id));
+    detachThreads(threadIds);
+  }
+
+  // Book row as the listings return it: the user's role in it and its member count
+  const withMembership = (userId: string) => (book: DbBook): DbBook => ({
+    ...book,
+    member_role: book.user_id === userId ? null : data.bookMembers.find(m => m.book_id === book.id && m.user_id === userId)?.role || null,
+    member_count: data.bookMembers.filter(m => m.book_id === book.id).length,
+  });
+
+  // A book restored from the trash when one of its entries or threads is restored
+  function restoreBookRow(bookId: string, userId: string) {
+    const book = data.books.find(b => b.id === bookId && b.user_id === userId);
+    if (book) book.deleted_at = null;
+  }
+
+  return {
+    async initDatabase() {
+      return true;
+    },
+
+    // Books operations
+    async getAllBooks(userId) {
+      return data.books
+        .filter(b => isLive(b) && (b.user_id === userId || data.bookMembers.some(m => m.book_id === b.id && m.user_id === userId)))
+        .sort(byCreatedDesc)
+        .map(withMembership(userId));
+    },
+
+    async getBookById(id, userId) {
+      const book = data.books.find(b => b.id === id && isLive(b) &&
+        (b.user_id === userId || data.bookMembers.some(m => m.book_id === b.id && m.user_id === userId)));
+      return book ? withMembership(userId)(book) : null;
+    },
+
+    async createBook(id, userId, name, description, folderId) {
+      requireOwned(data.folders, folderId, userId, 'Folder');
+      const timestamp = now();
+      return insert(data.books, {
+        id,
+        user_id: userId,
+        name,
+        description: description || null,
+        context: null,
+        folder_id: folderId || null,
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      }, 'books');
+    },
+
+    async updateBook(id, userId, updates) {
+      const book = data.books.find(b => b.id === id && b.user_id === userId);
+      if (!book) return;
+      if (updates.name !== undefined) book.name = updates.name;
+      // Only into one of the user's own folders
+      if (updates.folderId !== undefined && (!updates.folderId || data.folders.some(f => f.id === updates.folderId && f.user_id === userId))) {
+        book.folder_id = updates.folderId || null;
+      }
+      if (updates.description !== undefined) book.description = updates.description;
+      book.updated_at = now();
+    },
+
+    async deleteBook(id, userId) {
+      const book = data.books.find(b => b.id === id && b.user_id === userId && isLive(b));
+      if (!book) return;
+      const timestamp = now();
+      data.entries.forEach(e => {
+        if (e.book_id === id && isLive(e)) e.deleted_at = timestamp;
+      });
+      data.threads.forEach(t => {
+        if (t.book_id === id && isLive(t)) t.deleted_at = timestamp;
+      });
+      book.deleted_at = timestamp;
+    },
+
+    // Book members operations
+    async getBookMembers(bookId, userId) {
+      if (!accessibleBookIds(userId, 'read').has(bookId)) return [];
+      return data.bookMembers.filter(m => m.book_id === bookId).sort(byCreatedAsc).map(copy);
+    },
+
+    async addBookMember(bookId, userId, memberId, role) {
+      if (!data.books.some(b => b.id === bookId && b.user_id === userId && b.user_id !== memberId && isLive(b))) {
+        throw new TenantAccessError(`Book ${bookId}`);
+      }
+      // ON CONFLICT (book_id, user_id) DO UPDATE SET role
+      const existing = data.bookMembers.find(m => m.book_id === bookId && m.user_id === memberId);
+      if (existing) {
+        existing.role = role;
+        return copy(existing);
+      }
+      const member: DbBookMember = { book_id: bookId, user_id: memberId, role, invited_by: userId, created_at: now() };
+      data.bookMembers.push(member);
+      return copy(member);
+    },
+
+    async removeBookMember(bookId, userId, memberId) {
+      const canRemove = memberId === userId || data.books.some(b => b.id === bookId && b.user_id === userId);
+      if (!canRemove) return;
+      data.bookMembers = data.bookMembers.filter(m => !(m.book_id === bookId && m.user_id === memberId));
+    },
+
+    // Folders operations
+    async getAllFolders(userId) {
+      return data.folders
+        .filter(f => f.user_id === userId && isLive(f))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(copy);
+    },
+
+    async getFolderById(id, userId) {
+      const folder = data.folders.find(f => f.id === id && f.user_id === userId && isLive(f));
+      return folder ? copy(folder) : null;
+    },
+
+    async createFolder(id, userId, name, color) {
+      const timestamp = now();
+      return insert(data.folders, {
+        id,
+        user_id: userId,
+        name,
+        color: color || null,
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      }, 'folders');
+    },
+
+    async updateFolder(id, userId, updates) {
+      const folder = data.folders.find(f => f.id === id && f.user_id === userId);
+      if (!folder) return;
+      if (updates.name !== undefined) folder.name = updates.name;
+      if (updates.color !== undefined) folder.color = updates.color;
+      folder.updated_at = now();
+    },
+
+    async deleteFolder(id, userId) {
+      const folder = data.folders.find(f => f.id === id && f.user_id === userId && isLive(f));
+      if (!folder) return;
+      folder.deleted_at = now();
+    },
+
+    // Entries operations
+    async getAllEntries(userId, limit) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      const entries = data.entries.filter(e => bookIds.has(e.book_id) && isLive(e)).sort(byCreatedDesc);
+      return (limit ? entries.slice(0, limit) : entries).map(copy);
+    },
+
+    async getEntriesPage(userId, options = {}) {
+      const limit = options.limit || DEFAULT_ENTRY_PAGE_SIZE;
+      const openTaskEntryIds = options.withOpenTasks
+        ? new Set(data.tasks.filter(t => !t.is_done).map(t => t.entry_id))
+        : null;
+      // Same order and keyset as the Neon query: newest first, ties broken by id
+      const byPageOrder = (a: DbEntry, b: DbEntry) => byCreatedDesc(a, b) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+      const bookIds = accessibleBookIds(userId, 'read');
+      let entries = data.entries
+        .filter(e => bookIds.has(e.book_id) && isLive(e))
+        .filter(e => !options.bookId || e.book_id === options.bookId)
+        .filter(e => !options.threadId || e.thread_id === options.threadId)
+        .filter(e => !openTaskEntryIds || openTaskEntryIds.has(e.id))
+        .sort(byPageOrder);
+
+      if (options.cursor) {
+        const cursor = data.entries.find(e => e.id === options.cursor && bookIds.has(e.book_id));
+        entries = cursor ? entries.filter(e => byPageOrder(cursor, e) < 0) : [];
+      }
+
+      return {
+        entries: entries.slice(0, limit).map(copy),
+        nextCursor: entries.length > limit ? entries[limit - 1].id : null,
+      };
+    },
+
+    async getEntryStats(userId, options = {}) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      const entries = data.entries.filter(e => bookIds.has(e.book_id) && isLive(e));
+      const tasksOf = (entryId: string) => data.tasks.filter(t => t.entry_id === entryId);
+
+      const books = new Map<string, DbBookStats>();
+      for (const e of entries) {
+        const stats = books.get(e.book_id) ||
+          { book_id: e.book_id, entry_count: 0, open_tasks: 0, completed_tasks: 0, last_activity: e.created_at };
+        const tasks = tasksOf(e.id);
+        stats.entry_count++;
+        stats.open_tasks += tasks.filter(t => !t.is_done).length;
+        stats.completed_tasks += tasks.filter(t => t.is_done).length;
+        if (time(e.created_at) > time(stats.last_activity)) stats.last_activity = e.created_at;
+        books.set(e.book_id, stats);
+      }
+      if (!options.since) {
+        return { books: [...books.values()], period: null };
+      }
+
+      // Same buckets as the Neon query: type and calendar day in the requested zone
+      const since = time(options.since);
+      const dayFormat = new Intl.DateTimeFormat('en-CA', { timeZone: options.timeZone || 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' });
+      const periodEntries = entries.filter(e => time(e.created_at) >= since);
+      const buckets = new Map<string, DbPeriodBucket>();
+      for (const e of periodEntries) {
+        const day = dayFormat.format(new Date(e.created_at));
+        const key = `${e.type}|${day}`;
+        const bucket = buckets.get(key) || { type: e.type, day, entry_count: 0, total_tasks: 0, completed_tasks: 0 };
+        const tasks = tasksOf(e.id);
+        bucket.entry_count++;
+        bucket.total_tasks += tasks.length;
+        bucket.completed_tasks += tasks.filter(t => t.is_done).length;
+        buckets.set(key, bucket);
+      }
+
+      const periodEntryIds = new Set(periodEntries.map(e => e.id));
+      const mentions = new Map<string, DbEntityCount>();
+      for (const entity of data.entities) {
+        if (!periodEntryIds.has(entity.entry_id)) continue;
+        const key = `${entity.type}|${entity.name}`;
+        const count = mentions.get(key) || { type: entity.type, name: entity.name, count: 0 };
+        count.count++;
+        mentions.set(key, count);
+      }
+      const topEntities = options.topEntities || DEFAULT_TOP_ENTITIES;
+      const keptPerType = new Map<string, number>();
+      const top_entities = [...mentions.values()]
+        .sort((a, b) => a.type.localeCompare(b.type) || b.count - a.count || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+        .filter(entity => {
+          const kept = keptPerType.get(entity.type) || 0;
+          keptPerType.set(entity.type, kept + 1);
+          return kept < topEntities;
+        });
+
+      return { books: [...books.values()], period: { buckets: [...buckets.values()], top_entities } };
+    },
+
+    async getEntriesByBookId(bookId, userId) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      return data.entries
+        .filter(e => e.book_id === bookId && bookIds.has(e.book_id) && isLive(e))
+        .sort(byCreatedDesc)
+        .map(copy);
+    },
+
+    async getEntriesByThreadId(threadId, userId) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      return data.entries
+        .filter(e => e.thread_id === threadId && bookIds.has(e.book_id) && isLive(e))
+        .sort(byCreatedAsc)
+        .map(copy);
+    },
+
+    async getEntryById(id, userId) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      const entry = data.entries.find(e => e.id === id && bookIds.has(e.book_id) && isLive(e));
+      return entry ? copy(entry) : null;
+    },
+
+    async createEntry(id, userId, originalText, bookId, type, summary, status = 'COMPLETED', threadId, aiRewrittenText) {
+      requireBookAccess(bookId, userId, 'write');
+      requireAccessible(data.threads, threadId, userId, 'write', 'Thread');
+      const timestamp = now();
+      return insert(data.entries, {
+        id,
+        user_id: userId,
+        original_text: originalText,
+        book_id: bookId,
+        type,
+        summary,
+        status,
+        status_reason: null,
+        thread_id: threadId || null,
+        ai_rewritten_text: aiRewrittenText || null,
+        prompt_version: null,
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      }, 'entries');
+    },
+
+    async updateEntry(id, userId, updates) {
+      const bookIds = accessibleBookIds(userId, 'write');
+      const entry = data.entries.find(e => e.id === id && bookIds.has(e.book_id));
+      if (!entry) return;
+      if (updates.summary !== undefined) entry.summary = updates.summary;
+      if (updates.status !== undefined) {
+        entry.status = updates.status;
+        entry.status_reason = updates.statusReason || null;
+      }
+      if (updates.type !== undefined) entry.type = updates.type;
+      // Only into a thread of a book the user can write to
+      if (updates.threadId !== undefined && (!updates.threadId || data.threads.some(t => t.id === updates.threadId && bookIds.has(t.book_id)))) {
+        entry.thread_id = updates.threadId || null;
+      }
+      if (updates.aiRewrittenText !== undefined) entry.ai_rewritten_text = updates.aiRewrittenText || null;
+      entry.updated_at = now();
+    },
+
+    async deleteEntry(id, userId) {
+      const entry = data.entries.find(e => e.id === id && isLive(e));
+      if (!entry || !canManage(entry, userId)) return;
+      entry.deleted_at = now();
+    },
+
+    async saveCapture(userId, capture) {
+      transaction(() => {
+        capture.books.forEach(book => {
+          if (data.books.some(b => b.id === book.id)) return; // ON CONFLICT DO NOTHING
+          const timestamp = now();
+          insert(data.books, {
+            id: book.id,
+            user_id: userId,
+            name: book.name,
+            description: null,
+            context: null,
+            folder_id: null,
+            created_at: timestamp,
+            updated_at: timestamp,
+            deleted_at: null,
+          }, 'books');
+        });
+
+        capture.threads.forEach(thread => {
+          requireBookAccess(thread.bookId, userId, 'write');
+          const timestamp = now();
+          insert(data.threads, {
+            id: thread.id,
+            user_id: userId,
+            title: thread.title,
+            book_id: thread.bookId,
+            created_at: timestamp,
+            updated_at: timestamp,
+            deleted_at: null,
+          }, 'threads');
+        });
+
+        capture.entries.forEach(entry => {
+          requireBookAccess(entry.bookId, userId, 'write');
+          requireAccessible(data.threads, entry.threadId, userId, 'write', 'Thread');
+          const timestamp = now();
+          insert(data.entries, {
+            id: entry.id,
+            user_id: userId,
+            original_text: entry.originalText,
+            book_id: entry.bookId,
+            type: entry.type,
+            summary: entry.summary,
+            status: entry.status,
+            status_reason: entry.statusReason || null,
+            thread_id: entry.threadId || null,
+            ai_rewritten_text: entry.aiRewrittenText || null,
+            prompt_version: entry.promptVersion || null,
+            created_at: timestamp,
+            updated_at: timestamp,
+            deleted_at: null,
+          }, 'entries');
+
+          entry.tasks.forEach(task => insert(data.tasks, {
+            id: task.id,
+            entry_id: entry.id,
+            description: task.description,
+            assignee: task.assignee || null,
+            due_date: task.dueDate || null,
+            is_done: false,
+            priority: task.priority || 'MEDIUM',
+            completion_notes: null,
+            assignee_user_id: null,
+            delegated_by: null,
+            created_at: now(),
+          }, 'tasks'));
+
+          entry.entities.forEach(entity => insert(data.entities, {
+            id: entity.id,
+            entry_id: entry.id,
+            name: entity.name,
+            type: entity.type,
+            created_at: now(),
+          }, 'entities'));
+        });
+
+        capture.completedTasks.forEach(({ id, completionNotes }) => {
+          const task = data.tasks.find(t => t.id === id);
+          if (!task || !canAccessEntry(task.entry_id, userId, 'write')) return;
+          task.is_done = true;
+          if (completionNotes) task.completion_notes = completionNotes;
+        });
+      });
+    },
+
+    // Tasks operations (scoped through the entry's book)
+    async getTasksByEntryId(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'read')) return [];
+      return data.tasks.filter(t => t.entry_id === entryId).sort(byCreatedAsc).map(copy);
+    },
+
+    async getTasksByEntryIds(entryIds, userId) {
+      if (entryIds.length === 0) return [];
+      const readable = accessibleEntryIds(userId, 'read');
+      const ids = new Set(entryIds.filter(id => readable.has(id)));
+      return data.tasks
+        .filter(t => ids.has(t.entry_id))
+        .sort((a, b) => a.entry_id.localeCompare(b.entry_id) || byCreatedAsc(a, b))
+        .map(copy);
+    },
+
+    async getAllTasks(userId, filters) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      const liveEntryIds = new Set(data.entries.filter(e => bookIds.has(e.book_id) && isLive(e)).map(e => e.id));
+      let tasks = data.tasks.filter(t => liveEntryIds.has(t.entry_id));
+      if (filters?.isDone !== undefined) {
+        tasks = tasks.filter(t => t.is_done === filters.isDone);
+      }
+      if (filters?.bookId) {
+        const entryIds = new Set(data.entries.filter(e => e.book_id === filters.bookId).map(e => e.id));
+        tasks = tasks.filter(t => entryIds.has(t.entry_id));
+      }
+      return [...tasks].sort(byCreatedDesc).map(copy);
+    },
+
+    async createTask(id, userId, entryId, description, assignee, dueDate, priority = 'MEDIUM') {
+      requireAccessible(data.entries, entryId, userId, 'write', 'Entry');
+      return insert(data.tasks, {
+        id,
+        entry_id: entryId,
+        description,
+        assignee: assignee || null,
+        due_date: dueDate || null,
+        is_done: false,
+        priority,
+        completion_notes: null,
+        assignee_user_id: null,
+        delegated_by: null,
+        created_at: now(),
+      }, 'tasks');
+    },
+
+    async updateTask(id, userId, updates) {
+      const task = data.tasks.find(t => t.id === id);
+      if (!task) return;
+      // The user a task is delegated to may complete it and add notes, even without access to its book
+      const canEdit = canAccessEntry(task.entry_id, userId, 'write');
+      if (!canEdit && task.assignee_user_id !== userId) return;
+      if (updates.isDone !== undefined) task.is_done = updates.isDone;
+      if (updates.completionNotes !== undefined) task.completion_notes = updates.completionNotes;
+      if (canEdit) {
+        if (updates.description !== undefined) task.description = updates.description;
+        if (updates.assignee !== undefined) {
+          // A new free-text assignee replaces any delegation
+          task.assignee = updates.assignee;
+          task.assignee_user_id = null;
+          task.delegated_by = null;
+        }
+        if (updates.dueDate !== undefined) task.due_date = updates.dueDate;
+        if (updates.priority !== undefined) task.priority = updates.priority;
+      }
+    },
+
+    async getWritableTask(id, userId) {
+      const task = data.tasks.find(t => t.id === id);
+      return task && canAccessEntry(task.entry_id, userId, 'write') ? copy(task) : null;
+    },
+
+    async delegateTask(id, userId, assigneeUserId, assignee) {
+      const task = data.tasks.find(t => t.id === id);
+      if (!task || !canAccessEntry(task.entry_id, userId, 'write')) {
+        throw new TenantAccessError(`Task ${id}`);
+      }
+      task.assignee_user_id = assigneeUserId;
+      task.delegated_by = assigneeUserId ? userId : null;
+      if (assignee) task.assignee = assignee;
+      return copy(task);
+    },
+
+    async getAssignedTasks(userId) {
+      return data.tasks
+        .filter(t => t.assignee_user_id === userId)
+        .flatMap(t => {
+          const entry = data.entries.find(e => e.id === t.entry_id);
+          const book = entry && data.books.find(b => b.id === entry.book_id);
+          if (!entry || !book || !isLive(entry) || !isLive(book)) return [];
+          return [{
+            ...copy(t),
+            book_id: book.id,
+            book_name: book.name,
+            entry_type: entry.type,
+            entry_summary: entry.summary,
+            entry_created_at: entry.created_at,
+          }];
+        })
+        .sort(byCreatedDesc);
+    },
+
+    async deleteTask(id, userId) {
+      const writable = accessibleEntryIds(userId, 'write');
+      data.tasks = data.tasks.filter(t => !(t.id === id && writable.has(t.entry_id)));
+    },
+
+    // Entities operations (scoped through the entry's book)
+    async getEntitiesByEntryId(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'read')) return [];
+      return data.entities.filter(e => e.entry_id === entryId).map(copy);
+    },
+
+    async getEntitiesByEntryIds(entryIds, userId) {
+      if (entryIds.length === 0) return [];
+      const readable = accessibleEntryIds(userId, 'read');
+      const ids = new Set(entryIds.filter(id => readable.has(id)));
+      return data.entities
+        .filter(e => ids.has(e.entry_id))
+        .sort((a, b) => a.entry_id.localeCompare(b.entry_id))
+        .map(copy);
+    },
+
+    async createEntity(id, userId, entryId, name, type) {
+      requireAccessible(data.entries, entryId, userId, 'write', 'Entry');
+      return insert(data.entities, {
+        id,
+        entry_id: entryId,
+        name,
+        type,
+        created_at: now(),
+      }, 'entities');
+    },
+
+    async deleteEntitiesByEntryId(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'write')) return;
+      data.entities = data.entities.filter(e => e.entry_id !== entryId);
+    },
+
+    // Threads operations
+    async getAllThreads(userId) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      return data.threads.filter(t => bookIds.has(t.book_id) && isLive(t)).sort(byUpdatedDesc).map(copy);
+    },
+
+    async getThreadById(id, userId) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      const thread = data.threads.find(t => t.id === id && bookIds.has(t.book_id) && isLive(t));
+      return thread ? copy(thread) : null;
+    },
+
+    async getThreadsByBookId(bookId, userId) {
+      const bookIds = accessibleBookIds(userId, 'read');
+      return data.threads
+        .filter(t => t.book_id === bookId && bookIds.has(t.book_id) && isLive(t))
+        .sort(byUpdatedDesc)
+        .map(copy);
+    },
+
+    async createThread(id, userId, title, bookId) {
+      requireBookAccess(bookId, userId, 'write');
+      const timestamp = now();
+      return insert(data.threads, {
+        id,
+        user_id: userId,
+        title,
+        book_id: bookId,
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      }, 'threads');
+    },
+
+    async updateThread(id, userId, updates) {
+      const bookIds = accessibleBookIds(userId, 'write');
+      const thread = data.threads.find(t => t.id === id && bookIds.has(t.book_id));
+      if (!thread || updates.title === undefined) return;
+      thread.title = updates.title;
+      thread.updated_at = now();
+    },
+
+    async deleteThread(id, userId) {
+      const thread = data.threads.find(t => t.id === id && isLive(t));
+      if (!thread || !canManage(thread, userId)) return;
+      thread.deleted_at = now();
+    },
+
+    // Search operations (every book the user can read)
+    async searchEntries(userId, criteria, filters) {
+      const terms = criteria.terms.flatMap(searchTerms);
+      const phrases = criteria.phrases.map(foldText).filter(Boolean);
+      const excluded = criteria.excludeTerms.flatMap(searchTerms);
+      const excludedPhrases = criteria.excludePhrases.map(foldText).filter(Boolean);
+      const hasText = terms.length > 0 || phrases.length > 0;
+
+      const dateFrom = filters?.dateFrom ? time(filters.dateFrom) : undefined;
+      const dateTo = filters?.dateTo ? time(filters.dateTo) : undefined;
+      const criteriaFrom = criteria.dateFrom ? time(`${criteria.dateFrom}T00:00:00`) : undefined;
+      const criteriaTo = criteria.dateTo ? time(`${criteria.dateTo}T23:59:59.999`) : undefined;
+      const hasFilters = hasText || excluded.length > 0 || excludedPhrases.length > 0 ||
+        criteria.bookNames.length > 0 || criteria.excludeBookNames.length > 0 ||
+        criteria.types.length > 0 || criteria.excludeTypes.length > 0 ||
+        criteria.people.length > 0 || criteria.excludePeople.length > 0 ||
+        criteriaFrom !== undefined || criteriaTo !== undefined || criteria.hasPendingTasks !== undefined ||
+        !!(filters?.bookId || filters?.type || filters?.dateFrom || filters?.dateTo || filters?.assignee);
+
+      // Nothing to search for
+      if (!hasFilters) {
+        return [];
+      }
+
+      const matchesPositive = (text: string | null | undefined) =>
+        !!text && containsAllTerms(text, terms) && phrases.every(phrase => foldText(text).includes(phrase));
+      const matchesNegative = (text: string) =>
+        excluded.some(term => containsAllTerms(text, [term])) || excludedPhrases.some(phrase => foldText(text).includes(phrase));
+      const folded = (value: string | null | undefined, pattern: string) =>
+        !!value && foldText(value).includes(foldText(pattern));
+
+      const bookIds = accessibleBookIds(userId, 'read');
+      const results: DbSearchResult[] = [];
+      for (const e of data.entries) {
+        if (!bookIds.has(e.book_id) || !isLive(e)) continue;
+        if (filters?.bookId && e.book_id !== filters.bookId) continue;
+        if (filters?.type && e.type !== filters.type) continue;
+        if (dateFrom !== undefined && time(e.created_at) < dateFrom) continue;
+        if (dateTo !== undefined && time(e.created_at) > dateTo) continue;
+        if (criteriaFrom !== undefined && time(e.created_at) < criteriaFrom) continue;
+        if (criteriaTo !== undefined && time(e.created_at) > criteriaTo) continue;
+
+        const tasks = data.tasks.filter(t => t.entry_id === e.id);
+        const entities = data.entities.filter(ent => ent.entry_id === e.id);
+        if (filters?.assignee && !tasks.some(t => ilike(t.assignee, filters.assignee!))) continue;
+
+        const bookName = data.books.find(b => b.id === e.book_id)?.name;
+        if (!criteria.bookNames.every(name => folded(bookName, name))) continue;
+        if (criteria.excludeBookNames.some(name => folded(bookName, name))) continue;
+        if (criteria.types.length > 0 && !(criteria.types as string[]).includes(e.type)) continue;
+        if ((criteria.excludeTypes as string[]).includes(e.type)) continue;
+
+        const mentions = (name: string) =>
+          entities.some(ent => folded(ent.name, name)) || tasks.some(t => folded(t.assignee, name));
+        if (!criteria.people.every(mentions)) continue;
+        if (criteria.excludePeople.some(mentions)) continue;
+        if (criteria.hasPendingTasks !== undefined && tasks.some(t => !t.is_done) !== criteria.hasPendingTasks) continue;
+
+        const entryText = [e.summary, e.original_text, e.ai_rewritten_text].filter(Boolean).join(' ');
+        const relatedDocs = [
+          ...tasks.map(t => `${t.description} ${t.assignee || ''}`),
+          ...entities.map(ent => ent.name),
+        ];
+        if ([entryText, ...relatedDocs].some(matchesNegative)) continue;
+
+        let rank = 0;
+        if (hasText) {
+          // Same weighting as the Neon query: summary > original text > AI rewrite, related docs count half
+          const weight = (text: string | null, value: number) => matchesPositive(text) ? value : 0;
+          const entryRank = matchesPositive(entryText)
+            ? 0.1 + weight(e.summary, 1) + weight(e.original_text, 0.4) + weight(e.ai_rewritten_text, 0.2)
+            : 0;
+          const relatedRank = relatedDocs.some(matchesPositive) ? 0.5 : 0;
+          if (entryRank === 0 && relatedRank === 0) continue;
+          rank = entryRank + relatedRank;
+        }
+
+        results.push({
+          ...copy(e),
+          rank,
+          snippet: hasText
+            ? buildSnippet([e.summary, e.original_text].filter(Boolean).join(' — '), [...terms, ...phrases.flatMap(searchTerms)])
+            : null,
+        });
+      }
+
+      const sorted = results.sort((a, b) => b.rank - a.rank || byCreatedDesc(a, b));
+      return filters?.limit ? sorted.slice(0, filters.limit) : sorted;
+    },
+
+    // Embeddings operations (scoped through the entry's book)
+    async createEntryEmbedding(id, userId, entryId, embedding, model = 'text-embedding-3-small') {
+      requireAccessible(data.entries, entryId, userId, 'write', 'Entry');
+      // ON CONFLICT (entry_id) DO UPDATE
+      const existing = data.embeddings.find(e => e.entry_id === entryId);
+      vectors.upsert(entryId, embedding);
+      if (existing) {
+        existing.embedding = JSON.stringify(embedding);
+        existing.model = model;
+        existing.created_at = now();
+        return copy(existing);
+      }
+      return insert(data.embeddings, {
+        id,
+        entry_id: entryId,
+        embedding: JSON.stringify(embedding),
+        model,
+        created_at: now(),
+      }, 'entry_embeddings');
+    },
+
+    async getEmbeddingByEntryId(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'read')) return null;
+      const embedding = data.embeddings.find(e => e.entry_id === entryId);
+      return embedding ? copy(embedding) : null;
+    },
+
+    async getEmbeddingsByEntryIds(entryIds, userId) {
+      if (entryIds.length === 0) return [];
+      const readable = accessibleEntryIds(userId, 'read');
+      const ids = new Set(entryIds.filter(id => readable.has(id)));
+      return data.embeddings.filter(e => ids.has(e.entry_id)).map(copy);
+    },
+
+    async deleteEmbeddingByEntryId(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'write')) return;
+      data.embeddings = data.embeddings.filter(e => e.entry_id !== entryId);
+      vectors.remove(entryId);
+    },
+
+    async findSimilarEntries(userId, embedding, options = {}) {
+      const { limit = 10, minSimilarity = 0, excludeEntryId } = options;
+      const bookIds = accessibleBookIds(userId, 'read');
+      const entries = new Map(
+        data.entries.filter(e => bookIds.has(e.book_id) && isLive(e) && e.id !== excludeEntryId).map(e => [e.id, e])
+      );
+      return vectors
+        .search(embedding, { limit, minSimilarity, filter: id => entries.has(id) })
+        .map(({ id, similarity }) => ({ ...copy(entries.get(id)!), similarity }));
+    },
+
+    // Entry Relations operations (the source must be writable by the user, the target readable)
+    async createEntryRelation(id, userId, sourceId, targetId, relationStrength) {
+      if (relationStrength < 0 || relationStrength > 1) {
+        throw new Error('new row for relation "entry_relations" violates check constraint');
+      }
+      requireAccessible(data.entries, sourceId, userId, 'write', 'Entry');
+      requireAccessible(data.entries, targetId, userId, 'read', 'Entry');
+
+      // ON CONFLICT (source_id, target_id) DO UPDATE
+      const existing = data.relations.find(r => r.source_id === sourceId && r.target_id === targetId);
+      if (existing) {
+        existing.relation_strength = relationStrength;
+        existing.created_at = now();
+        return copy(existing);
+      }
+      return insert(data.relations, {
+        id,
+        source_id: sourceId,
+        target_id: targetId,
+        relation_strength: relationStrength,
+        created_at: now(),
+      }, 'entry_relations');
+    },
+
+    async getRelationsByEntryId(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'read')) return [];
+      return data.relations
+        .filter(r => r.source_id === entryId || r.target_id === entryId)
+        .sort((a, b) => b.relation_strength - a.relation_strength)
+        .map(copy);
+    },
+
+    async getRelatedEntries(entryId, userId, limit = 10, minStrength = 0.5) {
+      if (!canAccessEntry(entryId, userId, 'read')) return [];
+      const bookIds = accessibleBookIds(userId, 'read');
+      const relations = data.relations
+        .filter(r => (r.source_id === entryId || r.target_id === entryId) && r.relation_strength >= minStrength)
+        .sort((a, b) => b.relation_strength - a.relation_strength)
+        .slice(0, limit);
+
+      return relations
+        .map(relation => {
+          const relatedEntryId = relation.source_id === entryId ? relation.target_id : relation.source_id;
+          const entry = data.entries.find(e => e.id === relatedEntryId && bookIds.has(e.book_id) && isLive(e));
+          return entry ? { entry: copy(entry), relation: copy(relation) } : null;
+        })
+        .filter((item): item is { entry: DbEntry; relation: DbEntryRelation } => item !== null);
+    },
+
+    async updateRelationStrength(id, userId, strength) {
+      const relation = data.relations.find(r => r.id === id);
+      if (!relation || !canAccessEntry(relation.source_id, userId, 'write')) return;
+      relation.relation_strength = strength;
+    },
+
+    async deleteRelation(id, userId) {
+      const writable = accessibleEntryIds(userId, 'write');
+      data.relations = data.relations.filter(r => !(r.id === id && writable.has(r.source_id)));
+    },
+
+    // Entry revisions operations
+    async createEntryRevision(id, userId, entryId, snapshot, authorId, authorName, reason) {
+      requireAccessible(data.entries, entryId, userId, 'write', 'Entry');
+      const revisionNumber = data.revisions
+        .filter(r => r.entry_id === entryId)
+        .reduce((max, r) => Math.max(max, r.revision_number), 0) + 1;
+      const row: DbEntryRevision = {
+        id,
+        entry_id: entryId,
+        revision_number: revisionNumber,
+        author_id: authorId || null,
+        author_name: authorName || null,
+        reason: reason || null,
+        snapshot: JSON.parse(JSON.stringify(snapshot)),
+        created_at: now(),
+      };
+      insert(data.revisions, row, 'entry_revisions');
+      return copyRevision(row);
+    },
+
+    async getEntryRevisions(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'read')) return [];
+      return data.revisions
+        .filter(r => r.entry_id === entryId)
+        .sort((a, b) => a.revision_number - b.revision_number)
+        .map(copyRevision);
+    },
+
+    async getLatestEntryRevision(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'read')) return null;
+      const latest = data.revisions
+        .filter(r => r.entry_id === entryId)
+        .reduce<DbEntryRevision | null>((best, r) => (!best || r.revision_number > best.revision_number ? r : best), null);
+      return latest ? copyRevision(latest) : null;
+    },
+
+    // Entry comments operations
+    async getEntryComments(entryId, userId) {
+      if (!canAccessEntry(entryId, userId, 'read')) return [];
+      return data.entryComments.filter(c => c.entry_id === entryId).sort(byCreatedAsc).map(copy);
+    },
+
+    async createEntryComment(id, userId, entryId, text) {
+      const bookIds = accessibleBookIds(userId, 'comment');
+      if (!data.entries.some(e => e.id === entryId && bookIds.has(e.book_id) && isLive(e))) {
+        throw new TenantAccessError(`Entry ${entryId}`);
+      }
+      return insert(data.entryComments, { id, entry_id: entryId, user_id: userId, text, created_at: now() }, 'entry_comments');
+    },
+
+    async deleteEntryComment(id, userId) {
+      const comment = data.entryComments.find(c => c.id === id);
+      const entry = comment && data.entries.find(e => e.id === comment.entry_id);
+      if (!comment || !entry || !accessibleBookIds(userId, 'read').has(entry.book_id)) return;
+      if (comment.user_id !== userId && !data.books.some(b => b.id === entry.book_id && b.user_id === userId)) return;
+      data.entryComments = data.entryComments.filter(c => c.id !== id);
+    },
+
+    // Trash operations
+    async getTrash(userId) {
+      const items: DbTrashItem[] = [];
+      const deletedWithBook = (row: { book_id: string; deleted_at: string | null }) =>
+        data.books.find(b => b.id === row.book_id)?.deleted_at === row.deleted_at;
+
+      data.folders.forEach(f => {
+        if (f.user_id !== userId || !f.deleted_at) return;
+        items.push({ item_type: 'folder', id: f.id, title: f.name, book_id: null, child_count: 0, deleted_at: f.deleted_at });
+      });
+      data.books.forEach(b => {
+        if (b.user_id !== userId || !b.deleted_at) return;
+        const childCount = data.entries.filter(e => e.book_id === b.id && e.deleted_at === b.deleted_at).length;
+        items.push({ item_type: 'book', id: b.id, title: b.name, book_id: null, child_count: childCount, deleted_at: b.deleted_at });
+      });
+      data.threads.forEach(t => {
+        if (!t.deleted_at || deletedWithBook(t) || !canManage(t, userId)) return;
+        items.push({ item_type: 'thread', id: t.id, title: t.title, book_id: t.book_id, child_count: 0, deleted_at: t.deleted_at });
+      });
+      data.entries.forEach(e => {
+        if (!e.deleted_at || deletedWithBook(e) || !canManage(e, userId)) return;
+        items.push({
+          item_type: 'entry',
+          id: e.id,
+          title: e.summary || e.original_text.slice(0, 120),
+          book_id: e.book_id,
+          child_count: 0,
+          deleted_at: e.deleted_at,
+        });
+      });
+      return items.sort((a, b) => time(b.deleted_at) - time(a.deleted_at));
+    },
+
+    async restoreFromTrash(type, id, userId) {
+      switch (type) {
+        case 'folder': {
+          const folder = data.folders.find(f => f.id === id && f.user_id === userId);
+          if (folder) folder.deleted_at = null;
+          break;
+        }
+        case 'book': {
+          const book = data.books.find(b => b.id === id && b.user_id === userId);
+          if (!book?.deleted_at) break;
+          const deletedAt = book.deleted_at;
+          data.entries.forEach(e => {
+            if (e.book_id === id && e.deleted_at === deletedAt) e.deleted_at = null;
+          });
+          data.threads.forEach(t => {
+            if (t.book_id === id && t.deleted_at === deletedAt) t.deleted_at = null;
+          });
+          book.deleted_at = null;
+          break;
+        }
+        case 'thread': {
+          const thread = data.threads.find(t => t.id === id);
+          if (!thread || !canManage(thread, userId)) break;
+          restoreBookRow(thread.book_id, userId);
+          thread.deleted_at = null;
+          break;
+        }
+        case 'entry': {
+          const entry = data.entries.find(e => e.id === id);
+          if (!entry || !canManage(entry, userId)) break;
+          restoreBookRow(entry.book_id, userId);
+          entry.deleted_at = null;
+          break;
+        }
+      }
+    },
+
+    async purgeFromTrash(type, id, userId) {
+      const inTrash = (row: { id: string; user_id: string; deleted_at: string | null }) =>
+        row.id === id && row.user_id === userId && !!row.deleted_at;
+      const inManageableTrash = (row: { id: string; user_id: string; book_id: string; deleted_at: string | null }) =>
+        row.id === id && !!row.deleted_at && canManage(row, userId);
+      switch (type) {
+        case 'folder':
+          removeFolders(new Set(data.folders.filter(inTrash).map(f => f.id)));
+          break;
+        case 'book':
+          removeBooks(new Set(data.books.filter(inTrash).map(b => b.id)));
+          break;
+        case 'thread':
+          removeThreads(new Set(data.threads.filter(inManageableTrash).map(t => t.id)));
+          break;
+        case 'entry':
+          cascadeEntries(new Set(data.entries.filter(inManageableTrash).map(e => e.id)));
+          break;
+      }
+    },
+
+    async purgeTrash(userId, deletedBefore) {
+      const cutoff = deletedBefore?.getTime();
+      const trashedBefore = (row: { deleted_at: string | null }) =>
+        !!row.deleted_at && (cutoff === undefined || time(row.deleted_at) < cutoff);
+      const expired = (row: { user_id: string; deleted_at: string | null }) => row.user_id === userId && trashedBefore(row);
+      const expiredManageable = (row: { user_id: string; book_id: string; deleted_at: string | null }) =>
+        trashedBefore(row) && canManage(row, userId);
+      cascadeEntries(new Set(data.entries.filter(expiredManageable).map(e => e.id)));
+      removeThreads(new Set(data.threads.filter(expiredManageable).map(t => t.id)));
+      removeBooks(new Set(data.books.filter(expired).map(b => b.id)));
+      removeFolders(new Set(data.folders.filter(expired).map(f => f.id)));
+    },
+
+    // AI result cache
+    async getAiCacheEntries(userId, keys) {
+      const current = now();
+      return data.aiCache
+        .filter(e => e.user_id === userId && keys.includes(e.key) && e.expires_at > current)
+        .map(copy);
+    },
+
+    async saveAiCacheEntries(userId, entries) {
+      if (entries.length === 0) return;
+      const timestamp = now();
+      const keys = new Set(entries.map(e => e.key));
+      data.aiCache = data.aiCache.filter(e => e.user_id !== userId || (e.expires_at > timestamp && !keys.has(e.key)));
+      for (const entry of entries) {
+        data.aiCache.push({
+          user_id: userId,
+          key: entry.key,
+          namespace: entry.namespace,
+          subject: entry.subject || null,
+          value: entry.value,
+          expires_at: entry.expiresAt.toISOString(),
+          created_at: timestamp,
+        });
+      }
+    },
+
+    async deleteAiCacheEntries(userId, namespace, subject) {
+      const matches = (e: DbAiCacheEntry) =>
+        e.user_id === userId && e.namespace === namespace && (subject === undefined || e.subject === subject);
+      const count = data.aiCache.filter(matches).length;
+      data.aiCache = data.aiCache.filter(e => !matches(e));
+      return count;
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import type { Migration } from './types';
+
+// Original schema: users, sessions, books, entries, tasks and entities.
+// Uses IF NOT EXISTS so databases created before migrations existed are adopted as-is.
+const migration: Migration = {
+  version: 1,
+  name: 'create_core_tables',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_login TIMESTAMP,
+        is_active BOOLEAN DEFAULT TRUE
+      )
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token TEXT UNIQUE NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS books (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        context TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS entries (
+        id TEXT PRIMARY KEY,
+        original_text TEXT NOT NULL,
+        book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'COMPLETED',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+        description TEXT NOT NULL,
+        assignee TEXT,
+        due_date DATE,
+        is_done BOOLEAN DEFAULT FALSE,
+        priority TEXT DEFAULT 'MEDIUM',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS entities (
+        id TEXT PRIMARY KEY,
+        entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entries_book_id ON entries(book_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entries_created_at ON entries(created_at DESC)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_tasks_entry_id ON tasks(entry_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_tasks_is_done ON tasks(is_done)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entities_entry_id ON entities(entry_id)`,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS entities`,
+    sql`DROP TABLE IF EXISTS tasks`,
+    sql`DROP TABLE IF EXISTS entries`,
+    sql`DROP TABLE IF EXISTS books`,
+    sql`DROP TABLE IF EXISTS sessions`,
+    sql`DROP TABLE IF EXISTS users`,
+  ],
+};
+
+export default migration;
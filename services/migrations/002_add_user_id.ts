@@ -0,0 +1,26 @@
+import type { Migration } from './types';
+
+// Multi-user support: scope books and entries by user.
+// Rows created before this migration are assigned to the 'legacy' user.
+const migration: Migration = {
+  version: 2,
+  name: 'add_user_id',
+  up: (sql) => [
+    sql`ALTER TABLE books ADD COLUMN IF NOT EXISTS user_id TEXT`,
+    sql`UPDATE books SET user_id = 'legacy' WHERE user_id IS NULL`,
+    sql`ALTER TABLE books ALTER COLUMN user_id SET NOT NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_books_user_id ON books(user_id)`,
+    sql`ALTER TABLE entries ADD COLUMN IF NOT EXISTS user_id TEXT`,
+    sql`UPDATE entries SET user_id = 'legacy' WHERE user_id IS NULL`,
+    sql`ALTER TABLE entries ALTER COLUMN user_id SET NOT NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entries_user_id ON entries(user_id)`,
+  ],
+  down: (sql) => [
+    sql`DROP INDEX IF EXISTS idx_entries_user_id`,
+    sql`ALTER TABLE entries DROP COLUMN IF EXISTS user_id`,
+    sql`DROP INDEX IF EXISTS idx_books_user_id`,
+    sql`ALTER TABLE books DROP COLUMN IF EXISTS user_id`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 3,
+  name: 'add_task_completion_notes',
+  up: (sql) => [
+    sql`ALTER TABLE tasks ADD COLUMN IF NOT EXISTS completion_notes TEXT`,
+  ],
+  down: (sql) => [
+    sql`ALTER TABLE tasks DROP COLUMN IF EXISTS completion_notes`,
+  ],
+};
+
+export default migration;
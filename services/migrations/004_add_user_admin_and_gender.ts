@@ -0,0 +1,16 @@
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 4,
+  name: 'add_user_admin_and_gender',
+  up: (sql) => [
+    sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin BOOLEAN DEFAULT FALSE`,
+    sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS gender TEXT`,
+  ],
+  down: (sql) => [
+    sql`ALTER TABLE users DROP COLUMN IF EXISTS gender`,
+    sql`ALTER TABLE users DROP COLUMN IF EXISTS is_admin`,
+  ],
+};
+
+export default migration;
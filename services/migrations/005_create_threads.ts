@@ -0,0 +1,30 @@
+import type { Migration } from './types';
+
+// Conversation threads and the entries.thread_id link
+const migration: Migration = {
+  version: 5,
+  name: 'create_threads',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS threads (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`ALTER TABLE entries ADD COLUMN IF NOT EXISTS thread_id TEXT REFERENCES threads(id) ON DELETE SET NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entries_thread_id ON entries(thread_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_threads_user_id ON threads(user_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_threads_book_id ON threads(book_id)`,
+  ],
+  down: (sql) => [
+    sql`DROP INDEX IF EXISTS idx_entries_thread_id`,
+    sql`ALTER TABLE entries DROP COLUMN IF EXISTS thread_id`,
+    sql`DROP TABLE IF EXISTS threads`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 6,
+  name: 'add_entry_ai_rewritten_text',
+  up: (sql) => [
+    sql`ALTER TABLE entries ADD COLUMN IF NOT EXISTS ai_rewritten_text TEXT`,
+  ],
+  down: (sql) => [
+    sql`ALTER TABLE entries DROP COLUMN IF EXISTS ai_rewritten_text`,
+  ],
+};
+
+export default migration;
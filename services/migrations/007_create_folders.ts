@@ -0,0 +1,29 @@
+import type { Migration } from './types';
+
+// Folders for grouping books
+const migration: Migration = {
+  version: 7,
+  name: 'create_folders',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS folders (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        color TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`ALTER TABLE books ADD COLUMN IF NOT EXISTS folder_id TEXT REFERENCES folders(id) ON DELETE SET NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_folders_user_id ON folders(user_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_books_folder_id ON books(folder_id)`,
+  ],
+  down: (sql) => [
+    sql`DROP INDEX IF EXISTS idx_books_folder_id`,
+    sql`ALTER TABLE books DROP COLUMN IF EXISTS folder_id`,
+    sql`DROP TABLE IF EXISTS folders`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import type { Migration } from './types';
+
+// Embeddings and the entry relation graph used by semantic search
+const migration: Migration = {
+  version: 8,
+  name: 'create_semantic_tables',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS entry_embeddings (
+        id TEXT PRIMARY KEY,
+        entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+        embedding TEXT NOT NULL,
+        model TEXT NOT NULL DEFAULT 'text-embedding-3-small',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS entry_relations (
+        id TEXT PRIMARY KEY,
+        source_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+        target_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+        relation_strength REAL NOT NULL CHECK (relation_strength >= 0.0 AND relation_strength <= 1.0),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(source_id, target_id)
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_entry_embeddings_entry_id ON entry_embeddings(entry_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entry_relations_source_id ON entry_relations(source_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entry_relations_target_id ON entry_relations(target_id)`,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS entry_relations`,
+    sql`DROP TABLE IF EXISTS entry_embeddings`,
+  ],
+};
+
+export default migration;
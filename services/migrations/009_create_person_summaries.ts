@@ -0,0 +1,27 @@
+import type { Migration } from './types';
+
+// Cache for AI-generated person interaction summaries
+const migration: Migration = {
+  version: 9,
+  name: 'create_person_summaries',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS person_summaries (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        person_name TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        entries_hash TEXT NOT NULL,
+        last_entry_timestamp BIGINT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, person_name)
+      )
+    `,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS person_summaries`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,53 @@
+import type { Migration } from './types';
+
+// Full-text search: a Spanish configuration that also strips accents
+// ("reunión" matches "reuniones" and "reunion"), plus GIN expression indexes
+// over entry text, task descriptions/assignees and entity names.
+const migration: Migration = {
+  version: 10,
+  name: 'add_full_text_search',
+  up: (sql) => [
+    sql`CREATE EXTENSION IF NOT EXISTS unaccent`,
+    sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'es_unaccent') THEN
+          CREATE TEXT SEARCH CONFIGURATION es_unaccent (COPY = spanish);
+          ALTER TEXT SEARCH CONFIGURATION es_unaccent
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+        END IF;
+      END
+      $$
+    `,
+    sql`
+      CREATE OR REPLACE FUNCTION entry_search_vector(summary TEXT, original_text TEXT, ai_rewritten_text TEXT)
+      RETURNS tsvector LANGUAGE sql IMMUTABLE AS $$
+        SELECT setweight(to_tsvector('es_unaccent'::regconfig, coalesce(summary, '')), 'A')
+          || setweight(to_tsvector('es_unaccent'::regconfig, coalesce(original_text, '')), 'B')
+          || setweight(to_tsvector('es_unaccent'::regconfig, coalesce(ai_rewritten_text, '')), 'C')
+      $$
+    `,
+    sql`
+      CREATE INDEX IF NOT EXISTS idx_entries_search ON entries
+      USING GIN (entry_search_vector(summary, original_text, ai_rewritten_text))
+    `,
+    sql`
+      CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks
+      USING GIN (to_tsvector('es_unaccent'::regconfig, description || ' ' || coalesce(assignee, '')))
+    `,
+    sql`
+      CREATE INDEX IF NOT EXISTS idx_entities_search ON entities
+      USING GIN (to_tsvector('es_unaccent'::regconfig, name))
+    `,
+  ],
+  down: (sql) => [
+    sql`DROP INDEX IF EXISTS idx_entities_search`,
+    sql`DROP INDEX IF EXISTS idx_tasks_search`,
+    sql`DROP INDEX IF EXISTS idx_entries_search`,
+    sql`DROP FUNCTION IF EXISTS entry_search_vector(TEXT, TEXT, TEXT)`,
+    sql`DROP TEXT SEARCH CONFIGURATION IF EXISTS es_unaccent`,
+    // The unaccent extension is left installed; other objects may depend on it
+  ],
+};
+
+export default migration;
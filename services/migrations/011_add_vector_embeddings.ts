@@ -0,0 +1,48 @@
+import type { Migration } from './types';
+
+// Native pgvector storage for entry embeddings so similarity search runs in
+// the database (HNSW, cosine distance) instead of downloading every vector.
+// Existing JSON text embeddings are converted in place; rows that are not a
+// 1536-dimension array can't be cast and are dropped (they get regenerated).
+// One embedding per entry: duplicates keep the newest row.
+const migration: Migration = {
+  version: 11,
+  name: 'add_vector_embeddings',
+  up: (sql) => [
+    sql`CREATE EXTENSION IF NOT EXISTS vector`,
+    sql`
+      DELETE FROM entry_embeddings older
+      USING entry_embeddings newer
+      WHERE older.entry_id = newer.entry_id
+        AND (older.created_at, older.id) < (newer.created_at, newer.id)
+    `,
+    sql`
+      DELETE FROM entry_embeddings
+      WHERE CASE
+        WHEN embedding ~ '^\\s*\\[.*\\]\\s*$' THEN json_array_length(embedding::json) <> 1536
+        ELSE true
+      END
+    `,
+    sql`ALTER TABLE entry_embeddings ADD COLUMN embedding_vector vector(1536)`,
+    sql`UPDATE entry_embeddings SET embedding_vector = embedding::vector(1536)`,
+    sql`ALTER TABLE entry_embeddings DROP COLUMN embedding`,
+    sql`ALTER TABLE entry_embeddings RENAME COLUMN embedding_vector TO embedding`,
+    sql`ALTER TABLE entry_embeddings ALTER COLUMN embedding SET NOT NULL`,
+    sql`DROP INDEX IF EXISTS idx_entry_embeddings_entry_id`,
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_entry_embeddings_entry_id ON entry_embeddings(entry_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entry_embeddings_vector ON entry_embeddings USING hnsw (embedding vector_cosine_ops)`,
+  ],
+  down: (sql) => [
+    sql`DROP INDEX IF EXISTS idx_entry_embeddings_vector`,
+    sql`DROP INDEX IF EXISTS idx_entry_embeddings_entry_id`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entry_embeddings_entry_id ON entry_embeddings(entry_id)`,
+    sql`ALTER TABLE entry_embeddings ADD COLUMN embedding_text TEXT`,
+    // pgvector's text form ("[0.1,0.2,...]") is already a JSON array
+    sql`UPDATE entry_embeddings SET embedding_text = embedding::text`,
+    sql`ALTER TABLE entry_embeddings DROP COLUMN embedding`,
+    sql`ALTER TABLE entry_embeddings RENAME COLUMN embedding_text TO embedding`,
+    sql`ALTER TABLE entry_embeddings ALTER COLUMN embedding SET NOT NULL`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from './types';
+
+// Revision history for entries: each row is a full snapshot of the entry
+// (fields, tasks and entities) after a change, with its author.
+const migration: Migration = {
+  version: 12,
+  name: 'create_entry_revisions',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS entry_revisions (
+        id TEXT PRIMARY KEY,
+        entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+        revision_number INTEGER NOT NULL,
+        author_id TEXT,
+        author_name TEXT,
+        reason TEXT,
+        snapshot JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(entry_id, revision_number)
+      )
+    `,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS entry_revisions`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import type { Migration } from './types';
+
+// Soft deletion: deleted folders, books, threads and entries stay in the
+// database (with their tasks, entities, embeddings and relations) until they
+// are restored from the trash or purged after the retention period.
+const migration: Migration = {
+  version: 13,
+  name: 'add_soft_delete',
+  up: (sql) => [
+    sql`ALTER TABLE folders ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`,
+    sql`ALTER TABLE books ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`,
+    sql`ALTER TABLE threads ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`,
+    sql`ALTER TABLE entries ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`,
+    sql`CREATE INDEX IF NOT EXISTS idx_folders_deleted_at ON folders(user_id, deleted_at) WHERE deleted_at IS NOT NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_books_deleted_at ON books(user_id, deleted_at) WHERE deleted_at IS NOT NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_threads_deleted_at ON threads(user_id, deleted_at) WHERE deleted_at IS NOT NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entries_deleted_at ON entries(user_id, deleted_at) WHERE deleted_at IS NOT NULL`,
+  ],
+  // Rolling back empties the trash; otherwise deleted rows would reappear
+  down: (sql) => [
+    sql`DELETE FROM entries WHERE deleted_at IS NOT NULL`,
+    sql`DELETE FROM threads WHERE deleted_at IS NOT NULL`,
+    sql`DELETE FROM books WHERE deleted_at IS NOT NULL`,
+    sql`DELETE FROM folders WHERE deleted_at IS NOT NULL`,
+    sql`DROP INDEX IF EXISTS idx_entries_deleted_at`,
+    sql`DROP INDEX IF EXISTS idx_threads_deleted_at`,
+    sql`DROP INDEX IF EXISTS idx_books_deleted_at`,
+    sql`DROP INDEX IF EXISTS idx_folders_deleted_at`,
+    sql`ALTER TABLE entries DROP COLUMN IF EXISTS deleted_at`,
+    sql`ALTER TABLE threads DROP COLUMN IF EXISTS deleted_at`,
+    sql`ALTER TABLE books DROP COLUMN IF EXISTS deleted_at`,
+    sql`ALTER TABLE folders DROP COLUMN IF EXISTS deleted_at`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import type { Migration } from './types';
+
+// Entries are paged newest first with a (created_at, id) keyset cursor;
+// this index serves those pages per user without scanning the whole table.
+const migration: Migration = {
+  version: 14,
+  name: 'add_entry_pagination_index',
+  up: (sql) => [
+    sql`CREATE INDEX IF NOT EXISTS idx_entries_user_page ON entries(user_id, created_at DESC, id DESC) WHERE deleted_at IS NULL`,
+  ],
+  down: (sql) => [
+    sql`DROP INDEX IF EXISTS idx_entries_user_page`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,52 @@
+import type { Migration } from './types';
+
+// Sessions become device sessions: a short-lived access token and a refresh
+// token, both stored only as SHA-256 hashes, plus the device's user agent, IP
+// and last activity. Existing sessions keep working until their current expiry
+// with the token they already have as access token (they get no refresh token).
+const migration: Migration = {
+  version: 15,
+  name: 'add_session_metadata',
+  up: (sql) => [
+    sql`
+      ALTER TABLE sessions
+        ADD COLUMN IF NOT EXISTS token_hash TEXT,
+        ADD COLUMN IF NOT EXISTS refresh_token_hash TEXT,
+        ADD COLUMN IF NOT EXISTS access_expires_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS user_agent TEXT,
+        ADD COLUMN IF NOT EXISTS ip_address TEXT
+    `,
+    sql`
+      UPDATE sessions
+      SET token_hash = encode(sha256(convert_to(token, 'UTF8')), 'hex'),
+          access_expires_at = expires_at,
+          last_seen_at = created_at
+    `,
+    sql`ALTER TABLE sessions ALTER COLUMN token_hash SET NOT NULL`,
+    sql`ALTER TABLE sessions ALTER COLUMN access_expires_at SET NOT NULL`,
+    sql`DROP INDEX IF EXISTS idx_sessions_token`,
+    sql`ALTER TABLE sessions DROP COLUMN token`,
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_token_hash ON sessions(token_hash)`,
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_refresh_token_hash ON sessions(refresh_token_hash)`,
+  ],
+  // Plain tokens cannot be recovered from their hashes: everyone is signed out
+  down: (sql) => [
+    sql`DELETE FROM sessions`,
+    sql`DROP INDEX IF EXISTS idx_sessions_refresh_token_hash`,
+    sql`DROP INDEX IF EXISTS idx_sessions_token_hash`,
+    sql`ALTER TABLE sessions ADD COLUMN token TEXT UNIQUE NOT NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token)`,
+    sql`
+      ALTER TABLE sessions
+        DROP COLUMN IF EXISTS token_hash,
+        DROP COLUMN IF EXISTS refresh_token_hash,
+        DROP COLUMN IF EXISTS access_expires_at,
+        DROP COLUMN IF EXISTS last_seen_at,
+        DROP COLUMN IF EXISTS user_agent,
+        DROP COLUMN IF EXISTS ip_address
+    `,
+  ],
+};
+
+export default migration;
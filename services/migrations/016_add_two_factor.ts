@@ -0,0 +1,51 @@
+import type { Migration } from './types';
+
+// Optional TOTP two-factor authentication. totp_secret is set when enrollment
+// starts and totp_enabled once the first code is confirmed; totp_last_step is
+// the time step of the last accepted code, so codes cannot be replayed.
+// A password login with 2FA on leaves a short-lived login challenge that the
+// second step (code or recovery code) trades for a session.
+const migration: Migration = {
+  version: 16,
+  name: 'add_two_factor',
+  up: (sql) => [
+    sql`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+        ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS totp_last_step BIGINT
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS recovery_codes (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash TEXT NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_recovery_codes_user_id ON recovery_codes(user_id)`,
+    sql`
+      CREATE TABLE IF NOT EXISTS login_challenges (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token_hash TEXT UNIQUE NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS login_challenges`,
+    sql`DROP TABLE IF EXISTS recovery_codes`,
+    sql`
+      ALTER TABLE users
+        DROP COLUMN IF EXISTS totp_last_step,
+        DROP COLUMN IF EXISTS totp_enabled,
+        DROP COLUMN IF EXISTS totp_secret
+    `,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import type { Migration } from './types';
+
+// Email verification and password reset. Accounts that existed before
+// verification was required count as verified. email_tokens holds the
+// single-use links sent by email, stored as SHA-256 hashes.
+const migration: Migration = {
+  version: 17,
+  name: 'add_email_tokens',
+  up: (sql) => [
+    sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP`,
+    sql`UPDATE users SET email_verified_at = COALESCE(created_at, CURRENT_TIMESTAMP) WHERE email_verified_at IS NULL`,
+    sql`
+      CREATE TABLE IF NOT EXISTS email_tokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        purpose TEXT NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_email_tokens_user_purpose ON email_tokens(user_id, purpose)`,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS email_tokens`,
+    sql`ALTER TABLE users DROP COLUMN IF EXISTS email_verified_at`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,50 @@
+import type { Migration } from './types';
+
+// Persistent login throttling: failed logins are counted on the user row and
+// per client IP, so delays and lockouts survive restarts and apply across
+// server instances. audit_log records security events such as lockouts.
+const migration: Migration = {
+  version: 18,
+  name: 'add_login_throttling',
+  up: (sql) => [
+    sql`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS failed_login_count INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS ip_login_failures (
+        ip_address TEXT PRIMARY KEY,
+        failure_count INTEGER NOT NULL DEFAULT 0,
+        last_failure_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        locked_until TIMESTAMP
+      )
+    `,
+    sql`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        event TEXT NOT NULL,
+        user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        actor_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        ip_address TEXT,
+        details JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_audit_log_user_id ON audit_log(user_id)`,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS audit_log`,
+    sql`DROP TABLE IF EXISTS ip_login_failures`,
+    sql`
+      ALTER TABLE users
+        DROP COLUMN IF EXISTS locked_until,
+        DROP COLUMN IF EXISTS last_failed_login_at,
+        DROP COLUMN IF EXISTS failed_login_count
+    `,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import type { Migration } from './types';
+
+// Roles replace the is_admin flag (see services/permissions.ts). Admins keep
+// their access; the oldest admin becomes the owner.
+const migration: Migration = {
+  version: 19,
+  name: 'add_user_roles',
+  up: (sql) => [
+    sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'member'
+        CHECK (role IN ('owner', 'admin', 'member', 'auditor'))
+    `,
+    sql`UPDATE users SET role = 'admin' WHERE is_admin = TRUE`,
+    sql`
+      UPDATE users SET role = 'owner'
+      WHERE id = (SELECT id FROM users WHERE is_admin = TRUE ORDER BY created_at ASC, id ASC LIMIT 1)
+    `,
+    sql`ALTER TABLE users DROP COLUMN IF EXISTS is_admin`,
+  ],
+  down: (sql) => [
+    sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin BOOLEAN DEFAULT FALSE`,
+    sql`UPDATE users SET is_admin = role IN ('owner', 'admin')`,
+    sql`ALTER TABLE users DROP COLUMN IF EXISTS role`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from './types';
+
+// AI requests per user, method and day, for the admin usage view
+const migration: Migration = {
+  version: 20,
+  name: 'create_ai_usage',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS ai_usage (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        day DATE NOT NULL DEFAULT CURRENT_DATE,
+        method TEXT NOT NULL,
+        request_count INTEGER NOT NULL DEFAULT 0,
+        last_request_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, day, method)
+      )
+    `,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS ai_usage`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,51 @@
+import type { Migration } from './types';
+
+// Shared books: members with a role per book, comments on entries, and
+// accessible_book_ids(), which every data query uses to resolve the books a
+// user can read or write (their own plus those shared with one of the roles).
+// entries.user_id and threads.user_id keep meaning "author". Entry pages are
+// now scoped by book, so they get a per-book keyset index.
+const migration: Migration = {
+  version: 21,
+  name: 'add_book_sharing',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS book_members (
+        book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role TEXT NOT NULL CHECK (role IN ('viewer', 'commenter', 'editor')),
+        invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (book_id, user_id)
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_book_members_user ON book_members(user_id)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_entries_book_page ON entries(book_id, created_at DESC, id DESC) WHERE deleted_at IS NULL`,
+    sql`
+      CREATE TABLE IF NOT EXISTS entry_comments (
+        id TEXT PRIMARY KEY,
+        entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        text TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_entry_comments_entry ON entry_comments(entry_id, created_at)`,
+    sql`
+      CREATE OR REPLACE FUNCTION accessible_book_ids(p_user_id TEXT, p_roles TEXT[])
+      RETURNS SETOF TEXT LANGUAGE sql STABLE AS $$
+        SELECT id FROM books WHERE user_id = p_user_id
+        UNION ALL
+        SELECT book_id FROM book_members WHERE user_id = p_user_id AND role = ANY(p_roles)
+      $$
+    `,
+  ],
+  down: (sql) => [
+    sql`DROP FUNCTION IF EXISTS accessible_book_ids(TEXT, TEXT[])`,
+    sql`DROP TABLE IF EXISTS entry_comments`,
+    sql`DROP INDEX IF EXISTS idx_entries_book_page`,
+    sql`DROP TABLE IF EXISTS book_members`,
+  ],
+};
+
+export default migration;
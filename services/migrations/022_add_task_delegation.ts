@@ -0,0 +1,21 @@
+import type { Migration } from './types';
+
+// Tasks delegated to registered users. `assignee` stays the display name;
+// assignee_user_id links the task to the account that must do it, and
+// delegated_by records who handed it off.
+const migration: Migration = {
+  version: 22,
+  name: 'add_task_delegation',
+  up: (sql) => [
+    sql`ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assignee_user_id TEXT REFERENCES users(id) ON DELETE SET NULL`,
+    sql`ALTER TABLE tasks ADD COLUMN IF NOT EXISTS delegated_by TEXT REFERENCES users(id) ON DELETE SET NULL`,
+    sql`CREATE INDEX IF NOT EXISTS idx_tasks_assignee_user ON tasks(assignee_user_id) WHERE assignee_user_id IS NOT NULL`,
+  ],
+  down: (sql) => [
+    sql`DROP INDEX IF EXISTS idx_tasks_assignee_user`,
+    sql`ALTER TABLE tasks DROP COLUMN IF EXISTS delegated_by`,
+    sql`ALTER TABLE tasks DROP COLUMN IF EXISTS assignee_user_id`,
+  ],
+};
+
+export default migration;
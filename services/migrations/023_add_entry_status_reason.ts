@@ -0,0 +1,16 @@
+import type { Migration } from './types';
+
+// Why an entry is in the ERROR status, e.g. the AI answer that could not be
+// read. Cleared when the entry leaves that status.
+const migration: Migration = {
+  version: 23,
+  name: 'add_entry_status_reason',
+  up: (sql) => [
+    sql`ALTER TABLE entries ADD COLUMN IF NOT EXISTS status_reason TEXT`,
+  ],
+  down: (sql) => [
+    sql`ALTER TABLE entries DROP COLUMN IF EXISTS status_reason`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import type { Migration } from './types';
+
+// One row per AI call: who made it, for which feature, with which model, the
+// tokens it used and its estimated cost. ai_monthly_budget_usd overrides the
+// default monthly budget (AI_MONTHLY_BUDGET_USD) for one user.
+const migration: Migration = {
+  version: 24,
+  name: 'create_ai_calls',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS ai_calls (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        feature TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_ai_calls_user_created ON ai_calls(user_id, created_at DESC)`,
+    sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS ai_monthly_budget_usd NUMERIC(10, 2)`,
+  ],
+  down: (sql) => [
+    sql`ALTER TABLE users DROP COLUMN IF EXISTS ai_monthly_budget_usd`,
+    sql`DROP TABLE IF EXISTS ai_calls`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,45 @@
+import type { Migration } from './types';
+
+// Cached AI results per user (services/aiCache.ts). The key is a hash of the
+// namespace, model, prompt template version and inputs; subject names what a
+// result is about so it can be invalidated. Person summaries are now cached
+// here, so their own table goes away.
+const migration: Migration = {
+  version: 25,
+  name: 'create_ai_cache',
+  up: (sql) => [
+    sql`
+      CREATE TABLE IF NOT EXISTS ai_cache (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        key TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        subject TEXT,
+        value TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, key)
+      )
+    `,
+    sql`CREATE INDEX IF NOT EXISTS idx_ai_cache_subject ON ai_cache(user_id, namespace, subject)`,
+    sql`CREATE INDEX IF NOT EXISTS idx_ai_cache_expires ON ai_cache(user_id, expires_at)`,
+    sql`DROP TABLE IF EXISTS person_summaries`,
+  ],
+  down: (sql) => [
+    sql`DROP TABLE IF EXISTS ai_cache`,
+    sql`
+      CREATE TABLE IF NOT EXISTS person_summaries (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        person_name TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        entries_hash TEXT NOT NULL,
+        last_entry_timestamp BIGINT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, person_name)
+      )
+    `,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import type { Migration } from './types';
+
+// The language each user writes in, which picks the prompt variant and the
+// interface texts, and the prompt (name@version/locale) that analyzed each
+// entry. Entries analyzed before this migration keep a NULL prompt version.
+const migration: Migration = {
+  version: 26,
+  name: 'add_locale_and_prompt_version',
+  up: (sql) => [
+    sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'es'`,
+    sql`ALTER TABLE entries ADD COLUMN IF NOT EXISTS prompt_version TEXT`,
+  ],
+  down: (sql) => [
+    sql`ALTER TABLE entries DROP COLUMN IF EXISTS prompt_version`,
+    sql`ALTER TABLE users DROP COLUMN IF EXISTS locale`,
+  ],
+};
+
+export default migration;
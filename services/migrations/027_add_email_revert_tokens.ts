@@ -0,0 +1,17 @@
+import type { Migration } from './types';
+
+// Links that undo an email change. They are sent to the address being
+// replaced and keep it in previous_email until they are used or expire.
+const migration: Migration = {
+  version: 27,
+  name: 'add_email_revert_tokens',
+  up: (sql) => [
+    sql`ALTER TABLE email_tokens ADD COLUMN IF NOT EXISTS previous_email TEXT`,
+  ],
+  down: (sql) => [
+    sql`DELETE FROM email_tokens WHERE purpose = 'revert_email'`,
+    sql`ALTER TABLE email_tokens DROP COLUMN IF EXISTS previous_email`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,62 @@
+import type { Migration } from './types';
+import createCoreTables from './001_create_core_tables';
+import addUserId from './002_add_user_id';
+import addTaskCompletionNotes from './003_add_task_completion_notes';
+import addUserAdminAndGender from './004_add_user_admin_and_gender';
+import createThreads from './005_create_threads';
+import addEntryAiRewrittenText from './006_add_entry_ai_rewritten_text';
+import createFolders from './007_create_folders';
+import createSemanticTables from './008_create_semantic_tables';
+import createPersonSummaries from './009_create_person_summaries';
+import addFullTextSearch from './010_add_full_text_search';
+import addVectorEmbeddings from './011_add_vector_embeddings';
+import createEntryRevisions from './012_create_entry_revisions';
+import addSoftDelete from './013_add_soft_delete';
+import addEntryPaginationIndex from './014_add_entry_pagination_index';
+import addSessionMetadata from './015_add_session_metadata';
+import addTwoFactor from './016_add_two_factor';
+import addEmailTokens from './017_add_email_tokens';
+import addLoginThrottling from './018_add_login_throttling';
+import addUserRoles from './019_add_user_roles';
+import createAiUsage from './020_create_ai_usage';
+import addBookSharing from './021_add_book_sharing';
+import addTaskDelegation from './022_add_task_delegation';
+import addEntryStatusReason from './023_add_entry_status_reason';
+import createAiCalls from './024_create_ai_calls';
+import createAiCache from './025_create_ai_cache';
+import addLocaleAndPromptVersion from './026_add_locale_and_prompt_version';
+import addEmailRevertTokens from './027_add_email_revert_tokens';
+
+export type { Migration, MigrationSql, MigrationTxn } from './types';
+
+// Registered migrations, in version order. Append new ones at the end;
+// never renumber or edit a migration that has already shipped.
+export const migrations: Migration[] = [
+  createCoreTables,
+  addUserId,
+  addTaskCompletionNotes,
+  addUserAdminAndGender,
+  createThreads,
+  addEntryAiRewrittenText,
+  createFolders,
+  createSemanticTables,
+  createPersonSummaries,
+  addFullTextSearch,
+  addVectorEmbeddings,
+  createEntryRevisions,
+  addSoftDelete,
+  addEntryPaginationIndex,
+  addSessionMetadata,
+  addTwoFactor,
+  addEmailTokens,
+  addLoginThrottling,
+  addUserRoles,
+  createAiUsage,
+  addBookSharing,
+  addTaskDelegation,
+  addEntryStatusReason,
+  createAiCalls,
+  createAiCache,
+  addLocaleAndPromptVersion,
+  addEmailRevertTokens,
+];
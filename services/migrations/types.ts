@@ -0,0 +1,14 @@
+import type { NeonQueryFunction, NeonQueryFunctionInTransaction, NeonQueryInTransaction } from '@neondatabase/serverless';
+
+export type MigrationSql = NeonQueryFunction<false, false>;
+export type MigrationTxn = NeonQueryFunctionInTransaction<false, false>;
+
+// A numbered schema change. `up` and `down` return the statements to run;
+// the runner executes them in a single transaction together with the
+// schema_migrations bookkeeping, so a migration is applied completely or not at all.
+export interface Migration {
+  version: number;
+  name: string;
+  up(sql: MigrationTxn): NeonQueryInTransaction[];
+  down(sql: MigrationTxn): NeonQueryInTransaction[];
+}
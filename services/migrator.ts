@@ -0,0 +1,114 @@
+import { migrations } from './migrations';
+import type { Migration, MigrationSql } from './migrations';
+
+// Versioned schema migrations
+// Applied versions are recorded in schema_migrations; each migration runs in a
+// single transaction together with its bookkeeping row.
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null; // null = pending
+}
+
+async function ensureMigrationsTable(sql: MigrationSql): Promise<void> {
+  await sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+}
+
+async function getAppliedMigrations(sql: MigrationSql): Promise<Map<number, { name: string; appliedAt: string }>> {
+  await ensureMigrationsTable(sql);
+  const rows = await sql`SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC`;
+  return new Map(rows.map(row => [
+    Number(row.version),
+    { name: row.name as string, appliedAt: new Date(row.applied_at).toISOString() },
+  ]));
+}
+
+function sortedMigrations(): Migration[] {
+  return [...migrations].sort((a, b) => a.version - b.version);
+}
+
+// Lists every known migration plus any applied version the code doesn't know about
+export async function getMigrationStatus(sql: MigrationSql): Promise<MigrationStatus[]> {
+  const applied = await getAppliedMigrations(sql);
+  const status: MigrationStatus[] = sortedMigrations().map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version)?.appliedAt || null,
+  }));
+
+  applied.forEach((row, version) => {
+    if (!migrations.some(m => m.version === version)) {
+      status.push({ version, name: row.name, appliedAt: row.appliedAt });
+    }
+  });
+
+  return status.sort((a, b) => a.version - b.version);
+}
+
+// Applies pending migrations up to (and including) targetVersion; returns the ones applied
+export async function migrateUp(sql: MigrationSql, targetVersion?: number): Promise<Migration[]> {
+  const applied = await getAppliedMigrations(sql);
+  const pending = sortedMigrations().filter(m =>
+    !applied.has(m.version) && (targetVersion === undefined || m.version <= targetVersion)
+  );
+
+  const done: Migration[] = [];
+  for (const migration of pending) {
+    try {
+      await sql.transaction(txn => [
+        ...migration.up(txn),
+        txn`INSERT INTO schema_migrations (version, name) VALUES (${migration.version}, ${migration.name})`,
+      ]);
+      done.push(migration);
+    } catch (error) {
+      console.error(`Migration ${migration.version}_${migration.name} failed:`, error);
+      throw error;
+    }
+  }
+  return done;
+}
+
+// Reverts the last `steps` applied migrations, newest first; returns the ones reverted
+export async function migrateDown(sql: MigrationSql, steps: number = 1): Promise<Migration[]> {
+  const applied = await getAppliedMigrations(sql);
+  const toRevert = sortedMigrations()
+    .filter(m => applied.has(m.version))
+    .reverse()
+    .slice(0, Math.max(0, steps));
+
+  const done: Migration[] = [];
+  for (const migration of toRevert) {
+    try {
+      await sql.transaction(txn => [
+        ...migration.down(txn),
+        txn`DELETE FROM schema_migrations WHERE version = ${migration.version}`,
+      ]);
+      done.push(migration);
+    } catch (error) {
+      console.error(`Rollback of ${migration.version}_${migration.name} failed:`, error);
+      throw error;
+    }
+  }
+  return done;
+}
+
+let pendingRun: Promise<Migration[]> | null = null;
+
+// Brings the schema up to date once per process/page load.
+// initDatabase() and initAuthTables() share this so start-up costs one query when nothing is pending.
+export function runPendingMigrations(sql: MigrationSql): Promise<Migration[]> {
+  if (!pendingRun) {
+    pendingRun = migrateUp(sql).catch(error => {
+      pendingRun = null; // allow a retry on the next call
+      throw error;
+    });
+  }
+  return pendingRun;
+}
@@ -205,7 +205,7 @@ export class SmartNotificationScheduler {
   
   // Analyze tasks and generate smart notifications
   analyzeTasksForNotifications(tasks: Array<{
-    id?: string;
+    id: string;
     description: string;
     dueDate?: string;
     isDone: boolean;
@@ -221,7 +221,7 @@ export class SmartNotificationScheduler {
       const dueDate = new Date(task.dueDate);
       const hoursUntilDue = (dueDate.getTime() - now.getTime()) / (1000 * 60 * 60);
       
-      const notificationId = `task-${task.id || task.description.slice(0, 20)}`;
+      const notificationId = `task-${task.id}`;
       
       // Task is overdue
       if (hoursUntilDue < -this.config.taskOverdueGracePeriod) {
@@ -285,7 +285,7 @@ export class SmartNotificationScheduler {
   
   // Start automatic checking (call this when app loads)
   startAutoCheck(getTasksFn: () => Array<{
-    id?: string;
+    id: string;
     description: string;
     dueDate?: string;
     isDone: boolean;
@@ -0,0 +1,69 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash, type ScryptOptions } from 'crypto';
+
+// Password hashing (server only)
+// scrypt with a random per-user salt. The parameters are stored with the hash,
+// so they can be raised later without invalidating existing passwords:
+//
+//   scrypt$<N>$<r>$<p>$<salt, base64>$<hash, base64>
+//
+// Accounts created before this format have an unsalted SHA-256 hex digest;
+// those still verify and are reported as needing a rehash.
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Stored parameters are trusted only up to this cost
+const MAX_N = 2 ** 20;
+
+const LEGACY_SHA256 = /^[0-9a-f]{64}$/;
+
+// Hash of a password no account uses, with the current parameters. A sign-in
+// for an unknown email is checked against it, so it takes as long as one for a
+// real account and response times do not tell which emails are registered.
+export const DUMMY_PASSWORD_HASH =
+  'scrypt$32768$8$1$+rkZOPELGHenxWnALMbgfA==$dq6+eZzZ0JZ5GSEVTpsCGpzGwQyWVX1jjCib2RsBWjGd8F9DViDMBddrkdI5GJ0u4MRPEwHjz65x+zyt57iuZg==';
+
+export interface PasswordCheck {
+  valid: boolean;
+  needsRehash: boolean; // Valid, but stored in an older format or with older parameters
+}
+
+function deriveKey(password: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  const options: ScryptOptions = {
+    ...params,
+    // scrypt needs 128 * N * r bytes; Node's default limit is 32 MiB
+    maxmem: 256 * params.N * params.r,
+  };
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  if (LEGACY_SHA256.test(stored)) {
+    const digest = createHash('sha256').update(password, 'utf8').digest();
+    const valid = timingSafeEqual(digest, Buffer.from(stored, 'hex'));
+    return { valid, needsRehash: valid };
+  }
+
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  const params = { N: Number(n), r: Number(r), p: Number(p) };
+  if (scheme !== 'scrypt' || !salt || !hash || params.N > MAX_N
+    || !Object.values(params).every(v => Number.isInteger(v) && v > 0)) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), params);
+  const valid = key.length === expected.length && timingSafeEqual(key, expected);
+  const outdated = params.N !== SCRYPT_PARAMS.N || params.r !== SCRYPT_PARAMS.r || params.p !== SCRYPT_PARAMS.p;
+  return { valid, needsRehash: valid && outdated };
+}
@@ -0,0 +1,90 @@
+import type { Book, BookMemberRole } from '../types';
+
+// Roles and permissions
+// Shared by the server, which enforces them (authService.requirePermission,
+// and the storage backends for books), and the client, which only uses them
+// to decide what to show.
+//
+// - owner: everything, including managing admins and other owners
+// - admin: manages members and auditors, clears lockouts
+// - auditor: read-only access to users, usage and the security log
+// - member: their own data only
+
+export type UserRole = 'owner' | 'admin' | 'member' | 'auditor';
+
+export type Permission =
+  | 'users.view' // List users with their storage and AI usage
+  | 'users.manage' // Create users, change roles, deactivate and reactivate, reset 2FA
+  | 'security.view' // Failed logins, lockouts and the audit log
+  | 'security.manage'; // Clear lockouts
+
+export const USER_ROLES: readonly UserRole[] = ['owner', 'admin', 'member', 'auditor'];
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: ['users.view', 'users.manage', 'security.view', 'security.manage'],
+  admin: ['users.view', 'users.manage', 'security.view', 'security.manage'],
+  auditor: ['users.view', 'security.view'],
+  member: [],
+};
+
+// Managers act only on users ranked below them; owners act on everyone
+const ROLE_RANK: Record<UserRole, number> = {
+  owner: 3,
+  admin: 2,
+  auditor: 1,
+  member: 1,
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Whether a user with role `actor` can deactivate, reset or change the role of a user with role `target`
+export function canManageUser(actor: UserRole | undefined, target: UserRole): boolean {
+  if (!actor || !hasPermission(actor, 'users.manage')) return false;
+  return actor === 'owner' || ROLE_RANK[actor] > ROLE_RANK[target];
+}
+
+// Whether a user with role `actor` can give `role` to someone, on creation or later
+export function canAssignRole(actor: UserRole | undefined, role: UserRole): boolean {
+  return canManageUser(actor, role);
+}
+
+// Shared books
+// The owner of a book can do everything with it, including sharing it and
+// moving it to the trash. Members get one role:
+// - viewer: reads entries, threads, tasks and comments
+// - commenter: also comments on entries
+// - editor: also writes entries and threads and updates tasks
+export type BookAction = 'read' | 'comment' | 'write';
+
+export const BOOK_MEMBER_ROLES: readonly BookMemberRole[] = ['viewer', 'commenter', 'editor'];
+
+const BOOK_ROLE_ACTIONS: Record<BookMemberRole, readonly BookAction[]> = {
+  viewer: ['read'],
+  commenter: ['read', 'comment'],
+  editor: ['read', 'comment', 'write'],
+};
+
+export function isBookMemberRole(value: unknown): value is BookMemberRole {
+  return typeof value === 'string' && (BOOK_MEMBER_ROLES as readonly string[]).includes(value);
+}
+
+// Member roles allowed to do `action`; the owner always is
+export function bookRolesAllowing(action: BookAction): BookMemberRole[] {
+  return BOOK_MEMBER_ROLES.filter(role => BOOK_ROLE_ACTIONS[role].includes(action));
+}
+
+// `book.role` is only set on books shared with the user; their own books have none
+export function canOnBook(book: Pick<Book, 'role'> | undefined, action: BookAction): boolean {
+  if (!book) return false;
+  return !book.role || BOOK_ROLE_ACTIONS[book.role].includes(action);
+}
+
+export function isSharedBook(book: Pick<Book, 'role' | 'memberCount'> | undefined): boolean {
+  return !!book && (!!book.role || (book.memberCount || 0) > 0);
+}
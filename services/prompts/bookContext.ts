@@ -0,0 +1,62 @@
+import type { PromptTemplate } from './types';
+
+// Keeps a book's description up to date after each new note (updateBookContext)
+export interface BookContextVars {
+  bookName: string;
+  currentContext?: string;
+  newEntrySummary: string;
+}
+
+const template: PromptTemplate<BookContextVars> = {
+  name: 'bookContext',
+  version: 1,
+  variables: ['bookName', 'currentContext', 'newEntrySummary'],
+  text: {
+    es: {
+      system: 'Eres un asistente que genera descripciones concisas y profesionales.',
+      user: `Actúa como un "Gestor de Conocimiento" inteligente y silencioso.
+Tienes una libreta llamada "{{bookName}}".
+
+Contexto/Descripción actual de la libreta: "{{#currentContext}}{{currentContext}}{{/currentContext}}{{^currentContext}}Sin descripción aún.{{/currentContext}}"
+
+El usuario acaba de agregar esta nueva nota: "{{newEntrySummary}}"
+
+TU TAREA:
+Redacta una NUEVA descripción corta (máximo 2 frases) para esta libreta que integre el contexto anterior con la nueva información.
+El objetivo es mantener actualizada la definición de qué trata este proyecto o temática.
+
+REGLAS ESTRICTAS:
+1. Devuelve SOLAMENTE el texto de la descripción actualizada.
+2. NO incluyas introducciones como "Aquí tienes", "Claro", "Descripción actualizada:", etc.
+3. NO uses comillas al principio ni al final.
+4. Estilo: Jovial, profesional, directo. En Español.
+
+Ejemplo de salida CORRECTA:
+Seguimiento del Proyecto Alpha, enfocado actualmente en la fase de presupuestos y contratación.`,
+    },
+    en: {
+      system: 'You are an assistant that writes concise and professional descriptions.',
+      user: `Act as a smart and quiet "Knowledge Manager".
+You have a notebook called "{{bookName}}".
+
+Current context/description of the notebook: "{{#currentContext}}{{currentContext}}{{/currentContext}}{{^currentContext}}No description yet.{{/currentContext}}"
+
+The user just added this new note: "{{newEntrySummary}}"
+
+YOUR TASK:
+Write a NEW short description (2 sentences at most) for this notebook that combines the previous context with the new information.
+The goal is to keep the definition of what this project or topic is about up to date.
+
+STRICT RULES:
+1. Return ONLY the text of the updated description.
+2. DO NOT include introductions such as "Here you go", "Sure", "Updated description:", etc.
+3. DO NOT put quotes at the beginning or the end.
+4. Style: cheerful, professional, direct. In English.
+
+Example of a CORRECT output:
+Follow-up of Project Alpha, currently focused on the budgeting and hiring phase.`,
+    },
+  },
+};
+
+export default template;
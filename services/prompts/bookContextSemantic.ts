@@ -0,0 +1,52 @@
+import type { PromptTemplate } from './types';
+
+// Book description from the new note and the most similar ones (updateBookContextWithEmbeddings)
+export interface BookContextSemanticVars {
+  currentContext?: string;
+  newEntrySummary: string;
+  similar: Array<{ summary: string; similarity: number }>; // Similarity in percent
+}
+
+const template: PromptTemplate<BookContextSemanticVars> = {
+  name: 'bookContextSemantic',
+  version: 1,
+  variables: ['currentContext', 'newEntrySummary', 'similar'],
+  text: {
+    es: {
+      system: 'Eres un asistente que genera descripciones concisas y profesionales.',
+      user: `Actualiza la descripción de esta libreta considerando:
+
+Contexto actual: "{{#currentContext}}{{currentContext}}{{/currentContext}}{{^currentContext}}Sin descripción aún.{{/currentContext}}"
+
+Nueva entrada: "{{newEntrySummary}}"
+
+{{#similar.length}}
+Notas relacionadas (por similitud semántica):
+{{/similar.length}}
+{{#similar}}
+- {{summary}} (similitud: {{similarity}}%)
+{{/similar}}
+
+Genera una descripción actualizada en español (máximo 2 frases) que integre el contexto anterior con la nueva información{{#similar.length}} y las notas relacionadas{{/similar.length}}.`,
+    },
+    en: {
+      system: 'You are an assistant that writes concise and professional descriptions.',
+      user: `Update the description of this notebook taking into account:
+
+Current context: "{{#currentContext}}{{currentContext}}{{/currentContext}}{{^currentContext}}No description yet.{{/currentContext}}"
+
+New entry: "{{newEntrySummary}}"
+
+{{#similar.length}}
+Related notes (by semantic similarity):
+{{/similar.length}}
+{{#similar}}
+- {{summary}} (similarity: {{similarity}}%)
+{{/similar}}
+
+Write an updated description in English (2 sentences at most) that combines the previous context with the new information{{#similar.length}} and the related notes{{/similar.length}}.`,
+    },
+  },
+};
+
+export default template;
@@ -0,0 +1,32 @@
+import type { PromptTemplate } from './types';
+
+// Decisions and agreements in a text (extractDecisions)
+export interface DecisionsVars {
+  text: string;
+}
+
+const template: PromptTemplate<DecisionsVars> = {
+  name: 'decisions',
+  version: 1,
+  variables: ['text'],
+  text: {
+    es: {
+      system: 'Eres un asistente que extrae decisiones y acuerdos de textos.',
+      user: `Extrae las decisiones tomadas o acuerdos de este texto:
+
+"{{text}}"
+
+Responde con un JSON object con un array "decisions" de decisiones.`,
+    },
+    en: {
+      system: 'You are an assistant that extracts decisions and agreements from texts.',
+      user: `Extract the decisions made or agreements reached in this text:
+
+"{{text}}"
+
+Answer with a JSON object with a "decisions" array of decisions, written in English.`,
+    },
+  },
+};
+
+export default template;
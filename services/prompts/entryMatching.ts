@@ -0,0 +1,154 @@
+import type { PromptTemplate } from './types';
+
+// Whether a text completes an existing task or is a new entry (findRelatedEntry)
+export interface EntryMatchingVars {
+  text: string;
+  entries: Array<{ id: string; type: string; summary: string; bookId: string }>;
+  tasks: Array<{ id: string; description: string; assignee?: string; dueDate?: string }>;
+}
+
+const template: PromptTemplate<EntryMatchingVars> = {
+  name: 'entryMatching',
+  version: 1,
+  variables: ['text', 'entries', 'tasks'],
+  text: {
+    es: {
+      system: 'Eres un asistente que detecta si un texto actualiza contenido existente o es nuevo.',
+      user: `Analiza si el siguiente texto del usuario es una ACTUALIZACIÓN/COMPLETACIÓN de una tarea existente o una NUEVA entrada.
+
+TEXTO DEL USUARIO: "{{text}}"
+
+ENTRADAS EXISTENTES:
+{{#entries}}
+ID: {{id}} | Tipo: {{type}} | Resumen: {{summary}} | Libreta: {{bookId}}
+{{/entries}}
+{{^entries}}
+No hay entradas
+{{/entries}}
+
+TAREAS PENDIENTES:
+{{#tasks}}
+ID: {{id}} | Descripción: {{description}}{{#assignee}} | Responsable: {{assignee}}{{/assignee}}{{#dueDate}} | Fecha: {{dueDate}}{{/dueDate}}
+{{/tasks}}
+{{^tasks}}
+No hay tareas pendientes
+{{/tasks}}
+
+INSTRUCCIONES CRÍTICAS - SÉ MUY RESTRICTIVO:
+
+1. SOLO marca shouldUpdate=true si el texto contiene EXPLÍCITAMENTE palabras que indican COMPLETACIÓN:
+   - "está listo", "está terminado", "está hecho", "está completado", "está finalizado"
+   - "ya terminé", "ya completé", "ya hice", "ya envié", "ya mandé", "ya revisé"
+   - "listo", "terminado", "hecho", "completado" (al inicio o final de la oración)
+   - "done", "finished", "ready"
+
+2. NUNCA marques shouldUpdate=true si el texto es:
+   - Una NUEVA información, observación o nota
+   - Una NUEVA tarea o pendiente
+   - Una actualización de estado que NO indica completación
+   - Un comentario general sobre un tema
+   - Una pregunta o duda
+   - Información descriptiva sin indicadores de completación
+
+3. EJEMPLOS DE NUEVAS ENTRADAS (shouldUpdate=false):
+   - "El panel BI tiene un problema" → NUEVA NOTA
+   - "Revisar el documento mañana" → NUEVA TAREA
+   - "Observación: el dashboard muestra datos incorrectos" → NUEVA NOTA
+   - "Nota: Juan comentó sobre el proyecto" → NUEVA NOTA
+   - "Comentario sobre la reunión: fue productiva" → NUEVA NOTA
+   - "Panel de ventas: observación sobre métricas" → NUEVA NOTA (es información, no completación)
+
+4. EJEMPLOS DE ACTUALIZACIONES (shouldUpdate=true):
+   - "Ya terminé el modelo BI de Andina" → ACTUALIZACIÓN
+   - "Listo el documento para Juan" → ACTUALIZACIÓN
+   - "Completé la revisión de KPIs" → ACTUALIZACIÓN
+   - "Ya envié el correo a María" → ACTUALIZACIÓN
+
+5. Si el texto incluye observaciones junto con la completación, extráelas:
+   - "Listo el modelo BI, nota: necesita revisión final" → completionNotes: "necesita revisión final"
+
+6. REGLA DE ORO: En caso de duda, shouldUpdate=false. Es mejor crear una nueva entrada que completar una tarea incorrectamente.
+
+Responde en JSON:
+{
+  "shouldUpdate": true/false,
+  "entryToUpdate": {"id": "...", "summary": "...", "type": "..."} o null,
+  "taskToUpdate": {"taskId": "ID exacto de la tarea pendiente"} o null,
+  "confidence": 0-100,
+  "reason": "explicación breve",
+  "completionNotes": "observaciones extraídas del texto" o null
+}`,
+    },
+    en: {
+      system: 'You are an assistant that detects whether a text updates existing content or is new.',
+      user: `Analyze whether the following text from the user is an UPDATE/COMPLETION of an existing task or a NEW entry.
+
+USER'S TEXT: "{{text}}"
+
+EXISTING ENTRIES:
+{{#entries}}
+ID: {{id}} | Type: {{type}} | Summary: {{summary}} | Notebook: {{bookId}}
+{{/entries}}
+{{^entries}}
+There are no entries
+{{/entries}}
+
+PENDING TASKS:
+{{#tasks}}
+ID: {{id}} | Description: {{description}}{{#assignee}} | Assignee: {{assignee}}{{/assignee}}{{#dueDate}} | Date: {{dueDate}}{{/dueDate}}
+{{/tasks}}
+{{^tasks}}
+There are no pending tasks
+{{/tasks}}
+
+CRITICAL INSTRUCTIONS - BE VERY RESTRICTIVE:
+
+1. ONLY set shouldUpdate=true if the text EXPLICITLY contains words that point to COMPLETION:
+   - "is ready", "is finished", "is done", "is completed"
+   - "I finished", "I completed", "I did", "I sent", "I reviewed", "already sent"
+   - "ready", "finished", "done", "completed" (at the start or end of the sentence)
+   - "listo", "terminado", "hecho", "completado"
+
+2. NEVER set shouldUpdate=true if the text is:
+   - NEW information, a remark or a note
+   - A NEW task or pending item
+   - A status update that does NOT point to completion
+   - A general comment about a topic
+   - A question or doubt
+   - Descriptive information without completion signals
+
+3. EXAMPLES OF NEW ENTRIES (shouldUpdate=false):
+   - "The BI dashboard has a problem" → NEW NOTE
+   - "Review the document tomorrow" → NEW TASK
+   - "Remark: the dashboard shows wrong data" → NEW NOTE
+   - "Note: Juan commented on the project" → NEW NOTE
+   - "Comment about the meeting: it was productive" → NEW NOTE
+   - "Sales dashboard: remark about metrics" → NEW NOTE (it is information, not completion)
+
+4. EXAMPLES OF UPDATES (shouldUpdate=true):
+   - "I finished the Andina BI model" → UPDATE
+   - "The document for Juan is ready" → UPDATE
+   - "I completed the KPI review" → UPDATE
+   - "I already sent the email to María" → UPDATE
+
+5. If the text includes remarks together with the completion, extract them:
+   - "The BI model is ready, note: it needs a final review" → completionNotes: "it needs a final review"
+
+6. GOLDEN RULE: when in doubt, shouldUpdate=false. It is better to create a new entry than to complete a task by mistake.
+
+Write the explanation and the remarks in English.
+
+Answer in JSON:
+{
+  "shouldUpdate": true/false,
+  "entryToUpdate": {"id": "...", "summary": "...", "type": "..."} or null,
+  "taskToUpdate": {"taskId": "exact ID of the pending task"} or null,
+  "confidence": 0-100,
+  "reason": "short explanation",
+  "completionNotes": "remarks extracted from the text" or null
+}`,
+    },
+  },
+};
+
+export default template;
@@ -0,0 +1,84 @@
+import type { ChatMessage } from '../llmProvider';
+import { DEFAULT_LOCALE, type Locale } from '../i18n';
+import { getAiLocale } from '../usageService';
+import { renderText } from './render';
+import type { PromptTemplate, RenderedPrompt } from './types';
+import bookContext from './bookContext';
+import bookContextSemantic from './bookContextSemantic';
+import decisions from './decisions';
+import documentAnalysis from './documentAnalysis';
+import entryAnalysis from './entryAnalysis';
+import entryMatching from './entryMatching';
+import jsonRepair from './jsonRepair';
+import multiTopicAnalysis from './multiTopicAnalysis';
+import notebook from './notebook';
+import personSummary from './personSummary';
+import query from './query';
+import querySemantic from './querySemantic';
+import rewrite from './rewrite';
+import routing from './routing';
+import schemaIssues from './schemaIssues';
+import summary from './summary';
+import tasks from './tasks';
+import threadRelations from './threadRelations';
+import topics from './topics';
+
+export type { PromptTemplate, RenderedPrompt } from './types';
+export { PromptTemplateError, templateVariables } from './render';
+
+// Prompt registry (server only)
+// Every prompt the AI services send, by name. To tune one, edit its file and
+// bump its version; both languages must keep the same sections.
+export const prompts = {
+  bookContext,
+  bookContextSemantic,
+  decisions,
+  documentAnalysis,
+  entryAnalysis,
+  entryMatching,
+  jsonRepair,
+  multiTopicAnalysis,
+  notebook,
+  personSummary,
+  query,
+  querySemantic,
+  rewrite,
+  routing,
+  schemaIssues,
+  summary,
+  tasks,
+  threadRelations,
+  topics,
+};
+
+export type PromptName = keyof typeof prompts;
+
+// Fills in a template in the language of the user the request runs for
+// (Spanish outside a request), or in the one given
+export function renderPrompt<V extends object, S extends string>(
+  template: PromptTemplate<V, S>,
+  vars: V,
+  locale: Locale = getAiLocale()
+): RenderedPrompt<S> {
+  const resolved = template.text[locale] ? locale : DEFAULT_LOCALE;
+  const context = { template: template.name, locale: resolved, declared: new Set<string>(template.variables) };
+  const sections = Object.fromEntries(
+    Object.entries<string>(template.text[resolved]).map(([section, text]) => [section, renderText(text, vars, context)])
+  ) as Record<S, string>;
+
+  return {
+    id: `${template.name}@${template.version}/${resolved}`,
+    version: template.version,
+    locale: resolved,
+    sections,
+  };
+}
+
+// The system and user messages of a rendered prompt
+export function promptMessages(prompt: RenderedPrompt<'system' | 'user'>): ChatMessage[] {
+  const { system, user } = prompt.sections;
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ];
+}
@@ -0,0 +1,34 @@
+import type { PromptTemplate } from './types';
+
+// Sent back to the model with a JSON answer that failed its schema (chatJson),
+// as many times as it takes up to the repair limit. The issues come worded by
+// the schemaIssues prompt.
+export interface JsonRepairVars {
+  issues: string[];
+}
+
+const template: PromptTemplate<JsonRepairVars, 'user'> = {
+  name: 'jsonRepair',
+  version: 1,
+  variables: ['issues'],
+  text: {
+    es: {
+      user: `Tu respuesta no cumple el formato pedido:
+{{#issues}}
+- {{.}}
+{{/issues}}
+
+Corrígela y responde solo con el JSON completo.`,
+    },
+    en: {
+      user: `Your answer does not follow the requested format:
+{{#issues}}
+- {{.}}
+{{/issues}}
+
+Fix it and reply with the complete JSON only.`,
+    },
+  },
+};
+
+export default template;
@@ -0,0 +1,57 @@
+import type { PromptTemplate } from './types';
+
+// Book a text belongs to (classifyNotebook)
+export interface NotebookVars {
+  text: string;
+  books: Array<{ name: string; description?: string }>;
+}
+
+const template: PromptTemplate<NotebookVars> = {
+  name: 'notebook',
+  version: 1,
+  variables: ['text', 'books'],
+  text: {
+    es: {
+      system: 'Eres un asistente que asigna textos a libretas correctas.',
+      user: `Asigna este texto a la libreta correcta:
+
+"{{text}}"
+
+Libretas existentes:
+{{#books}}
+- "{{name}}"{{#description}} ({{description}}){{/description}}
+{{/books}}
+{{^books}}
+No hay libretas existentes
+{{/books}}
+
+Responde con JSON:
+{
+  "targetBookName": "nombre exacto de libreta existente o nuevo nombre",
+  "isNewBook": true/false
+}`,
+    },
+    en: {
+      system: 'You are an assistant that assigns texts to the right notebooks.',
+      user: `Assign this text to the right notebook:
+
+"{{text}}"
+
+Existing notebooks:
+{{#books}}
+- "{{name}}"{{#description}} ({{description}}){{/description}}
+{{/books}}
+{{^books}}
+There are no notebooks yet
+{{/books}}
+
+Answer with JSON:
+{
+  "targetBookName": "exact name of an existing notebook or a new name",
+  "isNewBook": true/false
+}`,
+    },
+  },
+};
+
+export default template;
@@ -0,0 +1,88 @@
+import type { PromptTemplate } from './types';
+
+// One-sentence summary of the interactions with a person (generatePersonInteractionSummary)
+export interface PersonSummaryVars {
+  personName: string;
+  entryCount: number;
+  entries: Array<{
+    type: string;
+    summary: string;
+    date: Date;
+    hasTasks: boolean;
+    doneTasks: number;
+    pendingTasks: number;
+  }>;
+  completedTasks: Array<{ description: string; completionNotes?: string; date: Date }>;
+}
+
+const template: PromptTemplate<PersonSummaryVars> = {
+  name: 'personSummary',
+  version: 1,
+  variables: ['personName', 'entryCount', 'entries', 'completedTasks'],
+  text: {
+    es: {
+      system: 'Eres un asistente que genera resúmenes ejecutivos de interacciones con personas de forma clara y útil.',
+      user: `Eres un asistente que genera resúmenes cortos y concisos de interacciones con personas.
+
+PERSONA: {{personName}}
+
+INTERACCIONES REGISTRADAS:
+{{#entries}}
+- [{{type}}] {{summary}} ({{date}}){{#hasTasks}} | Tareas: {{doneTasks}} completadas, {{pendingTasks}} pendientes{{/hasTasks}}
+{{/entries}}
+
+{{#completedTasks.length}}
+TAREAS COMPLETADAS RECIENTES:
+{{/completedTasks.length}}
+{{#completedTasks}}
+- {{description}} | {{completionNotes}} ({{date}})
+{{/completedTasks}}
+
+Genera UNA SOLA FRASE CORTA en ESPAÑOL que resuma las interacciones con {{personName}}. Debe incluir:
+- Contexto principal de las interacciones
+- Último tema cerrado o completado (si hay tareas completadas)
+- Estado actual o tema más reciente
+
+Formato: Una sola frase, máximo 30 palabras. Directo y conciso.
+Ejemplos:
+- "{{personName}}: Último tema cerrado fue el sueldo de los analistas. Trabajamos principalmente en revisión de sueldos y ajustes salariales."
+- "{{personName}}: Colaboración en paneles BI. Último tema completado: corrección del panel de supervisores."
+- "{{personName}}: {{entryCount}} interacciones sobre [tema principal]. Estado actual: [breve estado]."
+
+IMPORTANTE: Solo una frase, sin puntos adicionales, sin viñetas, sin párrafos.`,
+    },
+    en: {
+      system: 'You are an assistant that writes clear and useful executive summaries of the interactions with people.',
+      user: `You are an assistant that writes short and concise summaries of the interactions with people.
+
+PERSON: {{personName}}
+
+RECORDED INTERACTIONS:
+{{#entries}}
+- [{{type}}] {{summary}} ({{date}}){{#hasTasks}} | Tasks: {{doneTasks}} completed, {{pendingTasks}} pending{{/hasTasks}}
+{{/entries}}
+
+{{#completedTasks.length}}
+RECENTLY COMPLETED TASKS:
+{{/completedTasks.length}}
+{{#completedTasks}}
+- {{description}} | {{completionNotes}} ({{date}})
+{{/completedTasks}}
+
+Write ONE SINGLE SHORT SENTENCE in ENGLISH that summarizes the interactions with {{personName}}. It must include:
+- The main context of the interactions
+- The last topic closed or completed (if there are completed tasks)
+- The current state or most recent topic
+
+Format: one single sentence, 30 words at most. Direct and concise.
+Examples:
+- "{{personName}}: The last topic closed was the analysts' salaries. We mainly work on salary reviews and pay adjustments."
+- "{{personName}}: Collaboration on BI dashboards. Last topic completed: fixing the supervisors dashboard."
+- "{{personName}}: {{entryCount}} interactions about [main topic]. Current state: [short state]."
+
+IMPORTANT: only one sentence, no extra periods, no bullet points, no paragraphs.`,
+    },
+  },
+};
+
+export default template;
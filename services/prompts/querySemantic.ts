@@ -0,0 +1,46 @@
+import type { PromptTemplate } from './types';
+
+// Improves a text-search answer with semantically related notes (queryBitacoraWithSemantic)
+export interface QuerySemanticVars {
+  query: string;
+  answer: string;
+  similar: Array<{ type: string; summary: string; bookName: string; similarity: number }>; // Similarity in percent
+}
+
+const template: PromptTemplate<QuerySemanticVars> = {
+  name: 'querySemantic',
+  version: 1,
+  variables: ['query', 'answer', 'similar'],
+  text: {
+    es: {
+      system: 'Eres un asistente que combina información de búsqueda de texto y búsqueda semántica.',
+      user: `Pregunta: "{{query}}"
+
+Respuesta basada en búsqueda de texto:
+{{answer}}
+
+Notas relacionadas semánticamente:
+{{#similar}}
+- [{{type}}] {{summary}} ({{bookName}}, similitud: {{similarity}}%)
+{{/similar}}
+
+Mejora la respuesta incorporando información de las notas relacionadas semánticamente si es relevante. Responde en español.`,
+    },
+    en: {
+      system: 'You are an assistant that combines information from text search and semantic search.',
+      user: `Question: "{{query}}"
+
+Answer based on text search:
+{{answer}}
+
+Semantically related notes:
+{{#similar}}
+- [{{type}}] {{summary}} ({{bookName}}, similarity: {{similarity}}%)
+{{/similar}}
+
+Improve the answer by adding information from the semantically related notes when relevant. Answer in English.`,
+    },
+  },
+};
+
+export default template;
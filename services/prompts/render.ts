@@ -0,0 +1,144 @@
+import { LOCALE_TAGS, type Locale } from '../i18n';
+
+// Placeholder rendering for prompt templates (see types.ts for the syntax)
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+type PromptNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'block' | 'inverted'; name: string; children: PromptNode[] };
+
+const TAG = /\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/g;
+const STANDALONE_TAG = /^[ \t]*(\{\{\s*[#^/]\s*[\w.]+\s*\}\})[ \t]*\r?\n/gm;
+
+const parsed = new Map<string, PromptNode[]>();
+
+export function parseTemplate(text: string): PromptNode[] {
+  const cached = parsed.get(text);
+  if (cached) return cached;
+
+  const source = text.replace(STANDALONE_TAG, '$1');
+  const root: PromptNode[] = [];
+  const open: Array<{ name: string; children: PromptNode[] }> = [{ name: '', children: root }];
+  let position = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const children = open[open.length - 1].children;
+    if (match.index > position) {
+      children.push({ kind: 'text', text: source.slice(position, match.index) });
+    }
+    position = match.index + match[0].length;
+
+    const [, sigil, name] = match;
+    if (sigil === '/') {
+      if (open.length === 1 || open[open.length - 1].name !== name) {
+        throw new PromptTemplateError(`Unexpected {{/${name}}}`);
+      }
+      open.pop();
+    } else if (sigil) {
+      const block: PromptNode = { kind: sigil === '#' ? 'block' : 'inverted', name, children: [] };
+      children.push(block);
+      open.push(block);
+    } else {
+      children.push({ kind: 'variable', name });
+    }
+  }
+
+  if (open.length > 1) {
+    throw new PromptTemplateError(`Unclosed {{#${open[open.length - 1].name}}}`);
+  }
+  if (position < source.length) {
+    root.push({ kind: 'text', text: source.slice(position) });
+  }
+  parsed.set(text, root);
+  return root;
+}
+
+// Top-level names a text uses: its placeholders and blocks outside any block,
+// and the blocks themselves. Names inside a block may be fields of its items.
+export function templateVariables(text: string): string[] {
+  const names = new Set<string>();
+  for (const node of parseTemplate(text)) {
+    if (node.kind !== 'text' && node.name !== '.') {
+      names.add(node.name.split('.')[0]);
+    }
+  }
+  return [...names];
+}
+
+interface RenderContext {
+  template: string;
+  locale: Locale;
+  declared: ReadonlySet<string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function lookup(name: string, scopes: unknown[], context: RenderContext): unknown {
+  if (name === '.') return scopes[scopes.length - 1];
+
+  const [head, ...path] = name.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (isRecord(scope) && head in scope) {
+      return path.reduce<unknown>((value, key) => (typeof value === 'object' && value !== null ? (value as any)[key] : undefined), scope[head]);
+    }
+  }
+  // Declared variables and the fields of list items are optional; anything
+  // else is a typo in the template
+  if (!context.declared.has(head) && !scopes.slice(1).some(isRecord)) {
+    throw new PromptTemplateError(`Unknown variable "${name}" in prompt ${context.template}`);
+  }
+  return undefined;
+}
+
+function isSet(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}
+
+function formatValue(value: unknown, locale: Locale): string {
+  if (value === undefined || value === null || value === false) return '';
+  if (value instanceof Date) return value.toLocaleDateString(LOCALE_TAGS[locale]);
+  if (Array.isArray(value)) return value.map(item => formatValue(item, locale)).join(', ');
+  return String(value);
+}
+
+function renderNodes(nodes: PromptNode[], scopes: unknown[], context: RenderContext): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.text;
+    } else if (node.kind === 'variable') {
+      output += formatValue(lookup(node.name, scopes, context), context.locale);
+    } else {
+      const value = lookup(node.name, scopes, context);
+      if (node.kind === 'inverted') {
+        if (!isSet(value)) output += renderNodes(node.children, scopes, context);
+      } else if (Array.isArray(value)) {
+        for (const item of value) {
+          output += renderNodes(node.children, [...scopes, item], context);
+        }
+      } else if (isSet(value)) {
+        output += renderNodes(node.children, [...scopes, value], context);
+      }
+    }
+  }
+  return output;
+}
+
+export function renderText(
+  text: string,
+  vars: object,
+  context: RenderContext
+): string {
+  return renderNodes(parseTemplate(text), [vars], context).trim();
+}
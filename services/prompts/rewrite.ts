@@ -0,0 +1,51 @@
+import type { PromptTemplate } from './types';
+
+// Rewrites a note in a clearer, more orderly way (rewriteTextWithAI)
+export interface RewriteVars {
+  text: string;
+}
+
+const template: PromptTemplate<RewriteVars> = {
+  name: 'rewrite',
+  version: 1,
+  variables: ['text'],
+  text: {
+    es: {
+      system: 'Eres un asistente que reescribe textos de forma clara y estructurada.',
+      user: `Reescribe el siguiente texto de forma más ordenada, clara y estructurada, manteniendo toda la información importante.
+
+TEXTO ORIGINAL:
+"{{text}}"
+
+INSTRUCCIONES:
+1. Organiza la información de forma lógica
+2. Mejora la redacción sin cambiar el significado
+3. Estructura con párrafos claros
+4. Mantén todos los detalles importantes
+5. Usa un tono profesional pero natural
+6. Si el texto ya está bien estructurado, haz mejoras menores
+
+Responde SOLO con el texto reescrito, sin explicaciones adicionales, sin comillas, sin prefijos como "Texto reescrito:" o similares.`,
+    },
+    en: {
+      system: 'You are an assistant that rewrites texts in a clear and structured way.',
+      user: `Rewrite the following text in a more orderly, clear and structured way, keeping all the important information.
+
+ORIGINAL TEXT:
+"{{text}}"
+
+INSTRUCTIONS:
+1. Organize the information logically
+2. Improve the wording without changing the meaning
+3. Structure it in clear paragraphs
+4. Keep every important detail
+5. Use a professional but natural tone
+6. If the text is already well structured, make minor improvements
+7. Write in English, translating the text if it is in another language
+
+Answer ONLY with the rewritten text, without additional explanations, without quotes, without prefixes such as "Rewritten text:" or similar.`,
+    },
+  },
+};
+
+export default template;
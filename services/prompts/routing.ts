@@ -0,0 +1,56 @@
+import type { PromptTemplate } from './types';
+
+// Analysis steps a text needs (routeAnalysisStepsAI)
+export interface RoutingVars {
+  text: string;
+  isShort: boolean;
+  hasAttachment: boolean;
+}
+
+const template: PromptTemplate<RoutingVars> = {
+  name: 'routing',
+  version: 1,
+  variables: ['text', 'isShort', 'hasAttachment'],
+  text: {
+    es: {
+      system: 'Eres un router inteligente que determina qué pasos de análisis necesita un texto. Responde solo con JSON.',
+      user: `Analiza este texto y determina qué pasos de análisis necesita:
+
+Texto ({{#isShort}}corto{{/isShort}}{{^isShort}}largo{{/isShort}}):
+"{{text}}"
+
+Tiene adjunto: {{#hasAttachment}}Sí{{/hasAttachment}}{{^hasAttachment}}No{{/hasAttachment}}
+
+Pasos disponibles:
+- preprocess: Limpieza y normalización básica
+- classify: Clasificar tipo de nota y asignar libreta
+- extract: Extraer tareas, decisiones, entidades
+- analyze: Análisis profundo de temas y relaciones
+- summarize: Generar resumen
+
+Responde SOLO con un JSON array de los pasos necesarios en orden, por ejemplo:
+["preprocess", "classify", "extract", "summarize"]`,
+    },
+    en: {
+      system: 'You are a smart router that decides which analysis steps a text needs. Answer with JSON only.',
+      user: `Analyze this text and decide which analysis steps it needs:
+
+Text ({{#isShort}}short{{/isShort}}{{^isShort}}long{{/isShort}}):
+"{{text}}"
+
+Has an attachment: {{#hasAttachment}}Yes{{/hasAttachment}}{{^hasAttachment}}No{{/hasAttachment}}
+
+Available steps:
+- preprocess: Basic cleanup and normalization
+- classify: Classify the note type and assign a notebook
+- extract: Extract tasks, decisions, entities
+- analyze: In-depth analysis of topics and relations
+- summarize: Write a summary
+
+Answer ONLY with a JSON array of the steps needed, in order, for example:
+["preprocess", "classify", "extract", "summarize"]`,
+    },
+  },
+};
+
+export default template;
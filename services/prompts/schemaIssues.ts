@@ -0,0 +1,47 @@
+import type { SchemaIssueKind } from '../aiSchemas';
+import type { PromptTemplate } from './types';
+
+// How each kind of schema issue in an AI answer is worded (see aiSchemas.ts).
+// An issue reads "<field>: <message>"; `response` names the answer as a whole.
+// The issues go back to the model in the jsonRepair prompt, and are the
+// reason kept on the entry when the answer still cannot be read.
+export interface SchemaIssuesVars {
+  value?: string;
+  allowed?: string;
+}
+
+const template: PromptTemplate<SchemaIssuesVars, SchemaIssueKind | 'response'> = {
+  name: 'schemaIssues',
+  version: 1,
+  variables: ['value', 'allowed'],
+  text: {
+    es: {
+      response: 'respuesta',
+      required: 'es obligatorio',
+      notText: 'debe ser un texto',
+      notOneOf: '"{{value}}" no es válido, debe ser {{allowed}}',
+      notNumber: 'debe ser un número',
+      notBoolean: 'debe ser true o false',
+      notDate: '"{{value}}" no es una fecha válida (AAAA-MM-DD)',
+      notList: 'debe ser una lista',
+      notObject: 'debe ser un objeto JSON',
+      notJson: 'no es JSON válido',
+      empty: 'está vacía',
+    },
+    en: {
+      response: 'response',
+      required: 'is required',
+      notText: 'must be a text',
+      notOneOf: '"{{value}}" is not valid, must be {{allowed}}',
+      notNumber: 'must be a number',
+      notBoolean: 'must be true or false',
+      notDate: '"{{value}}" is not a valid date (YYYY-MM-DD)',
+      notList: 'must be a list',
+      notObject: 'must be a JSON object',
+      notJson: 'is not valid JSON',
+      empty: 'is empty',
+    },
+  },
+};
+
+export default template;
@@ -0,0 +1,58 @@
+import type { PromptTemplate } from './types';
+
+// Executive summary of a day, week or month of entries (generateSummary)
+// Exactly one of day, week and month is set: the period summarized
+export interface SummaryVars {
+  day: boolean;
+  week: boolean;
+  month: boolean;
+  entries: Array<{ type: string; summary: string; date: Date }>;
+}
+
+const template: PromptTemplate<SummaryVars> = {
+  name: 'summary',
+  version: 1,
+  variables: ['day', 'week', 'month', 'entries'],
+  text: {
+    es: {
+      system: 'Eres un asistente que genera resúmenes ejecutivos claros y accionables.',
+      user: `Eres un asistente que genera resúmenes ejecutivos inteligentes.
+
+El usuario quiere un resumen de su {{#day}}día{{/day}}{{#week}}semana{{/week}}{{#month}}mes{{/month}} de trabajo. Aquí están las entradas:
+
+{{#entries}}
+- [{{type}}] {{summary}} ({{date}})
+{{/entries}}
+
+Genera un resumen ejecutivo en ESPAÑOL que:
+1. Destaca lo más importante que pasó.
+2. Identifica decisiones clave tomadas.
+3. Lista pendientes críticos.
+4. Señala patrones o temas recurrentes si los hay.
+5. Es conciso pero completo (máximo 300 palabras).
+
+Formato: Texto fluido y profesional, sin bullets excesivos.`,
+    },
+    en: {
+      system: 'You are an assistant that writes clear and actionable executive summaries.',
+      user: `You are an assistant that writes smart executive summaries.
+
+The user wants a summary of their working {{#day}}day{{/day}}{{#week}}week{{/week}}{{#month}}month{{/month}}. Here are the entries:
+
+{{#entries}}
+- [{{type}}] {{summary}} ({{date}})
+{{/entries}}
+
+Write an executive summary in ENGLISH that:
+1. Highlights the most important things that happened.
+2. Identifies the key decisions made.
+3. Lists critical pending items.
+4. Points out patterns or recurring topics, if any.
+5. Is concise but complete (300 words at most).
+
+Format: fluent and professional text, without excessive bullet points.`,
+    },
+  },
+};
+
+export default template;
@@ -0,0 +1,40 @@
+import type { PromptTemplate } from './types';
+
+// Pending tasks mentioned in a text (extractTasks)
+export interface TasksVars {
+  text: string;
+}
+
+const template: PromptTemplate<TasksVars> = {
+  name: 'tasks',
+  version: 1,
+  variables: ['text'],
+  text: {
+    es: {
+      system: 'Eres un asistente que extrae tareas pendientes de textos.',
+      user: `Extrae las tareas pendientes de este texto:
+
+"{{text}}"
+
+Responde con un JSON object con un array "tasks" de tareas. Cada tarea debe tener:
+- description: descripción de la tarea
+- assignee: responsable si se menciona
+- dueDate: fecha en formato YYYY-MM-DD si se menciona
+- priority: LOW, MEDIUM o HIGH`,
+    },
+    en: {
+      system: 'You are an assistant that extracts pending tasks from texts.',
+      user: `Extract the pending tasks from this text:
+
+"{{text}}"
+
+Answer with a JSON object with a "tasks" array of tasks. Each task must have:
+- description: description of the task, in English
+- assignee: assignee if mentioned
+- dueDate: date in YYYY-MM-DD format if mentioned
+- priority: LOW, MEDIUM or HIGH`,
+    },
+  },
+};
+
+export default template;
@@ -0,0 +1,154 @@
+import type { PromptTemplate } from './types';
+
+// Finds the thread or entries a new text continues (detectThreadRelations)
+export interface ThreadRelationsVars {
+  text: string;
+  threads: Array<{ id: string; title: string; bookId: string; entries: string[] }>;
+  entries: Array<{ id: string; type: string; summary: string; bookId: string; threadId?: string }>;
+}
+
+const template: PromptTemplate<ThreadRelationsVars> = {
+  name: 'threadRelations',
+  version: 1,
+  variables: ['text', 'threads', 'entries'],
+  text: {
+    es: {
+      system: 'Eres un asistente que detecta relaciones semánticas entre entradas de una bitácora.',
+      user: `Eres un asistente experto que detecta relaciones semánticas entre entradas de una bitácora.
+
+Analiza si el nuevo texto está relacionado con entradas existentes o hilos de conversación.
+
+HILOS EXISTENTES (con sus entradas):
+{{#threads}}
+ID: {{id}} | Título: "{{title}}" | Libreta: {{bookId}}
+{{#entries.length}}
+  Entradas en este hilo:
+{{/entries.length}}
+{{#entries}}
+  - {{.}}
+{{/entries}}
+
+{{/threads}}
+{{^threads}}
+No hay hilos existentes
+{{/threads}}
+
+ENTRADAS EXISTENTES:
+{{#entries}}
+ID: {{id}} | Tipo: {{type}} | Resumen: "{{summary}}" | Libreta: {{bookId}}{{#threadId}} | Hilo: {{threadId}}{{/threadId}}
+{{/entries}}
+{{^entries}}
+No hay entradas existentes
+{{/entries}}
+
+TEXTO NUEVO:
+"{{text}}"
+
+INSTRUCCIONES CRÍTICAS:
+1. Analiza PROFUNDAMENTE si el texto nuevo está relacionado con algún hilo o entrada existente
+2. Considera relaciones por:
+   - Mismo tema/proyecto (ej: "sueldos de analistas", "revisión de sueldos", "ajuste salarial" = mismo tema)
+   - Mismas personas mencionadas (ej: "Claudia", "Caro" = mismas personas)
+   - Mismo contexto de trabajo (ej: "revisión", "ajuste", "evaluación" = contexto relacionado)
+   - Continuación de conversación o actualización de tema existente
+3. PRIORIZA hilos existentes sobre entradas individuales
+4. Si encuentras un hilo cuyo título o contenido coincide con el tema del texto nuevo, DEBES sugerirlo
+5. Si hay múltiples entradas relacionadas pero NO hay hilo, sugiere crear uno nuevo
+6. Si no hay relación clara, retorna hasRelation: false
+
+EJEMPLOS DE RELACIONES VÁLIDAS:
+- Texto: "Claudia revisará el sueldo de Caro" + Hilo: "Revisión de sueldos de analistas" → RELACIONADO (mismo tema: sueldos)
+- Texto: "Ajuste salarial para Caro" + Entrada: "Revisar sueldos de analistas" → RELACIONADO (mismo tema)
+- Texto: "Reunión con Claudia sobre sueldos" + Hilo: "Revisión de sueldos" → RELACIONADO (mismo tema y persona)
+
+REGLAS DE CONFIANZA:
+- Confianza > 80%: Relación muy clara (mismo tema exacto, mismas personas)
+- Confianza 70-80%: Relación probable (tema similar, contexto relacionado)
+- Confianza < 70%: No hay relación clara
+
+IMPORTANTE: Si el texto menciona temas que ya están en un hilo existente (aunque con palabras ligeramente diferentes), DEBES detectarlo como relacionado.
+
+Escribe el título sugerido y la explicación en ESPAÑOL.
+
+Responde en JSON:
+{
+  "hasRelation": true/false,
+  "relatedThreadId": "id del hilo" o null,
+  "relatedEntryIds": ["id1", "id2"] o [],
+  "confidence": 0-100,
+  "suggestedThreadTitle": "título sugerido" o null,
+  "reason": "explicación breve de por qué está relacionado"
+}`,
+    },
+    en: {
+      system: 'You are an assistant that detects semantic relations between the entries of a logbook.',
+      user: `You are an expert assistant that detects semantic relations between the entries of a logbook.
+
+Analyze whether the new text is related to existing entries or conversation threads.
+
+EXISTING THREADS (with their entries):
+{{#threads}}
+ID: {{id}} | Title: "{{title}}" | Notebook: {{bookId}}
+{{#entries.length}}
+  Entries in this thread:
+{{/entries.length}}
+{{#entries}}
+  - {{.}}
+{{/entries}}
+
+{{/threads}}
+{{^threads}}
+There are no threads yet
+{{/threads}}
+
+EXISTING ENTRIES:
+{{#entries}}
+ID: {{id}} | Type: {{type}} | Summary: "{{summary}}" | Notebook: {{bookId}}{{#threadId}} | Thread: {{threadId}}{{/threadId}}
+{{/entries}}
+{{^entries}}
+There are no entries yet
+{{/entries}}
+
+NEW TEXT:
+"{{text}}"
+
+CRITICAL INSTRUCTIONS:
+1. Analyze THOROUGHLY whether the new text is related to any existing thread or entry
+2. Consider relations by:
+   - Same topic/project (e.g. "analyst salaries", "salary review", "pay adjustment" = same topic)
+   - Same people mentioned (e.g. "Claudia", "Caro" = same people)
+   - Same work context (e.g. "review", "adjustment", "evaluation" = related context)
+   - Continuation of a conversation or update of an existing topic
+3. PREFER existing threads over individual entries
+4. If you find a thread whose title or content matches the topic of the new text, you MUST suggest it
+5. If there are several related entries but NO thread, suggest creating a new one
+6. If there is no clear relation, return hasRelation: false
+
+EXAMPLES OF VALID RELATIONS:
+- Text: "Claudia will review Caro's salary" + Thread: "Analyst salary review" → RELATED (same topic: salaries)
+- Text: "Pay adjustment for Caro" + Entry: "Review analyst salaries" → RELATED (same topic)
+- Text: "Meeting with Claudia about salaries" + Thread: "Salary review" → RELATED (same topic and person)
+
+CONFIDENCE RULES:
+- Confidence > 80%: Very clear relation (exact same topic, same people)
+- Confidence 70-80%: Likely relation (similar topic, related context)
+- Confidence < 70%: No clear relation
+
+IMPORTANT: if the text mentions topics that are already in an existing thread (even with slightly different words), you MUST detect it as related.
+
+Write the suggested title and the explanation in ENGLISH.
+
+Answer in JSON:
+{
+  "hasRelation": true/false,
+  "relatedThreadId": "thread id" or null,
+  "relatedEntryIds": ["id1", "id2"] or [],
+  "confidence": 0-100,
+  "suggestedThreadTitle": "suggested title" or null,
+  "reason": "short explanation of why it is related"
+}`,
+    },
+  },
+};
+
+export default template;
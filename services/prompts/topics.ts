@@ -0,0 +1,43 @@
+import type { PromptTemplate } from './types';
+
+// Main topics of a text (analyzeTopics)
+export interface TopicsVars {
+  text: string;
+  books: Array<{ name: string; description?: string }>;
+}
+
+const template: PromptTemplate<TopicsVars> = {
+  name: 'topics',
+  version: 2,
+  variables: ['text', 'books'],
+  text: {
+    es: {
+      system: 'Eres un asistente que extrae temas principales de textos.',
+      user: `Extrae los temas principales de este texto:
+
+"{{text}}"
+
+Libretas existentes:
+{{#books}}
+- "{{name}}"{{#description}} ({{description}}){{/description}}
+{{/books}}
+
+Responde con un JSON object con un array "topics" de temas principales, máximo 5 temas.`,
+    },
+    en: {
+      system: 'You are an assistant that extracts the main topics of texts.',
+      user: `Extract the main topics of this text:
+
+"{{text}}"
+
+Existing notebooks:
+{{#books}}
+- "{{name}}"{{#description}} ({{description}}){{/description}}
+{{/books}}
+
+Answer with a JSON object with a "topics" array of main topics, 5 topics at most, written in English.`,
+    },
+  },
+};
+
+export default template;
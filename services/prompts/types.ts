@@ -0,0 +1,27 @@
+import type { Locale } from '../i18n';
+
+// A prompt sent to the model, kept as data instead of inline strings.
+// Each language has its own text, split in sections (system and user
+// messages, and whatever extra messages the caller adds, like attachments).
+// Texts take {{variable}} placeholders and blocks:
+// - {{#name}}…{{/name}} shows its content when the variable is set, once per
+//   item when it is a list (the item's fields are then available inside);
+// - {{^name}}…{{/name}} shows its content when the variable is empty.
+// A block tag alone on its line takes the whole line, so lists are written
+// one item per line. Dates are written in the prompt's language.
+export interface PromptTemplate<V extends object = object, S extends string = 'system' | 'user'> {
+  name: string;
+  // Bump on any change to the text: the version is recorded with what the
+  // prompt produced and is part of the AI cache key
+  version: number;
+  // Variables the texts may use; any other name is an error when rendering
+  variables: ReadonlyArray<keyof V & string>;
+  text: Record<Locale, Record<S, string>>;
+}
+
+export interface RenderedPrompt<S extends string = 'system' | 'user'> {
+  id: string; // name@version/locale, e.g. "multiTopicAnalysis@1/en"
+  version: number;
+  locale: Locale;
+  sections: Record<S, string>;
+}
@@ -0,0 +1,240 @@
+import type {
+  DbFolder,
+  DbBook,
+  DbBookMember,
+  DbEntry,
+  DbEntryComment,
+  DbCapture,
+  DbEntryPage,
+  DbEntryPageOptions,
+  DbEntryStats,
+  DbEntryStatsOptions,
+  DbThread,
+  DbTask,
+  DbAssignedTask,
+  DbEntity,
+  DbEmbedding,
+  DbEntryRelation,
+  DbEntryRevision,
+  DbAiCacheEntry,
+  DbAiCacheWrite,
+  DbSearchFilters,
+  DbSearchResult,
+  DbSimilarEntry,
+  DbSimilarityOptions,
+  DbTrashItem,
+} from './db';
+import type { SearchCriteria, EntrySnapshot, TrashItemType } from '../types';
+import { getStorage, type StorageBackend } from './storage';
+
+// Tenant-scoped repository
+// Bound to one user when it is created: no method takes a user id, so code
+// holding a repository can only read or write that user's rows and those of
+// the books shared with them. dataService
+// and the AI services go through here instead of the storage backend.
+
+export interface UserRepository {
+  readonly userId: string;
+
+  // Books
+  getAllBooks(): Promise<DbBook[]>;
+  getBookById(id: string): Promise<DbBook | null>;
+  createBook(id: string, name: string, description?: string, folderId?: string): Promise<DbBook>;
+  updateBook(id: string, updates: { name?: string; description?: string; folderId?: string }): Promise<void>;
+  deleteBook(id: string): Promise<void>;
+
+  // Book members
+  getBookMembers(bookId: string): Promise<DbBookMember[]>;
+  addBookMember(bookId: string, memberId: string, role: string): Promise<DbBookMember>;
+  removeBookMember(bookId: string, memberId: string): Promise<void>;
+
+  // Folders
+  getAllFolders(): Promise<DbFolder[]>;
+  getFolderById(id: string): Promise<DbFolder | null>;
+  createFolder(id: string, name: string, color?: string): Promise<DbFolder>;
+  updateFolder(id: string, updates: { name?: string; color?: string }): Promise<void>;
+  deleteFolder(id: string): Promise<void>;
+
+  // Entries
+  getAllEntries(limit?: number): Promise<DbEntry[]>;
+  getEntriesPage(options?: DbEntryPageOptions): Promise<DbEntryPage>;
+  getEntryStats(options?: DbEntryStatsOptions): Promise<DbEntryStats>;
+  getEntriesByBookId(bookId: string): Promise<DbEntry[]>;
+  getEntriesByThreadId(threadId: string): Promise<DbEntry[]>;
+  getEntryById(id: string): Promise<DbEntry | null>;
+  createEntry(
+    id: string,
+    originalText: string,
+    bookId: string,
+    type: string,
+    summary: string,
+    status?: string,
+    threadId?: string | null,
+    aiRewrittenText?: string | null
+  ): Promise<DbEntry>;
+  updateEntry(id: string, updates: { summary?: string; status?: string; statusReason?: string | null; type?: string; threadId?: string | null; aiRewrittenText?: string | null }): Promise<void>;
+  deleteEntry(id: string): Promise<void>;
+  saveCapture(capture: DbCapture): Promise<void>;
+
+  // Tasks
+  getTasksByEntryId(entryId: string): Promise<DbTask[]>;
+  getTasksByEntryIds(entryIds: string[]): Promise<DbTask[]>;
+  getAllTasks(filters?: { isDone?: boolean; bookId?: string }): Promise<DbTask[]>;
+  getWritableTask(id: string): Promise<DbTask | null>;
+  createTask(id: string, entryId: string, description: string, assignee?: string, dueDate?: string, priority?: string): Promise<DbTask>;
+  updateTask(id: string, updates: { isDone?: boolean; description?: string; assignee?: string; dueDate?: string; priority?: string; completionNotes?: string }): Promise<void>;
+  deleteTask(id: string): Promise<void>;
+  delegateTask(id: string, assigneeUserId: string | null, assignee?: string): Promise<DbTask>;
+  getAssignedTasks(): Promise<DbAssignedTask[]>;
+
+  // Entities
+  getEntitiesByEntryId(entryId: string): Promise<DbEntity[]>;
+  getEntitiesByEntryIds(entryIds: string[]): Promise<DbEntity[]>;
+  createEntity(id: string, entryId: string, name: string, type: string): Promise<DbEntity>;
+  deleteEntitiesByEntryId(entryId: string): Promise<void>;
+
+  // Threads
+  getAllThreads(): Promise<DbThread[]>;
+  getThreadById(id: string): Promise<DbThread | null>;
+  getThreadsByBookId(bookId: string): Promise<DbThread[]>;
+  createThread(id: string, title: string, bookId: string): Promise<DbThread>;
+  updateThread(id: string, updates: { title?: string }): Promise<void>;
+  deleteThread(id: string): Promise<void>;
+
+  // Search
+  searchEntries(criteria: SearchCriteria, filters?: DbSearchFilters): Promise<DbSearchResult[]>;
+
+  // Embeddings
+  createEntryEmbedding(id: string, entryId: string, embedding: number[], model?: string): Promise<DbEmbedding>;
+  getEmbeddingByEntryId(entryId: string): Promise<DbEmbedding | null>;
+  getEmbeddingsByEntryIds(entryIds: string[]): Promise<DbEmbedding[]>;
+  deleteEmbeddingByEntryId(entryId: string): Promise<void>;
+  findSimilarEntries(embedding: number[], options?: DbSimilarityOptions): Promise<DbSimilarEntry[]>;
+
+  // Relations
+  createEntryRelation(id: string, sourceId: string, targetId: string, relationStrength: number): Promise<DbEntryRelation>;
+  getRelationsByEntryId(entryId: string): Promise<DbEntryRelation[]>;
+  getRelatedEntries(entryId: string, limit?: number, minStrength?: number): Promise<Array<{ entry: DbEntry; relation: DbEntryRelation }>>;
+  updateRelationStrength(id: string, strength: number): Promise<void>;
+  deleteRelation(id: string): Promise<void>;
+
+  // Entry revisions
+  createEntryRevision(id: string, entryId: string, snapshot: EntrySnapshot, authorId?: string, authorName?: string, reason?: string): Promise<DbEntryRevision>;
+  getEntryRevisions(entryId: string): Promise<DbEntryRevision[]>;
+  getLatestEntryRevision(entryId: string): Promise<DbEntryRevision | null>;
+
+  // Entry comments
+  getEntryComments(entryId: string): Promise<DbEntryComment[]>;
+  createEntryComment(id: string, entryId: string, text: string): Promise<DbEntryComment>;
+  deleteEntryComment(id: string): Promise<void>;
+
+  // Trash
+  getTrash(): Promise<DbTrashItem[]>;
+  restoreFromTrash(type: TrashItemType, id: string): Promise<void>;
+  purgeFromTrash(type: TrashItemType, id: string): Promise<void>;
+  purgeTrash(deletedBefore?: Date): Promise<void>;
+
+  // AI result cache
+  getAiCacheEntries(keys: string[]): Promise<DbAiCacheEntry[]>;
+  saveAiCacheEntries(entries: DbAiCacheWrite[]): Promise<void>;
+  deleteAiCacheEntries(namespace: string, subject?: string): Promise<number>;
+}
+
+export function createUserRepository(storage: StorageBackend, userId: string): UserRepository {
+  if (!userId) {
+    throw new Error('User ID is required');
+  }
+
+  return {
+    userId,
+
+    getAllBooks: () => storage.getAllBooks(userId),
+    getBookById: (id) => storage.getBookById(id, userId),
+    createBook: (id, name, description, folderId) => storage.createBook(id, userId, name, description, folderId),
+    updateBook: (id, updates) => storage.updateBook(id, userId, updates),
+    deleteBook: (id) => storage.deleteBook(id, userId),
+
+    getBookMembers: (bookId) => storage.getBookMembers(bookId, userId),
+    addBookMember: (bookId, memberId, role) => storage.addBookMember(bookId, userId, memberId, role),
+    removeBookMember: (bookId, memberId) => storage.removeBookMember(bookId, userId, memberId),
+
+    getAllFolders: () => storage.getAllFolders(userId),
+    getFolderById: (id) => storage.getFolderById(id, userId),
+    createFolder: (id, name, color) => storage.createFolder(id, userId, name, color),
+    updateFolder: (id, updates) => storage.updateFolder(id, userId, updates),
+    deleteFolder: (id) => storage.deleteFolder(id, userId),
+
+    getAllEntries: (limit) => storage.getAllEntries(userId, limit),
+    getEntriesPage: (options) => storage.getEntriesPage(userId, options),
+    getEntryStats: (options) => storage.getEntryStats(userId, options),
+    getEntriesByBookId: (bookId) => storage.getEntriesByBookId(bookId, userId),
+    getEntriesByThreadId: (threadId) => storage.getEntriesByThreadId(threadId, userId),
+    getEntryById: (id) => storage.getEntryById(id, userId),
+    createEntry: (id, originalText, bookId, type, summary, status, threadId, aiRewrittenText) =>
+      storage.createEntry(id, userId, originalText, bookId, type, summary, status, threadId, aiRewrittenText),
+    updateEntry: (id, updates) => storage.updateEntry(id, userId, updates),
+    deleteEntry: (id) => storage.deleteEntry(id, userId),
+    saveCapture: (capture) => storage.saveCapture(userId, capture),
+
+    getTasksByEntryId: (entryId) => storage.getTasksByEntryId(entryId, userId),
+    getTasksByEntryIds: (entryIds) => storage.getTasksByEntryIds(entryIds, userId),
+    getAllTasks: (filters) => storage.getAllTasks(userId, filters),
+    getWritableTask: (id) => storage.getWritableTask(id, userId),
+    createTask: (id, entryId, description, assignee, dueDate, priority) =>
+      storage.createTask(id, userId, entryId, description, assignee, dueDate, priority),
+    updateTask: (id, updates) => storage.updateTask(id, userId, updates),
+    deleteTask: (id) => storage.deleteTask(id, userId),
+    delegateTask: (id, assigneeUserId, assignee) => storage.delegateTask(id, userId, assigneeUserId, assignee),
+    getAssignedTasks: () => storage.getAssignedTasks(userId),
+
+    getEntitiesByEntryId: (entryId) => storage.getEntitiesByEntryId(entryId, userId),
+    getEntitiesByEntryIds: (entryIds) => storage.getEntitiesByEntryIds(entryIds, userId),
+    createEntity: (id, entryId, name, type) => storage.createEntity(id, userId, entryId, name, type),
+    deleteEntitiesByEntryId: (entryId) => storage.deleteEntitiesByEntryId(entryId, userId),
+
+    getAllThreads: () => storage.getAllThreads(userId),
+    getThreadById: (id) => storage.getThreadById(id, userId),
+    getThreadsByBookId: (bookId) => storage.getThreadsByBookId(bookId, userId),
+    createThread: (id, title, bookId) => storage.createThread(id, userId, title, bookId),
+    updateThread: (id, updates) => storage.updateThread(id, userId, updates),
+    deleteThread: (id) => storage.deleteThread(id, userId),
+
+    searchEntries: (criteria, filters) => storage.searchEntries(userId, criteria, filters),
+
+    createEntryEmbedding: (id, entryId, embedding, model) => storage.createEntryEmbedding(id, userId, entryId, embedding, model),
+    getEmbeddingByEntryId: (entryId) => storage.getEmbeddingByEntryId(entryId, userId),
+    getEmbeddingsByEntryIds: (entryIds) => storage.getEmbeddingsByEntryIds(entryIds, userId),
+    deleteEmbeddingByEntryId: (entryId) => storage.deleteEmbeddingByEntryId(entryId, userId),
+    findSimilarEntries: (embedding, options) => storage.findSimilarEntries(userId, embedding, options),
+
+    createEntryRelation: (id, sourceId, targetId, relationStrength) =>
+      storage.createEntryRelation(id, userId, sourceId, targetId, relationStrength),
+    getRelationsByEntryId: (entryId) => storage.getRelationsByEntryId(entryId, userId),
+    getRelatedEntries: (entryId, limit, minStrength) => storage.getRelatedEntries(entryId, userId, limit, minStrength),
+    updateRelationStrength: (id, strength) => storage.updateRelationStrength(id, userId, strength),
+    deleteRelation: (id) => storage.deleteRelation(id, userId),
+
+    createEntryRevision: (id, entryId, snapshot, authorId, authorName, reason) =>
+      storage.createEntryRevision(id, userId, entryId, snapshot, authorId, authorName, reason),
+    getEntryRevisions: (entryId) => storage.getEntryRevisions(entryId, userId),
+    getLatestEntryRevision: (entryId) => storage.getLatestEntryRevision(entryId, userId),
+
+    getEntryComments: (entryId) => storage.getEntryComments(entryId, userId),
+    createEntryComment: (id, entryId, text) => storage.createEntryComment(id, userId, entryId, text),
+    deleteEntryComment: (id) => storage.deleteEntryComment(id, userId),
+
+    getTrash: () => storage.getTrash(userId),
+    restoreFromTrash: (type, id) => storage.restoreFromTrash(type, id, userId),
+    purgeFromTrash: (type, id) => storage.purgeFromTrash(type, id, userId),
+    purgeTrash: (deletedBefore) => storage.purgeTrash(userId, deletedBefore),
+
+    getAiCacheEntries: (keys) => storage.getAiCacheEntries(userId, keys),
+    saveAiCacheEntries: (entries) => storage.saveAiCacheEntries(userId, entries),
+    deleteAiCacheEntries: (namespace, subject) => storage.deleteAiCacheEntries(userId, namespace, subject),
+  };
+}
+
+// Repository for the authenticated user on the configured backend
+export async function getRepository(userId: string): Promise<UserRepository> {
+  return createUserRepository(await getStorage(), userId);
+}
@@ -0,0 +1,177 @@
+import { Entity, EntrySnapshot, TaskItem } from '../types';
+
+// Field-level diff between two entry revisions
+// Values are returned raw (type codes, thread IDs); the UI decides how to label them.
+
+export type RevisionField =
+  | 'summary'
+  | 'aiRewrittenText'
+  | 'type'
+  | 'status'
+  | 'thread'
+  | 'task'
+  | 'taskDescription'
+  | 'taskAssignee'
+  | 'taskDueDate'
+  | 'taskPriority'
+  | 'taskDone'
+  | 'taskCompletionNotes'
+  | 'entity';
+
+export interface WordChange {
+  text: string;
+  op: 'same' | 'added' | 'removed';
+}
+
+export interface RevisionChange {
+  field: RevisionField;
+  kind: 'added' | 'removed' | 'changed';
+  subject?: string; // Task description or entity name the change belongs to
+  before?: string;
+  after?: string;
+  words?: WordChange[]; // Word-level diff for long text fields
+}
+
+// Above this many word comparisons the text is shown as a whole replacement
+const MAX_WORD_DIFF_CELLS = 250_000;
+
+export function diffWords(before: string, after: string): WordChange[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    return [
+      ...(before ? [{ text: before, op: 'removed' as const }] : []),
+      ...(after ? [{ text: after, op: 'added' as const }] : []),
+    ];
+  }
+
+  // Longest common subsequence over tokens (words and whitespace)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: WordChange[] = [];
+  const push = (text: string, op: WordChange['op']) => {
+    const last = changes[changes.length - 1];
+    if (last && last.op === op) {
+      last.text += text;
+    } else {
+      changes.push({ text, op });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return changes;
+}
+
+function diffValue(
+  changes: RevisionChange[],
+  field: RevisionField,
+  before: string | undefined,
+  after: string | undefined,
+  subject?: string
+) {
+  if ((before || '') === (after || '')) return;
+  changes.push({
+    field,
+    kind: !before ? 'added' : !after ? 'removed' : 'changed',
+    subject,
+    before,
+    after,
+  });
+}
+
+function diffText(changes: RevisionChange[], field: RevisionField, before?: string, after?: string) {
+  if ((before || '') === (after || '')) return;
+  changes.push({
+    field,
+    kind: !before ? 'added' : !after ? 'removed' : 'changed',
+    before,
+    after,
+    words: diffWords(before || '', after || ''),
+  });
+}
+
+// Pairs tasks by ID, falling back to the description for tasks saved without one
+function matchTasks(before: TaskItem[], after: TaskItem[]): Array<[TaskItem | undefined, TaskItem | undefined]> {
+  const remaining = [...before];
+  const pairs: Array<[TaskItem | undefined, TaskItem | undefined]> = [];
+
+  after.forEach(task => {
+    let index = task.id ? remaining.findIndex(t => t.id === task.id) : -1;
+    if (index === -1) {
+      index = remaining.findIndex(t => !t.id && t.description === task.description);
+    }
+    pairs.push([index === -1 ? undefined : remaining.splice(index, 1)[0], task]);
+  });
+  remaining.forEach(task => pairs.push([task, undefined]));
+  return pairs;
+}
+
+function entityKey(entity: Entity): string {
+  return `${entity.type}:${entity.name.trim().toLowerCase()}`;
+}
+
+export function diffEntrySnapshots(before: EntrySnapshot | null, after: EntrySnapshot): RevisionChange[] {
+  if (!before) return [];
+
+  const changes: RevisionChange[] = [];
+  diffText(changes, 'summary', before.summary, after.summary);
+  diffText(changes, 'aiRewrittenText', before.aiRewrittenText, after.aiRewrittenText);
+  diffValue(changes, 'type', before.type, after.type);
+  diffValue(changes, 'status', before.status, after.status);
+  diffValue(changes, 'thread', before.threadId, after.threadId);
+
+  matchTasks(before.tasks, after.tasks).forEach(([oldTask, newTask]) => {
+    if (!oldTask && newTask) {
+      changes.push({ field: 'task', kind: 'added', subject: newTask.description, after: newTask.description });
+      return;
+    }
+    if (oldTask && !newTask) {
+      changes.push({ field: 'task', kind: 'removed', subject: oldTask.description, before: oldTask.description });
+      return;
+    }
+    if (!oldTask || !newTask) return;
+
+    const subject = newTask.description;
+    diffValue(changes, 'taskDescription', oldTask.description, newTask.description, oldTask.description);
+    diffValue(changes, 'taskDone', oldTask.isDone ? 'true' : 'false', newTask.isDone ? 'true' : 'false', subject);
+    diffValue(changes, 'taskAssignee', oldTask.assignee, newTask.assignee, subject);
+    diffValue(changes, 'taskDueDate', oldTask.dueDate, newTask.dueDate, subject);
+    diffValue(changes, 'taskPriority', oldTask.priority, newTask.priority, subject);
+    diffValue(changes, 'taskCompletionNotes', oldTask.completionNotes, newTask.completionNotes, subject);
+  });
+
+  const oldEntities = new Map(before.entities.map(e => [entityKey(e), e]));
+  const newEntities = new Map(after.entities.map(e => [entityKey(e), e]));
+  newEntities.forEach((entity, key) => {
+    if (!oldEntities.has(key)) {
+      changes.push({ field: 'entity', kind: 'added', subject: entity.name, after: entity.name });
+    }
+  });
+  oldEntities.forEach((entity, key) => {
+    if (!newEntities.has(key)) {
+      changes.push({ field: 'entity', kind: 'removed', subject: entity.name, before: entity.name });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,376 @@
+import { Entry, NoteType, SearchCriteria, TaskItem } from '../types';
+
+// Search query language
+// libreta:"Proyecto Andina" tipo:DECISION @Juan desde:2026-09-01 hasta:2026-09-30
+// pendiente:si "frase exacta" -excluir
+// Any term can be negated with a leading "-". Unknown operators are treated as text.
+
+export type SearchNode =
+  | { kind: 'text'; value: string; negated: boolean }
+  | { kind: 'phrase'; value: string; negated: boolean }
+  | { kind: 'book'; value: string; negated: boolean }
+  | { kind: 'type'; value: NoteType; negated: boolean }
+  | { kind: 'person'; value: string; negated: boolean }
+  | { kind: 'dateFrom'; value: string }
+  | { kind: 'dateTo'; value: string }
+  | { kind: 'pending'; value: boolean };
+
+export interface SearchQueryAst {
+  nodes: SearchNode[];
+  errors: string[]; // Human-readable problems (invalid dates, unknown types...)
+}
+
+type Operator = 'book' | 'type' | 'person' | 'dateFrom' | 'dateTo' | 'pending';
+
+const OPERATORS: Record<string, Operator> = {
+  libreta: 'book',
+  book: 'book',
+  tipo: 'type',
+  type: 'type',
+  persona: 'person',
+  desde: 'dateFrom',
+  from: 'dateFrom',
+  hasta: 'dateTo',
+  to: 'dateTo',
+  pendiente: 'pending',
+  pending: 'pending',
+};
+
+// Operator names offered by autocomplete (Spanish spelling only)
+const SUGGESTED_OPERATORS = ['libreta:', 'tipo:', 'desde:', 'hasta:', 'pendiente:'];
+
+// Accepts enum values and the Spanish names used across the UI
+const TYPE_ALIASES: Record<string, NoteType> = {
+  note: NoteType.NOTE,
+  nota: NoteType.NOTE,
+  task: NoteType.TASK,
+  tarea: NoteType.TASK,
+  mision: NoteType.TASK,
+  decision: NoteType.DECISION,
+  acuerdo: NoteType.DECISION,
+  idea: NoteType.IDEA,
+  risk: NoteType.RISK,
+  riesgo: NoteType.RISK,
+};
+
+const YES = ['si', 'yes', 'true', '1'];
+const NO = ['no', 'false', '0'];
+
+// Lowercase, accent-free form used for all comparisons
+export function foldSearchText(value: string): string {
+  return value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+interface Token {
+  raw: string;
+  negated: boolean;
+  key?: string;   // Operator name for key:value tokens, '@' for mentions
+  value: string;
+  quoted: boolean;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  // -? then key:"value" | key:value | @"value" | @value | "phrase" | word
+  const pattern = /(-?)(?:([\p{L}]+):(?:"([^"]*)"?|(\S*))|@(?:"([^"]*)"?|(\S+))|"([^"]*)"?|(\S+))/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    const [raw, minus, key, keyQuoted, keyBare, mentionQuoted, mentionBare, phrase, word] = match;
+    const negated = minus === '-';
+    if (key !== undefined) {
+      tokens.push({ raw, negated, key: key.toLowerCase(), value: keyQuoted ?? keyBare ?? '', quoted: keyQuoted !== undefined });
+    } else if (mentionQuoted !== undefined || mentionBare !== undefined) {
+      tokens.push({ raw, negated, key: '@', value: mentionQuoted ?? mentionBare, quoted: mentionQuoted !== undefined });
+    } else if (phrase !== undefined) {
+      tokens.push({ raw, negated, value: phrase, quoted: true });
+    } else {
+      tokens.push({ raw, negated, value: word, quoted: false });
+    }
+  }
+  return tokens;
+}
+
+function parseDate(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  // Date rolls impossible days over (2026-02-30 becomes March 2), so the parts must survive the round trip
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return valid ? value : null;
+}
+
+export function parseSearchQuery(input: string): SearchQueryAst {
+  const nodes: SearchNode[] = [];
+  const errors: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const value = token.value.trim();
+    const operator = token.key === '@' ? 'person' : token.key ? OPERATORS[token.key] : undefined;
+
+    if (token.key && !operator) {
+      // Unknown operator, e.g. "hora:10" - keep it as plain text
+      nodes.push({ kind: 'text', value: token.raw.replace(/^-/, ''), negated: token.negated });
+      continue;
+    }
+    if (!value) continue;
+
+    switch (operator) {
+      case 'book':
+        nodes.push({ kind: 'book', value, negated: token.negated });
+        break;
+      case 'person':
+        nodes.push({ kind: 'person', value, negated: token.negated });
+        break;
+      case 'type': {
+        const type = (Object.values(NoteType) as string[]).includes(value.toUpperCase())
+          ? value.toUpperCase() as NoteType
+          : TYPE_ALIASES[foldSearchText(value)];
+        if (type) {
+          nodes.push({ kind: 'type', value: type, negated: token.negated });
+        } else {
+          errors.push(`Tipo desconocido: "${value}"`);
+        }
+        break;
+      }
+      case 'dateFrom':
+      case 'dateTo': {
+        const date = parseDate(value);
+        if (date) {
+          nodes.push({ kind: operator, value: date });
+        } else {
+          errors.push(`Fecha inválida: "${value}" (usa AAAA-MM-DD)`);
+        }
+        break;
+      }
+      case 'pending': {
+        const folded = foldSearchText(value);
+        if (YES.includes(folded) || NO.includes(folded)) {
+          nodes.push({ kind: 'pending', value: YES.includes(folded) !== token.negated });
+        } else {
+          errors.push(`Valor inválido para pendiente: "${value}" (usa si o no)`);
+        }
+        break;
+      }
+      default:
+        nodes.push({ kind: token.quoted ? 'phrase' : 'text', value, negated: token.negated });
+    }
+  }
+
+  return { nodes, errors };
+}
+
+// Flattens the AST into the criteria understood by the storage backends
+export function toSearchCriteria(ast: SearchQueryAst): SearchCriteria {
+  const criteria: SearchCriteria = {
+    terms: [],
+    phrases: [],
+    excludeTerms: [],
+    excludePhrases: [],
+    bookNames: [],
+    excludeBookNames: [],
+    types: [],
+    excludeTypes: [],
+    people: [],
+    excludePeople: [],
+  };
+
+  for (const node of ast.nodes) {
+    switch (node.kind) {
+      case 'text':
+        (node.negated ? criteria.excludeTerms : criteria.terms).push(node.value);
+        break;
+      case 'phrase':
+        (node.negated ? criteria.excludePhrases : criteria.phrases).push(node.value);
+        break;
+      case 'book':
+        (node.negated ? criteria.excludeBookNames : criteria.bookNames).push(node.value);
+        break;
+      case 'type':
+        (node.negated ? criteria.excludeTypes : criteria.types).push(node.value);
+        break;
+      case 'person':
+        (node.negated ? criteria.excludePeople : criteria.people).push(node.value);
+        break;
+      case 'dateFrom':
+        criteria.dateFrom = node.value;
+        break;
+      case 'dateTo':
+        criteria.dateTo = node.value;
+        break;
+      case 'pending':
+        criteria.hasPendingTasks = node.value;
+        break;
+    }
+  }
+
+  return criteria;
+}
+
+export function isEmptyCriteria(criteria: SearchCriteria): boolean {
+  return criteria.terms.length === 0 && criteria.phrases.length === 0 &&
+    criteria.excludeTerms.length === 0 && criteria.excludePhrases.length === 0 &&
+    criteria.bookNames.length === 0 && criteria.excludeBookNames.length === 0 &&
+    criteria.types.length === 0 && criteria.excludeTypes.length === 0 &&
+    criteria.people.length === 0 && criteria.excludePeople.length === 0 &&
+    !criteria.dateFrom && !criteria.dateTo && criteria.hasPendingTasks === undefined;
+}
+
+// In-memory evaluation (BookView, TaskView)
+
+function includesFolded(haystack: string | undefined, needle: string): boolean {
+  return !!haystack && foldSearchText(haystack).includes(foldSearchText(needle));
+}
+
+function endOfDay(date: string): number {
+  return new Date(`${date}T23:59:59.999`).getTime();
+}
+
+interface MatchContext {
+  getBookName: (bookId: string) => string;
+}
+
+export function matchesText(texts: string[], criteria: SearchCriteria): boolean {
+  const has = (value: string) => texts.some(text => includesFolded(text, value));
+  return [...criteria.terms, ...criteria.phrases].every(has) &&
+    ![...criteria.excludeTerms, ...criteria.excludePhrases].some(has);
+}
+
+function entryTexts(entry: Entry): string[] {
+  return [
+    entry.summary,
+    entry.originalText,
+    entry.aiRewrittenText || '',
+    ...entry.tasks.map(t => t.description),
+    ...entry.entities.map(e => e.name),
+  ];
+}
+
+function entryPeople(entry: Entry): string[] {
+  return [
+    ...entry.entities.map(e => e.name),
+    ...entry.tasks.map(t => t.assignee || '').filter(Boolean),
+  ];
+}
+
+function matchesCommon(entry: Entry, people: string[], criteria: SearchCriteria, context: MatchContext): boolean {
+  const bookName = context.getBookName(entry.bookId);
+  if (!criteria.bookNames.every(name => includesFolded(bookName, name))) return false;
+  if (criteria.excludeBookNames.some(name => includesFolded(bookName, name))) return false;
+
+  if (criteria.types.length > 0 && !criteria.types.includes(entry.type)) return false;
+  if (criteria.excludeTypes.includes(entry.type)) return false;
+
+  const hasPerson = (name: string) => people.some(person => includesFolded(person, name));
+  if (!criteria.people.every(hasPerson)) return false;
+  if (criteria.excludePeople.some(hasPerson)) return false;
+
+  if (criteria.dateFrom && entry.createdAt < new Date(`${criteria.dateFrom}T00:00:00`).getTime()) return false;
+  if (criteria.dateTo && entry.createdAt > endOfDay(criteria.dateTo)) return false;
+  return true;
+}
+
+export function matchesEntry(entry: Entry, criteria: SearchCriteria, context: MatchContext): boolean {
+  if (!matchesCommon(entry, entryPeople(entry), criteria, context)) return false;
+  if (criteria.hasPendingTasks !== undefined &&
+      entry.tasks.some(t => !t.isDone) !== criteria.hasPendingTasks) return false;
+  return matchesText(entryTexts(entry), criteria);
+}
+
+// Tasks match on their own description and assignee, plus the parent entry's summary and book
+export function matchesTask(task: TaskItem, entry: Entry, criteria: SearchCriteria, context: MatchContext): boolean {
+  if (!matchesCommon(entry, task.assignee ? [task.assignee] : [], criteria, context)) return false;
+  if (criteria.hasPendingTasks !== undefined && task.isDone === criteria.hasPendingTasks) return false;
+  return matchesText([task.description, task.assignee || '', entry.summary], criteria);
+}
+
+// Autocomplete
+
+export interface SearchSuggestion {
+  label: string;       // What the dropdown shows
+  replacement: string; // Replaces the token under the cursor
+  hint?: string;
+}
+
+export interface SuggestionSources {
+  books: string[];
+  people: string[];
+}
+
+// Distinct people mentioned in entries (PERSON entities and task assignees)
+export function collectPeople(entries: Entry[]): string[] {
+  const people = new Map<string, string>();
+  entries.forEach(entry => {
+    entry.entities.filter(e => e.type === 'PERSON').forEach(e => people.set(foldSearchText(e.name), e.name));
+    entry.tasks.forEach(t => {
+      if (t.assignee) people.set(foldSearchText(t.assignee), t.assignee);
+    });
+  });
+  return Array.from(people.values()).sort((a, b) => a.localeCompare(b));
+}
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+// Token being typed at the end of the input
+function currentToken(input: string): string {
+  const match = input.match(/(-?(?:[\p{L}]+:"[^"]*|@"[^"]*|\S*))$/u);
+  return match ? match[1] : '';
+}
+
+export function getSearchSuggestions(input: string, sources: SuggestionSources, limit: number = 8): SearchSuggestion[] {
+  const token = currentToken(input);
+  if (!token) return [];
+
+  const negation = token.startsWith('-') ? '-' : '';
+  const body = token.slice(negation.length);
+  const matching = (values: string[], partial: string) =>
+    values.filter(value => foldSearchText(value).includes(foldSearchText(partial)));
+
+  if (body.startsWith('@')) {
+    const partial = body.slice(1).replace(/^"/, '');
+    return matching(sources.people, partial).slice(0, limit).map(person => ({
+      label: `@${person}`,
+      replacement: `${negation}@${quoteIfNeeded(person)} `,
+      hint: 'Persona',
+    }));
+  }
+
+  const operatorMatch = body.match(/^([\p{L}]+):"?(.*)$/u);
+  if (operatorMatch) {
+    const [, key, partial] = operatorMatch;
+    const prefix = `${negation}${key}:`;
+    switch (OPERATORS[key.toLowerCase()]) {
+      case 'book':
+        return matching(sources.books, partial).slice(0, limit).map(book => ({
+          label: book,
+          replacement: `${prefix}${quoteIfNeeded(book)} `,
+          hint: 'Libreta',
+        }));
+      case 'type':
+        return Object.values(NoteType)
+          .filter(type => foldSearchText(type).startsWith(foldSearchText(partial)))
+          .map(type => ({ label: type, replacement: `${prefix}${type} `, hint: 'Tipo' }));
+      case 'pending':
+        return ['si', 'no']
+          .filter(value => value.startsWith(foldSearchText(partial)))
+          .map(value => ({ label: value, replacement: `${prefix}${value} `, hint: 'Pendiente' }));
+      case 'dateFrom':
+      case 'dateTo':
+        return partial ? [] : [{ label: 'AAAA-MM-DD', replacement: `${prefix}${new Date().toISOString().slice(0, 10)}`, hint: 'Fecha' }];
+      default:
+        return [];
+    }
+  }
+
+  return SUGGESTED_OPERATORS
+    .filter(op => op.startsWith(foldSearchText(body)) && op !== body)
+    .map(op => ({ label: op, replacement: `${negation}${op}`, hint: 'Filtro' }));
+}
+
+// Replaces the token being typed with the chosen suggestion
+export function applySearchSuggestion(input: string, suggestion: SearchSuggestion): string {
+  const token = currentToken(input);
+  return input.slice(0, input.length - token.length) + suggestion.replacement;
+}
@@ -32,36 +32,6 @@ export function validatePassword(password: string): { valid: boolean; message?:
   return { valid: true };
 }
 
-// Rate limiting helper (simple in-memory, for production use Redis)
-const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
-
-export function checkRateLimit(identifier: string, maxRequests: number = 10, windowMs: number = 60000): boolean {
-  const now = Date.now();
-  const record = rateLimitMap.get(identifier);
-
-  if (!record || now > record.resetAt) {
-    rateLimitMap.set(identifier, { count: 1, resetAt: now + windowMs });
-    return true;
-  }
-
-  if (record.count >= maxRequests) {
-    return false;
-  }
-
-  record.count++;
-  return true;
-}
-
-// Clean old rate limit records
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, value] of rateLimitMap.entries()) {
-    if (now > value.resetAt) {
-      rateLimitMap.delete(key);
-    }
-  }
-}, 60000); // Clean every minute
-
 // Validate file type
 export function validateFileType(fileName: string, allowedTypes: string[]): boolean {
   const extension = fileName.split('.').pop()?.toLowerCase();
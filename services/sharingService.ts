@@ -0,0 +1,112 @@
+import { neon } from '@neondatabase/serverless';
+import { getServerEnv } from './env';
+import { getRepository } from './repository';
+import { isBookMemberRole } from './permissions';
+import type { BookMember, BookMemberRole } from '../types';
+
+// Shared books (server only)
+// The owner of a book invites other registered users by email as viewers,
+// commenters or editors. Membership rows live with the book in the storage
+// backend, which enforces what each role may do; this module resolves users
+// by email and adds their names for the sharing dialog.
+
+const databaseUrl = getServerEnv('NEON_DATABASE_URL');
+const sql = databaseUrl ? neon(databaseUrl) : null;
+
+function requireDb() {
+  if (!sql) {
+    throw new Error('Database not configured');
+  }
+  return sql;
+}
+
+export class BookSharingError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'BookSharingError';
+  }
+}
+
+function requireRole(role: unknown): BookMemberRole {
+  if (typeof role !== 'string' || !isBookMemberRole(role)) {
+    throw new BookSharingError('Rol inválido');
+  }
+  return role;
+}
+
+// Owner first, then members in the order they were added
+export async function listBookMembers(bookId: string, userId: string): Promise<BookMember[]> {
+  const repository = await getRepository(userId);
+  const book = await repository.getBookById(bookId);
+  if (!book) {
+    throw new BookSharingError('Libreta no encontrada', 404);
+  }
+  const members = await repository.getBookMembers(bookId);
+
+  const ids = [book.user_id, ...members.map(m => m.user_id)];
+  const users = await requireDb()`SELECT id, name, email FROM users WHERE id = ANY(${ids})`;
+  const byId = new Map(users.map((u: any) => [u.id, u]));
+  const describe = (id: string) => ({
+    userId: id,
+    name: byId.get(id)?.name || 'Usuario eliminado',
+    email: byId.get(id)?.email || '',
+  });
+
+  return [
+    { ...describe(book.user_id), role: 'owner' },
+    ...members
+      .filter(m => isBookMemberRole(m.role))
+      .map(m => ({
+        ...describe(m.user_id),
+        role: m.role as BookMemberRole,
+        addedAt: new Date(m.created_at).getTime(),
+      })),
+  ];
+}
+
+// Only active accounts can be invited; the owner cannot invite themselves.
+// Ownership is checked before the email is looked up, and an email without an
+// active account gets the same answer whatever the reason, so the dialog
+// cannot be used to find out who has an account.
+export async function shareBook(bookId: string, ownerId: string, email: string, role: unknown): Promise<BookMember[]> {
+  const memberRole = requireRole(role);
+  const repository = await getRepository(ownerId);
+  const book = await repository.getBookById(bookId);
+  if (!book) {
+    throw new BookSharingError('Libreta no encontrada', 404);
+  }
+  if (book.user_id !== ownerId) {
+    throw new BookSharingError('Solo el dueño puede compartir esta libreta', 403);
+  }
+
+  const result = await requireDb()`
+    SELECT id FROM users WHERE email = ${email.toLowerCase().trim()} AND is_active = TRUE LIMIT 1
+  `;
+  if (result.length === 0) {
+    throw new BookSharingError('No se pudo invitar a ese email. Comprueba que la persona esté registrada con él.');
+  }
+  const memberId = result[0].id as string;
+  if (memberId === ownerId) {
+    throw new BookSharingError('Ya eres el dueño de esta libreta');
+  }
+
+  await repository.addBookMember(bookId, memberId, memberRole);
+  return listBookMembers(bookId, ownerId);
+}
+
+export async function updateBookMember(bookId: string, ownerId: string, memberId: string, role: unknown): Promise<BookMember[]> {
+  const memberRole = requireRole(role);
+  const repository = await getRepository(ownerId);
+  const members = await repository.getBookMembers(bookId);
+  if (!members.some(m => m.user_id === memberId)) {
+    throw new BookSharingError('Esa persona no es miembro de la libreta', 404);
+  }
+  await repository.addBookMember(bookId, memberId, memberRole);
+  return listBookMembers(bookId, ownerId);
+}
+
+// The owner removes a member, or a member leaves the book
+export async function removeBookMember(bookId: string, userId: string, memberId: string): Promise<void> {
+  const repository = await getRepository(userId);
+  await repository.removeBookMember(bookId, memberId);
+}
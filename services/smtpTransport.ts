@@ -0,0 +1,192 @@
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls, type TLSSocket } from 'tls';
+import { hostname } from 'os';
+import { getServerEnv } from './env';
+import { formatMessage, getMailFrom, mailboxAddress, type MailTransport } from './mailService';
+
+// SMTP transport (RFC 5321)
+// One connection per message: EHLO, STARTTLS unless the connection is already
+// TLS (SMTP_SECURE, usually port 465), AUTH PLAIN or LOGIN when credentials
+// are configured, then MAIL FROM / RCPT TO / DATA. Credentials are never sent
+// over a connection that is not encrypted.
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte instead of STARTTLS
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+const COMMAND_TIMEOUT_MS = 30_000;
+
+export function getSmtpConfig(): SmtpConfig {
+  const host = getServerEnv('SMTP_HOST');
+  if (!host) {
+    throw new Error('SMTP no configurado. Por favor configura SMTP_HOST en .env.local');
+  }
+  const secure = getServerEnv('SMTP_SECURE') === 'true';
+  return {
+    host,
+    port: Number(getServerEnv('SMTP_PORT')) || (secure ? 465 : 587),
+    secure,
+    user: getServerEnv('SMTP_USER'),
+    password: getServerEnv('SMTP_PASSWORD'),
+    from: getMailFrom(),
+  };
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Line-based reader over a socket that can be swapped for its TLS upgrade
+class SmtpConnection {
+  private buffer = '';
+  private pending: SmtpReply['lines'] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: Socket | TLSSocket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(COMMAND_TIMEOUT_MS, () => this.fail(new Error('SMTP timeout')));
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pending.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.pending });
+        this.pending = [];
+      }
+    }
+    this.flush();
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) this.failure = error;
+    this.flush();
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  read(expected: number[]): Promise<SmtpReply> {
+    return new Promise<SmtpReply>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    }).then(reply => {
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    });
+  }
+
+  command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    this.socket = await new Promise<TLSSocket>((resolve, reject) => {
+      const secure = connectTls({ socket: plain, servername: host }, () => resolve(secure));
+      secure.once('error', reject);
+    });
+    this.attach(this.socket);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  get encrypted(): boolean {
+    return 'encrypted' in this.socket && this.socket.encrypted === true;
+  }
+}
+
+function openSocket(config: SmtpConfig): Promise<Socket | TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : connectTcp({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+const supports = (reply: SmtpReply, extension: string) =>
+  reply.lines.some(line => line.toUpperCase().startsWith(extension));
+
+// Lines starting with a dot are doubled so they are not read as the end of DATA
+const dotStuff = (message: string) => message.replace(/^\./gm, '..');
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    async send(message) {
+      const connection = new SmtpConnection(await openSocket(config));
+      try {
+        await connection.read([220]);
+        const ehlo = `EHLO ${hostname() || 'localhost'}`;
+        let capabilities = await connection.command(ehlo, [250]);
+
+        if (!connection.encrypted && supports(capabilities, 'STARTTLS')) {
+          await connection.command('STARTTLS', [220]);
+          await connection.startTls(config.host);
+          capabilities = await connection.command(ehlo, [250]);
+        }
+
+        if (config.user && config.password) {
+          if (!connection.encrypted) {
+            throw new Error('SMTP server does not offer TLS; refusing to send credentials');
+          }
+          const authLine = capabilities.lines.find(line => line.toUpperCase().startsWith('AUTH')) || '';
+          if (/\bPLAIN\b/i.test(authLine)) {
+            const token = Buffer.from(`\0${config.user}\0${config.password}`, 'utf8').toString('base64');
+            await connection.command(`AUTH PLAIN ${token}`, [235]);
+          } else {
+            await connection.command('AUTH LOGIN', [334]);
+            await connection.command(Buffer.from(config.user, 'utf8').toString('base64'), [334]);
+            await connection.command(Buffer.from(config.password, 'utf8').toString('base64'), [235]);
+          }
+        }
+
+        await connection.command(`MAIL FROM:<${mailboxAddress(config.from)}>`, [250]);
+        await connection.command(`RCPT TO:<${mailboxAddress(message.to)}>`, [250, 251]);
+        await connection.command('DATA', [354]);
+        await connection.command(`${dotStuff(formatMessage(message, config.from))}\r\n.`, [250]);
+        await connection.command('QUIT', [221]).catch(() => undefined);
+      } finally {
+        connection.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import type {
+  DbFolder,
+  DbBook,
+  DbBookMember,
+  DbEntry,
+  DbEntryComment,
+  DbCapture,
+  DbEntryPage,
+  DbEntryPageOptions,
+  DbEntryStats,
+  DbEntryStatsOptions,
+  DbThread,
+  DbTask,
+  DbAssignedTask,
+  DbEntity,
+  DbEmbedding,
+  DbEntryRelation,
+  DbEntryRevision,
+  DbAiCacheEntry,
+  DbAiCacheWrite,
+  DbSearchFilters,
+  DbSearchResult,
+  DbSimilarEntry,
+  DbSimilarityOptions,
+  DbTrashItem,
+} from './db';
+import type { SearchCriteria, EntrySnapshot, TrashItemType } from '../types';
+import { getServerEnv } from './env';
+
+// Storage backend abstraction
+// Every method that touches user data takes the user id and matches only the
+// rows that user may see: their own, plus those in books shared with them
+// (within what their member role allows). App code should not use it directly: services/repository.ts
+// binds a backend to the authenticated user.
+
+export interface StorageBackend {
+  // Schema
+  initDatabase(): Promise<boolean>;
+
+  // Books
+  getAllBooks(userId: string): Promise<DbBook[]>;
+  getBookById(id: string, userId: string): Promise<DbBook | null>;
+  createBook(id: string, userId: string, name: string, description?: string, folderId?: string): Promise<DbBook>;
+  updateBook(id: string, userId: string, updates: { name?: string; description?: string; folderId?: string }): Promise<void>;
+  deleteBook(id: string, userId: string): Promise<void>;
+
+  // Book members (only the owner adds members or changes their role)
+  getBookMembers(bookId: string, userId: string): Promise<DbBookMember[]>;
+  addBookMember(bookId: string, userId: string, memberId: string, role: string): Promise<DbBookMember>;
+  removeBookMember(bookId: string, userId: string, memberId: string): Promise<void>;
+
+  // Folders
+  getAllFolders(userId: string): Promise<DbFolder[]>;
+  getFolderById(id: string, userId: string): Promise<DbFolder | null>;
+  createFolder(id: string, userId: string, name: string, color?: string): Promise<DbFolder>;
+  updateFolder(id: string, userId: string, updates: { name?: string; color?: string }): Promise<void>;
+  deleteFolder(id: string, userId: string): Promise<void>;
+
+  // Entries
+  getAllEntries(userId: string, limit?: number): Promise<DbEntry[]>;
+  getEntriesPage(userId: string, options?: DbEntryPageOptions): Promise<DbEntryPage>;
+  getEntryStats(userId: string, options?: DbEntryStatsOptions): Promise<DbEntryStats>;
+  getEntriesByBookId(bookId: string, userId: string): Promise<DbEntry[]>;
+  getEntriesByThreadId(threadId: string, userId: string): Promise<DbEntry[]>;
+  getEntryById(id: string, userId: string): Promise<DbEntry | null>;
+  createEntry(
+    id: string,
+    userId: string,
+    originalText: string,
+    bookId: string,
+    type: string,
+    summary: string,
+    status?: string,
+    threadId?: string | null,
+    aiRewrittenText?: string | null
+  ): Promise<DbEntry>;
+  updateEntry(id: string, userId: string, updates: { summary?: string; status?: string; statusReason?: string | null; type?: string; threadId?: string | null; aiRewrittenText?: string | null }): Promise<void>;
+  deleteEntry(id: string, userId: string): Promise<void>;
+  saveCapture(userId: string, capture: DbCapture): Promise<void>;
+
+  // Tasks (scoped through the owning entry)
+  getTasksByEntryId(entryId: string, userId: string): Promise<DbTask[]>;
+  getTasksByEntryIds(entryIds: string[], userId: string): Promise<DbTask[]>;
+  getAllTasks(userId: string, filters?: { isDone?: boolean; bookId?: string }): Promise<DbTask[]>;
+  // The task if the user can write to its entry's book, null otherwise
+  getWritableTask(id: string, userId: string): Promise<DbTask | null>;
+  createTask(id: string, userId: string, entryId: string, description: string, assignee?: string, dueDate?: string, priority?: string): Promise<DbTask>;
+  updateTask(id: string, userId: string, updates: { isDone?: boolean; description?: string; assignee?: string; dueDate?: string; priority?: string; completionNotes?: string }): Promise<void>;
+  deleteTask(id: string, userId: string): Promise<void>;
+  delegateTask(id: string, userId: string, assigneeUserId: string | null, assignee?: string): Promise<DbTask>;
+  // Tasks delegated to the user: matched by assignee, not by book access
+  getAssignedTasks(userId: string): Promise<DbAssignedTask[]>;
+
+  // Entities (scoped through the owning entry)
+  getEntitiesByEntryId(entryId: string, userId: string): Promise<DbEntity[]>;
+  getEntitiesByEntryIds(entryIds: string[], userId: string): Promise<DbEntity[]>;
+  createEntity(id: string, userId: string, entryId: string, name: string, type: string): Promise<DbEntity>;
+  deleteEntitiesByEntryId(entryId: string, userId: string): Promise<void>;
+
+  // Threads
+  getAllThreads(userId: string): Promise<DbThread[]>;
+  getThreadById(id: string, userId: string): Promise<DbThread | null>;
+  getThreadsByBookId(bookId: string, userId: string): Promise<DbThread[]>;
+  createThread(id: string, userId: string, title: string, bookId: string): Promise<DbThread>;
+  updateThread(id: string, userId: string, updates: { title?: string }): Promise<void>;
+  deleteThread(id: string, userId: string): Promise<void>;
+
+  // Search
+  searchEntries(userId: string, criteria: SearchCriteria, filters?: DbSearchFilters): Promise<DbSearchResult[]>;
+
+  // Embeddings (scoped through the owning entry)
+  createEntryEmbedding(id: string, userId: string, entryId: string, embedding: number[], model?: string): Promise<DbEmbedding>;
+  getEmbeddingByEntryId(entryId: string, userId: string): Promise<DbEmbedding | null>;
+  getEmbeddingsByEntryIds(entryIds: string[], userId: string): Promise<DbEmbedding[]>;
+  deleteEmbeddingByEntryId(entryId: string, userId: string): Promise<void>;
+  findSimilarEntries(userId: string, embedding: number[], options?: DbSimilarityOptions): Promise<DbSimilarEntry[]>;
+
+  // Relations (both entries must be readable by the user, the source writable)
+  createEntryRelation(id: string, userId: string, sourceId: string, targetId: string, relationStrength: number): Promise<DbEntryRelation>;
+  getRelationsByEntryId(entryId: string, userId: string): Promise<DbEntryRelation[]>;
+  getRelatedEntries(entryId: string, userId: string, limit?: number, minStrength?: number): Promise<Array<{ entry: DbEntry; relation: DbEntryRelation }>>;
+  updateRelationStrength(id: string, userId: string, strength: number): Promise<void>;
+  deleteRelation(id: string, userId: string): Promise<void>;
+
+  // Entry revisions
+  createEntryRevision(id: string, userId: string, entryId: string, snapshot: EntrySnapshot, authorId?: string, authorName?: string, reason?: string): Promise<DbEntryRevision>;
+  getEntryRevisions(entryId: string, userId: string): Promise<DbEntryRevision[]>;
+  getLatestEntryRevision(entryId: string, userId: string): Promise<DbEntryRevision | null>;
+
+  // Entry comments
+  getEntryComments(entryId: string, userId: string): Promise<DbEntryComment[]>;
+  createEntryComment(id: string, userId: string, entryId: string, text: string): Promise<DbEntryComment>;
+  deleteEntryComment(id: string, userId: string): Promise<void>;
+
+  // Trash (the delete* methods above only move items here)
+  getTrash(userId: string): Promise<DbTrashItem[]>;
+  restoreFromTrash(type: TrashItemType, id: string, userId: string): Promise<void>;
+  purgeFromTrash(type: TrashItemType, id: string, userId: string): Promise<void>;
+  purgeTrash(userId: string, deletedBefore?: Date): Promise<void>;
+
+  // AI result cache (services/aiCache.ts); expired entries are never returned
+  getAiCacheEntries(userId: string, keys: string[]): Promise<DbAiCacheEntry[]>;
+  saveAiCacheEntries(userId: string, entries: DbAiCacheWrite[]): Promise<void>;
+  deleteAiCacheEntries(userId: string, namespace: string, subject?: string): Promise<number>;
+}
+
+// Entries per page when a caller does not ask for a size
+export const DEFAULT_ENTRY_PAGE_SIZE = 50;
+
+// Most mentioned entities per entity type in the entry stats
+export const DEFAULT_TOP_ENTITIES = 10;
+
+// Raised when a write references a row (entry, book, folder, thread) that does not
+// exist for the user. Reads and updates of other users' rows simply match nothing.
+export class TenantAccessError extends Error {
+  constructor(resource: string) {
+    super(`${resource} does not exist or belongs to another user`);
+    this.name = 'TenantAccessError';
+  }
+}
+
+export type StorageBackendName = 'neon' | 'memory';
+
+function getConfiguredBackend(): StorageBackendName {
+  return getServerEnv('STORAGE_BACKEND') === 'memory' ? 'memory' : 'neon';
+}
+
+let activeStorage: Promise<StorageBackend> | null = null;
+
+async function createStorage(name: StorageBackendName): Promise<StorageBackend> {
+  if (name === 'memory') {
+    const { createMemoryStorage } = await import('./memoryStorage');
+    return createMemoryStorage();
+  }
+  const neonStorage: StorageBackend = await import('./db');
+  return neonStorage;
+}
+
+// Returns the configured backend (STORAGE_BACKEND=neon|memory, default neon)
+export async function getStorage(): Promise<StorageBackend> {
+  if (!activeStorage) {
+    activeStorage = createStorage(getConfiguredBackend());
+  }
+  return activeStorage;
+}
+
+// Replace the active backend (scripts and local tooling)
+export function setStorage(storage: StorageBackend): void {
+  activeStorage = Promise.resolve(storage);
+}
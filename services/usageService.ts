@@ -0,0 +1,329 @@
+import { neon } from '@neondatabase/serverless';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getServerEnv } from './env';
+import { DEFAULT_LOCALE, type Locale } from './i18n';
+
+// Per-user usage (server only)
+// Storage is measured from the user's rows; AI requests are counted per user,
+// method and day as the API serves them, and every model call is recorded in
+// ai_calls with its tokens and estimated cost. Counting never fails the request.
+
+const databaseUrl = getServerEnv('NEON_DATABASE_URL');
+const sql = databaseUrl ? neon(databaseUrl) : null;
+
+const RECENT_DAYS = 30;
+
+// What an AI call was for, as shown on the usage page
+export type AiFeature =
+  | 'capture'
+  | 'summary'
+  | 'query'
+  | 'personSummary'
+  | 'threads'
+  | 'document'
+  | 'embeddings';
+
+export interface AiCall {
+  feature: AiFeature;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiUsageBreakdown {
+  key: string; // Feature or model
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+// AI usage of one user in the current calendar month
+export interface AiUsageReport {
+  month: string; // YYYY-MM
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  budgetUsd?: number; // No budget means no limit
+  overBudget: boolean;
+  byFeature: AiUsageBreakdown[];
+  byModel: AiUsageBreakdown[];
+}
+
+export interface UserUsage {
+  userId: string;
+  books: number; // Not in the trash
+  entries: number; // Not in the trash
+  storageBytes: number; // Text of all entries, trashed ones included, plus their revision history
+  aiRequestsRecent: number; // Last 30 days
+  aiRequestsTotal: number;
+  lastAiRequestAt?: string;
+  aiCostMonthUsd: number; // Estimated, current calendar month
+  aiTokensMonth: number;
+  aiBudgetUsd?: number; // The user's own budget, or the default one
+  hasCustomAiBudget: boolean;
+}
+
+// Thrown instead of calling the model when the user has spent their monthly
+// budget and the step is optional; the AI services already fall back to
+// their "nothing found" answer when a call fails
+export class AiBudgetExceededError extends Error {
+  constructor() {
+    super('Se alcanzó el presupuesto mensual de IA');
+    this.name = 'AiBudgetExceededError';
+  }
+}
+
+// ============================================================================
+// COST
+// ============================================================================
+
+// USD per million tokens, input and output. Models not listed cost 0, which
+// suits local models; AI_MODEL_PRICES ("model=input/output,...") adds or
+// overrides entries.
+const MODEL_PRICES: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1': [2, 8],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'text-embedding-3-small': [0.02, 0],
+  'text-embedding-3-large': [0.13, 0],
+};
+
+function getModelPrices(): Record<string, [number, number]> {
+  const prices = { ...MODEL_PRICES };
+  for (const pair of (getServerEnv('AI_MODEL_PRICES') || '').split(',')) {
+    const [model, price] = pair.split('=').map(part => part.trim());
+    const [input, output] = (price || '').split('/').map(Number);
+    if (model && Number.isFinite(input)) {
+      prices[model] = [input, Number.isFinite(output) ? output : 0];
+    }
+  }
+  return prices;
+}
+
+export function estimateAiCost(model: string, promptTokens: number, completionTokens: number): number {
+  const [input, output] = getModelPrices()[model] || [0, 0];
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+// Budget of users without their own; unset means no limit
+function getDefaultAiBudget(): number | undefined {
+  const value = getServerEnv('AI_MONTHLY_BUDGET_USD');
+  const budget = Number(value);
+  return value && Number.isFinite(budget) && budget >= 0 ? budget : undefined;
+}
+
+// ============================================================================
+// CALL RECORDING
+// ============================================================================
+
+// The user on whose behalf the AI services are running. The API sets it for
+// each authenticated request, so the services need no extra argument.
+interface AiUsageScope {
+  userId: string;
+  locale: Locale; // Language of the prompts and answers
+  overBudget?: Promise<boolean>; // Looked up once per request
+}
+
+const aiUsageScope = new AsyncLocalStorage<AiUsageScope>();
+
+export function runWithAiUser<T>(user: { id: string; locale?: Locale }, fn: () => Promise<T>): Promise<T> {
+  return aiUsageScope.run({ userId: user.id, locale: user.locale || DEFAULT_LOCALE }, fn);
+}
+
+export function getAiUser(): string | undefined {
+  return aiUsageScope.getStore()?.userId;
+}
+
+// Outside a request (scripts, tests) the AI works in the default language
+export function getAiLocale(): Locale {
+  return aiUsageScope.getStore()?.locale || DEFAULT_LOCALE;
+}
+
+// Calls made outside a request (scripts, tests) are not recorded
+export async function recordAiCall(call: AiCall): Promise<void> {
+  const scope = aiUsageScope.getStore();
+  if (!sql || !scope) return;
+  try {
+    await sql`
+      INSERT INTO ai_calls (id, user_id, feature, model, prompt_tokens, completion_tokens, cost_usd)
+      VALUES (
+        ${crypto.randomUUID()}, ${scope.userId}, ${call.feature}, ${call.model},
+        ${call.promptTokens}, ${call.completionTokens},
+        ${estimateAiCost(call.model, call.promptTokens, call.completionTokens)}
+      )
+    `;
+  } catch (error) {
+    console.error('AI call usage error:', error);
+  }
+}
+
+async function getMonthlySpend(userId: string): Promise<{ costUsd: number; budgetUsd?: number }> {
+  const result = await sql!`
+    SELECT
+      (SELECT COALESCE(SUM(cost_usd), 0) FROM ai_calls
+        WHERE user_id = ${userId} AND created_at >= date_trunc('month', CURRENT_TIMESTAMP)) AS cost,
+      (SELECT ai_monthly_budget_usd FROM users WHERE id = ${userId}) AS budget
+  `;
+  const row = result[0] || {};
+  return {
+    costUsd: Number(row.cost || 0),
+    budgetUsd: row.budget !== null && row.budget !== undefined ? Number(row.budget) : getDefaultAiBudget(),
+  };
+}
+
+// Whether the user of the current request has spent their monthly budget
+export function isOverAiBudget(): Promise<boolean> {
+  const scope = aiUsageScope.getStore();
+  if (!sql || !scope) return Promise.resolve(false);
+  if (!scope.overBudget) {
+    scope.overBudget = getMonthlySpend(scope.userId)
+      .then(({ costUsd, budgetUsd }) => budgetUsd !== undefined && costUsd >= budgetUsd)
+      .catch(error => {
+        console.error('AI budget error:', error);
+        return false;
+      });
+  }
+  return scope.overBudget;
+}
+
+function addToBreakdown(breakdown: Map<string, AiUsageBreakdown>, key: string, row: any): void {
+  const item = breakdown.get(key) || { key, calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+  item.calls += Number(row.calls);
+  item.promptTokens += Number(row.prompt_tokens);
+  item.completionTokens += Number(row.completion_tokens);
+  item.costUsd += Number(row.cost);
+  breakdown.set(key, item);
+}
+
+export async function getAiUsageReport(userId: string): Promise<AiUsageReport> {
+  const report: AiUsageReport = {
+    month: new Date().toISOString().slice(0, 7),
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    budgetUsd: getDefaultAiBudget(),
+    overBudget: false,
+    byFeature: [],
+    byModel: [],
+  };
+  if (!sql) return report;
+
+  const [rows, spend] = await Promise.all([
+    sql`
+      SELECT feature, model, COUNT(*) AS calls,
+        SUM(prompt_tokens) AS prompt_tokens,
+        SUM(completion_tokens) AS completion_tokens,
+        SUM(cost_usd) AS cost
+      FROM ai_calls
+      WHERE user_id = ${userId} AND created_at >= date_trunc('month', CURRENT_TIMESTAMP)
+      GROUP BY feature, model
+    `,
+    getMonthlySpend(userId),
+  ]);
+
+  const byFeature = new Map<string, AiUsageBreakdown>();
+  const byModel = new Map<string, AiUsageBreakdown>();
+  for (const row of rows as any[]) {
+    addToBreakdown(byFeature, row.feature, row);
+    addToBreakdown(byModel, row.model, row);
+    report.calls += Number(row.calls);
+    report.promptTokens += Number(row.prompt_tokens);
+    report.completionTokens += Number(row.completion_tokens);
+  }
+  report.costUsd = spend.costUsd;
+  report.budgetUsd = spend.budgetUsd;
+  report.overBudget = spend.budgetUsd !== undefined && spend.costUsd >= spend.budgetUsd;
+  const byCost = (a: AiUsageBreakdown, b: AiUsageBreakdown) => b.costUsd - a.costUsd || b.calls - a.calls;
+  report.byFeature = [...byFeature.values()].sort(byCost);
+  report.byModel = [...byModel.values()].sort(byCost);
+  return report;
+}
+
+// Sets or, with null, removes a user's own monthly budget. Callers check permissions.
+export async function setAiMonthlyBudget(userId: string, budgetUsd: number | null): Promise<void> {
+  if (!sql) return;
+  await sql`UPDATE users SET ai_monthly_budget_usd = ${budgetUsd} WHERE id = ${userId}`;
+}
+
+export async function recordAiRequest(userId: string, method: string): Promise<void> {
+  if (!sql) return;
+  try {
+    await sql`
+      INSERT INTO ai_usage (user_id, day, method, request_count, last_request_at)
+      VALUES (${userId}, CURRENT_DATE, ${method}, 1, CURRENT_TIMESTAMP)
+      ON CONFLICT (user_id, day, method) DO UPDATE SET
+        request_count = ai_usage.request_count + 1,
+        last_request_at = CURRENT_TIMESTAMP
+    `;
+  } catch (error) {
+    console.error('AI usage error:', error);
+  }
+}
+
+// Usage of every user. Callers check that the requester may see it.
+export async function listUserUsage(): Promise<UserUsage[]> {
+  if (!sql) return [];
+  const result = await sql`
+    SELECT u.id AS user_id,
+      COALESCE(b.books, 0) AS books,
+      COALESCE(e.entries, 0) AS entries,
+      COALESCE(e.bytes, 0) + COALESCE(r.bytes, 0) AS storage_bytes,
+      COALESCE(a.recent, 0) AS ai_recent,
+      COALESCE(a.total, 0) AS ai_total,
+      a.last_request_at,
+      COALESCE(c.cost, 0) AS ai_cost_month,
+      COALESCE(c.tokens, 0) AS ai_tokens_month,
+      u.ai_monthly_budget_usd
+    FROM users u
+    LEFT JOIN (
+      SELECT user_id, COUNT(*) FILTER (WHERE deleted_at IS NULL) AS books
+      FROM books GROUP BY user_id
+    ) b ON b.user_id = u.id
+    LEFT JOIN (
+      SELECT user_id, COUNT(*) FILTER (WHERE deleted_at IS NULL) AS entries,
+        SUM(octet_length(original_text) + octet_length(summary) + COALESCE(octet_length(ai_rewritten_text), 0)) AS bytes
+      FROM entries GROUP BY user_id
+    ) e ON e.user_id = u.id
+    LEFT JOIN (
+      SELECT en.user_id, SUM(octet_length(rv.snapshot::text)) AS bytes
+      FROM entry_revisions rv JOIN entries en ON en.id = rv.entry_id
+      GROUP BY en.user_id
+    ) r ON r.user_id = u.id
+    LEFT JOIN (
+      SELECT user_id,
+        SUM(request_count) FILTER (WHERE day > CURRENT_DATE - ${RECENT_DAYS}::int) AS recent,
+        SUM(request_count) AS total,
+        MAX(last_request_at) AS last_request_at
+      FROM ai_usage GROUP BY user_id
+    ) a ON a.user_id = u.id
+    LEFT JOIN (
+      SELECT user_id, SUM(cost_usd) AS cost, SUM(prompt_tokens + completion_tokens) AS tokens
+      FROM ai_calls
+      WHERE created_at >= date_trunc('month', CURRENT_TIMESTAMP)
+      GROUP BY user_id
+    ) c ON c.user_id = u.id
+  `;
+
+  const defaultBudget = getDefaultAiBudget();
+
+  return result.map((row: any) => ({
+    userId: row.user_id,
+    books: Number(row.books),
+    entries: Number(row.entries),
+    storageBytes: Number(row.storage_bytes),
+    aiRequestsRecent: Number(row.ai_recent),
+    aiRequestsTotal: Number(row.ai_total),
+    lastAiRequestAt: row.last_request_at
+      ? (row.last_request_at instanceof Date ? row.last_request_at.toISOString() : String(row.last_request_at))
+      : undefined,
+    aiCostMonthUsd: Number(row.ai_cost_month),
+    aiTokensMonth: Number(row.ai_tokens_month),
+    aiBudgetUsd: row.ai_monthly_budget_usd !== null ? Number(row.ai_monthly_budget_usd) : defaultBudget,
+    hasCustomAiBudget: row.ai_monthly_budget_usd !== null,
+  }));
+}
@@ -0,0 +1,87 @@
+// In-process vector index
+// Local fallback for pgvector when running on the memory backend. Vectors are
+// normalized once on insert, so a query is a single dot product per entry
+// instead of re-parsing JSON and recomputing norms on every search.
+
+export interface VectorMatch {
+  id: string;
+  similarity: number; // cosine similarity, 1 = identical
+}
+
+export interface VectorSearchOptions {
+  limit?: number;
+  minSimilarity?: number;
+  filter?: (id: string) => boolean;
+}
+
+export interface VectorIndex {
+  readonly size: number;
+  upsert(id: string, vector: number[]): void;
+  remove(id: string): void;
+  search(query: number[], options?: VectorSearchOptions): VectorMatch[];
+}
+
+function normalize(vector: number[]): Float32Array | null {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  if (norm === 0) return null;
+
+  const scale = 1 / Math.sqrt(norm);
+  const normalized = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    normalized[i] = vector[i] * scale;
+  }
+  return normalized;
+}
+
+export function createVectorIndex(): VectorIndex {
+  const vectors = new Map<string, Float32Array>();
+
+  return {
+    get size() {
+      return vectors.size;
+    },
+
+    upsert(id, vector) {
+      const normalized = normalize(vector);
+      if (normalized) {
+        vectors.set(id, normalized);
+      } else {
+        vectors.delete(id);
+      }
+    },
+
+    remove(id) {
+      vectors.delete(id);
+    },
+
+    search(query, options = {}) {
+      const { limit = 10, minSimilarity = 0, filter } = options;
+      const normalizedQuery = normalize(query);
+      if (!normalizedQuery || limit <= 0) return [];
+
+      // Keep only the best `limit` matches, sorted by similarity (descending)
+      const top: VectorMatch[] = [];
+      vectors.forEach((vector, id) => {
+        if (vector.length !== normalizedQuery.length || (filter && !filter(id))) return;
+
+        let similarity = 0;
+        for (let i = 0; i < vector.length; i++) {
+          similarity += vector[i] * normalizedQuery[i];
+        }
+        if (similarity < minSimilarity) return;
+        if (top.length === limit && similarity <= top[top.length - 1].similarity) return;
+
+        let position = top.length;
+        while (position > 0 && top[position - 1].similarity < similarity) {
+          position--;
+        }
+        top.splice(position, 0, { id, similarity });
+        if (top.length > limit) top.pop();
+      });
+      return top;
+    },
+  };
+}
@@ -26,13 +26,27 @@ export enum EntityType {
 }
 
 export interface TaskItem {
-  id?: string;
+  id: string; // Assigned when the task is created and kept through edits, saves and AI actions
   description: string;
   assignee?: string;
   dueDate?: string; // ISO date string
   isDone: boolean;
   priority?: TaskPriority;
   completionNotes?: string; // Observaciones al completar la tarea
+  assigneeUserId?: string; // Set when the task is delegated to a registered user
+  delegatedBy?: string; // User who delegated it
+}
+
+// A task someone else delegated to the current user, with the entry it comes from.
+// The assignee gets the entry's summary only, never its original text.
+export interface AssignedTask extends TaskItem {
+  entryId: string;
+  entryType: NoteType;
+  entrySummary: string;
+  entryCreatedAt: number;
+  bookId: string;
+  bookName: string;
+  delegatedByName?: string;
 }
 
 export interface Attachment {
@@ -63,11 +77,87 @@ export interface Entry {
   entities: Entity[]; // People, companies identified
   threadId?: string; // Thread this entry belongs to
   aiRewrittenText?: string; // Text rewritten by AI in a more organized way
+  authorId?: string; // User who wrote the entry; differs from the viewer in shared books
   relatedEntries?: EntryRelation[]; // Related entries with semantic similarity
   
   // Note: Attachments are NOT stored - they're only used as context for AI analysis
 
   status: EntryStatus;
+  statusReason?: string; // Why the entry is in the ERROR status (e.g. an AI answer that could not be read)
+  promptVersion?: string; // Prompt that analyzed the entry, as name@version/locale
+}
+
+// Full copy of an entry's editable state, stored with each revision
+export interface EntrySnapshot {
+  summary: string;
+  type: NoteType;
+  status: EntryStatus;
+  threadId?: string;
+  aiRewrittenText?: string;
+  tasks: TaskItem[];
+  entities: Entity[];
+}
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  revisionNumber: number; // 1 = oldest
+  authorId?: string;
+  authorName?: string;
+  reason?: string;
+  snapshot: EntrySnapshot; // State of the entry after the change
+  createdAt: number;
+}
+
+export type TrashItemType = 'entry' | 'book' | 'folder' | 'thread';
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  bookId?: string; // Book of a trashed entry or thread
+  childCount: number; // Entries deleted together with a book
+  deletedAt: number;
+}
+
+// Narrows an entry listing to one book or thread; empty means the whole timeline
+export interface EntryScope {
+  bookId?: string;
+  threadId?: string;
+}
+
+export interface EntryPage {
+  entries: Entry[];
+  nextCursor: string | null; // Cursor for the following page, null on the last one
+}
+
+// Counts over every entry the user can read, computed by the server (the
+// client only holds the loaded pages)
+export interface BookStats {
+  bookId: string;
+  entryCount: number;
+  openTasks: number;
+  completedTasks: number;
+  lastActivity: number; // timestamp of the newest entry
+}
+
+export interface PeriodStats {
+  totalEntries: number;
+  totalTasks: number;
+  completedTasks: number;
+  byType: Array<[NoteType, number]>; // Most frequent first
+  byDay: Array<[string, number]>; // YYYY-MM-DD in the requested time zone, oldest first
+  topPeople: Array<[string, number]>;
+  topTopics: Array<[string, number]>;
+  topProjects: Array<[string, number]>;
+}
+
+export interface EntryStats {
+  totalEntries: number;
+  openTasks: number;
+  completedTasks: number;
+  books: BookStats[];
+  period: PeriodStats | null; // Only when a period start is given
 }
 
 export interface Folder {
@@ -85,6 +175,27 @@ export interface Book {
   folderId?: string; // Optional folder ID for grouping
   createdAt: number;
   updatedAt?: number;
+  role?: BookMemberRole; // Set on books shared with the user: what they may do in it
+  memberCount?: number; // People the book is shared with, besides its owner
+}
+
+// Access to a book someone else owns (see services/permissions.ts)
+export type BookMemberRole = 'viewer' | 'commenter' | 'editor';
+
+export interface BookMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: BookMemberRole | 'owner';
+  addedAt?: number; // Not set for the owner
+}
+
+export interface EntryComment {
+  id: string;
+  entryId: string;
+  authorId: string;
+  text: string;
+  createdAt: number;
 }
 
 export interface Thread {
@@ -104,6 +215,32 @@ export interface SearchFilters {
   assignee?: string;
 }
 
+// Compiled form of the search query language (see services/searchQuery.ts)
+export interface SearchCriteria {
+  terms: string[];
+  phrases: string[];
+  excludeTerms: string[];
+  excludePhrases: string[];
+  bookNames: string[];
+  excludeBookNames: string[];
+  types: NoteType[];
+  excludeTypes: NoteType[];
+  people: string[]; // Entity names or task assignees
+  excludePeople: string[];
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string; // YYYY-MM-DD, inclusive
+  hasPendingTasks?: boolean;
+}
+
+// Markers wrapping matched terms in search snippets
+export const SNIPPET_HIGHLIGHT = { start: '⟦', end: '⟧' } as const;
+
+export interface SearchResult {
+  entry: Entry;
+  rank: number;
+  snippet?: string; // Excerpt with matches wrapped in SNIPPET_HIGHLIGHT markers
+}
+
 export interface WeeklySummary {
   period: 'day' | 'week' | 'month';
   summary: string;
@@ -116,7 +253,8 @@ export interface WeeklySummary {
 // Multi-topic analysis types
 export interface TaskAction {
   action: 'complete' | 'update';
-  taskDescription: string; // Description to match existing task
+  taskId: string; // ID of the existing task the action applies to
+  taskDescription: string; // Description of that task, for display
   completionNotes?: string; // Notes when completing
   updates?: { assignee?: string; dueDate?: string; priority?: string }; // Updates to apply
 }
@@ -138,6 +276,7 @@ export interface MultiTopicAnalysis {
   topics: TopicEntry[];
   overallContext: string; // Overall context/description of the note
   suggestedPriority: 'LOW' | 'MEDIUM' | 'HIGH';
+  promptVersion?: string; // Prompt the model answered, as name@version/locale
 }
 
 export interface EntryRelation {
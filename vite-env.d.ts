@@ -1,11 +1,4 @@
 /// <reference types="vite/client" />
 
-interface ImportMetaEnv {
-  readonly VITE_OPENAI_API_KEY: string;
-  readonly VITE_NEON_DATABASE_URL: string;
-}
-
-interface ImportMeta {
-  readonly env: ImportMetaEnv;
-}
-
+// No VITE_ variables: database, OpenAI and storage settings are read by the
+// API server from process.env (services/env.ts) and never reach the bundle
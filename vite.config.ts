@@ -8,12 +8,12 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // API server (npm run dev:api); secrets stay in that process
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 3001}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.VITE_OPENAI_API_KEY': JSON.stringify(env.VITE_OPENAI_API_KEY),
-        'process.env.VITE_NEON_DATABASE_URL': JSON.stringify(env.VITE_NEON_DATABASE_URL),
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),